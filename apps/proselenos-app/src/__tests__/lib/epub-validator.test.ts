@@ -0,0 +1,111 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { validateEpub } from '@/lib/epub-validator';
+
+const CONTAINER = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+const xhtml = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Test</title></head>
+<body>${body}</body>
+</html>`;
+
+const NAV = xhtml(
+  '<nav epub:type="toc"><ol><li><a href="chapter-1.xhtml">Chapter 1</a></li></ol></nav>',
+);
+
+const MANIFEST = [
+  '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+  '<item id="chapter-1" href="chapter-1.xhtml" media-type="application/xhtml+xml"/>',
+];
+
+const opf = (manifest: string[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:00000000-0000-4000-8000-000000000000</dc:identifier>
+    <dc:title>Test</dc:title>
+    <dc:language>en</dc:language>
+    <meta property="dcterms:modified">2026-01-01T00:00:00Z</meta>
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    <itemref idref="chapter-1"/>
+  </spine>
+</package>`;
+
+async function buildEpub({
+  manifest = MANIFEST,
+  nav = NAV,
+  chapter = xhtml('<h1 id="start">Chapter 1</h1><p>Call me Ishmael.</p>'),
+}: { manifest?: string[]; nav?: string; chapter?: string } = {}): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', CONTAINER);
+  zip.file('OEBPS/content.opf', opf(manifest));
+  zip.file('OEBPS/nav.xhtml', nav);
+  zip.file('OEBPS/chapter-1.xhtml', chapter);
+  return zip.generateAsync({ type: 'uint8array' });
+}
+
+const errors = async (epub: Promise<Uint8Array>) =>
+  (await validateEpub(await epub)).issues
+    .filter((issue) => issue.severity === 'error')
+    .map(({ code, message }) => ({ code, message }));
+
+describe('validateEpub', () => {
+  it('finds no errors in a well-formed package', async () => {
+    expect(await errors(buildEpub())).toEqual([]);
+  });
+
+  it('reports a manifest item missing from the zip', async () => {
+    const manifest = [...MANIFEST, '<item id="map" href="images/map.png" media-type="image/png"/>'];
+    expect(await errors(buildEpub({ manifest }))).toEqual([
+      { code: 'RSC-001', message: 'Manifest item "images/map.png" was not found in the EPUB.' },
+    ]);
+  });
+
+  it('reports a navigation document without a usable table of contents', async () => {
+    expect(await errors(buildEpub({ nav: xhtml('<nav><ol></ol></nav>') }))).toEqual([
+      {
+        code: 'NAV-001',
+        message: 'The navigation document has no nav element with epub:type="toc".',
+      },
+    ]);
+    expect(await errors(buildEpub({ nav: xhtml('<nav epub:type="toc"><ol></ol></nav>') }))).toEqual(
+      [{ code: 'NAV-002', message: 'The table of contents has no entries.' }],
+    );
+    expect(await errors(buildEpub({ manifest: MANIFEST.slice(1) }))).toContainEqual({
+      code: 'RSC-005',
+      message: 'Exactly one manifest item must have the "nav" property (found 0).',
+    });
+  });
+
+  it('reports duplicate manifest and element ids', async () => {
+    const manifest = [
+      ...MANIFEST,
+      '<item id="chapter-1" href="chapter-2.xhtml" media-type="application/xhtml+xml"/>',
+    ];
+    expect(await errors(buildEpub({ manifest }))).toEqual([
+      { code: 'RSC-005', message: 'Duplicate manifest id "chapter-1".' },
+    ]);
+
+    const chapter = xhtml('<h1 id="start">Chapter 1</h1><p id="start">Call me Ishmael.</p>');
+    expect(await errors(buildEpub({ chapter }))).toEqual([
+      { code: 'RSC-005', message: 'Duplicate id "start".' },
+    ]);
+  });
+
+  it('reports a file that is not a zip archive', async () => {
+    const report = await validateEpub(new TextEncoder().encode('not an epub'));
+    expect(report.errorCount).toBe(1);
+    expect(report.issues[0]?.code).toBe('PKG-008');
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ManuscriptSearchIndex,
+  SEARCH_INDEX_VERSION,
+  buildSectionEntry,
+  searchIndex,
+  tokenize,
+} from '@/lib/manuscriptSearch';
+
+describe('tokenize', () => {
+  it('keeps accented words whole and folds their accents', () => {
+    expect(tokenize('naïve résumé')).toEqual(['naive', 'resume']);
+    expect(tokenize('Ça fait déjà l’été')).toEqual(['ca', 'fait', 'deja', 'l’ete']);
+    expect(tokenize('Straße Ångström')).toEqual(['straße', 'angstrom']);
+  });
+
+  it('drops stopwords and single letters and stems plurals', () => {
+    expect(tokenize('The whales and a lighthouse, with 2 ladies')).toEqual([
+      'whale',
+      'lighthouse',
+      'lady',
+    ]);
+    expect(tokenize("Ahab's ship")).toEqual(['ahab', 'ship']);
+  });
+});
+
+describe('searchIndex', () => {
+  const sections = {
+    one: 'Call me Ishmael.\n\nThe sea was calm.',
+    two: 'The lighthouse keeper lit the lamp.\n\nA café stood by the pier.',
+    three: 'Nobody mentioned the lighthouse again.',
+  };
+  const index: ManuscriptSearchIndex = {
+    version: SEARCH_INDEX_VERSION,
+    sections: Object.fromEntries(
+      Object.entries(sections).map(([id, text]) => [
+        id,
+        buildSectionEntry(id, `Chapter ${id}`, text, id),
+      ]),
+    ),
+  };
+
+  it('finds passages whatever the accents of the question', () => {
+    const [hit] = searchIndex(index, ['one', 'two', 'three'], 'cafe', 3);
+    expect(hit).toMatchObject({ sectionId: 'two', sectionIndex: 1 });
+  });
+
+  it('ignores question framing when there is content to search for', () => {
+    const hits = searchIndex(
+      index,
+      ['one', 'two', 'three'],
+      'Where did I first mention the lighthouse?',
+      5,
+    );
+    expect(hits.map((hit) => hit.sectionId).sort()).toEqual(['three', 'two']);
+  });
+
+  it('only searches the sections given', () => {
+    expect(searchIndex(index, ['one'], 'lighthouse', 5)).toEqual([]);
+  });
+});
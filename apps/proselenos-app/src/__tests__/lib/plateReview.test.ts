@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import type { Value } from 'platejs';
+import { getCommentKey } from '@platejs/comment';
+import { getSuggestionKey } from '@platejs/suggestion';
+import { plateToXhtml, xhtmlToPlainText } from '@/lib/plateXhtml';
+import { stripReviewMarkup, stripReviewMarkupFromXhtml } from '@/lib/plateReview';
+
+const suggestion = (id: string, type: 'insert' | 'remove' | 'update', extra = {}) => ({
+  id,
+  type,
+  userId: 'editor',
+  createdAt: 0,
+  ...extra,
+});
+
+const leaf = (text: string, id: string, type: 'insert' | 'remove' | 'update') => ({
+  text,
+  suggestion: true,
+  [getSuggestionKey(id)]: suggestion(id, type),
+});
+
+// Tracked changes of every kind, plus a comment anchor
+const reviewed: Value = [
+  {
+    type: 'p',
+    children: [
+      { text: 'Call me ' },
+      leaf('Ishmael', 's1', 'remove'),
+      leaf('Bob', 's2', 'insert'),
+      { text: '. Some ' },
+      { text: 'years', comment: true, [getCommentKey('c1')]: true },
+      { text: ' ago' },
+    ],
+  },
+  {
+    type: 'p',
+    suggestion: suggestion('s3', 'insert'),
+    children: [{ text: 'A whole new paragraph.' }],
+  },
+  {
+    type: 'p',
+    suggestion: suggestion('s4', 'insert', { isLineBreak: true }),
+    children: [{ text: 'Never mind how long' }],
+  },
+  { type: 'p', children: [{ text: 'precisely.' }] },
+  {
+    type: 'p',
+    suggestion: suggestion('s5', 'remove'),
+    children: [{ text: 'Kept until accepted.' }],
+  },
+];
+
+describe('review markup', () => {
+  it('rejects pending suggestions and drops comments for export', () => {
+    const xhtml = stripReviewMarkupFromXhtml(plateToXhtml(reviewed));
+    expect(xhtml).not.toContain('data-suggestion');
+    expect(xhtml).not.toContain('data-comment-ids');
+    expect(xhtml).not.toContain('Bob');
+    expect(xhtml).toContain('Call me Ishmael');
+    expect(xhtml).toContain('Never mind how longprecisely.');
+  });
+
+  it('leaves XHTML without review markup untouched', () => {
+    const xhtml = '<p data-fountain="action">INT. SHIP - NIGHT</p>\n';
+    expect(stripReviewMarkupFromXhtml(xhtml)).toBe(xhtml);
+  });
+
+  it('reads plain text as published, like the EPUB export', () => {
+    const published = xhtmlToPlainText(plateToXhtml(stripReviewMarkup(reviewed)));
+    expect(xhtmlToPlainText(plateToXhtml(reviewed))).toBe(published);
+    expect(published).toBe(
+      'Call me Ishmael. Some years ago\n\nNever mind how longprecisely.\n\nKept until accepted.',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { Value } from 'platejs';
+import { plateToXhtml, xhtmlToPlainText, xhtmlToPlate } from '@/lib/plateXhtml';
+
+const roundTrip = (value: Value) => xhtmlToPlate(plateToXhtml(value));
+
+const p = (text: string, props: Record<string, unknown> = {}) => ({
+  type: 'p',
+  ...props,
+  children: [{ text }],
+});
+
+describe('plateXhtml round trips', () => {
+  it('keeps tables with spans, backgrounds, column widths and block cells', () => {
+    const value: Value = [
+      {
+        type: 'table',
+        colSizes: [120, 0],
+        children: [
+          {
+            type: 'tr',
+            children: [
+              { type: 'th', children: [p('Name')] },
+              { type: 'th', background: '#eeeeee', children: [p('Role')] },
+            ],
+          },
+          {
+            type: 'tr',
+            children: [{ type: 'td', colSpan: 2, children: [p('Ishmael'), p('Narrator')] }],
+          },
+          {
+            type: 'tr',
+            children: [
+              {
+                type: 'td',
+                rowSpan: 2,
+                children: [{ type: 'p', children: [{ text: 'Ahab', bold: true }] }],
+              },
+              { type: 'td', children: [p('Captain')] },
+            ],
+          },
+        ],
+      },
+    ];
+    expect(plateToXhtml(value)).toContain('<col style="width: 120px"/>');
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('keeps code blocks line by line with their language', () => {
+    const value: Value = [
+      {
+        type: 'code_block',
+        lang: 'typescript',
+        children: [
+          { type: 'code_line', children: [{ text: 'if (a < b && c > d) {' }] },
+          { type: 'code_line', children: [{ text: '  return "whale";' }] },
+          { type: 'code_line', children: [{ text: '}' }] },
+        ],
+      },
+    ];
+    expect(plateToXhtml(value)).toContain('<pre><code class="language-typescript">');
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('keeps callouts with their icon and variant', () => {
+    const value: Value = [
+      {
+        type: 'callout',
+        icon: '💡',
+        variant: 'info',
+        children: [{ text: 'Call me ' }, { text: 'Ishmael', italic: true }, { text: '.' }],
+      },
+    ];
+    expect(plateToXhtml(value)).toContain(
+      '<aside class="callout" data-icon="💡" data-variant="info">',
+    );
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('keeps footnotes and their ids', () => {
+    const value: Value = [
+      {
+        type: 'footnote',
+        footnoteId: 'fn1',
+        children: [p('A whale is a spouting fish with a horizontal tail.')],
+      },
+    ];
+    expect(plateToXhtml(value)).toContain(
+      '<aside epub:type="footnote" role="doc-footnote" id="fn1">',
+    );
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('keeps the TeX source of block and inline equations', () => {
+    const value: Value = [
+      { type: 'equation', texExpression: 'E = mc^2', children: [{ text: '' }] },
+      {
+        type: 'p',
+        children: [
+          { text: 'where ' },
+          { type: 'inline_equation', texExpression: 'c', children: [{ text: '' }] },
+          { text: ' is the speed of light' },
+        ],
+      },
+    ];
+    const xhtml = plateToXhtml(value);
+    expect(xhtml).toContain('<annotation encoding="application/x-tex">E = mc^2</annotation>');
+    expect(xhtml).toContain('display="block"');
+    expect(xhtmlToPlate(xhtml)).toEqual(value);
+  });
+
+  it('keeps MathML without TeX as it was', () => {
+    const mathml =
+      '<math xmlns="http://www.w3.org/1998/Math/MathML" display="block"><mi>x</mi></math>';
+    const [equation] = xhtmlToPlate(mathml);
+    expect(equation).toMatchObject({ type: 'equation', texExpression: '' });
+    expect(plateToXhtml([equation!]).trim()).toBe(mathml);
+  });
+
+  it('keeps toggles and the blocks inside them', () => {
+    const value: Value = [
+      { type: 'toggle', children: [{ text: 'Spoilers' }] },
+      p('The whale wins.', { indent: 1 }),
+      { type: 'toggle', indent: 1, children: [{ text: 'More' }] },
+      p('So does the sea.', { indent: 2 }),
+      p('After the toggle'),
+    ];
+    const xhtml = plateToXhtml(value);
+    expect(xhtml).toContain('<details class="toggle">\n<summary>Spoilers</summary>');
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('keeps column layouts', () => {
+    const value: Value = [
+      {
+        type: 'column_group',
+        children: [
+          { type: 'column', width: '33.33%', children: [p('Left')] },
+          { type: 'column', width: '66.67%', children: [p('Right'), p('More right')] },
+        ],
+      },
+    ];
+    expect(plateToXhtml(value)).toContain('<div class="column" style="width: 33.33%">');
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('reads the new elements as plain text', () => {
+    const value: Value = [
+      { type: 'toggle', children: [{ text: 'Spoilers' }] },
+      p('The whale wins.', { indent: 1 }),
+      {
+        type: 'column_group',
+        children: [
+          { type: 'column', width: '50%', children: [p('Left')] },
+          { type: 'column', width: '50%', children: [p('Right')] },
+        ],
+      },
+    ];
+    expect(xhtmlToPlainText(plateToXhtml(value)).split(/\s+/)).toEqual([
+      'Spoilers',
+      'The',
+      'whale',
+      'wins.',
+      'Left',
+      'Right',
+    ]);
+  });
+});
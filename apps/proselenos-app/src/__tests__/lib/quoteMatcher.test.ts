@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { findQuote } from '@/lib/quoteMatcher';
+
+const TEXT =
+  'The rain had not stopped for three days. Mara watched it from the porch.\n\n' +
+  '“We should leave,” she said — and nobody answered. The rain had not stopped.';
+
+const slice = (match: { start: number; end: number } | null) =>
+  match ? TEXT.slice(match.start, match.end) : null;
+
+describe('findQuote', () => {
+  it('finds an exact quote at its offsets in the original text', () => {
+    const match = findQuote(TEXT, 'Mara watched it from the porch.');
+    expect(match?.exact).toBe(true);
+    expect(slice(match)).toBe('Mara watched it from the porch.');
+  });
+
+  it('ignores typography, whitespace and case', () => {
+    const match = findQuote(TEXT, '"we should   LEAVE," she said - and nobody');
+    expect(match?.exact).toBe(true);
+    expect(slice(match)).toBe('“We should leave,” she said — and nobody');
+  });
+
+  it('tells repeated passages apart by their context', () => {
+    const first = findQuote(TEXT, 'The rain had not stopped', { suffix: ' for three days' });
+    const second = findQuote(TEXT, 'The rain had not stopped', { prefix: 'nobody answered. ' });
+    expect(first?.start).toBe(0);
+    expect(second?.start).toBe(TEXT.lastIndexOf('The rain'));
+  });
+
+  it('finds a quote the author has since edited slightly', () => {
+    const match = findQuote(TEXT, 'Mara watched the rain from the porch.');
+    expect(match?.exact).toBe(false);
+    expect(slice(match)).toContain('from the porch.');
+  });
+
+  it('gives up on quotes that are too short or too different', () => {
+    expect(findQuote(TEXT, 'rian')).toBeNull();
+    expect(findQuote(TEXT, 'Something else entirely, about a train.')).toBeNull();
+    expect(findQuote(TEXT, '')).toBeNull();
+    expect(findQuote('', 'The rain')).toBeNull();
+  });
+});
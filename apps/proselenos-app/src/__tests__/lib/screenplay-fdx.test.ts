@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import type { Screenplay, ScreenplayElement } from '@/lib/screenplay';
+import { parseFdx, screenplayToFdx } from '@/lib/screenplay-fdx';
+
+const ELEMENTS: ScreenplayElement[] = [
+  { text: 'INT. LIGHTHOUSE - NIGHT', type: 'scene_heading' },
+  { text: 'Rain hammers the glass. MARA climbs the stairs & stops.', type: 'action' },
+  { text: 'MARA', type: 'character' },
+  { text: '(out of breath)', type: 'parenthetical' },
+  { text: 'The lamp is out. "Again."', type: 'dialogue' },
+  { text: 'MARA', type: 'character', dual: 'left' },
+  { text: 'Who is there?', type: 'dialogue' },
+  { text: 'TOM', type: 'character', dual: 'right' },
+  { text: 'Only me.', type: 'dialogue' },
+  { text: 'CUT TO:', type: 'transition' },
+  { text: '===', type: 'page_break' },
+  { text: 'THE END', type: 'centered' },
+];
+
+const screenplay = (titlePage: Record<string, string>): Screenplay => ({
+  title: titlePage.Title ?? '',
+  author: titlePage.Author ?? '',
+  titlePage,
+  elements: ELEMENTS,
+});
+
+describe('Final Draft round trip', () => {
+  it('reads back the elements it writes', () => {
+    expect(parseFdx(screenplayToFdx(screenplay({}))).elements).toEqual(ELEMENTS);
+  });
+
+  it('reads back a multi-line title, the credit and the authors', () => {
+    const titlePage = {
+      Title: 'THE LIGHTHOUSE\nKEEPER',
+      Credit: 'Written by',
+      Author: 'Mara Quinn\nTom Reyes',
+      Source: 'Based on a story by Ann Lee',
+      Contact: '12 Harbour Road\nmara@example.com',
+      'Draft date': 'Second draft',
+    };
+    expect(parseFdx(screenplayToFdx(screenplay(titlePage))).titlePage).toEqual(titlePage);
+  });
+
+  it('tells the title from the authors without a credit line', () => {
+    const titlePage = { Title: 'THE LIGHTHOUSE\nKEEPER', Author: 'Mara Quinn' };
+    expect(parseFdx(screenplayToFdx(screenplay(titlePage))).titlePage).toEqual(titlePage);
+  });
+
+  it('refuses a file that is not Final Draft XML', () => {
+    expect(() => parseFdx('<html></html>')).toThrow('Not a Final Draft (.fdx) document');
+  });
+});
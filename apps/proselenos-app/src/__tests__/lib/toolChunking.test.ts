@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { fitsInContext, getChunkBudget, planChunks } from '@/lib/toolChunking';
+
+// One character per token keeps the arithmetic readable
+const chapter = (title: string, length: number) => ({ title, text: 'x'.repeat(length) });
+
+describe('getChunkBudget', () => {
+  it('leaves room for the reply, the prompt and a safety margin', () => {
+    // 32k window: 8k reserved for the reply, 500 for framing, 90% of the rest
+    expect(getChunkBudget(32_000, 0)).toBe(21_150);
+    expect(getChunkBudget(32_000, 1_000)).toBe(20_250);
+  });
+
+  it('never plans chunks below the minimum size', () => {
+    expect(getChunkBudget(4_000, 3_000)).toBe(2_000);
+  });
+});
+
+describe('planChunks', () => {
+  it('plans no chunks for an empty manuscript', () => {
+    expect(planChunks([], 100, 1)).toEqual([]);
+  });
+
+  it('packs whole chapters up to the budget and starts a new chunk past it', () => {
+    // Each chapter is 50 tokens once formatted ("\n\nA\n\n" + 45 characters)
+    const chapters = [chapter('A', 45), chapter('B', 45), chapter('C', 45)];
+    expect(planChunks(chapters, 100, 1).map((chunk) => chunk.titles)).toEqual([['A', 'B'], ['C']]);
+    expect(planChunks(chapters, 99, 1).map((chunk) => chunk.titles)).toEqual([['A'], ['B'], ['C']]);
+  });
+
+  it('splits a chapter larger than the budget at paragraph breaks', () => {
+    const paragraphs = ['a', 'b', 'c', 'd', 'e'].map((letter) => letter.repeat(30));
+    const chunks = planChunks(
+      [chapter('Short', 10), { title: 'Long', text: paragraphs.join('\n\n') }],
+      100,
+      1,
+    );
+
+    expect(chunks.map((chunk) => chunk.titles)).toEqual([
+      ['Short'],
+      ['Long (part 1 of 3)'],
+      ['Long (part 2 of 3)'],
+      ['Long (part 3 of 3)'],
+    ]);
+    expect(chunks.every((chunk) => chunk.tokens <= 100)).toBe(true);
+    expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2, 3]);
+
+    const text = chunks.map((chunk) => chunk.text).join('');
+    expect(text.match(/[a-e]{30}/g)).toEqual(paragraphs);
+  });
+
+  it('keeps a single paragraph larger than the budget whole', () => {
+    const chunks = planChunks([chapter('Wall of text', 500)], 100, 1);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.titles).toEqual(['Wall of text']);
+    expect(chunks[0]!.text).toContain('x'.repeat(500));
+  });
+});
+
+describe('fitsInContext', () => {
+  it('allows the merge pass only while the request fits one chunk budget', () => {
+    // 21,150 tokens at the estimate's 4 characters per token
+    expect(fitsInContext('x'.repeat(84_600), 32_000)).toBe(true);
+    expect(fitsInContext('x'.repeat(84_601), 32_000)).toBe(false);
+  });
+});
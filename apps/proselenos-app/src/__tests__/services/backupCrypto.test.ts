@@ -0,0 +1,61 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { decryptBackup, encryptBackup, importPassphrase } from '@/services/backupCrypto';
+
+const PASSPHRASE = 'correct horse battery staple';
+const data = new TextEncoder().encode('{"books":[],"projects":["Moby-Dick"]}').buffer;
+
+describe('backup encryption', () => {
+  it('decrypts what it encrypts with the same passphrase', async () => {
+    const { ciphertext, encryption } = await encryptBackup(
+      data,
+      await importPassphrase(PASSPHRASE),
+    );
+    expect(encryption).toMatchObject({
+      algorithm: 'AES-GCM',
+      kdf: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: 600_000,
+    });
+    expect(new Uint8Array(ciphertext)).not.toEqual(new Uint8Array(data));
+
+    const decrypted = await decryptBackup(ciphertext, PASSPHRASE, encryption);
+    expect(new Uint8Array(decrypted)).toEqual(new Uint8Array(data));
+  });
+
+  it('uses a fresh salt and IV for every backup', async () => {
+    const keyMaterial = await importPassphrase(PASSPHRASE);
+    const first = await encryptBackup(data, keyMaterial);
+    const second = await encryptBackup(data, keyMaterial);
+    expect(second.encryption.salt).not.toBe(first.encryption.salt);
+    expect(second.encryption.iv).not.toBe(first.encryption.iv);
+  });
+
+  it('refuses a wrong passphrase or an altered file', async () => {
+    const { ciphertext, encryption } = await encryptBackup(
+      data,
+      await importPassphrase(PASSPHRASE),
+    );
+    await expect(decryptBackup(ciphertext, 'wrong passphrase', encryption)).rejects.toThrow(
+      'Wrong passphrase, or the backup file is damaged.',
+    );
+
+    const altered = new Uint8Array(ciphertext.slice(0));
+    altered[0] = altered[0]! ^ 1;
+    await expect(decryptBackup(altered.buffer, PASSPHRASE, encryption)).rejects.toThrow(
+      'Wrong passphrase, or the backup file is damaged.',
+    );
+  });
+
+  it('refuses key derivation settings outside the accepted range', async () => {
+    const { ciphertext, encryption } = await encryptBackup(
+      data,
+      await importPassphrase(PASSPHRASE),
+    );
+    for (const iterations of [1, 99_999, 6_000_001, 600_000.5, NaN]) {
+      await expect(
+        decryptBackup(ciphertext, PASSPHRASE, { ...encryption, iterations }),
+      ).rejects.toThrow(/^Not a valid backup file/);
+    }
+  });
+});
@@ -0,0 +1,179 @@
+// @vitest-environment node
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { POST } from '@/app/api/kosync/route';
+import { KOSyncClient, getKOSyncDocumentDigest, getKOSyncUserkey } from '@/services/kosyncClient';
+import { Book } from '@/types/book';
+import { KoSyncProgress } from '@/types/kosync';
+import { KOSyncSettings } from '@/types/settings';
+
+// A minimal kosync server, following koreader-sync-server's responses
+const createMockServer = () => {
+  const users = new Map<string, string>();
+  const progress = new Map<string, KoSyncProgress>();
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const reply = (status: number, data: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      };
+      const user = req.headers['x-auth-user'] as string | undefined;
+      const isAuthorized = !!user && users.get(user) === req.headers['x-auth-key'];
+
+      if (req.method === 'POST' && req.url === '/users/create') {
+        const { username, password } = JSON.parse(body);
+        if (users.has(username))
+          return reply(402, { code: 2002, message: 'Username is already registered.' });
+        users.set(username, password);
+        return reply(201, { username });
+      }
+      if (!isAuthorized) return reply(401, { code: 2001, message: 'Unauthorized' });
+      if (req.method === 'GET' && req.url === '/users/auth')
+        return reply(200, { authorized: 'OK' });
+      if (req.method === 'PUT' && req.url === '/syncs/progress') {
+        const update = JSON.parse(body);
+        const timestamp = Math.floor(Date.now() / 1000);
+        progress.set(`${user}/${update.document}`, { ...update, timestamp });
+        return reply(200, { document: update.document, timestamp });
+      }
+      const match = req.url?.match(/^\/syncs\/progress\/(.+)$/);
+      if (req.method === 'GET' && match) {
+        return reply(200, progress.get(`${user}/${decodeURIComponent(match[1]!)}`) ?? {});
+      }
+      reply(404, { message: 'Not found' });
+    });
+  });
+
+  return { server, users, progress };
+};
+
+const book = {
+  hash: '0123456789abcdef0123456789abcdef',
+  format: 'EPUB',
+  title: 'Moby-Dick',
+  sourceTitle: 'moby-dick',
+  author: 'Herman Melville',
+  createdAt: 0,
+  updatedAt: 0,
+} as Book;
+
+describe('KOSyncClient', () => {
+  const mock = createMockServer();
+  let settings: KOSyncSettings;
+
+  beforeAll(async () => {
+    await new Promise<void>((resolve) => mock.server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => mock.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.users.clear();
+    mock.progress.clear();
+    const { port } = mock.server.address() as AddressInfo;
+    settings = {
+      enabled: true,
+      // A LAN address, which the client calls directly rather than through /api/kosync
+      serverUrl: `http://127.0.0.1:${port}/`,
+      username: '',
+      userkey: '',
+      deviceId: 'device-1',
+      deviceName: 'Test Device',
+      checksumMethod: 'binary',
+      strategy: 'prompt',
+    };
+  });
+
+  it('registers unknown users, then logs them in', async () => {
+    const client = new KOSyncClient(settings);
+    const registered = await client.connect('ishmael', 'whale');
+    expect(registered).toEqual({
+      success: true,
+      message: 'Account registered',
+      userkey: getKOSyncUserkey('whale'),
+    });
+    expect(mock.users.get('ishmael')).toBe(getKOSyncUserkey('whale'));
+
+    const loggedIn = await client.connect('ishmael', 'whale');
+    expect(loggedIn.message).toBe('Logged in');
+  });
+
+  it('rejects a wrong password for an existing user', async () => {
+    mock.users.set('ishmael', getKOSyncUserkey('whale'));
+    const result = await new KOSyncClient(settings).connect('ishmael', 'squid');
+    expect(result).toEqual({ success: false, message: 'Invalid username or password' });
+  });
+
+  it('pushes and pulls progress', async () => {
+    mock.users.set('ishmael', getKOSyncUserkey('whale'));
+    const client = new KOSyncClient({
+      ...settings,
+      username: 'ishmael',
+      userkey: getKOSyncUserkey('whale'),
+    });
+
+    expect(await client.getProgress(book)).toBeNull();
+    expect(await client.updateProgress(book, '/body/DocFragment[3]/body/p[2]', 0.123456)).toBe(
+      true,
+    );
+
+    const progress = await client.getProgress(book);
+    expect(progress).toMatchObject({
+      document: book.hash,
+      progress: '/body/DocFragment[3]/body/p[2]',
+      percentage: 0.1235,
+      device: 'Test Device',
+      device_id: 'device-1',
+    });
+  });
+
+  it('identifies documents by filename when configured', async () => {
+    expect(getKOSyncDocumentDigest(book, 'binary')).toBe(book.hash);
+    expect(getKOSyncDocumentDigest(book, 'filename')).toBe(getKOSyncUserkey('moby-dick.epub'));
+  });
+
+  it('does not push or pull without credentials', async () => {
+    const client = new KOSyncClient(settings);
+    expect(await client.updateProgress(book, 'x', 0.5)).toBe(false);
+    expect(await client.getProgress(book)).toBeNull();
+    expect(mock.progress.size).toBe(0);
+  });
+});
+
+describe('/api/kosync', () => {
+  const post = (payload: unknown) =>
+    POST(
+      new Request('http://localhost/api/kosync', {
+        method: 'POST',
+        body: JSON.stringify(payload),
+      }),
+    );
+
+  it('refuses to forward requests to private addresses', async () => {
+    for (const serverUrl of ['http://127.0.0.1:7200', 'http://[::1]', 'http://169.254.169.254']) {
+      const response = await post({
+        serverUrl,
+        endpoint: '/users/auth',
+        method: 'GET',
+        headers: {},
+      });
+      expect(response.status, serverUrl).toBe(403);
+    }
+  });
+
+  it('only forwards the kosync API', async () => {
+    const response = await post({
+      serverUrl: 'http://203.0.113.10',
+      endpoint: '/admin',
+      method: 'GET',
+      headers: {},
+    });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { BookDoc, SectionItem } from '@/libs/document';
+import {
+  alignByLength,
+  alignParagraphs,
+  alignSections,
+  flipAnchors,
+  getParagraphs,
+  getRangeAtFraction,
+  getSectionOutline,
+  getTextFraction,
+  mapAligned,
+} from '@/utils/alignment';
+
+const parse = (html: string) => new DOMParser().parseFromString(html, 'text/html');
+
+describe('alignByLength', () => {
+  it('pairs units one to one when the lengths agree', () => {
+    expect(alignByLength([100, 300, 50, 200], [110, 320, 55, 210])).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it('merges two units that were translated as one', () => {
+    // B joins A's second and third units
+    expect(alignByLength([200, 150, 150, 300], [220, 330, 310])).toEqual([
+      [0, 0],
+      [1, 1],
+      [3, 2],
+    ]);
+  });
+
+  it('skips a unit missing from the other side', () => {
+    expect(alignByLength([400, 30, 500, 600], [420, 510, 590])).toEqual([
+      [0, 0],
+      [2, 1],
+      [3, 2],
+    ]);
+  });
+
+  it('scales by the overall length ratio of the translation', () => {
+    expect(alignByLength([100, 200, 300], [150, 300, 450])).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 2],
+    ]);
+  });
+
+  it('returns no anchors for an empty side', () => {
+    expect(alignByLength([], [1, 2])).toEqual([]);
+    expect(alignByLength([1, 2], [])).toEqual([]);
+  });
+});
+
+describe('mapAligned', () => {
+  const anchors: Array<[number, number]> = [
+    [0, 0],
+    [1, 1],
+    [3, 2],
+  ];
+
+  it('maps units between anchors to the previous anchor', () => {
+    expect([0, 1, 2, 3, 4].map((i) => mapAligned(anchors, i))).toEqual([0, 1, 1, 2, 2]);
+  });
+
+  it('maps back from B to A', () => {
+    expect([0, 1, 2].map((j) => mapAligned(anchors, j, true))).toEqual([0, 1, 3]);
+    expect(mapAligned(flipAnchors(anchors), 2)).toBe(3);
+  });
+
+  it('maps to the start without anchors', () => {
+    expect(mapAligned([], 5)).toBe(0);
+  });
+});
+
+describe('alignSections', () => {
+  const createBookDoc = (sections: Array<[id: string, size: number, label?: string]>): BookDoc =>
+    ({
+      metadata: {} as BookDoc['metadata'],
+      dir: 'ltr',
+      toc: sections
+        .filter(([, , label]) => label)
+        .map(([id, , label], i) => ({ id: i, label: label!, href: `${id}#start` })),
+      sections: sections.map(
+        ([id, size]): SectionItem => ({
+          id,
+          cfi: '',
+          size,
+          linear: id === 'notes' ? 'no' : 'yes',
+          createDocument: async () => parse(''),
+        }),
+      ),
+      splitTOCHref: (href: string) => href.split('#'),
+      getCover: async () => null,
+    }) as BookDoc;
+
+  it('outlines the linear sections with their TOC labels', () => {
+    const outline = getSectionOutline(
+      createBookDoc([
+        ['cover', 0],
+        ['one', 1000, 'Chapter 1'],
+        ['notes', 500, 'Notes'],
+        ['two', 2000],
+      ]),
+    );
+    expect(outline).toEqual([
+      { index: 1, size: 1000, label: 'Chapter 1' },
+      { index: 3, size: 2000, label: undefined },
+    ]);
+  });
+
+  it('lines up chapters, taking a chapter split in two as one', () => {
+    const original = getSectionOutline(
+      createBookDoc([
+        ['c1', 5000, 'Chapter 1'],
+        ['c2', 5000, 'Chapter 2'],
+        ['c3', 5000, 'Chapter 3'],
+      ]),
+    );
+    const translation = getSectionOutline(
+      createBookDoc([
+        ['k1', 5600, 'Kapitel I'],
+        ['k2a', 2600, 'Kapitel II'],
+        ['k2b', 2800],
+        ['k3', 5500, 'Kapitel III'],
+      ]),
+    );
+    expect(alignSections(original, translation)).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 3],
+    ]);
+  });
+});
+
+describe('paragraphs', () => {
+  const doc = parse(
+    '<body><h1>Title</h1><div><p>First <em>paragraph</em>.</p><p>  </p></div>' +
+      '<blockquote><p>Quoted.</p></blockquote><ul><li>Item</li></ul></body>',
+  );
+
+  it('finds the innermost text blocks in document order', () => {
+    expect(getParagraphs(doc).map((block) => block.textContent)).toEqual([
+      'Title',
+      'First paragraph.',
+      'Quoted.',
+      'Item',
+    ]);
+  });
+
+  it('aligns paragraphs by their text length', () => {
+    const translated = parse(
+      '<body><h1>Titel</h1><p>Erster Absatz.</p><p>Zitiert.</p><ul><li>Punkt</li></ul></body>',
+    );
+    expect(alignParagraphs(getParagraphs(doc), getParagraphs(translated))).toEqual([
+      [0, 0],
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+  });
+
+  it('converts between text positions and fractions of a block', () => {
+    const block = getParagraphs(doc)[1]!;
+    const emphasis = block.querySelector('em')!.firstChild!;
+    expect(getTextFraction(block, emphasis, 0)).toBeCloseTo(6 / 16);
+
+    const range = getRangeAtFraction(block, 0.5);
+    expect(range.collapsed).toBe(true);
+    expect(range.startContainer).toBe(emphasis);
+    expect(range.startOffset).toBe(2);
+    expect(getTextFraction(block, range.startContainer, range.startOffset)).toBeCloseTo(0.5);
+  });
+});
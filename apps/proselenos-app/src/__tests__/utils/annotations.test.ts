@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import { BookDoc, SectionItem } from '@/libs/document';
+import { BookNote } from '@/types/book';
+import { exportAnnotationsCSV, importAnnotations, parseLua, toLua } from '@/utils/annotations';
+
+const SECTION_HTML = [
+  '<html><body><p>Call me Ishmael.</p></body></html>',
+  '<html><body><p>It is a way I have of driving off the spleen,\n and regulating the circulation.</p></body></html>',
+];
+
+const createBookDoc = (): BookDoc => ({
+  metadata: {
+    title: 'Moby-Dick',
+    author: 'Herman Melville',
+    language: 'en',
+  } as BookDoc['metadata'],
+  dir: 'ltr',
+  toc: [],
+  sections: SECTION_HTML.map(
+    (html, index): SectionItem => ({
+      id: `chapter${index + 1}.xhtml`,
+      cfi: `/6/${(index + 1) * 2}`,
+      size: html.length,
+      linear: 'yes',
+      createDocument: async () => new DOMParser().parseFromString(html, 'text/html'),
+    }),
+  ),
+  splitTOCHref: () => [],
+  getCover: async () => null,
+});
+
+const note = (overrides: Partial<BookNote>): BookNote => ({
+  id: overrides.cfi ?? 'note',
+  type: 'annotation',
+  cfi: 'epubcfi(/6/2!/4/2/1:0,/1:4)',
+  text: 'Call',
+  note: '',
+  style: 'highlight',
+  color: 'yellow',
+  createdAt: Date.UTC(2026, 0, 1),
+  updatedAt: Date.UTC(2026, 0, 2),
+  ...overrides,
+});
+
+describe('parseLua', () => {
+  it('reads the table constructors KOReader writes', () => {
+    const source = `-- ./metadata.epub.lua
+return {
+    ["annotations"] = {
+        [1] = {
+            ["chapter"] = "Loomings",
+            ["datetime"] = "2026-01-01 10:00:00",
+            ["pos0"] = "/body/DocFragment[2]/body/p[1]/text().0",
+            ["text"] = "Call me \\"Ishmael\\".\\nA line\\
+break",
+        },
+    },
+    ["doc_pages"] = 635,
+    ["percent_finished"] = 0.25,
+    ["summary"] = { ["status"] = "reading" },
+    hidden = true,
+    [ [[long key]] ] = [==[long ]] string]==],
+    nothing = nil,
+}`;
+    // As in Lua, a nil value leaves the key out
+    expect(parseLua(source)).toEqual({
+      annotations: [
+        {
+          chapter: 'Loomings',
+          datetime: '2026-01-01 10:00:00',
+          pos0: '/body/DocFragment[2]/body/p[1]/text().0',
+          text: 'Call me "Ishmael".\nA line\nbreak',
+        },
+      ],
+      doc_pages: 635,
+      percent_finished: 0.25,
+      summary: { status: 'reading' },
+      hidden: true,
+      'long key': 'long ]] string',
+    });
+  });
+
+  it('reads back what toLua writes', () => {
+    const value = {
+      annotations: [{ text: 'Tab\there, "quoted" and \\ slashed\x01', page: 12 }],
+      flags: { bold: false, ratio: -1.5e-3 },
+    };
+    expect(parseLua(`return ${toLua(value)}`)).toEqual(value);
+  });
+
+  it('reports where a file stops making sense', () => {
+    expect(() => parseLua('return { ["a"] = }')).toThrow(/offset \d+ of the Lua file/);
+  });
+});
+
+describe('CSV annotations', () => {
+  it('reads back what it exports, with quoted commas, quotes and line breaks', async () => {
+    const bookDoc = createBookDoc();
+    const notes = [
+      note({ note: 'A note, with "quotes"\nand a second line' }),
+      note({
+        type: 'bookmark',
+        cfi: 'epubcfi(/6/4!/4/2/1:0)',
+        text: 'It is a way',
+        note: '',
+        style: undefined,
+        color: undefined,
+      }),
+    ];
+    const csv = exportAnnotationsCSV(bookDoc, notes);
+    expect(csv.split('\r\n')[0]).toBe('type,chapter,text,note,style,color,cfi,created,updated');
+
+    const imported = await importAnnotations(csv, 'notes.csv', bookDoc);
+    expect(imported).toEqual(notes.map(({ id: _id, ...rest }) => rest));
+  });
+
+  it('places rows without a CFI by searching for their text', async () => {
+    const bookDoc = createBookDoc();
+    const csv =
+      '\uFEFFText,Note\r\n' +
+      '"driving off the spleen, and regulating",Whitespace differs\r\n' +
+      'Not in this book,Left out\r\n';
+    const [found, ...rest] = await importAnnotations(csv, 'notes.csv', bookDoc);
+    expect(rest).toEqual([]);
+    expect(found).toMatchObject({
+      type: 'annotation',
+      text: 'driving off the spleen, and regulating',
+      note: 'Whitespace differs',
+      style: 'highlight',
+      color: 'yellow',
+    });
+    expect(found?.cfi).toMatch(/^epubcfi\(\/6\/4!/);
+  });
+
+  it('needs a CFI or a text column', async () => {
+    await expect(
+      importAnnotations('note\r\nhello\r\n', 'notes.csv', createBookDoc()),
+    ).rejects.toThrow(/"cfi" or a "text" column/);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createDialogueContext, findCharacters, findDialogue } from '@/utils/dialogue';
+
+const speakersOf = (paragraphs: string[]) => {
+  const context = createDialogueContext();
+  return paragraphs.map((paragraph) => findDialogue(paragraph, context).map((s) => s.speaker));
+};
+
+describe('findDialogue', () => {
+  it('finds the quotes and their offsets', () => {
+    const paragraph = '“Come in,” Anna said. She opened the door. “Quickly.”';
+    const spans = findDialogue(paragraph, createDialogueContext());
+    expect(spans.map(({ start, end }) => paragraph.slice(start, end))).toEqual([
+      '“Come in,”',
+      '“Quickly.”',
+    ]);
+    expect(spans.every((span) => span.speaker === 'Anna')).toBe(true);
+  });
+
+  it('attributes from the narration after or before the quote', () => {
+    expect(speakersOf(['"Hello," said Tom.'])).toEqual([['Tom']]);
+    expect(speakersOf(['"Hello," Tom whispered.'])).toEqual([['Tom']]);
+    expect(speakersOf(['Dr. Watson said quietly, "Hello."'])).toEqual([['Dr. Watson']]);
+    expect(speakersOf(['Mary: "Hello."'])).toEqual([['Mary']]);
+  });
+
+  it('does not take pronouns or sentence openers for names', () => {
+    expect(speakersOf(['"Hello," she said.'])).toEqual([[null]]);
+    expect(speakersOf(['"Hello," Then Anna said.'])).toEqual([['Anna']]);
+  });
+
+  it('follows the back-and-forth of a two-person exchange', () => {
+    expect(
+      speakersOf([
+        '"Where were you?" Anna asked.',
+        '"Out," Tom replied.',
+        '"Out where?"',
+        '"Just out."',
+      ]),
+    ).toEqual([['Anna'], ['Tom'], ['Anna'], ['Tom']]);
+  });
+
+  it('carries a speech on across paragraphs left without a closing quote', () => {
+    expect(
+      speakersOf(['“It was late,” Anna said. “The road was dark', '“and nobody came.”']),
+    ).toEqual([['Anna', 'Anna'], ['Anna']]);
+  });
+
+  it('tells single quotes from apostrophes', () => {
+    const paragraph = "‘Don’t go,’ said Ben. It's late, and the dog’s asleep.";
+    const spans = findDialogue(paragraph, createDialogueContext());
+    expect(spans.map(({ start, end }) => paragraph.slice(start, end))).toEqual(['‘Don’t go,’']);
+    expect(spans[0]?.speaker).toBe('Ben');
+  });
+});
+
+describe('findCharacters', () => {
+  it('counts the paragraphs each speaker has, most talkative first', () => {
+    expect(
+      findCharacters([
+        '"One," said Tom.',
+        '"Two," said Anna.',
+        '"Three."',
+        'No dialogue here.',
+        '"Four," said Anna.',
+        '"Five," said Mia.',
+      ]),
+    ).toEqual([
+      { name: 'Anna', lines: 2 },
+      { name: 'Tom', lines: 2 },
+      { name: 'Mia', lines: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { diffSideBySide } from '@/utils/diff';
+
+describe('diffSideBySide', () => {
+  it('lines up unchanged text on both sides', () => {
+    expect(diffSideBySide('One.\nTwo.', 'One.\nTwo.')).toEqual([
+      { type: 'equal', left: 'One.', right: 'One.' },
+      { type: 'equal', left: 'Two.', right: 'Two.' },
+    ]);
+  });
+
+  it('puts an edited paragraph on the same row as the old one', () => {
+    expect(diffSideBySide('One.\nTwo.\nThree.', 'One.\nTwo, edited.\nThree.')).toEqual([
+      { type: 'equal', left: 'One.', right: 'One.' },
+      { type: 'changed', left: 'Two.', right: 'Two, edited.' },
+      { type: 'equal', left: 'Three.', right: 'Three.' },
+    ]);
+  });
+
+  it('shows removed and added paragraphs against an empty side', () => {
+    expect(diffSideBySide('One.\nTwo.\nThree.', 'One.\nThree.\nFour.')).toEqual([
+      { type: 'equal', left: 'One.', right: 'One.' },
+      { type: 'removed', left: 'Two.', right: null },
+      { type: 'equal', left: 'Three.', right: 'Three.' },
+      { type: 'added', left: null, right: 'Four.' },
+    ]);
+  });
+
+  it('pairs a longer run of changes and leaves the rest unpaired', () => {
+    expect(diffSideBySide('Keep.\nA.\nB.', 'Keep.\nX.')).toEqual([
+      { type: 'equal', left: 'Keep.', right: 'Keep.' },
+      { type: 'changed', left: 'A.', right: 'X.' },
+      { type: 'removed', left: 'B.', right: null },
+    ]);
+  });
+
+  it('ignores blank lines and surrounding whitespace', () => {
+    expect(diffSideBySide('One.\n\n  Two.  ', '\nOne.\nTwo.\n')).toEqual([
+      { type: 'equal', left: 'One.', right: 'One.' },
+      { type: 'equal', left: '  Two.  ', right: 'Two.' },
+    ]);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffSideBySide('', 'New.')).toEqual([{ type: 'added', left: null, right: 'New.' }]);
+    expect(diffSideBySide('Old.', '')).toEqual([{ type: 'removed', left: 'Old.', right: null }]);
+    expect(diffSideBySide('', '')).toEqual([]);
+  });
+});
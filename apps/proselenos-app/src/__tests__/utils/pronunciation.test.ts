@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PronunciationEntry } from '@/types/book';
+import { applyPronunciations, exportPLS, parsePLS } from '@/utils/pronunciation';
+
+describe('applyPronunciations', () => {
+  it('marks up whole words, longest first', () => {
+    const entries: PronunciationEntry[] = [
+      { grapheme: 'Jon', alias: 'John' },
+      { grapheme: 'Jon Snow', phoneme: 'dʒɒn snoʊ' },
+    ];
+    expect(applyPronunciations('<speak>Jon Snow met Jon at Jonestown.</speak>', entries)).toBe(
+      '<speak><phoneme alphabet="ipa" ph="dʒɒn snoʊ">Jon Snow</phoneme> met ' +
+        '<sub alias="John">Jon</sub> at Jonestown.</speak>',
+    );
+  });
+
+  it('leaves text already inside <sub> or <phoneme> alone', () => {
+    const ssml =
+      '<speak><sub alias="Mister Smith">Smith</sub> and ' +
+      '<phoneme alphabet="ipa" ph="smɪθ">Smith</phoneme> met Smith.</speak>';
+    expect(applyPronunciations(ssml, [{ grapheme: 'Smith', alias: 'Smyth' }])).toBe(
+      '<speak><sub alias="Mister Smith">Smith</sub> and ' +
+        '<phoneme alphabet="ipa" ph="smɪθ">Smith</phoneme> met <sub alias="Smyth">Smith</sub>.</speak>',
+    );
+  });
+
+  it('does not match inside entities and keeps the text escaped', () => {
+    const entries: PronunciationEntry[] = [
+      { grapheme: 'amp', alias: 'amplifier' },
+      { grapheme: 'quot', alias: 'quota' },
+      { grapheme: 'R&D', alias: 'research and development' },
+    ];
+    expect(applyPronunciations('<speak>&quot;R&amp;D&quot; &amp; the amp.</speak>', entries)).toBe(
+      '<speak>&quot;<sub alias="research and development">R&amp;D</sub>&quot; &amp; the ' +
+        '<sub alias="amplifier">amp</sub>.</speak>',
+    );
+  });
+
+  it('returns text without a match unchanged', () => {
+    const ssml = '<speak>Tom&apos;s &#x201C;boat&#x201D;</speak>';
+    expect(applyPronunciations(ssml, [{ grapheme: 'ship', alias: 'sheep' }])).toBe(ssml);
+  });
+});
+
+describe('PLS files', () => {
+  it('reads back what exportPLS writes', () => {
+    const entries: PronunciationEntry[] = [
+      { grapheme: 'Daenerys', phoneme: 'dəˈnɛərɪs' },
+      { grapheme: 'AT&T', alias: 'A T and T' },
+      { grapheme: 'Qo"noS', alias: 'Kronos', phoneme: 'ˈqʰoʔnoʃ' },
+      { grapheme: '\\bSt\\.(?= [A-Z])', alias: 'Saint', regex: true },
+    ];
+    expect(parsePLS(exportPLS(entries))).toEqual(entries);
+  });
+
+  it('refuses a file that is not a lexicon', () => {
+    expect(() => parsePLS('<speak>Hello</speak>')).toThrow(
+      'Not a pronunciation lexicon (PLS) file',
+    );
+  });
+});
@@ -0,0 +1,105 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProxyFetchError, assertPublicURL, isPublicAddress, proxyFetch } from '@/utils/proxyFetch';
+
+// Documentation addresses stand in for public hosts, so no DNS is needed
+const PUBLIC_URL = 'http://203.0.113.10/catalog.xml';
+
+describe('isPublicAddress', () => {
+  it('accepts public addresses', () => {
+    expect(isPublicAddress('203.0.113.10')).toBe(true);
+    expect(isPublicAddress('8.8.8.8')).toBe(true);
+    expect(isPublicAddress('2606:4700:4700::1111')).toBe(true);
+  });
+
+  it('refuses loopback, private, link-local and unique-local addresses', () => {
+    for (const address of [
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fe80::1',
+      'fd12:3456::1',
+      '::ffff:127.0.0.1',
+      '::ffff:7f00:1',
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPublicAddress('localhost')).toBe(false);
+  });
+});
+
+describe('assertPublicURL', () => {
+  it('refuses private hosts, other protocols and credentials', async () => {
+    await expect(assertPublicURL(new URL('http://127.0.0.1:8080/'))).rejects.toThrow(
+      ProxyFetchError,
+    );
+    await expect(assertPublicURL(new URL('http://[::1]/'))).rejects.toThrow(ProxyFetchError);
+    await expect(assertPublicURL(new URL('http://2130706433/'))).rejects.toThrow(ProxyFetchError);
+    await expect(assertPublicURL(new URL('file:///etc/passwd'))).rejects.toThrow(ProxyFetchError);
+    await expect(assertPublicURL(new URL('http://user:pw@203.0.113.10/'))).rejects.toThrow(
+      ProxyFetchError,
+    );
+    await expect(assertPublicURL(new URL(PUBLIC_URL))).resolves.toBeUndefined();
+  });
+});
+
+describe('proxyFetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const stubFetch = (...responses: Response[]) => {
+    const fetchMock = vi.fn();
+    for (const response of responses) fetchMock.mockResolvedValueOnce(response);
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  };
+
+  it('follows redirects to public hosts by hand', async () => {
+    const fetchMock = stubFetch(
+      new Response(null, { status: 302, headers: { location: '/moved.xml' } }),
+      new Response('<feed/>', { headers: { 'content-type': 'application/atom+xml' } }),
+    );
+    const { response, url } = await proxyFetch(new URL(PUBLIC_URL));
+    expect(await response.text()).toBe('<feed/>');
+    expect(url.href).toBe('http://203.0.113.10/moved.xml');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0]![1].redirect).toBe('manual');
+  });
+
+  it('refuses redirects to private hosts', async () => {
+    const fetchMock = stubFetch(
+      new Response(null, { status: 302, headers: { location: 'http://169.254.169.254/latest' } }),
+    );
+    await expect(proxyFetch(new URL(PUBLIC_URL))).rejects.toMatchObject({ status: 403 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after too many redirects', async () => {
+    const redirect = () => new Response(null, { status: 301, headers: { location: PUBLIC_URL } });
+    stubFetch(...Array.from({ length: 10 }, redirect));
+    await expect(proxyFetch(new URL(PUBLIC_URL))).rejects.toThrow('Too many redirects');
+  });
+
+  it('refuses content types that are not allowed', async () => {
+    stubFetch(new Response('<html/>', { headers: { 'content-type': 'text/html; charset=utf-8' } }));
+    await expect(
+      proxyFetch(new URL(PUBLIC_URL), {}, { allowedContentTypes: ['application/atom+xml'] }),
+    ).rejects.toMatchObject({ status: 415 });
+  });
+
+  it('stops bodies larger than the limit', async () => {
+    stubFetch(new Response('x'.repeat(100), { headers: { 'content-type': 'text/plain' } }));
+    const { response } = await proxyFetch(new URL(PUBLIC_URL), {}, { maxBytes: 10 });
+    await expect(response.text()).rejects.toThrow('Response is too large');
+  });
+});
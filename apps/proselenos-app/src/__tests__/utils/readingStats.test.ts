@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingSession } from '@/types/readingStats';
+import {
+  compactSessions,
+  getDateKey,
+  getReadingSpeed,
+  groupSessions,
+  sumSessions,
+} from '@/utils/readingStats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 5, 15, 12).getTime();
+
+const session = (id: string, start: number, bookHash = 'book-a'): ReadingSession => ({
+  id,
+  bookHash,
+  title: bookHash,
+  author: 'Author',
+  start,
+  end: start + 20 * 60 * 1000,
+  duration: 20 * 60 * 1000,
+  pages: 10,
+  words: 3000,
+  size: 30000,
+});
+
+describe('compactSessions', () => {
+  const old = NOW - 60 * DAY_MS;
+  const sessions = [
+    session('1', old),
+    session('2', old + 60 * 60 * 1000),
+    session('3', old + 2 * 60 * 60 * 1000, 'book-b'),
+    session('4', old + DAY_MS),
+    session('5', NOW - DAY_MS),
+    session('6', NOW - 60 * 60 * 1000),
+  ];
+
+  it('merges old sessions by book and day and keeps recent ones', () => {
+    const compacted = compactSessions(sessions, NOW);
+    expect(compacted.map((s) => s.count ?? 1)).toEqual([2, 1, 1, 1, 1]);
+    expect(compacted.slice(-2).map((s) => s.id)).toEqual(['5', '6']);
+
+    const [first] = compacted;
+    expect(first).toMatchObject({
+      bookHash: 'book-a',
+      start: old,
+      end: old + 60 * 60 * 1000 + 20 * 60 * 1000,
+      duration: 40 * 60 * 1000,
+      pages: 20,
+      words: 6000,
+      size: 60000,
+    });
+  });
+
+  it('keeps the daily and overall totals', () => {
+    const compacted = compactSessions(sessions, NOW);
+    expect(sumSessions(compacted)).toEqual(sumSessions(sessions));
+    expect(groupSessions(compacted, getDateKey)).toEqual(groupSessions(sessions, getDateKey));
+    expect(getReadingSpeed(compacted)).toBe(getReadingSpeed(sessions));
+  });
+
+  it('is stable when run again', () => {
+    const compacted = compactSessions(sessions, NOW);
+    expect(compactSessions(compacted, NOW)).toEqual(compacted);
+    const later = compactSessions(compacted, NOW + 60 * DAY_MS);
+    expect(sumSessions(later)).toEqual(sumSessions(sessions));
+  });
+});
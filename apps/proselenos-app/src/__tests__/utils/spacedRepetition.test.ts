@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewGrade, ReviewSchedule } from '@/types/reviewDeck';
+import { formatInterval, isDue, newSchedule, scheduleReview } from '@/utils/spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 1).getTime();
+
+const review = (grades: ReviewGrade[], start = newSchedule(NOW)): ReviewSchedule =>
+  grades.reduce((schedule, grade) => scheduleReview(schedule, grade, schedule.due), start);
+
+describe('scheduleReview', () => {
+  it('starts a new card due now with the initial ease', () => {
+    const schedule = newSchedule(NOW);
+    expect(schedule).toEqual({ due: NOW, interval: 0, ease: 2.5, repetitions: 0, lapses: 0 });
+    expect(isDue(schedule, NOW)).toBe(true);
+  });
+
+  it('waits 1 day, then 6, then the interval times the ease', () => {
+    const first = review(['good']);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, due: NOW + DAY_MS });
+    const second = review(['good'], first);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    const third = review(['good'], second);
+    expect(third.interval).toBe(Math.round(6 * second.ease));
+  });
+
+  it('changes the ease by the SM-2 formula', () => {
+    expect(review(['good']).ease).toBeCloseTo(2.5);
+    expect(review(['easy']).ease).toBeCloseTo(2.6);
+    expect(review(['hard']).ease).toBeCloseTo(2.36);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    const schedule = review(Array(20).fill('hard'));
+    expect(schedule.ease).toBeCloseTo(1.3);
+  });
+
+  it('brings a forgotten card back in 10 minutes and starts it over', () => {
+    const learned = review(['good', 'good', 'good']);
+    const forgotten = scheduleReview(learned, 'again', NOW);
+    expect(forgotten).toMatchObject({
+      due: NOW + 10 * 60 * 1000,
+      interval: 0,
+      repetitions: 0,
+      lapses: 1,
+      ease: learned.ease,
+      reviewedAt: NOW,
+    });
+    expect(review(['good'], forgotten).interval).toBe(1);
+  });
+});
+
+describe('formatInterval', () => {
+  it('shows when each grade would bring the card back', () => {
+    const schedule = newSchedule(NOW);
+    expect(formatInterval(schedule, 'again', NOW)).toBe('10m');
+    expect(formatInterval(schedule, 'good', NOW)).toBe('1d');
+    expect(formatInterval({ ...schedule, repetitions: 2, interval: 30 }, 'easy', NOW)).toBe('3mo');
+    expect(formatInterval({ ...schedule, repetitions: 2, interval: 300 }, 'good', NOW)).toBe(
+      '2.1y',
+    );
+  });
+});
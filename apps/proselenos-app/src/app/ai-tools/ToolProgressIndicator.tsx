@@ -3,6 +3,7 @@
 'use client';
 
 import { ThemeConfig } from '../shared/theme';
+import type { ToolChunkProgress } from '@/lib/toolChunking';
 import StyledSmallButton from '@/components/StyledSmallButton';
 
 interface ToolProgressIndicatorProps {
@@ -10,6 +11,7 @@ interface ToolProgressIndicatorProps {
   elapsedTime: number;
   theme: ThemeConfig;
   toolResult?: string;
+  toolProgress?: ToolChunkProgress | null;
   onReportClick?: () => void;
   onOneByOneClick?: () => void;
   showOneByOneButton?: boolean;
@@ -20,6 +22,7 @@ export default function ToolProgressIndicator({
   elapsedTime,
   theme,
   toolResult,
+  toolProgress,
   onReportClick,
   onOneByOneClick,
   showOneByOneButton
@@ -37,6 +40,20 @@ export default function ToolProgressIndicator({
       }}>
         {Math.floor(elapsedTime / 60).toString().padStart(2, '0')}:{(elapsedTime % 60).toString().padStart(2, '0')}
       </span>
+
+      {/* Part counter while a long manuscript is reviewed in chunks */}
+      {toolExecuting && toolProgress && (
+        <span
+          title={toolProgress.phase === 'map'
+            ? 'The manuscript is longer than the model can read at once, so it is reviewed in parts'
+            : 'Combining the part reports into one overall report'}
+          style={{ fontSize: '11px', color: theme.textSecondary, fontFamily: 'monospace' }}
+        >
+          {toolProgress.phase === 'map'
+            ? `part ${toolProgress.current}/${toolProgress.total}`
+            : `merging ${toolProgress.total} parts`}
+        </span>
+      )}
       
       {/* Report button appears only when tool is finished and has results */}
       {!toolExecuting && elapsedTime > 0 && toolResult && (
@@ -8,15 +8,26 @@ import {
   saveChatFile,
   loadApiKey,
   loadAppSettings,
-  loadAIProviderConfig,
   getToolPrompt,
   getToolScope,
-  assembleManuscriptFromWorkingCopy,
+  loadManuscriptChapters,
   deleteManuscript,
   deleteReport,
-  deleteChatFile
+  deleteChatFile,
+  ManuscriptChapter
 } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { createApiService, loadProviderConfig, providerRequiresApiKey } from '@/lib/aiService';
+import {
+  ToolChunkProgress,
+  buildChunkRequest,
+  buildMergeRequest,
+  buildToolRequest,
+  combineChunkReports,
+  describeChunk,
+  fitsInContext,
+  formatChapter,
+  planToolChunks,
+} from '@/lib/toolChunking';
 
 interface Tool {
   id: string;
@@ -39,6 +50,8 @@ interface ToolsManagerState {
   toolJustFinished: boolean;
   savedReportFileName: string | null;
   manuscriptContent: string;
+  // Set while a whole-manuscript tool runs in parts
+  toolProgress: ToolChunkProgress | null;
 
   // Timer state
   startTime: number | null;
@@ -85,6 +98,7 @@ export function useToolsManager(): [ToolsManagerState, ToolsManagerActions] {
   const [toolJustFinished, setToolJustFinished] = useState(false);
   const [savedReportFileName, setSavedReportFileName] = useState<string | null>(null);
   const [manuscriptContent, setManuscriptContent] = useState('');
+  const [toolProgress, setToolProgress] = useState<ToolChunkProgress | null>(null);
 
   // Timer state
   const [startTime, setStartTime] = useState<number | null>(null);
@@ -142,6 +156,7 @@ export function useToolsManager(): [ToolsManagerState, ToolsManagerActions] {
       const scope = await getToolScope(selectedTool);
 
       let manuscriptText: string;
+      let chapters: ManuscriptChapter[] = [];
       if (scope === 'chapter') {
         // Use current chapter text from editor
         if (!currentEditorText || !currentEditorText.trim()) {
@@ -156,7 +171,8 @@ export function useToolsManager(): [ToolsManagerState, ToolsManagerActions] {
       } else {
         // Assemble full manuscript from working copy (chapters only)
         setToolResult('Assembling manuscript from chapters...');
-        manuscriptText = await assembleManuscriptFromWorkingCopy();
+        chapters = await loadManuscriptChapters();
+        manuscriptText = chapters.map(formatChapter).join('');
 
         if (!manuscriptText || !manuscriptText.trim()) {
           setToolResult('❌ No chapters found. Please add chapters to your manuscript first.');
@@ -187,8 +203,9 @@ export function useToolsManager(): [ToolsManagerState, ToolsManagerActions] {
       // Get API key and model from IndexedDB
       const apiKey = await loadApiKey();
       const settings = await loadAppSettings();
-      if (!apiKey) {
-        setToolResult('❌ API key not configured. Please add your OpenRouter API key in Settings.');
+      const providerConfig = await loadProviderConfig();
+      if (!apiKey && providerRequiresApiKey(providerConfig)) {
+        setToolResult(`❌ API key not configured. Please add your ${providerConfig.providerName} API key in Settings.`);
         setToolExecuting(false);
         clearInterval(interval);
         setTimerInterval(null);
@@ -202,44 +219,67 @@ export function useToolsManager(): [ToolsManagerState, ToolsManagerActions] {
         return;
       }
 
-      // Build message (same format as openrouter.ts buildMessages)
-      const combinedContent = `=== MANUSCRIPT ===
-${manuscriptText}
-=== END MANUSCRIPT ===
-
-=== INSTRUCTIONS ===
-${toolPrompt}
-=== END INSTRUCTIONS ===`;
-
-      // Save ai_request.txt to IndexedDB (overwritten each Run)
-      await saveChatFile('ai_request.txt', combinedContent);
-
-      // Client-side AI API call (provider configurable via AI Settings)
-      setToolResult('Executing tool...');
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      const response = await fetch(aiConfig.completions, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': typeof window !== 'undefined' ? window.location.href : 'https://everythingebooks.org',
-          'X-Title': 'EverythingEbooks'
-        },
-        body: JSON.stringify({
-          model: settings.selectedModel,
-          messages: [{ role: 'user', content: combinedContent }],
-          temperature: 0.3
-        })
-      });
-
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.error?.message || `HTTP ${response.status}`);
+      const service = (await createApiService(providerConfig.kind, settings.selectedModel))!;
+
+      // Whole-manuscript tools are split by chapter when they exceed the model's context
+      let plan: Awaited<ReturnType<typeof planToolChunks>> | null = null;
+      if (scope !== 'chapter') {
+        setToolResult('Checking manuscript length...');
+        plan = await planToolChunks(service, chapters, manuscriptText, toolPrompt);
       }
 
-      const result = data.choices?.[0]?.message?.content || '';
-      if (!result) {
-        throw new Error('No response from AI');
+      let result: string;
+      if (!plan || plan.chunks.length <= 1) {
+        const combinedContent = buildToolRequest(manuscriptText, toolPrompt);
+
+        // Save ai_request.txt to IndexedDB (overwritten each Run)
+        await saveChatFile('ai_request.txt', combinedContent);
+
+        // Client-side AI API call (provider configurable via AI Settings)
+        setToolResult('Executing tool...');
+        result = await service.chat(
+          [{ role: 'user', content: combinedContent }],
+          { temperature: 0.3 }
+        );
+        if (!result) {
+          throw new Error('No response from AI');
+        }
+      } else {
+        const { chunks, contextTokens } = plan;
+        const requests = chunks.map(chunk => buildChunkRequest(chunk, chunks.length, toolPrompt));
+        await saveChatFile('ai_request.txt', requests.join('\n\n=== NEXT REQUEST ===\n\n'));
+
+        // Map pass: one report per part
+        const partReports: string[] = [];
+        for (const chunk of chunks) {
+          setToolProgress({ phase: 'map', current: chunk.index + 1, total: chunks.length });
+          setToolResult(`Reviewing part ${chunk.index + 1} of ${chunks.length} (${describeChunk(chunk)})...`);
+          const partReport = await service.chat(
+            [{ role: 'user', content: requests[chunk.index]! }],
+            { temperature: 0.3 }
+          );
+          if (!partReport) {
+            throw new Error(`No response from AI for part ${chunk.index + 1}`);
+          }
+          partReports.push(partReport);
+        }
+
+        // Merge pass: overall report across parts (skipped if the part reports are too long to send)
+        let merged: string | null = null;
+        const mergeRequest = buildMergeRequest(partReports, chunks, toolPrompt);
+        if (fitsInContext(mergeRequest, contextTokens)) {
+          setToolProgress({ phase: 'merge', current: chunks.length, total: chunks.length });
+          setToolResult(`Merging ${chunks.length} part reports...`);
+          merged = await service.chat(
+            [{ role: 'user', content: mergeRequest }],
+            { temperature: 0.3 }
+          ) || null;
+        } else {
+          console.warn('Part reports too long to merge - showing them without an overall report');
+        }
+
+        result = combineChunkReports(merged, partReports, chunks);
+        setToolProgress(null);
       }
 
       setToolResult(result);
@@ -269,7 +309,7 @@ ${toolPrompt}
       if (rawMessage.includes('maximum context length') || rawMessage.includes('too many tokens')) {
         userMessage = 'Your manuscript is too long for this AI model. Please try a different model.';
       } else if (rawMessage.includes('API key') || rawMessage.includes('401') || rawMessage.includes('Unauthorized')) {
-        userMessage = 'API key issue. Please check your OpenRouter API key in Settings.';
+        userMessage = 'API key issue. Please check your API key and AI Settings.';
       } else if (rawMessage.includes('rate limit') || rawMessage.includes('429')) {
         userMessage = 'Too many requests. Please wait a moment and try again.';
       } else if (rawMessage.includes('timeout') || rawMessage.includes('ETIMEDOUT')) {
@@ -283,6 +323,7 @@ ${toolPrompt}
     } finally {
       // Always clean up timer and execution state
       setToolExecuting(false);
+      setToolProgress(null);
       clearInterval(interval);
       setTimerInterval(null);
     }
@@ -345,6 +386,7 @@ ${toolPrompt}
     toolJustFinished,
     savedReportFileName,
     manuscriptContent,
+    toolProgress,
     startTime,
     elapsedTime,
     timerInterval
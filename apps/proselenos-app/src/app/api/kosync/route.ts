@@ -0,0 +1,73 @@
+// app/api/kosync/route.ts
+
+// Forwards KOReader sync requests (see services/kosyncClient.ts) to the
+// user's sync server. kosync servers send no CORS headers, so the browser
+// cannot call them directly. Like the OPDS route, only public hosts are
+// reached and every redirect is checked (see utils/proxyFetch.ts).
+
+import { NextResponse } from 'next/server';
+import { KoSyncProxyPayload } from '@/types/kosync';
+import { ProxyFetchError, proxyFetch } from '@/utils/proxyFetch';
+
+const ALLOWED_METHODS = ['GET', 'POST', 'PUT'];
+const ALLOWED_ENDPOINT = /^\/(users\/(create|auth)|syncs\/progress(\/[^/?#]+)?)$/;
+const FORWARDED_HEADERS = ['accept', 'content-type', 'x-auth-user', 'x-auth-key'];
+const RESPONSE_CONTENT_TYPES = ['application/json', 'application/vnd.koreader.v1+json'];
+// kosync answers are a few hundred bytes
+const MAX_RESPONSE_BYTES = 64 * 1024;
+
+export async function POST(request: Request) {
+  let payload: KoSyncProxyPayload;
+  try {
+    payload = (await request.json()) as KoSyncProxyPayload;
+  } catch {
+    return NextResponse.json({ message: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { serverUrl, endpoint, method, headers, body } = payload;
+
+  let target: URL;
+  try {
+    target = new URL(`${serverUrl.replace(/\/+$/, '')}${endpoint}`);
+  } catch {
+    return NextResponse.json({ message: 'Invalid sync server URL' }, { status: 400 });
+  }
+  if (!['http:', 'https:'].includes(target.protocol)) {
+    return NextResponse.json({ message: 'Sync server must use http or https' }, { status: 400 });
+  }
+  // Only proxy the kosync API, never arbitrary paths
+  if (!ALLOWED_METHODS.includes(method) || !ALLOWED_ENDPOINT.test(endpoint)) {
+    return NextResponse.json({ message: 'Unsupported sync endpoint' }, { status: 400 });
+  }
+
+  const forwardHeaders: Record<string, string> = {};
+  for (const [key, value] of Object.entries(headers || {})) {
+    if (FORWARDED_HEADERS.includes(key.toLowerCase())) {
+      forwardHeaders[key] = value;
+    }
+  }
+
+  try {
+    const { response } = await proxyFetch(
+      target,
+      {
+        method,
+        headers: forwardHeaders,
+        body: body !== undefined && method !== 'GET' ? JSON.stringify(body) : undefined,
+        cache: 'no-store',
+      },
+      { allowedContentTypes: RESPONSE_CONTENT_TYPES, maxBytes: MAX_RESPONSE_BYTES },
+    );
+    const text = await response.text();
+    return new NextResponse(text, {
+      status: response.status,
+      headers: { 'Content-Type': response.headers.get('content-type') || 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof ProxyFetchError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    console.error('KOSync proxy request failed:', error);
+    return NextResponse.json({ message: 'Could not reach the sync server' }, { status: 502 });
+  }
+}
@@ -0,0 +1,99 @@
+// app/api/opds/route.ts
+
+// Fetches OPDS feeds, cover images and acquisition downloads (see
+// services/opdsClient.ts) on behalf of the Library's catalog browser.
+// Most OPDS servers send no CORS headers, so the browser cannot call them
+// directly. Only public hosts are reached, and only catalog documents,
+// images and books are passed back (see utils/proxyFetch.ts).
+
+import { NextResponse } from 'next/server';
+import { ProxyFetchError, proxyFetch } from '@/utils/proxyFetch';
+
+const FORWARDED_RESPONSE_HEADERS = [
+  'content-type',
+  'content-length',
+  'content-disposition',
+  'last-modified',
+];
+
+const CATALOG_CONTENT_TYPES = [
+  'application/opds+json',
+  'application/opds-publication+json',
+  'application/atom+xml',
+  'application/opensearchdescription+xml',
+  'application/xml',
+  'text/xml',
+  'application/json',
+];
+
+const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+const ACQUISITION_CONTENT_TYPES = [
+  'application/epub+zip',
+  'application/x-mobipocket-ebook',
+  'application/vnd.amazon.ebook',
+  'application/x-mobi8-ebook',
+  'application/x-fictionbook+xml',
+  'application/fb2+zip',
+  'application/vnd.comicbook+zip',
+  'application/x-cbz',
+  'application/pdf',
+  'application/zip',
+  'text/plain',
+  // What many servers send for any download
+  'application/octet-stream',
+];
+
+// Large enough for illustrated books and comics
+const MAX_RESPONSE_BYTES = 200 * 1024 * 1024;
+
+export async function GET(request: Request) {
+  const url = new URL(request.url).searchParams.get('url');
+  if (!url) {
+    return NextResponse.json({ message: 'Missing url parameter' }, { status: 400 });
+  }
+
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return NextResponse.json({ message: 'Invalid catalog URL' }, { status: 400 });
+  }
+  if (!['http:', 'https:'].includes(target.protocol)) {
+    return NextResponse.json({ message: 'Catalog must use http or https' }, { status: 400 });
+  }
+
+  const headers: Record<string, string> = {
+    Accept: 'application/opds+json, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+    'User-Agent': 'EverythingEbooks OPDS',
+  };
+
+  try {
+    const { response, url: finalURL } = await proxyFetch(
+      target,
+      { headers, cache: 'no-store' },
+      {
+        allowedContentTypes: [
+          ...CATALOG_CONTENT_TYPES,
+          ...IMAGE_CONTENT_TYPES,
+          ...ACQUISITION_CONTENT_TYPES,
+        ],
+        maxBytes: MAX_RESPONSE_BYTES,
+      },
+    );
+    const responseHeaders = new Headers();
+    for (const key of FORWARDED_RESPONSE_HEADERS) {
+      const value = response.headers.get(key);
+      if (value) responseHeaders.set(key, value);
+    }
+    // Let the client resolve relative links against the final URL after redirects
+    responseHeaders.set('X-OPDS-Final-URL', finalURL.href);
+    return new NextResponse(response.body, { status: response.status, headers: responseHeaders });
+  } catch (error) {
+    if (error instanceof ProxyFetchError) {
+      return NextResponse.json({ message: error.message }, { status: error.status });
+    }
+    console.error('OPDS proxy request failed:', error);
+    return NextResponse.json({ message: 'Could not reach the catalog' }, { status: 502 });
+  }
+}
@@ -19,17 +19,22 @@ import BookInfoModal from './BookInfoModal';
 import LibraryBooksModal from './LibraryBooksModal';
 import CoverModal from './CoverModal';
 import ManuscriptXrayModal from '@/components/xray/ManuscriptXrayModal';
+import SnapshotHistoryModal from './SnapshotHistoryModal';
+import ManuscriptStatsModal from './ManuscriptStatsModal';
 import PromptEditorModal from '@/components/PromptEditorModal';
-import { loadApiKey, loadAppSettings, saveAppSettings, listToolsByCategory, getToolPrompt, initWritingAssistantPrompts, loadChatFile, clearWorkingCopy, saveFullWorkingCopy, saveManuscriptImage, saveManuscriptAudio, saveWorkingCopyMeta, loadWorkingCopyMeta } from '@/services/manuscriptStorage';
+import { loadApiKey, loadAppSettings, saveAppSettings, listToolsByCategory, getToolPrompt, initWritingAssistantPrompts, loadChatFile, createProject, clearWorkingCopy, saveFullWorkingCopy, saveManuscriptImage, saveManuscriptAudio, saveWorkingCopyMeta, loadWorkingCopyMeta } from '@/services/manuscriptStorage';
 import { parseEpub } from '@/services/epubService';
+import { importBetaFeedback } from '@/services/betaFeedbackService';
+import { parseBetaFeedback } from '@/utils/feedback';
 import { Book } from '@/types/book';
 import { getLocalBookFilename } from '@/utils/book';
 import { generateAIReportEpub } from '@/lib/ai-report-generator';
+import { loadProviderConfig, providerRequiresApiKey } from '@/lib/aiService';
 import environmentConfig from '@/services/environment';
 import Swal from 'sweetalert2';
 import { initializeToolPrompts } from '@/services/toolPromptsLoader';
 import { useToolsManager } from '../ai-tools/useToolsManager';
-import { showAlert } from '../shared/alerts';
+import { showAlert, showConfirm, showInputAlert } from '../shared/alerts';
 import DualPanelEditor from '../ai-tools/DualPanelEditor';
 
 export default function AuthorsClient() {
@@ -86,6 +91,8 @@ export default function AuthorsClient() {
   const [showCoverModal, setShowCoverModal] = useState(false);
   // X-Ray modal state
   const [showXrayModal, setShowXrayModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showStatsModal, setShowStatsModal] = useState(false);
   // Prompt Editor modal state
   const [showPromptEditor, setShowPromptEditor] = useState(false);
   const [coverTitle, setCoverTitle] = useState('');
@@ -144,11 +151,11 @@ export default function AuthorsClient() {
     setShowEditor(true);
   };
 
-  // Check if API key exists and load it
+  // Check if API key exists (or the provider needs none, e.g. a local server)
   const checkApiKey = useCallback(async () => {
     try {
       const key = await loadApiKey();
-      setHasApiKey(!!key);
+      setHasApiKey(!!key || !providerRequiresApiKey(await loadProviderConfig()));
     } catch (error) {
       console.error('Error checking API key:', error);
       setHasApiKey(false);
@@ -226,7 +233,7 @@ export default function AuthorsClient() {
     // Show confirmation dialog
     const result = await Swal.fire({
       title: 'Load from Library?',
-      text: 'Loading a new book will replace your current work. Continue?',
+      text: 'The book will open as a new project. Your current work stays available in the project switcher.',
       icon: 'warning',
       showCancelButton: true,
       confirmButtonText: 'Load',
@@ -250,7 +257,8 @@ export default function AuthorsClient() {
       // Parse the epub
       const parsed = await parseEpub(epubFile);
 
-      // Clear existing working copy and save new one
+      // Open into a new project so the current book is kept
+      await createProject(parsed.title);
       await clearWorkingCopy();
 
       // Save extracted inline images to IndexedDB
@@ -329,6 +337,63 @@ export default function AuthorsClient() {
     setRefreshKey(prev => prev + 1);
   };
 
+  // Handle snapshot restored (reload working copy, select the restored section)
+  const handleSnapshotRestored = (sectionId?: string) => {
+    if (sectionId) setPendingSectionId(sectionId);
+    setRefreshKey(prev => prev + 1);
+  };
+
+  // Import a beta reader's feedback file (exported from the Reader) as editor comments
+  const handleFeedbackImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        const feedback = parseBetaFeedback(await file.text());
+        const meta = await loadWorkingCopyMeta();
+        if (meta && feedback.book.title && feedback.book.title !== meta.title) {
+          const proceed = await showConfirm(
+            `This feedback is for "${feedback.book.title}", but the open manuscript is "${meta.title}". Import anyway?`,
+            isDarkMode,
+            'Different Book',
+            'Import',
+            'Cancel'
+          );
+          if (!proceed) return;
+        }
+
+        const readerName = await showInputAlert(
+          `${feedback.notes.length} notes. Who sent this feedback?`,
+          file.name.replace(/\.feedback\.json$|\.json$/i, '').replace(/_/g, ' '),
+          'Reader name',
+          isDarkMode,
+          'Beta Reader',
+          'Import'
+        );
+        if (readerName === null) return;
+
+        const result = await importBetaFeedback(feedback, readerName);
+        const lines = [`${result.placed} placed on the quoted text`];
+        if (result.approximate) lines.push(`${result.approximate} placed on text edited since the draft`);
+        if (result.sectionOnly) lines.push(`${result.sectionOnly} quote not found, attached to the start of its section`);
+        if (result.duplicates) lines.push(`${result.duplicates} already imported`);
+        if (result.unplaced.length) lines.push(`${result.unplaced.length} could not be matched to any section`);
+        showAlert(lines.join('\n'), result.unplaced.length ? 'warning' : 'success', 'Feedback Imported', isDarkMode);
+
+        if (result.sectionIds.length > 0) {
+          setPendingSectionId(result.sectionIds[0]!);
+          setRefreshKey(prev => prev + 1);
+        }
+      } catch (error) {
+        showAlert(`Error importing feedback: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+      }
+    };
+    input.click();
+  };
+
   // AI Tools handlers
   const handleCategoryChange = (category: string) => {
     toolsActions.setSelectedCategory(category);
@@ -471,6 +536,9 @@ export default function AuthorsClient() {
         onPromptsClick={() => setShowPromptEditor(true)}
         onCoverClick={handleOpenCoverModal}
         onXrayClick={() => setShowXrayModal(true)}
+        onHistoryClick={() => setShowHistoryModal(true)}
+        onFeedbackImportClick={handleFeedbackImport}
+        onStatsClick={() => setShowStatsModal(true)}
         onLoadFromLibraryClick={() => setShowLibraryModal(true)}
         hasApiKey={hasApiKey}
         currentModel={currentModel}
@@ -483,6 +551,7 @@ export default function AuthorsClient() {
         toolExecuting={toolsState.toolExecuting}
         toolResult={toolsState.toolResult}
         elapsedTime={toolsState.elapsedTime}
+        toolProgress={toolsState.toolProgress}
         toolJustFinished={toolsState.toolJustFinished}
         manuscriptContent={toolsState.manuscriptContent}
         onCategoryChange={handleCategoryChange}
@@ -548,7 +617,10 @@ export default function AuthorsClient() {
       {/* AI Settings Modal */}
       <AISettingsModal
         isOpen={showAISettingsModal}
-        onClose={() => setShowAISettingsModal(false)}
+        onClose={() => {
+          setShowAISettingsModal(false);
+          checkApiKey();
+        }}
         isDarkMode={isDarkMode}
         theme={theme}
       />
@@ -593,6 +665,11 @@ export default function AuthorsClient() {
         isOpen={showChat}
         onClose={() => setShowChat(false)}
         isDarkMode={isDarkMode}
+        onOpenSection={(sectionId) => {
+          setShowChat(false);
+          setPendingSectionId(sectionId);
+          setRefreshKey(prev => prev + 1);
+        }}
       />
 
       {/* Book Info Modal */}
@@ -631,6 +708,23 @@ export default function AuthorsClient() {
         isDarkMode={isDarkMode}
       />
 
+      {/* Snapshot History Modal */}
+      <SnapshotHistoryModal
+        isOpen={showHistoryModal}
+        onClose={() => setShowHistoryModal(false)}
+        onRestored={handleSnapshotRestored}
+        theme={theme}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Manuscript Statistics Modal */}
+      <ManuscriptStatsModal
+        isOpen={showStatsModal}
+        onClose={() => setShowStatsModal(false)}
+        theme={theme}
+        isDarkMode={isDarkMode}
+      />
+
       {/* Prompt Editor Modal */}
       <PromptEditorModal
         isOpen={showPromptEditor}
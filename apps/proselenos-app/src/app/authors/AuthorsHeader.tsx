@@ -4,12 +4,14 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { PiKey, PiCpu, PiChatCircle, PiFolderOpen, PiNotePencil, PiDatabase, PiInfo, PiFileDoc, /* PiFileText, */ PiImage, PiArrowRight, PiGear } from 'react-icons/pi';
+import { PiKey, PiCpu, PiChatCircle, PiFolderOpen, PiNotePencil, PiDatabase, PiInfo, PiFileDoc, PiFileText, PiImage, PiArrowRight, PiGear, PiClockCounterClockwise, PiChatsCircle, PiChartBar } from 'react-icons/pi';
 import { GiBoxUnpacking } from 'react-icons/gi';
 import { ThemeConfig } from '../shared/theme';
 import { showConfirm } from '../shared/alerts';
 import StyledSmallButton from '@/components/StyledSmallButton';
 import TrafficLightIcon from '@/components/TrafficLightIcon';
+import { ProjectInfo } from '@/services/manuscriptStorage';
+import ProjectSwitcher from './ProjectSwitcher';
 
 interface AuthorsHeaderProps {
   theme: ThemeConfig;
@@ -25,9 +27,16 @@ interface AuthorsHeaderProps {
   onChatClick: () => void;
   onPromptsClick: () => void;
   onNewClick: () => void;
+  projects: ProjectInfo[];
+  activeProjectId: string | null;
+  onSwitchProject: (projectId: string) => void;
+  onRenameProject: (projectId: string) => void;
+  onDuplicateProject: (projectId: string) => void;
+  onDeleteProject: (projectId: string) => void;
   onOpenClick: () => void;
   onOpenDocxClick: () => void;
   onOpenFountainClick: () => void;
+  onOpenFdxClick: () => void;
   onLoadFromLibraryClick: () => void;
   onSaveClick: () => void;
   hasApiKey: boolean;
@@ -37,8 +46,11 @@ interface AuthorsHeaderProps {
   onSearchClose?: () => void;
   onCoverClick?: () => void;
   onDocxExportClick?: () => void;
-  onFountainExportClick?: () => void;
+  onScreenplayExportClick?: () => void;
   onXrayClick?: () => void;
+  onHistoryClick?: () => void;
+  onFeedbackImportClick?: () => void;
+  onStatsClick?: () => void;
   hasUnsavedChanges?: boolean;
   trafficLightStatus: 'green' | 'yellow' | 'red';
   trafficTooltip: string;
@@ -58,9 +70,16 @@ export default function AuthorsHeader({
   onChatClick,
   onPromptsClick,
   onNewClick,
+  projects,
+  activeProjectId,
+  onSwitchProject,
+  onRenameProject,
+  onDuplicateProject,
+  onDeleteProject,
   onOpenClick,
   onOpenDocxClick,
-  onOpenFountainClick: _onOpenFountainClick,
+  onOpenFountainClick,
+  onOpenFdxClick,
   onLoadFromLibraryClick,
   onSaveClick,
   hasApiKey,
@@ -70,8 +89,11 @@ export default function AuthorsHeader({
   onSearchClose,
   onCoverClick,
   onDocxExportClick,
-  onFountainExportClick: _onFountainExportClick,
+  onScreenplayExportClick,
   onXrayClick,
+  onHistoryClick,
+  onFeedbackImportClick,
+  onStatsClick,
   hasUnsavedChanges = false,
   trafficLightStatus,
   trafficTooltip,
@@ -142,7 +164,7 @@ export default function AuthorsHeader({
         flexShrink: 0,
       }}
     >
-      {/* Left section: Theme toggle, Logo, Title, About, Exit, New/Open/Save */}
+      {/* Left section: Theme toggle, Logo, Title, About, Exit, New/Open/Projects/Save */}
       <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
         {/* Theme toggle */}
         <button
@@ -276,7 +298,7 @@ export default function AuthorsHeader({
                 >
                   Load DOCX <PiArrowRight style={{ display: 'inline', verticalAlign: 'middle' }} /> EPUB
                 </button>
-                {/* <button
+                <button
                   onClick={() => { onOpenFountainClick(); setOpenDropdownOpen(false); }}
                   style={{
                     display: 'block',
@@ -291,10 +313,40 @@ export default function AuthorsHeader({
                   }}
                 >
                   Load Fountain Screenplay
-                </button> */}
+                </button>
+                                <button
+                  onClick={() => { onOpenFdxClick(); setOpenDropdownOpen(false); }}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '8px 12px',
+                    background: 'none',
+                    border: 'none',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    color: theme.text,
+                    fontSize: '13px',
+                  }}
+                >
+                  Load Final Draft Screenplay
+                </button>
               </div>
             )}
           </div>
+          {/* Project switcher */}
+          <ProjectSwitcher
+            theme={theme}
+            isDarkMode={isDarkMode}
+            projects={projects}
+            activeProjectId={activeProjectId}
+            disabled={toolExecuting}
+            hasUnsavedChanges={hasUnsavedChanges}
+            onSwitch={(projectId) => { onSearchClose?.(); onSwitchProject(projectId); }}
+            onNew={onNewClick}
+            onRename={onRenameProject}
+            onDuplicate={onDuplicateProject}
+            onDelete={onDeleteProject}
+          />
           <StyledSmallButton theme={theme} onClick={onSaveClick} disabled={toolExecuting} styleOverrides={{ marginRight: 0 }} title="Publish to Library">Publish</StyledSmallButton>
           <span style={{ color: isDarkMode ? '#86efac' : '#16a34a', fontSize: '16px' }}>⇨</span>
           <StyledSmallButton onClick={handleLibraryClick} theme={theme} title="Go read ebooks">Library</StyledSmallButton>
@@ -529,8 +581,8 @@ export default function AuthorsHeader({
               <PiFileDoc size={16} />
               DOCX
             </button>
-            {/* <button
-              onClick={() => { onFountainExportClick?.(); setMenuOpen(false); }}
+            <button
+              onClick={() => { onScreenplayExportClick?.(); setMenuOpen(false); }}
               style={{
                 display: 'flex',
                 alignItems: 'center',
@@ -546,8 +598,8 @@ export default function AuthorsHeader({
               }}
             >
               <PiFileText size={16} />
-              Fountain
-            </button> */}
+              Screenplay
+            </button>
             <button
               onClick={() => { onXrayClick?.(); setMenuOpen(false); }}
               style={{
@@ -567,6 +619,63 @@ export default function AuthorsHeader({
               <GiBoxUnpacking size={16} />
               X-Ray
             </button>
+            <button
+              onClick={() => { onHistoryClick?.(); setMenuOpen(false); }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                width: '100%',
+                padding: '8px 12px',
+                background: 'rgba(14, 165, 233, 0.15)',
+                border: 'none',
+                textAlign: 'left',
+                cursor: 'pointer',
+                color: '#0ea5e9',
+                fontSize: '13px',
+              }}
+            >
+              <PiClockCounterClockwise size={16} />
+              History
+            </button>
+            <button
+              onClick={() => { onStatsClick?.(); setMenuOpen(false); }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                width: '100%',
+                padding: '8px 12px',
+                background: 'rgba(34, 197, 94, 0.15)',
+                border: 'none',
+                textAlign: 'left',
+                cursor: 'pointer',
+                color: '#22c55e',
+                fontSize: '13px',
+              }}
+            >
+              <PiChartBar size={16} />
+              Statistics
+            </button>
+            <button
+              onClick={() => { onFeedbackImportClick?.(); setMenuOpen(false); }}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+                width: '100%',
+                padding: '8px 12px',
+                background: 'rgba(234, 179, 8, 0.15)',
+                border: 'none',
+                textAlign: 'left',
+                cursor: 'pointer',
+                color: '#ca8a04',
+                fontSize: '13px',
+              }}
+            >
+              <PiChatsCircle size={16} />
+              Beta Feedback
+            </button>
             <button
               onClick={() => { onStorageClick(); setMenuOpen(false); }}
               style={{
@@ -4,7 +4,7 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { ThemeConfig } from '../shared/theme';
-import { showAlert } from '../shared/alerts';
+import { showAlert, showConfirm } from '../shared/alerts';
 import Swal from 'sweetalert2';
 import AuthorsHeader from './AuthorsHeader';
 import ChapterSidebar from './ChapterSidebar';
@@ -70,13 +70,32 @@ import {
   getAllManuscriptAudios,
   getManuscriptAudio,
   SceneCraftConfig,
+  ProjectInfo,
+  loadProjectRegistry,
+  createProject,
+  switchProject,
+  renameProject,
+  duplicateProject,
+  deleteProject,
+  loadSectionDiscussions,
+  saveSectionDiscussions,
 } from '@/services/manuscriptStorage';
+import type { TDiscussion } from '@/components/plate-editor/plugins/discussion-kit';
 import { generateEpubFromWorkingCopy } from '@/lib/epub-generator';
-import { exportWorkspaceToDocx } from '@/lib/workspace-to-docx';
+import { validateEpub, EpubValidationReport } from '@/lib/epub-validator';
+import EpubModal from '../publishing-assistant/EpubModal';
+import { exportWorkspaceToDocx, type DocxExportOptions } from '@/lib/workspace-to-docx';
+import DocxExportModal from './DocxExportModal';
 import { exportWorkspaceToFountain } from '@/lib/fountain-generator';
+import { buildScreenplaySections, loadScreenplay, type ScreenplayElement } from '@/lib/screenplay';
+import { parseFdx, screenplayToFdx } from '@/lib/screenplay-fdx';
+import { renderScreenplayPdf } from '@/lib/screenplay-pdf';
+import { BUILTIN_PDF_FONT, SCREENPLAY_PDF_FONT, loadCustomFontsForPdf, registerPdfFonts } from '@/lib/pdfFonts';
+import ScreenplayExportModal, { type ScreenplayExportOptions } from './ScreenplayExportModal';
 import { xhtmlToPlainText } from '@/lib/plateXhtml';
 import environmentConfig from '@/services/environment';
 import { parseToolReport } from '@/utils/parseToolReport';
+import type { ToolChunkProgress } from '@/lib/toolChunking';
 import { ReportIssueWithStatus } from '@/types/oneByOne';
 
 // Helper to escape HTML for XHTML storage
@@ -111,6 +130,9 @@ interface AuthorsLayoutProps {
   onPromptsClick: () => void;
   onCoverClick: () => void;
   onXrayClick?: () => void;
+  onHistoryClick?: () => void;
+  onFeedbackImportClick?: () => void;
+  onStatsClick?: () => void;
   onLoadFromLibraryClick: () => void;
   hasApiKey: boolean;
   currentModel: string;
@@ -123,6 +145,7 @@ interface AuthorsLayoutProps {
   toolExecuting: boolean;
   toolResult: string;
   elapsedTime: number;
+  toolProgress?: ToolChunkProgress | null;
   toolJustFinished: boolean;
   manuscriptContent: string;
   onCategoryChange: (category: string) => void;
@@ -157,6 +180,9 @@ export default function AuthorsLayout({
   onPromptsClick,
   onCoverClick,
   onXrayClick,
+  onHistoryClick,
+  onFeedbackImportClick,
+  onStatsClick,
   onLoadFromLibraryClick,
   hasApiKey,
   currentModel,
@@ -169,6 +195,7 @@ export default function AuthorsLayout({
   toolExecuting,
   toolResult,
   elapsedTime,
+  toolProgress,
   toolJustFinished,
   manuscriptContent,
   onCategoryChange,
@@ -260,6 +287,15 @@ export default function AuthorsLayout({
   // Audio files state (for Visual Narrative)
   const [manuscriptAudios, setManuscriptAudios] = useState<Array<{filename: string, blob: Blob}>>([]);
 
+  // EPUB check - generated EPUB waiting for review when validation found problems
+  const [epubCheck, setEpubCheck] = useState<{ report: EpubValidationReport; epubData: Uint8Array; meta: WorkingCopyMeta } | null>(null);
+  // DOCX export: preset dialog
+  const [showDocxExport, setShowDocxExport] = useState(false);
+  const [docxExporting, setDocxExporting] = useState(false);
+  // Screenplay export: format dialog
+  const [showScreenplayExport, setShowScreenplayExport] = useState(false);
+  const [screenplayExporting, setScreenplayExporting] = useState(false);
+
   // (wallpaper-chapter system removed — SceneCraft handles immersive backgrounds)
 
   // Computed values
@@ -610,64 +646,23 @@ export default function AuthorsLayout({
     }
   }, [searchActive, searchResults, currentSearchIndex]);
 
-  // Auto-load working copy from IndexedDB on mount
+  // Load the active project's working copy from IndexedDB (on mount and after switching projects)
   // XHTML-Native: Sections now contain xhtml instead of content/plateValue
-  useEffect(() => {
-    const loadData = async () => {
-      const saved = await loadFullWorkingCopy();
-      if (saved) {
-        // Convert FullWorkingCopy to ParsedEpub format for UI
-        // XHTML-Native: Use xhtml field directly
-        // Filter out cover sections - cover is now handled via Menu > Cover, not as a section
-        const epub: ParsedEpub = {
-          title: saved.title,
-          author: saved.author,
-          language: saved.language,
-          coverImage: saved.coverImage,
-          sections: reorderSectionsByVisualGroup(
-            saved.sections
-              .filter((s) => s.type !== 'cover')
-              .map((s) => ({
-                id: s.id,
-                title: s.title,
-                href: `${s.id}.xhtml`,
-                xhtml: s.xhtml,
-                type: s.type,
-
-                sceneCraftConfig: s.sceneCraftConfig,
-              }))
-          ),
-        };
-        setEpub(epub);
-        setSelectedSectionId(epub.sections[0]?.id ?? null);
-      } else {
-        // No existing book - auto-create a new blank manuscript
-        // First 2 sections (Title Page, Copyright) are protected - cannot be deleted or moved
-        // Note: Cover is handled via Menu > Cover, not as a section
-        await clearWorkingCopy();
-        const year = new Date().getFullYear();
-        // XHTML-Native: Use xhtml for content
-        const blank = {
-          title: 'Untitled',
-          author: 'Anonymous',
-          language: 'en',
-          coverImage: null,
-          sections: [
-            { id: 'title-page', title: 'Title Page', xhtml: '<h1>Untitled</h1>\n<p>by Anonymous</p>', type: 'title-page' as const },
-            { id: 'copyright', title: 'Copyright', xhtml: `<p>Copyright © ${year} by Anonymous</p>\n<p>All rights reserved.</p>\n<p>No part of this book may be reproduced in any form or by any electronic or mechanical means, including information storage and retrieval systems, without written permission from the author, except for the use of brief quotations in a book review.</p>`, type: 'copyright' as const },
-            { id: 'chapter-1', title: 'Chapter 1', xhtml: '<p></p>', type: 'chapter' as const },
-          ],
-        };
-        await saveFullWorkingCopy(blank);
-        // Reload from IndexedDB to get normalized IDs
-        const newSaved = await loadFullWorkingCopy();
-        if (newSaved) {
-          const newEpub: ParsedEpub = {
-            title: newSaved.title,
-            author: newSaved.author,
-            language: newSaved.language,
-            coverImage: newSaved.coverImage,
-            sections: newSaved.sections.map((s) => ({
+  const loadWorkingCopy = useCallback(async () => {
+    const saved = await loadFullWorkingCopy();
+    if (saved) {
+      // Convert FullWorkingCopy to ParsedEpub format for UI
+      // XHTML-Native: Use xhtml field directly
+      // Filter out cover sections - cover is now handled via Menu > Cover, not as a section
+      const epub: ParsedEpub = {
+        title: saved.title,
+        author: saved.author,
+        language: saved.language,
+        coverImage: saved.coverImage,
+        sections: reorderSectionsByVisualGroup(
+          saved.sections
+            .filter((s) => s.type !== 'cover')
+            .map((s) => ({
               id: s.id,
               title: s.title,
               href: `${s.id}.xhtml`,
@@ -675,26 +670,178 @@ export default function AuthorsLayout({
               type: s.type,
 
               sceneCraftConfig: s.sceneCraftConfig,
-            })),
-          };
-          setEpub(newEpub);
-          setSelectedSectionId(newEpub.sections[0]?.id ?? null);
-        }
-        const newMeta = await loadWorkingCopyMeta();
-        if (newMeta) {
-          setBookMeta(newMeta);
-        }
-        return;
+            }))
+        ),
+      };
+      setEpub(epub);
+      setSelectedSectionId(epub.sections[0]?.id ?? null);
+    } else {
+      // No existing book - auto-create a new blank manuscript
+      // First 2 sections (Title Page, Copyright) are protected - cannot be deleted or moved
+      // Note: Cover is handled via Menu > Cover, not as a section
+      await clearWorkingCopy();
+      const year = new Date().getFullYear();
+      // XHTML-Native: Use xhtml for content
+      const blank = {
+        title: 'Untitled',
+        author: 'Anonymous',
+        language: 'en',
+        coverImage: null,
+        sections: [
+          { id: 'title-page', title: 'Title Page', xhtml: '<h1>Untitled</h1>\n<p>by Anonymous</p>', type: 'title-page' as const },
+          { id: 'copyright', title: 'Copyright', xhtml: `<p>Copyright © ${year} by Anonymous</p>\n<p>All rights reserved.</p>\n<p>No part of this book may be reproduced in any form or by any electronic or mechanical means, including information storage and retrieval systems, without written permission from the author, except for the use of brief quotations in a book review.</p>`, type: 'copyright' as const },
+          { id: 'chapter-1', title: 'Chapter 1', xhtml: '<p></p>', type: 'chapter' as const },
+        ],
+      };
+      await saveFullWorkingCopy(blank);
+      // Reload from IndexedDB to get normalized IDs
+      const newSaved = await loadFullWorkingCopy();
+      if (newSaved) {
+        const newEpub: ParsedEpub = {
+          title: newSaved.title,
+          author: newSaved.author,
+          language: newSaved.language,
+          coverImage: newSaved.coverImage,
+          sections: newSaved.sections.map((s) => ({
+            id: s.id,
+            title: s.title,
+            href: `${s.id}.xhtml`,
+            xhtml: s.xhtml,
+            type: s.type,
+
+            sceneCraftConfig: s.sceneCraftConfig,
+          })),
+        };
+        setEpub(newEpub);
+        setSelectedSectionId(newEpub.sections[0]?.id ?? null);
       }
-      // Also load full metadata for Title Page form
-      const meta = await loadWorkingCopyMeta();
-      if (meta) {
-        setBookMeta(meta);
+      const newMeta = await loadWorkingCopyMeta();
+      if (newMeta) {
+        setBookMeta(newMeta);
       }
-    };
-    loadData();
+      return;
+    }
+    // Also load full metadata for Title Page form
+    const meta = await loadWorkingCopyMeta();
+    if (meta) {
+      setBookMeta(meta);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWorkingCopy();
+  }, [loadWorkingCopy]);
+
+  // Projects: each book lives in its own project in IndexedDB
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+
+  const refreshProjects = useCallback(async () => {
+    const registry = await loadProjectRegistry();
+    setProjects(registry.projects);
+    setActiveProjectId(registry.activeProjectId);
   }, []);
 
+  // Refresh the project list whenever the loaded book changes (open, new, title edits)
+  useEffect(() => {
+    refreshProjects();
+  }, [bookMeta, refreshProjects]);
+
+  // Close per-book UI state before another project is loaded
+  const resetForProjectChange = () => {
+    handleSearchClose();
+    handleOneByOneClose();
+    setHasUnsavedChanges(false);
+    setPendingXhtml('');
+    setPendingTitle('');
+  };
+
+  const handleSwitchProject = async (projectId: string) => {
+    if (projectId === activeProjectId) return;
+    try {
+      if (hasUnsavedChanges) await saveCurrentSection();
+      resetForProjectChange();
+      await switchProject(projectId);
+      await loadWorkingCopy();
+      await refreshProjects();
+      await onResetTools?.();
+    } catch (error) {
+      console.error('Switching project failed:', error);
+      showAlert(`Error switching project: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+    }
+  };
+
+  const handleRenameProject = async (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+    const result = await Swal.fire({
+      title: 'Rename Project',
+      input: 'text',
+      inputValue: project.name,
+      showCancelButton: true,
+      confirmButtonText: 'Rename',
+      cancelButtonText: 'Cancel',
+      background: isDarkMode ? '#222' : '#fff',
+      color: isDarkMode ? '#fff' : '#333',
+      confirmButtonColor: '#28a745',
+      cancelButtonColor: '#6c757d',
+      customClass: {
+        container: 'swal-above-modal'
+      },
+      inputValidator: (value) => (!value || !value.trim() ? 'Please enter a name' : null),
+    });
+    if (!result.isConfirmed) return;
+    try {
+      await renameProject(projectId, result.value);
+      await refreshProjects();
+    } catch (error) {
+      console.error('Renaming project failed:', error);
+      showAlert(`Error renaming project: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+    }
+  };
+
+  const handleDuplicateProject = async (projectId: string) => {
+    try {
+      // The copy is taken from storage, so it should include the open section's edits
+      if (hasUnsavedChanges && projectId === activeProjectId) await saveCurrentSection();
+      const copy = await duplicateProject(projectId);
+      await refreshProjects();
+      showAlert(`Created "${copy.name}"`, 'success', undefined, isDarkMode);
+    } catch (error) {
+      console.error('Duplicating project failed:', error);
+      showAlert(`Error duplicating project: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+    }
+  };
+
+  const handleDeleteProject = async (projectId: string) => {
+    const project = projects.find((p) => p.id === projectId);
+    if (!project) return;
+    const confirmed = await showConfirm(
+      `Delete "${project.name}" and all of its chapters, images and audio? This cannot be undone.`,
+      isDarkMode,
+      'Delete Project',
+      'Delete',
+      'Cancel'
+    );
+    if (!confirmed) return;
+    const wasActive = projectId === activeProjectId;
+    try {
+      if (wasActive) {
+        if (hasUnsavedChanges) await saveCurrentSection();
+        resetForProjectChange();
+      }
+      await deleteProject(projectId);
+      if (wasActive) {
+        await loadWorkingCopy();
+        await onResetTools?.();
+      }
+      await refreshProjects();
+    } catch (error) {
+      console.error('Deleting project failed:', error);
+      showAlert(`Error deleting project: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+    }
+  };
+
   // Reload Working Copy when refreshKey changes (e.g., after Chapter Writer adds a chapter)
   // XHTML-Native: Use xhtml field
   useEffect(() => {
@@ -767,6 +914,36 @@ export default function AuthorsLayout({
     loadAudios();
   }, [bookMeta]);
 
+  // Load the selected section's comment threads
+  const [sectionDiscussions, setSectionDiscussions] = useState<TDiscussion[]>([]);
+  const discussionsSectionIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    // Hold edits until the new section's threads are in, so they can't be saved under the wrong section
+    discussionsSectionIdRef.current = null;
+    if (!selectedSectionId) {
+      setSectionDiscussions([]);
+      return;
+    }
+    let cancelled = false;
+    loadSectionDiscussions(selectedSectionId).then(discussions => {
+      if (cancelled) return;
+      discussionsSectionIdRef.current = selectedSectionId;
+      setSectionDiscussions(discussions);
+    });
+    return () => { cancelled = true; };
+  }, [selectedSectionId, bookMeta]);
+
+  // Comment threads are saved as they change; their anchors are saved with the section text
+  const handleDiscussionsChange = useCallback(async (discussions: TDiscussion[]) => {
+    const sectionId = discussionsSectionIdRef.current;
+    if (!sectionId) return;
+    try {
+      await saveSectionDiscussions(sectionId, discussions);
+    } catch (error) {
+      console.error('Failed to save comments:', error);
+    }
+  }, []);
+
   // Cleanup object URLs on unmount
   useEffect(() => {
     return () => {
@@ -897,7 +1074,8 @@ export default function AuthorsLayout({
       if (file) {
         try {
           const parsed = await parseEpub(file);
-          // Clear any existing working copy first
+          // Open into a new project so the current book is kept
+          await createProject(parsed.title);
           await clearWorkingCopy();
 
           // Save extracted inline images to IndexedDB
@@ -993,7 +1171,8 @@ export default function AuthorsLayout({
       if (file) {
         try {
           const parsed = await parseDocx(file);
-          // Clear any existing working copy first
+          // Open into a new project so the current book is kept
+          await createProject(parsed.title);
           await clearWorkingCopy();
           // Save to IndexedDB
           // Filter out table-of-contents - it gets auto-generated on "Publish"
@@ -1057,6 +1236,72 @@ export default function AuthorsLayout({
     input.click();
   };
 
+  // Open an imported screenplay (Fountain or Final Draft) as a new project:
+  // Title Page + Copyright + one section per scene
+  const openScreenplayProject = async (
+    title: string,
+    author: string,
+    fountainTitlePage: Record<string, string>,
+    elements: ScreenplayElement[],
+    sourceLabel: string,
+  ) => {
+    const { sections, sceneCount } = buildScreenplaySections(elements, title, author);
+
+    // Open into a new project so the current book is kept
+    await createProject(title);
+    await clearWorkingCopy();
+    await saveFullWorkingCopy({
+      title,
+      author,
+      language: 'en',
+      coverImage: null,
+      sections,
+    });
+
+    // Save title page fields to ManuscriptMeta
+    if (Object.keys(fountainTitlePage).length > 0) {
+      const manuscriptMeta = await loadManuscriptMeta();
+      if (manuscriptMeta) {
+        manuscriptMeta.fountainTitlePage = fountainTitlePage;
+        await saveManuscriptMeta(manuscriptMeta);
+      }
+    }
+
+    // Reload from IndexedDB to get normalized IDs
+    const saved = await loadFullWorkingCopy();
+    if (saved) {
+      const loadedEpub: ParsedEpub = {
+        title: saved.title,
+        author: saved.author,
+        language: saved.language,
+        coverImage: saved.coverImage,
+        sections: saved.sections
+          .filter((s) => s.type !== 'cover')
+          .map((s) => ({
+            id: s.id,
+            title: s.title,
+            href: `${s.id}.xhtml`,
+            xhtml: s.xhtml,
+            type: s.type,
+  
+            sceneCraftConfig: s.sceneCraftConfig,
+          })),
+      };
+      setEpub(loadedEpub);
+      setSelectedSectionId(loadedEpub.sections[0]?.id ?? null);
+    }
+
+    // Load metadata for Title Page form
+    const meta = await loadWorkingCopyMeta();
+    if (meta) {
+      setBookMeta(meta);
+    }
+
+    // Reset AI Editing state
+    await onResetTools?.();
+    showAlert(`Loaded "${title}" with ${sceneCount} scenes from ${sourceLabel}`, 'success', undefined, isDarkMode);
+  };
+
   // Handle opening a Fountain screenplay file
   // Parses .fountain tokens, splits on scene_heading, converts to XHTML sections
   // Preserves token types via data-fountain attributes for round-trip export
@@ -1116,26 +1361,12 @@ export default function AuthorsLayout({
           // Types to skip entirely (grouping markers with no text content)
           const skipTypes = new Set(['spaces']);
 
-          // Paragraph type: carries fountain type info through to XHTML generation
-          interface FountainParagraph {
-            text: string;
-            fountainType: string;
-            depth?: number;
-            dual?: string;  // 'left' or 'right' for dual dialogue
-          }
-
-          // Detect natural Fountain scene headings (INT/EXT/EST/I./E. patterns)
-          // Forced headings (prefixed with . in source) need the . restored for round-trip
-          const isNaturalSceneHeading = /^(?:(?:int|i)\.?\/(?:ext|e)|int|ext|est)[. ]/i;
-
-          // Split tokens into chapters on scene_heading boundaries
-          const chapters: { title: string; paragraphs: FountainParagraph[] }[] = [];
-          let currentChapter: { title: string; paragraphs: FountainParagraph[] } | null = null;
-
           // Track dual dialogue state
           let inDualDialogue = false;
           let dualSide: 'left' | 'right' = 'left';
 
+          // Token types are kept as element types (data-fountain) for round-trip export
+          const elements: ScreenplayElement[] = [];
           for (const token of tokens) {
             if (token.is_title) continue; // Skip title page tokens
             if (skipTypes.has(token.type)) continue;
@@ -1150,13 +1381,8 @@ export default function AuthorsLayout({
               inDualDialogue = false;
               continue;
             }
-            // dialogue_begin/dialogue_end: track which side of dual dialogue
-            if (token.type === 'dialogue_begin') {
-              if (inDualDialogue && dualSide === 'left') {
-                // After first dialogue block ends, next one is right
-              }
-              continue;
-            }
+            if (token.type === 'dialogue_begin') continue;
+            // dialogue_end: after the first dialogue block of a dual pair, the next one is right
             if (token.type === 'dialogue_end') {
               if (inDualDialogue) {
                 dualSide = 'right';
@@ -1165,160 +1391,24 @@ export default function AuthorsLayout({
             }
 
             if (token.type === 'scene_heading') {
-              // Start a new chapter
-              const headingText = stripHtml(token.text || 'Untitled Scene');
-              currentChapter = { title: headingText, paragraphs: [] };
-              chapters.push(currentChapter);
-              // Restore . prefix for forced scene headings so they round-trip correctly
-              const prefix = isNaturalSceneHeading.test(headingText) ? '' : '.';
-              currentChapter.paragraphs.push({
-                text: prefix + headingText,
-                fountainType: 'scene_heading',
-              });
+              elements.push({ text: stripHtml(token.text || 'Untitled Scene'), type: 'scene_heading' });
             } else if (token.text !== undefined && token.text !== null) {
               const cleaned = stripHtml(token.text).trim();
               if (!cleaned) continue;
-              if (!currentChapter) {
-                // Content before first scene heading → "Preamble"
-                currentChapter = { title: 'Preamble', paragraphs: [] };
-                chapters.push(currentChapter);
-              }
-
-              // Build paragraph with fountain type info
-              const para: FountainParagraph = {
-                text: cleaned,
-                fountainType: token.type || 'action',
-              };
-
+              const element: ScreenplayElement = { text: cleaned, type: token.type || 'action' };
               // Carry section depth if available
               if (token.type === 'section' && token.depth) {
-                para.depth = token.depth;
+                element.depth = token.depth;
               }
-
               // Mark dual dialogue characters
               if (inDualDialogue && token.type === 'character') {
-                para.dual = dualSide;
-              }
-
-              currentChapter.paragraphs.push(para);
-            }
-          }
-
-          // If no chapters were created (no scene headings at all), make one from all content
-          if (chapters.length === 0) {
-            const allParas: FountainParagraph[] = [];
-            for (const t of tokens) {
-              if (t.is_title || skipTypes.has(t.type)) continue;
-              if (['dialogue_begin', 'dialogue_end', 'dual_dialogue_begin', 'dual_dialogue_end'].includes(t.type)) continue;
-              if (t.text) {
-                const cleaned = stripHtml(t.text).trim();
-                if (cleaned) {
-                  allParas.push({ text: cleaned, fountainType: t.type || 'action' });
-                }
+                element.dual = dualSide;
               }
+              elements.push(element);
             }
-            if (allParas.length > 0) {
-              chapters.push({ title: 'Chapter 1', paragraphs: allParas });
-            }
-          }
-
-          // Helper to generate a <p> tag with data-fountain attributes
-          const fountainParagraphToXhtml = (para: FountainParagraph): string => {
-            let attrs = `data-fountain="${escapeHtmlForLayout(para.fountainType)}"`;
-            if (para.depth !== undefined) {
-              attrs += ` data-fountain-depth="${para.depth}"`;
-            }
-            if (para.dual) {
-              attrs += ` data-fountain-dual="${para.dual}"`;
-            }
-            return `<p ${attrs}>${escapeHtmlForLayout(para.text)}</p>`;
-          };
-
-          // Use pre-heading content (Preamble) as copyright if present
-          let copyrightXhtml: string;
-          if (chapters.length > 0 && chapters[0]?.title === 'Preamble') {
-            const preamble = chapters.shift()!;
-            copyrightXhtml = preamble.paragraphs
-              .map(p => fountainParagraphToXhtml(p))
-              .join('\n') || '<p></p>';
-          } else {
-            // No pre-heading content; generate default copyright
-            copyrightXhtml = `<p>Copyright &copy; ${new Date().getFullYear()} ${escapeHtmlForLayout(author || title)}</p>\n<p>All rights reserved.</p>`;
-          }
-
-          // Build sections array: Title Page + Copyright + content chapters
-          const sections = [
-            {
-              id: 'title-page',
-              title: 'Title Page',
-              xhtml: `<p>${escapeHtmlForLayout(title)}</p>\n<p>${escapeHtmlForLayout(author)}</p>`,
-            },
-            {
-              id: 'copyright',
-              title: 'Copyright',
-              xhtml: copyrightXhtml,
-            },
-            ...chapters.map((ch, i) => ({
-              id: `chapter-${i + 1}`,
-              title: ch.title,
-              xhtml: ch.paragraphs
-                .map(p => fountainParagraphToXhtml(p))
-                .join('\n') || '<p></p>',
-            })),
-          ];
-
-          // Clear and save
-          await clearWorkingCopy();
-          await saveFullWorkingCopy({
-            title,
-            author,
-            language: 'en',
-            coverImage: null,
-            sections,
-          });
-
-          // Save fountain title page fields to ManuscriptMeta
-          if (Object.keys(fountainTitlePage).length > 0) {
-            const manuscriptMeta = await loadManuscriptMeta();
-            if (manuscriptMeta) {
-              manuscriptMeta.fountainTitlePage = fountainTitlePage;
-              await saveManuscriptMeta(manuscriptMeta);
-            }
-          }
-
-          // Reload from IndexedDB to get normalized IDs
-          const saved = await loadFullWorkingCopy();
-          if (saved) {
-            const loadedEpub: ParsedEpub = {
-              title: saved.title,
-              author: saved.author,
-              language: saved.language,
-              coverImage: saved.coverImage,
-              sections: saved.sections
-                .filter((s) => s.type !== 'cover')
-                .map((s) => ({
-                  id: s.id,
-                  title: s.title,
-                  href: `${s.id}.xhtml`,
-                  xhtml: s.xhtml,
-                  type: s.type,
-  
-                  sceneCraftConfig: s.sceneCraftConfig,
-                })),
-            };
-            setEpub(loadedEpub);
-            setSelectedSectionId(loadedEpub.sections[0]?.id ?? null);
           }
 
-          // Load metadata for Title Page form
-          const meta = await loadWorkingCopyMeta();
-          if (meta) {
-            setBookMeta(meta);
-          }
-
-          // Reset AI Editing state
-          await onResetTools?.();
-          showAlert(`Loaded "${title}" with ${chapters.length} scenes from Fountain screenplay`, 'success', undefined, isDarkMode);
+          await openScreenplayProject(title, author, fountainTitlePage, elements, 'Fountain screenplay');
         } catch (error) {
           console.error('Error parsing Fountain file:', error);
           showAlert('Error parsing Fountain file. Please try a different file.', 'error', undefined, isDarkMode);
@@ -1328,6 +1418,29 @@ export default function AuthorsLayout({
     input.click();
   };
 
+  // Handle opening a Final Draft (.fdx) screenplay
+  // Same element model and section layout as a Fountain import
+  const handleOpenFdx = async () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.fdx';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        try {
+          const { elements, titlePage } = parseFdx(await file.text());
+          const title = titlePage['Title']?.split('\n')[0] || file.name.replace(/\.fdx$/i, '');
+          const author = titlePage['Author']?.split('\n')[0] || '';
+          await openScreenplayProject(title, author, titlePage, elements, 'Final Draft screenplay');
+        } catch (error) {
+          console.error('Error parsing Final Draft file:', error);
+          showAlert('Error parsing Final Draft file. Please try a different file.', 'error', undefined, isDarkMode);
+        }
+      }
+    };
+    input.click();
+  };
+
   // Handle removing a section/chapter
   const handleRemoveSection = async (sectionId: string) => {
     if (!epub) return;
@@ -1368,7 +1481,8 @@ export default function AuthorsLayout({
   // Handle creating a new blank manuscript
   // XHTML-Native: Use xhtml for content
   const handleNew = async () => {
-    // Clear existing working copy
+    // Start a new project - the current book stays in its own project
+    await createProject('Untitled');
     await clearWorkingCopy();
     const year = new Date().getFullYear();
     // Create blank manuscript with typed sections
@@ -1861,13 +1975,30 @@ export default function AuthorsLayout({
         freshAudios
       );
 
-      // 6. Create File object
+      // 8. Validate - show the report and let the user decide when there are problems
+      const report = await validateEpub(epubData);
+      if (report.errorCount > 0 || report.warningCount > 0) {
+        setEpubCheck({ report, epubData, meta });
+        return;
+      }
+
+      await publishEpubToLibrary(epubData, meta);
+    } catch (error) {
+      console.error('Error saving manuscript:', error);
+      showAlert(`Error saving manuscript: ${(error as Error).message}`, 'error', undefined, isDarkMode);
+    }
+  };
+
+  // Import a generated EPUB into the library, replacing the previous save
+  const publishEpubToLibrary = async (epubData: Uint8Array, meta: WorkingCopyMeta) => {
+    try {
+      // 1. Create File object
       const safeTitle = (meta.title || 'manuscript').replace(/[^a-zA-Z0-9\s-]/g, '').trim();
       const filename = `${safeTitle}.epub`;
       const blob = new Blob([epubData as BlobPart], { type: 'application/epub+zip' });
       const file = new File([blob], filename, { type: 'application/epub+zip' });
 
-      // 7. Import to e-reader library (replace existing, don't duplicate)
+      // 2. Import to e-reader library (replace existing, don't duplicate)
       const appService = await environmentConfig.getAppService();
       const books = await appService.loadLibraryBooks();
 
@@ -1916,16 +2047,34 @@ export default function AuthorsLayout({
     }
   };
 
+  // EPUB check: publish despite reported problems
+  const handleEpubCheckPublish = async () => {
+    if (!epubCheck) return;
+    const { epubData, meta } = epubCheck;
+    setEpubCheck(null);
+    await publishEpubToLibrary(epubData, meta);
+  };
+
+  // EPUB check: jump to the section an issue came from
+  const handleEpubCheckSectionClick = (sectionId: string) => {
+    setEpubCheck(null);
+    handleSelectSection(sectionId);
+  };
+
 
-  // Handle DOCX export - download manuscript for Vellum/Atticus import
+  // Handle DOCX export - choose a preset (Vellum/Atticus import or Standard Manuscript Format)
   const handleDocxExport = async () => {
     // Save pending changes first
     if (hasUnsavedChanges && selectedSection && selectedSectionId) {
       await saveCurrentSection();
     }
+    setShowDocxExport(true);
+  };
 
+  const handleDocxDownload = async (options: DocxExportOptions) => {
+    setDocxExporting(true);
     try {
-      const blob = await exportWorkspaceToDocx();
+      const blob = await exportWorkspaceToDocx(options);
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -1934,34 +2083,56 @@ export default function AuthorsLayout({
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
+      setShowDocxExport(false);
       showAlert('Downloaded DOCX!', 'success', undefined, isDarkMode);
     } catch (error) {
       console.error('DOCX export failed:', error);
       showAlert('DOCX export failed', 'error', undefined, isDarkMode);
+    } finally {
+      setDocxExporting(false);
     }
   };
 
-  // Handle Fountain export - download screenplay format
-  const handleFountainExport = async () => {
+  // Handle screenplay export - choose PDF, Final Draft or Fountain
+  const handleScreenplayExport = async () => {
     // Save pending changes first
     if (hasUnsavedChanges && selectedSection && selectedSectionId) {
       await saveCurrentSection();
     }
+    setShowScreenplayExport(true);
+  };
 
+  const handleScreenplayDownload = async (options: ScreenplayExportOptions) => {
+    setScreenplayExporting(true);
     try {
-      const blob = await exportWorkspaceToFountain();
+      let blob: Blob;
+      if (options.format === 'fountain') {
+        blob = await exportWorkspaceToFountain();
+      } else if (options.format === 'fdx') {
+        blob = new Blob([screenplayToFdx(await loadScreenplay(), options.sceneNumbers)], { type: 'application/xml' });
+      } else {
+        const families = registerPdfFonts(await loadCustomFontsForPdf(environmentConfig));
+        const fontFamily = [SCREENPLAY_PDF_FONT, BUILTIN_PDF_FONT, ...families].includes(options.fontFamily)
+          ? options.fontFamily
+          : SCREENPLAY_PDF_FONT;
+        blob = await renderScreenplayPdf(await loadScreenplay(), { ...options, fontFamily });
+      }
+
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${epub?.title || 'screenplay'}.fountain`;
+      a.download = `${epub?.title || 'screenplay'}.${options.format}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
-      showAlert('Downloaded Fountain!\nThe .fountain file downloaded will need clean up and editing in a proper screenplay editor.', 'success', undefined, isDarkMode);
+      setShowScreenplayExport(false);
+      showAlert(`Downloaded ${options.format === 'fdx' ? 'Final Draft' : options.format === 'pdf' ? 'screenplay PDF' : 'Fountain'}!`, 'success', undefined, isDarkMode);
     } catch (error) {
-      console.error('Fountain export failed:', error);
-      showAlert('Fountain export failed', 'error', undefined, isDarkMode);
+      console.error('Screenplay export failed:', error);
+      showAlert('Screenplay export failed', 'error', undefined, isDarkMode);
+    } finally {
+      setScreenplayExporting(false);
     }
   };
 
@@ -2052,9 +2223,16 @@ export default function AuthorsLayout({
         onChatClick={onChatClick}
         onPromptsClick={onPromptsClick}
         onNewClick={handleNew}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSwitchProject={handleSwitchProject}
+        onRenameProject={handleRenameProject}
+        onDuplicateProject={handleDuplicateProject}
+        onDeleteProject={handleDeleteProject}
         onOpenClick={handleOpenEpub}
         onOpenDocxClick={handleOpenDocx}
         onOpenFountainClick={handleOpenFountain}
+        onOpenFdxClick={handleOpenFdx}
         onLoadFromLibraryClick={onLoadFromLibraryClick}
         onSaveClick={handleSave}
         hasApiKey={hasApiKey}
@@ -2064,8 +2242,11 @@ export default function AuthorsLayout({
         onSearchClose={handleSearchClose}
         onCoverClick={onCoverClick}
         onDocxExportClick={handleDocxExport}
-        onFountainExportClick={handleFountainExport}
+        onScreenplayExportClick={handleScreenplayExport}
         onXrayClick={onXrayClick}
+        onHistoryClick={async () => { if (hasUnsavedChanges) await saveCurrentSection(); onHistoryClick?.(); }}
+        onFeedbackImportClick={async () => { if (hasUnsavedChanges) await saveCurrentSection(); onFeedbackImportClick?.(); }}
+        onStatsClick={async () => { if (hasUnsavedChanges) await saveCurrentSection(); onStatsClick?.(); }}
         hasUnsavedChanges={hasUnsavedChanges}
         trafficLightStatus={trafficLightStatus}
         trafficTooltip={trafficTooltip}
@@ -2163,6 +2344,7 @@ export default function AuthorsLayout({
             toolExecuting={toolExecuting}
             toolResult={toolResult}
             elapsedTime={elapsedTime}
+            toolProgress={toolProgress}
             toolJustFinished={toolJustFinished}
             manuscriptContent={manuscriptContent}
             onCategoryChange={onCategoryChange}
@@ -2210,10 +2392,43 @@ export default function AuthorsLayout({
             onSceneCraftConfigChange={handleSceneCraftConfigChange}
             getImageUrl={getImageUrlForSceneCraft}
             getAudioUrl={getAudioUrl}
+            // Review props
+            discussions={sectionDiscussions}
+            onDiscussionsChange={handleDiscussionsChange}
           />
         )}
 
       </div>
+
+      <EpubModal
+        isOpen={!!epubCheck}
+        onClose={() => setEpubCheck(null)}
+        theme={theme}
+        isDarkMode={isDarkMode}
+        validationReport={epubCheck?.report}
+        sections={epub?.sections.map(s => ({ id: s.id, title: s.title }))}
+        onSectionClick={handleEpubCheckSectionClick}
+        onPublishAnyway={handleEpubCheckPublish}
+      />
+
+      <DocxExportModal
+        isOpen={showDocxExport}
+        theme={theme}
+        isDarkMode={isDarkMode}
+        authorName={bookMeta?.author ?? epub?.author ?? ''}
+        isExporting={docxExporting}
+        onClose={() => setShowDocxExport(false)}
+        onExport={handleDocxDownload}
+      />
+
+      <ScreenplayExportModal
+        isOpen={showScreenplayExport}
+        theme={theme}
+        isDarkMode={isDarkMode}
+        isExporting={screenplayExporting}
+        onClose={() => setShowScreenplayExport(false)}
+        onExport={handleScreenplayDownload}
+      />
     </div>
   );
 }
@@ -0,0 +1,234 @@
+// DocxExportModal Component
+// Full-screen modal for choosing the DOCX preset before downloading
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ThemeConfig } from '../shared/theme';
+import StyledSmallButton from '@/components/StyledSmallButton';
+import {
+  DocxExportOptions,
+  DocxPreset,
+  DEFAULT_DOCX_EXPORT_OPTIONS,
+  MANUSCRIPT_FONTS,
+  ManuscriptFont,
+} from '@/lib/workspace-to-docx';
+
+const STORAGE_KEY = 'docxExportOptions';
+
+interface DocxExportModalProps {
+  isOpen: boolean;
+  theme: ThemeConfig;
+  isDarkMode: boolean;
+  authorName: string;
+  isExporting?: boolean;
+  onClose: () => void;
+  onExport: (options: DocxExportOptions) => void;
+}
+
+const PRESETS: Array<{ id: DocxPreset; label: string; description: string }> = [
+  {
+    id: 'book',
+    label: 'Book (Vellum / Atticus)',
+    description: 'Each section starts on a new page with a Heading 1, keeping italics, bold, lists, block quotes, scene breaks and images.',
+  },
+  {
+    id: 'manuscript',
+    label: 'Standard Manuscript Format',
+    description: 'For submissions to agents and editors: 12pt Courier or Times, double-spaced, 1" margins, a title page with your contact details and word count, and a "Surname / TITLE / page" header.',
+  },
+];
+
+function loadSavedOptions(): DocxExportOptions {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_DOCX_EXPORT_OPTIONS, ...JSON.parse(saved) } : DEFAULT_DOCX_EXPORT_OPTIONS;
+  } catch {
+    return DEFAULT_DOCX_EXPORT_OPTIONS;
+  }
+}
+
+export default function DocxExportModal({
+  isOpen,
+  theme,
+  isDarkMode: _isDarkMode,
+  authorName,
+  isExporting = false,
+  onClose,
+  onExport,
+}: DocxExportModalProps) {
+  const [options, setOptions] = useState<DocxExportOptions>(DEFAULT_DOCX_EXPORT_OPTIONS);
+
+  useEffect(() => {
+    if (isOpen) setOptions(loadSavedOptions());
+  }, [isOpen]);
+
+  const handleChange = <K extends keyof DocxExportOptions>(field: K, value: DocxExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleExport = () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    onExport(options);
+  };
+
+  if (!isOpen) return null;
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.text,
+  };
+
+  const inputStyle: React.CSSProperties = {
+    width: '100%',
+    padding: '8px',
+    backgroundColor: theme.inputBg,
+    color: theme.text,
+    border: `1px solid ${theme.border}`,
+    borderRadius: '4px',
+    fontSize: '14px',
+    boxSizing: 'border-box',
+  };
+
+  const isManuscript = options.preset === 'manuscript';
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: theme.modalBg,
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column'
+    }}>
+      {/* Header */}
+      <div style={{
+        padding: '16px 20px',
+        borderBottom: `1px solid ${theme.border}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        <h2 style={{
+          margin: 0,
+          fontSize: '18px',
+          fontWeight: 'bold',
+          color: theme.text
+        }}>
+          Export DOCX
+        </h2>
+
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <StyledSmallButton onClick={onClose} disabled={isExporting} theme={theme}>
+            Cancel
+          </StyledSmallButton>
+          <StyledSmallButton onClick={handleExport} disabled={isExporting} theme={theme}>
+            {isExporting ? 'Exporting...' : 'Download'}
+          </StyledSmallButton>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{
+        flex: 1,
+        overflow: 'auto',
+        padding: '16px 20px'
+      }}>
+        <div style={{ maxWidth: '720px', margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {PRESETS.map(preset => (
+            <label
+              key={preset.id}
+              style={{
+                display: 'flex',
+                gap: '10px',
+                padding: '12px',
+                border: `1px solid ${options.preset === preset.id ? '#3b82f6' : theme.border}`,
+                borderRadius: '6px',
+                cursor: 'pointer',
+                color: theme.text,
+              }}
+            >
+              <input
+                type="radio"
+                name="docx-preset"
+                checked={options.preset === preset.id}
+                onChange={() => handleChange('preset', preset.id)}
+                disabled={isExporting}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: 600 }}>{preset.label}</div>
+                <div style={{ fontSize: '13px', color: theme.textSecondary, marginTop: '4px' }}>
+                  {preset.description}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          {isManuscript && (
+            <>
+              <div>
+                <label style={labelStyle}>Font</label>
+                <select
+                  value={options.font}
+                  onChange={(e) => handleChange('font', e.target.value as ManuscriptFont)}
+                  disabled={isExporting}
+                  style={inputStyle}
+                >
+                  {MANUSCRIPT_FONTS.map(font => (
+                    <option key={font} value={font}>{font}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label style={labelStyle}>Legal name</label>
+                <input
+                  type="text"
+                  value={options.authorName}
+                  onChange={(e) => handleChange('authorName', e.target.value)}
+                  placeholder={authorName || 'Your name'}
+                  disabled={isExporting}
+                  style={inputStyle}
+                />
+              </div>
+
+              <div>
+                <label style={labelStyle}>Surname for the page header</label>
+                <input
+                  type="text"
+                  value={options.surname}
+                  onChange={(e) => handleChange('surname', e.target.value)}
+                  placeholder={(options.authorName || authorName).trim().split(/\s+/).pop() || 'Surname'}
+                  disabled={isExporting}
+                  style={inputStyle}
+                />
+              </div>
+
+              <div>
+                <label style={labelStyle}>Contact details</label>
+                <textarea
+                  value={options.contactInfo}
+                  onChange={(e) => handleChange('contactInfo', e.target.value)}
+                  placeholder={'Street address\nCity, State ZIP\nPhone\nEmail'}
+                  disabled={isExporting}
+                  rows={4}
+                  style={{ ...inputStyle, resize: 'vertical', fontFamily: 'inherit' }}
+                />
+                <div style={{ fontSize: '12px', color: theme.textMuted, marginTop: '4px' }}>
+                  Shown under your name on the title page, one item per line.
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { useState, useRef, useEffect, useCallback, useImperativeHandle, forwardR
 import { ThemeConfig } from '../shared/theme';
 import StyledSmallButton from '@/components/StyledSmallButton';
 import ToolProgressIndicator from '../ai-tools/ToolProgressIndicator';
+import type { ToolChunkProgress } from '@/lib/toolChunking';
 import { isValidToolReport } from '@/utils/parseToolReport';
 import OneByOnePanel from './OneByOnePanel';
 import SearchResultsPanel, { SearchResult } from './SearchResultsPanel';
@@ -16,13 +17,16 @@ import { ReportIssueWithStatus } from '@/types/oneByOne';
 import { ImageLibraryProvider } from '@/contexts/ImageLibraryContext';
 import { AudioLibraryProvider } from '@/contexts/AudioLibraryContext';
 import type { SceneCraftConfig } from '@/services/manuscriptStorage';
+import { showConfirm } from '../shared/alerts';
 
 
 // PlateJS imports
-import { Plate, usePlateEditor } from 'platejs/react';
+import { Plate, useEditorPluginOption, usePlateEditor } from 'platejs/react';
 import { EditorKit } from '@/components/plate-editor/editor-kit';
+import { discussionPlugin, type TDiscussion } from '@/components/plate-editor/plugins/discussion-kit';
 import { EditorContainer, Editor } from '@/components/plate-ui/editor';
 import { createEmptyValue, plateToPlainText, xhtmlToPlate, plateToXhtml } from '@/lib/plateXhtml';
+import { countReviewMarkup, resolveSuggestions, SuggestionResolution } from '@/lib/plateReview';
 import type { Value } from 'platejs';
 import { FindReplacePlugin } from '@platejs/find-replace';
 import { cn } from '@/lib/utils';
@@ -73,6 +77,7 @@ interface EditorPanelProps {
   toolExecuting: boolean;
   toolResult: string;
   elapsedTime: number;
+  toolProgress?: ToolChunkProgress | null;
   toolJustFinished: boolean;
   manuscriptContent: string;
   onCategoryChange: (category: string) => void;
@@ -115,6 +120,9 @@ interface EditorPanelProps {
   onSceneCraftConfigChange?: (config: SceneCraftConfig) => void;
   getImageUrl?: (filename: string) => string | null;
   getAudioUrl?: (filename: string) => Promise<string | null>;
+  // Review props - comment threads anchored in this section
+  discussions?: TDiscussion[];
+  onDiscussionsChange?: (discussions: TDiscussion[]) => void;
   // Book metadata (for preview display)
 }
 
@@ -147,6 +155,7 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
   toolExecuting,
   toolResult,
   elapsedTime,
+  toolProgress,
   toolJustFinished: _toolJustFinished,
   manuscriptContent: _manuscriptContent,
   onCategoryChange,
@@ -189,6 +198,9 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
   onSceneCraftConfigChange,
   getImageUrl,
   getAudioUrl,
+  // Review props
+  discussions,
+  onDiscussionsChange,
 }, ref) {
   const borderColor = isDarkMode ? '#404040' : '#e5e5e5';
   const mutedText = isDarkMode ? '#888' : '#666';
@@ -228,6 +240,9 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
   const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
 
+  // Pending tracked changes and comment threads in the section
+  const [reviewCounts, setReviewCounts] = useState({ suggestions: 0, comments: 0 });
+
   // Create initial value - use plateValue if available, otherwise create empty
   const initialValue = useMemo(() => {
     return createEmptyValue();
@@ -275,9 +290,27 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
     // between the raw sectionXhtml prop and what plateToXhtml(editor.children) produces.
     setOriginalXhtml(plateToXhtml(editor.children as Value));
     setHasChanges(false);  // Reset unsaved indicator when section changes
+    setReviewCounts(countReviewMarkup(editor.children as Value));
     setIsEditorReady(true);
   }, [sectionXhtml, editor]);
 
+  // Comment threads: load from props, report edits made in the editor's comment UI
+  const loadedDiscussionsRef = useRef<TDiscussion[] | null>(null);
+  const editorDiscussions = useEditorPluginOption(editor, discussionPlugin, 'discussions') as TDiscussion[];
+
+  useEffect(() => {
+    if (!editor) return;
+    const next = discussions ?? [];
+    loadedDiscussionsRef.current = next;
+    editor.setOption(discussionPlugin, 'discussions', next);
+  }, [discussions, editor]);
+
+  useEffect(() => {
+    if (editorDiscussions === loadedDiscussionsRef.current) return;
+    loadedDiscussionsRef.current = editorDiscussions;
+    onDiscussionsChange?.(editorDiscussions);
+  }, [editorDiscussions, onDiscussionsChange]);
+
   // Set/clear find-replace highlighting based on active search
   useEffect(() => {
     if (!editor) return;
@@ -302,6 +335,7 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
     // Check if content has changed by comparing XHTML
     const hasChanged = xhtml !== originalXhtml;
     setHasChanges(hasChanged);  // Update Save button indicator
+    setReviewCounts(countReviewMarkup(plateValue));
 
     // Notify parent with XHTML
     onContentChange?.(hasChanged, xhtml);
@@ -324,6 +358,24 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
     }
   }, [onSave, isSaving, editor]);
 
+  // Accept or reject every tracked change in the section (undoable with Ctrl+Z)
+  const handleResolveAllSuggestions = useCallback(async (resolution: SuggestionResolution) => {
+    if (!editor) return;
+    const count = countReviewMarkup(editor.children as Value).suggestions;
+    if (count === 0) return;
+    const confirmed = await showConfirm(
+      `${resolution === 'accept' ? 'Accept' : 'Reject'} all ${count} suggestion${count === 1 ? '' : 's'} in this section?`,
+      isDarkMode,
+      resolution === 'accept' ? 'Accept All' : 'Reject All',
+      resolution === 'accept' ? 'Accept all' : 'Reject all',
+      'Cancel'
+    );
+    if (!confirmed) return;
+
+    const resolved = resolveSuggestions(editor.children as Value, resolution);
+    editor.tf.replaceNodes(resolved, { at: [], children: true });
+  }, [editor, isDarkMode]);
+
   // Handle image insertion from picker
   // XHTML-Native: Inserts as proper Plate image element node, or calls pending callback
   const handleImageInsert = useCallback((filename: string, altText: string) => {
@@ -655,6 +707,34 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
           Scenecraft
         </StyledSmallButton>
 
+        {/* Review: bulk accept/reject of tracked changes */}
+        {(reviewCounts.suggestions > 0 || reviewCounts.comments > 0) && (
+          <>
+            <span
+              style={{ fontSize: '11px', color: mutedText, marginLeft: '4px' }}
+              title="Pending suggestions and commented passages in this section"
+            >
+              {reviewCounts.suggestions} sugg. · {reviewCounts.comments} comm.
+            </span>
+            <StyledSmallButton
+              theme={theme}
+              onClick={() => handleResolveAllSuggestions('accept')}
+              title="Accept all suggestions in this section"
+              disabled={toolExecuting || reviewCounts.suggestions === 0}
+            >
+              Accept All
+            </StyledSmallButton>
+            <StyledSmallButton
+              theme={theme}
+              onClick={() => handleResolveAllSuggestions('reject')}
+              title="Reject all suggestions in this section"
+              disabled={toolExecuting || reviewCounts.suggestions === 0}
+            >
+              Reject All
+            </StyledSmallButton>
+          </>
+        )}
+
         {/* AI Section with green background */}
         <div
           style={{
@@ -768,6 +848,7 @@ const EditorPanel = forwardRef<EditorPanelRef, EditorPanelProps>(function Editor
           elapsedTime={elapsedTime}
           theme={theme}
           toolResult={toolResult}
+          toolProgress={toolProgress}
           onReportClick={onReport}
           onOneByOneClick={onOneByOne}
           showOneByOneButton={isValidToolReport(toolResult)}
@@ -0,0 +1,357 @@
+// app/authors/ManuscriptStatsModal.tsx
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ThemeConfig } from '../shared/theme';
+import { showAlert } from '../shared/alerts';
+import StyledSmallButton from '@/components/StyledSmallButton';
+import {
+  ManuscriptStats,
+  loadManuscriptMeta,
+  loadManuscriptStats,
+  loadSectionXhtml,
+  saveWritingGoals,
+  countXhtmlWords,
+} from '@/services/manuscriptStorage';
+import {
+  SectionWordCount,
+  computeStreaks,
+  formatReadingTime,
+  getLocalDateKey,
+  getRecentDays,
+  groupByElementType,
+  projectGoal,
+  readingMinutes,
+} from '@/lib/manuscriptStats';
+import { ELEMENT_MAP } from './elementTypes';
+
+interface ManuscriptStatsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  theme: ThemeConfig;
+  isDarkMode: boolean;
+}
+
+const CHART_DAYS = 30;
+const CHART_HEIGHT = 140;
+const POSITIVE_COLOR = '#22c55e';
+const NEGATIVE_COLOR = '#dc3545';
+const SECTION_BAR_COLOR = '#3b82f6';
+
+export default function ManuscriptStatsModal({
+  isOpen,
+  onClose,
+  theme,
+  isDarkMode,
+}: ManuscriptStatsModalProps) {
+  const [sections, setSections] = useState<SectionWordCount[]>([]);
+  const [stats, setStats] = useState<ManuscriptStats | null>(null);
+  const [targetInput, setTargetInput] = useState('');
+  const [deadlineInput, setDeadlineInput] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const meta = await loadManuscriptMeta();
+      const counts: SectionWordCount[] = [];
+      for (const section of meta?.sections ?? []) {
+        const words = countXhtmlWords((await loadSectionXhtml(section.id)) ?? '');
+        counts.push({ id: section.id, title: section.title, type: section.type, words, readingMinutes: readingMinutes(words) });
+      }
+      const loaded = await loadManuscriptStats();
+      setSections(counts);
+      setStats(loaded);
+      setTargetInput(loaded.goals.targetWords ? String(loaded.goals.targetWords) : '');
+      setDeadlineInput(loaded.goals.deadline ?? '');
+    } catch (err) {
+      console.error('Error loading statistics:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const totalWords = useMemo(() => sections.reduce((sum, s) => sum + s.words, 0), [sections]);
+  const typeCounts = useMemo(() => groupByElementType(sections), [sections]);
+  const dailyWords = useMemo(() => stats?.dailyWords ?? {}, [stats]);
+  const recentDays = useMemo(() => getRecentDays(dailyWords, CHART_DAYS), [dailyWords]);
+  const streaks = useMemo(() => computeStreaks(dailyWords), [dailyWords]);
+  const targetWords = stats?.goals.targetWords ?? null;
+  const projection = useMemo(
+    () => targetWords ? projectGoal(totalWords, targetWords, dailyWords, stats?.goals.deadline ?? null) : null,
+    [totalWords, targetWords, dailyWords, stats],
+  );
+
+  if (!isOpen) return null;
+
+  const todayWords = dailyWords[getLocalDateKey()] ?? 0;
+  const maxSectionWords = Math.max(1, ...sections.map((s) => s.words));
+  const maxDayWords = Math.max(1, ...recentDays.map((d) => Math.abs(d.words)));
+  const hasNegativeDays = recentDays.some((d) => d.words < 0);
+  const baseline = hasNegativeDays ? CHART_HEIGHT / 2 : CHART_HEIGHT;
+  const barScale = baseline / maxDayWords;
+
+  const handleSaveGoal = async () => {
+    const target = targetInput.trim() ? parseInt(targetInput, 10) : null;
+    if (target !== null && (isNaN(target) || target <= 0)) {
+      showAlert('Target word count must be a positive number.', 'error', undefined, isDarkMode);
+      return;
+    }
+    setSaving(true);
+    try {
+      const goals = { targetWords: target, deadline: deadlineInput || null };
+      await saveWritingGoals(goals);
+      setStats((prev) => prev ? { ...prev, goals } : prev);
+    } catch (err) {
+      console.error('Error saving goal:', err);
+      showAlert('Failed to save goal.', 'error', undefined, isDarkMode);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cardStyle: React.CSSProperties = {
+    flex: '1 1 140px',
+    padding: '12px',
+    border: `1px solid ${theme.border}`,
+    borderRadius: '6px',
+    backgroundColor: theme.bg,
+  };
+
+  const panelTitleStyle: React.CSSProperties = {
+    margin: '0 0 10px 0',
+    fontSize: '14px',
+    fontWeight: 'bold',
+    color: theme.text,
+  };
+
+  const inputStyle: React.CSSProperties = {
+    padding: '4px 8px',
+    backgroundColor: theme.inputBg,
+    color: theme.text,
+    border: `1px solid ${theme.border}`,
+    borderRadius: '4px',
+    fontSize: '13px',
+  };
+
+  const summaryCards = [
+    { label: 'Total words', value: totalWords.toLocaleString() },
+    { label: 'Sections', value: sections.length.toLocaleString() },
+    { label: 'Reading time', value: formatReadingTime(readingMinutes(totalWords)) },
+    { label: 'Written today', value: todayWords.toLocaleString() },
+    { label: 'Current streak', value: `${streaks.current} ${streaks.current === 1 ? 'day' : 'days'}` },
+    { label: 'Longest streak', value: `${streaks.longest} ${streaks.longest === 1 ? 'day' : 'days'}` },
+  ];
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: theme.modalBg,
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column'
+    }}>
+      {/* Header */}
+      <div style={{
+        padding: '16px 20px',
+        borderBottom: `1px solid ${theme.border}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 'bold', color: theme.text }}>
+          Statistics
+        </h2>
+        <StyledSmallButton onClick={onClose} theme={theme}>
+          Close
+        </StyledSmallButton>
+      </div>
+
+      {/* Content */}
+      <div style={{ flex: 1, overflowY: 'auto', padding: '16px 20px', color: theme.text, fontSize: '13px' }}>
+        {loading ? (
+          <div style={{ color: theme.textMuted }}>Loading...</div>
+        ) : (
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '20px', maxWidth: '1000px', margin: '0 auto' }}>
+            {/* Summary */}
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px' }}>
+              {summaryCards.map((card) => (
+                <div key={card.label} style={cardStyle}>
+                  <div style={{ color: theme.textMuted, fontSize: '11px' }}>{card.label}</div>
+                  <div style={{ fontSize: '20px', fontWeight: 'bold', marginTop: '4px' }}>{card.value}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Goal */}
+            <div style={{ ...cardStyle, flex: 'none' }}>
+              <h3 style={panelTitleStyle}>Goal</h3>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', alignItems: 'center' }}>
+                <label style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                  Target words
+                  <input
+                    type="number"
+                    min={1}
+                    value={targetInput}
+                    onChange={(e) => setTargetInput(e.target.value)}
+                    placeholder="e.g. 80000"
+                    style={{ ...inputStyle, width: '110px' }}
+                  />
+                </label>
+                <label style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+                  Deadline
+                  <input
+                    type="date"
+                    value={deadlineInput}
+                    onChange={(e) => setDeadlineInput(e.target.value)}
+                    style={inputStyle}
+                  />
+                </label>
+                <StyledSmallButton onClick={handleSaveGoal} disabled={saving} theme={theme}>
+                  Save Goal
+                </StyledSmallButton>
+              </div>
+
+              {projection && targetWords ? (
+                <div style={{ marginTop: '12px' }}>
+                  <div style={{ height: '10px', backgroundColor: theme.headerBg, borderRadius: '5px', overflow: 'hidden' }}>
+                    <div style={{ width: `${projection.percent}%`, height: '100%', backgroundColor: POSITIVE_COLOR }} />
+                  </div>
+                  <div style={{ marginTop: '6px' }}>
+                    {totalWords.toLocaleString()} of {targetWords.toLocaleString()} words ({Math.floor(projection.percent)}%)
+                    {projection.remaining > 0 && ` · ${projection.remaining.toLocaleString()} to go`}
+                  </div>
+                  <div style={{ marginTop: '4px', color: theme.textSecondary }}>
+                    Recent pace: {Math.round(projection.averagePerDay).toLocaleString()} words/day
+                    {' · '}
+                    {projection.remaining === 0
+                      ? 'Goal reached'
+                      : projection.projectedFinish
+                        ? `Projected finish: ${projection.projectedFinish.toLocaleDateString()}`
+                        : 'Write a little to see a projected finish date'}
+                  </div>
+                  {projection.daysToDeadline !== null && projection.remaining > 0 && (
+                    <div style={{ marginTop: '4px', color: projection.onTrack ? POSITIVE_COLOR : NEGATIVE_COLOR }}>
+                      {projection.daysToDeadline > 0
+                        ? `${projection.daysToDeadline} ${projection.daysToDeadline === 1 ? 'day' : 'days'} left · ${projection.requiredPerDay?.toLocaleString()} words/day needed · ${projection.onTrack ? 'on track' : 'behind schedule'}`
+                        : 'The deadline has passed'}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div style={{ marginTop: '8px', color: theme.textMuted }}>
+                  Set a target word count (and optionally a deadline) to track progress.
+                </div>
+              )}
+            </div>
+
+            {/* Daily words chart */}
+            <div style={{ ...cardStyle, flex: 'none' }}>
+              <h3 style={panelTitleStyle}>Words written, last {CHART_DAYS} days</h3>
+              <svg
+                viewBox={`0 0 ${CHART_DAYS * 10} ${CHART_HEIGHT}`}
+                preserveAspectRatio="none"
+                style={{ width: '100%', height: `${CHART_HEIGHT}px`, display: 'block' }}
+              >
+                <line x1={0} y1={baseline} x2={CHART_DAYS * 10} y2={baseline} stroke={theme.border} strokeWidth={1} />
+                {recentDays.map((day, i) => {
+                  const height = Math.abs(day.words) * barScale;
+                  return (
+                    <rect
+                      key={day.date}
+                      x={i * 10 + 1}
+                      y={day.words >= 0 ? baseline - height : baseline}
+                      width={8}
+                      height={height}
+                      fill={day.words >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR}
+                    >
+                      <title>{`${day.date}: ${day.words.toLocaleString()} words`}</title>
+                    </rect>
+                  );
+                })}
+              </svg>
+              <div style={{ display: 'flex', justifyContent: 'space-between', color: theme.textMuted, fontSize: '11px', marginTop: '4px' }}>
+                <span>{recentDays[0]?.date}</span>
+                <span>Today</span>
+              </div>
+            </div>
+
+            {/* Words per section */}
+            <div style={{ ...cardStyle, flex: 'none' }}>
+              <h3 style={panelTitleStyle}>Words per section</h3>
+              {sections.length === 0 ? (
+                <div style={{ color: theme.textMuted }}>No sections yet.</div>
+              ) : (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                  {sections.map((section) => (
+                    <div key={section.id} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                      <div style={{ width: '200px', flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={section.title}>
+                        {section.title}
+                      </div>
+                      <div style={{ flex: 1, height: '12px', backgroundColor: theme.headerBg, borderRadius: '3px', overflow: 'hidden' }}>
+                        <div style={{ width: `${(section.words / maxSectionWords) * 100}%`, height: '100%', backgroundColor: SECTION_BAR_COLOR }} />
+                      </div>
+                      <div style={{ width: '150px', flexShrink: 0, textAlign: 'right', color: theme.textSecondary }}>
+                        {section.words.toLocaleString()} w · {formatReadingTime(section.readingMinutes)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Words per element type */}
+            <div style={{ ...cardStyle, flex: 'none' }}>
+              <h3 style={panelTitleStyle}>Words per element type</h3>
+              <table style={{ width: '100%', borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ backgroundColor: theme.headerBg }}>
+                    <th style={{ padding: '6px 8px', textAlign: 'left' }}>Type</th>
+                    <th style={{ padding: '6px 8px', textAlign: 'right' }}>Sections</th>
+                    <th style={{ padding: '6px 8px', textAlign: 'right' }}>Words</th>
+                    <th style={{ padding: '6px 8px', textAlign: 'right' }}>Share</th>
+                    <th style={{ padding: '6px 8px', textAlign: 'right' }}>Reading time</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {typeCounts.map((group) => (
+                    <tr key={group.type} style={{ borderBottom: `1px solid ${theme.border}` }}>
+                      <td style={{ padding: '6px 8px' }}>{ELEMENT_MAP.get(group.type)?.displayName ?? group.type}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{group.sections}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{group.words.toLocaleString()}</td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>
+                        {totalWords > 0 ? `${Math.round((group.words / totalWords) * 100)}%` : '–'}
+                      </td>
+                      <td style={{ padding: '6px 8px', textAlign: 'right' }}>{formatReadingTime(readingMinutes(group.words))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
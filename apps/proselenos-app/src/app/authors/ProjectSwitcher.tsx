@@ -0,0 +1,156 @@
+// app/authors/ProjectSwitcher.tsx
+
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { ThemeConfig } from '../shared/theme';
+import { showConfirm } from '../shared/alerts';
+import StyledSmallButton from '@/components/StyledSmallButton';
+import { ProjectInfo } from '@/services/manuscriptStorage';
+
+interface ProjectSwitcherProps {
+  theme: ThemeConfig;
+  isDarkMode: boolean;
+  projects: ProjectInfo[];
+  activeProjectId: string | null;
+  disabled?: boolean;
+  hasUnsavedChanges?: boolean;
+  onSwitch: (projectId: string) => void;
+  onNew: () => void;
+  onRename: (projectId: string) => void;
+  onDuplicate: (projectId: string) => void;
+  onDelete: (projectId: string) => void;
+}
+
+export default function ProjectSwitcher({
+  theme,
+  isDarkMode,
+  projects,
+  activeProjectId,
+  disabled = false,
+  hasUnsavedChanges = false,
+  onSwitch,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: ProjectSwitcherProps) {
+  const [open, setOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
+
+  const activeProject = projects.find((p) => p.id === activeProjectId);
+  // Most recently worked on first
+  const sortedProjects = [...projects].sort((a, b) => b.updatedAt - a.updatedAt);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const confirmLeave = async (): Promise<boolean> => {
+    if (!hasUnsavedChanges) return true;
+    return showConfirm(
+      'You have unsaved changes that will be lost. Continue?',
+      isDarkMode,
+      'Unsaved Changes',
+      'Continue',
+      'Cancel'
+    );
+  };
+
+  const handleSelect = async (projectId: string) => {
+    setOpen(false);
+    if (projectId === activeProjectId) return;
+    if (!(await confirmLeave())) return;
+    onSwitch(projectId);
+  };
+
+  const handleNew = async () => {
+    setOpen(false);
+    if (!(await confirmLeave())) return;
+    onNew();
+  };
+
+  const itemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    background: 'none',
+    border: 'none',
+    textAlign: 'left',
+    cursor: 'pointer',
+    color: theme.text,
+    fontSize: '13px',
+  };
+
+  return (
+    <div ref={ref} style={{ position: 'relative' }}>
+      <StyledSmallButton
+        theme={theme}
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        title="Switch between books you are working on"
+        styleOverrides={{ maxWidth: '180px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+      >
+        {activeProject?.name || 'Projects'} ▾
+      </StyledSmallButton>
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '100%',
+            left: 0,
+            marginTop: '4px',
+            backgroundColor: theme.bg,
+            border: `1px solid ${theme.border}`,
+            borderRadius: '4px',
+            boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+            zIndex: 1000,
+            minWidth: '240px',
+            maxHeight: '60vh',
+            overflowY: 'auto',
+          }}
+        >
+          {sortedProjects.map((project) => (
+            <button
+              key={project.id}
+              onClick={() => handleSelect(project.id)}
+              title={`Last edited ${new Date(project.updatedAt).toLocaleString()}`}
+              style={{
+                ...itemStyle,
+                fontWeight: project.id === activeProjectId ? 'bold' : 'normal',
+                background: project.id === activeProjectId ? 'rgba(59, 130, 246, 0.15)' : 'none',
+              }}
+            >
+              {project.id === activeProjectId ? '✓ ' : ''}{project.name}
+            </button>
+          ))}
+          <div style={{ borderTop: `1px solid ${theme.border}`, margin: '4px 0' }} />
+          <button onClick={handleNew} style={itemStyle}>
+            New Project
+          </button>
+          {activeProjectId && (
+            <>
+              <button onClick={() => { setOpen(false); onRename(activeProjectId); }} style={itemStyle}>
+                Rename…
+              </button>
+              <button onClick={() => { setOpen(false); onDuplicate(activeProjectId); }} style={itemStyle}>
+                Duplicate
+              </button>
+              <button onClick={() => { setOpen(false); onDelete(activeProjectId); }} style={{ ...itemStyle, color: '#dc3545' }}>
+                Delete…
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
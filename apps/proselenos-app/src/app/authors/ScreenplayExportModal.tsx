@@ -0,0 +1,246 @@
+// ScreenplayExportModal Component
+// Full-screen modal for exporting the screenplay as PDF, Final Draft or Fountain
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ThemeConfig } from '../shared/theme';
+import StyledSmallButton from '@/components/StyledSmallButton';
+import environmentConfig from '@/services/environment';
+import {
+  BUILTIN_PDF_FONT,
+  SCREENPLAY_PDF_FONT,
+  getPdfFontFamilies,
+  loadCustomFontsForPdf,
+} from '@/lib/pdfFonts';
+import { DEFAULT_SCREENPLAY_PDF_OPTIONS, type ScreenplayPdfOptions } from '@/lib/screenplay-pdf';
+
+export type ScreenplayFormat = 'pdf' | 'fdx' | 'fountain';
+
+export interface ScreenplayExportOptions extends ScreenplayPdfOptions {
+  format: ScreenplayFormat;
+}
+
+const STORAGE_KEY = 'screenplayExportOptions';
+
+const FORMATS: Array<{ id: ScreenplayFormat; label: string; description: string }> = [
+  {
+    id: 'pdf',
+    label: 'Screenplay PDF',
+    description: 'Industry format on US Letter: Courier 12, standard element margins, (MORE) and CONT’D across page breaks, dual dialogue and a title page.',
+  },
+  {
+    id: 'fdx',
+    label: 'Final Draft (.fdx)',
+    description: 'Opens in Final Draft and most screenwriting apps. Sections, synopses and notes are left out.',
+  },
+  {
+    id: 'fountain',
+    label: 'Fountain (.fountain)',
+    description: 'Plain-text screenplay markup, keeping sections, synopses and notes.',
+  },
+];
+
+interface ScreenplayExportModalProps {
+  isOpen: boolean;
+  theme: ThemeConfig;
+  isDarkMode: boolean;
+  isExporting?: boolean;
+  onClose: () => void;
+  onExport: (options: ScreenplayExportOptions) => void;
+}
+
+export default function ScreenplayExportModal({
+  isOpen,
+  theme,
+  isDarkMode: _isDarkMode,
+  isExporting = false,
+  onClose,
+  onExport,
+}: ScreenplayExportModalProps) {
+  const [options, setOptions] = useState<ScreenplayExportOptions>({ format: 'pdf', ...DEFAULT_SCREENPLAY_PDF_OPTIONS });
+  const [fontFamilies, setFontFamilies] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let saved: Partial<ScreenplayExportOptions> = {};
+    try {
+      saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      // Ignore unreadable saved options
+    }
+
+    loadCustomFontsForPdf(environmentConfig).then((fonts) => {
+      const families = getPdfFontFamilies(fonts).map(f => f.family);
+      setFontFamilies(families);
+      const fontFamily = saved.fontFamily && [SCREENPLAY_PDF_FONT, BUILTIN_PDF_FONT, ...families].includes(saved.fontFamily)
+        ? saved.fontFamily
+        : SCREENPLAY_PDF_FONT;
+      setOptions({ format: 'pdf', ...DEFAULT_SCREENPLAY_PDF_OPTIONS, ...saved, fontFamily });
+    });
+  }, [isOpen]);
+
+  const handleChange = <K extends keyof ScreenplayExportOptions>(field: K, value: ScreenplayExportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleExport = () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    onExport(options);
+  };
+
+  if (!isOpen) return null;
+
+  const labelStyle: React.CSSProperties = {
+    display: 'block',
+    marginBottom: '4px',
+    fontSize: '14px',
+    fontWeight: '600',
+    color: theme.text,
+  };
+
+  const checkboxStyle: React.CSSProperties = {
+    display: 'flex',
+    gap: '8px',
+    alignItems: 'center',
+    fontSize: '14px',
+    color: theme.text,
+  };
+
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: theme.modalBg,
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column'
+    }}>
+      {/* Header */}
+      <div style={{
+        padding: '16px 20px',
+        borderBottom: `1px solid ${theme.border}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        <h2 style={{
+          margin: 0,
+          fontSize: '18px',
+          fontWeight: 'bold',
+          color: theme.text
+        }}>
+          Export Screenplay
+        </h2>
+
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <StyledSmallButton onClick={onClose} disabled={isExporting} theme={theme}>
+            Cancel
+          </StyledSmallButton>
+          <StyledSmallButton onClick={handleExport} disabled={isExporting} theme={theme}>
+            {isExporting ? 'Exporting...' : 'Download'}
+          </StyledSmallButton>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{
+        flex: 1,
+        overflow: 'auto',
+        padding: '16px 20px'
+      }}>
+        <div style={{ maxWidth: '720px', margin: '0 auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          {FORMATS.map(format => (
+            <label
+              key={format.id}
+              style={{
+                display: 'flex',
+                gap: '10px',
+                padding: '12px',
+                border: `1px solid ${options.format === format.id ? '#3b82f6' : theme.border}`,
+                borderRadius: '6px',
+                cursor: 'pointer',
+                color: theme.text,
+              }}
+            >
+              <input
+                type="radio"
+                name="screenplay-format"
+                checked={options.format === format.id}
+                onChange={() => handleChange('format', format.id)}
+                disabled={isExporting}
+              />
+              <div>
+                <div style={{ fontSize: '14px', fontWeight: 600 }}>{format.label}</div>
+                <div style={{ fontSize: '13px', color: theme.textSecondary, marginTop: '4px' }}>
+                  {format.description}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          {options.format === 'pdf' && (
+            <div>
+              <label style={labelStyle}>Font</label>
+              <select
+                value={options.fontFamily}
+                onChange={(e) => handleChange('fontFamily', e.target.value)}
+                disabled={isExporting}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  backgroundColor: theme.inputBg,
+                  color: theme.text,
+                  border: `1px solid ${theme.border}`,
+                  borderRadius: '4px',
+                  fontSize: '14px',
+                }}
+              >
+                <option value={SCREENPLAY_PDF_FONT}>Courier Prime (built in)</option>
+                {fontFamilies.map(family => (
+                  <option key={family} value={family}>{family}</option>
+                ))}
+                <option value={BUILTIN_PDF_FONT}>EB Garamond (built in)</option>
+              </select>
+              {options.fontFamily !== SCREENPLAY_PDF_FONT && (
+                <div style={{ fontSize: '12px', color: theme.textMuted, marginTop: '4px' }}>
+                  Screenplays are set in Courier 12 so that a page runs about a minute of screen time.
+                  Other fonts change the page count.
+                </div>
+              )}
+            </div>
+          )}
+
+          {options.format !== 'fountain' && (
+            <label style={checkboxStyle}>
+              <input
+                type="checkbox"
+                checked={options.sceneNumbers}
+                onChange={(e) => handleChange('sceneNumbers', e.target.checked)}
+                disabled={isExporting}
+              />
+              Scene numbers
+            </label>
+          )}
+
+          {options.format === 'pdf' && (
+            <label style={checkboxStyle}>
+              <input
+                type="checkbox"
+                checked={options.titlePage}
+                onChange={(e) => handleChange('titlePage', e.target.checked)}
+                disabled={isExporting}
+              />
+              Title page
+            </label>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,437 @@
+// app/authors/SnapshotHistoryModal.tsx
+
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Swal from 'sweetalert2';
+import { ThemeConfig } from '../shared/theme';
+import { showAlert, showConfirm } from '../shared/alerts';
+import StyledSmallButton from '@/components/StyledSmallButton';
+import {
+  SnapshotInfo,
+  ManuscriptSnapshot,
+  ManuscriptMeta,
+  listSnapshots,
+  loadSnapshot,
+  createSnapshot,
+  renameSnapshot,
+  deleteSnapshot,
+  restoreSnapshot,
+  restoreSnapshotSection,
+  loadManuscriptMeta,
+  loadSectionXhtml,
+} from '@/services/manuscriptStorage';
+import { xhtmlToPlainText } from '@/lib/plateXhtml';
+import { diffSideBySide, SideBySideRow } from '@/utils/diff';
+
+interface SnapshotHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: (sectionId?: string) => void;
+  theme: ThemeConfig;
+  isDarkMode: boolean;
+}
+
+type SectionStatus = 'unchanged' | 'modified' | 'deleted' | 'added';
+
+interface SectionComparison {
+  id: string;
+  title: string;
+  status: SectionStatus;
+  snapshotXhtml: string | null;
+  currentXhtml: string | null;
+}
+
+const STATUS_LABELS: Record<SectionStatus, { label: string; color: string }> = {
+  unchanged: { label: 'unchanged', color: '#888' },
+  modified: { label: 'modified', color: '#f59e0b' },
+  deleted: { label: 'deleted since', color: '#dc3545' },
+  added: { label: 'added since', color: '#22c55e' },
+};
+
+const ROW_COLORS: Record<SideBySideRow['type'], string> = {
+  equal: 'transparent',
+  removed: 'rgba(220, 53, 69, 0.15)',
+  added: 'rgba(34, 197, 94, 0.15)',
+  changed: 'rgba(245, 158, 11, 0.15)',
+};
+
+export default function SnapshotHistoryModal({
+  isOpen,
+  onClose,
+  onRestored,
+  theme,
+  isDarkMode,
+}: SnapshotHistoryModalProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<ManuscriptSnapshot | null>(null);
+  const [currentMeta, setCurrentMeta] = useState<ManuscriptMeta | null>(null);
+  const [currentSections, setCurrentSections] = useState<Record<string, string>>({});
+  const [selectedSectionId, setSelectedSectionId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const loadCurrent = useCallback(async () => {
+    const meta = await loadManuscriptMeta();
+    const sections: Record<string, string> = {};
+    for (const section of meta?.sections ?? []) {
+      const xhtml = await loadSectionXhtml(section.id);
+      if (xhtml !== null) sections[section.id] = xhtml;
+    }
+    setCurrentMeta(meta);
+    setCurrentSections(sections);
+  }, []);
+
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list] = await Promise.all([listSnapshots(), loadCurrent()]);
+      setSnapshots(list);
+    } catch (err) {
+      console.error('Error loading snapshots:', err);
+      setSnapshots([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [loadCurrent]);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setSelectedSnapshot(null);
+      setSelectedSectionId(null);
+      return;
+    }
+    refresh();
+  }, [isOpen, refresh]);
+
+  // Handle escape key
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  // Compare every section of the snapshot against the working copy, in snapshot order
+  const comparisons = useMemo<SectionComparison[]>(() => {
+    if (!selectedSnapshot) return [];
+    const result: SectionComparison[] = selectedSnapshot.meta.sections
+      .filter((s) => s.id in selectedSnapshot.sections)
+      .map((s) => {
+        const snapshotXhtml = selectedSnapshot.sections[s.id]!;
+        const currentXhtml = currentSections[s.id] ?? null;
+        const status: SectionStatus =
+          currentXhtml === null ? 'deleted' : currentXhtml === snapshotXhtml ? 'unchanged' : 'modified';
+        return { id: s.id, title: s.title, status, snapshotXhtml, currentXhtml };
+      });
+    for (const s of currentMeta?.sections ?? []) {
+      if (!(s.id in selectedSnapshot.sections) && s.id in currentSections) {
+        result.push({ id: s.id, title: s.title, status: 'added', snapshotXhtml: null, currentXhtml: currentSections[s.id]! });
+      }
+    }
+    return result;
+  }, [selectedSnapshot, currentMeta, currentSections]);
+
+  const selectedComparison = comparisons.find((c) => c.id === selectedSectionId) || null;
+
+  const diffRows = useMemo(() => {
+    if (!selectedComparison) return [];
+    return diffSideBySide(
+      xhtmlToPlainText(selectedComparison.snapshotXhtml ?? ''),
+      xhtmlToPlainText(selectedComparison.currentXhtml ?? ''),
+    );
+  }, [selectedComparison]);
+
+  if (!isOpen) return null;
+
+  const promptForName = async (title: string, inputValue: string): Promise<string | null> => {
+    const result = await Swal.fire({
+      title,
+      input: 'text',
+      inputValue,
+      showCancelButton: true,
+      confirmButtonText: 'Save',
+      cancelButtonText: 'Cancel',
+      background: isDarkMode ? '#222' : '#fff',
+      color: isDarkMode ? '#fff' : '#333',
+      confirmButtonColor: '#28a745',
+      cancelButtonColor: '#6c757d',
+      customClass: {
+        container: 'swal-above-modal'
+      },
+      inputValidator: (value) => (!value || !value.trim() ? 'Please enter a name' : null),
+    });
+    return result.isConfirmed ? result.value : null;
+  };
+
+  const handleSelectSnapshot = async (id: string) => {
+    setSelectedSectionId(null);
+    const snapshot = await loadSnapshot(id);
+    setSelectedSnapshot(snapshot);
+  };
+
+  const handleTakeSnapshot = async () => {
+    const name = await promptForName('Take Snapshot', new Date().toLocaleString());
+    if (!name) return;
+    setBusy(true);
+    try {
+      const info = await createSnapshot(name);
+      if (!info) {
+        showAlert('There is no manuscript to snapshot yet.', 'info', 'Snapshots', isDarkMode);
+        return;
+      }
+      await refresh();
+      await handleSelectSnapshot(info.id);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selectedSnapshot) return;
+    const name = await promptForName('Rename Snapshot', selectedSnapshot.name);
+    if (!name) return;
+    await renameSnapshot(selectedSnapshot.id, name);
+    await refresh();
+    await handleSelectSnapshot(selectedSnapshot.id);
+  };
+
+  const handleDelete = async () => {
+    if (!selectedSnapshot) return;
+    const confirmed = await showConfirm(
+      `Delete the snapshot "${selectedSnapshot.name}"?`,
+      isDarkMode,
+      'Delete Snapshot',
+      'Delete',
+      'Cancel'
+    );
+    if (!confirmed) return;
+    await deleteSnapshot(selectedSnapshot.id);
+    setSelectedSnapshot(null);
+    setSelectedSectionId(null);
+    await refresh();
+  };
+
+  const handleRestoreAll = async () => {
+    if (!selectedSnapshot) return;
+    const confirmed = await showConfirm(
+      `Replace the whole manuscript with "${selectedSnapshot.name}"?\n\nThe current version is saved as a snapshot first.`,
+      isDarkMode,
+      'Restore Snapshot',
+      'Restore',
+      'Cancel'
+    );
+    if (!confirmed) return;
+    setBusy(true);
+    try {
+      await restoreSnapshot(selectedSnapshot.id);
+      onRestored();
+      onClose();
+    } catch (err) {
+      console.error('Error restoring snapshot:', err);
+      showAlert('Failed to restore snapshot.', 'error', undefined, isDarkMode);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestoreSection = async () => {
+    if (!selectedSnapshot || !selectedComparison || selectedComparison.snapshotXhtml === null) return;
+    const confirmed = await showConfirm(
+      `Restore "${selectedComparison.title}" from "${selectedSnapshot.name}"?`,
+      isDarkMode,
+      'Restore Section',
+      'Restore',
+      'Cancel'
+    );
+    if (!confirmed) return;
+    setBusy(true);
+    try {
+      await restoreSnapshotSection(selectedSnapshot.id, selectedComparison.id);
+      onRestored(selectedComparison.id);
+      await refresh();
+    } catch (err) {
+      console.error('Error restoring section:', err);
+      showAlert('Failed to restore section.', 'error', undefined, isDarkMode);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const listItemStyle = (selected: boolean): React.CSSProperties => ({
+    display: 'block',
+    width: '100%',
+    padding: '8px 12px',
+    background: selected ? 'rgba(59, 130, 246, 0.15)' : 'none',
+    border: 'none',
+    borderBottom: `1px solid ${theme.border}`,
+    textAlign: 'left',
+    cursor: 'pointer',
+    color: theme.text,
+    fontSize: '13px',
+  });
+
+  const diffCellStyle = (type: SideBySideRow['type'], side: 'left' | 'right'): React.CSSProperties => ({
+    padding: '6px 8px',
+    verticalAlign: 'top',
+    whiteSpace: 'pre-wrap',
+    width: '50%',
+    borderBottom: `1px solid ${theme.border}`,
+    backgroundColor:
+      type === 'changed' ? ROW_COLORS.changed
+      : type === 'removed' && side === 'left' ? ROW_COLORS.removed
+      : type === 'added' && side === 'right' ? ROW_COLORS.added
+      : ROW_COLORS.equal,
+  });
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: 0,
+      left: 0,
+      right: 0,
+      bottom: 0,
+      backgroundColor: theme.modalBg,
+      zIndex: 1000,
+      display: 'flex',
+      flexDirection: 'column'
+    }}>
+      {/* Header */}
+      <div style={{
+        padding: '16px 20px',
+        borderBottom: `1px solid ${theme.border}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 'bold', color: theme.text }}>
+          History
+        </h2>
+        <div style={{ display: 'flex', gap: '12px' }}>
+          <StyledSmallButton onClick={handleTakeSnapshot} disabled={busy} theme={theme}>
+            Take Snapshot
+          </StyledSmallButton>
+          <StyledSmallButton onClick={onClose} disabled={busy} theme={theme}>
+            Close
+          </StyledSmallButton>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div style={{ flex: 1, display: 'flex', minHeight: 0 }}>
+        {/* Snapshot list */}
+        <div style={{ width: '280px', flexShrink: 0, borderRight: `1px solid ${theme.border}`, overflowY: 'auto' }}>
+          {loading ? (
+            <div style={{ padding: '12px', color: theme.textMuted, fontSize: '13px' }}>Loading...</div>
+          ) : snapshots.length === 0 ? (
+            <div style={{ padding: '12px', color: theme.textMuted, fontSize: '13px' }}>
+              No snapshots yet. Snapshots are taken automatically while you write, or use Take Snapshot.
+            </div>
+          ) : (
+            snapshots.map((snapshot) => (
+              <button
+                key={snapshot.id}
+                onClick={() => handleSelectSnapshot(snapshot.id)}
+                style={listItemStyle(snapshot.id === selectedSnapshot?.id)}
+              >
+                <div style={{ fontWeight: snapshot.auto ? 'normal' : 'bold' }}>{snapshot.name}</div>
+                <div style={{ color: theme.textMuted, fontSize: '11px', marginTop: '2px' }}>
+                  {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.sectionCount} sections · {snapshot.wordCount.toLocaleString()} words
+                  {snapshot.auto ? ' · auto' : ''}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        {/* Section list for the selected snapshot */}
+        <div style={{ width: '260px', flexShrink: 0, borderRight: `1px solid ${theme.border}`, display: 'flex', flexDirection: 'column' }}>
+          {selectedSnapshot ? (
+            <>
+              <div style={{ padding: '8px 12px', borderBottom: `1px solid ${theme.border}`, display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+                <StyledSmallButton onClick={handleRestoreAll} disabled={busy} theme={theme}>
+                  Restore All
+                </StyledSmallButton>
+                <StyledSmallButton onClick={handleRename} disabled={busy} theme={theme}>
+                  Rename
+                </StyledSmallButton>
+                <StyledSmallButton onClick={handleDelete} disabled={busy} theme={theme} styleOverrides={{ color: '#dc3545' }}>
+                  Delete
+                </StyledSmallButton>
+              </div>
+              <div style={{ flex: 1, overflowY: 'auto' }}>
+                {comparisons.map((c) => (
+                  <button
+                    key={c.id}
+                    onClick={() => setSelectedSectionId(c.id)}
+                    style={listItemStyle(c.id === selectedSectionId)}
+                  >
+                    <div>{c.title}</div>
+                    <div style={{ color: STATUS_LABELS[c.status].color, fontSize: '11px', marginTop: '2px' }}>
+                      {STATUS_LABELS[c.status].label}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div style={{ padding: '12px', color: theme.textMuted, fontSize: '13px' }}>
+              Select a snapshot to compare it with the current manuscript.
+            </div>
+          )}
+        </div>
+
+        {/* Side-by-side diff */}
+        <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minWidth: 0 }}>
+          {selectedComparison ? (
+            <>
+              <div style={{
+                padding: '8px 12px',
+                borderBottom: `1px solid ${theme.border}`,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                color: theme.text,
+                fontSize: '13px'
+              }}>
+                <span style={{ fontWeight: 'bold' }}>{selectedComparison.title}</span>
+                <StyledSmallButton
+                  onClick={handleRestoreSection}
+                  disabled={busy || selectedComparison.snapshotXhtml === null || selectedComparison.status === 'unchanged'}
+                  theme={theme}
+                >
+                  Restore Section
+                </StyledSmallButton>
+              </div>
+              <div style={{ flex: 1, overflow: 'auto' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', tableLayout: 'fixed', color: theme.text, fontSize: '13px' }}>
+                  <thead>
+                    <tr style={{ backgroundColor: theme.headerBg }}>
+                      <th style={{ padding: '6px 8px', textAlign: 'left' }}>{selectedSnapshot?.name}</th>
+                      <th style={{ padding: '6px 8px', textAlign: 'left' }}>Current</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diffRows.map((row, idx) => (
+                      <tr key={idx}>
+                        <td style={diffCellStyle(row.type, 'left')}>{row.left ?? ''}</td>
+                        <td style={diffCellStyle(row.type, 'right')}>{row.right ?? ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          ) : (
+            <div style={{ padding: '12px', color: theme.textMuted, fontSize: '13px' }}>
+              {selectedSnapshot ? 'Select a section to see what changed.' : ''}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,512 @@
+import clsx from 'clsx';
+import React, { useCallback, useEffect, useState } from 'react';
+import { MdArrowBackIosNew, MdChevronRight, MdDeleteOutline } from 'react-icons/md';
+import Dialog from '@/components/Dialog';
+import { useEnv } from '@/context/EnvContext';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import {
+  OPDSAcquisition,
+  OPDSResource,
+  downloadOPDSPublication,
+  getOPDSAcquisitions,
+  getOPDSCoverURL,
+  getOPDSPagination,
+  getOPDSSearch,
+  loadOPDS,
+  normalizeCatalogURL,
+} from '@/services/opdsClient';
+import { OPDSCatalog, OPDSNavigationItem, OPDSPublication, OPDSSearch } from '@/types/opds';
+import { eventDispatcher } from '@/utils/event';
+import { isValidURL, uniqueId } from '@/utils/misc';
+
+interface OPDSCatalogDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Resolves to false when the import failed (the library reports why)
+  onImport: (file: File, importSource: string) => Promise<boolean>;
+}
+
+const PublicationCover: React.FC<{ publication: OPDSPublication; className?: string }> = ({
+  publication,
+  className,
+}) => {
+  const [failed, setFailed] = useState(false);
+  const coverURL = getOPDSCoverURL(publication);
+  return (
+    <div
+      className={clsx(
+        'bg-base-200 flex flex-shrink-0 items-center justify-center overflow-hidden rounded',
+        className,
+      )}
+    >
+      {coverURL && !failed ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={coverURL}
+          alt={publication.metadata.title}
+          loading='lazy'
+          className='h-full w-full object-cover'
+          onError={() => setFailed(true)}
+        />
+      ) : (
+        <span className='line-clamp-3 px-1 text-center text-[10px] text-gray-500'>
+          {publication.metadata.title}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const OPDSCatalogDialog: React.FC<OPDSCatalogDialogProps> = ({ isOpen, onClose, onImport }) => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings, setSettings, saveSettings } = useSettingsStore();
+  const catalogs = settings.opdsCatalogs ?? [];
+
+  // Browsing history; the last entry is the page on screen
+  const [history, setHistory] = useState<string[]>([]);
+  const [resource, setResource] = useState<OPDSResource | null>(null);
+  const [search, setSearch] = useState<OPDSSearch | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState<string[]>([]);
+
+  const [newTitle, setNewTitle] = useState('');
+  const [newURL, setNewURL] = useState('');
+  const [formMessage, setFormMessage] = useState<string | null>(null);
+
+  const currentURL = history[history.length - 1] ?? null;
+
+  useEffect(() => {
+    if (!currentURL) {
+      setResource(null);
+      setSearch(null);
+      return;
+    }
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    loadOPDS(currentURL)
+      .then(async (loaded) => {
+        if (cancelled) return;
+        setResource(loaded);
+        // Search stays available on pages that do not repeat the search link
+        if (loaded.kind === 'feed') {
+          const feedSearch = await getOPDSSearch(loaded.feed).catch(() => null);
+          if (!cancelled && feedSearch) setSearch(feedSearch);
+        }
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        console.error('Failed to load OPDS catalog:', currentURL, err);
+        setResource(null);
+        setError(err.message || _('Failed to load the catalog'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentURL]);
+
+  const saveCatalogs = (opdsCatalogs: OPDSCatalog[]) => {
+    const newSettings = { ...settings, opdsCatalogs };
+    setSettings(newSettings);
+    saveSettings(envConfig, newSettings);
+  };
+
+  const handleAddCatalog = () => {
+    let url: string;
+    try {
+      url = normalizeCatalogURL(newURL);
+    } catch {
+      url = '';
+    }
+    if (!newURL.trim() || !isValidURL(url)) {
+      setFormMessage(_('Please enter a valid catalog URL'));
+      return;
+    }
+    const title = newTitle.trim() || new URL(url).hostname;
+    saveCatalogs([...catalogs, { id: uniqueId(), title, url }]);
+    setNewTitle('');
+    setNewURL('');
+    setFormMessage(null);
+  };
+
+  const handleRemoveCatalog = (id: string) => {
+    saveCatalogs(catalogs.filter((catalog) => catalog.id !== id));
+  };
+
+  const openCatalog = (catalog: OPDSCatalog) => {
+    setSearch(null);
+    setSearchQuery('');
+    setHistory([catalog.url]);
+  };
+
+  const navigate = useCallback((url: string) => {
+    setHistory((prev) => [...prev, url]);
+  }, []);
+
+  const handleBack = () => {
+    setError(null);
+    setHistory((prev) => prev.slice(0, -1));
+  };
+
+  const handleSearch = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!search || !searchQuery.trim()) return;
+    navigate(search.search(searchQuery.trim()));
+  };
+
+  const handleDownload = async (publication: OPDSPublication, acquisition: OPDSAcquisition) => {
+    const href = acquisition.link.href;
+    setDownloading((prev) => [...prev, href]);
+    try {
+      const file = await downloadOPDSPublication(publication, acquisition);
+      if (await onImport(file, href)) {
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          timeout: 2000,
+          message: _('Added to library: {{title}}', { title: publication.metadata.title }),
+        });
+      }
+    } catch (err) {
+      console.error('Failed to download publication:', href, err);
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: _('Failed to download: {{title}}', { title: publication.metadata.title }),
+      });
+    } finally {
+      setDownloading((prev) => prev.filter((h) => h !== href));
+    }
+  };
+
+  const handleClose = () => {
+    setHistory([]);
+    setError(null);
+    onClose();
+  };
+
+  const renderNavigation = (items: OPDSNavigationItem[]) =>
+    items.length > 0 && (
+      <div className='card border-base-200 bg-base-100 border shadow'>
+        <div className='divide-base-200 divide-y'>
+          {items.map((item, index) => (
+            <button
+              key={`${item.link.href}-${index}`}
+              className='hover:bg-base-200 flex w-full items-center justify-between px-4 py-3 text-start'
+              onClick={() => navigate(item.link.href)}
+            >
+              <div className='min-w-0'>
+                <div className='truncate font-medium'>{item.title || item.link.href}</div>
+                {item.summary && (
+                  <div className='line-clamp-2 text-sm text-gray-500'>{item.summary}</div>
+                )}
+              </div>
+              <MdChevronRight className='flex-shrink-0' />
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+
+  const renderDownloads = (publication: OPDSPublication) => {
+    const acquisitions = getOPDSAcquisitions(publication);
+    if (acquisitions.length === 0) {
+      return <span className='text-xs text-gray-500'>{_('No downloadable format')}</span>;
+    }
+    return (
+      <div className='flex flex-wrap gap-2'>
+        {acquisitions.map((acquisition) => {
+          const isDownloading = downloading.includes(acquisition.link.href);
+          return (
+            <button
+              key={acquisition.link.href}
+              className='btn btn-xs btn-primary'
+              disabled={isDownloading}
+              title={acquisition.link.title || undefined}
+              onClick={() => handleDownload(publication, acquisition)}
+            >
+              {isDownloading ? _('Downloading...') : acquisition.format.toUpperCase()}
+            </button>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderPublications = (publications: OPDSPublication[]) =>
+    publications.length > 0 && (
+      <div className='card border-base-200 bg-base-100 border shadow'>
+        <div className='divide-base-200 divide-y'>
+          {publications.map((publication, index) => {
+            const authors = publication.metadata.author?.map((a) => a.name).join(', ');
+            const detailLink = publication.links.find((link) =>
+              [link.rel ?? []].flat().includes('alternate'),
+            );
+            return (
+              <div key={`${publication.metadata.identifier ?? index}`} className='flex gap-3 p-3'>
+                <PublicationCover publication={publication} className='h-24 w-16' />
+                <div className='flex min-w-0 flex-1 flex-col gap-1'>
+                  <div className='font-medium'>{publication.metadata.title}</div>
+                  {authors && <div className='text-sm text-gray-500'>{authors}</div>}
+                  {publication.metadata.summary && (
+                    <div className='line-clamp-2 text-xs text-gray-500'>
+                      {publication.metadata.summary}
+                    </div>
+                  )}
+                  <div className='mt-1 flex items-center gap-2'>
+                    {renderDownloads(publication)}
+                    {detailLink && (
+                      <button
+                        className='btn btn-xs btn-ghost'
+                        onClick={() => navigate(detailLink.href)}
+                      >
+                        {_('Details')}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+
+  const renderCatalogList = () => (
+    <div className='w-full space-y-6'>
+      <div className='w-full'>
+        <h2 className='mb-2 font-medium'>{_('Saved Catalogs')}</h2>
+        <div className='card border-base-200 bg-base-100 border shadow'>
+          <div className='divide-base-200 divide-y'>
+            {catalogs.length === 0 && (
+              <div className='config-item'>
+                <span className='text-sm text-gray-500'>{_('No catalogs yet')}</span>
+              </div>
+            )}
+            {catalogs.map((catalog) => (
+              <div key={catalog.id} className='config-item'>
+                <button className='min-w-0 flex-1 text-start' onClick={() => openCatalog(catalog)}>
+                  <div className='truncate font-medium'>{catalog.title}</div>
+                  <div className='truncate text-xs text-gray-500'>{catalog.url}</div>
+                </button>
+                <button
+                  className='btn btn-ghost btn-sm'
+                  title={_('Remove')}
+                  onClick={() => handleRemoveCatalog(catalog.id)}
+                >
+                  <MdDeleteOutline />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className='w-full'>
+        <h2 className='mb-2 font-medium'>{_('Add Catalog')}</h2>
+        <div className='card border-base-200 bg-base-100 border shadow'>
+          <div className='divide-base-200 divide-y'>
+            <div className='config-item'>
+              <span className=''>{_('Name')}</span>
+              <input
+                type='text'
+                className='input input-sm input-bordered w-1/2'
+                value={newTitle}
+                placeholder={_('Optional')}
+                onChange={(e) => setNewTitle(e.target.value)}
+              />
+            </div>
+            <div className='config-item'>
+              <span className=''>{_('Catalog URL')}</span>
+              <input
+                type='url'
+                className='input input-sm input-bordered w-1/2'
+                value={newURL}
+                placeholder='https://example.com/opds'
+                onChange={(e) => setNewURL(e.target.value)}
+              />
+            </div>
+            <div className='config-item'>
+              <span className='text-sm text-gray-500'>
+                {formMessage || _('OPDS 1.2 and 2.0 catalogs are supported')}
+              </span>
+              <button className='btn btn-sm btn-primary' onClick={handleAddCatalog}>
+                {_('Add')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  const renderFeed = () => {
+    if (!resource) return null;
+
+    if (resource.kind === 'publication') {
+      const { publication } = resource;
+      const authors = publication.metadata.author?.map((a) => a.name).join(', ');
+      return (
+        <div className='flex gap-4'>
+          <PublicationCover publication={publication} className='h-48 w-32' />
+          <div className='flex min-w-0 flex-1 flex-col gap-2'>
+            <h2 className='text-lg font-semibold'>{publication.metadata.title}</h2>
+            {authors && <div className='text-sm text-gray-500'>{authors}</div>}
+            {publication.metadata.publisher && (
+              <div className='text-xs text-gray-500'>{publication.metadata.publisher}</div>
+            )}
+            {publication.metadata.summary && (
+              <p className='text-sm'>{publication.metadata.summary}</p>
+            )}
+            {renderDownloads(publication)}
+          </div>
+        </div>
+      );
+    }
+
+    const { feed } = resource;
+    const pagination = getOPDSPagination(feed);
+    const isEmpty =
+      feed.navigation.length === 0 && feed.publications.length === 0 && feed.groups.length === 0;
+
+    return (
+      <div className='w-full space-y-4'>
+        {feed.subtitle && <div className='text-sm text-gray-500'>{feed.subtitle}</div>}
+
+        {feed.facets.length > 0 && (
+          <div className='space-y-2'>
+            {feed.facets.map((facet, index) => (
+              <div key={`${facet.title}-${index}`} className='flex flex-wrap items-center gap-2'>
+                {facet.title && <span className='text-xs text-gray-500'>{facet.title}</span>}
+                {facet.links.map((link) => (
+                  <button
+                    key={link.href}
+                    className={clsx(
+                      'btn btn-xs',
+                      [link.rel ?? []].flat().includes('self') ? 'btn-primary' : 'btn-ghost',
+                    )}
+                    onClick={() => navigate(link.href)}
+                  >
+                    {link.title || link.href}
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {renderNavigation(feed.navigation)}
+        {renderPublications(feed.publications)}
+
+        {feed.groups.map((group, index) => (
+          <div key={`${group.title}-${index}`} className='w-full'>
+            <div className='mb-2 flex items-center justify-between'>
+              <h2 className='font-medium'>{group.title}</h2>
+              {group.link && (
+                <button className='btn btn-xs btn-ghost' onClick={() => navigate(group.link!.href)}>
+                  {_('More')}
+                </button>
+              )}
+            </div>
+            {renderNavigation(group.navigation)}
+            {renderPublications(group.publications)}
+          </div>
+        ))}
+
+        {isEmpty && <div className='text-sm text-gray-500'>{_('No items in this feed')}</div>}
+
+        {(pagination.previous || pagination.next) && (
+          <div className='flex items-center justify-center gap-2'>
+            {pagination.first && (
+              <button className='btn btn-sm' onClick={() => navigate(pagination.first!.href)}>
+                {_('First')}
+              </button>
+            )}
+            <button
+              className='btn btn-sm'
+              disabled={!pagination.previous}
+              onClick={() => pagination.previous && navigate(pagination.previous.href)}
+            >
+              {_('Previous')}
+            </button>
+            <button
+              className='btn btn-sm'
+              disabled={!pagination.next}
+              onClick={() => pagination.next && navigate(pagination.next.href)}
+            >
+              {_('Next')}
+            </button>
+            {pagination.last && (
+              <button className='btn btn-sm' onClick={() => navigate(pagination.last!.href)}>
+                {_('Last')}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const title =
+    resource?.kind === 'feed'
+      ? resource.feed.title
+      : resource?.kind === 'publication'
+        ? resource.publication.metadata.title
+        : '';
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={_('OPDS Catalogs')}
+      boxClassName='sm:!min-w-[560px] sm:!max-w-[720px]'
+    >
+      {isOpen && (
+        <div className='my-4 w-full space-y-4 px-2'>
+          {currentURL && (
+            <div className='flex items-center gap-2'>
+              <button className='btn btn-ghost btn-sm' onClick={handleBack} title={_('Back')}>
+                <MdArrowBackIosNew />
+              </button>
+              <h2 className='min-w-0 flex-1 truncate font-semibold'>{title || currentURL}</h2>
+            </div>
+          )}
+
+          {currentURL && search && (
+            <form className='flex gap-2' onSubmit={handleSearch}>
+              <input
+                type='search'
+                className='input input-sm input-bordered flex-1'
+                value={searchQuery}
+                placeholder={search.title || _('Search catalog')}
+                onChange={(e) => setSearchQuery(e.target.value)}
+              />
+              <button type='submit' className='btn btn-sm' disabled={!searchQuery.trim()}>
+                {_('Search')}
+              </button>
+            </form>
+          )}
+
+          {!currentURL && renderCatalogList()}
+          {currentURL && isLoading && (
+            <div className='flex justify-center py-8'>
+              <span className='loading loading-dots loading-lg'></span>
+            </div>
+          )}
+          {currentURL && !isLoading && error && (
+            <div className='text-sm text-red-500'>{error}</div>
+          )}
+          {currentURL && !isLoading && !error && renderFeed()}
+        </div>
+      )}
+    </Dialog>
+  );
+};
+
+export default OPDSCatalogDialog;
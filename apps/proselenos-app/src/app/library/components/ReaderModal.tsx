@@ -21,10 +21,11 @@ const ReaderContent = dynamic(
 
 interface ReaderModalProps {
   bookHash: string | null;
+  location?: string;
   onClose: () => void;
 }
 
-const ReaderModal: React.FC<ReaderModalProps> = ({ bookHash, onClose }) => {
+const ReaderModal: React.FC<ReaderModalProps> = ({ bookHash, location, onClose }) => {
   const { settings } = useSettingsStore();
 
   // Don't render if no book selected
@@ -35,6 +36,7 @@ const ReaderModal: React.FC<ReaderModalProps> = ({ bookHash, onClose }) => {
       <ReaderContent
         ids={bookHash}
         settings={settings}
+        location={location}
         onClose={onClose}
       />
     </div>
@@ -0,0 +1,369 @@
+import clsx from 'clsx';
+import dayjs from 'dayjs';
+import React, { useEffect, useMemo, useState } from 'react';
+import { MdChevronLeft, MdChevronRight } from 'react-icons/md';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useReadingStatsStore } from '@/store/readingStatsStore';
+import { ReadingGoal } from '@/types/readingStats';
+import {
+  EMPTY_TOTALS,
+  ReadingTotals,
+  formatDuration,
+  getDateKey,
+  getHeatmapWeeks,
+  getSessionsInYear,
+  getWeekKey,
+  getWordsPerMinute,
+  groupSessions,
+  sumSessions,
+} from '@/utils/readingStats';
+import Dialog from '@/components/Dialog';
+
+export const setReadingStatsDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('reading_stats_window');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const HEATMAP_COLORS = [
+  'bg-base-300/50',
+  'bg-primary/25',
+  'bg-primary/50',
+  'bg-primary/75',
+  'bg-primary',
+];
+
+const RECENT_DAYS = 7;
+const RECENT_WEEKS = 8;
+const RECENT_SESSIONS = 10;
+const TOP_BOOKS = 10;
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({
+  label,
+  value,
+  detail,
+}) => (
+  <div className='bg-base-200 flex flex-col rounded-lg p-3'>
+    <span className='text-neutral-content text-xs'>{label}</span>
+    <span className='text-lg font-semibold'>{value}</span>
+    {detail && <span className='text-neutral-content text-xs'>{detail}</span>}
+  </div>
+);
+
+const GoalProgress: React.FC<{
+  label: string;
+  done: number;
+  goal: number;
+  onChange: (goal: number) => void;
+}> = ({ label, done, goal, onChange }) => (
+  <div className='flex flex-col gap-1'>
+    <div className='flex items-center justify-between gap-2 text-sm'>
+      <span>{label}</span>
+      <span className='flex items-center gap-1'>
+        {done} /
+        <input
+          type='number'
+          min={0}
+          className='input input-xs input-bordered w-16'
+          value={goal || ''}
+          placeholder='—'
+          onChange={(e) => onChange(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+        />
+      </span>
+    </div>
+    <progress
+      className='progress progress-primary h-2 w-full'
+      value={goal ? Math.min(done, goal) : 0}
+      max={goal || 1}
+    />
+  </div>
+);
+
+export const ReadingStatsWindow = () => {
+  const _ = useTranslation();
+  const { sessions, finishedBooks, readingSpeed, loadStats, getGoal, setGoal } =
+    useReadingStatsStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [year, setYear] = useState(() => new Date(now).getFullYear());
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      if (event.detail.visible) setNow(Date.now());
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('reading_stats_window');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    // Books may have been read in another tab since the Library loaded
+    if (isOpen) loadStats();
+  }, [isOpen, loadStats]);
+
+  const daily = useMemo(() => groupSessions(sessions, getDateKey), [sessions]);
+  const weekly = useMemo(() => groupSessions(sessions, getWeekKey), [sessions]);
+  const yearSessions = useMemo(() => getSessionsInYear(sessions, year), [sessions, year]);
+  const yearTotals = useMemo(() => sumSessions(yearSessions), [yearSessions]);
+  const heatmap = useMemo(() => getHeatmapWeeks(daily, year), [daily, year]);
+  const wordsPerMinute = useMemo(() => getWordsPerMinute(sessions), [sessions]);
+
+  const booksByTime = useMemo(() => {
+    const books = new Map<string, ReadingTotals & { hash: string; title: string; author: string }>();
+    for (const session of yearSessions) {
+      const totals = books.get(session.bookHash) ?? {
+        ...EMPTY_TOTALS,
+        hash: session.bookHash,
+        title: session.title,
+        author: session.author,
+      };
+      books.set(session.bookHash, {
+        ...totals,
+        duration: totals.duration + session.duration,
+        pages: totals.pages + session.pages,
+        words: totals.words + session.words,
+        sessions: totals.sessions + (session.count ?? 1),
+      });
+    }
+    return [...books.values()].sort((a, b) => b.duration - a.duration).slice(0, TOP_BOOKS);
+  }, [yearSessions]);
+
+  const booksFinished = Object.values(finishedBooks).filter(
+    (time) => new Date(time).getFullYear() === year,
+  ).length;
+  const goal = getGoal(year);
+  const updateGoal = (update: Partial<ReadingGoal>) => setGoal(year, { ...goal, ...update });
+
+  const today = daily.get(getDateKey(now)) ?? EMPTY_TOTALS;
+  const thisWeek = weekly.get(getWeekKey(now)) ?? EMPTY_TOTALS;
+  const recentDays = Array.from({ length: RECENT_DAYS }, (_day, i) =>
+    dayjs(now).subtract(RECENT_DAYS - 1 - i, 'day'),
+  );
+  const recentWeeks = Array.from({ length: RECENT_WEEKS }, (_week, i) =>
+    dayjs(now).startOf('week').subtract(i, 'week'),
+  );
+  const maxDayDuration = Math.max(
+    1,
+    ...recentDays.map((day) => daily.get(day.format('YYYY-MM-DD'))?.duration ?? 0),
+  );
+  const recentSessions = sessions.slice(-RECENT_SESSIONS).reverse();
+
+  const handleClose = () => {
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+    setIsOpen(false);
+  };
+
+  return (
+    <Dialog
+      id='reading_stats_window'
+      isOpen={isOpen}
+      title={_('Reading Statistics')}
+      onClose={handleClose}
+      boxClassName='sm:!min-w-[640px] sm:!max-w-[760px]'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-5 p-4'>
+          <div className='grid grid-cols-2 gap-2 sm:grid-cols-4'>
+            <StatCard
+              label={_('Today')}
+              value={formatDuration(today.duration)}
+              detail={_('{{count}} pages', { count: today.pages })}
+            />
+            <StatCard
+              label={_('This week')}
+              value={formatDuration(thisWeek.duration)}
+              detail={_('{{count}} pages', { count: thisWeek.pages })}
+            />
+            <StatCard
+              label={String(year)}
+              value={formatDuration(yearTotals.duration)}
+              detail={_('{{count}} books finished', { count: booksFinished })}
+            />
+            <StatCard
+              label={_('Reading speed')}
+              value={
+                wordsPerMinute ? _('{{count}} wpm', { count: Math.round(wordsPerMinute) }) : '—'
+              }
+              detail={
+                readingSpeed
+                  ? _('Time left is estimated at your speed')
+                  : _('Measured after 10 minutes of reading')
+              }
+            />
+          </div>
+
+          <div className='flex items-center justify-between'>
+            <button
+              className='btn btn-ghost btn-sm btn-square'
+              aria-label={_('Previous Year')}
+              onClick={() => setYear(year - 1)}
+            >
+              <MdChevronLeft size={20} />
+            </button>
+            <span className='font-semibold'>{year}</span>
+            <button
+              className='btn btn-ghost btn-sm btn-square'
+              aria-label={_('Next Year')}
+              disabled={year >= new Date(now).getFullYear()}
+              onClick={() => setYear(year + 1)}
+            >
+              <MdChevronRight size={20} />
+            </button>
+          </div>
+
+          <div className='flex flex-col gap-3'>
+            <h3 className='text-sm font-semibold'>{_('Goals for {{year}}', { year })}</h3>
+            <GoalProgress
+              label={_('Books finished')}
+              done={booksFinished}
+              goal={goal.books}
+              onChange={(books) => updateGoal({ books })}
+            />
+            <GoalProgress
+              label={_('Hours read')}
+              done={Math.floor(yearTotals.duration / 3600000)}
+              goal={goal.hours}
+              onChange={(hours) => updateGoal({ hours })}
+            />
+          </div>
+
+          <div className='flex flex-col gap-2'>
+            <h3 className='text-sm font-semibold'>{_('Reading Calendar')}</h3>
+            <div className='overflow-x-auto pb-1'>
+              <div className='flex w-max gap-[3px]'>
+                {heatmap.map((week) => (
+                  <div key={week[0]!.date} className='flex flex-col gap-[3px]'>
+                    {week.map((day) => (
+                      <div
+                        key={day.date}
+                        title={
+                          day.inYear
+                            ? `${day.date}: ${_('{{count}} min', { count: day.minutes })}`
+                            : undefined
+                        }
+                        className={clsx(
+                          'h-[10px] w-[10px] rounded-sm',
+                          day.inYear ? HEATMAP_COLORS[day.level] : 'bg-transparent',
+                        )}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className='text-neutral-content flex items-center justify-end gap-1 text-xs'>
+              {_('Less')}
+              {HEATMAP_COLORS.map((color) => (
+                <div key={color} className={clsx('h-[10px] w-[10px] rounded-sm', color)} />
+              ))}
+              {_('More')}
+            </div>
+          </div>
+
+          <div className='grid grid-cols-1 gap-5 sm:grid-cols-2'>
+            <div className='flex flex-col gap-2'>
+              <h3 className='text-sm font-semibold'>{_('Last 7 Days')}</h3>
+              <div className='flex h-24 items-end gap-2'>
+                {recentDays.map((day) => {
+                  const duration = daily.get(day.format('YYYY-MM-DD'))?.duration ?? 0;
+                  return (
+                    <div
+                      key={day.valueOf()}
+                      className='flex h-full flex-1 flex-col items-center justify-end gap-1'
+                      title={formatDuration(duration)}
+                    >
+                      <div
+                        className='bg-primary w-full rounded-sm'
+                        style={{ height: `${(duration / maxDayDuration) * 100}%` }}
+                      />
+                      <span className='text-neutral-content text-xs'>{day.format('dd')}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <div className='flex flex-col gap-2'>
+              <h3 className='text-sm font-semibold'>{_('Weekly Totals')}</h3>
+              <ul className='flex flex-col gap-1 text-sm'>
+                {recentWeeks.map((week) => {
+                  const totals = weekly.get(week.format('YYYY-MM-DD')) ?? EMPTY_TOTALS;
+                  return (
+                    <li key={week.valueOf()} className='flex justify-between gap-2'>
+                      <span className='text-neutral-content'>{week.format('MMM D')}</span>
+                      <span>
+                        {formatDuration(totals.duration)} ·{' '}
+                        {_('{{count}} pages', { count: totals.pages })}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+
+          {booksByTime.length > 0 && (
+            <div className='flex flex-col gap-2'>
+              <h3 className='text-sm font-semibold'>{_('Books Read in {{year}}', { year })}</h3>
+              <ul className='flex flex-col gap-1 text-sm'>
+                {booksByTime.map((book) => (
+                  <li key={book.hash} className='flex justify-between gap-2'>
+                    <span className='truncate'>
+                      {book.title}
+                      {book.author && <span className='text-neutral-content'> · {book.author}</span>}
+                    </span>
+                    <span className='shrink-0'>
+                      {formatDuration(book.duration)} ·{' '}
+                      {_('{{count}} pages', { count: book.pages })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className='flex flex-col gap-2'>
+            <h3 className='text-sm font-semibold'>{_('Recent Sessions')}</h3>
+            {recentSessions.length === 0 ? (
+              <p className='text-neutral-content text-sm'>
+                {_('Sessions are recorded as you turn pages in the reader.')}
+              </p>
+            ) : (
+              <ul className='flex flex-col gap-1 text-sm'>
+                {recentSessions.map((session) => (
+                  <li key={session.id} className='flex justify-between gap-2'>
+                    <span className='truncate'>
+                      <span className='text-neutral-content'>
+                        {dayjs(session.start).format('MMM D, HH:mm')}
+                      </span>{' '}
+                      {session.title}
+                    </span>
+                    <span className='shrink-0'>
+                      {formatDuration(session.duration)} ·{' '}
+                      {_('{{count}} pages', { count: session.pages })} ·{' '}
+                      {_('{{count}} words', { count: session.words })}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </Dialog>
+  );
+};
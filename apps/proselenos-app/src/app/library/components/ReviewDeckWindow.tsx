@@ -0,0 +1,278 @@
+import clsx from 'clsx';
+import dayjs from 'dayjs';
+import React, { useEffect, useMemo, useState } from 'react';
+import { PiBookOpenText, PiTrash } from 'react-icons/pi';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useLibraryStore } from '@/store/libraryStore';
+import { useReviewDeckStore } from '@/store/reviewDeckStore';
+import { Flashcard, ReviewGrade } from '@/types/reviewDeck';
+import { REVIEW_GRADES, formatInterval, isDue } from '@/utils/spacedRepetition';
+import Dialog from '@/components/Dialog';
+
+export const setReviewDeckDialogVisible = (visible: boolean) => {
+  const dialog = document.getElementById('review_deck_window');
+  if (dialog) {
+    const event = new CustomEvent('setDialogVisibility', {
+      detail: { visible },
+    });
+    dialog.dispatchEvent(event);
+  }
+};
+
+const GRADE_BUTTON_CLASSES: Record<ReviewGrade, string> = {
+  again: 'btn-error',
+  hard: 'btn-warning',
+  good: 'btn-success',
+  easy: 'btn-info',
+};
+
+// The context sentence with the card's word or highlight picked out
+const Context: React.FC<{ card: Flashcard }> = ({ card }) => {
+  const index = card.context.toLowerCase().indexOf(card.front.toLowerCase());
+  if (!card.context || index < 0) {
+    return card.context ? <p className='italic'>{card.context}</p> : null;
+  }
+  return (
+    <p className='italic'>
+      {card.context.slice(0, index)}
+      <span className='text-primary font-semibold not-italic'>
+        {card.context.slice(index, index + card.front.length)}
+      </span>
+      {card.context.slice(index + card.front.length)}
+    </p>
+  );
+};
+
+interface ReviewDeckWindowProps {
+  onOpenBook: (bookHash: string, cfi: string) => void;
+}
+
+export const ReviewDeckWindow: React.FC<ReviewDeckWindowProps> = ({ onOpenBook }) => {
+  const _ = useTranslation();
+  const { library } = useLibraryStore();
+  const { cards, loadCards, reviewCard, deleteCard } = useReviewDeckStore();
+  const [isOpen, setIsOpen] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [bookFilter, setBookFilter] = useState('');
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [isBrowsing, setIsBrowsing] = useState(false);
+
+  useEffect(() => {
+    const handleCustomEvent = (event: CustomEvent) => {
+      if (event.detail.visible) setNow(Date.now());
+      setIsOpen(event.detail.visible);
+    };
+
+    const el = document.getElementById('review_deck_window');
+    if (el) {
+      el.addEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+    }
+
+    return () => {
+      if (el) {
+        el.removeEventListener('setDialogVisibility', handleCustomEvent as EventListener);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    // Cards may have been added in another tab since the Library loaded
+    if (isOpen) loadCards();
+  }, [isOpen, loadCards]);
+
+  const books = useMemo(() => {
+    const titles = new Map<string, string>();
+    cards.forEach((card) => titles.set(card.bookHash, card.bookTitle));
+    return [...titles.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [cards]);
+
+  const deck = bookFilter ? cards.filter((card) => card.bookHash === bookFilter) : cards;
+  const dueCards = deck.filter((card) => isDue(card, now)).sort((a, b) => a.due - b.due);
+  const card = dueCards[0];
+  const nextDue = deck.length ? Math.min(...deck.map((c) => c.due)) : null;
+  const isInLibrary = (bookHash: string) =>
+    library.some((book) => book.hash === bookHash && !book.deletedAt);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card) return;
+    reviewCard(card.id, grade);
+    setShowAnswer(false);
+    // Moving the clock on brings back cards failed earlier in this sitting
+    const reviewed = useReviewDeckStore.getState().cards.find(({ id }) => id === card.id);
+    setNow(reviewed?.reviewedAt ?? now);
+  };
+
+  const handleOpenBook = (target: Flashcard) => {
+    setIsOpen(false);
+    onOpenBook(target.bookHash, target.cfi);
+  };
+
+  const handleClose = () => {
+    if (document.activeElement instanceof HTMLElement) {
+      document.activeElement.blur();
+    }
+    setIsOpen(false);
+  };
+
+  const renderCardSource = (target: Flashcard) => (
+    <div className='text-neutral-content flex items-center justify-between gap-2 text-xs'>
+      <span className='truncate'>
+        {target.bookTitle}
+        {target.chapter && ` · ${target.chapter}`}
+      </span>
+      <span className='flex shrink-0 items-center'>
+        <button
+          className='btn btn-ghost btn-xs btn-square'
+          title={_('Open in Book')}
+          aria-label={_('Open in Book')}
+          disabled={!isInLibrary(target.bookHash)}
+          onClick={() => handleOpenBook(target)}
+        >
+          <PiBookOpenText size={16} />
+        </button>
+        <button
+          className='btn btn-ghost btn-xs btn-square'
+          title={_('Delete Card')}
+          aria-label={_('Delete Card')}
+          onClick={() => deleteCard(target.id)}
+        >
+          <PiTrash size={16} />
+        </button>
+      </span>
+    </div>
+  );
+
+  return (
+    <Dialog
+      id='review_deck_window'
+      isOpen={isOpen}
+      title={_('Review Deck')}
+      onClose={handleClose}
+      boxClassName='sm:!min-w-[560px] sm:!max-w-[640px]'
+    >
+      {isOpen && (
+        <div className='flex flex-col gap-4 p-4'>
+          <div className='flex items-center justify-between gap-2'>
+            <select
+              className='select select-bordered select-sm max-w-[60%]'
+              value={bookFilter}
+              onChange={(e) => {
+                setBookFilter(e.target.value);
+                setShowAnswer(false);
+              }}
+            >
+              <option value=''>{_('All Books')}</option>
+              {books.map(([hash, title]) => (
+                <option key={hash} value={hash}>
+                  {title}
+                </option>
+              ))}
+            </select>
+            <span className='text-neutral-content text-sm'>
+              {_('{{due}} due · {{total}} cards', { due: dueCards.length, total: deck.length })}
+            </span>
+          </div>
+
+          <div className='tabs tabs-boxed self-start'>
+            <button
+              className={clsx('tab', !isBrowsing && 'tab-active')}
+              onClick={() => setIsBrowsing(false)}
+            >
+              {_('Review')}
+            </button>
+            <button
+              className={clsx('tab', isBrowsing && 'tab-active')}
+              onClick={() => setIsBrowsing(true)}
+            >
+              {_('All Cards')}
+            </button>
+          </div>
+
+          {!isBrowsing &&
+            (card ? (
+              <div className='bg-base-200 flex flex-col gap-4 rounded-lg p-4'>
+                {renderCardSource(card)}
+                <div className='text-center text-2xl font-semibold'>{card.front}</div>
+                <Context card={card} />
+                {showAnswer ? (
+                  <>
+                    <hr className='border-base-300' />
+                    <p className='whitespace-pre-wrap'>
+                      {card.back || (
+                        <span className='text-neutral-content italic'>{_('No note')}</span>
+                      )}
+                    </p>
+                    <div className='grid grid-cols-4 gap-2'>
+                      {REVIEW_GRADES.map((grade) => (
+                        <button
+                          key={grade}
+                          className={clsx('btn btn-sm flex-col', GRADE_BUTTON_CLASSES[grade])}
+                          onClick={() => handleGrade(grade)}
+                        >
+                          {
+                            {
+                              again: _('Again'),
+                              hard: _('Hard'),
+                              good: _('Good'),
+                              easy: _('Easy'),
+                            }[grade]
+                          }
+                          <span className='text-xs font-normal'>
+                            {formatInterval(card, grade, now)}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  </>
+                ) : (
+                  <button className='btn btn-primary btn-sm' onClick={() => setShowAnswer(true)}>
+                    {_('Show Answer')}
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className='text-neutral-content flex flex-col items-center gap-2 py-8 text-center'>
+                {deck.length === 0 ? (
+                  <p>
+                    {_(
+                      'Add words from the dictionary or highlights from the selection menu while reading.',
+                    )}
+                  </p>
+                ) : (
+                  <>
+                    <p className='font-semibold'>{_('All caught up!')}</p>
+                    {nextDue && (
+                      <p className='text-sm'>
+                        {_('Next review {{time}}', { time: dayjs(nextDue).from(now) })}
+                      </p>
+                    )}
+                  </>
+                )}
+              </div>
+            ))}
+
+          {isBrowsing && (
+            <ul className='flex flex-col gap-2'>
+              {[...deck]
+                .sort((a, b) => a.due - b.due)
+                .map((target) => (
+                  <li key={target.id} className='bg-base-200 flex flex-col gap-1 rounded-lg p-3'>
+                    {renderCardSource(target)}
+                    <div className='flex items-baseline justify-between gap-2'>
+                      <span className='font-semibold'>{target.front}</span>
+                      <span className='text-neutral-content shrink-0 text-xs'>
+                        {isDue(target, now)
+                          ? _('Due')
+                          : _('Due {{time}}', { time: dayjs(target.due).from(now) })}
+                      </span>
+                    </div>
+                    {target.back && <p className='line-clamp-2 text-sm'>{target.back}</p>}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Dialog>
+  );
+};
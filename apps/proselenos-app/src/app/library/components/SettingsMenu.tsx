@@ -1,7 +1,7 @@
 import clsx from 'clsx';
 import React, { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { PiGear, PiPencil, PiBookOpenText, PiTrash, PiArrowClockwise, PiArrowCircleUp, PiDatabase, PiInfo } from 'react-icons/pi';
+import { PiGear, PiPencil, PiBookOpenText, PiTrash, PiArrowClockwise, PiArrowCircleUp, PiDatabase, PiInfo, PiChartBar, PiCards } from 'react-icons/pi';
 import { PiSun, PiMoon } from 'react-icons/pi';
 import { showConfirm, showAlert } from '@/app/shared/alerts';
 import { TbSunMoon } from 'react-icons/tb';
@@ -14,6 +14,8 @@ import { useTranslation } from '@/hooks/useTranslation';
 import { RELEASE_HASH } from '@/generated/release';
 import { setAboutDialogVisible } from '@/components/AboutWindow';
 import { setStorageDialogVisible } from '@/components/StorageWindow';
+import { setReadingStatsDialogVisible } from './ReadingStatsWindow';
+import { setReviewDeckDialogVisible } from './ReviewDeckWindow';
 import { saveSysSettings } from '@/helpers/settings';
 import { invoke } from '@/utils/desktop-stubs';
 import MenuItem from '@/components/MenuItem';
@@ -79,6 +81,16 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ setIsDropdownOpen }) => {
     setIsDropdownOpen?.(false);
   };
 
+  const showReadingStats = () => {
+    setReadingStatsDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
+  const showReviewDeck = () => {
+    setReviewDeckDialogVisible(true);
+    setIsDropdownOpen?.(false);
+  };
+
   const cycleThemeMode = () => {
     const nextMode = themeMode === 'auto' ? 'light' : themeMode === 'light' ? 'dark' : 'auto';
     setThemeMode(nextMode);
@@ -294,6 +306,8 @@ const SettingsMenu: React.FC<SettingsMenuProps> = ({ setIsDropdownOpen }) => {
         onClick={cycleThemeMode}
       />
       <MenuItem label={_('Settings')} Icon={PiGear} onClick={openSettingsDialog} />
+      <MenuItem label={_('Reading Statistics')} Icon={PiChartBar} onClick={showReadingStats} />
+      <MenuItem label={_('Review Deck')} Icon={PiCards} onClick={showReviewDeck} />
       <hr aria-hidden='true' className='border-base-200 my-1' />
       <MenuItem
         label={_('Reader')}
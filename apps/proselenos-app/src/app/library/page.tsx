@@ -44,6 +44,9 @@ import useShortcuts from '@/hooks/useShortcuts';
 import DropIndicator from '@/components/DropIndicator';
 import SettingsDialog from '@/components/settings/SettingsDialog';
 import Dialog from '@/components/Dialog';
+import OPDSCatalogDialog from './components/OPDSCatalogDialog';
+import { ReadingStatsWindow } from './components/ReadingStatsWindow';
+import { ReviewDeckWindow } from './components/ReviewDeckWindow';
 
 const LibraryPageWithSearchParams = () => {
   const searchParams = useSearchParams();
@@ -74,8 +77,10 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
   const [isSelectNone, setIsSelectNone] = useState(false);
   const [showDetailsBook, setShowDetailsBook] = useState<Book | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [showOPDSDialog, setShowOPDSDialog] = useState(false);
   const [pendingNavigationBookIds, setPendingNavigationBookIds] = useState<string[] | null>(null);
   const [readerBookHash, setReaderBookHash] = useState<string | null>(null);
+  const [readerLocation, setReaderLocation] = useState<string | undefined>();
   const [searchQuery, setSearchQuery] = useState('');
   const isInitiating = useRef(false);
 
@@ -395,6 +400,7 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
     setLibrary([...library]);
     appService?.saveLibraryBooks(library);
     setLoading(false);
+    return failedImports.length === 0;
   };
 
   const handleBookDownload = useCallback(
@@ -501,6 +507,16 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
     });
   };
 
+  const handleBrowseCatalogs = () => {
+    setShowImportModal(false);
+    setShowOPDSDialog(true);
+  };
+
+  const handleImportFromOPDS = (file: File, importSource: string) => {
+    const groupId = searchParams?.get('group') || '';
+    return importBooks([{ file, importSource }], groupId);
+  };
+
   const handleSetSelectMode = (selectMode: boolean) => {
     if (selectMode) return; // disabled: multi-select mode
     setIsSelectMode(selectMode);
@@ -522,7 +538,8 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
     setShowDetailsBook(book);
   };
 
-  const handleOpenReader = useCallback((bookHash: string) => {
+  const handleOpenReader = useCallback((bookHash: string, location?: string) => {
+    setReaderLocation(location);
     setReaderBookHash(bookHash);
   }, []);
 
@@ -658,6 +675,8 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
       )}
       <AboutWindow />
       <StorageWindow />
+      <ReadingStatsWindow />
+      <ReviewDeckWindow onOpenBook={handleOpenReader} />
       {isSettingsDialogOpen && <SettingsDialog bookKey={''} />}
       <Dialog
         isOpen={showImportModal}
@@ -675,8 +694,19 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
               {_('Choose File')}
             </button>
           </div>
+          <div className='flex flex-col gap-3'>
+            <h3 className='text-lg font-semibold'>{_('from OPDS catalog')}</h3>
+            <button className='btn btn-sm' onClick={handleBrowseCatalogs}>
+              {_('Browse Catalogs')}
+            </button>
+          </div>
         </div>
       </Dialog>
+      <OPDSCatalogDialog
+        isOpen={showOPDSDialog}
+        onClose={() => setShowOPDSDialog(false)}
+        onImport={handleImportFromOPDS}
+      />
       {!settings.hideWelcomeModal && (
         <WelcomeModal
           isDarkMode={isDarkMode}
@@ -691,6 +721,7 @@ const LibraryPageContent = ({ searchParams }: { searchParams: ReadonlyURLSearchP
       <Toast />
       <ReaderModal
         bookHash={readerBookHash}
+        location={readerLocation}
         onClose={handleCloseReader}
       />
     </div>
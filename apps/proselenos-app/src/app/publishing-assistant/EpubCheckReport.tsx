@@ -0,0 +1,179 @@
+// EpubCheckReport.tsx - Categorized EPUB validation report
+// Issues are grouped by category; issues in a section's XHTML link back to that section
+
+'use client';
+
+import {
+  EPUB_ISSUE_CATEGORY_LABELS,
+  EpubIssue,
+  EpubIssueCategory,
+  EpubIssueSeverity,
+  EpubValidationReport,
+} from '@/lib/epub-validator';
+
+interface EpubCheckReportProps {
+  report: EpubValidationReport;
+  theme: any;
+  isDarkMode: boolean;
+  sections?: Array<{ id: string; title: string }>;
+  onSectionClick?: (sectionId: string) => void;
+}
+
+const SEVERITY_COLORS: Record<EpubIssueSeverity, string> = {
+  error: '#ef4444',
+  warning: '#f59e0b',
+  info: '#3b82f6',
+};
+
+const SEVERITY_ORDER: Record<EpubIssueSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Map a zip path back to the manuscript section it was generated from.
+ * Chapters are written to OEBPS/{sectionId}.xhtml, no-matter sections to
+ * OEBPS/nomatter/{sectionId}.xhtml.
+ */
+function findSectionForPath(
+  path: string | undefined,
+  sections: Array<{ id: string; title: string }> | undefined
+): { id: string; title: string } | null {
+  if (!path || !sections) return null;
+  const match = path.match(/^OEBPS\/(?:nomatter\/)?([^/]+)\.xhtml$/);
+  if (!match) return null;
+  return sections.find(s => s.id === match[1]) || null;
+}
+
+export default function EpubCheckReport({
+  report,
+  theme,
+  isDarkMode,
+  sections,
+  onSectionClick,
+}: EpubCheckReportProps) {
+  const grouped = new Map<EpubIssueCategory, EpubIssue[]>();
+  for (const issue of report.issues) {
+    const list = grouped.get(issue.category) || [];
+    list.push(issue);
+    grouped.set(issue.category, list);
+  }
+  const infoCount = report.issues.length - report.errorCount - report.warningCount;
+
+  const borderColor = isDarkMode ? 'rgba(255, 255, 255, 0.15)' : 'rgba(0, 0, 0, 0.15)';
+
+  return (
+    <div>
+      {/* Summary */}
+      <div
+        style={{
+          fontSize: '12px',
+          color: theme.textSecondary,
+          marginBottom: '12px',
+          display: 'flex',
+          gap: '12px',
+          flexWrap: 'wrap',
+        }}
+      >
+        <span style={{ color: report.errorCount > 0 ? SEVERITY_COLORS.error : theme.textSecondary }}>
+          {report.errorCount} error{report.errorCount === 1 ? '' : 's'}
+        </span>
+        <span style={{ color: report.warningCount > 0 ? SEVERITY_COLORS.warning : theme.textSecondary }}>
+          {report.warningCount} warning{report.warningCount === 1 ? '' : 's'}
+        </span>
+        <span>{infoCount} note{infoCount === 1 ? '' : 's'}</span>
+        <span>{report.fileCount} files checked</span>
+      </div>
+
+      {report.issues.length === 0 && (
+        <div style={{ fontSize: '12px', color: '#22c55e' }}>
+          No problems found.
+        </div>
+      )}
+
+      {(Object.keys(EPUB_ISSUE_CATEGORY_LABELS) as EpubIssueCategory[])
+        .filter(category => grouped.has(category))
+        .map(category => {
+          const issues = grouped.get(category)!
+            .slice()
+            .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+          return (
+            <div
+              key={category}
+              style={{
+                border: `1px solid ${borderColor}`,
+                borderRadius: '8px',
+                marginBottom: '10px',
+                overflow: 'hidden',
+              }}
+            >
+              <div
+                style={{
+                  padding: '6px 10px',
+                  fontSize: '12px',
+                  fontWeight: 'bold',
+                  color: theme.text,
+                  backgroundColor: isDarkMode ? 'rgba(255, 255, 255, 0.04)' : 'rgba(0, 0, 0, 0.04)',
+                  borderBottom: `1px solid ${borderColor}`,
+                }}
+              >
+                {EPUB_ISSUE_CATEGORY_LABELS[category].toUpperCase()} ({issues.length})
+              </div>
+              {issues.map((issue, index) => {
+                const section = findSectionForPath(issue.path, sections);
+                return (
+                  <div
+                    key={`${issue.code}-${index}`}
+                    style={{
+                      padding: '6px 10px',
+                      fontSize: '12px',
+                      color: theme.text,
+                      borderTop: index > 0 ? `1px solid ${borderColor}` : 'none',
+                      display: 'flex',
+                      gap: '8px',
+                      alignItems: 'flex-start',
+                    }}
+                  >
+                    <span
+                      style={{
+                        flexShrink: 0,
+                        fontSize: '10px',
+                        fontWeight: 'bold',
+                        color: SEVERITY_COLORS[issue.severity],
+                        minWidth: '56px',
+                      }}
+                    >
+                      {issue.severity.toUpperCase()}
+                    </span>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div>{issue.message}</div>
+                      <div style={{ fontSize: '11px', color: theme.textSecondary, marginTop: '2px' }}>
+                        {issue.code}
+                        {issue.path && ' · '}
+                        {section && onSectionClick ? (
+                          <button
+                            onClick={() => onSectionClick(section.id)}
+                            title="Open this section in the editor"
+                            style={{
+                              background: 'none',
+                              border: 'none',
+                              padding: 0,
+                              color: '#3b82f6',
+                              textDecoration: 'underline',
+                              cursor: 'pointer',
+                              fontSize: '11px',
+                            }}
+                          >
+                            {section.title}
+                          </button>
+                        ) : (
+                          issue.path
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+    </div>
+  );
+}
@@ -1,23 +1,35 @@
 // EpubModal.tsx - Local-first EPUB generation and import to library
+// Also used by the Authors workspace to review the validation report before publishing
 
 'use client';
 
 import { useRef } from 'react';
 import { useEpubActions } from './useEpubActions';
 import StyledSmallButton from '@/components/StyledSmallButton';
+import EpubCheckReport from './EpubCheckReport';
+import { EpubValidationReport } from '@/lib/epub-validator';
 
 interface EpubModalProps {
   isOpen: boolean;
   onClose: () => void;
   theme: any;
   isDarkMode: boolean;
+  // Review mode: show a validation report for an already generated EPUB
+  validationReport?: EpubValidationReport | null;
+  sections?: Array<{ id: string; title: string }>;
+  onSectionClick?: (sectionId: string) => void;
+  onPublishAnyway?: () => void;
 }
 
 export default function EpubModal({
   isOpen,
   onClose,
   theme,
-  isDarkMode
+  isDarkMode,
+  validationReport,
+  sections,
+  onSectionClick,
+  onPublishAnyway
 }: EpubModalProps) {
   const { state, actions } = useEpubActions();
   const coverInputRef = useRef<HTMLInputElement>(null);
@@ -33,8 +45,10 @@ export default function EpubModal({
     }
   };
 
+  const isReviewMode = !!validationReport;
+
   // Open modal when isOpen changes
-  if (isOpen && !state.isOpen) {
+  if (isOpen && !isReviewMode && !state.isOpen) {
     actions.openModal();
   }
 
@@ -67,7 +81,7 @@ export default function EpubModal({
           border: `1px solid ${isDarkMode ? 'rgba(255, 255, 255, 0.1)' : 'rgba(0, 0, 0, 0.1)'}`,
           borderRadius: '12px',
           padding: '0',
-          maxWidth: '500px',
+          maxWidth: isReviewMode ? '640px' : '500px',
           width: '100%',
           maxHeight: '90vh',
           overflow: 'hidden',
@@ -95,7 +109,7 @@ export default function EpubModal({
           }}
         >
           <h3 style={{ fontSize: '16px', fontWeight: 'bold', margin: 0, color: theme.text }}>
-            EPUB to Library
+            {isReviewMode ? 'EPUB Check' : 'EPUB to Library'}
           </h3>
           <StyledSmallButton onClick={handleClose} theme={theme}>
             Close
@@ -110,6 +124,33 @@ export default function EpubModal({
             overflowY: 'auto'
           }}
         >
+          {isReviewMode ? (
+            <>
+              <div style={{ fontSize: '12px', color: theme.textSecondary, marginBottom: '12px' }}>
+                {validationReport.errorCount > 0
+                  ? 'The generated EPUB has problems that may stop it from opening in some readers or stores.'
+                  : 'The generated EPUB has warnings worth reviewing before publishing.'}
+              </div>
+              <EpubCheckReport
+                report={validationReport}
+                theme={theme}
+                isDarkMode={isDarkMode}
+                sections={sections}
+                onSectionClick={onSectionClick}
+              />
+              <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '16px' }}>
+                <StyledSmallButton onClick={handleClose} theme={theme}>
+                  Cancel
+                </StyledSmallButton>
+                {onPublishAnyway && (
+                  <StyledSmallButton onClick={onPublishAnyway} theme={theme}>
+                    Publish Anyway
+                  </StyledSmallButton>
+                )}
+              </div>
+            </>
+          ) : (
+          <>
           {/* Section 1: Generate EPUB from manuscript */}
           <div
             style={{
@@ -214,6 +255,35 @@ export default function EpubModal({
                   </div>
                 )}
 
+                {/* Validation report */}
+                {state.validationReport && state.validationReport.issues.length > 0 && (
+                  <div style={{ marginBottom: '12px' }}>
+                    <EpubCheckReport
+                      report={state.validationReport}
+                      theme={theme}
+                      isDarkMode={isDarkMode}
+                    />
+                    {state.pendingEpub && (
+                      <button
+                        onClick={actions.publishPendingEpub}
+                        disabled={state.isGenerating}
+                        style={{
+                          width: '100%',
+                          padding: '8px',
+                          fontSize: '12px',
+                          borderRadius: '4px',
+                          border: `1px solid ${isDarkMode ? 'rgba(255, 255, 255, 0.2)' : 'rgba(0, 0, 0, 0.2)'}`,
+                          backgroundColor: 'transparent',
+                          color: theme.text,
+                          cursor: state.isGenerating ? 'not-allowed' : 'pointer'
+                        }}
+                      >
+                        Add to Library Anyway
+                      </button>
+                    )}
+                  </div>
+                )}
+
                 {/* Generate button */}
                 <button
                   onClick={actions.generateEpub}
@@ -331,6 +401,8 @@ export default function EpubModal({
               </>
             )}
           </div>
+          </>
+          )}
         </div>
       </div>
     </div>
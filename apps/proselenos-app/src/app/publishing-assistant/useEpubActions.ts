@@ -6,6 +6,7 @@
 import { useState, useCallback } from 'react';
 import { loadManuscript, loadSettings, loadEpub, saveEpub } from '@/services/manuscriptStorage';
 import { generateEpubFromManuscript } from '@/lib/epub-generator';
+import { validateEpub, EpubValidationReport } from '@/lib/epub-validator';
 import { useBookImporter } from '@/hooks/useBookImporter';
 import { processCoverImage } from '@/utils/image';
 
@@ -28,6 +29,9 @@ interface EpubActionsState {
   isGenerating: boolean;
   generateError: string | null;
   generateSuccess: boolean;
+  // Validation of the generated EPUB (import waits for confirmation when it has problems)
+  validationReport: EpubValidationReport | null;
+  pendingEpub: { data: ArrayBuffer; filename: string } | null;
   // Import uploaded
   isImporting: boolean;
   importError: string | null;
@@ -52,6 +56,8 @@ const INITIAL_STATE: EpubActionsState = {
   isGenerating: false,
   generateError: null,
   generateSuccess: false,
+  validationReport: null,
+  pendingEpub: null,
   isImporting: false,
   importError: null,
   importSuccess: false,
@@ -149,7 +155,9 @@ export function useEpubActions() {
       ...prev,
       isGenerating: true,
       generateError: null,
-      generateSuccess: false
+      generateSuccess: false,
+      validationReport: null,
+      pendingEpub: null
     }));
 
     try {
@@ -180,8 +188,21 @@ export function useEpubActions() {
       ) as ArrayBuffer;
       await saveEpub(epubArrayBuffer);
 
-      // 5. Import to e-reader library
+      // 5. Validate - errors or warnings wait for the user to review the report
       const filename = `${settings.title || 'manuscript'}.epub`;
+      const validationReport = await validateEpub(epubData);
+      if (validationReport.errorCount > 0 || validationReport.warningCount > 0) {
+        setState(prev => ({
+          ...prev,
+          isGenerating: false,
+          validationReport,
+          pendingEpub: { data: epubArrayBuffer, filename },
+          hasUploadedEpub: true
+        }));
+        return;
+      }
+
+      // 6. Import to e-reader library
       const file = new File([epubArrayBuffer], filename, { type: 'application/epub+zip' });
       await importEpubFile(file, { deduplicate: true });
 
@@ -189,6 +210,7 @@ export function useEpubActions() {
         ...prev,
         isGenerating: false,
         generateSuccess: true,
+        validationReport,
         hasUploadedEpub: true // Now we have an EPUB saved
       }));
     } catch (error) {
@@ -201,6 +223,33 @@ export function useEpubActions() {
     }
   }, [state.coverImage.base64, importEpubFile]);
 
+  // Import the generated EPUB after the user reviewed its validation report
+  const publishPendingEpub = useCallback(async () => {
+    const pending = state.pendingEpub;
+    if (!pending) return;
+
+    setState(prev => ({ ...prev, isGenerating: true, generateError: null }));
+
+    try {
+      const file = new File([pending.data], pending.filename, { type: 'application/epub+zip' });
+      await importEpubFile(file, { deduplicate: true });
+
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        generateSuccess: true,
+        pendingEpub: null
+      }));
+    } catch (error) {
+      console.error('Error importing EPUB:', error);
+      setState(prev => ({
+        ...prev,
+        isGenerating: false,
+        generateError: error instanceof Error ? error.message : 'Unknown error'
+      }));
+    }
+  }, [state.pendingEpub, importEpubFile]);
+
   // Import uploaded EPUB (from Files) to library
   const importUploadedEpub = useCallback(async () => {
     setState(prev => ({
@@ -248,6 +297,7 @@ export function useEpubActions() {
       setCoverImage,
       clearCoverImage,
       generateEpub,
+      publishPendingEpub,
       importUploadedEpub
     }
   };
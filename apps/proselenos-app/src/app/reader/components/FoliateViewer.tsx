@@ -10,16 +10,18 @@ import { useReaderStore } from '@/store/readerStore';
 import { useBookDataStore } from '@/store/bookDataStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useCustomFontStore } from '@/store/customFontStore';
-import { useParallelViewStore } from '@/store/parallelViewStore';
+import { useReadingStatsStore } from '@/store/readingStatsStore';
 import { useMouseEvent, useTouchEvent } from '../hooks/useIframeEvents';
 import { useNavigation } from '../hooks/useNavigation';
 import { useFoliateEvents } from '../hooks/useFoliateEvents';
 import { useProgressAutoSave } from '../hooks/useProgressAutoSave';
+import { useReadingSession } from '../hooks/useReadingSession';
 import { useBackgroundTexture } from '@/hooks/useBackgroundTexture';
 import { useAutoFocus } from '@/hooks/useAutoFocus';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useEinkMode } from '@/hooks/useEinkMode';
 import { useKOSync } from '../hooks/useKOSync';
+import { useParallelAlignment } from '../hooks/useParallelAlignment';
 import {
   applyFixedlayoutStyles,
   applyImageStyle,
@@ -42,6 +44,7 @@ import {
   handleTouchEnd,
 } from '../utils/iframeEventHandlers';
 import { getMaxInlineSize } from '@/utils/config';
+import { getPersonalTimeInfo } from '@/utils/readingStats';
 import { getDirFromUILanguage } from '@/utils/rtl';
 import { isCJKLang } from '@/utils/lang';
 import { isDesktopAppPlatform } from '@/services/environment';
@@ -72,9 +75,8 @@ const FoliateViewer: React.FC<{
   const { themeCode, isDarkMode } = useThemeStore();
   const { settings } = useSettingsStore();
   const { loadCustomFonts, getLoadedFonts } = useCustomFontStore();
-  const { getView, setView: setFoliateView, setViewInited, setProgress } = useReaderStore();
+  const { setView: setFoliateView, setViewInited, setProgress } = useReaderStore();
   const { getViewSettings, setViewSettings } = useReaderStore();
-  const { getParallels } = useParallelViewStore();
   const { getBookData } = useBookDataStore();
   const { applyBackgroundTexture } = useBackgroundTexture();
   const { applyEinkMode } = useEinkMode();
@@ -97,8 +99,10 @@ const FoliateViewer: React.FC<{
 
   useUICSS(bookKey);
   useProgressAutoSave(bookKey);
+  useReadingSession(bookKey);
   useBookCoverAutoSave(bookKey);
   const { syncState, conflictDetails, resolveWithLocal, resolveWithRemote } = useKOSync(bookKey);
+  const { syncParallelViews, highlightAlignedParagraph } = useParallelAlignment(bookKey);
 
   const progressRelocateHandler = (event: Event) => {
     const detail = (event as CustomEvent).detail;
@@ -108,7 +112,7 @@ const FoliateViewer: React.FC<{
       detail.tocItem,
       detail.section,
       detail.location,
-      detail.time,
+      getPersonalTimeInfo(detail.time, useReadingStatsStore.getState().readingSpeed),
       detail.range,
     );
   };
@@ -209,6 +213,9 @@ const FoliateViewer: React.FC<{
         detail.doc.addEventListener('touchstart', handleTouchStart.bind(null, bookKey));
         detail.doc.addEventListener('touchmove', handleTouchMove.bind(null, bookKey));
         detail.doc.addEventListener('touchend', handleTouchEnd.bind(null, bookKey));
+        detail.doc.addEventListener('click', (event: MouseEvent) =>
+          highlightAlignedParagraph(detail.doc, event.target as Node),
+        );
       }
     }
   };
@@ -232,18 +239,7 @@ const FoliateViewer: React.FC<{
   const docRelocateHandler = (event: Event) => {
     const detail = (event as CustomEvent).detail;
     if (detail.reason !== 'scroll' && detail.reason !== 'page') return;
-
-    const parallelViews = getParallels(bookKey);
-    if (parallelViews && parallelViews.size > 0) {
-      parallelViews.forEach((key) => {
-        if (key !== bookKey) {
-          const target = getView(key)?.renderer;
-          if (target) {
-            target.goTo?.({ index: detail.index, anchor: detail.fraction });
-          }
-        }
-      });
-    }
+    syncParallelViews(detail);
   };
 
   const { handlePageFlip, handleContinuousScroll } = useNavigation(bookKey, viewRef, containerRef);
@@ -1,6 +1,13 @@
 import clsx from 'clsx';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { PiDotsThreeVerticalBold, PiXBold, PiPlayFill, PiPauseFill, PiStopFill } from 'react-icons/pi';
+import {
+  PiDotsThreeVerticalBold,
+  PiXBold,
+  PiPlayFill,
+  PiPauseFill,
+  PiStopFill,
+  PiUsersThree,
+} from 'react-icons/pi';
 import { Overlayer } from 'foliate-js/overlayer.js';
 
 import { Insets } from '@/types/misc';
@@ -8,16 +15,31 @@ import { useEnv } from '@/context/EnvContext';
 import { useThemeStore } from '@/store/themeStore';
 import { useReaderStore } from '@/store/readerStore';
 import { useSidebarStore } from '@/store/sidebarStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useSettingsStore } from '@/store/settingsStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useTrafficLightStore } from '@/store/trafficLightStore';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
 import { useReadAloud } from '@/hooks/useReadAloud';
+import { castSSMLVoices, parseSSMLMarks } from '@/utils/ssml';
+import { createDialogueContext } from '@/utils/dialogue';
+import { applyPronunciations, mergePronunciations } from '@/utils/pronunciation';
+import { eventDispatcher } from '@/utils/event';
 import Dropdown from '@/components/Dropdown';
 import SidebarToggler from './SidebarToggler';
 import BookmarkToggler from './BookmarkToggler';
 import NotebookToggler from './NotebookToggler';
 import SettingsToggler from './SettingsToggler';
 import ViewMenu from './ViewMenu';
+import VoiceCastingWindow from './VoiceCasting';
+import PronunciationLexiconWindow from './PronunciationLexicon';
+
+// One utterance: a sentence, or part of one when its voice changes midway
+interface ReadAloudSentence {
+  mark: string;
+  text: string;
+  voice?: string;
+}
 
 interface HeaderBarProps {
   bookKey: string;
@@ -48,9 +70,13 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
     cleanupTrafficLightListeners,
   } = useTrafficLightStore();
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isCastingOpen, setIsCastingOpen] = useState(false);
+  const [pronunciationWord, setPronunciationWord] = useState<string | null>(null);
   const { bookKeys: _bookKeys, hoveredBookKey, setHoveredBookKey, getView } = useReaderStore();
   const { systemUIVisible, statusBarHeight } = useThemeStore();
   const { isSideBarVisible } = useSidebarStore();
+  const { getConfig } = useBookDataStore();
+  const { settings } = useSettingsStore();
   const iconSize16 = useResponsiveSize(16);
 
   // TTS (Read Aloud)
@@ -70,29 +96,46 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
   const ttsInitialized = useRef(false);
 
   // TTS sentence tracking
-  const sentencesRef = useRef<string[]>([]);
+  const sentencesRef = useRef<ReadAloudSentence[]>([]);
   const sentenceIndexRef = useRef(0);
 
+  // Speaker turns for voice casting, carried from block to block
+  const dialogueContextRef = useRef(createDialogueContext());
+
   // TTS highlight key for overlayer
   const TTS_HIGHLIGHT_KEY = 'tts-highlight';
 
-  // Parse SSML to extract sentences between marks
-  const parseSentences = (ssml: string): string[] => {
-    const sentences: string[] = [];
-    // Match text after each mark: <mark name="N"/>...text...
-    const regex = /<mark[^>]*>([^<]*)/g;
-    let match;
-    while ((match = regex.exec(ssml)) !== null) {
-      const text = match[1]?.trim();
-      if (text) sentences.push(text);
+  // Parse SSML to extract sentences between marks, split where the cast voice changes
+  const parseSentences = useCallback((ssml: string): ReadAloudSentence[] => {
+    const config = getConfig(bookKey);
+    const casting = config?.ttsCasting;
+    if (casting?.enabled) {
+      ssml = castSSMLVoices(ssml, casting, dialogueContextRef.current);
+    }
+    ssml = applyPronunciations(ssml, mergePronunciations(config?.pronunciations, settings.pronunciations));
+    const sentences: ReadAloudSentence[] = [];
+    for (const { name, text, voice } of parseSSMLMarks(ssml).marks) {
+      const last = sentences[sentences.length - 1];
+      if (last && last.mark === name && last.voice === voice) {
+        last.text += ` ${text}`;
+      } else {
+        sentences.push({ mark: name, text, voice });
+      }
     }
     // If no marks found, fall back to stripping all tags
     if (sentences.length === 0) {
       const text = ssml.replace(/<[^>]*>/g, '').trim();
-      if (text) sentences.push(text);
+      if (text) sentences.push({ mark: '0', text });
     }
-    return sentences;
-  };
+    return sentences.filter((sentence) => sentence.text.trim());
+  }, [bookKey, getConfig, settings.pronunciations]);
+
+  const speakSentence = useCallback((index: number, onEnd: () => void) => {
+    const sentence = sentencesRef.current[index]!;
+    getView(bookKey)?.tts?.setMark(sentence.mark);
+    sentenceIndexRef.current = index + 1;
+    play(sentence.text, onEnd, sentence.voice);
+  }, [bookKey, getView, play]);
 
   // Highlight current sentence during TTS
   const highlightSentence = useCallback((range: Range) => {
@@ -126,10 +169,7 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
 
     // More sentences in current block?
     if (sentenceIndexRef.current < sentencesRef.current.length) {
-      const text = sentencesRef.current[sentenceIndexRef.current]!;
-      view.tts.setMark(String(sentenceIndexRef.current));
-      sentenceIndexRef.current++;
-      play(text, speakNextSentence);
+      speakSentence(sentenceIndexRef.current, speakNextSentence);
       return;
     }
 
@@ -145,11 +185,9 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
     sentenceIndexRef.current = 0;
 
     if (sentencesRef.current.length > 0) {
-      view.tts.setMark('0');
-      sentenceIndexRef.current = 1;
-      play(sentencesRef.current[0]!, speakNextSentence);
+      speakSentence(0, speakNextSentence);
     }
-  }, [bookKey, clearHighlight, getView, play]);
+  }, [bookKey, clearHighlight, getView, parseSentences, speakSentence]);
 
   // Handle play button - initialize TTS and start speaking
   const handlePlay = useCallback(async () => {
@@ -173,6 +211,7 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
     // Get SSML for first block
     const ssml = view.tts.start();
     if (!ssml) return;
+    dialogueContextRef.current = createDialogueContext();
 
     // Parse into sentences
     sentencesRef.current = parseSentences(ssml);
@@ -180,11 +219,9 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
 
     if (sentencesRef.current.length > 0) {
       // Highlight and speak first sentence
-      view.tts.setMark('0');
-      sentenceIndexRef.current = 1;
-      play(sentencesRef.current[0]!, speakNextSentence);
+      speakSentence(0, speakNextSentence);
     }
-  }, [bookKey, getView, highlightSentence, isPaused, play, resume, speakNextSentence]);
+  }, [bookKey, getView, highlightSentence, isPaused, parseSentences, resume, speakNextSentence, speakSentence]);
 
   // Handle stop - clear highlight and stop TTS
   const handleStop = useCallback(() => {
@@ -193,6 +230,18 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
     ttsInitialized.current = false; // Reset so next play reinitializes
   }, [clearHighlight, stop]);
 
+  // "Fix pronunciation" from the selection popup or the view menu
+  useEffect(() => {
+    const handleFixPronunciation = (event: CustomEvent) => {
+      if (event.detail?.bookKey !== bookKey) return;
+      setPronunciationWord(event.detail.word ?? '');
+    };
+    eventDispatcher.on('fix-pronunciation', handleFixPronunciation);
+    return () => {
+      eventDispatcher.off('fix-pronunciation', handleFixPronunciation);
+    };
+  }, [bookKey]);
+
   const windowButtonVisible = appService?.hasWindowBar && !isTrafficLightVisible;
 
   const handleToggleDropdown = (isOpen: boolean) => {
@@ -368,6 +417,16 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
               ))}
             </select>
           )}
+          {voices.length > 1 && (
+            <button
+              className='btn btn-ghost h-6 min-h-6 w-6 sm:h-8 sm:min-h-8 sm:w-8 p-0'
+              onClick={() => setIsCastingOpen(true)}
+              aria-label={_('Voice Casting')}
+              title={_('Give characters their own voices')}
+            >
+              <PiUsersThree size={iconSize16} />
+            </button>
+          )}
 
           <Dropdown
             label={_('View Options')}
@@ -380,6 +439,22 @@ const HeaderBar: React.FC<HeaderBarProps> = ({
           </Dropdown>
         </div>
       </div>
+      {isCastingOpen && (
+        <VoiceCastingWindow
+          bookKey={bookKey}
+          isOpen={isCastingOpen}
+          voices={voices}
+          onClose={() => setIsCastingOpen(false)}
+        />
+      )}
+      {pronunciationWord !== null && (
+        <PronunciationLexiconWindow
+          bookKey={bookKey}
+          isOpen={pronunciationWord !== null}
+          initialWord={pronunciationWord}
+          onClose={() => setPronunciationWord(null)}
+        />
+      )}
     </div>
   );
 };
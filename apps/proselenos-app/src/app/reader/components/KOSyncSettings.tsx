@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import Dialog from '@/components/Dialog';
+import { useEnv } from '@/context/EnvContext';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { KOSyncClient } from '@/services/kosyncClient';
+import { KOSyncChecksumMethod, KOSyncSettings, KOSyncStrategy } from '@/types/settings';
+import { eventDispatcher } from '@/utils/event';
+import { isValidURL } from '@/utils/misc';
+
+const KOSyncSettingsWindow: React.FC = () => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings, setSettings, saveSettings, isKOSyncSettingsOpen, setKOSyncSettingsOpen } =
+    useSettingsStore();
+  const kosync = settings.kosync;
+
+  const [serverUrl, setServerUrl] = useState(kosync.serverUrl);
+  const [username, setUsername] = useState(kosync.username);
+  const [password, setPassword] = useState('');
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [statusMessage, setStatusMessage] = useState<string | null>(null);
+
+  const isConnected = !!kosync.username && !!kosync.userkey;
+
+  const updateKOSync = (changes: Partial<KOSyncSettings>) => {
+    const newSettings = { ...settings, kosync: { ...settings.kosync, ...changes } };
+    setSettings(newSettings);
+    saveSettings(envConfig, newSettings);
+  };
+
+  const handleConnect = async () => {
+    if (!isValidURL(serverUrl)) {
+      setStatusMessage(_('Please enter a valid server URL'));
+      return;
+    }
+    if (!username.trim() || !password) {
+      setStatusMessage(_('Please enter your username and password'));
+      return;
+    }
+    setIsConnecting(true);
+    setStatusMessage(null);
+    const client = new KOSyncClient({ ...kosync, serverUrl });
+    const result = await client.connect(username.trim(), password);
+    setIsConnecting(false);
+    setStatusMessage(_(result.message));
+    if (result.success && result.userkey) {
+      setPassword('');
+      updateKOSync({ serverUrl, username: username.trim(), userkey: result.userkey, enabled: true });
+      eventDispatcher.dispatch('toast', { message: _('Connected to sync server'), type: 'info' });
+    }
+  };
+
+  const handleDisconnect = () => {
+    updateKOSync({ userkey: '', enabled: false });
+    setStatusMessage(null);
+  };
+
+  return (
+    <Dialog
+      isOpen={isKOSyncSettingsOpen}
+      onClose={() => setKOSyncSettingsOpen(false)}
+      title={_('KOReader Sync')}
+      boxClassName='sm:!min-w-[480px] sm:h-auto'
+    >
+      {isKOSyncSettingsOpen && (
+        <div className='my-4 w-full space-y-6 px-2'>
+          <div className='w-full'>
+            <h2 className='mb-2 font-medium'>{_('Server')}</h2>
+            <div className='card border-base-200 bg-base-100 border shadow'>
+              <div className='divide-base-200 divide-y'>
+                <div className='config-item'>
+                  <span className=''>{_('Server URL')}</span>
+                  <input
+                    type='url'
+                    className='input input-sm input-bordered w-1/2'
+                    value={serverUrl}
+                    disabled={isConnected}
+                    placeholder='https://sync.koreader.rocks/'
+                    onChange={(e) => setServerUrl(e.target.value)}
+                  />
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Username')}</span>
+                  <input
+                    type='text'
+                    className='input input-sm input-bordered w-1/2'
+                    value={username}
+                    disabled={isConnected}
+                    autoComplete='username'
+                    onChange={(e) => setUsername(e.target.value)}
+                  />
+                </div>
+                {!isConnected && (
+                  <div className='config-item'>
+                    <span className=''>{_('Password')}</span>
+                    <input
+                      type='password'
+                      className='input input-sm input-bordered w-1/2'
+                      value={password}
+                      autoComplete='current-password'
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className='config-item'>
+                  <span className='text-sm text-gray-500'>
+                    {statusMessage ||
+                      (isConnected
+                        ? _('Connected as {{username}}', { username: kosync.username })
+                        : _('New accounts are registered automatically'))}
+                  </span>
+                  {isConnected ? (
+                    <button className='btn btn-sm' onClick={handleDisconnect}>
+                      {_('Log Out')}
+                    </button>
+                  ) : (
+                    <button
+                      className='btn btn-sm btn-primary'
+                      disabled={isConnecting}
+                      onClick={handleConnect}
+                    >
+                      {isConnecting ? _('Connecting...') : _('Connect')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className='w-full'>
+            <h2 className='mb-2 font-medium'>{_('Sync')}</h2>
+            <div className='card border-base-200 bg-base-100 border shadow'>
+              <div className='divide-base-200 divide-y'>
+                <div className='config-item'>
+                  <span className=''>{_('Sync Reading Progress')}</span>
+                  <input
+                    type='checkbox'
+                    className='toggle'
+                    checked={kosync.enabled}
+                    disabled={!isConnected}
+                    onChange={() => updateKOSync({ enabled: !kosync.enabled })}
+                  />
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Sync Strategy')}</span>
+                  <select
+                    className='select select-sm select-bordered'
+                    value={kosync.strategy}
+                    onChange={(e) => updateKOSync({ strategy: e.target.value as KOSyncStrategy })}
+                  >
+                    <option value='prompt'>{_('Ask on conflict')}</option>
+                    <option value='silent'>{_('Always use latest')}</option>
+                    <option value='send'>{_('Send changes only')}</option>
+                    <option value='receive'>{_('Receive changes only')}</option>
+                  </select>
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Document Matching')}</span>
+                  <select
+                    className='select select-sm select-bordered'
+                    value={kosync.checksumMethod}
+                    onChange={(e) =>
+                      updateKOSync({ checksumMethod: e.target.value as KOSyncChecksumMethod })
+                    }
+                  >
+                    <option value='binary'>{_('Binary (file content)')}</option>
+                    <option value='filename'>{_('Filename')}</option>
+                  </select>
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Device Name')}</span>
+                  <input
+                    type='text'
+                    className='input input-sm input-bordered w-1/2'
+                    value={kosync.deviceName}
+                    placeholder='EverythingEbooks'
+                    onChange={(e) => updateKOSync({ deviceName: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </Dialog>
+  );
+};
+
+export default KOSyncSettingsWindow;
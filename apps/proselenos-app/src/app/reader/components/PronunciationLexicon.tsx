@@ -0,0 +1,291 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RiDeleteBinLine } from 'react-icons/ri';
+import Dialog from '@/components/Dialog';
+import { useEnv } from '@/context/EnvContext';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useReadAloud } from '@/hooks/useReadAloud';
+import { PronunciationEntry } from '@/types/book';
+import { exportPLS, parsePLS, upsertPronunciation } from '@/utils/pronunciation';
+import { eventDispatcher } from '@/utils/event';
+import { makeSafeFilename } from '@/utils/misc';
+
+type LexiconScope = 'book' | 'global';
+type PronunciationKind = 'alias' | 'phoneme';
+
+interface PronunciationLexiconProps {
+  bookKey: string;
+  isOpen: boolean;
+  initialWord?: string;
+  onClose: () => void;
+}
+
+const PronunciationLexiconWindow: React.FC<PronunciationLexiconProps> = ({
+  bookKey,
+  isOpen,
+  initialWord = '',
+  onClose,
+}) => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings, setSettings, saveSettings } = useSettingsStore();
+  const { getConfig, setConfig, saveConfig, getBookData } = useBookDataStore();
+  const { play } = useReadAloud();
+  const importRef = useRef<HTMLInputElement>(null);
+  const importScopeRef = useRef<LexiconScope>('book');
+
+  const [bookEntries, setBookEntries] = useState<PronunciationEntry[]>([]);
+  const [word, setWord] = useState(initialWord);
+  const [pronunciation, setPronunciation] = useState('');
+  const [kind, setKind] = useState<PronunciationKind>('alias');
+  const [scope, setScope] = useState<LexiconScope>('book');
+  const [isRegex, setIsRegex] = useState(false);
+
+  const globalEntries = settings.pronunciations ?? [];
+  const { book, bookDoc } = getBookData(bookKey) ?? {};
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setBookEntries(getConfig(bookKey)?.pronunciations ?? []);
+    setWord(initialWord);
+    setPronunciation('');
+    setIsRegex(false);
+  }, [isOpen, bookKey, initialWord, getConfig]);
+
+  const saveEntries = (target: LexiconScope, entries: PronunciationEntry[]) => {
+    if (target === 'book') {
+      setBookEntries(entries);
+      setConfig(bookKey, { pronunciations: entries });
+      const config = getConfig(bookKey);
+      if (config) saveConfig(envConfig, bookKey, config, settings);
+    } else {
+      const newSettings = { ...settings, pronunciations: entries };
+      setSettings(newSettings);
+      saveSettings(envConfig, newSettings);
+    }
+  };
+
+  const entriesOf = (target: LexiconScope) => (target === 'book' ? bookEntries : globalEntries);
+
+  const isValidPattern = (pattern: string) => {
+    try {
+      new RegExp(pattern, 'u');
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const canAdd = !!word.trim() && !!pronunciation.trim() && (!isRegex || isValidPattern(word.trim()));
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const entry: PronunciationEntry = {
+      grapheme: word.trim(),
+      [kind]: pronunciation.trim(),
+      ...(isRegex ? { regex: true } : {}),
+    };
+    saveEntries(scope, upsertPronunciation(entriesOf(scope), entry));
+    setWord('');
+    setPronunciation('');
+    setIsRegex(false);
+  };
+
+  const handleRemove = (target: LexiconScope, entry: PronunciationEntry) => {
+    saveEntries(target, entriesOf(target).filter((e) => e !== entry));
+  };
+
+  const handleEdit = (target: LexiconScope, entry: PronunciationEntry) => {
+    setScope(target);
+    setWord(entry.grapheme);
+    setKind(entry.alias ? 'alias' : 'phoneme');
+    setPronunciation(entry.alias ?? entry.phoneme ?? '');
+    setIsRegex(!!entry.regex);
+  };
+
+  const handleExport = (target: LexiconScope) => {
+    const lang = (bookDoc?.metadata.language as string) || 'en';
+    const blob = new Blob([exportPLS(entriesOf(target), lang)], {
+      type: 'application/pls+xml;charset=utf-8',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download =
+      target === 'book' && book ? `${makeSafeFilename(book.title)}.pls` : 'pronunciations.pls';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportClick = (target: LexiconScope) => {
+    importScopeRef.current = target;
+    importRef.current?.click();
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const target = importScopeRef.current;
+    try {
+      const imported = parsePLS(await file.text());
+      saveEntries(target, imported.reduceRight(upsertPronunciation, entriesOf(target)));
+      eventDispatcher.dispatch('toast', {
+        type: 'info',
+        message: _('Imported {{count}} pronunciations', { count: imported.length }),
+      });
+    } catch (err) {
+      eventDispatcher.dispatch('toast', {
+        type: 'error',
+        message: err instanceof Error ? err.message : _('Could not read the lexicon file'),
+      });
+    }
+  };
+
+  const entryList = (target: LexiconScope, title: string) => {
+    const entries = entriesOf(target);
+    return (
+      <div className='w-full'>
+        <div className='mb-2 flex items-center justify-between'>
+          <h2 className='font-medium'>{title}</h2>
+          <div className='flex gap-2'>
+            <button className='btn btn-ghost btn-xs' onClick={() => handleImportClick(target)}>
+              {_('Import PLS')}
+            </button>
+            <button
+              className='btn btn-ghost btn-xs'
+              disabled={entries.length === 0}
+              onClick={() => handleExport(target)}
+            >
+              {_('Export PLS')}
+            </button>
+          </div>
+        </div>
+        <div className='card border-base-200 bg-base-100 border shadow'>
+          <div className='divide-base-200 divide-y'>
+            {entries.length === 0 && (
+              <div className='config-item'>
+                <span className='text-sm text-gray-500'>{_('No pronunciations yet')}</span>
+              </div>
+            )}
+            {entries.map((entry) => (
+              <div key={`${entry.regex ? '/' : ''}${entry.grapheme}`} className='config-item'>
+                <button
+                  className='min-w-0 flex-1 truncate text-start'
+                  title={_('Edit')}
+                  onClick={() => handleEdit(target, entry)}
+                >
+                  <span className={entry.regex ? 'font-mono' : ''}>{entry.grapheme}</span>
+                  {' → '}
+                  {entry.alias ?? <span className='font-mono'>/{entry.phoneme}/</span>}
+                </button>
+                <button
+                  className='btn btn-ghost btn-xs'
+                  aria-label={_('Delete')}
+                  title={_('Delete')}
+                  onClick={() => handleRemove(target, entry)}
+                >
+                  <RiDeleteBinLine />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title={_('Pronunciations')}
+      boxClassName='sm:!min-w-[480px] sm:h-auto'
+    >
+      {isOpen && (
+        <div className='my-4 w-full space-y-6 px-2'>
+          <div className='w-full'>
+            <div className='card border-base-200 bg-base-100 border shadow'>
+              <div className='divide-base-200 divide-y'>
+                <div className='config-item'>
+                  <span className=''>{isRegex ? _('Pattern') : _('Word')}</span>
+                  <input
+                    type='text'
+                    className={`input input-sm input-bordered w-1/2 ${isRegex ? 'font-mono' : ''}`}
+                    value={word}
+                    onChange={(e) => setWord(e.target.value)}
+                  />
+                </div>
+                <div className='config-item'>
+                  <select
+                    className='select select-sm select-bordered'
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as PronunciationKind)}
+                  >
+                    <option value='alias'>{_('Say it as')}</option>
+                    <option value='phoneme'>{_('IPA')}</option>
+                  </select>
+                  <input
+                    type='text'
+                    className={`input input-sm input-bordered w-1/2 ${kind === 'phoneme' ? 'font-mono' : ''}`}
+                    value={pronunciation}
+                    placeholder={kind === 'alias' ? _('e.g. Duh-NAIR-iss') : 'dəˈnɛɹɪs'}
+                    onChange={(e) => setPronunciation(e.target.value)}
+                  />
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Regular Expression')}</span>
+                  <input
+                    type='checkbox'
+                    className='toggle'
+                    checked={isRegex}
+                    onChange={() => setIsRegex(!isRegex)}
+                  />
+                </div>
+                <div className='config-item'>
+                  <select
+                    className='select select-sm select-bordered'
+                    value={scope}
+                    onChange={(e) => setScope(e.target.value as LexiconScope)}
+                  >
+                    <option value='book'>{_('This book')}</option>
+                    <option value='global'>{_('All books')}</option>
+                  </select>
+                  <div className='flex gap-2'>
+                    <button
+                      className='btn btn-sm'
+                      disabled={kind !== 'alias' || !pronunciation.trim()}
+                      onClick={() => play(pronunciation.trim())}
+                    >
+                      {_('Listen')}
+                    </button>
+                    <button className='btn btn-sm btn-primary' disabled={!canAdd} onClick={handleAdd}>
+                      {_('Save')}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            </div>
+            <p className='mt-2 px-2 text-sm text-gray-500'>
+              {_('Respellings work with every voice. IPA is only understood by the online (Edge) voices.')}
+            </p>
+          </div>
+
+          {entryList('book', _('This Book'))}
+          {entryList('global', _('All Books'))}
+
+          <input
+            ref={importRef}
+            type='file'
+            accept='.pls,.xml,application/pls+xml'
+            className='hidden'
+            onChange={handleImportFile}
+          />
+        </div>
+      )}
+    </Dialog>
+  );
+};
+
+export default PronunciationLexiconWindow;
@@ -26,19 +26,26 @@ import Spinner from '@/components/Spinner';
 import SideBar from './sidebar/SideBar';
 import Notebook from './notebook/Notebook';
 import BooksGrid from './BooksGrid';
-
-const ReaderContent: React.FC<{ ids?: string; settings: SystemSettings; onClose?: () => void }> = ({ ids, settings, onClose }) => {
+import KOSyncSettingsWindow from './KOSyncSettings';
+
+const ReaderContent: React.FC<{
+  ids?: string;
+  settings: SystemSettings;
+  location?: string;
+  onClose?: () => void;
+}> = ({ ids, settings, location, onClose }) => {
   const router = useRouter();
   const searchParams = useSearchParams();
   const { envConfig, appService } = useEnv();
   const { bookKeys, dismissBook, getNextBookKey } = useBooksManager();
   const { sideBarBookKey, setSideBarBookKey } = useSidebarStore();
-  const { saveSettings } = useSettingsStore();
+  const { saveSettings, isKOSyncSettingsOpen } = useSettingsStore();
   const { booksData: _booksData, getConfig, getBookData, saveConfig } = useBookDataStore();
   const { getView, setBookKeys, getViewSettings } = useReaderStore();
   const { initViewState, getViewState, clearViewState } = useReaderStore();
   const [showDetailsBook, setShowDetailsBook] = useState<Book | null>(null);
   const isInitiating = useRef(false);
+  const pendingLocation = useRef(location);
   const [loading, setLoading] = useState(false);
 
   useBookShortcuts({ sideBarBookKey, bookKeys });
@@ -67,6 +74,15 @@ const ReaderContent: React.FC<{ ids?: string; settings: SystemSettings; onClose?
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Opened at a given place (a review card's CFI) rather than where reading stopped
+  const isFirstBookInited = bookKeys[0] ? !!getViewState(bookKeys[0])?.inited : false;
+  useEffect(() => {
+    if (!isFirstBookInited || !pendingLocation.current) return;
+    getView(bookKeys[0]!)?.goTo(pendingLocation.current);
+    pendingLocation.current = undefined;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isFirstBookInited]);
+
   useEffect(() => {
     const handleShowBookDetails = (event: CustomEvent) => {
       setShowDetailsBook(event.detail as Book);
@@ -201,6 +217,7 @@ const ReaderContent: React.FC<{ ids?: string; settings: SystemSettings; onClose?
       <SideBar onGoToLibrary={handleCloseBooksToLibrary} />
       <BooksGrid bookKeys={bookKeys} onCloseBook={handleCloseBook} />
       <Notebook />
+      {isKOSyncSettingsOpen && <KOSyncSettingsWindow />}
       {showDetailsBook && (
         <BookDetailModal
           isOpen={!!showDetailsBook}
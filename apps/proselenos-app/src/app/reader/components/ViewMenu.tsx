@@ -17,6 +17,7 @@ import { useBookDataStore } from '@/store/bookDataStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { saveViewSettings } from '@/helpers/settings';
+import { eventDispatcher } from '@/utils/event';
 import MenuItem from '@/components/MenuItem';
 import Menu from '@/components/Menu';
 
@@ -29,7 +30,7 @@ const ViewMenu: React.FC<ViewMenuProps> = ({ bookKey, setIsDropdownOpen }) => {
   const _ = useTranslation();
   const { envConfig, appService } = useEnv();
   const { getBookData } = useBookDataStore();
-  const { setSettingsDialogOpen } = useSettingsStore();
+  const { setSettingsDialogOpen, setKOSyncSettingsOpen } = useSettingsStore();
   const { getView, getViewSettings, setViewSettings } = useReaderStore();
   const bookData = getBookData(bookKey)!;
   const viewSettings = getViewSettings(bookKey)!;
@@ -52,6 +53,16 @@ const ViewMenu: React.FC<ViewMenuProps> = ({ bookKey, setIsDropdownOpen }) => {
     setSettingsDialogOpen(true);
   };
 
+  const openKOSyncSettings = () => {
+    setIsDropdownOpen?.(false);
+    setKOSyncSettingsOpen(true);
+  };
+
+  const openPronunciations = () => {
+    setIsDropdownOpen?.(false);
+    eventDispatcher.dispatch('fix-pronunciation', { bookKey });
+  };
+
   const cycleThemeMode = () => {
     const nextMode = themeMode === 'auto' ? 'light' : themeMode === 'light' ? 'dark' : 'auto';
     setThemeMode(nextMode);
@@ -214,6 +225,8 @@ const ViewMenu: React.FC<ViewMenuProps> = ({ bookKey, setIsDropdownOpen }) => {
       )}
 
       <MenuItem label={_('Font & Layout')} shortcut='Shift+F' onClick={openFontLayoutMenu} />
+      <MenuItem label={_('KOReader Sync')} onClick={openKOSyncSettings} />
+      <MenuItem label={_('Pronunciations')} onClick={openPronunciations} />
 
       <hr aria-hidden='true' className='border-base-300 my-1' />
 
@@ -0,0 +1,170 @@
+import React, { useEffect, useState } from 'react';
+import Dialog from '@/components/Dialog';
+import { useEnv } from '@/context/EnvContext';
+import { useReaderStore } from '@/store/readerStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { TTSCasting } from '@/types/book';
+import { DialogueCharacter, findCharacters } from '@/utils/dialogue';
+
+const DEFAULT_CASTING: TTSCasting = { enabled: false, voices: {} };
+
+interface VoiceCastingProps {
+  bookKey: string;
+  isOpen: boolean;
+  voices: SpeechSynthesisVoice[];
+  onClose: () => void;
+}
+
+const shortVoiceName = (name: string) => name.replace('Microsoft ', '').replace(' Online', '');
+
+const VoiceCastingWindow: React.FC<VoiceCastingProps> = ({ bookKey, isOpen, voices, onClose }) => {
+  const _ = useTranslation();
+  const { envConfig } = useEnv();
+  const { settings } = useSettingsStore();
+  const { getView } = useReaderStore();
+  const { getConfig, setConfig, saveConfig } = useBookDataStore();
+  const [casting, setCasting] = useState<TTSCasting>(DEFAULT_CASTING);
+  const [characters, setCharacters] = useState<DialogueCharacter[]>([]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCasting(getConfig(bookKey)?.ttsCasting ?? DEFAULT_CASTING);
+
+    // Speakers in the section on screen
+    const doc = getView(bookKey)?.renderer.getContents()?.[0]?.doc;
+    const blocks = doc ? Array.from(doc.querySelectorAll('p, li, blockquote > div, dd')) : [];
+    const paragraphs = blocks.map((block) => block.textContent ?? '');
+    setCharacters(findCharacters(paragraphs));
+  }, [isOpen, bookKey, getConfig, getView]);
+
+  const updateCasting = (changes: Partial<TTSCasting>) => {
+    const newCasting = { ...casting, ...changes };
+    setCasting(newCasting);
+    setConfig(bookKey, { ttsCasting: newCasting });
+    const config = getConfig(bookKey);
+    if (config) saveConfig(envConfig, bookKey, config, settings);
+  };
+
+  const setCharacterVoice = (name: string, voice: string) => {
+    const { [name]: _previous, ...others } = casting.voices;
+    updateCasting({ voices: voice ? { ...others, [name]: voice } : others });
+  };
+
+  // Characters cast in earlier chapters stay listed so their voices can be changed
+  const detected = new Set(characters.map((c) => c.name));
+  const castElsewhere = Object.keys(casting.voices)
+    .filter((name) => !detected.has(name))
+    .sort((a, b) => a.localeCompare(b));
+
+  const voiceSelect = (value: string | undefined, onChange: (voice: string) => void, label: string) => (
+    <select
+      className='select select-sm select-bordered w-1/2'
+      value={value ?? ''}
+      disabled={!casting.enabled}
+      aria-label={label}
+      onChange={(e) => onChange(e.target.value)}
+    >
+      <option value=''>{_('Default voice')}</option>
+      {voices.map((voice) => (
+        <option key={voice.name} value={voice.name}>
+          {shortVoiceName(voice.name)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <Dialog
+      isOpen={isOpen}
+      onClose={onClose}
+      title={_('Voice Casting')}
+      boxClassName='sm:!min-w-[480px] sm:h-auto'
+    >
+      {isOpen && (
+        <div className='my-4 w-full space-y-6 px-2'>
+          <div className='w-full'>
+            <div className='card border-base-200 bg-base-100 border shadow'>
+              <div className='divide-base-200 divide-y'>
+                <div className='config-item'>
+                  <span className=''>{_('Give characters their own voices')}</span>
+                  <input
+                    type='checkbox'
+                    className='toggle'
+                    checked={casting.enabled}
+                    onChange={() => updateCasting({ enabled: !casting.enabled })}
+                  />
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Narration')}</span>
+                  {voiceSelect(
+                    casting.narratorVoice,
+                    (voice) => updateCasting({ narratorVoice: voice || undefined }),
+                    _('Narration'),
+                  )}
+                </div>
+                <div className='config-item'>
+                  <span className=''>{_('Other dialogue')}</span>
+                  {voiceSelect(
+                    casting.dialogueVoice,
+                    (voice) => updateCasting({ dialogueVoice: voice || undefined }),
+                    _('Other dialogue'),
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className='w-full'>
+            <h2 className='mb-2 font-medium'>{_('Characters in This Chapter')}</h2>
+            <div className='card border-base-200 bg-base-100 border shadow'>
+              <div className='divide-base-200 divide-y'>
+                {characters.length === 0 && (
+                  <div className='config-item'>
+                    <span className='text-sm text-gray-500'>
+                      {_('No attributed dialogue found in this chapter')}
+                    </span>
+                  </div>
+                )}
+                {characters.map(({ name, lines }) => (
+                  <div key={name} className='config-item'>
+                    <span className='truncate'>
+                      {name}{' '}
+                      <span className='text-sm text-gray-500'>
+                        {_('{{count}} lines', { count: lines })}
+                      </span>
+                    </span>
+                    {voiceSelect(casting.voices[name], (voice) => setCharacterVoice(name, voice), name)}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {castElsewhere.length > 0 && (
+            <div className='w-full'>
+              <h2 className='mb-2 font-medium'>{_('Other Characters')}</h2>
+              <div className='card border-base-200 bg-base-100 border shadow'>
+                <div className='divide-base-200 divide-y'>
+                  {castElsewhere.map((name) => (
+                    <div key={name} className='config-item'>
+                      <span className='truncate'>{name}</span>
+                      {voiceSelect(casting.voices[name], (voice) => setCharacterVoice(name, voice), name)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <p className='px-2 text-sm text-gray-500'>
+            {_('Speakers are found from phrases like "…," Anna said. Unattributed lines go to whoever spoke before the last speaker.')}
+          </p>
+        </div>
+      )}
+    </Dialog>
+  );
+};
+
+export default VoiceCastingWindow;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { FiSearch } from 'react-icons/fi';
 import { FiCopy } from 'react-icons/fi';
-import { PiHighlighterFill } from 'react-icons/pi';
+import { PiCards, PiHighlighterFill, PiSpeakerHighBold } from 'react-icons/pi';
 import { FaWikipediaW } from 'react-icons/fa';
 import { BsPencilSquare } from 'react-icons/bs';
 import { RiDeleteBinLine } from 'react-icons/ri';
@@ -11,18 +11,38 @@ import * as CFI from 'foliate-js/epubcfi.js';
 import { Overlayer } from 'foliate-js/overlayer.js';
 import { useEnv } from '@/context/EnvContext';
 import { BookNote, BooknoteGroup, HighlightColor, HighlightStyle } from '@/types/book';
+import { AnnotationExportFormat } from '@/types/annotations';
+import { NewFlashcard } from '@/types/reviewDeck';
 import { getOSPlatform, uniqueId } from '@/utils/misc';
 import { useBookDataStore } from '@/store/bookDataStore';
 import { useSettingsStore } from '@/store/settingsStore';
 import { useReaderStore } from '@/store/readerStore';
 import { useNotebookStore } from '@/store/notebookStore';
+import { useReviewDeckStore } from '@/store/reviewDeckStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { useResponsiveSize } from '@/hooks/useResponsiveSize';
+import { useFileSelector } from '@/hooks/useFileSelector';
 import { useFoliateEvents } from '../../hooks/useFoliateEvents';
 import { useTextSelector } from '../../hooks/useTextSelector';
-import { getPopupPosition, getPosition, Position, TextSelection } from '@/utils/sel';
+import {
+  getPopupPosition,
+  getPosition,
+  getSentenceFromRange,
+  Position,
+  TextSelection,
+} from '@/utils/sel';
 import { eventDispatcher } from '@/utils/event';
 import { findTocItemBS } from '@/utils/toc';
+import { createBetaFeedback } from '@/utils/feedback';
+import {
+  exportAnnotationsCSV,
+  exportAnnotationsJSON,
+  exportCalibreAnnotations,
+  exportKOReaderAnnotations,
+  getKOReaderFilename,
+  importAnnotations,
+  mergeBooknotes,
+} from '@/utils/annotations';
 import { throttle } from '@/utils/throttle';
 import { HIGHLIGHT_COLOR_HEX } from '@/services/constants';
 import AnnotationPopup from './AnnotationPopup';
@@ -36,6 +56,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const { getConfig, saveConfig, getBookData, updateBooknotes } = useBookDataStore();
   const { getProgress, getView, getViewsById, getViewSettings } = useReaderStore();
   const { setNotebookVisible, setNotebookNewAnnotation } = useNotebookStore();
+  const { selectFiles } = useFileSelector(appService, _);
 
   const osPlatform = getOSPlatform();
   const config = getConfig(bookKey)!;
@@ -65,7 +86,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   const maxHeight = window.innerHeight - 2 * popupPadding;
   const dictPopupWidth = Math.min(480, maxWidth);
   const dictPopupHeight = Math.min(300, maxHeight);
-  const annotPopupWidth = Math.min(useResponsiveSize(300), maxWidth);
+  const annotPopupWidth = Math.min(useResponsiveSize(380), maxWidth);
   const annotPopupHeight = useResponsiveSize(44);
   const androidSelectionHandlerHeight = 0;
 
@@ -184,9 +205,15 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
   }, [showAnnotPopup, showWiktionaryPopup, showWikipediaPopup]);
 
   useEffect(() => {
-    eventDispatcher.on('export-annotations', handleExportMarkdown);
+    eventDispatcher.on('export-annotations', handleExportAnnotations);
+    eventDispatcher.on('import-annotations', handleImportAnnotations);
+    eventDispatcher.on('export-feedback', handleExportFeedback);
+    eventDispatcher.on('add-highlights-to-deck', handleAddHighlightsToDeck);
     return () => {
-      eventDispatcher.off('export-annotations', handleExportMarkdown);
+      eventDispatcher.off('export-annotations', handleExportAnnotations);
+      eventDispatcher.off('import-annotations', handleImportAnnotations);
+      eventDispatcher.off('export-feedback', handleExportFeedback);
+      eventDispatcher.off('add-highlights-to-deck', handleAddHighlightsToDeck);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -369,10 +396,211 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     setShowWikipediaPopup(true);
   };
 
-  const handleExportMarkdown = (event: CustomEvent) => {
-    const { bookKey: exportBookKey } = event.detail;
+  const handlePronunciation = () => {
+    if (!selection || !selection.text) return;
+    setShowAnnotPopup(false);
+    eventDispatcher.dispatch('fix-pronunciation', { bookKey, word: selection.text.trim() });
+  };
+
+  const getBookLanguage = () => {
+    const language = bookData.bookDoc?.metadata.language;
+    return Array.isArray(language) ? language[0] : language;
+  };
+
+  const addSelectionToDeck = (back: string) => {
+    if (!selection || !selection.text) return;
+    const { book, bookDoc } = bookData;
+    const cfi = view?.getCFI(selection.index, selection.range);
+    if (!book || !cfi) return;
+    const front = selection.text.trim();
+    const added = useReviewDeckStore.getState().addCards([
+      {
+        kind: /\s/.test(front) ? 'highlight' : 'word',
+        bookHash: book.hash,
+        bookTitle: book.title,
+        cfi,
+        chapter: findTocItemBS(bookDoc?.toc ?? [], cfi)?.label,
+        front,
+        back,
+        context: getSentenceFromRange(selection.range, getBookLanguage()),
+      },
+    ]);
+    eventDispatcher.dispatch('toast', {
+      type: 'info',
+      message: added ? _('Added to review deck') : _('Already in review deck'),
+      className: 'whitespace-nowrap',
+      timeout: 2000,
+    });
+  };
+
+  const handleAddToDeck = () => {
+    if (!selection || !selection.text) return;
+    const cfi = view?.getCFI(selection.index, selection.range);
+    const { booknotes = [] } = config;
+    const highlight = booknotes.find(
+      (note) => note.cfi === cfi && note.type === 'annotation' && !note.deletedAt,
+    );
+    addSelectionToDeck(highlight?.note ?? '');
+    handleDismissPopupAndSelection();
+  };
+
+  const handleAddHighlightsToDeck = async (event: CustomEvent) => {
+    const { bookKey: deckBookKey } = event.detail;
+    if (bookKey !== deckBookKey) return;
+
+    const { book, bookDoc } = bookData;
+    if (!book || !bookDoc) return;
+    const { booknotes = [] } = getConfig(bookKey)!;
+    const highlights = booknotes.filter(
+      (note) => note.type === 'annotation' && !note.deletedAt && note.text?.trim(),
+    );
+    const docs = new Map<number, Document>();
+    const cards: NewFlashcard[] = [];
+    for (const note of highlights) {
+      const front = note.text!.trim();
+      let context = '';
+      try {
+        const { index, anchor } = getView(bookKey)!.resolveCFI(note.cfi);
+        const section = bookDoc.sections?.[index];
+        if (section) {
+          if (!docs.has(index)) docs.set(index, await section.createDocument());
+          context = getSentenceFromRange(anchor(docs.get(index)!), getBookLanguage());
+        }
+      } catch (error) {
+        // The highlight alone still makes a card
+        console.warn('Failed to resolve highlight context:', error);
+      }
+      cards.push({
+        kind: /\s/.test(front) ? 'highlight' : 'word',
+        bookHash: book.hash,
+        bookTitle: book.title,
+        cfi: note.cfi,
+        chapter: findTocItemBS(bookDoc.toc ?? [], note.cfi)?.label,
+        front,
+        back: note.note,
+        context,
+      });
+    }
+
+    const added = useReviewDeckStore.getState().addCards(cards);
+    eventDispatcher.dispatch('toast', {
+      type: 'info',
+      message:
+        highlights.length === 0
+          ? _('No highlights to add')
+          : _('Added {{count}} cards to review deck', { count: added }),
+      className: 'whitespace-nowrap',
+      timeout: 2000,
+    });
+  };
+
+  const downloadFile = (content: string, filename: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportAnnotations = async (event: CustomEvent) => {
+    const { bookKey: exportBookKey, format = 'markdown' } = event.detail as {
+      bookKey: string;
+      format?: AnnotationExportFormat;
+    };
     if (bookKey !== exportBookKey) return;
+    if (format === 'markdown') return handleExportMarkdown();
+
+    const { bookDoc, book } = bookData;
+    if (!bookDoc || !book) return;
+    const { booknotes = [] } = getConfig(bookKey)!;
+    if (booknotes.every((note) => note.deletedAt)) {
+      eventDispatcher.dispatch('toast', {
+        type: 'info',
+        message: _('No annotations to export'),
+        className: 'whitespace-nowrap',
+        timeout: 2000,
+      });
+      return;
+    }
+
+    const basename = book.title.replace(/\s+/g, '_');
+    let count: number;
+    if (format === 'csv') {
+      const content = exportAnnotationsCSV(bookDoc, booknotes);
+      count = booknotes.filter((note) => !note.deletedAt).length;
+      downloadFile(content, `${basename}.annotations.csv`, 'text/csv;charset=utf-8');
+    } else if (format === 'koreader') {
+      const exported = await exportKOReaderAnnotations(book, bookDoc, booknotes);
+      count = exported.count;
+      downloadFile(exported.content, getKOReaderFilename(book), 'text/x-lua;charset=utf-8');
+    } else if (format === 'calibre') {
+      const collection = exportCalibreAnnotations(bookDoc, booknotes);
+      count = collection.annotations.length;
+      downloadFile(
+        JSON.stringify(collection, null, 2),
+        `${basename}.calibre.json`,
+        'application/json;charset=utf-8',
+      );
+    } else {
+      const file = exportAnnotationsJSON(book, bookDoc, booknotes);
+      count = file.annotations.length;
+      downloadFile(
+        JSON.stringify(file, null, 2),
+        `${basename}.annotations.json`,
+        'application/json;charset=utf-8',
+      );
+    }
+    eventDispatcher.dispatch('toast', {
+      type: 'info',
+      message: _('Exported {{count}} annotations', { count }),
+      className: 'whitespace-nowrap',
+      timeout: 2000,
+    });
+  };
+
+  const handleImportAnnotations = (event: CustomEvent) => {
+    const { bookKey: importBookKey } = event.detail;
+    if (bookKey !== importBookKey) return;
+
+    selectFiles({ type: 'annotations' }).then(async (result) => {
+      const file = result.files[0]?.file;
+      const { bookDoc } = bookData;
+      if (result.error || !file || !bookDoc) return;
+      try {
+        const imported = await importAnnotations(await file.text(), file.name, bookDoc);
+        const { booknotes = [] } = getConfig(bookKey)!;
+        const merged = mergeBooknotes(booknotes, imported);
+        const updatedConfig = updateBooknotes(bookKey, merged.booknotes);
+        if (updatedConfig) {
+          saveConfig(envConfig, bookKey, updatedConfig, settings);
+        }
+        getViewsById(bookKey.split('-')[0]!).forEach((view) => {
+          merged.added
+            .filter((note) => note.type === 'annotation' && note.style)
+            .forEach((note) => view?.addAnnotation(note));
+        });
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          message:
+            merged.added.length + merged.updated.length > 0
+              ? _('Imported {{count}} annotations', { count: merged.added.length })
+              : _('No new annotations found'),
+          className: 'whitespace-nowrap',
+          timeout: 2000,
+        });
+      } catch (error) {
+        console.error('Failed to import annotations:', error);
+        eventDispatcher.dispatch('toast', {
+          type: 'error',
+          message: error instanceof Error ? error.message : _('Failed to import annotations'),
+        });
+      }
+    });
+  };
 
+  const handleExportMarkdown = () => {
     const { bookDoc, book } = bookData;
     if (!bookDoc || !book || !bookDoc.toc) return;
 
@@ -445,13 +673,47 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
       timeout: 2000,
     });
     if (appService?.isMobile) return;
-    const blob = new Blob([markdownContent], { type: 'text/markdown;charset=utf-8' });
+    downloadFile(
+      markdownContent,
+      `${book.title.replace(/\s+/g, '_')}.md`,
+      'text/markdown;charset=utf-8',
+    );
+  };
+
+  const handleExportFeedback = async (event: CustomEvent) => {
+    const { bookKey: exportBookKey } = event.detail;
+    if (bookKey !== exportBookKey) return;
+
+    const { bookDoc, book } = bookData;
+    if (!bookDoc || !book) return;
+
+    const { booknotes = [] } = getConfig(bookKey)!;
+    const feedback = await createBetaFeedback(book, bookDoc, booknotes, getView(bookKey));
+    if (feedback.notes.length === 0) {
+      eventDispatcher.dispatch('toast', {
+        type: 'info',
+        message: _('No annotations to export'),
+        className: 'whitespace-nowrap',
+        timeout: 2000,
+      });
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(feedback, null, 2)], {
+      type: 'application/json;charset=utf-8',
+    });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${book.title.replace(/\s+/g, '_')}.md`;
+    a.download = `${book.title.replace(/\s+/g, '_')}.feedback.json`;
     a.click();
     URL.revokeObjectURL(url);
+    eventDispatcher.dispatch('toast', {
+      type: 'info',
+      message: _('Exported {{count}} notes for the author', { count: feedback.notes.length }),
+      className: 'whitespace-nowrap',
+      timeout: 2000,
+    });
   };
 
   const selectionAnnotated = selection?.annotated;
@@ -466,6 +728,8 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     { tooltipText: _('Search'), Icon: FiSearch, onClick: handleSearch },
     { tooltipText: _('Dictionary'), Icon: TbHexagonLetterD, onClick: handleDictionary },
     { tooltipText: _('Wikipedia'), Icon: FaWikipediaW, onClick: handleWikipedia },
+    { tooltipText: _('Fix Pronunciation'), Icon: PiSpeakerHighBold, onClick: handlePronunciation },
+    { tooltipText: _('Add to Review Deck'), Icon: PiCards, onClick: handleAddToDeck },
   ];
 
   return (
@@ -478,6 +742,7 @@ const Annotator: React.FC<{ bookKey: string }> = ({ bookKey }) => {
           trianglePosition={trianglePosition}
           popupWidth={dictPopupWidth}
           popupHeight={dictPopupHeight}
+          onAddToDeck={addSelectionToDeck}
         />
       )}
       {showWikipediaPopup && trianglePosition && dictPopupPosition && (
@@ -1,6 +1,11 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { Position } from '@/utils/sel';
 import Popup from '@/components/Popup';
+import { useEnv } from '@/context/EnvContext';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useTranslation } from '@/hooks/useTranslation';
+import { lookupWord as lookupLocalWord } from '@/services/dictionaryService';
+import { DictionaryResult } from '@/types/dictionary';
 
 type Definition = {
   definition: string;
@@ -13,6 +18,64 @@ type Result = {
   language: string;
 };
 
+const WIKTIONARY_SOURCE = 'Wiktionary (CC BY-SA)';
+
+// Definitions are summed up on the back of a review card in this many characters
+const CARD_DEFINITION_LENGTH = 300;
+
+const htmlToText = (html: string) => {
+  const div = document.createElement('div');
+  div.innerHTML = html;
+  return (div.textContent ?? '').replace(/\s+/g, ' ').trim();
+};
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1).trimEnd()}…` : text;
+
+// StarDict articles link to other entries with bword://word
+const interceptLocalLinks = (container: HTMLElement, onLookup: (word: string) => void) => {
+  container.querySelectorAll<HTMLAnchorElement>('a[href^="bword://"]').forEach((link) => {
+    const target = decodeURIComponent(link.getAttribute('href')!.slice('bword://'.length));
+    link.addEventListener('click', (event) => {
+      event.preventDefault();
+      onLookup(target);
+    });
+    link.className = 'text-primary underline cursor-pointer';
+  });
+};
+
+const renderLocalResult = (
+  main: HTMLElement,
+  word: string,
+  result: DictionaryResult,
+  onLookup: (word: string) => void,
+) => {
+  const hgroup = document.createElement('hgroup');
+  const h1 = document.createElement('h1');
+  h1.innerText = word;
+  h1.className = 'text-lg font-bold';
+
+  const p = document.createElement('p');
+  p.innerText = result.dictionary.name;
+  p.className = 'text-sm italic opacity-75';
+  hgroup.append(h1, p);
+  main.append(hgroup);
+
+  result.entries.forEach((entry) => {
+    if (entry.word.toLowerCase() !== word.toLowerCase()) {
+      const h2 = document.createElement('h2');
+      h2.innerText = entry.word;
+      h2.className = 'text-base font-semibold mt-4';
+      main.appendChild(h2);
+    }
+    const div = document.createElement('div');
+    div.className = 'mt-2 space-y-2';
+    div.innerHTML = entry.html;
+    interceptLocalLinks(div, onLookup);
+    main.appendChild(div);
+  });
+};
+
 interface WiktionaryPopupProps {
   word: string;
   lang?: string;
@@ -20,6 +83,7 @@ interface WiktionaryPopupProps {
   trianglePosition: Position;
   popupWidth: number;
   popupHeight: number;
+  onAddToDeck?: (definition: string) => void;
 }
 
 const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
@@ -29,8 +93,13 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
   trianglePosition,
   popupWidth,
   popupHeight,
+  onAddToDeck,
 }) => {
+  const _ = useTranslation();
+  const { appService } = useEnv();
   const [lookupWord, setLookupWord] = useState(word);
+  const [source, setSource] = useState(WIKTIONARY_SOURCE);
+  const [definition, setDefinition] = useState('');
   const isLookingUp = useRef(false);
 
   const interceptDictLinks = (definition: string): HTMLElement[] => {
@@ -67,6 +136,24 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
       main.innerHTML = '';
       footer.dataset['state'] = 'loading';
 
+      // Installed offline dictionaries come first, in the user's order
+      const { dictionaries = [] } = useSettingsStore.getState().settings;
+      if (appService && dictionaries.some((d) => d.enabled)) {
+        const result = await lookupLocalWord(appService, dictionaries, word);
+        if (result) {
+          renderLocalResult(main, word, result, (target) => {
+            setLookupWord(target);
+            isLookingUp.current = false;
+          });
+          setSource(result.dictionary.name);
+          setDefinition(
+            truncate(result.entries.map((entry) => htmlToText(entry.html)).join(' '), CARD_DEFINITION_LENGTH),
+          );
+          footer.dataset['state'] = 'loaded';
+          return;
+        }
+      }
+
       try {
         const response = await fetch(
           `https://en.wiktionary.org/api/rest_v1/page/definition/${word}`,
@@ -75,6 +162,7 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
           throw new Error('Failed to fetch definitions');
         }
 
+        setSource(WIKTIONARY_SOURCE);
         const json = await response.json();
         const results: Result[] | undefined = language
           ? json[language] || json['en']
@@ -129,6 +217,18 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
           main.appendChild(ol);
         });
 
+        setDefinition(
+          truncate(
+            results
+              .map(({ partOfSpeech, definitions }) => {
+                const first = definitions.find(({ definition }) => definition);
+                return first ? `${partOfSpeech}: ${htmlToText(first.definition)}` : '';
+              })
+              .filter(Boolean)
+              .join('; '),
+            CARD_DEFINITION_LENGTH,
+          ),
+        );
         footer.dataset['state'] = 'loaded';
       } catch (error) {
         console.error(error);
@@ -154,7 +254,7 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
 
     const langCode = typeof lang === 'string' ? lang : lang?.[0];
     fetchDefinitions(lookupWord, langCode);
-  }, [lookupWord, lang]);
+  }, [lookupWord, lang, appService]);
 
   return (
     <div>
@@ -168,8 +268,18 @@ const WiktionaryPopup: React.FC<WiktionaryPopupProps> = ({
         <div className='flex h-full flex-col'>
           <main className='flex-grow overflow-y-auto p-4 font-sans' />
           <footer className='mt-auto hidden data-[state=loaded]:block data-[state=error]:hidden data-[state=loading]:hidden'>
-            <div className='flex items-center px-4 py-2 text-sm opacity-60'>
-              Source: Wiktionary (CC BY-SA)
+            <div className='flex items-center justify-between gap-2 px-4 py-2 text-sm'>
+              <span className='opacity-60'>Source: {source}</span>
+              {onAddToDeck && (
+                <button
+                  className='btn btn-ghost btn-xs'
+                  onClick={() =>
+                    onAddToDeck(lookupWord === word ? definition : `${lookupWord}: ${definition}`)
+                  }
+                >
+                  {_('Add to Review Deck')}
+                </button>
+              )}
             </div>
           </footer>
         </div>
@@ -10,6 +10,7 @@ import { useTranslation } from '@/hooks/useTranslation';
 import { useParallelViewStore } from '@/store/parallelViewStore';
 import { eventDispatcher } from '@/utils/event';
 import { FIXED_LAYOUT_FORMATS } from '@/types/book';
+import { AnnotationExportFormat } from '@/types/annotations';
 import useBooksManager from '../../hooks/useBooksManager';
 import MenuItem from '@/components/MenuItem';
 import Menu from '@/components/Menu';
@@ -25,14 +26,27 @@ const BookMenu: React.FC<BookMenuProps> = ({ menuClassName, setIsDropdownOpen })
   const { getVisibleLibrary } = useLibraryStore();
   const { openParallelView } = useBooksManager();
   const { sideBarBookKey } = useSidebarStore();
-  const { parallelViews, setParallel, unsetParallel } = useParallelViewStore();
+  const { parallelViews, setParallel, unsetParallel, alignByContent, setAlignByContent } =
+    useParallelViewStore();
 
   const handleParallelView = (id: string) => {
     openParallelView(id);
     setIsDropdownOpen?.(false);
   };
-  const handleExportAnnotations = () => {
-    eventDispatcher.dispatch('export-annotations', { bookKey: sideBarBookKey });
+  const handleExportAnnotations = (format: AnnotationExportFormat) => {
+    eventDispatcher.dispatch('export-annotations', { bookKey: sideBarBookKey, format });
+    setIsDropdownOpen?.(false);
+  };
+  const handleImportAnnotations = () => {
+    eventDispatcher.dispatch('import-annotations', { bookKey: sideBarBookKey });
+    setIsDropdownOpen?.(false);
+  };
+  const handleAddHighlightsToDeck = () => {
+    eventDispatcher.dispatch('add-highlights-to-deck', { bookKey: sideBarBookKey });
+    setIsDropdownOpen?.(false);
+  };
+  const handleExportFeedback = () => {
+    eventDispatcher.dispatch('export-feedback', { bookKey: sideBarBookKey });
     setIsDropdownOpen?.(false);
   };
   const handleSetParallel = () => {
@@ -43,6 +57,10 @@ const BookMenu: React.FC<BookMenuProps> = ({ menuClassName, setIsDropdownOpen })
     unsetParallel(bookKeys);
     setIsDropdownOpen?.(false);
   };
+  const handleToggleAlignByContent = () => {
+    setAlignByContent(!alignByContent);
+    setIsDropdownOpen?.(false);
+  };
 
   return (
     <Menu
@@ -94,8 +112,28 @@ const BookMenu: React.FC<BookMenuProps> = ({ menuClassName, setIsDropdownOpen })
         ) : (
           <MenuItem label={_('Enter Parallel Read')} onClick={handleSetParallel} />
         ))}
+      {bookKeys.length > 1 && parallelViews.length > 0 && (
+        <MenuItem
+          label={_('Align Translation by Content')}
+          tooltip={_('Match chapters and paragraphs instead of page positions')}
+          buttonClass='lg:tooltip lg:tooltip-bottom'
+          Icon={alignByContent ? MdCheck : undefined}
+          onClick={handleToggleAlignByContent}
+        />
+      )}
       <hr className='border-base-200 my-1' />
-      <MenuItem label={_('Export Annotations')} onClick={handleExportAnnotations} />
+      <MenuItem label={_('Export Annotations')}>
+        <ul>
+          <MenuItem label={_('Markdown')} onClick={() => handleExportAnnotations('markdown')} />
+          <MenuItem label={_('JSON')} onClick={() => handleExportAnnotations('json')} />
+          <MenuItem label={_('CSV')} onClick={() => handleExportAnnotations('csv')} />
+          <MenuItem label={_('KOReader')} onClick={() => handleExportAnnotations('koreader')} />
+          <MenuItem label={_('Calibre')} onClick={() => handleExportAnnotations('calibre')} />
+        </ul>
+      </MenuItem>
+      <MenuItem label={_('Import Annotations')} onClick={handleImportAnnotations} />
+      <MenuItem label={_('Add Highlights to Review Deck')} onClick={handleAddHighlightsToDeck} />
+      <MenuItem label={_('Export Feedback for Author')} onClick={handleExportFeedback} />
     </Menu>
   );
 };
@@ -1,4 +1,3 @@
-import { KOSyncClient, KoSyncProgress } from '@/utils/desktop-stubs';
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useEnv } from '@/context/EnvContext';
 import { useSettingsStore } from '@/store/settingsStore';
@@ -6,6 +5,8 @@ import { useReaderStore } from '@/store/readerStore';
 import { useBookDataStore } from '@/store/bookDataStore';
 import { useTranslation } from '@/hooks/useTranslation';
 import { Book, BookProgress, FIXED_LAYOUT_FORMATS } from '@/types/book';
+import { KoSyncProgress } from '@/types/kosync';
+import { KOSyncClient } from '@/services/kosyncClient';
 import { BookDoc } from '@/libs/document';
 import { debounce } from '@/utils/debounce';
 import { eventDispatcher } from '@/utils/event';
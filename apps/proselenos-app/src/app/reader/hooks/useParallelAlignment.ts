@@ -0,0 +1,182 @@
+import { BookDoc } from '@/libs/document';
+import { useReaderStore } from '@/store/readerStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { ParallelAlignment, useParallelViewStore } from '@/store/parallelViewStore';
+import {
+  alignParagraphs,
+  alignSections,
+  getParagraphs,
+  getRangeAtFraction,
+  getSectionOutline,
+  getTextFraction,
+  mapAligned,
+} from '@/utils/alignment';
+
+type AlignedBook = { hash: string; bookDoc: BookDoc };
+
+const HIGHLIGHT_COLOR = 'rgba(250, 204, 21, 0.3)';
+
+// The partner paragraph highlighted by the last tap, across all panes
+let highlighted: { element: HTMLElement; background: string } | null = null;
+
+const highlightParagraph = (element: HTMLElement | null) => {
+  if (highlighted) highlighted.element.style.backgroundColor = highlighted.background;
+  highlighted = element ? { element, background: element.style.backgroundColor } : null;
+  if (element) element.style.backgroundColor = HIGHLIGHT_COLOR;
+};
+
+const isInViewport = (element: HTMLElement) => {
+  const win = element.ownerDocument.defaultView;
+  if (!win) return false;
+  const rect = element.getBoundingClientRect();
+  return rect.bottom > 0 && rect.top < win.innerHeight && rect.right > 0 && rect.left < win.innerWidth;
+};
+
+/**
+ * Keeps parallel views in step. By default the other views follow by section
+ * index and scroll fraction; with "align by content" they follow the aligned
+ * section and paragraph of a translation, and tapping a paragraph highlights
+ * its counterpart in the other views.
+ */
+export const useParallelAlignment = (bookKey: string) => {
+  const { getView } = useReaderStore();
+  const { getBookData } = useBookDataStore();
+
+  const getAlignedBook = (key: string): AlignedBook | null => {
+    const { book, bookDoc } = getBookData(key) ?? {};
+    return book && bookDoc ? { hash: book.hash, bookDoc } : null;
+  };
+
+  const getSectionAlignment = (source: AlignedBook, target: AlignedBook): ParallelAlignment => {
+    const { getAlignment, setAlignment } = useParallelViewStore.getState();
+    const existing = getAlignment(source.hash, target.hash);
+    if (existing) return existing;
+    const alignment = {
+      sections: alignSections(getSectionOutline(source.bookDoc), getSectionOutline(target.bookDoc)),
+      paragraphs: {},
+    };
+    setAlignment(source.hash, target.hash, alignment);
+    return alignment;
+  };
+
+  const getParagraphAnchors = (
+    source: AlignedBook,
+    target: AlignedBook,
+    sections: [number, number],
+    paragraphs: [HTMLElement[], HTMLElement[]],
+  ) => {
+    const { getAlignment, setAlignment } = useParallelViewStore.getState();
+    const alignment = getAlignment(source.hash, target.hash) ?? getSectionAlignment(source, target);
+    const key = sections.join(':');
+    const existing = alignment.paragraphs[key];
+    if (existing) return existing;
+    const anchors = alignParagraphs(...paragraphs);
+    setAlignment(source.hash, target.hash, {
+      ...alignment,
+      paragraphs: { ...alignment.paragraphs, [key]: anchors },
+    });
+    return anchors;
+  };
+
+  // The paragraph in the target section aligned with `block` of the source section
+  const findAlignedParagraph = (
+    source: AlignedBook,
+    target: AlignedBook,
+    sections: [number, number],
+    block: HTMLElement,
+    targetDoc: Document,
+  ) => {
+    const sourceParagraphs = getParagraphs(block.ownerDocument);
+    const targetParagraphs = getParagraphs(targetDoc);
+    const index = sourceParagraphs.indexOf(block);
+    if (index < 0 || targetParagraphs.length === 0) return null;
+    const anchors = getParagraphAnchors(source, target, sections, [
+      sourceParagraphs,
+      targetParagraphs,
+    ]);
+    return targetParagraphs[mapAligned(anchors, index)] ?? null;
+  };
+
+  const findBlock = (node: Node) => {
+    const doc = node.ownerDocument;
+    if (!doc) return null;
+    return getParagraphs(doc).find((block) => block.contains(node)) ?? null;
+  };
+
+  const getPartners = () =>
+    [...(useParallelViewStore.getState().getParallels(bookKey) ?? [])].filter(
+      (key) => key !== bookKey,
+    );
+
+  const syncParallelViews = (detail: { index: number; fraction: number; range?: Range }) => {
+    const { alignByContent } = useParallelViewStore.getState();
+    const source = getAlignedBook(bookKey);
+
+    getPartners().forEach((key) => {
+      const renderer = getView(key)?.renderer;
+      if (!renderer) return;
+      const target = getAlignedBook(key);
+      if (!alignByContent || !source || !target) {
+        renderer.goTo?.({ index: detail.index, anchor: detail.fraction });
+        return;
+      }
+
+      const targetIndex = mapAligned(getSectionAlignment(source, target).sections, detail.index);
+      const { range } = detail;
+      const block = range ? findBlock(range.startContainer) : null;
+      renderer.goTo?.({
+        index: targetIndex,
+        anchor: (targetDoc: Document) => {
+          if (!range || !block) return detail.fraction;
+          const sections: [number, number] = [detail.index, targetIndex];
+          const aligned = findAlignedParagraph(source, target, sections, block, targetDoc);
+          if (!aligned) return detail.fraction;
+          const fraction = getTextFraction(block, range.startContainer, range.startOffset);
+          return getRangeAtFraction(aligned, fraction);
+        },
+      });
+    });
+  };
+
+  const highlightAlignedParagraph = (doc: Document, node: Node) => {
+    const { alignByContent } = useParallelViewStore.getState();
+    const partners = getPartners();
+    if (!alignByContent || partners.length === 0) return;
+    if (doc.getSelection()?.isCollapsed === false) return;
+
+    const source = getAlignedBook(bookKey);
+    const block = findBlock(node);
+    const index = getView(bookKey)
+      ?.renderer.getContents()
+      .find((contents) => contents.doc === doc)?.index;
+    if (!source || !block || index === undefined) return;
+
+    partners.forEach((key) => {
+      const view = getView(key);
+      const target = getAlignedBook(key);
+      if (!view || !target) return;
+      const targetIndex = mapAligned(getSectionAlignment(source, target).sections, index);
+      const sections: [number, number] = [index, targetIndex];
+
+      const shown = view.renderer.getContents().find((contents) => contents.index === targetIndex);
+      const aligned = shown && findAlignedParagraph(source, target, sections, block, shown.doc);
+      if (aligned) {
+        highlightParagraph(aligned);
+        if (!isInViewport(aligned)) {
+          view.renderer.goTo?.({ index: targetIndex, anchor: getRangeAtFraction(aligned, 0) });
+        }
+        return;
+      }
+      view.renderer.goTo?.({
+        index: targetIndex,
+        anchor: (targetDoc: Document) => {
+          const aligned = findAlignedParagraph(source, target, sections, block, targetDoc);
+          highlightParagraph(aligned);
+          return aligned ? getRangeAtFraction(aligned, 0) : 0;
+        },
+      });
+    });
+  };
+
+  return { syncParallelViews, highlightAlignedParagraph };
+};
@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+import { ReadingSession } from '@/types/readingStats';
+import { useReaderStore } from '@/store/readerStore';
+import { useBookDataStore } from '@/store/bookDataStore';
+import { useReadingStatsStore } from '@/store/readingStatsStore';
+import { countWords } from '@/services/htmlExtractor';
+import { SIZE_PER_LOCATION } from '@/utils/readingStats';
+import { uniqueId } from '@/utils/misc';
+
+// A pause longer than this ends the session; the paused time isn't counted
+const IDLE_TIMEOUT = 5 * 60 * 1000;
+
+// Moving further ahead than this is a jump (TOC, search, links), not reading
+const MAX_PAGE_STEP = 5;
+
+// Sessions in progress are saved this often, in case the tab is killed
+const SAVE_EVERY_PAGES = 10;
+
+/**
+ * Records reading sessions of a book: reading time between page turns, the
+ * pages turned forward and the words on them. A page's time and words are
+ * counted when it is turned, so that only pages actually read count.
+ */
+export const useReadingSession = (bookKey: string) => {
+  const { getProgress } = useReaderStore();
+  const { getBookData } = useBookDataStore();
+  const progress = getProgress(bookKey);
+
+  const sessionRef = useRef<ReadingSession | null>(null);
+  const lastPageRef = useRef<{ time: number; page: number; words: number } | null>(null);
+
+  // Hiding the tab ends the session but keeps the page, which is counted
+  // once it is turned after coming back
+  const endSession = (keepPage = false) => {
+    const session = sessionRef.current;
+    if (session && session.pages > 0) {
+      useReadingStatsStore.getState().saveSession(session);
+    }
+    sessionRef.current = null;
+    if (!keepPage) lastPageRef.current = null;
+  };
+
+  useEffect(() => {
+    const bookData = getBookData(bookKey);
+    const book = bookData?.book;
+    const pageInfo = bookData?.isFixedLayout ? progress?.section : progress?.pageinfo;
+    if (!book || !pageInfo) return;
+
+    const now = Date.now();
+    if (lastPageRef.current && now - lastPageRef.current.time > IDLE_TIMEOUT) endSession();
+
+    const previous = lastPageRef.current;
+    if (!sessionRef.current) {
+      sessionRef.current = {
+        id: uniqueId(),
+        bookHash: book.hash,
+        title: book.title,
+        author: book.author,
+        start: previous?.time ?? now,
+        end: now,
+        duration: 0,
+        pages: 0,
+        words: 0,
+        size: 0,
+      };
+    }
+    const session = sessionRef.current;
+    if (previous) {
+      session.end = now;
+      session.duration += now - previous.time;
+      const step = pageInfo.current - previous.page;
+      if (step > 0 && step <= MAX_PAGE_STEP) {
+        session.pages += step;
+        session.words += previous.words;
+        if (!bookData.isFixedLayout) session.size += step * SIZE_PER_LOCATION;
+        if (session.pages % SAVE_EVERY_PAGES < step) {
+          useReadingStatsStore.getState().saveSession(session);
+        }
+        if (pageInfo.current >= pageInfo.total - 1) {
+          useReadingStatsStore.getState().setBookFinished(book.hash, now);
+        }
+      }
+    }
+
+    lastPageRef.current = {
+      time: now,
+      page: pageInfo.current,
+      words: countWords(progress?.range?.toString() ?? ''),
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [progress, bookKey]);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        endSession(true);
+      } else if (lastPageRef.current) {
+        lastPageRef.current.time = Date.now();
+      }
+    };
+    const handlePageHide = () => endSession();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('pagehide', handlePageHide);
+      endSession();
+    };
+  }, [bookKey]);
+};
@@ -54,18 +54,20 @@ export const showInputAlert = async (
   message: string,
   defaultValue: string = '',
   placeholder: string = '',
-  isDarkMode: boolean = true
+  isDarkMode: boolean = true,
+  title: string = 'Enter filename',
+  confirmText: string = 'Save'
 ): Promise<string | null> => {
   document.body.setAttribute('data-theme', isDarkMode ? 'dark' : 'light');
   
   const result = await Swal.fire({
-    title: 'Enter filename',
+    title,
     text: message,
     input: 'text',
     inputValue: defaultValue,
     inputPlaceholder: placeholder,
     showCancelButton: true,
-    confirmButtonText: 'Save',
+    confirmButtonText: confirmText,
     cancelButtonText: 'Cancel',
     background: isDarkMode ? '#222' : '#fff',
     color: isDarkMode ? '#fff' : '#333',
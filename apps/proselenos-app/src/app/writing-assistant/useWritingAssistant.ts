@@ -1,5 +1,5 @@
 // app/writing-assistant/useWritingAssistant.ts
-// Local-first: IndexedDB + client-side OpenRouter API calls
+// Local-first: IndexedDB + client-side AI provider calls (see lib/aiService.ts)
 
 import { useState, useCallback } from 'react';
 import { WorkflowState, WorkflowStep, WorkflowStepId } from './types';
@@ -8,7 +8,6 @@ import { showAlert } from '../shared/alerts';
 import {
   loadApiKey,
   loadAppSettings,
-  loadAIProviderConfig,
   getWritingAssistantPrompt,
   loadWorkingCopyMeta,
   saveWorkingCopyMeta,
@@ -17,7 +16,7 @@ import {
   saveSection,
   loadSection
 } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { createApiService, loadProviderConfig, providerRequiresApiKey } from '@/lib/aiService';
 import { xhtmlToPlainText } from '@/lib/plateXhtml';
 
 // Map workflow step IDs to manuscript section IDs and titles
@@ -200,7 +199,7 @@ export function useWritingAssistant(
     return { canRun: true };
   }, []);
 
-  // Execute workflow step - client-side OpenRouter API call
+  // Execute workflow step - client-side AI provider call
   const executeStep = useCallback(async (stepId: WorkflowStepId) => {
     // Get fresh file status
     const currentFiles = await detectExistingFiles();
@@ -274,9 +273,10 @@ export function useWritingAssistant(
       // Load API key and model
       const apiKey = await loadApiKey();
       const settings = await loadAppSettings();
+      const providerConfig = await loadProviderConfig();
 
-      if (!apiKey) {
-        throw new Error('API key not configured. Please add your OpenRouter API key in Settings.');
+      if (!apiKey && providerRequiresApiKey(providerConfig)) {
+        throw new Error(`API key not configured. Please add your ${providerConfig.providerName} API key in Settings.`);
       }
       if (!settings?.selectedModel) {
         throw new Error('AI model not selected. Please select a model in Settings.');
@@ -347,29 +347,11 @@ export function useWritingAssistant(
       const combinedContent = `${context}\n\n=== INSTRUCTIONS ===\n${toolPrompt}\n=== END INSTRUCTIONS ===`;
 
       // Client-side AI API call (provider configurable via AI Settings)
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      const response = await fetch(aiConfig.completions, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': typeof window !== 'undefined' ? window.location.href : 'https://everythingebooks.org',
-          'X-Title': 'EverythingEbooks'
-        },
-        body: JSON.stringify({
-          model: settings.selectedModel,
-          messages: [{ role: 'user', content: combinedContent }],
-          temperature: 0.7,
-          max_tokens: 16000
-        })
-      });
-
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.error?.message || `HTTP ${response.status}`);
-      }
-
-      const result = data.choices?.[0]?.message?.content || '';
+      const service = (await createApiService(providerConfig.kind, settings.selectedModel))!;
+      const result = await service.chat(
+        [{ role: 'user', content: combinedContent }],
+        { temperature: 0.7, maxTokens: 16000 }
+      );
       if (!result) {
         throw new Error('No response from AI');
       }
@@ -397,7 +379,7 @@ export function useWritingAssistant(
 
         // Build a short label for display (e.g., "chapter 2")
         const chMatch = chapterTitle.match(/^(Chapter\s+\d+)/i);
-        chapterLabel = chMatch ? chMatch[1].toLowerCase() : `chapter`;
+        chapterLabel = chMatch ? chMatch[1]!.toLowerCase() : `chapter`;
 
         // Check if there's an existing empty chapter to overwrite
         let existingEmptyId: string | null = null;
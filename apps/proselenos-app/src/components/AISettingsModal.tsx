@@ -5,8 +5,14 @@
 
 import { useState, useEffect } from 'react';
 import { showAlert } from '@/app/shared/alerts';
-import { loadAIProviderConfig, saveAIProviderConfig, AIProviderConfig } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { loadAIProviderConfig, saveAIProviderConfig, loadApiKey, AIProviderConfig } from '@/services/manuscriptStorage';
+import {
+  AI_PROVIDER_PRESETS,
+  AIProviderKind,
+  DEFAULT_AI_PROVIDER,
+  normalizeAIProviderConfig,
+} from '@/lib/constants/aiApi';
+import { OpenAICompatibleService } from '@/lib/providers/openaiCompatible';
 import StyledSmallButton from '@/components/StyledSmallButton';
 
 interface AISettingsModalProps {
@@ -24,6 +30,7 @@ export default function AISettingsModal({
 }: AISettingsModalProps) {
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [testing, setTesting] = useState(false);
   const [config, setConfig] = useState<AIProviderConfig>(DEFAULT_AI_PROVIDER);
 
   // Load config when modal opens
@@ -37,7 +44,7 @@ export default function AISettingsModal({
     setLoading(true);
     try {
       const stored = await loadAIProviderConfig();
-      setConfig(stored ?? DEFAULT_AI_PROVIDER);
+      setConfig(normalizeAIProviderConfig(stored));
     } catch (error) {
       console.error('Error loading AI config:', error);
       setConfig(DEFAULT_AI_PROVIDER);
@@ -77,6 +84,30 @@ export default function AISettingsModal({
     setConfig(prev => ({ ...prev, [field]: value }));
   };
 
+  const handlePresetChange = (providerName: string) => {
+    const preset = AI_PROVIDER_PRESETS.find(p => p.providerName === providerName);
+    if (preset) setConfig(preset);
+  };
+
+  // Fetch the model list with the settings as entered (not yet saved)
+  const handleTestConnection = async () => {
+    setTesting(true);
+    try {
+      const apiKey = await loadApiKey();
+      const service = new OpenAICompatibleService({ apiKey: apiKey ?? undefined, provider: config });
+      const models = await service.getAvailableModels();
+      if (models.length === 0) {
+        showAlert('Connected, but no chat models were found.\nAdd model IDs under Additional Models.', 'warning', undefined, isDarkMode);
+      } else {
+        showAlert(`Connected to ${config.providerName}: ${models.length} chat model${models.length === 1 ? '' : 's'} available.`, 'success', undefined, isDarkMode);
+      }
+    } catch (error) {
+      showAlert(`Connection failed: ${error instanceof Error ? error.message : String(error)}`, 'error', undefined, isDarkMode);
+    } finally {
+      setTesting(false);
+    }
+  };
+
   if (!isOpen) return null;
 
   const inputStyle = {
@@ -144,6 +175,35 @@ export default function AISettingsModal({
           </div>
         ) : (
           <>
+            <div style={fieldContainerStyle}>
+              <label style={labelStyle}>Preset</label>
+              <select
+                value={AI_PROVIDER_PRESETS.some(p => p.providerName === config.providerName) ? config.providerName : ''}
+                onChange={e => handlePresetChange(e.target.value)}
+                style={inputStyle}
+              >
+                <option value="" disabled>Custom</option>
+                {AI_PROVIDER_PRESETS.map(preset => (
+                  <option key={preset.providerName} value={preset.providerName}>{preset.providerName}</option>
+                ))}
+              </select>
+              <div style={{ fontSize: '11px', color: theme.textSecondary || '#888', marginTop: '4px' }}>
+                Fills in the fields below; every field can still be edited
+              </div>
+            </div>
+
+            <div style={fieldContainerStyle}>
+              <label style={labelStyle}>Provider Type</label>
+              <select
+                value={config.kind}
+                onChange={e => setConfig(prev => ({ ...prev, kind: e.target.value as AIProviderKind }))}
+                style={inputStyle}
+              >
+                <option value="openrouter">OpenRouter (API key required)</option>
+                <option value="openai-compatible">OpenAI-compatible (API key optional)</option>
+              </select>
+            </div>
+
             <div style={fieldContainerStyle}>
               <label style={labelStyle}>Provider Name (displayed in messages)</label>
               <input
@@ -202,6 +262,46 @@ export default function AISettingsModal({
               </div>
             </div>
 
+            <div style={{ ...fieldContainerStyle, display: 'flex', gap: '12px' }}>
+              <div style={{ flex: 2 }}>
+                <label style={labelStyle}>Auth Header</label>
+                <input
+                  type="text"
+                  value={config.authHeader ?? ''}
+                  onChange={e => updateField('authHeader', e.target.value)}
+                  placeholder="Authorization"
+                  style={inputStyle}
+                />
+              </div>
+              <div style={{ flex: 1 }}>
+                <label style={labelStyle}>Key Prefix</label>
+                <input
+                  type="text"
+                  value={config.authScheme ?? ''}
+                  onChange={e => updateField('authScheme', e.target.value)}
+                  placeholder="(none)"
+                  style={inputStyle}
+                />
+              </div>
+            </div>
+            <div style={{ fontSize: '11px', color: theme.textSecondary || '#888', marginTop: '-12px', marginBottom: '16px' }}>
+              Sent as &quot;{config.authHeader || 'Authorization'}: {config.authScheme ? `${config.authScheme} ` : ''}&lt;API key&gt;&quot; (e.g. api-key with no prefix for Azure gateways)
+            </div>
+
+            <div style={fieldContainerStyle}>
+              <label style={labelStyle}>Additional Models (one model ID per line)</label>
+              <textarea
+                value={config.modelList ?? ''}
+                onChange={e => updateField('modelList', e.target.value)}
+                placeholder={'e.g., llama3.1:8b\nqwen2.5:14b'}
+                rows={3}
+                style={{ ...inputStyle, resize: 'vertical' }}
+              />
+              <div style={{ fontSize: '11px', color: theme.textSecondary || '#888', marginTop: '4px' }}>
+                Offered alongside the Models URL list, or on their own when the server has no models endpoint
+              </div>
+            </div>
+
             <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', marginTop: '24px' }}>
               <StyledSmallButton
                 theme={theme}
@@ -210,6 +310,14 @@ export default function AISettingsModal({
               >
                 Reset to Defaults
               </StyledSmallButton>
+              <StyledSmallButton
+                theme={theme}
+                onClick={handleTestConnection}
+                disabled={testing}
+                title="Fetch the model list using these settings and the saved API key"
+              >
+                {testing ? 'Testing...' : 'Test Connection'}
+              </StyledSmallButton>
               <StyledSmallButton
                 theme={theme}
                 onClick={onClose}
@@ -1,8 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { loadApiKey, loadAIProviderConfig } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { loadApiKey } from '@/services/manuscriptStorage';
+import { createApiService, loadProviderConfig, providerRequiresApiKey } from '@/lib/aiService';
 import StyledSmallButton from '@/components/StyledSmallButton';
 
 interface ModelsDropdownProps {
@@ -29,6 +29,7 @@ export default function ModelsDropdown({
   const [error, setError] = useState<string | null>(null);
   const [showAllModels, setShowAllModels] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [providerName, setProviderName] = useState('OpenRouter');
 
   // Load models when modal opens
   useEffect(() => {
@@ -49,9 +50,11 @@ export default function ModelsDropdown({
     setLoading(true);
     setError(null);
     try {
-      // Get API key from IndexedDB
+      // Get API key from IndexedDB (local providers may not need one)
+      const providerConfig = await loadProviderConfig();
+      setProviderName(providerConfig.providerName);
       const apiKey = await loadApiKey();
-      if (!apiKey) {
+      if (!apiKey && providerRequiresApiKey(providerConfig)) {
         setError('No API key configured');
         setAllModels([]);
         setBigThreeModels([]);
@@ -59,25 +62,8 @@ export default function ModelsDropdown({
       }
 
       // Fetch models from AI provider (configurable via AI Settings)
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      const response = await fetch(aiConfig.models, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`
-        }
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch models');
-      }
-
-      const data = await response.json();
-      const models = data.data || [];
-
-      // Filter for chat models and get IDs
-      const modelIds = models
-        .filter((m: any) => !/(embedding|whisper|tts|audio-)/i.test(m.id))
-        .map((m: any) => m.id)
-        .sort();
+      const service = (await createApiService(providerConfig.kind))!;
+      const modelIds = (await service.getAvailableModels()).map((m) => m.id);
 
       setAllModels(modelIds);
 
@@ -88,6 +74,8 @@ export default function ModelsDropdown({
         id.startsWith('openai/')
       );
       setBigThreeModels(big3);
+      // Other providers rarely use vendor-prefixed IDs; show everything
+      if (big3.length === 0) setShowAllModels(true);
     } catch (error) {
       console.error('Error loading models:', error);
       setError(error instanceof Error ? error.message : 'Failed to load models');
@@ -237,7 +225,7 @@ export default function ModelsDropdown({
               padding: '20px',
               color: theme.textSecondary
             }}>
-              Loading models from OpenRouter...
+              Loading models from {providerName}...
             </div>
           )}
 
@@ -257,7 +245,7 @@ export default function ModelsDropdown({
           {!loading && !error && allModels.length > 0 && (
             <div>
               {/* Toggle between Popular and All Models */}
-              <div style={{
+              {bigThreeModels.length > 0 && <div style={{
                 display: 'flex',
                 gap: '12px',
                 marginBottom: '16px'
@@ -266,9 +254,9 @@ export default function ModelsDropdown({
                   Popular Models ({bigThreeModels.length})
                 </StyledSmallButton>
                 <StyledSmallButton onClick={() => setShowAllModels(true)} theme={theme} styleOverrides={{ flex: 1 }}>
-                  All OpenRouter Models ({allModels.length})
+                  All {providerName} Models ({allModels.length})
                 </StyledSmallButton>
-              </div>
+              </div>}
 
               {/* Search Input */}
               <div style={{ marginBottom: '16px' }}>
@@ -315,7 +303,7 @@ export default function ModelsDropdown({
                   marginBottom: '12px'
                 }}>
                   {showAllModels 
-                    ? 'Browse all models available on OpenRouter'
+                    ? `Browse all models available on ${providerName}`
                     : 'Quick access to the popular AI models'
                   }
                 </div>
@@ -349,7 +337,7 @@ export default function ModelsDropdown({
                 }}>
                   {!searchQuery && (
                     showAllModels 
-                      ? `Showing all ${allModels.length} models from OpenRouter`
+                      ? `Showing all ${allModels.length} models from ${providerName}`
                       : `Showing ${bigThreeModels.length} models from Anthropic, Google, and OpenAI`
                   )}
                   {selectedModel && (
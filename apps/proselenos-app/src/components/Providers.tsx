@@ -14,6 +14,7 @@ import { useBackgroundTexture } from '@/hooks/useBackgroundTexture';
 import { useEinkMode } from '@/hooks/useEinkMode';
 import { getLocale } from '@/utils/misc';
 import { getDirFromUILanguage } from '@/utils/rtl';
+import { startBackupScheduler } from '@/services/backupScheduler';
 
 const Providers = ({ children }: { children: React.ReactNode }) => {
   const { envConfig, appService } = useEnv();
@@ -44,6 +45,9 @@ const Providers = ({ children }: { children: React.ReactNode }) => {
     };
   }, []);
 
+  // Automatic backups to the chosen folder, while the app is open
+  useEffect(() => startBackupScheduler(), []);
+
   useEffect(() => {
     loadDataTheme();
     if (appService) {
@@ -4,8 +4,8 @@
 
 import { useState, useEffect } from 'react';
 import { showAlert } from '@/app/shared/alerts';
-import { loadApiKey, saveApiKey, loadAIProviderConfig } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { loadApiKey, saveApiKey } from '@/services/manuscriptStorage';
+import { loadProviderConfig, providerRequiresApiKey, validateApiKey } from '@/lib/aiService';
 import StyledSmallButton from '@/components/StyledSmallButton';
 
 interface SettingsDialogProps {
@@ -17,10 +17,6 @@ interface SettingsDialogProps {
   currentProvider?: string;
 }
 
-const PROVIDER_DISPLAY_NAMES = {
-  'openrouter': 'OpenRouter'
-};
-
 export default function SettingsDialog({
   isOpen,
   onClose,
@@ -35,12 +31,16 @@ export default function SettingsDialog({
   const [hasKey, setHasKey] = useState(false);
   const [loading, setLoading] = useState(false);
   const [showApiKey, setShowApiKey] = useState(false);
+  const [providerName, setProviderName] = useState('OpenRouter');
+  const [keyRequired, setKeyRequired] = useState(true);
 
   // Load API key from local IndexedDB
   const loadSettings = async () => {
     setLoading(true);
     try {
-      const storedKey = await loadApiKey();
+      const [storedKey, providerConfig] = await Promise.all([loadApiKey(), loadProviderConfig()]);
+      setProviderName(providerConfig.providerName);
+      setKeyRequired(providerRequiresApiKey(providerConfig));
       setHasKey(!!storedKey);
       setApiKey(storedKey || '');
     } catch (error) {
@@ -57,30 +57,8 @@ export default function SettingsDialog({
     }
   }, [isOpen]);
 
-  // Validate API key client-side (optional - some local providers don't support auth endpoint)
-  const validateApiKey = async (key: string): Promise<boolean> => {
-    try {
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      // Skip validation if authKey URL is empty (local providers like Ollama)
-      if (!aiConfig.authKey || aiConfig.authKey.trim() === '') {
-        return true;
-      }
-      const response = await fetch(aiConfig.authKey, {
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${key}`
-        }
-      });
-      return response.ok;
-    } catch {
-      // If validation fails (network error, endpoint doesn't exist), allow saving anyway
-      // User can test by fetching models
-      return true;
-    }
-  };
-
   const handleSave = async () => {
-    if (!apiKey.trim() && !hasKey) {
+    if (!apiKey.trim() && !hasKey && keyRequired) {
       showAlert('Please enter an API key', 'warning', undefined, isDarkMode);
       return;
     }
@@ -91,6 +69,7 @@ export default function SettingsDialog({
       // Store new key OR delete existing key if field was cleared
       if (apiKey.trim()) {
         // Validate API key before saving
+        // Optional - providers without a key-check URL (e.g. local servers) skip this
         const isValid = await validateApiKey(apiKey.trim());
         if (!isValid) {
           showAlert('Invalid API key. Please check and try again.', 'error', undefined, isDarkMode);
@@ -176,7 +155,7 @@ export default function SettingsDialog({
             color: theme.text,
             marginBottom: '8px'
           }}>
-            AI Provider: OpenRouter
+            AI Provider: {providerName}
           </div>
         </div>
 
@@ -188,14 +167,14 @@ export default function SettingsDialog({
             color: theme.text,
             marginBottom: '8px'
           }}>
-            {PROVIDER_DISPLAY_NAMES[selectedProvider as keyof typeof PROVIDER_DISPLAY_NAMES]} API Key
+            {providerName} API Key
           </div>
           <div style={{
             fontSize: '12px',
             color: theme.textSecondary,
             marginBottom: '6px'
           }}>
-            Enter your {PROVIDER_DISPLAY_NAMES[selectedProvider as keyof typeof PROVIDER_DISPLAY_NAMES]} API key (stored locally)
+            Enter your {providerName} API key (stored locally){!keyRequired && ' - optional for this provider'}
           </div>
           <div style={{ position: 'relative' }}>
             <input
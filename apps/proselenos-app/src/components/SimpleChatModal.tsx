@@ -7,29 +7,68 @@ import renderWriterMarkdown from '@/lib/writerMarkdown';
 import { showAlert } from '@/app/shared/alerts';
 import StyledSmallButton from '@/components/StyledSmallButton';
 import { getTheme } from '@/app/shared/theme';
-import { loadApiKey, loadAppSettings, loadAIProviderConfig, saveChatFile } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { loadApiKey, loadAppSettings, saveChatFile, searchManuscript } from '@/services/manuscriptStorage';
+import { createApiService, loadProviderConfig, providerRequiresApiKey } from '@/lib/aiService';
+import type { ChatMessage as ProviderMessage } from '@/lib/providers/openaiCompatible';
 
 interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
 }
 
+// A manuscript passage given to the AI, cited in its answer as [n]
+interface ChatSource {
+  n: number;
+  sectionId: string;
+  title: string;
+  text: string;
+}
+
 interface SimpleChatModalProps {
   isOpen: boolean;
   onClose: () => void;
   isDarkMode?: boolean;
+  onOpenSection?: (sectionId: string) => void;
 }
 
-// Extend ChatMessage to include elapsed time
+// Extend ChatMessage to include elapsed time and the passages it was grounded in
 interface ChatMessageWithTimer extends ChatMessage {
   elapsedTime?: number;
+  sources?: ChatSource[];
+}
+
+// Passages retrieved from the manuscript for each question
+const MANUSCRIPT_PASSAGES = 8;
+
+const BASE_SYSTEM_PROMPT = 'You are a helpful AI assistant. Respond naturally and conversationally.';
+
+function buildGroundedSystemPrompt(sources: ChatSource[]): string {
+  const excerpts = sources.map(s => `[${s.n}] ${s.title}\n${s.text}`).join('\n\n');
+  return `You are a helpful AI assistant for an author who is writing a book. Respond naturally and conversationally.
+
+Below are excerpts from the author's manuscript that may be relevant to their latest message, numbered and in manuscript order (earliest first). These excerpts are all you can see of the manuscript. When you answer questions about the book, base your answer on them and cite them by number in square brackets, e.g. [2] or [1, 3]. If the excerpts don't answer the question, say so instead of guessing.
+
+=== MANUSCRIPT EXCERPTS ===
+${excerpts}
+=== END MANUSCRIPT EXCERPTS ===`;
+}
+
+// Numbers an answer cites, in order of first use
+function getCitedSources(content: string, sources: ChatSource[]): ChatSource[] {
+  const cited = new Set<number>();
+  for (const match of content.matchAll(/\[(\d+(?:\s*[,;]\s*\d+)*)\]/g)) {
+    match[1]!.split(/\s*[,;]\s*/).forEach(n => cited.add(Number(n)));
+  }
+  return [...cited]
+    .map(n => sources.find(s => s.n === n))
+    .filter((s): s is ChatSource => !!s);
 }
 
 export default function SimpleChatModal({
   isOpen,
   onClose,
-  isDarkMode = false
+  isDarkMode = false,
+  onOpenSection
 }: SimpleChatModalProps): React.JSX.Element | null {
   const theme = getTheme(isDarkMode);
   const [input, setInput] = useState<string>('');
@@ -37,6 +76,8 @@ export default function SimpleChatModal({
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [providerModel, setProviderModel] = useState<string>('');
   const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [useManuscript, setUseManuscript] = useState<boolean>(true);
+  const [previewSource, setPreviewSource] = useState<ChatSource | null>(null);
   
   // Filename input state
   const [showFilenameInput, setShowFilenameInput] = useState<boolean>(false);
@@ -58,6 +99,7 @@ export default function SimpleChatModal({
       setProviderModel('');
       setShowFilenameInput(false);
       setFilename('');
+      setPreviewSource(null);
       // Clear timer when modal closes
       if (timerInterval) {
         clearInterval(timerInterval);
@@ -100,9 +142,10 @@ export default function SimpleChatModal({
     try {
       const settings = await loadAppSettings();
       if (settings?.selectedModel) {
-        // Format: "OpenRouter: model-name" (remove provider prefix)
+        // Format: "Provider: model-name" (remove vendor prefix)
+        const { providerName } = await loadProviderConfig();
         const modelDisplay = settings.selectedModel.replace(/^[^/]+\//, '');
-        setProviderModel(`OpenRouter: ${modelDisplay}`);
+        setProviderModel(`${providerName}: ${modelDisplay}`);
       } else {
         setProviderModel('No model selected');
       }
@@ -164,45 +207,43 @@ export default function SimpleChatModal({
       // Get API key and model from IndexedDB
       const apiKey = await loadApiKey();
       const settings = await loadAppSettings();
+      const providerConfig = await loadProviderConfig();
 
-      if (!apiKey || !settings?.selectedModel) {
+      if ((!apiKey && providerRequiresApiKey(providerConfig)) || !settings?.selectedModel) {
         throw new Error('API key or model not configured');
       }
 
-      // Build messages for OpenRouter
-      const openaiMessages = [
-        { role: 'system', content: 'You are a helpful AI assistant. Respond naturally and conversationally.' },
-        ...updatedMessages.map(m => ({ role: m.role, content: m.content }))
+      // Find the passages of the manuscript this question is about
+      let sources: ChatSource[] = [];
+      if (useManuscript) {
+        try {
+          const hits = await searchManuscript(userMessage.content, MANUSCRIPT_PASSAGES);
+          sources = hits
+            .sort((a, b) => a.sectionIndex - b.sectionIndex || a.passageIndex - b.passageIndex)
+            .map((hit, i) => ({ n: i + 1, sectionId: hit.sectionId, title: hit.title, text: hit.text }));
+        } catch (error: unknown) {
+          console.error('Manuscript search failed:', error);
+        }
+      }
+
+      // Build chat messages (earlier citations are dropped: their numbers referred to other excerpts)
+      const chatMessages: ProviderMessage[] = [
+        { role: 'system', content: sources.length > 0 ? buildGroundedSystemPrompt(sources) : BASE_SYSTEM_PROMPT },
+        ...updatedMessages.map(m => ({
+          role: m.role,
+          content: m.sources ? m.content.replace(/\s?\[(\d+(?:\s*[,;]\s*\d+)*)\]/g, '') : m.content
+        }))
       ];
 
       // Client-side AI API call (provider configurable via AI Settings)
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      const response = await fetch(aiConfig.completions, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-          'HTTP-Referer': window.location.href,
-          'X-Title': 'EverythingEbooks'
-        },
-        body: JSON.stringify({
-          model: settings.selectedModel,
-          messages: openaiMessages,
-          max_tokens: 8000
-        })
-      });
-
-      const data = await response.json();
-      if (!response.ok) {
-        throw new Error(data.error?.message || `HTTP ${response.status}`);
-      }
-
-      const aiResponse = data.choices?.[0]?.message?.content || 'No response';
+      const service = (await createApiService(providerConfig.kind, settings.selectedModel))!;
+      const aiResponse = await service.chat(chatMessages, { maxTokens: 8000 }) || 'No response';
       const finalElapsedTime = Math.floor((Date.now() - now) / 1000);
       const assistantMessage: ChatMessageWithTimer = {
         role: 'assistant',
         content: aiResponse,
-        elapsedTime: finalElapsedTime
+        elapsedTime: finalElapsedTime,
+        sources: sources.length > 0 ? sources : undefined
       };
       setMessages([...updatedMessages, assistantMessage]);
     } catch (error: unknown) {
@@ -249,7 +290,13 @@ export default function SimpleChatModal({
 
       // Format chat content
       const chatContent = messages
-        .map(m => `${m.role === 'user' ? 'ME' : 'AI'}:\n${m.content}\n`)
+        .map(m => {
+          const cited = m.sources ? getCitedSources(m.content, m.sources) : [];
+          const sourceList = cited.length > 0
+            ? `\nSources:\n${cited.map(s => `[${s.n}] ${s.title}`).join('\n')}\n`
+            : '';
+          return `${m.role === 'user' ? 'ME' : 'AI'}:\n${m.content}\n${sourceList}`;
+        })
         .join('\n');
 
       const header = `Chat: ${new Date().toLocaleString()}\nModel: ${providerModel}\n\n`;
@@ -279,6 +326,33 @@ export default function SimpleChatModal({
     }
   };
 
+  const renderCitation = (n: number, key: string, sources: ChatSource[]): React.ReactNode => {
+    const source = sources.find(s => s.n === n);
+    if (!source) return <span key={key}>[{n}]</span>;
+    return (
+      <button
+        key={key}
+        type="button"
+        onClick={() => setPreviewSource(source)}
+        title={source.title}
+        style={{
+          margin: '0 1px',
+          padding: '0 4px',
+          fontSize: '11px',
+          lineHeight: '16px',
+          verticalAlign: 'super',
+          border: 'none',
+          borderRadius: '3px',
+          backgroundColor: isDarkMode ? '#2c5282' : '#bee3f8',
+          color: isDarkMode ? '#e2e8f0' : '#2a4365',
+          cursor: 'pointer'
+        }}
+      >
+        {n}
+      </button>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -386,7 +460,26 @@ export default function SimpleChatModal({
           {providerModel || 'Loading AI Model...'}
         </div>
 
-        <div style={{ display: 'flex', gap: '6px' }}>
+        <div style={{ display: 'flex', gap: '6px', alignItems: 'center' }}>
+          <label
+            title="Search the manuscript for passages related to each message and cite them in the answer"
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              fontSize: '12px',
+              color: isDarkMode ? '#a0aec0' : '#718096',
+              cursor: 'pointer',
+              marginRight: '6px'
+            }}
+          >
+            <input
+              type="checkbox"
+              checked={useManuscript}
+              onChange={(e) => setUseManuscript(e.target.checked)}
+            />
+            Use manuscript
+          </label>
           <StyledSmallButton
             onClick={handleSaveChat}
             disabled={messages.length === 0 || isSaving}
@@ -441,9 +534,37 @@ export default function SimpleChatModal({
                   backgroundColor: 'transparent'
                 }}
               >
-                {renderWriterMarkdown(message.content, !!isDarkMode)}
+                {renderWriterMarkdown(
+                  message.content,
+                  !!isDarkMode,
+                  message.sources ? (n, key) => renderCitation(n, key, message.sources!) : undefined
+                )}
               </div>
             </div>
+
+            {/* Manuscript sections cited in the answer */}
+            {message.sources && getCitedSources(message.content, message.sources).length > 0 && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginBottom: '4px', maxWidth: '70%' }}>
+                {getCitedSources(message.content, message.sources).map(source => (
+                  <button
+                    key={source.n}
+                    type="button"
+                    onClick={() => setPreviewSource(source)}
+                    style={{
+                      padding: '2px 8px',
+                      fontSize: '11px',
+                      border: `1px solid ${isDarkMode ? '#4a5568' : '#e2e8f0'}`,
+                      borderRadius: '10px',
+                      backgroundColor: 'transparent',
+                      color: isDarkMode ? '#90cdf4' : '#2b6cb0',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    [{source.n}] {source.title}
+                  </button>
+                ))}
+              </div>
+            )}
             
             {/* Show timer for assistant messages */}
             {message.role === 'assistant' && message.elapsedTime !== undefined && (
@@ -488,6 +609,43 @@ export default function SimpleChatModal({
         <div ref={messagesEndRef} />
       </div>
 
+      {/* Cited passage preview */}
+      {previewSource && (
+        <div style={{
+          borderTop: `1px solid ${isDarkMode ? '#4a5568' : '#e2e8f0'}`,
+          backgroundColor: isDarkMode ? '#2d3748' : '#f7fafc',
+          padding: '8px 16px'
+        }}>
+          <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '6px' }}>
+              <div style={{ fontSize: '13px', fontWeight: 'bold', color: isDarkMode ? '#e2e8f0' : '#1a202c' }}>
+                [{previewSource.n}] {previewSource.title}
+              </div>
+              <div style={{ display: 'flex', gap: '6px' }}>
+                {onOpenSection && (
+                  <StyledSmallButton onClick={() => onOpenSection(previewSource.sectionId)} theme={theme}>
+                    Open in Editor
+                  </StyledSmallButton>
+                )}
+                <StyledSmallButton onClick={() => setPreviewSource(null)} theme={theme}>
+                  Close
+                </StyledSmallButton>
+              </div>
+            </div>
+            <div style={{
+              maxHeight: '180px',
+              overflowY: 'auto',
+              fontSize: '13px',
+              lineHeight: '1.5',
+              whiteSpace: 'pre-wrap',
+              color: isDarkMode ? '#cbd5e0' : '#4a5568'
+            }}>
+              {previewSource.text}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Input Area */}
       <div style={{
         padding: '16px',
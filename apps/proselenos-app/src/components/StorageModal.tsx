@@ -3,8 +3,9 @@
 import { useEffect, useState } from 'react';
 import StyledSmallButton from '@/components/StyledSmallButton';
 import { ThemeConfig } from '../app/shared/theme';
-import { exportAndDownload, pickAndValidateBackup, performImport } from '@/services/dataExportService';
-import { showAlert, showConfirm } from '@/app/shared/alerts';
+import { pickAndValidateBackup, type PickedBackup } from '@/services/dataExportService';
+import { BackupExportModal, RestoreBackupModal } from '@/components/backup';
+import { showAlert } from '@/app/shared/alerts';
 
 interface StorageModalProps {
   isOpen: boolean;
@@ -36,69 +37,28 @@ export default function StorageModal({
   const [storage, setStorage] = useState<StorageEstimate | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPersisted, setIsPersisted] = useState<boolean | null>(null);
-  const [isExporting, setIsExporting] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
-
-  const handleExport = async () => {
-    setIsExporting(true);
-    try {
-      await exportAndDownload();
-      // Record export date for traffic light indicator (shared via localStorage across all tabs)
-      localStorage.setItem('last_export_date', new Date().toISOString());
-      // Notify the current tab — native storage events only fire in *other* tabs
-      window.dispatchEvent(new StorageEvent('storage', { key: 'last_export_date' }));
-      showAlert('Your backup has been downloaded.', 'success', 'Export Complete', isDarkMode);
-    } catch (err) {
-      console.error('Export failed:', err);
-      showAlert('Export failed. Please try again.', 'error', undefined, isDarkMode);
-    } finally {
-      setIsExporting(false);
-    }
-  };
+  const [backupToRestore, setBackupToRestore] = useState<PickedBackup | null>(null);
 
   const handleImport = async () => {
     setIsImporting(true);
     try {
-      // 1. Pick and validate the file
+      // Pick and validate the file; the restore dialog takes it from there
       const result = await pickAndValidateBackup();
       if (!result) {
         // User cancelled file picker
-        setIsImporting(false);
         return;
       }
       if ('error' in result) {
         showAlert(result.error, 'error', undefined, isDarkMode);
-        setIsImporting(false);
         return;
       }
-
-      // 2. Confirm with user
-      const confirmed = await showConfirm(
-        'This will replace ALL existing data with the backup. Make sure you have exported your current data if you want to keep it.',
-        isDarkMode,
-        'Import Backup?',
-        'Yes, Import',
-        'Cancel'
-      );
-      if (!confirmed) {
-        setIsImporting(false);
-        return;
-      }
-
-      // 3. Perform the import
-      const importResult = await performImport(result.zip);
-      if (!importResult.success) {
-        showAlert(importResult.error || 'Import failed', 'error', undefined, isDarkMode);
-        setIsImporting(false);
-        return;
-      }
-
-      // 4. Success - show message and refresh
-      showAlert('Import complete! The page will refresh to load your restored data.', 'success', 'Success', isDarkMode);
-      setTimeout(() => window.location.reload(), 1500);
+      setBackupToRestore(result);
     } catch (err) {
       console.error('Import failed:', err);
       showAlert('Import failed. Please try again.', 'error', undefined, isDarkMode);
+    } finally {
       setIsImporting(false);
     }
   };
@@ -207,8 +167,8 @@ export default function StorageModal({
                   : 'Your data may be cleared if the browser runs low on storage. Consider exporting important work.'}
               </p>
               <button
-                onClick={handleExport}
-                disabled={isExporting || isImporting}
+                onClick={() => setShowExport(true)}
+                disabled={isImporting}
                 style={{
                   marginTop: '20px',
                   width: '100%',
@@ -219,15 +179,15 @@ export default function StorageModal({
                   borderRadius: '6px',
                   fontSize: '14px',
                   fontWeight: '500',
-                  cursor: (isExporting || isImporting) ? 'not-allowed' : 'pointer',
-                  opacity: (isExporting || isImporting) ? 0.7 : 1,
+                  cursor: isImporting ? 'not-allowed' : 'pointer',
+                  opacity: isImporting ? 0.7 : 1,
                 }}
               >
-                {isExporting ? 'Exporting...' : 'Export All Data'}
+                Export All Data
               </button>
               <button
                 onClick={handleImport}
-                disabled={isExporting || isImporting}
+                disabled={isImporting}
                 style={{
                   marginTop: '10px',
                   width: '100%',
@@ -238,8 +198,8 @@ export default function StorageModal({
                   borderRadius: '6px',
                   fontSize: '14px',
                   fontWeight: '500',
-                  cursor: (isExporting || isImporting) ? 'not-allowed' : 'pointer',
-                  opacity: (isExporting || isImporting) ? 0.7 : 1,
+                  cursor: isImporting ? 'not-allowed' : 'pointer',
+                  opacity: isImporting ? 0.7 : 1,
                 }}
               >
                 {isImporting ? 'Importing...' : 'Import Data'}
@@ -252,6 +212,17 @@ export default function StorageModal({
           )}
         </div>
       </div>
+
+      <BackupExportModal
+        isOpen={showExport}
+        isDarkMode={isDarkMode}
+        onClose={() => setShowExport(false)}
+      />
+      <RestoreBackupModal
+        backup={backupToRestore}
+        isDarkMode={isDarkMode}
+        onClose={() => setBackupToRestore(null)}
+      />
     </div>
   );
 }
@@ -3,8 +3,10 @@
 import React, { useEffect, useState } from 'react';
 import { useTranslation } from '@/hooks/useTranslation';
 import Dialog from './Dialog';
-import { exportAndDownload, pickAndValidateBackup, performImport } from '@/services/dataExportService';
-import { showAlert, showConfirm } from '@/app/shared/alerts';
+import { pickAndValidateBackup, type PickedBackup } from '@/services/dataExportService';
+import { BackupExportModal, RestoreBackupModal } from '@/components/backup';
+import { useThemeStore } from '@/store/themeStore';
+import { showAlert } from '@/app/shared/alerts';
 
 export const setStorageDialogVisible = (visible: boolean) => {
   const dialog = document.getElementById('storage_window');
@@ -36,8 +38,10 @@ export const StorageWindow = () => {
   const [storage, setStorage] = useState<StorageEstimate | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isPersisted, setIsPersisted] = useState<boolean | null>(null);
-  const [isExporting, setIsExporting] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [backupToRestore, setBackupToRestore] = useState<PickedBackup | null>(null);
+  const { isDarkMode } = useThemeStore();
 
   useEffect(() => {
     const handleCustomEvent = (event: CustomEvent) => {
@@ -89,71 +93,30 @@ export const StorageWindow = () => {
     setIsOpen(false);
   };
 
-  const handleExport = async () => {
-    setIsExporting(true);
-    try {
-      await exportAndDownload();
-      // Record export date for traffic light indicator (shared via localStorage across all tabs)
-      localStorage.setItem('last_export_date', new Date().toISOString());
-      // Notify the current tab — native storage events only fire in *other* tabs
-      window.dispatchEvent(new StorageEvent('storage', { key: 'last_export_date' }));
-      showAlert(_('Your backup has been downloaded.'), 'success', _('Export Complete'));
-    } catch (err) {
-      console.error('Export failed:', err);
-      showAlert(_('Export failed. Please try again.'), 'error');
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   const handleImport = async () => {
     setIsImporting(true);
     try {
-      // 1. Pick and validate the file
+      // Pick and validate the file; the restore dialog takes it from there
       const result = await pickAndValidateBackup();
       if (!result) {
         // User cancelled file picker
-        setIsImporting(false);
         return;
       }
       if ('error' in result) {
         showAlert(_(result.error), 'error');
-        setIsImporting(false);
-        return;
-      }
-
-      // 2. Confirm with user
-      const confirmed = await showConfirm(
-        _('This will replace ALL existing data with the backup. Make sure you have exported your current data if you want to keep it.'),
-        true,
-        _('Import Backup?'),
-        _('Yes, Import'),
-        _('Cancel')
-      );
-      if (!confirmed) {
-        setIsImporting(false);
         return;
       }
-
-      // 3. Perform the import
-      const importResult = await performImport(result.zip);
-      if (!importResult.success) {
-        showAlert(_(importResult.error || 'Import failed'), 'error');
-        setIsImporting(false);
-        return;
-      }
-
-      // 4. Success - show message and refresh
-      showAlert(_('Import complete! The page will refresh to load your restored data.'), 'success', _('Success'));
-      setTimeout(() => window.location.reload(), 1500);
+      setBackupToRestore(result);
     } catch (err) {
       console.error('Import failed:', err);
       showAlert(_('Import failed. Please try again.'), 'error');
+    } finally {
       setIsImporting(false);
     }
   };
 
   return (
+    <>
     <Dialog
       id='storage_window'
       isOpen={isOpen}
@@ -189,15 +152,15 @@ export const StorageWindow = () => {
                   : _('Your data may be cleared if the browser runs low on storage. Consider exporting important work.')}
               </p>
               <button
-                onClick={handleExport}
-                disabled={isExporting || isImporting}
+                onClick={() => setShowExport(true)}
+                disabled={isImporting}
                 className='btn btn-primary btn-sm mt-4 w-full'
               >
-                {isExporting ? _('Exporting...') : _('Export All Data')}
+                {_('Export All Data')}
               </button>
               <button
                 onClick={handleImport}
-                disabled={isExporting || isImporting}
+                disabled={isImporting}
                 className='btn btn-outline btn-sm mt-2 w-full'
               >
                 {isImporting ? _('Importing...') : _('Import Data')}
@@ -209,5 +172,16 @@ export const StorageWindow = () => {
         </div>
       )}
     </Dialog>
+    <BackupExportModal
+      isOpen={showExport}
+      isDarkMode={isDarkMode}
+      onClose={() => setShowExport(false)}
+    />
+    <RestoreBackupModal
+      backup={backupToRestore}
+      isDarkMode={isDarkMode}
+      onClose={() => setBackupToRestore(null)}
+    />
+    </>
   );
 };
@@ -0,0 +1,317 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { exportAndDownload } from '@/services/dataExportService';
+import { importPassphrase } from '@/services/backupCrypto';
+import {
+  BACKUP_INTERVALS,
+  chooseBackupFolder,
+  isFolderBackupSupported,
+  loadBackupSchedule,
+  requestBackupFolderPermission,
+  runScheduledBackup,
+  saveBackupSchedule,
+  setSchedulePassphrase,
+  type BackupSchedule,
+} from '@/services/backupScheduler';
+import { showAlert } from '@/app/shared/alerts';
+
+// Shortest passphrase accepted for encrypted backups
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface BackupExportModalProps {
+  isOpen: boolean;
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+// Record export date for traffic light indicator (shared via localStorage across all tabs)
+function recordExportDate() {
+  localStorage.setItem('last_export_date', new Date().toISOString());
+  // Notify the current tab — native storage events only fire in *other* tabs
+  window.dispatchEvent(new StorageEvent('storage', { key: 'last_export_date' }));
+}
+
+function passphraseProblem(passphrase: string, confirmation: string): string | null {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  }
+  if (passphrase !== confirmation) {
+    return 'The passphrases do not match.';
+  }
+  return null;
+}
+
+const BackupExportModal: React.FC<BackupExportModalProps> = ({ isOpen, isDarkMode, onClose }) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [includeSecrets, setIncludeSecrets] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const [schedule, setSchedule] = useState<BackupSchedule>(loadBackupSchedule);
+  const [schedulePassphrase, setSchedulePassphraseText] = useState('');
+  const [scheduleConfirmation, setScheduleConfirmation] = useState('');
+  const [isBackingUp, setIsBackingUp] = useState(false);
+  const folderSupported = isFolderBackupSupported();
+
+  useEffect(() => {
+    if (!isOpen) {
+      setPassphrase('');
+      setConfirmation('');
+      setSchedulePassphraseText('');
+      setScheduleConfirmation('');
+      return;
+    }
+    setSchedule(loadBackupSchedule());
+  }, [isOpen]);
+
+  const updateSchedule = (changes: Partial<BackupSchedule>) => {
+    const next = { ...loadBackupSchedule(), ...changes };
+    saveBackupSchedule(next);
+    setSchedule(next);
+  };
+
+  const handleDownload = async () => {
+    if (encrypt) {
+      const problem = passphraseProblem(passphrase, confirmation);
+      if (problem) {
+        showAlert(problem, 'warning', 'Passphrase', isDarkMode);
+        return;
+      }
+    }
+
+    setIsExporting(true);
+    try {
+      const keyMaterial = encrypt ? await importPassphrase(passphrase) : null;
+      await exportAndDownload({ keyMaterial, includeSecrets });
+      recordExportDate();
+      showAlert(
+        encrypt
+          ? 'Your encrypted backup has been downloaded. Keep the passphrase safe: without it the backup cannot be restored.'
+          : 'Your backup has been downloaded.',
+        'success',
+        'Export Complete',
+        isDarkMode,
+      );
+      onClose();
+    } catch (err) {
+      console.error('Export failed:', err);
+      showAlert('Export failed. Please try again.', 'error', undefined, isDarkMode);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleChooseFolder = async () => {
+    const name = await chooseBackupFolder();
+    if (name) setSchedule(loadBackupSchedule());
+  };
+
+  const handleSavePassphrase = async () => {
+    const problem = passphraseProblem(schedulePassphrase, scheduleConfirmation);
+    if (problem) {
+      showAlert(problem, 'warning', 'Passphrase', isDarkMode);
+      return;
+    }
+    await setSchedulePassphrase(schedulePassphrase);
+    setSchedulePassphraseText('');
+    setScheduleConfirmation('');
+    setSchedule(loadBackupSchedule());
+  };
+
+  const handleStopEncrypting = async () => {
+    await setSchedulePassphrase(null);
+    setSchedule(loadBackupSchedule());
+  };
+
+  const handleBackupNow = async () => {
+    setIsBackingUp(true);
+    try {
+      // Clicking is the moment the browser lets us ask for folder access again
+      await requestBackupFolderPermission();
+      const result = await runScheduledBackup(true);
+      if (result === 'done') {
+        showAlert('Backup written to the folder.', 'success', 'Backup Complete', isDarkMode);
+      } else if (result === 'no-folder') {
+        showAlert('Choose a backup folder first.', 'warning', undefined, isDarkMode);
+      } else {
+        showAlert(loadBackupSchedule().lastError || 'Backup failed.', 'error', undefined, isDarkMode);
+      }
+    } finally {
+      setSchedule(loadBackupSchedule());
+      setIsBackingUp(false);
+    }
+  };
+
+  const handleAllowAccess = async () => {
+    if (await requestBackupFolderPermission()) {
+      updateSchedule({ lastError: undefined });
+      await runScheduledBackup();
+      setSchedule(loadBackupSchedule());
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const busy = isExporting || isBackingUp;
+  const toggle = (label: string, checked: boolean, onChange: (checked: boolean) => void, disabled = false) => (
+    <label className='flex items-center justify-between gap-2 text-sm'>
+      <span className={disabled ? 'text-base-content/40' : ''}>{label}</span>
+      <input
+        type='checkbox'
+        className='toggle toggle-sm'
+        disabled={disabled || busy}
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+      />
+    </label>
+  );
+  const passphraseInputs = (
+    value: string,
+    setValue: (value: string) => void,
+    confirm: string,
+    setConfirm: (value: string) => void,
+  ) => (
+    <div className='space-y-2'>
+      <input
+        type='password'
+        className='input input-bordered input-sm w-full'
+        placeholder='Passphrase'
+        autoComplete='new-password'
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <input
+        type='password'
+        className='input input-bordered input-sm w-full'
+        placeholder='Repeat passphrase'
+        autoComplete='new-password'
+        value={confirm}
+        onChange={(e) => setConfirm(e.target.value)}
+      />
+    </div>
+  );
+
+  return (
+    <div className='fixed inset-0 z-[1010] flex items-start justify-center overflow-y-auto bg-base-100'>
+      <div className='w-full max-w-md px-4 py-6'>
+        <div className='flex items-center justify-between mb-4'>
+          <h3 className='text-base-content font-semibold text-lg'>Back Up All Data</h3>
+          <button className='btn btn-ghost btn-sm' onClick={onClose} disabled={busy}>
+            Close
+          </button>
+        </div>
+
+        <div className='space-y-3'>
+          {toggle('Encrypt with a passphrase', encrypt, setEncrypt)}
+          {encrypt && (
+            <>
+              {passphraseInputs(passphrase, setPassphrase, confirmation, setConfirmation)}
+              <p className='text-base-content/60 text-xs'>
+                AES-256 encryption. There is no way to recover a forgotten passphrase.
+              </p>
+            </>
+          )}
+          {toggle('Include API keys and sync passwords', includeSecrets, setIncludeSecrets)}
+          <button className='btn btn-primary btn-sm w-full' onClick={handleDownload} disabled={busy}>
+            {isExporting ? 'Exporting...' : 'Download Backup'}
+          </button>
+        </div>
+
+        <div className='divider' />
+
+        <h4 className='text-base-content font-semibold mb-1'>Automatic backups</h4>
+        {!folderSupported ? (
+          <p className='text-base-content/60 text-sm'>
+            This browser cannot write to a folder. Automatic backups need a Chromium-based browser (Chrome, Edge, Brave).
+          </p>
+        ) : (
+          <div className='space-y-3'>
+            <p className='text-base-content/60 text-sm'>
+              Saved to a folder of your choice while the app is open.
+            </p>
+            <div className='flex items-center justify-between gap-2 text-sm'>
+              <span className='truncate'>{schedule.folderName ? `Folder: ${schedule.folderName}` : 'No folder chosen'}</span>
+              <button className='btn btn-outline btn-xs' onClick={handleChooseFolder} disabled={busy}>
+                {schedule.folderName ? 'Change' : 'Choose Folder'}
+              </button>
+            </div>
+            {toggle('Back up automatically', schedule.enabled, (enabled) => updateSchedule({ enabled }), !schedule.folderName)}
+            <label className='flex items-center justify-between gap-2 text-sm'>
+              <span>How often</span>
+              <select
+                className='select select-bordered select-xs w-40'
+                value={schedule.intervalHours}
+                onChange={(e) => updateSchedule({ intervalHours: Number(e.target.value) })}
+              >
+                {BACKUP_INTERVALS.map(interval => (
+                  <option key={interval.hours} value={interval.hours}>{interval.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className='flex items-center justify-between gap-2 text-sm'>
+              <span>Backups to keep</span>
+              <input
+                type='number'
+                className='input input-bordered input-xs w-20'
+                min={1}
+                max={99}
+                value={schedule.keepCount}
+                onChange={(e) => updateSchedule({ keepCount: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+            </label>
+            {toggle('Include API keys and sync passwords', schedule.includeSecrets, (value) => updateSchedule({ includeSecrets: value }))}
+
+            {schedule.encrypted ? (
+              <div className='flex items-center justify-between gap-2 text-sm'>
+                <span>Encrypted with a saved passphrase</span>
+                <button className='btn btn-ghost btn-xs' onClick={handleStopEncrypting} disabled={busy}>
+                  Stop encrypting
+                </button>
+              </div>
+            ) : (
+              <div className='space-y-2'>
+                <p className='text-sm'>Encrypt automatic backups</p>
+                {passphraseInputs(schedulePassphrase, setSchedulePassphraseText, scheduleConfirmation, setScheduleConfirmation)}
+                <button
+                  className='btn btn-outline btn-xs'
+                  onClick={handleSavePassphrase}
+                  disabled={busy || !schedulePassphrase}
+                >
+                  Save Passphrase
+                </button>
+                <p className='text-base-content/60 text-xs'>
+                  Only a derived key is kept in this browser, never the passphrase itself.
+                </p>
+              </div>
+            )}
+
+            <p className='text-base-content/60 text-xs'>
+              {schedule.lastBackupAt
+                ? `Last backup: ${new Date(schedule.lastBackupAt).toLocaleString()}`
+                : 'No automatic backup yet.'}
+            </p>
+            {schedule.lastError && (
+              <div className='flex items-center justify-between gap-2'>
+                <p className='text-warning text-xs'>{schedule.lastError}</p>
+                <button className='btn btn-outline btn-xs' onClick={handleAllowAccess} disabled={busy}>
+                  Allow Access
+                </button>
+              </div>
+            )}
+            <button
+              className='btn btn-outline btn-sm w-full'
+              onClick={handleBackupNow}
+              disabled={busy || !schedule.folderName}
+            >
+              {isBackingUp ? 'Backing up...' : 'Back Up to Folder Now'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupExportModal;
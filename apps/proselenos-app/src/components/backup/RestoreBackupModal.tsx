@@ -0,0 +1,250 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  isBackupEncrypted,
+  listBackupContents,
+  performImport,
+  performSelectiveImport,
+  unlockBackup,
+  type BackupContents,
+  type PickedBackup,
+  type RestoreSelection,
+} from '@/services/dataExportService';
+import { showAlert, showConfirm } from '@/app/shared/alerts';
+
+interface RestoreBackupModalProps {
+  backup: PickedBackup | null;  // null = closed
+  isDarkMode: boolean;
+  onClose: () => void;
+}
+
+type Phase = 'locked' | 'loading' | 'select' | 'restoring';
+
+const EMPTY_SELECTION: RestoreSelection = { books: [], notes: [], projects: [], settings: false };
+
+function toggleItem(list: string[], item: string, checked: boolean): string[] {
+  return checked ? [...list, item] : list.filter(i => i !== item);
+}
+
+const RestoreBackupModal: React.FC<RestoreBackupModalProps> = ({ backup, isDarkMode, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('loading');
+  const [passphrase, setPassphrase] = useState('');
+  const [unlockError, setUnlockError] = useState('');
+  const [unlocked, setUnlocked] = useState<PickedBackup | null>(null);
+  const [contents, setContents] = useState<BackupContents | null>(null);
+  const [selection, setSelection] = useState<RestoreSelection>(EMPTY_SELECTION);
+
+  const loadContents = useCallback(async (opened: PickedBackup) => {
+    setPhase('loading');
+    setUnlocked(opened);
+    const listed = await listBackupContents(opened);
+    setContents(listed);
+    setSelection({
+      books: listed.books.map(b => b.hash),
+      notes: [],
+      projects: listed.projects.map(p => p.id),
+      settings: true,
+    });
+    setPhase('select');
+  }, []);
+
+  useEffect(() => {
+    setPassphrase('');
+    setUnlockError('');
+    setUnlocked(null);
+    setContents(null);
+    setSelection(EMPTY_SELECTION);
+    if (!backup) return;
+    if (isBackupEncrypted(backup.manifest)) {
+      setPhase('locked');
+    } else {
+      loadContents(backup);
+    }
+  }, [backup, loadContents]);
+
+  const handleUnlock = async () => {
+    if (!backup) return;
+    setPhase('loading');
+    try {
+      await loadContents(await unlockBackup(backup, passphrase));
+    } catch (err) {
+      setUnlockError(err instanceof Error ? err.message : 'Could not unlock the backup.');
+      setPhase('locked');
+    }
+  };
+
+  const finish = (result: { success: boolean; error?: string }) => {
+    if (!result.success) {
+      showAlert(result.error || 'Import failed', 'error', undefined, isDarkMode);
+      setPhase('select');
+      return;
+    }
+    showAlert('Import complete! The page will refresh to load your restored data.', 'success', 'Success', isDarkMode);
+    setTimeout(() => window.location.reload(), 1500);
+  };
+
+  const handleRestoreSelected = async () => {
+    if (!unlocked) return;
+    setPhase('restoring');
+    finish(await performSelectiveImport(unlocked.zip, selection));
+  };
+
+  const handleReplaceAll = async () => {
+    if (!unlocked) return;
+    const confirmed = await showConfirm(
+      'This will replace ALL existing data with the backup. Make sure you have exported your current data if you want to keep it.',
+      isDarkMode,
+      'Import Backup?',
+      'Yes, Import',
+      'Cancel'
+    );
+    if (!confirmed) return;
+    setPhase('restoring');
+    finish(await performImport(unlocked.zip));
+  };
+
+  if (!backup) return null;
+
+  const nothingSelected = selection.books.length === 0 && selection.notes.length === 0 &&
+    selection.projects.length === 0 && !selection.settings;
+
+  return (
+    <div className='fixed inset-0 z-[1010] flex items-start justify-center overflow-y-auto bg-base-100'>
+      <div className='w-full max-w-md px-4 py-6'>
+        <div className='flex items-center justify-between mb-1'>
+          <h3 className='text-base-content font-semibold text-lg'>Restore Backup</h3>
+          <button className='btn btn-ghost btn-sm' onClick={onClose} disabled={phase === 'restoring'}>
+            Cancel
+          </button>
+        </div>
+        <p className='text-base-content/60 text-sm mb-4 truncate'>{backup.file.name}</p>
+
+        {phase === 'locked' && (
+          <form
+            className='space-y-3'
+            onSubmit={(e) => { e.preventDefault(); handleUnlock(); }}
+          >
+            <p className='text-sm'>This backup is encrypted. Enter its passphrase to continue.</p>
+            <input
+              type='password'
+              className='input input-bordered input-sm w-full'
+              placeholder='Passphrase'
+              autoComplete='current-password'
+              autoFocus
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {unlockError && <p className='text-error text-sm'>{unlockError}</p>}
+            <button type='submit' className='btn btn-primary btn-sm w-full' disabled={!passphrase}>
+              Unlock
+            </button>
+          </form>
+        )}
+
+        {(phase === 'loading' || phase === 'restoring') && (
+          <div className='flex items-center gap-2 text-sm text-base-content/60'>
+            <span className='loading loading-spinner loading-sm' />
+            {phase === 'loading' ? 'Reading backup...' : 'Restoring...'}
+          </div>
+        )}
+
+        {phase === 'select' && contents && (
+          <div className='space-y-4'>
+            <p className='text-base-content/60 text-xs'>
+              Made {new Date(contents.exportDate).toLocaleString()}.
+              {!contents.hasSecrets && ' API keys and sync passwords were left out; your current ones are kept.'}
+            </p>
+
+            <section>
+              <h4 className='font-semibold text-sm mb-2'>Library books ({contents.books.length})</h4>
+              {contents.books.length === 0 && <p className='text-base-content/60 text-sm'>None in this backup.</p>}
+              <ul className='space-y-2'>
+                {contents.books.map(book => {
+                  const wholeBook = selection.books.includes(book.hash);
+                  return (
+                    <li key={book.hash} className='flex items-center justify-between gap-2 text-sm'>
+                      <label className='flex min-w-0 items-center gap-2'>
+                        <input
+                          type='checkbox'
+                          className='checkbox checkbox-sm'
+                          checked={wholeBook}
+                          onChange={(e) => setSelection(prev => ({
+                            ...prev,
+                            books: toggleItem(prev.books, book.hash, e.target.checked),
+                            notes: prev.notes.filter(h => h !== book.hash),
+                          }))}
+                        />
+                        <span className='truncate'>{book.title}{book.author ? ` — ${book.author}` : ''}</span>
+                      </label>
+                      {book.noteCount > 0 && (
+                        <label className={`flex shrink-0 items-center gap-1 text-xs ${wholeBook ? 'text-base-content/40' : ''}`}>
+                          <input
+                            type='checkbox'
+                            className='checkbox checkbox-xs'
+                            disabled={wholeBook}
+                            checked={wholeBook || selection.notes.includes(book.hash)}
+                            onChange={(e) => setSelection(prev => ({
+                              ...prev,
+                              notes: toggleItem(prev.notes, book.hash, e.target.checked),
+                            }))}
+                          />
+                          {book.noteCount} notes only
+                        </label>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+
+            <section>
+              <h4 className='font-semibold text-sm mb-2'>Manuscripts ({contents.projects.length})</h4>
+              {contents.projects.length === 0 && <p className='text-base-content/60 text-sm'>None in this backup.</p>}
+              <ul className='space-y-2'>
+                {contents.projects.map(project => (
+                  <li key={project.id}>
+                    <label className='flex items-center gap-2 text-sm'>
+                      <input
+                        type='checkbox'
+                        className='checkbox checkbox-sm'
+                        checked={selection.projects.includes(project.id)}
+                        onChange={(e) => setSelection(prev => ({
+                          ...prev,
+                          projects: toggleItem(prev.projects, project.id, e.target.checked),
+                        }))}
+                      />
+                      <span className='truncate'>{project.name}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <label className='flex items-center gap-2 text-sm'>
+              <input
+                type='checkbox'
+                className='checkbox checkbox-sm'
+                checked={selection.settings}
+                onChange={(e) => setSelection(prev => ({ ...prev, settings: e.target.checked }))}
+              />
+              Settings, AI prompts, fonts and other app data
+            </label>
+
+            <p className='text-base-content/60 text-xs'>
+              Selected items replace their current versions. Everything else is left as it is.
+            </p>
+            <button className='btn btn-primary btn-sm w-full' onClick={handleRestoreSelected} disabled={nothingSelected}>
+              Restore Selected
+            </button>
+            <button className='btn btn-outline btn-sm w-full' onClick={handleReplaceAll}>
+              Replace Everything
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RestoreBackupModal;
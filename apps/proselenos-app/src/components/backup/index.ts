@@ -0,0 +1,2 @@
+export { default as BackupExportModal } from './BackupExportModal';
+export { default as RestoreBackupModal } from './RestoreBackupModal';
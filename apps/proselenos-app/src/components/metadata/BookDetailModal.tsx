@@ -18,7 +18,7 @@ import BookDetailView from './BookDetailView';
 import BookDetailEdit from './BookDetailEdit';
 import { XrayModal } from '@/components/xray';
 import { AudiobookModal } from '@/components/audiobook';
-import { PdfModal, Pdf5x8Modal, PdfSquareModal } from '@/components/pdf';
+import { PdfModal } from '@/components/pdf';
 import EbookPlusHelp from './EbookPlusHelp';
 import JSZip from 'jszip';
 import { stripEpubForBookseller } from '@/lib/bookseller-strip';
@@ -58,9 +58,7 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
   const [fileSize, setFileSize] = useState<number | null>(null);
   const [showXray, setShowXray] = useState(false);
   const [showAudiobook, setShowAudiobook] = useState(false);
-  const [showPdf5x8, setShowPdf5x8] = useState(false);
   const [showPdf, setShowPdf] = useState(false);
-  const [showPdfSquare, setShowPdfSquare] = useState(false);
   const [showHelp, setShowHelp] = useState(false);
   const { envConfig } = useEnv();
   const { settings } = useSettingsStore();
@@ -124,9 +122,7 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
     setActiveDeleteAction(null);
     setShowXray(false);
     setShowAudiobook(false);
-    setShowPdf5x8(false);
     setShowPdf(false);
-    setShowPdfSquare(false);
     setShowHelp(false);
     onClose();
   };
@@ -214,14 +210,6 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
     await downloadBookAsWebReady(book, envConfig, isDarkMode);
   };
 
-  const handlePdf5x8 = () => {
-    setShowPdf5x8(true);
-  };
-
-  const handleClosePdf5x8 = () => {
-    setShowPdf5x8(false);
-  };
-
   const handlePdf = () => {
     setShowPdf(true);
   };
@@ -230,13 +218,6 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
     setShowPdf(false);
   };
 
-  const handlePdfSquare = () => {
-    setShowPdfSquare(true);
-  };
-
-  const handleClosePdfSquare = () => {
-    setShowPdfSquare(false);
-  };
 
   const handleXray = () => {
     setShowXray(true);
@@ -311,9 +292,7 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
                 onDownloadLocal={book.hash === '__bookseller_temp__' ? undefined : handleDownloadLocal}
                 onDownloadBookseller={book.hash === '__bookseller_temp__' ? undefined : handleDownloadBookseller}
                 onDownloadWebReady={book.hash === '__bookseller_temp__' ? undefined : handleDownloadWebReady}
-                onDownloadPdf5x8={book.hash === '__bookseller_temp__' ? undefined : handlePdf5x8}
                 onDownloadPdf={book.hash === '__bookseller_temp__' ? undefined : handlePdf}
-                onDownloadPdfSquare={book.hash === '__bookseller_temp__' ? undefined : handlePdfSquare}
                 onXray={book.hash === '__bookseller_temp__' ? undefined : handleXray}
                 onAudiobook={book.hash === '__bookseller_temp__' ? undefined : handleAudiobook}
                 onReadEpub={onReadEpub ? handleReadEpub : undefined}
@@ -352,13 +331,6 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
         onClose={handleCloseAudiobook}
       />
 
-      <Pdf5x8Modal
-        book={book}
-        bookMeta={bookMeta}
-        isOpen={showPdf5x8}
-        onClose={handleClosePdf5x8}
-      />
-
       <PdfModal
         book={book}
         bookMeta={bookMeta}
@@ -366,13 +338,6 @@ const BookDetailModal: React.FC<BookDetailModalProps> = ({
         onClose={handleClosePdf}
       />
 
-      <PdfSquareModal
-        book={book}
-        bookMeta={bookMeta}
-        isOpen={showPdfSquare}
-        onClose={handleClosePdfSquare}
-      />
-
       <EbookPlusHelp
         isOpen={showHelp}
         onClose={() => setShowHelp(false)}
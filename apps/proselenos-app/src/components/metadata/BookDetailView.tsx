@@ -9,7 +9,6 @@ import {
   MdOutlineLanguage,
   MdOutlinePictureAsPdf,
   MdOutlineStorefront,
-  MdPictureAsPdf,
 } from 'react-icons/md';
 import { GiBoxUnpacking } from 'react-icons/gi';
 
@@ -37,9 +36,7 @@ interface BookDetailViewProps {
   onDownloadLocal?: () => void;
   onDownloadBookseller?: () => void;
   onDownloadWebReady?: () => void;
-  onDownloadPdf5x8?: () => void;
   onDownloadPdf?: () => void;
-  onDownloadPdfSquare?: () => void;
   onXray?: () => void;
   onAudiobook?: () => void;
   onReadEpub?: () => void;
@@ -57,9 +54,7 @@ const BookDetailView: React.FC<BookDetailViewProps> = ({
   onDownloadLocal,
   onDownloadBookseller,
   onDownloadWebReady,
-  onDownloadPdf5x8,
   onDownloadPdf,
-  onDownloadPdfSquare,
   onXray,
   onAudiobook,
   onHelp,
@@ -136,21 +131,11 @@ const BookDetailView: React.FC<BookDetailViewProps> = ({
                     <MdOutlineLanguage className='fill-base-content hover:fill-teal-500' />
                   </button>
                 )}
-                {onDownloadPdf5x8 && (
-                  <button onClick={onDownloadPdf5x8} title={_('Download 5x8 inch PDF (KDP)')}>
-                    <MdPictureAsPdf className='fill-base-content hover:fill-red-400' />
-                  </button>
-                )}
                 {onDownloadPdf && (
-                  <button onClick={onDownloadPdf} title={_('Download 6x9 inch PDF (KDP)')}>
+                  <button onClick={onDownloadPdf} title={_('Print-ready PDF (KDP, IngramSpark)')}>
                     <MdOutlinePictureAsPdf className='fill-base-content hover:fill-red-500' />
                   </button>
                 )}
-                {onDownloadPdfSquare && (
-                  <button onClick={onDownloadPdfSquare} title={_('Download 8.5x8.5 inch PDF (KDP square)')}>
-                    <MdPictureAsPdf className='fill-base-content hover:fill-red-700' />
-                  </button>
-                )}
                 {onAudiobook && (
                   <button onClick={onAudiobook} title={_('Audiobook: Build and play')}>
                     <MdOutlineHeadphones className='fill-base-content hover:fill-amber-500' />
@@ -7,7 +7,6 @@ import {
   MdOutlineLanguage,
   MdOutlinePictureAsPdf,
   MdOutlineStorefront,
-  MdPictureAsPdf,
 } from 'react-icons/md';
 import { GiBoxUnpacking } from 'react-icons/gi';
 
@@ -61,20 +60,10 @@ const bottomRowItems: HelpItem[] = [
     name: 'Download web ready (zip)',
     description: 'Download your book formatted for web reading, with Scenecraft styling and audio.',
   },
-  {
-    icon: <MdPictureAsPdf size={ICON_SIZE} className="fill-red-400" />,
-    name: 'Download 5x8 inch PDF (KDP)',
-    description: 'Generate a 5×8 inch print PDF for Amazon KDP. The most popular small paperback size.',
-  },
   {
     icon: <MdOutlinePictureAsPdf size={ICON_SIZE} className="fill-red-500" />,
-    name: 'Download 6x9 inch PDF (KDP)',
-    description: 'Generate a 6×9 inch print PDF for Amazon KDP. Uses embedded EB Garamond fonts.',
-  },
-  {
-    icon: <MdPictureAsPdf size={ICON_SIZE} className="fill-red-700" />,
-    name: 'Download 8.5x8.5 inch PDF (KDP square)',
-    description: 'Generate an 8.5×8.5 inch square print PDF for Amazon KDP. Suited for illustrated works and photo books.',
+    name: 'Print-ready PDF (KDP, IngramSpark)',
+    description: 'Generate a print PDF at any KDP or IngramSpark trim size, with a gutter that grows with page count, optional bleed, drop caps, scene-break ornaments and running headers. Picture-book layout for illustrated works.',
   },
   {
     icon: <MdOutlineHeadphones size={ICON_SIZE} className="fill-amber-500" />,
@@ -2,19 +2,119 @@
 
 import React, { useEffect, useState, useRef } from 'react';
 import JSZip from 'jszip';
-import { pdf } from 'book-pdf';
 import { Book } from '@/types/book';
 import { BookMetadata } from '@/libs/document';
 import { getLocalBookFilename } from '@/utils/book';
 import { useEnv } from '@/context/EnvContext';
+import { useCustomFontStore } from '@/store/customFontStore';
 import {
   getSpineItems,
   extractChapters,
   extractCopyrightHtml,
-  BookDocument,
-  resetElementKeyCounter,
+  renderCoverPdf,
+  renderPrintPdf,
   type PdfOptions,
 } from '@/lib/epub-to-pdf';
+import {
+  CUSTOM_TRIM_ID,
+  DEFAULT_PDF_PRINT_SETTINGS,
+  PICTURE_BOOK_PRINT_SETTINGS,
+  SCENE_BREAK_ORNAMENTS,
+  TRIM_SIZES,
+  getTrimSize,
+  normalizePdfPrintSettings,
+  withAvailableFonts,
+  type PdfPrintSettings,
+} from '@/lib/constants/printPdf';
+import {
+  formatMissingGlyph,
+  getMissingGlyphs,
+  getPdfFontFamilies,
+  registerPdfFonts,
+  type PdfFontFamily,
+} from '@/lib/pdfFonts';
+import { COVER_DPI, PAPER_TYPES, getCoverLayout, getPaperType } from '@/lib/constants/printCover';
+import { makeWraparoundCoverSvg, svgToJpegBlob } from '@/lib/makeCoverSvg';
+import { loadCoverSettings, loadSettings as loadManuscriptSettings } from '@/services/manuscriptStorage';
+import type { MissingGlyph } from 'book-pdf';
+
+// Last used print settings, shared by all books
+const SETTINGS_STORAGE_KEY = 'pdfPrintSettings';
+
+function loadPrintSettings(): PdfPrintSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return normalizePdfPrintSettings(saved ? JSON.parse(saved) : null);
+  } catch {
+    return { ...DEFAULT_PDF_PRINT_SETTINGS };
+  }
+}
+
+// Text and colors for the wraparound cover's back and spine, per book
+interface CoverContent {
+  blurb: string;
+  bio: string;
+  bgColor: string;
+  fontColor: string;
+}
+
+const DEFAULT_COVER_CONTENT: CoverContent = {
+  blurb: '',
+  bio: '',
+  bgColor: '#3366AA',
+  fontColor: '#FFFFFF',
+};
+
+// Book descriptions are often HTML; the blurb keeps their paragraphs
+function descriptionToText(description?: string): string {
+  if (!description) return '';
+  const doc = new DOMParser().parseFromString(description, 'text/html');
+  const paragraphs = Array.from(doc.querySelectorAll('p'))
+    .map(p => p.textContent?.trim() ?? '')
+    .filter(Boolean);
+  return paragraphs.length > 0 ? paragraphs.join('\n\n') : (doc.body.textContent ?? '').trim();
+}
+
+/**
+ * Blurb from the book's description; bio and colors from the Authors
+ * workspace when its manuscript is this book (bio: by this author)
+ */
+async function loadCoverContent(book: Book, bookMeta: BookMetadata | null): Promise<CoverContent> {
+  const content = { ...DEFAULT_COVER_CONTENT, blurb: descriptionToText(bookMeta?.description) };
+  try {
+    const manuscript = await loadManuscriptSettings();
+    if (manuscript && manuscript.author.trim() === (book.author || '').trim()) {
+      content.bio = manuscript.aboutAuthor || '';
+    }
+    const cover = await loadCoverSettings();
+    if (manuscript && cover && manuscript.title.trim() === (book.title || '').trim()) {
+      content.bgColor = cover.bgColor;
+      content.fontColor = cover.fontColor;
+    }
+  } catch (err) {
+    console.warn('Could not read the Authors workspace settings:', err);
+  }
+  return content;
+}
+
+async function urlToDataUrl(url: string): Promise<string> {
+  const blob = await fetch(url).then(r => r.blob());
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
 
 interface PdfModalProps {
   book: Book;
@@ -23,7 +123,7 @@ interface PdfModalProps {
   onClose: () => void;
 }
 
-type Phase = 'loading' | 'done' | 'error';
+type Phase = 'settings' | 'loading' | 'done' | 'error';
 
 interface Progress {
   message: string;
@@ -32,100 +132,188 @@ interface Progress {
 
 const PdfModal: React.FC<PdfModalProps> = ({ book, bookMeta, isOpen, onClose }) => {
   const { envConfig } = useEnv();
-  const [phase, setPhase] = useState<Phase>('loading');
+  const [phase, setPhase] = useState<Phase>('settings');
+  const [settings, setSettings] = useState<PdfPrintSettings>(DEFAULT_PDF_PRINT_SETTINGS);
   const [progress, setProgress] = useState<Progress>({ message: 'Preparing...', percent: 0 });
   const [error, setError] = useState<string>('');
+  const [fontFamilies, setFontFamilies] = useState<PdfFontFamily[]>([]);
+  const [missingGlyphs, setMissingGlyphs] = useState<MissingGlyph[]>([]);
+  const [coverContent, setCoverContent] = useState<CoverContent>(DEFAULT_COVER_CONTENT);
   const cancelledRef = useRef(false);
   const onCloseRef = useRef(onClose);
   onCloseRef.current = onClose;
 
   useEffect(() => {
     if (!isOpen) {
-      setPhase('loading');
+      setPhase('settings');
       setProgress({ message: 'Preparing...', percent: 0 });
       setError('');
-      cancelledRef.current = false;
+      setMissingGlyphs([]);
+      cancelledRef.current = true;
       return;
     }
+    setSettings(loadPrintSettings());
 
-    cancelledRef.current = false;
+    // Custom fonts uploaded in the reader can be embedded in the PDF
+    const fontStore = useCustomFontStore.getState();
+    fontStore.loadCustomFonts(envConfig).then(() => {
+      setFontFamilies(getPdfFontFamilies(useCustomFontStore.getState().getLoadedFonts()));
+    });
+  }, [isOpen, envConfig]);
+
+  // Filled in once per opening, so edits survive the parent re-rendering
+  useEffect(() => {
+    if (isOpen) loadCoverContent(book, bookMeta).then(setCoverContent);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
 
-    const run = async () => {
+  const updateSettings = (changes: Partial<PdfPrintSettings>) => {
+    setSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleLayoutChange = (layout: PdfPrintSettings['layout']) => {
+    updateSettings(layout === 'picture-book'
+      ? PICTURE_BOOK_PRINT_SETTINGS
+      : {
+          layout,
+          trimSize: DEFAULT_PDF_PRINT_SETTINGS.trimSize,
+          fontSize: DEFAULT_PDF_PRINT_SETTINGS.fontSize,
+          marginTop: DEFAULT_PDF_PRINT_SETTINGS.marginTop,
+          marginBottom: DEFAULT_PDF_PRINT_SETTINGS.marginBottom,
+          marginOutside: DEFAULT_PDF_PRINT_SETTINGS.marginOutside,
+          marginInside: DEFAULT_PDF_PRINT_SETTINGS.marginInside,
+          autoGutter: DEFAULT_PDF_PRINT_SETTINGS.autoGutter,
+          dropCaps: DEFAULT_PDF_PRINT_SETTINGS.dropCaps,
+        });
+  };
+
+  const updateCoverContent = (changes: Partial<CoverContent>) => {
+    setCoverContent(prev => ({ ...prev, ...changes }));
+  };
+
+  // The ebook cover becomes the front panel; without one the title box is drawn
+  const buildCoverPdf = async (pageCount: number, options: PdfOptions) => {
+    const layout = getCoverLayout(getTrimSize(settings), pageCount, getPaperType(settings.paperType));
+    let frontImageDataUrl: string | undefined;
+    if (book.coverImageUrl) {
       try {
-        setPhase('loading');
-        setProgress({ message: 'Loading epub...', percent: 2 });
+        frontImageDataUrl = await urlToDataUrl(book.coverImageUrl);
+      } catch (err) {
+        console.warn('Cover image unavailable, drawing a title box instead:', err);
+      }
+    }
+    const svg = await makeWraparoundCoverSvg({
+      title: options.title,
+      author: options.author,
+      blurb: coverContent.blurb,
+      bio: coverContent.bio,
+      layout,
+      bg: coverContent.bgColor,
+      fontColor: coverContent.fontColor,
+      frontImageDataUrl,
+      guides: settings.coverGuides,
+    });
+    const jpeg = await svgToJpegBlob(
+      svg,
+      Math.round(layout.width * COVER_DPI),
+      Math.round(layout.height * COVER_DPI),
+    );
+    return renderCoverPdf(jpeg, layout, options);
+  };
 
-        const appService = await envConfig.getAppService();
-        const epubFilename = getLocalBookFilename(book);
-        const epubFile = await appService.openFile(epubFilename, 'Books');
-        const arrayBuffer = await epubFile.arrayBuffer();
+  const handleBuild = async () => {
+    cancelledRef.current = false;
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
 
-        if (cancelledRef.current) return;
+    try {
+      setPhase('loading');
+      setProgress({ message: 'Loading epub...', percent: 2 });
 
-        setProgress({ message: 'Parsing epub...', percent: 10 });
-        const zip = await JSZip.loadAsync(arrayBuffer);
+      const appService = await envConfig.getAppService();
+      const epubFilename = getLocalBookFilename(book);
+      const epubFile = await appService.openFile(epubFilename, 'Books');
+      const arrayBuffer = await epubFile.arrayBuffer();
 
-        if (cancelledRef.current) return;
+      if (cancelledRef.current) return;
 
-        setProgress({ message: 'Reading spine order...', percent: 20 });
-        const spinePaths = await getSpineItems(zip);
+      setProgress({ message: 'Parsing epub...', percent: 10 });
+      const zip = await JSZip.loadAsync(arrayBuffer);
 
-        if (cancelledRef.current) return;
+      if (cancelledRef.current) return;
 
-        setProgress({ message: 'Extracting chapters...', percent: 30 });
-        const chapters = await extractChapters(zip, spinePaths);
+      setProgress({ message: 'Reading spine order...', percent: 20 });
+      const spinePaths = await getSpineItems(zip);
 
-        if (chapters.length === 0) {
-          throw new Error('No chapter content found in epub');
-        }
+      if (cancelledRef.current) return;
 
-        if (cancelledRef.current) return;
+      setProgress({ message: 'Extracting chapters...', percent: 30 });
+      const chapters = await extractChapters(zip, spinePaths);
 
-        setProgress({ message: 'Extracting copyright...', percent: 40 });
-        const copyrightHtml = await extractCopyrightHtml(zip, spinePaths);
+      if (chapters.length === 0) {
+        throw new Error('No chapter content found in epub');
+      }
 
-        if (cancelledRef.current) return;
+      if (cancelledRef.current) return;
 
-        setProgress({ message: 'Laying out pages...', percent: 50 });
+      setProgress({ message: 'Extracting copyright...', percent: 40 });
+      const copyrightHtml = await extractCopyrightHtml(zip, spinePaths);
 
-        resetElementKeyCounter();
-        const options: PdfOptions = {
-          title: book.title || 'Untitled',
-          author: book.author || 'Unknown',
-          publisher: bookMeta?.publisher || undefined,
-          copyrightHtml: copyrightHtml ?? undefined,
-        };
+      if (cancelledRef.current) return;
 
-        const blob = await pdf(<BookDocument chapters={chapters} options={options} />).toBlob();
+      setProgress({ message: 'Laying out pages...', percent: 50 });
 
-        if (cancelledRef.current) return;
+      const options: PdfOptions = {
+        title: book.title || 'Untitled',
+        author: book.author || 'Unknown',
+        publisher: bookMeta?.publisher || undefined,
+        copyrightHtml: copyrightHtml ?? undefined,
+      };
 
-        setProgress({ message: 'Opening PDF...', percent: 95 });
-        const url = URL.createObjectURL(blob);
-        window.open(url, '_blank');
+      const families = registerPdfFonts(useCustomFontStore.getState().getLoadedFonts());
+      const printSettings = withAvailableFonts(settings, families);
 
-        setPhase('done');
+      const { blob, pageCount } = await renderPrintPdf(chapters, options, printSettings, (pageCount) => {
+        setProgress({ message: `Widening gutter for ${pageCount} pages...`, percent: 75 });
+      });
 
-        // Auto-close after a brief delay
-        setTimeout(() => {
-          if (!cancelledRef.current) {
-            onCloseRef.current();
-          }
-        }, 800);
-      } catch (err) {
+      if (cancelledRef.current) return;
+
+      let coverBlob: Blob | null = null;
+      if (settings.cover) {
+        setProgress({ message: `Drawing cover for ${pageCount} pages...`, percent: 85 });
+        coverBlob = await buildCoverPdf(pageCount, options);
         if (cancelledRef.current) return;
-        console.error('PDF generation failed:', err);
-        setError(err instanceof Error ? err.message : 'PDF generation failed');
-        setPhase('error');
       }
-    };
 
-    run();
+      setProgress({ message: 'Opening PDF...', percent: 95 });
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      if (coverBlob) {
+        downloadBlob(coverBlob, `${options.title.replace(/\s+/g, '_')}_cover.pdf`);
+      }
+
+      setPhase('done');
 
-    return () => {
-      cancelledRef.current = true;
-    };
-  }, [isOpen, book, envConfig]);
+      // Characters no font could draw: keep the dialog open to list them
+      const missing = getMissingGlyphs();
+      if (missing.length > 0) {
+        setMissingGlyphs(missing);
+        return;
+      }
+
+      // Auto-close after a brief delay
+      setTimeout(() => {
+        if (!cancelledRef.current) {
+          onCloseRef.current();
+        }
+      }, 800);
+    } catch (err) {
+      if (cancelledRef.current) return;
+      console.error('PDF generation failed:', err);
+      setError(err instanceof Error ? err.message : 'PDF generation failed');
+      setPhase('error');
+    }
+  };
 
   // Escape key
   useEffect(() => {
@@ -133,6 +321,7 @@ const PdfModal: React.FC<PdfModalProps> = ({ book, bookMeta, isOpen, onClose })
 
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
+        cancelledRef.current = true;
         onCloseRef.current();
       }
     };
@@ -157,9 +346,259 @@ const PdfModal: React.FC<PdfModalProps> = ({ book, bookMeta, isOpen, onClose })
           </div>
           <p className='text-error font-semibold mb-2'>PDF Generation Failed</p>
           <p className='text-base-content/60 text-sm mb-4'>{error}</p>
-          <button className='btn btn-ghost btn-sm' onClick={onClose}>
-            Close
-          </button>
+          <div className='flex justify-center gap-2'>
+            <button className='btn btn-ghost btn-sm' onClick={() => setPhase('settings')}>
+              Back
+            </button>
+            <button className='btn btn-ghost btn-sm' onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Done, with characters that printed as blank boxes
+  if (phase === 'done' && missingGlyphs.length > 0) {
+    return (
+      <div className='fixed inset-0 z-[60] flex items-center justify-center bg-base-100'>
+        <div className='text-center max-w-sm px-4'>
+          <p className='text-warning font-semibold mb-2'>PDF built with missing characters</p>
+          <p className='text-base-content/60 text-sm mb-3'>
+            No font in the chain has these characters, so they print as empty boxes.
+            Choose a fallback font that covers them, or change the text.
+          </p>
+          <ul className='text-base-content/80 text-sm font-mono mb-4 max-h-48 overflow-y-auto'>
+            {missingGlyphs.map(glyph => (
+              <li key={glyph.codePoint}>
+                {formatMissingGlyph(glyph)} — {glyph.fontFamilies.join(', ')}
+              </li>
+            ))}
+          </ul>
+          <div className='flex justify-center gap-2'>
+            <button className='btn btn-ghost btn-sm' onClick={() => { setMissingGlyphs([]); setPhase('settings'); }}>
+              Back
+            </button>
+            <button className='btn btn-ghost btn-sm' onClick={onClose}>
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Settings form
+  if (phase === 'settings') {
+    const isPictureBook = settings.layout === 'picture-book';
+    const numberInput = (key: keyof PdfPrintSettings, label: string, step = 0.125) => (
+      <label className='flex items-center justify-between gap-2 text-sm'>
+        <span>{label}</span>
+        <input
+          type='number'
+          className='input input-bordered input-xs w-20'
+          step={step}
+          min={0}
+          value={settings[key] as number}
+          onChange={(e) => updateSettings({ [key]: parseFloat(e.target.value) || 0 })}
+        />
+      </label>
+    );
+    const toggle = (key: keyof PdfPrintSettings, label: string, disabled = false) => (
+      <label className='flex items-center justify-between gap-2 text-sm'>
+        <span className={disabled ? 'text-base-content/40' : ''}>{label}</span>
+        <input
+          type='checkbox'
+          className='toggle toggle-sm'
+          disabled={disabled}
+          checked={settings[key] as boolean}
+          onChange={(e) => updateSettings({ [key]: e.target.checked })}
+        />
+      </label>
+    );
+
+    const fontSelect = (key: 'bodyFont' | 'headingFont' | 'fallbackFont', label: string, emptyLabel: string) => (
+      <label className='flex items-center justify-between gap-2 text-sm'>
+        <span>{label}</span>
+        <select
+          className='select select-bordered select-xs w-56'
+          value={settings[key]}
+          onChange={(e) => updateSettings({ [key]: e.target.value })}
+        >
+          <option value=''>{emptyLabel}</option>
+          {fontFamilies.map(f => (
+            <option key={f.family} value={f.family}>{f.family} ({f.faces.join(', ')})</option>
+          ))}
+        </select>
+      </label>
+    );
+
+    return (
+      <div className='fixed inset-0 z-[60] flex items-center justify-center overflow-y-auto bg-base-100'>
+        <div className='w-full max-w-md px-4 py-6'>
+          <h3 className='text-base-content font-semibold text-lg mb-1'>Print-ready PDF</h3>
+          <p className='text-base-content/60 text-sm mb-4'>For KDP and IngramSpark paperbacks and hardcovers.</p>
+
+          <div className='space-y-3'>
+            <label className='flex items-center justify-between gap-2 text-sm'>
+              <span>Layout</span>
+              <select
+                className='select select-bordered select-xs w-56'
+                value={settings.layout}
+                onChange={(e) => handleLayoutChange(e.target.value as PdfPrintSettings['layout'])}
+              >
+                <option value='novel'>Novel (running text)</option>
+                <option value='picture-book'>Picture book (image spreads)</option>
+              </select>
+            </label>
+
+            <label className='flex items-center justify-between gap-2 text-sm'>
+              <span>Trim size</span>
+              <select
+                className='select select-bordered select-xs w-56'
+                value={settings.trimSize}
+                onChange={(e) => updateSettings({ trimSize: e.target.value })}
+              >
+                {TRIM_SIZES.map(t => (
+                  <option key={t.id} value={t.id}>{t.label}</option>
+                ))}
+                <option value={CUSTOM_TRIM_ID}>Custom...</option>
+              </select>
+            </label>
+            {settings.trimSize === CUSTOM_TRIM_ID && (
+              <div className='grid grid-cols-2 gap-x-4 gap-y-2'>
+                {numberInput('customWidth', 'Width (in)', 0.01)}
+                {numberInput('customHeight', 'Height (in)', 0.01)}
+              </div>
+            )}
+
+            {numberInput('fontSize', 'Font size (pt)', 0.5)}
+            {fontSelect('bodyFont', 'Body font', 'EB Garamond (built in)')}
+            {fontSelect('headingFont', 'Heading font', 'Same as body')}
+            {fontSelect('fallbackFont', 'Fallback font', 'None (EB Garamond)')}
+            {fontFamilies.length === 0 && (
+              <p className='text-base-content/60 text-xs'>Add your own TTF, OTF or WOFF fonts in the reader&apos;s font settings (Manage Custom Fonts).</p>
+            )}
+
+            <div className='text-sm font-medium pt-2'>Margins (inches)</div>
+            <div className='grid grid-cols-2 gap-x-4 gap-y-2'>
+              {numberInput('marginTop', 'Top')}
+              {numberInput('marginBottom', 'Bottom')}
+              {numberInput('marginInside', 'Inside')}
+              {numberInput('marginOutside', 'Outside')}
+            </div>
+            {toggle('autoGutter', 'Add gutter for page count (KDP table)')}
+            {toggle('bleed', 'Bleed (0.125 in)')}
+
+            {!isPictureBook && (
+              <>
+                <div className='text-sm font-medium pt-2'>Typography</div>
+                {toggle('chapterStartRecto', 'Start chapters on a right-hand page')}
+                {toggle('dropCaps', 'Drop caps')}
+                {toggle('includeToc', 'Table of contents')}
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  <span>Scene break</span>
+                  <select
+                    className='select select-bordered select-xs w-56'
+                    value={settings.sceneBreak}
+                    onChange={(e) => updateSettings({ sceneBreak: e.target.value })}
+                  >
+                    {SCENE_BREAK_ORNAMENTS.map(o => (
+                      <option key={o.id} value={o.id}>{o.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                <div className='text-sm font-medium pt-2'>Running headers</div>
+                <p className='text-base-content/60 text-xs'>{'{title}'}, {'{author}'}, {'{chapter}'} and {'{page}'} are filled in; leave empty for none.</p>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  <span>Left pages</span>
+                  <input
+                    type='text'
+                    className='input input-bordered input-xs w-56'
+                    value={settings.headerVerso}
+                    onChange={(e) => updateSettings({ headerVerso: e.target.value })}
+                  />
+                </label>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  <span>Right pages</span>
+                  <input
+                    type='text'
+                    className='input input-bordered input-xs w-56'
+                    value={settings.headerRecto}
+                    onChange={(e) => updateSettings({ headerRecto: e.target.value })}
+                  />
+                </label>
+              </>
+            )}
+
+            <div className='text-sm font-medium pt-2'>Paperback cover</div>
+            {toggle('cover', 'Build a wraparound cover too')}
+            {settings.cover && (
+              <>
+                <label className='flex items-center justify-between gap-2 text-sm'>
+                  <span>Paper</span>
+                  <select
+                    className='select select-bordered select-xs w-56'
+                    value={settings.paperType}
+                    onChange={(e) => updateSettings({ paperType: e.target.value })}
+                  >
+                    {PAPER_TYPES.map(p => (
+                      <option key={p.id} value={p.id}>{p.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <p className='text-base-content/60 text-xs'>The spine is sized from the laid-out page count. The ebook cover is used as the front.</p>
+                <label className='flex flex-col gap-1 text-sm'>
+                  <span>Back cover blurb</span>
+                  <textarea
+                    className='textarea textarea-bordered textarea-xs h-24'
+                    value={coverContent.blurb}
+                    onChange={(e) => updateCoverContent({ blurb: e.target.value })}
+                  />
+                </label>
+                <label className='flex flex-col gap-1 text-sm'>
+                  <span>About the author</span>
+                  <textarea
+                    className='textarea textarea-bordered textarea-xs h-16'
+                    value={coverContent.bio}
+                    onChange={(e) => updateCoverContent({ bio: e.target.value })}
+                  />
+                </label>
+                <div className='grid grid-cols-2 gap-x-4 gap-y-2'>
+                  <label className='flex items-center justify-between gap-2 text-sm'>
+                    <span>Background</span>
+                    <input
+                      type='color'
+                      className='h-6 w-10 cursor-pointer'
+                      value={coverContent.bgColor}
+                      onChange={(e) => updateCoverContent({ bgColor: e.target.value })}
+                    />
+                  </label>
+                  <label className='flex items-center justify-between gap-2 text-sm'>
+                    <span>Text</span>
+                    <input
+                      type='color'
+                      className='h-6 w-10 cursor-pointer'
+                      value={coverContent.fontColor}
+                      onChange={(e) => updateCoverContent({ fontColor: e.target.value })}
+                    />
+                  </label>
+                </div>
+                {toggle('coverGuides', 'Show trim, spine and barcode guides (proofs only)')}
+              </>
+            )}
+          </div>
+
+          <div className='flex justify-end gap-2 mt-6'>
+            <button className='btn btn-ghost btn-sm' onClick={onClose}>
+              Cancel
+            </button>
+            <button className='btn btn-primary btn-sm' onClick={handleBuild}>
+              Build PDF
+            </button>
+          </div>
         </div>
       </div>
     );
@@ -1,3 +1 @@
 export { default as PdfModal } from './PdfModal';
-export { default as Pdf5x8Modal } from './Pdf5x8Modal';
-export { default as PdfSquareModal } from './PdfSquareModal';
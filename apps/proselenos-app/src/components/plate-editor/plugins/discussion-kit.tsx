@@ -13,116 +13,19 @@ export type TDiscussion = {
   documentContent?: string;
 };
 
-const discussionsData: TDiscussion[] = [
-  {
-    id: 'discussion1',
-    comments: [
-      {
-        id: 'comment1',
-        contentRich: [
-          {
-            children: [
-              {
-                text: 'Comments are a great way to provide feedback and discuss changes.',
-              },
-            ],
-            type: 'p',
-          },
-        ],
-        createdAt: new Date(Date.now() - 600_000),
-        discussionId: 'discussion1',
-        isEdited: false,
-        userId: 'charlie',
-      },
-      {
-        id: 'comment2',
-        contentRich: [
-          {
-            children: [
-              {
-                text: 'Agreed! The link to the docs makes it easy to learn more.',
-              },
-            ],
-            type: 'p',
-          },
-        ],
-        createdAt: new Date(Date.now() - 500_000),
-        discussionId: 'discussion1',
-        isEdited: false,
-        userId: 'bob',
-      },
-    ],
-    createdAt: new Date(),
-    documentContent: 'comments',
-    isResolved: false,
-    userId: 'charlie',
-  },
-  {
-    id: 'discussion2',
-    comments: [
-      {
-        id: 'comment1',
-        contentRich: [
-          {
-            children: [
-              {
-                text: 'Nice demonstration of overlapping annotations with both comments and suggestions!',
-              },
-            ],
-            type: 'p',
-          },
-        ],
-        createdAt: new Date(Date.now() - 300_000),
-        discussionId: 'discussion2',
-        isEdited: false,
-        userId: 'bob',
-      },
-      {
-        id: 'comment2',
-        contentRich: [
-          {
-            children: [
-              {
-                text: 'This helps users understand how powerful the editor can be.',
-              },
-            ],
-            type: 'p',
-          },
-        ],
-        createdAt: new Date(Date.now() - 200_000),
-        discussionId: 'discussion2',
-        isEdited: false,
-        userId: 'charlie',
-      },
-    ],
-    createdAt: new Date(),
-    documentContent: 'overlapping',
-    isResolved: false,
-    userId: 'bob',
-  },
-];
+export type TDiscussionUser = { id: string; avatarUrl?: string; name: string; hue?: number };
 
-const avatarUrl = (seed: string) =>
-  `https://api.dicebear.com/9.x/glass/svg?seed=${seed}`;
+// Comments and suggestions made in this browser are attributed to the author.
+// Threads are loaded per section from manuscriptStorage (see AuthorsLayout).
+export const LOCAL_USER_ID = 'author';
 
-const usersData: Record<
-  string,
-  { id: string; avatarUrl: string; name: string; hue?: number }
-> = {
-  alice: {
-    id: 'alice',
-    avatarUrl: avatarUrl('alice6'),
-    name: 'Alice',
-  },
-  bob: {
-    id: 'bob',
-    avatarUrl: avatarUrl('bob4'),
-    name: 'Bob',
-  },
-  charlie: {
-    id: 'charlie',
-    avatarUrl: avatarUrl('charlie2'),
-    name: 'Charlie',
+// Imported beta-reader feedback is attributed to "reader:<name>"
+export const READER_USER_PREFIX = 'reader:';
+
+const usersData: Record<string, TDiscussionUser> = {
+  [LOCAL_USER_ID]: {
+    id: LOCAL_USER_ID,
+    name: 'Author',
   },
 };
 
@@ -130,8 +33,8 @@ const usersData: Record<
 export const discussionPlugin = createPlatePlugin({
   key: 'discussion',
   options: {
-    currentUserId: 'alice',
-    discussions: discussionsData,
+    currentUserId: LOCAL_USER_ID,
+    discussions: [] as TDiscussion[],
     users: usersData,
   },
 })
@@ -140,7 +43,9 @@ export const discussionPlugin = createPlatePlugin({
   })
   .extendSelectors(({ getOption }) => ({
     currentUser: () => getOption('users')[getOption('currentUserId')],
-    user: (id: string) => getOption('users')[id],
+    user: (id: string): TDiscussionUser | undefined =>
+      getOption('users')[id] ??
+      (id.startsWith(READER_USER_PREFIX) ? { id, name: id.slice(READER_USER_PREFIX.length) } : undefined),
   }));
 
 export const DiscussionKit = [discussionPlugin];
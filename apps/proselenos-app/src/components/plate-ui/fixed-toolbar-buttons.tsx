@@ -10,6 +10,7 @@ import { useEditorReadOnly } from 'platejs/react';
 
 import { UndoToolbarButton, RedoToolbarButton } from './history-toolbar-button';
 import { AlignToolbarButton } from './align-toolbar-button';
+import { CommentToolbarButton } from './comment-toolbar-button';
 import { FontSizeToolbarButton } from './font-size-toolbar-button';
 import { ImportToolbarButton } from './import-toolbar-button';
 import { EmojiToolbarButton } from './emoji-toolbar-button';
@@ -23,6 +24,7 @@ import { ListToolbarButton } from './list-toolbar-button';
 import { MarkToolbarButton } from './mark-toolbar-button';
 import { MediaToolbarButton } from './media-toolbar-button';
 import { MoreToolbarButton } from './more-toolbar-button';
+import { SuggestionToolbarButton } from './suggestion-toolbar-button';
 import { ToolbarGroup } from './toolbar';
 import { TurnIntoToolbarButton } from './turn-into-toolbar-button';
 
@@ -67,6 +69,11 @@ export function FixedToolbarButtons() {
             <EmojiToolbarButton />
           </ToolbarGroup>
 
+          <ToolbarGroup key="review">
+            <CommentToolbarButton />
+            <SuggestionToolbarButton />
+          </ToolbarGroup>
+
           <ToolbarGroup key="more">
             <MoreToolbarButton />
             <ImportToolbarButton />
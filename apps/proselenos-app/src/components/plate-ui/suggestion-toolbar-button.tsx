@@ -0,0 +1,24 @@
+'use client';
+
+import { PencilLineIcon } from 'lucide-react';
+import { useEditorPlugin, usePluginOption } from 'platejs/react';
+
+import { suggestionPlugin } from '@/components/plate-editor/plugins/suggestion-kit';
+
+import { ToolbarButton } from './toolbar';
+
+export function SuggestionToolbarButton() {
+  const { setOption } = useEditorPlugin(suggestionPlugin);
+  const isSuggesting = usePluginOption(suggestionPlugin, 'isSuggesting');
+
+  return (
+    <ToolbarButton
+      className={isSuggesting ? 'text-brand/80 hover:text-brand/80' : undefined}
+      onClick={() => setOption('isSuggesting', !isSuggesting)}
+      onMouseDown={(e) => e.preventDefault()}
+      tooltip={isSuggesting ? 'Turn off suggesting' : 'Suggestion edits'}
+    >
+      <PencilLineIcon />
+    </ToolbarButton>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { MdAdd, MdArrowDownward, MdArrowUpward } from 'react-icons/md';
+import { RiDeleteBinLine } from 'react-icons/ri';
+import { useEnv } from '@/context/EnvContext';
+import { useTranslation } from '@/hooks/useTranslation';
+import { useSettingsStore } from '@/store/settingsStore';
+import { useFileSelector } from '@/hooks/useFileSelector';
+import { saveSysSettings } from '@/helpers/settings';
+import { deleteDictionary, importDictionaries } from '@/services/dictionaryService';
+import { ImportedDictionary } from '@/types/dictionary';
+import { eventDispatcher } from '@/utils/event';
+import { SettingsPanelPanelProp } from './SettingsDialog';
+
+const DictionaryPanel: React.FC<SettingsPanelPanelProp> = ({ onRegisterReset }) => {
+  const _ = useTranslation();
+  const { appService, envConfig } = useEnv();
+  const { settings } = useSettingsStore();
+  const { selectFiles } = useFileSelector(appService, _);
+  const [dictionaries, setDictionaries] = useState<ImportedDictionary[]>(settings.dictionaries ?? []);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const updateDictionaries = (newDictionaries: ImportedDictionary[]) => {
+    setDictionaries(newDictionaries);
+    saveSysSettings(envConfig, 'dictionaries', newDictionaries);
+  };
+
+  // Enable everything again, in the order the dictionaries were imported
+  const handleReset = () => {
+    const { dictionaries = [] } = useSettingsStore.getState().settings;
+    updateDictionaries(
+      [...dictionaries]
+        .sort((a, b) => a.addedAt - b.addedAt)
+        .map((dictionary) => ({ ...dictionary, enabled: true })),
+    );
+  };
+
+  useEffect(() => {
+    onRegisterReset(handleReset);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleImport = () => {
+    selectFiles({ type: 'dictionaries', multiple: true }).then(async (result) => {
+      if (!appService || result.error || result.files.length === 0) return;
+      const files = result.files.map((selected) => selected.file).filter((file) => !!file);
+      setIsImporting(true);
+      try {
+        const imported = await importDictionaries(appService, files);
+        updateDictionaries([...dictionaries, ...imported]);
+        eventDispatcher.dispatch('toast', {
+          type: 'info',
+          message: _('Imported {{count}} dictionaries', { count: imported.length }),
+        });
+      } catch (error) {
+        eventDispatcher.dispatch('toast', {
+          type: 'error',
+          message: error instanceof Error ? error.message : _('Failed to import dictionary'),
+        });
+      } finally {
+        setIsImporting(false);
+      }
+    });
+  };
+
+  const handleToggle = (id: string) => {
+    updateDictionaries(
+      dictionaries.map((d) => (d.id === id ? { ...d, enabled: !d.enabled } : d)),
+    );
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= dictionaries.length) return;
+    const reordered = [...dictionaries];
+    [reordered[index], reordered[target]] = [reordered[target]!, reordered[index]!];
+    updateDictionaries(reordered);
+  };
+
+  const handleDelete = (dictionary: ImportedDictionary) => {
+    if (appService) deleteDictionary(appService, dictionary);
+    updateDictionaries(dictionaries.filter((d) => d.id !== dictionary.id));
+  };
+
+  return (
+    <div className='my-4 w-full space-y-6'>
+      <div className='w-full'>
+        <div className='mb-2 flex items-center justify-between'>
+          <h2 className='font-medium'>{_('Offline Dictionaries')}</h2>
+          <button
+            className='btn btn-ghost btn-sm text-base-content gap-2'
+            disabled={isImporting}
+            onClick={handleImport}
+          >
+            {isImporting ? (
+              <span className='loading loading-spinner loading-xs' />
+            ) : (
+              <MdAdd className='h-4 w-4' />
+            )}
+            {_('Import Dictionary')}
+          </button>
+        </div>
+        <div className='card border-base-200 bg-base-100 border shadow'>
+          <div className='divide-base-200 divide-y'>
+            {dictionaries.length === 0 && (
+              <div className='config-item'>
+                <span className='text-sm text-gray-500'>{_('No dictionaries imported')}</span>
+              </div>
+            )}
+            {dictionaries.map((dictionary, index) => (
+              <div key={dictionary.id} className='config-item gap-2'>
+                <div className='flex min-w-0 flex-1 flex-col'>
+                  <span className='truncate'>{dictionary.name}</span>
+                  <span className='text-xs text-gray-500'>
+                    {dictionary.format === 'stardict' ? 'StarDict' : 'dictd'}
+                    {dictionary.wordCount
+                      ? ` · ${_('{{count}} words', { count: dictionary.wordCount.toLocaleString() })}`
+                      : ''}
+                  </span>
+                </div>
+                <div className='flex items-center gap-1'>
+                  <button
+                    className='btn btn-ghost btn-xs'
+                    aria-label={_('Move Up')}
+                    title={_('Move Up')}
+                    disabled={index === 0}
+                    onClick={() => handleMove(index, -1)}
+                  >
+                    <MdArrowUpward />
+                  </button>
+                  <button
+                    className='btn btn-ghost btn-xs'
+                    aria-label={_('Move Down')}
+                    title={_('Move Down')}
+                    disabled={index === dictionaries.length - 1}
+                    onClick={() => handleMove(index, 1)}
+                  >
+                    <MdArrowDownward />
+                  </button>
+                  <button
+                    className='btn btn-ghost btn-xs'
+                    aria-label={_('Delete')}
+                    title={_('Delete')}
+                    onClick={() => handleDelete(dictionary)}
+                  >
+                    <RiDeleteBinLine />
+                  </button>
+                  <input
+                    type='checkbox'
+                    className='toggle toggle-sm'
+                    aria-label={_('Enabled')}
+                    checked={dictionary.enabled}
+                    onChange={() => handleToggle(dictionary.id)}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className='bg-base-200/30 rounded-lg p-4'>
+        <div className='text-base-content/70 text-sm sm:text-xs'>
+          <div className='mb-1 indent-2 font-medium'>{_('Tips')}:</div>
+          <ul className='list-outside list-disc space-y-1 ps-2'>
+            <li>{_('StarDict: select the .ifo, .idx and .dict.dz files (and .syn if there is one)')}</li>
+            <li>{_('dictd: select the .index and .dict.dz files')}</li>
+            <li>{_('Lookups try the enabled dictionaries from top to bottom, then Wiktionary')}</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DictionaryPanel;
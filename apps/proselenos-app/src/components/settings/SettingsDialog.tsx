@@ -7,7 +7,7 @@ import { useTranslation } from '@/hooks/useTranslation';
 import { RiFontSize } from 'react-icons/ri';
 import { RiDashboardLine } from 'react-icons/ri';
 
-import { PiDotsThreeVerticalBold } from 'react-icons/pi';
+import { PiBookOpenText, PiDotsThreeVerticalBold } from 'react-icons/pi';
 import { LiaHandPointerSolid } from 'react-icons/lia';
 import { IoAccessibilityOutline } from 'react-icons/io5';
 import { MdArrowBackIosNew, MdArrowForwardIos, MdClose } from 'react-icons/md';
@@ -20,8 +20,9 @@ import Dialog from '@/components/Dialog';
 import DialogMenu from './DialogMenu';
 import ControlPanel from './ControlPanel';
 import MiscPanel from './MiscPanel';
+import DictionaryPanel from './DictionaryPanel';
 
-export type SettingsPanelType = 'Font' | 'Layout' | 'Control' | 'Custom';
+export type SettingsPanelType = 'Font' | 'Layout' | 'Control' | 'Custom' | 'Dictionaries';
 export type SettingsPanelPanelProp = {
   bookKey: string;
   onRegisterReset: (resetFn: () => void) => void;
@@ -63,6 +64,11 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
       icon: IoAccessibilityOutline,
       label: _('Custom'),
     },
+    {
+      tab: 'Dictionaries',
+      icon: PiBookOpenText,
+      label: _('Dictionaries'),
+    },
   ] as TabConfig[];
 
   const [activePanel, setActivePanel] = useState<SettingsPanelType>(() => {
@@ -86,6 +92,7 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
     Layout: null,
     Control: null,
     Custom: null,
+    Dictionaries: null,
   });
 
   const registerResetFunction = (panel: SettingsPanelType, resetFn: () => void) => {
@@ -259,6 +266,12 @@ const SettingsDialog: React.FC<{ bookKey: string }> = ({ bookKey }) => {
             onRegisterReset={(fn) => registerResetFunction('Custom', fn)}
           />
         )}
+        {activePanel === 'Dictionaries' && (
+          <DictionaryPanel
+            bookKey={bookKey}
+            onRegisterReset={(fn) => registerResetFunction('Dictionaries', fn)}
+          />
+        )}
       </div>
     </Dialog>
   );
@@ -101,6 +101,16 @@ export const FILE_SELECTION_PRESETS = {
     extensions: ['ttf', 'otf', 'woff', 'woff2'],
     dialogTitle: _('Select Fonts'),
   },
+  dictionaries: {
+    accept: '.ifo, .idx, .syn, .dz, .dict, .index',
+    extensions: ['ifo', 'idx', 'syn', 'dz', 'dict', 'index'],
+    dialogTitle: _('Select Dictionary Files'),
+  },
+  annotations: {
+    accept: '.json, .csv, .lua',
+    extensions: ['json', 'csv', 'lua'],
+    dialogTitle: _('Select Annotations File'),
+  },
   covers: {
     accept: '.png, .jpg, .jpeg, .gif',
     extensions: ['png', 'jpg', 'jpeg', 'gif'],
@@ -14,7 +14,7 @@ export interface UseReadAloudReturn {
   selectedVoice: SpeechSynthesisVoice | null;
 
   // Actions
-  play: (text: string, onEnd?: () => void) => void;
+  play: (text: string, onEnd?: () => void, voiceName?: string) => void;
   pause: () => void;
   resume: () => void;
   stop: () => void;
@@ -79,7 +79,7 @@ export function useReadAloud(): UseReadAloudReturn {
 
   // Play or resume speech
   const play = useCallback(
-    (text: string, onEnd?: () => void) => {
+    (text: string, onEnd?: () => void, voiceName?: string) => {
       if (typeof window === 'undefined' || !window.speechSynthesis) return;
 
       // If paused, resume
@@ -99,9 +99,10 @@ export function useReadAloud(): UseReadAloudReturn {
       const utterance = new SpeechSynthesisUtterance(text);
       utteranceRef.current = utterance;
 
-      // Set voice if selected
-      if (selectedVoice) {
-        utterance.voice = selectedVoice;
+      // Set voice: one asked for by name (e.g. a cast character), else the selected one
+      const voice = (voiceName && voices.find((v) => v.name === voiceName)) || selectedVoice;
+      if (voice) {
+        utterance.voice = voice;
       }
 
       // Speed = 1.0 (normal)
@@ -131,7 +132,7 @@ export function useReadAloud(): UseReadAloudReturn {
       // Speak
       window.speechSynthesis.speak(utterance);
     },
-    [selectedVoice]
+    [selectedVoice, voices]
   );
 
   // Pause speech
@@ -1,17 +1,19 @@
 // lib/aiService.ts
 // AI Provider Factory - Local-first version (IndexedDB)
 
-import { loadApiKey, loadAppSettings } from '@/services/manuscriptStorage';
+import { loadApiKey, loadAppSettings, loadAIProviderConfig } from '@/services/manuscriptStorage';
+import { AIProviderConfig, AIProviderKind, normalizeAIProviderConfig } from '@/lib/constants/aiApi';
+import type { AIConfig, OpenAICompatibleService } from './providers/openaiCompatible';
 
-export type AIProvider = 'openrouter' | 'skipped';
+export type AIProvider = AIProviderKind | 'skipped';
 
 export interface AIServiceClass {
-  new (config?: any): any;
+  new (config?: AIConfig): OpenAICompatibleService;
 }
 
 // Per-user service cache to prevent multiple service creation
 interface ServiceCacheEntry {
-  service: any;
+  service: OpenAICompatibleService;
   provider: AIProvider;
   model?: string;
   created: number;
@@ -32,6 +34,20 @@ function cleanupOldEntries() {
   }
 }
 
+/**
+ * Loads the AI Settings provider config (OpenRouter defaults when unset)
+ */
+export async function loadProviderConfig(): Promise<AIProviderConfig> {
+  return normalizeAIProviderConfig(await loadAIProviderConfig());
+}
+
+/**
+ * Whether the provider can be used without an API key (e.g. a local server)
+ */
+export function providerRequiresApiKey(config: AIProviderConfig): boolean {
+  return normalizeAIProviderConfig(config).kind === 'openrouter';
+}
+
 /**
  * Gets the current provider and model from IndexedDB
  * @returns Object with provider and model, or throws error if not configured
@@ -43,8 +59,7 @@ export async function getCurrentProviderAndModel(): Promise<{ provider: AIProvid
       throw new Error('No settings found - please configure your model');
     }
 
-    // Local-first: provider is always openrouter
-    const provider: AIProvider = 'openrouter';
+    const provider: AIProvider = (await loadProviderConfig()).kind!;
     const model = settings.selectedModel;
 
     if (!model) {
@@ -58,23 +73,21 @@ export async function getCurrentProviderAndModel(): Promise<{ provider: AIProvid
 }
 
 /**
- * Gets just the current provider
- * In local-first mode, this is always 'openrouter'
+ * Gets just the current provider (the kind chosen in AI Settings)
  * @returns The provider
  */
 export async function getCurrentProvider(): Promise<AIProvider> {
-  // Local-first: always openrouter
-  return 'openrouter';
+  return (await loadProviderConfig()).kind!;
 }
 
 /**
  * Creates an AI service based on the selected provider (with caching)
- * @param provider - The AI provider to use
+ * @param provider - The AI provider to use (defaults to the one in AI Settings)
  * @param modelName - The model name to use
  * @param userId - Optional user ID for caching
  * @returns The AI service instance or null if skipped
  */
-export async function createApiService(provider: AIProvider = 'openrouter', modelName?: string, userId?: string): Promise<any | null> {
+export async function createApiService(provider?: AIProvider, modelName?: string, userId?: string): Promise<OpenAICompatibleService | null> {
   // Clean up old entries on each new service creation
   cleanupOldEntries();
 
@@ -84,9 +97,12 @@ export async function createApiService(provider: AIProvider = 'openrouter', mode
       return null;
     }
 
+    const providerConfig = await loadProviderConfig();
+    const kind = provider ?? providerConfig.kind!;
+
     // Generate cache key
     const cacheUserId = userId || 'local';
-    const cacheKey = `${cacheUserId}:${provider}:${modelName}`;
+    const cacheKey = `${cacheUserId}:${kind}:${providerConfig.completions}:${modelName}`;
 
     // Check cache first
     const cached = serviceCache.get(cacheKey);
@@ -94,33 +110,40 @@ export async function createApiService(provider: AIProvider = 'openrouter', mode
       return cached.service;
     }
 
-    // Get API key from IndexedDB
+    // Get API key from IndexedDB (local servers usually need none)
     const apiKey = await loadApiKey();
-    if (!apiKey) {
-      throw new Error('API key not found - please configure your OpenRouter API key');
+    if (!apiKey && providerRequiresApiKey({ ...providerConfig, kind })) {
+      throw new Error(`API key not found - please configure your ${providerConfig.providerName} API key`);
     }
 
     let ApiServiceClass: AIServiceClass;
 
-    switch (provider) {
-      case 'openrouter':
-        const { AiApiService } = require('./providers/openrouter');
+    switch (kind) {
+      case 'openrouter': {
+        const { AiApiService } = await import('./providers/openrouter');
         ApiServiceClass = AiApiService;
         break;
+      }
+      case 'openai-compatible': {
+        const { OpenAICompatibleService } = await import('./providers/openaiCompatible');
+        ApiServiceClass = OpenAICompatibleService;
+        break;
+      }
       default:
-        throw new Error(`Unknown AI provider: ${provider}`);
+        throw new Error(`Unknown AI provider: ${kind}`);
     }
 
-    // Create instance with API key and model
+    // Create instance with endpoints, API key and model
     const service = new ApiServiceClass({
-      apiKey,
+      apiKey: apiKey ?? undefined,
+      provider: providerConfig,
       model_name: modelName
     });
 
     // Cache the service
     serviceCache.set(cacheKey, {
       service,
-      provider,
+      provider: kind,
       model: modelName,
       created: Date.now()
     });
@@ -133,4 +156,20 @@ export async function createApiService(provider: AIProvider = 'openrouter', mode
   }
 }
 
+/**
+ * Checks an API key against the configured provider before it is saved.
+ * Providers without a key-check URL accept any key (it is tested on first use).
+ */
+export async function validateApiKey(apiKey: string): Promise<boolean> {
+  const providerConfig = await loadProviderConfig();
+  if (!providerConfig.authKey.trim()) return true;
+  const { OpenAICompatibleService } = await import('./providers/openaiCompatible');
+  try {
+    return await new OpenAICompatibleService({ apiKey, provider: providerConfig }).checkApiKey();
+  } catch {
+    // Endpoint unreachable: allow saving, the key is tested on first use
+    return true;
+  }
+}
+
 export default createApiService;
@@ -1,19 +1,15 @@
 // lib/api-key-validator.ts
 // Internal API key validation utilities
 
-import { loadAIProviderConfig } from '@/services/manuscriptStorage';
-import { DEFAULT_AI_PROVIDER } from '@/lib/constants/aiApi';
+import { loadProviderConfig } from '@/lib/aiService';
+import { OpenAICompatibleService } from '@/lib/providers/openaiCompatible';
 
 export class ApiKeyValidator {
-  static async validateOpenRouter(apiKey: string): Promise<boolean> {
+  // Any provider in AI Settings: its key-check URL, else its models list
+  static async validateProvider(apiKey: string): Promise<boolean> {
     try {
-      const aiConfig = await loadAIProviderConfig() ?? DEFAULT_AI_PROVIDER;
-      const response = await fetch(aiConfig.models, {
-        headers: {
-          'Authorization': `Bearer ${apiKey}`,
-        },
-      });
-      return response.ok;
+      const aiConfig = await loadProviderConfig();
+      return await new OpenAICompatibleService({ apiKey, provider: aiConfig }).verifyAiAPI();
     } catch {
       return false;
     }
@@ -22,7 +18,8 @@ export class ApiKeyValidator {
   static async validateKey(keyName: string, apiKey: string): Promise<boolean> {
     switch (keyName) {
       case 'openrouter':
-        return this.validateOpenRouter(apiKey);
+      case 'openai-compatible':
+        return this.validateProvider(apiKey);
       default:
         console.warn(`Unknown API key type: ${keyName}`);
         return false;
@@ -2,18 +2,70 @@
 // Default AI provider configuration
 // Users can override these in Menu → AI Settings
 
+// 'openrouter' adds OpenRouter's attribution headers and requires an API key;
+// 'openai-compatible' covers any other /v1/chat/completions endpoint
+// (OpenAI, a company gateway, llama.cpp, Ollama, LM Studio, ...)
+export type AIProviderKind = 'openrouter' | 'openai-compatible';
+
 export interface AIProviderConfig {
+  kind?: AIProviderKind;
   providerName: string;
   base: string;
   authKey: string;
   models: string;
   completions: string;
+  // Header that carries the API key, and the prefix before it ('' sends the bare key)
+  authHeader?: string;
+  authScheme?: string;
+  // Model IDs offered in addition to (or instead of) the models URL, one per line
+  modelList?: string;
 }
 
 export const DEFAULT_AI_PROVIDER: AIProviderConfig = {
+  kind: 'openrouter',
   providerName: 'OpenRouter',
   base: 'https://openrouter.ai/api/v1',
   authKey: 'https://openrouter.ai/api/v1/auth/key',
   models: 'https://openrouter.ai/api/v1/models',
   completions: 'https://openrouter.ai/api/v1/chat/completions',
+  authHeader: 'Authorization',
+  authScheme: 'Bearer',
+  modelList: '',
 };
+
+function openAICompatiblePreset(providerName: string, base: string): AIProviderConfig {
+  return {
+    kind: 'openai-compatible',
+    providerName,
+    base,
+    authKey: '',
+    models: `${base}/models`,
+    completions: `${base}/chat/completions`,
+    authHeader: 'Authorization',
+    authScheme: 'Bearer',
+    modelList: '',
+  };
+}
+
+// Starting points offered in AI Settings; every field stays editable
+export const AI_PROVIDER_PRESETS: AIProviderConfig[] = [
+  DEFAULT_AI_PROVIDER,
+  openAICompatiblePreset('OpenAI', 'https://api.openai.com/v1'),
+  openAICompatiblePreset('Ollama', 'http://localhost:11434/v1'),
+  openAICompatiblePreset('llama.cpp', 'http://localhost:8080/v1'),
+  openAICompatiblePreset('LM Studio', 'http://localhost:1234/v1'),
+];
+
+/**
+ * Fill in fields missing from configs saved before they existed
+ */
+export function normalizeAIProviderConfig(config: AIProviderConfig | null | undefined): AIProviderConfig {
+  if (!config) return DEFAULT_AI_PROVIDER;
+  return {
+    ...config,
+    kind: config.kind ?? (/openrouter\.ai/i.test(config.base || config.completions) ? 'openrouter' : 'openai-compatible'),
+    authHeader: config.authHeader?.trim() || 'Authorization',
+    authScheme: config.authScheme ?? 'Bearer',
+    modelList: config.modelList ?? '',
+  };
+}
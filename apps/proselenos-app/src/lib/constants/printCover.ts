@@ -0,0 +1,87 @@
+// lib/constants/printCover.ts
+// Paperback wraparound cover geometry: back cover, spine and front cover on
+// one sheet, with bleed on every edge. Built alongside the interior in the
+// PDF dialog, since the spine width depends on the interior's page count.
+
+import { BLEED_INCHES, type TrimSize } from './printPdf';
+
+export interface PaperType {
+  id: string;
+  label: string;
+  // Inches of spine per interior page
+  thickness: number;
+}
+
+// KDP's spine width per page for each paper
+export const PAPER_TYPES: PaperType[] = [
+  { id: 'white', label: 'White paper (black & white)', thickness: 0.002252 },
+  { id: 'cream', label: 'Cream paper (black & white)', thickness: 0.0025 },
+  { id: 'standard-color', label: 'White paper (standard color)', thickness: 0.002252 },
+  { id: 'premium-color', label: 'White paper (premium color)', thickness: 0.002347 },
+];
+
+// KDP prints spine text only on books of more than 79 pages
+export const SPINE_TEXT_MIN_PAGES = 80;
+
+// Space kept clear on each side of the spine text
+export const SPINE_TEXT_MARGIN_INCHES = 0.0625;
+
+// Text and artwork that must not be cut stay this far inside the trim
+export const COVER_SAFE_INCHES = 0.125;
+
+// Blank area KDP and IngramSpark print the ISBN barcode in: bottom of the
+// back cover, next to the spine
+export const BARCODE_WIDTH_INCHES = 2;
+export const BARCODE_HEIGHT_INCHES = 1.2;
+export const BARCODE_MARGIN_INCHES = 0.25;
+
+// Cover artwork is rendered at print resolution
+export const COVER_DPI = 300;
+
+/**
+ * Horizontal positions are measured from the left edge of the sheet,
+ * including the bleed. All values in inches.
+ */
+export interface CoverLayout {
+  width: number;
+  height: number;
+  bleed: number;
+  trimWidth: number;
+  trimHeight: number;
+  pageCount: number;
+  spineWidth: number;
+  backX: number;
+  spineX: number;
+  frontX: number;
+  spineText: boolean;
+}
+
+export function getPaperType(id: string): PaperType {
+  return PAPER_TYPES.find(p => p.id === id) ?? PAPER_TYPES[0]!;
+}
+
+/**
+ * Printers bind whole sheets, so an odd page count is rounded up
+ */
+export function getSpineWidth(pageCount: number, paper: PaperType): number {
+  const pages = Math.ceil(pageCount / 2) * 2;
+  return Math.round(pages * paper.thickness * 10000) / 10000;
+}
+
+export function getCoverLayout(trim: TrimSize, pageCount: number, paper: PaperType): CoverLayout {
+  const bleed = BLEED_INCHES;
+  const spineWidth = getSpineWidth(pageCount, paper);
+  return {
+    width: bleed * 2 + trim.width * 2 + spineWidth,
+    height: bleed * 2 + trim.height,
+    bleed,
+    trimWidth: trim.width,
+    trimHeight: trim.height,
+    pageCount,
+    spineWidth,
+    backX: bleed,
+    spineX: bleed + trim.width,
+    frontX: bleed + trim.width + spineWidth,
+    spineText: pageCount >= SPINE_TEXT_MIN_PAGES,
+  };
+}
@@ -0,0 +1,181 @@
+// lib/constants/printPdf.ts
+// Print-ready PDF settings: trim sizes, gutter table and scene-break ornaments
+// Chosen in the PDF dialog (Library → book details → PDF)
+
+export type PdfLayout = 'novel' | 'picture-book';
+
+export interface TrimSize {
+  id: string;
+  label: string;
+  // Inches
+  width: number;
+  height: number;
+}
+
+// KDP and IngramSpark paperback/hardcover trims
+export const TRIM_SIZES: TrimSize[] = [
+  { id: '4.25x6.87', label: '4.25 × 6.87 in (mass market, IngramSpark)', width: 4.25, height: 6.87 },
+  { id: '4.37x7', label: '4.37 × 7 in (IngramSpark)', width: 4.37, height: 7 },
+  { id: '5x8', label: '5 × 8 in', width: 5, height: 8 },
+  { id: '5.06x7.81', label: '5.06 × 7.81 in', width: 5.06, height: 7.81 },
+  { id: '5.25x8', label: '5.25 × 8 in', width: 5.25, height: 8 },
+  { id: '5.5x8.5', label: '5.5 × 8.5 in', width: 5.5, height: 8.5 },
+  { id: '5.83x8.27', label: '5.83 × 8.27 in (A5)', width: 5.83, height: 8.27 },
+  { id: '6x9', label: '6 × 9 in', width: 6, height: 9 },
+  { id: '6.14x9.21', label: '6.14 × 9.21 in', width: 6.14, height: 9.21 },
+  { id: '6.69x9.61', label: '6.69 × 9.61 in', width: 6.69, height: 9.61 },
+  { id: '7x10', label: '7 × 10 in', width: 7, height: 10 },
+  { id: '7.44x9.69', label: '7.44 × 9.69 in', width: 7.44, height: 9.69 },
+  { id: '7.5x9.25', label: '7.5 × 9.25 in', width: 7.5, height: 9.25 },
+  { id: '8x10', label: '8 × 10 in', width: 8, height: 10 },
+  { id: '8.25x6', label: '8.25 × 6 in (landscape)', width: 8.25, height: 6 },
+  { id: '8.25x8.25', label: '8.25 × 8.25 in', width: 8.25, height: 8.25 },
+  { id: '8.5x8.5', label: '8.5 × 8.5 in (square)', width: 8.5, height: 8.5 },
+  { id: '8.27x11.69', label: '8.27 × 11.69 in (A4)', width: 8.27, height: 11.69 },
+  { id: '8.5x11', label: '8.5 × 11 in', width: 8.5, height: 11 },
+];
+
+export const CUSTOM_TRIM_ID = 'custom';
+
+// Bleed added on the outer edge, top and bottom (KDP and IngramSpark)
+export const BLEED_INCHES = 0.125;
+
+// KDP's minimum inside margin by page count; the binding swallows more of
+// the inside margin as the book gets thicker
+const GUTTER_TABLE: Array<{ maxPages: number; gutter: number }> = [
+  { maxPages: 150, gutter: 0.375 },
+  { maxPages: 300, gutter: 0.5 },
+  { maxPages: 500, gutter: 0.625 },
+  { maxPages: 700, gutter: 0.75 },
+  { maxPages: Infinity, gutter: 0.875 },
+];
+
+export function getGutterForPageCount(pageCount: number): number {
+  return GUTTER_TABLE.find(row => pageCount <= row.maxPages)!.gutter;
+}
+
+export interface SceneBreakOrnament {
+  id: string;
+  label: string;
+  // '' leaves a blank line
+  text: string;
+}
+
+export const SCENE_BREAK_ORNAMENTS: SceneBreakOrnament[] = [
+  { id: 'asterisks', label: '* * *', text: '* * *' },
+  { id: 'bullets', label: '• • •', text: '• • •' },
+  { id: 'asterism', label: '⁂', text: '⁂' },
+  { id: 'fleuron', label: '❦', text: '❦' },
+  { id: 'tilde', label: '~', text: '~' },
+  { id: 'blank', label: 'Blank line', text: '' },
+];
+
+export interface PdfPrintSettings {
+  layout: PdfLayout;
+  trimSize: string;          // TRIM_SIZES id or CUSTOM_TRIM_ID
+  customWidth: number;       // inches, used with CUSTOM_TRIM_ID
+  customHeight: number;
+  fontSize: number;          // body text, points
+  // Custom font families ('' = built-in EB Garamond / no fallback)
+  bodyFont: string;
+  headingFont: string;       // '' = same as body
+  fallbackFont: string;      // tried for characters the chosen font lacks
+  // Margins in inches, measured from the trim edge
+  marginTop: number;
+  marginBottom: number;
+  marginOutside: number;
+  marginInside: number;      // before the page-count gutter is added
+  autoGutter: boolean;       // add the GUTTER_TABLE allowance to the inside margin
+  bleed: boolean;
+  chapterStartRecto: boolean;
+  dropCaps: boolean;
+  sceneBreak: string;        // SCENE_BREAK_ORNAMENTS id
+  // Running headers; {title}, {author}, {chapter} and {page} are replaced
+  headerVerso: string;
+  headerRecto: string;
+  includeToc: boolean;
+  // Wraparound cover, built after the interior so the spine fits its page count
+  cover: boolean;
+  paperType: string;         // PAPER_TYPES id (lib/constants/printCover)
+  coverGuides: boolean;      // draw trim, spine and barcode guides (proofs only)
+}
+
+export const DEFAULT_PDF_PRINT_SETTINGS: PdfPrintSettings = {
+  layout: 'novel',
+  trimSize: '6x9',
+  customWidth: 6,
+  customHeight: 9,
+  fontSize: 11,
+  bodyFont: '',
+  headingFont: '',
+  fallbackFont: '',
+  marginTop: 0.7,
+  marginBottom: 0.7,
+  marginOutside: 0.5,
+  marginInside: 0.375,
+  autoGutter: true,
+  bleed: false,
+  chapterStartRecto: true,
+  dropCaps: true,
+  sceneBreak: 'asterisks',
+  headerVerso: '{author}',
+  headerRecto: '{title}',
+  includeToc: true,
+  cover: false,
+  paperType: 'white',
+  coverGuides: false,
+};
+
+// Starting point when the picture-book layout is chosen
+export const PICTURE_BOOK_PRINT_SETTINGS: Partial<PdfPrintSettings> = {
+  layout: 'picture-book',
+  trimSize: '8.5x8.5',
+  fontSize: 22,
+  marginTop: 0.375,
+  marginBottom: 0.375,
+  marginOutside: 0.875,
+  marginInside: 0.875,
+  autoGutter: false,
+  dropCaps: false,
+};
+
+export function getTrimSize(settings: PdfPrintSettings): TrimSize {
+  if (settings.trimSize === CUSTOM_TRIM_ID) {
+    return {
+      id: CUSTOM_TRIM_ID,
+      label: `${settings.customWidth} × ${settings.customHeight} in`,
+      width: settings.customWidth,
+      height: settings.customHeight,
+    };
+  }
+  return TRIM_SIZES.find(t => t.id === settings.trimSize)
+    ?? TRIM_SIZES.find(t => t.id === DEFAULT_PDF_PRINT_SETTINGS.trimSize)!;
+}
+
+export function getSceneBreakText(settings: PdfPrintSettings): string {
+  return (SCENE_BREAK_ORNAMENTS.find(o => o.id === settings.sceneBreak) ?? SCENE_BREAK_ORNAMENTS[0]!).text;
+}
+
+/**
+ * Drops font choices whose families are no longer installed
+ */
+export function withAvailableFonts(settings: PdfPrintSettings, families: string[]): PdfPrintSettings {
+  const available = (family: string) => (families.includes(family) ? family : '');
+  return {
+    ...settings,
+    bodyFont: available(settings.bodyFont),
+    headingFont: available(settings.headingFont),
+    fallbackFont: available(settings.fallbackFont),
+  };
+}
+
+/**
+ * Fills settings saved by an older version with the current defaults
+ */
+export function normalizePdfPrintSettings(saved: Partial<PdfPrintSettings> | null | undefined): PdfPrintSettings {
+  const settings = { ...DEFAULT_PDF_PRINT_SETTINGS, ...(saved ?? {}) };
+  if (settings.layout !== 'novel' && settings.layout !== 'picture-book') {
+    settings.layout = DEFAULT_PDF_PRINT_SETTINGS.layout;
+  }
+  return settings;
+}
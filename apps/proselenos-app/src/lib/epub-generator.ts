@@ -8,6 +8,7 @@
 import JSZip from 'jszip';
 import { ManuscriptSettings, WorkingCopyMeta, WorkingCopySection, SceneCraftConfig } from '@/services/manuscriptStorage';
 import { xhtmlToPlainText, plateToXhtml, xhtmlToPlate } from './plateXhtml';
+import { stripReviewMarkup } from './plateReview';
 import { VISUAL_NARRATIVE_CSS } from './visual-narrative-css';
 
 // TypeScript Interfaces
@@ -137,9 +138,10 @@ export async function generateEpubFromWorkingCopy(
     }
 
     // Normalize stored XHTML through round-trip to ensure latest serialization
-    // (e.g. sticky-image checkbox+label structure added after initial save)
+    // (e.g. sticky-image checkbox+label structure added after initial save).
+    // Pending tracked changes and comment anchors never reach the EPUB.
     const normalizedXhtml = section.xhtml
-      ? plateToXhtml(xhtmlToPlate(section.xhtml))
+      ? plateToXhtml(stripReviewMarkup(xhtmlToPlate(section.xhtml)))
       : '';
 
     // XHTML-Native: Get plain text for fallback, but keep XHTML as source of truth
@@ -975,15 +977,49 @@ function createEpub3ContentOPF(
     ? `    <item id="vn-style" href="css/visual-narrative.css" media-type="text/css"/>`
     : '';
 
+  // schema.org accessibility metadata (EPUB Accessibility 1.1 discovery metadata),
+  // claiming only what this generator can tell from the content it writes
+  const hasImages = !!coverImageId || (inlineImages?.length ?? 0) > 0;
+  const hasAudio = (inlineAudios?.length ?? 0) > 0;
+  const allSections = [...chapters, ...(noMatterSections ?? [])];
+  const hasVideo = allSections.some(ch => ch.xhtml?.includes('<video'));
+  // GIF and WebP images may be animated (a flashing hazard); telling would mean decoding them
+  const animatedTypes = ['image/gif', 'image/webp'];
+  const mayBeAnimated = animatedTypes.includes(coverImageInfo?.mediaType ?? '')
+    || (inlineImages ?? []).some(img => animatedTypes.includes(getImageMediaType(img.filename)));
+  // Every chapter starts with an <h1> of its title, so only untitled chapters lack a heading
+  const hasHeadings = chapters.length > 0 && chapters.every(ch => ch.title.trim());
+  const hasMath = allSections.some(ch => ch.xhtml?.includes('<math'));
+  const accessibilityMeta = [
+    '    <meta property="schema:accessMode">textual</meta>',
+    ...(hasImages ? ['    <meta property="schema:accessMode">visual</meta>'] : []),
+    ...(hasAudio ? ['    <meta property="schema:accessMode">auditory</meta>'] : []),
+    '    <meta property="schema:accessModeSufficient">textual</meta>',
+    ...(hasHeadings ? ['    <meta property="schema:accessibilityFeature">structuralNavigation</meta>'] : []),
+    '    <meta property="schema:accessibilityFeature">tableOfContents</meta>',
+    '    <meta property="schema:accessibilityFeature">readingOrder</meta>',
+    ...(hasMath ? ['    <meta property="schema:accessibilityFeature">MathML</meta>'] : []),
+    `    <meta property="schema:accessibilityHazard">${hasAudio || hasVideo || mayBeAnimated ? 'unknown' : 'none'}</meta>`,
+    `    <meta property="schema:accessibilitySummary">${[
+      hasHeadings
+        ? 'This publication includes a navigable table of contents and a heading for every chapter, and follows the reading order of the manuscript.'
+        : 'This publication includes a navigable table of contents and follows the reading order of the manuscript.',
+      ...(hasAudio || hasVideo ? ['It contains audio or video, which may not have a text alternative.'] : []),
+    ].join(' ')}</meta>`,
+  ].join('\n');
+
+  // EPUB 3 requires the "mathml" property on documents that contain MathML
+  const mathmlProperty = (ch: Chapter) => (ch.xhtml?.includes('<math') ? ' properties="mathml"' : '');
+
   const manifest = chapters
-    .map(ch => `    <item id="${ch.id}" href="${ch.id}.xhtml" media-type="application/xhtml+xml"/>`)
+    .map(ch => `    <item id="${ch.id}" href="${ch.id}.xhtml" media-type="application/xhtml+xml"${mathmlProperty(ch)}/>`)
     .join('\n');
 
   // No Matter manifest entries (in nomatter/ folder)
   let noMatterManifest = '';
   if (noMatterSections && noMatterSections.length > 0) {
     noMatterManifest = noMatterSections
-      .map(s => `    <item id="${s.id}" href="nomatter/${s.id}.xhtml" media-type="application/xhtml+xml"/>`)
+      .map(s => `    <item id="${s.id}" href="nomatter/${s.id}.xhtml" media-type="application/xhtml+xml"${mathmlProperty(s)}/>`)
       .join('\n');
   }
 
@@ -1011,6 +1047,7 @@ function createEpub3ContentOPF(
     <dc:description>${escapeHtml(metadata.description)}</dc:description>
     <dc:date>${date}</dc:date>
     <meta property="dcterms:modified">${modifiedDate}</meta>
+${accessibilityMeta}
 ${coverMeta}
   </metadata>
   <manifest>
@@ -1165,6 +1202,8 @@ ${navItems.join('\n')}
 function createFullWidthCSS(): string {
   return `/* EverythingEbooks EPUB - Kindle-Compatible CSS */
 
+@namespace epub "http://www.idpf.org/2007/ops";
+
 /* Reset and base styles */
 html {
   font-size: 100%;
@@ -1403,6 +1442,72 @@ nav a {
   color: inherit;
 }
 
+/* Tables */
+table {
+  border-collapse: collapse;
+  margin: 1em 0;
+  width: 100%;
+}
+
+th, td {
+  border: 1px solid #999;
+  padding: 0.3em 0.5em;
+  vertical-align: top;
+}
+
+th {
+  font-weight: bold;
+}
+
+/* Code blocks */
+pre {
+  font-family: monospace;
+  font-size: 0.85em;
+  white-space: pre-wrap;
+  margin: 1em 0;
+}
+
+/* Callouts */
+aside.callout {
+  border-left: 3px solid #999;
+  margin: 1em 0;
+  padding: 0.5em 1em;
+}
+
+/* Footnotes */
+aside[epub|type~="footnote"] {
+  font-size: 0.85em;
+  margin: 1em 0;
+}
+
+a[epub|type~="noteref"] {
+  vertical-align: super;
+  font-size: 0.75em;
+  text-decoration: none;
+}
+
+math[display="block"] {
+  display: block;
+  margin: 1em 0;
+}
+
+/* Columns */
+div.columns {
+  display: flex;
+  gap: 1em;
+  margin: 1em 0;
+}
+
+div.column {
+  flex: 0 1 auto;
+  min-width: 0;
+}
+
+/* Toggles (always open in reading systems without <details> support) */
+details.toggle > summary {
+  font-weight: bold;
+}
+
 /* Basic responsive adjustments */
 @media screen and (max-width: 600px) {
   body {
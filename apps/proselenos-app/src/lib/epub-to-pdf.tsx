@@ -1,11 +1,24 @@
 // epub-to-pdf.tsx
 //
-// Client-side epub → PDF using JSZip + book-pdf
+// Client-side epub → print-ready PDF using JSZip + book-pdf.
+// One configurable pipeline for every trim size: mirrored margins with a
+// gutter that grows with page count, optional bleed, chapters starting on a
+// recto, drop caps, scene-break ornaments and running header templates.
 
 import React from 'react';
 import { Document, Page, Text, View, Image, StyleSheet, pdf } from 'book-pdf';
 import JSZip from 'jszip';
-// Font registration handled by book-pdf (EBGaramond is the only font)
+import {
+  BLEED_INCHES,
+  DEFAULT_PDF_PRINT_SETTINGS,
+  getGutterForPageCount,
+  getSceneBreakText,
+  getTrimSize,
+  type PdfPrintSettings,
+} from '@/lib/constants/printPdf';
+import type { CoverLayout } from '@/lib/constants/printCover';
+import { getFontChain } from '@/lib/pdfFonts';
+// EBGaramond is built into book-pdf; custom families are registered by lib/pdfFonts
 
 export interface PdfOptions {
   title: string;
@@ -13,7 +26,6 @@ export interface PdfOptions {
   publisher?: string;      // e.g. "Slip the Trap"
   year?: string;           // e.g. "2026"
   copyrightHtml?: string;  // HTML from the epub's copyright.xhtml, or omit to skip
-  includeToc?: boolean;    // default true
 }
 
 // ─── 1. Parse the epub's OPF to get spine-ordered XHTML paths ───
@@ -195,129 +207,226 @@ function flattenLinksForPrint(container: Element): void {
   }
 }
 
-// ─── 3. book-pdf styles ───
-
-const styles = StyleSheet.create({
-  page: {
-    paddingTop: 50,
-    paddingBottom: 50,
-    paddingLeft: 63,   // 0.875" — matches Vellum
-    paddingRight: 63,  // 0.875" — matches Vellum
-    fontFamily: 'EBGaramond',
-    fontSize: 11,
-    lineHeight: 1.4,
-  },
-  header: {
-    position: 'absolute',
-    top: 25,
-    left: 63,
-    right: 63,
-    textAlign: 'center',
-    color: 'grey',
-    fontSize: 9,
-  },
-  pageNumber: {
-    position: 'absolute',
-    fontSize: 12,
-    top: 618,
-    left: 0,
-    right: 0,
-    textAlign: 'center',
-    color: 'grey',
-  },
-  // Title page
-  titlePage: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  bookTitle: {
-    fontSize: 28,
-    fontFamily: 'EBGaramond',
-    fontWeight: 'bold',
-    textAlign: 'center',
-    lineHeight: 1.6,
-    marginBottom: 120,
-  },
-  bookAuthor: {
-    fontSize: 16,
-    fontStyle: 'italic',
-    textAlign: 'center',
-    marginTop: 30,
-  },
-  // Copyright page
-  copyrightPage: {
-    flex: 1,
-    justifyContent: 'flex-end',
-    paddingBottom: 60,
-  },
-  copyrightText: {
-    fontSize: 9,
-    lineHeight: 1.6,
-    marginBottom: 4,
-  },
-  // TOC page
-  tocPage: {
-    paddingTop: 80,
-  },
-  tocHeading: {
-    fontSize: 18,
-    fontFamily: 'EBGaramond',
-    fontWeight: 'bold',
-    textAlign: 'center',
-    marginBottom: 30,
-  },
-  tocItem: {
-    fontSize: 11,
-    marginBottom: 8,
-  },
-  // Content styles
-  paragraph: {
-    marginBottom: 10,
-    textAlign: 'left',
-  },
-  h1: {
-    fontSize: 18,
-    fontFamily: 'EBGaramond',
-    fontWeight: 'bold',
-    marginTop: 20,
-    marginBottom: 12,
-  },
-  h2: {
-    fontSize: 15,
-    fontFamily: 'EBGaramond',
-    fontWeight: 'bold',
-    marginTop: 16,
-    marginBottom: 10,
-  },
-  h3: {
-    fontSize: 13,
-    fontFamily: 'EBGaramond',
-    fontWeight: 'bold',
-    marginTop: 12,
-    marginBottom: 8,
-  },
-  image: {
-    width: 200,
-    marginVertical: 15,
-    alignSelf: 'center' as const,
-  },
-  sceneBreak: {
-    textAlign: 'center',
-    marginVertical: 15,
-  },
-  listItem: {
-    marginBottom: 4,
-    paddingLeft: 15,
-  },
-  blockquote: {
-    paddingLeft: 20,
-    fontStyle: 'italic',
-    marginBottom: 10,
-  },
-});
-
-// ─── 4. HTML-to-book-pdf converter ───
+
+// ─── 3. Page geometry ───
+
+const POINTS_PER_INCH = 72;
+
+// All values in points. Margins are measured from the trim edge; the page
+// itself is bigger by the bleed on the outer edge, top and bottom.
+export interface PrintLayout {
+  pageWidth: number;
+  pageHeight: number;
+  bleed: number;
+  marginTop: number;
+  marginBottom: number;
+  marginInside: number;    // includes the gutter
+  marginOutside: number;
+  gutter: number;
+}
+
+export function getPrintLayout(settings: PdfPrintSettings, pageCount: number): PrintLayout {
+  const trim = getTrimSize(settings);
+  const bleed = settings.bleed ? BLEED_INCHES * POINTS_PER_INCH : 0;
+  const gutter = settings.autoGutter ? getGutterForPageCount(pageCount) * POINTS_PER_INCH : 0;
+
+  return {
+    pageWidth: trim.width * POINTS_PER_INCH + bleed,
+    pageHeight: trim.height * POINTS_PER_INCH + bleed * 2,
+    bleed,
+    marginTop: settings.marginTop * POINTS_PER_INCH,
+    marginBottom: settings.marginBottom * POINTS_PER_INCH,
+    marginInside: settings.marginInside * POINTS_PER_INCH + gutter,
+    marginOutside: settings.marginOutside * POINTS_PER_INCH,
+    gutter,
+  };
+}
+
+/**
+ * Rough page count from the word count, used to pick the first gutter.
+ * The real count comes back from layout and corrects it if needed.
+ */
+function estimatePageCount(chapters: ChapterData[], settings: PdfPrintSettings): number {
+  const layout = getPrintLayout(settings, 0);
+  const textWidth = layout.pageWidth - layout.bleed - layout.marginInside - layout.marginOutside;
+  const textHeight = layout.pageHeight - layout.bleed * 2 - layout.marginTop - layout.marginBottom;
+  // Book faces average about half an em per character; ~6 characters per word
+  const wordsPerLine = textWidth / (settings.fontSize * 0.45) / 6;
+  const linesPerPage = textHeight / (settings.fontSize * 1.4);
+  const wordsPerPage = Math.max(1, wordsPerLine * linesPerPage);
+
+  let pages = 4; // title, copyright, contents
+  for (const ch of chapters) {
+    const words = ch.html.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+    pages += Math.ceil(words / wordsPerPage) + (settings.chapterStartRecto ? 0.5 : 0);
+  }
+  return Math.ceil(pages);
+}
+
+// ─── 4. book-pdf styles ───
+
+function createStyles(settings: PdfPrintSettings, layout: PrintLayout) {
+  const { fontSize } = settings;
+  const pictureBook = settings.layout === 'picture-book';
+  // Recto geometry; book-pdf's mirrorMargins swaps the sides on versos
+  const paddingLeft = layout.marginInside;
+  const paddingRight = layout.marginOutside + layout.bleed;
+  const contentWidth = layout.pageWidth - paddingLeft - paddingRight;
+  const contentHeight = layout.pageHeight - layout.bleed * 2 - layout.marginTop - layout.marginBottom;
+  const bodyFont = getFontChain(settings.bodyFont, settings.fallbackFont);
+  const headingFont = getFontChain(settings.headingFont || settings.bodyFont, settings.fallbackFont);
+
+  return StyleSheet.create({
+    page: {
+      paddingTop: layout.bleed + layout.marginTop,
+      paddingBottom: layout.bleed + layout.marginBottom,
+      paddingLeft,
+      paddingRight,
+      fontFamily: bodyFont,
+      fontSize,
+      fontWeight: pictureBook ? 'bold' : 'normal',
+      lineHeight: 1.4,
+    },
+    // Picture-book content pages: 0.5" of extra breathing room at the top
+    contentPage: {
+      paddingTop: layout.bleed + layout.marginTop + (pictureBook ? 36 : 0),
+    },
+    header: {
+      position: 'absolute',
+      top: layout.bleed + layout.marginTop / 2,
+      left: paddingLeft,
+      right: paddingRight,
+      textAlign: 'center',
+      color: 'grey',
+      fontSize: Math.round(fontSize * 0.82),
+    },
+    pageNumber: {
+      position: 'absolute',
+      fontSize: Math.round(fontSize * 1.1),
+      top: layout.pageHeight - layout.bleed - layout.marginBottom * 0.6,
+      left: paddingLeft,
+      right: paddingRight,
+      textAlign: 'center',
+      color: 'grey',
+    },
+    // Title page
+    titlePage: {
+      flex: 1,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    bookTitle: {
+      fontSize: Math.round(fontSize * (pictureBook ? 1.8 : 2.55)),
+      fontFamily: headingFont,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      lineHeight: 1.6,
+      marginBottom: 120,
+    },
+    bookAuthor: {
+      fontSize: Math.round(fontSize * 1.45),
+      fontStyle: 'italic',
+      textAlign: 'center',
+      marginTop: 30,
+    },
+    // Copyright page
+    copyrightPage: {
+      flex: 1,
+      justifyContent: 'flex-end',
+      paddingBottom: 60,
+      fontSize: pictureBook ? Math.round(fontSize * 0.82) : fontSize,
+      lineHeight: 1.6,
+    },
+    // TOC page
+    tocPage: {
+      paddingTop: 80,
+    },
+    tocHeading: {
+      fontSize: Math.round(fontSize * 1.65),
+      fontFamily: headingFont,
+      fontWeight: 'bold',
+      textAlign: 'center',
+      marginBottom: 30,
+    },
+    tocItem: {
+      marginBottom: 8,
+    },
+    // Content styles
+    paragraph: {
+      marginBottom: 10,
+      textAlign: 'left',
+    },
+    // book-pdf has no floats, so the drop cap is a raised initial: the
+    // enlarged letter sits on the first line, followed by a capitalised lead-in
+    dropCap: {
+      fontSize: fontSize * 2.8,
+      lineHeight: 1,
+    },
+    leadIn: {
+      letterSpacing: 0.5,
+    },
+    h1: {
+      fontSize: Math.round(fontSize * 1.65),
+      fontFamily: headingFont,
+      fontWeight: 'bold',
+      marginTop: 20,
+      marginBottom: 12,
+    },
+    h2: {
+      fontSize: Math.round(fontSize * 1.35),
+      fontFamily: headingFont,
+      fontWeight: 'bold',
+      marginTop: 16,
+      marginBottom: 10,
+    },
+    h3: {
+      fontSize: Math.round(fontSize * 1.2),
+      fontFamily: headingFont,
+      fontWeight: 'bold',
+      marginTop: 12,
+      marginBottom: 8,
+    },
+    image: pictureBook
+      ? {
+          width: contentWidth,
+          maxHeight: contentHeight,
+          objectFit: 'contain',   // scale proportionally, never distort
+          alignSelf: 'center',
+          marginVertical: 15,
+        }
+      : {
+          width: Math.min(200, contentWidth),
+          marginVertical: 15,
+          alignSelf: 'center',
+        },
+    sceneBreak: {
+      textAlign: 'center',
+      marginVertical: 15,
+      minHeight: fontSize * 1.4,
+    },
+    listItem: {
+      marginBottom: 4,
+      paddingLeft: 15,
+    },
+    blockquote: {
+      paddingLeft: 20,
+      fontStyle: 'italic',
+      marginBottom: 10,
+    },
+  });
+}
+
+type PdfStyles = ReturnType<typeof createStyles>;
+
+// ─── 5. HTML-to-book-pdf converter ───
+
+interface ConvertContext {
+  styles: PdfStyles;
+  pictureBook: boolean;
+  sceneBreak: string;
+  // The next paragraph opens a chapter and gets the drop cap
+  dropCapPending: boolean;
+}
 
 export let elementKeyCounter = 0;
 
@@ -329,6 +438,9 @@ function nextKey(): string {
   return `el-${elementKeyCounter++}`;
 }
 
+// Paragraphs that are only a scene-break marker ("* * *", "#", "~")
+const SCENE_BREAK_TEXT = /^[*#~•·⁂\s]{1,12}$/;
+
 /**
  * Converts an HTML string (from epub chapter content) into an array of
  * book-pdf elements. This is the core bridge between DOM-parsed epub
@@ -338,19 +450,19 @@ function nextKey(): string {
  * styling, but cannot contain <View> or <Image>. Block elements and
  * images must be at <View> level.
  */
-function convertHtmlToElements(html: string): React.ReactNode[] {
+function convertHtmlToElements(html: string, ctx: ConvertContext): React.ReactNode[] {
   const parser = new DOMParser();
   const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
   const root = doc.body.firstChild;
   if (!root) return [];
-  return convertChildren(root);
+  return convertChildren(root, ctx);
 }
 
-function convertChildren(node: Node): React.ReactNode[] {
+function convertChildren(node: Node, ctx: ConvertContext): React.ReactNode[] {
   const results: React.ReactNode[] = [];
   const children = Array.from(node.childNodes);
   for (const child of children) {
-    const converted = convertNode(child);
+    const converted = convertNode(child, ctx);
     if (converted !== null) {
       results.push(converted);
     }
@@ -358,7 +470,17 @@ function convertChildren(node: Node): React.ReactNode[] {
   return results;
 }
 
-function convertNode(node: Node): React.ReactNode {
+function renderSceneBreak(ctx: ConvertContext): React.ReactNode {
+  return (
+    <View key={nextKey()} style={ctx.styles.sceneBreak}>
+      <Text>{ctx.sceneBreak}</Text>
+    </View>
+  );
+}
+
+function convertNode(node: Node, ctx: ConvertContext): React.ReactNode {
+  const { styles } = ctx;
+
   // Text node
   if (node.nodeType === Node.TEXT_NODE) {
     const text = node.textContent ?? '';
@@ -373,22 +495,29 @@ function convertNode(node: Node): React.ReactNode {
 
   switch (tag) {
     case 'p': {
-      const inlineContent = collectInlineContent(el);
+      if (el.classList.contains('scene-break') || SCENE_BREAK_TEXT.test(el.textContent ?? '')) {
+        return renderSceneBreak(ctx);
+      }
+      let inlineContent = collectInlineContent(el);
       if (inlineContent.length === 0) return null;
+      if (ctx.dropCapPending) {
+        ctx.dropCapPending = false;
+        inlineContent = applyDropCap(inlineContent, styles);
+      }
       return <Text key={nextKey()} style={styles.paragraph}>{inlineContent}</Text>;
     }
 
     case 'h1':
-      return <Text key={nextKey()} style={styles.h1}>{el.textContent ?? ''}</Text>;
-
     case 'h2':
-      return <Text key={nextKey()} style={styles.h2}>{el.textContent ?? ''}</Text>;
-
     case 'h3':
     case 'h4':
     case 'h5':
-    case 'h6':
-      return <Text key={nextKey()} style={styles.h3}>{el.textContent ?? ''}</Text>;
+    case 'h6': {
+      // Picture books carry no chapter headings
+      if (ctx.pictureBook) return null;
+      const style = tag === 'h1' ? styles.h1 : tag === 'h2' ? styles.h2 : styles.h3;
+      return <Text key={nextKey()} style={style} minPresenceAhead={40}>{el.textContent ?? ''}</Text>;
+    }
 
     case 'img': {
       const src = el.getAttribute('src');
@@ -398,11 +527,7 @@ function convertNode(node: Node): React.ReactNode {
     }
 
     case 'hr':
-      return (
-        <View key={nextKey()} style={styles.sceneBreak}>
-          <Text>* * *</Text>
-        </View>
-      );
+      return renderSceneBreak(ctx);
 
     case 'br':
       return <Text key={nextKey()}>{'\n'}</Text>;
@@ -414,7 +539,7 @@ function convertNode(node: Node): React.ReactNode {
       for (const li of Array.from(el.children)) {
         if (li.tagName.toLowerCase() === 'li') {
           listIndex++;
-          const prefix = tag === 'ol' ? `${listIndex}. ` : '\u2022 ';
+          const prefix = tag === 'ol' ? `${listIndex}. ` : '• ';
           items.push(
             <Text key={nextKey()} style={styles.listItem}>
               {prefix}{li.textContent ?? ''}
@@ -445,7 +570,7 @@ function convertNode(node: Node): React.ReactNode {
     case 'header':
     case 'footer': {
       // Block-level containers: recursively convert children
-      const children = convertChildren(el);
+      const children = convertChildren(el, ctx);
       if (children.length === 0) return null;
       return <View key={nextKey()}>{children}</View>;
     }
@@ -456,7 +581,7 @@ function convertNode(node: Node): React.ReactNode {
 
     case 'strong':
     case 'b':
-      return <Text key={nextKey()} style={{ fontFamily: 'EBGaramond', fontWeight: 'bold' }}>{el.textContent ?? ''}</Text>;
+      return <Text key={nextKey()} style={{ fontWeight: 'bold' }}>{el.textContent ?? ''}</Text>;
 
     case 'span':
     case 'small':
@@ -468,7 +593,7 @@ function convertNode(node: Node): React.ReactNode {
 
     default: {
       // Unknown element: render children as fallback
-      const children = convertChildren(el);
+      const children = convertChildren(el, ctx);
       if (children.length === 0) return null;
       if (children.length === 1) return children[0];
       return <View key={nextKey()}>{children}</View>;
@@ -504,7 +629,7 @@ function collectInlineContent(el: Element): React.ReactNode[] {
       case 'strong':
       case 'b':
         results.push(
-          <Text key={nextKey()} style={{ fontFamily: 'EBGaramond', fontWeight: 'bold' }}>{childEl.textContent ?? ''}</Text>
+          <Text key={nextKey()} style={{ fontWeight: 'bold' }}>{childEl.textContent ?? ''}</Text>
         );
         break;
       case 'br':
@@ -525,72 +650,317 @@ function collectInlineContent(el: Element): React.ReactNode[] {
   return results;
 }
 
-// ─── 5. BookDocument component ───
+/**
+ * Enlarges the opening letter (with any leading quote) and capitalises the
+ * rest of the first word. Paragraphs that open with styled text are left as is.
+ */
+function applyDropCap(content: React.ReactNode[], styles: PdfStyles): React.ReactNode[] {
+  const [first, ...rest] = content;
+  if (typeof first !== 'string') return content;
+
+  const match = first.match(/^(\s*["“‘'(]*[\p{L}\p{N}])(\S*)([\s\S]*)$/u);
+  if (!match) return content;
+  const [, initial, leadIn, remainder] = match;
+
+  return [
+    <Text key={nextKey()} style={styles.dropCap}>{initial!.trim()}</Text>,
+    <Text key={nextKey()} style={styles.leadIn}>{leadIn!.toUpperCase()}</Text>,
+    remainder!,
+    ...rest,
+  ];
+}
+
+// ─── 6. Running headers ───
+
+interface HeaderValues {
+  title: string;
+  author: string;
+  chapter: string;
+  page: number;
+}
+
+export function formatRunningHeader(template: string, values: HeaderValues): string {
+  return template
+    .replace(/\{title\}/g, values.title)
+    .replace(/\{author\}/g, values.author)
+    .replace(/\{chapter\}/g, values.chapter)
+    .replace(/\{page\}/g, String(values.page));
+}
+
+// ─── 7. Picture-book chapter split: image on one page, body text on the other ───
+
+interface ChapterSplit {
+  versoElements: React.ReactNode[];
+  rectoElements: React.ReactNode[];
+}
+
+function splitChapterForPictureBook(html: string, ctx: ConvertContext): ChapterSplit | null {
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstChild as Element | null;
+  if (!root) return null;
+
+  // Collect renderable content elements in document order, flattening
+  // through container wrappers (div/section/etc.) but stopping at leaf
+  // content tags. Headings are dropped entirely.
+  const leafTags = new Set(['img', 'p', 'blockquote', 'ul', 'ol', 'hr']);
+  const contentEls: Element[] = [];
+  const walk = (node: Node): void => {
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (/^h[1-6]$/.test(tag)) return;
+    if (leafTags.has(tag)) {
+      contentEls.push(el);
+      return;
+    }
+    for (const child of Array.from(el.childNodes)) walk(child);
+  };
+  walk(root);
+
+  if (contentEls.length === 0) return null;
 
-export const BookDocument: React.FC<{
+  const imgIndex = contentEls.findIndex(el => el.tagName.toLowerCase() === 'img');
+
+  // versoElements / rectoElements name their final printed destination:
+  //   versoElements → left (verso) page of the spread
+  //   rectoElements → right (recto) page of the spread
+  const versoElements: React.ReactNode[] = [];
+  const rectoElements: React.ReactNode[] = [];
+
+  if (imgIndex === -1) {
+    // Back matter (no image): all content on recto, verso blank.
+    for (const el of contentEls) {
+      const n = convertNode(el, ctx);
+      if (n) rectoElements.push(n);
+    }
+  } else {
+    // Image chapter: image on recto, body text on verso, caption dropped.
+    const imgEl = contentEls[imgIndex]!;
+    const imgNode = convertNode(imgEl, ctx);
+    if (imgNode) rectoElements.push(imgNode);
+    const captionIndex = imgIndex + 1;
+    const textEls = contentEls.filter((_, i) => i !== imgIndex && i !== captionIndex);
+    for (const el of textEls) {
+      const n = convertNode(el, ctx);
+      if (n) versoElements.push(n);
+    }
+  }
+
+  return { versoElements, rectoElements };
+}
+
+// ─── 8. BookDocument component ───
+
+interface BookDocumentProps {
   chapters: ChapterData[];
   options: PdfOptions;
-}> = ({ chapters, options }) => {
-  const includeToc = options.includeToc !== false;
+  settings?: PdfPrintSettings;
+  // Page count the gutter is sized for
+  pageCount?: number;
+  // Reports the laid-out page count (novel layout only)
+  onPageCount?: (totalPages: number) => void;
+}
+
+export const BookDocument: React.FC<BookDocumentProps> = ({
+  chapters,
+  options,
+  settings = DEFAULT_PDF_PRINT_SETTINGS,
+  pageCount = 0,
+  onPageCount,
+}) => {
+  const layout = getPrintLayout(settings, pageCount);
+  const styles = createStyles(settings, layout);
+  const ctx: ConvertContext = {
+    styles,
+    pictureBook: settings.layout === 'picture-book',
+    sceneBreak: getSceneBreakText(settings),
+    dropCapPending: false,
+  };
+  const pageProps = {
+    size: [layout.pageWidth, layout.pageHeight] as [number, number],
+    mirrorMargins: true,
+    bleed: layout.bleed,
+  };
+
+  if (ctx.pictureBook) {
+    return <PictureBookPages chapters={chapters} options={options} ctx={ctx} pageProps={pageProps} />;
+  }
+
+  const runningHeader = (chapter: string) => (
+    <Text style={styles.header} fixed render={({ pageNumber, subPageNumber }: { pageNumber: number; subPageNumber: number }) => {
+      // No header on a chapter's opening page
+      if (subPageNumber === 1) return '';
+      const template = pageNumber % 2 === 0 ? settings.headerVerso : settings.headerRecto;
+      return formatRunningHeader(template, { title: options.title, author: options.author, chapter, page: pageNumber });
+    }} />
+  );
+
+  const folio = (
+    <Text style={styles.pageNumber} fixed render={({ pageNumber, totalPages }: { pageNumber: number; totalPages: number }) => {
+      if (totalPages) onPageCount?.(totalPages);
+      return String(pageNumber);
+    }} />
+  );
 
   return (
     <Document>
-      <Page size={[432, 648]} style={styles.page}>
-        {/* Running header: hidden on first few pages */}
-        <Text style={styles.header} fixed render={({ pageNumber }: { pageNumber: number }) => {
-          if (pageNumber <= 3) return '';
-          return pageNumber % 2 === 0 ? options.author : options.title;
-        }} />
-
-        {/* Title Page */}
+      {/* Title Page */}
+      <Page {...pageProps} style={styles.page}>
         <View style={styles.titlePage}>
           <Text style={styles.bookTitle}>{options.title}</Text>
           <Text style={styles.bookAuthor}>{options.author}</Text>
         </View>
+      </Page>
 
-        {/* Copyright Page — only if the epub has one */}
-        {options.copyrightHtml && (
-          <View break style={styles.copyrightPage}>
-            {convertHtmlToElements(options.copyrightHtml)}
+      {/* Copyright Page on the back of the title leaf (blank if none) */}
+      <Page {...pageProps} style={styles.page}>
+        {options.copyrightHtml ? (
+          <View style={styles.copyrightPage}>
+            {convertHtmlToElements(options.copyrightHtml, ctx)}
           </View>
+        ) : (
+          <View />
         )}
+      </Page>
 
-        {/* Table of Contents */}
-        {includeToc && (
-          <View break style={styles.tocPage}>
+      {/* Table of Contents */}
+      {settings.includeToc && (
+        <Page {...pageProps} style={styles.page} recto>
+          <View style={styles.tocPage}>
             <Text style={styles.tocHeading}>Contents</Text>
             {chapters.map((ch, i) => (
               <Text key={i} style={styles.tocItem}>{ch.title}</Text>
             ))}
           </View>
-        )}
+          {folio}
+        </Page>
+      )}
+
+      {/* Chapters — each starts on a new page (a recto if asked) */}
+      {chapters.map((ch) => {
+        ctx.dropCapPending = settings.dropCaps;
+        return (
+          <Page key={ch.id} {...pageProps} style={styles.page} recto={settings.chapterStartRecto}>
+            {runningHeader(ch.title)}
+            <View>
+              {convertHtmlToElements(ch.html, ctx)}
+            </View>
+            {folio}
+          </Page>
+        );
+      })}
+    </Document>
+  );
+};
 
-        {/* Chapters — each starts on a new page */}
-        {chapters.map((ch) => (
-          <View break key={ch.id}>
-            {convertHtmlToElements(ch.html)}
+// Picture books (no header, no page numbers, no TOC). Every entry is a
+// two-page spread: image chapters put the image on the recto and the text
+// on the verso; back matter (no image) goes on the recto.
+const PictureBookPages: React.FC<{
+  chapters: ChapterData[];
+  options: PdfOptions;
+  ctx: ConvertContext;
+  pageProps: { size: [number, number]; mirrorMargins: boolean; bleed: number };
+}> = ({ chapters, options, ctx, pageProps }) => {
+  const { styles } = ctx;
+  const splits: Array<{ id: string } & ChapterSplit> = [];
+  for (const ch of chapters) {
+    const s = splitChapterForPictureBook(ch.html, ctx);
+    if (s) splits.push({ id: ch.id, ...s });
+  }
+
+  return (
+    <Document pageLayout="twoPageRight">
+      {/* Page 1 (recto): Title Page */}
+      <Page {...pageProps} style={styles.page}>
+        <View style={styles.titlePage}>
+          <Text style={styles.bookTitle}>{options.title}</Text>
+          <Text style={styles.bookAuthor}>{options.author}</Text>
+        </View>
+      </Page>
+
+      {/* Page 2 (verso): Blank — satisfies KDP's title-page convention
+          (back of title leaf is blank, representing the inside cover) */}
+      <Page {...pageProps} style={styles.page}>
+        <View />
+      </Page>
+
+      {/* Page 3 (recto): Copyright — always emitted (blank if none) */}
+      <Page {...pageProps} style={styles.page}>
+        {options.copyrightHtml ? (
+          <View style={styles.copyrightPage}>
+            {convertHtmlToElements(options.copyrightHtml, ctx)}
           </View>
-        ))}
+        ) : (
+          <View />
+        )}
+      </Page>
 
-        {/* Page numbers: hidden on page 1 */}
-        <Text style={styles.pageNumber} fixed render={({ pageNumber }: { pageNumber: number }) => {
-          if (pageNumber === 1) return '';
-          return String(pageNumber);
-        }} />
+      {/* Page 4 (verso): Forced blank after copyright */}
+      <Page {...pageProps} style={[styles.page, styles.contentPage]}>
+        <View />
       </Page>
+
+      {splits.map(({ id, versoElements, rectoElements }) => (
+        <React.Fragment key={id}>
+          <Page {...pageProps} style={[styles.page, styles.contentPage]}>
+            {rectoElements.length > 0 ? rectoElements : <View />}
+          </Page>
+          <Page {...pageProps} style={[styles.page, styles.contentPage]}>
+            {versoElements.length > 0 ? versoElements : <View />}
+          </Page>
+        </React.Fragment>
+      ))}
     </Document>
   );
 };
 
-// ─── 6. Public API: the one function your icon calls ───
+// ─── 9. Public API ───
+
+/**
+ * Lays out the book and returns the PDF with its page count. With an
+ * automatic gutter the first pass uses a page-count estimate; if the laid-out
+ * book lands in a different gutter band it is laid out again with the right
+ * gutter. Picture books don't report their count, so theirs is the estimate.
+ */
+export async function renderPrintPdf(
+  chapters: ChapterData[],
+  options: PdfOptions,
+  settings: PdfPrintSettings = DEFAULT_PDF_PRINT_SETTINGS,
+  onRelayout?: (pageCount: number) => void,
+): Promise<{ blob: Blob; pageCount: number }> {
+  let pageCount = estimatePageCount(chapters, settings);
+
+  for (let pass = 0; ; pass++) {
+    let laidOutPages = 0;
+    resetElementKeyCounter();
+    const blob = await pdf(
+      <BookDocument
+        chapters={chapters}
+        options={options}
+        settings={settings}
+        pageCount={pageCount}
+        onPageCount={(n) => { laidOutPages = n; }}
+      />
+    ).toBlob();
+
+    const needsRelayout = settings.autoGutter
+      && laidOutPages > 0
+      && getGutterForPageCount(laidOutPages) !== getGutterForPageCount(pageCount);
+    // A relayout can move the count back across the band edge; stop after one
+    if (!needsRelayout || pass > 0) return { blob, pageCount: laidOutPages || pageCount };
+
+    pageCount = laidOutPages;
+    onRelayout?.(pageCount);
+  }
+}
 
 export async function generatePdfFromEpub(
   epubData: ArrayBuffer,
-  options: PdfOptions
+  options: PdfOptions,
+  settings: PdfPrintSettings = DEFAULT_PDF_PRINT_SETTINGS,
 ): Promise<void> {
-  // Reset key counter for each generation
-  resetElementKeyCounter();
-
   const zip = await JSZip.loadAsync(epubData);
   const spinePaths = await getSpineItems(zip);
   const chapters = await extractChapters(zip, spinePaths);
@@ -600,7 +970,28 @@ export async function generatePdfFromEpub(
   }
 
   // Generate PDF blob entirely client-side
-  const blob = await pdf(<BookDocument chapters={chapters} options={options} />).toBlob();
+  const { blob } = await renderPrintPdf(chapters, options, settings);
   const url = URL.createObjectURL(blob);
   window.open(url, '_blank');
 }
+
+/**
+ * One-page PDF of a wraparound cover rendered at print resolution, sized to
+ * the full sheet with the bleed on every edge
+ */
+export async function renderCoverPdf(
+  coverJpeg: Blob,
+  layout: CoverLayout,
+  options: PdfOptions,
+): Promise<Blob> {
+  const width = layout.width * 72;
+  const height = layout.height * 72;
+  return pdf(
+    <Document title={`${options.title} (cover)`} author={options.author}>
+      <Page size={[width, height]} bleed={layout.bleed * 72} spread>
+        {/* eslint-disable-next-line jsx-a11y/alt-text */}
+        <Image src={coverJpeg} cache={false} style={{ position: 'absolute', top: 0, left: 0, width, height }} />
+      </Page>
+    </Document>
+  ).toBlob();
+}
@@ -0,0 +1,571 @@
+// src/lib/epub-validator.ts
+// Client-side EPUB checker - an epubcheck-style pass over a generated EPUB zip.
+//
+// Checks (codes follow epubcheck where one exists, so messages can be looked up):
+// - Container: mimetype first, stored, no extra field; META-INF/container.xml rootfile
+// - Package: OPF well-formed, required metadata, manifest/spine consistency, nav item
+// - Resources: manifest items present in the zip, referenced files present and declared
+// - Links: internal hyperlinks point at spine documents and existing fragment ids
+// - XHTML: content documents are well-formed XML, declared properties (mathml, svg)
+// - Navigation: nav document has a toc nav with links
+// - Accessibility: schema.org accessibility metadata, image alt text
+
+import JSZip from 'jszip';
+
+export type EpubIssueSeverity = 'error' | 'warning' | 'info';
+
+export type EpubIssueCategory =
+  | 'container'
+  | 'package'
+  | 'resources'
+  | 'links'
+  | 'xhtml'
+  | 'navigation'
+  | 'accessibility';
+
+export interface EpubIssue {
+  code: string;
+  severity: EpubIssueSeverity;
+  category: EpubIssueCategory;
+  message: string;
+  path?: string;          // Zip path of the offending file (e.g. "OEBPS/chapter-1.xhtml")
+}
+
+export interface EpubValidationReport {
+  issues: EpubIssue[];
+  errorCount: number;
+  warningCount: number;
+  fileCount: number;
+}
+
+export const EPUB_ISSUE_CATEGORY_LABELS: Record<EpubIssueCategory, string> = {
+  container: 'Container',
+  package: 'Package Document',
+  resources: 'Resources',
+  links: 'Links',
+  xhtml: 'XHTML',
+  navigation: 'Navigation',
+  accessibility: 'Accessibility',
+};
+
+const EPUB_NS = 'http://www.idpf.org/2007/ops';
+const XHTML_MEDIA_TYPE = 'application/xhtml+xml';
+
+const MEDIA_TYPES_BY_EXTENSION: Record<string, string> = {
+  xhtml: XHTML_MEDIA_TYPE,
+  html: XHTML_MEDIA_TYPE,
+  css: 'text/css',
+  ncx: 'application/x-dtbncx+xml',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/mp4',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+  otf: 'font/otf',
+  ttf: 'font/ttf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+};
+
+const REQUIRED_ACCESSIBILITY_META = [
+  'schema:accessMode',
+  'schema:accessibilityFeature',
+  'schema:accessibilityHazard',
+  'schema:accessibilitySummary',
+];
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  path: string;           // Resolved zip path
+  mediaType: string;
+  properties: string[];
+}
+
+/**
+ * Validate an EPUB file. Never throws for malformed input - every problem
+ * (including an unreadable zip) is reported as an issue.
+ */
+export async function validateEpub(data: Uint8Array | ArrayBuffer): Promise<EpubValidationReport> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const issues: EpubIssue[] = [];
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch (error) {
+    issues.push({
+      code: 'PKG-008',
+      severity: 'error',
+      category: 'container',
+      message: `Unable to read the EPUB as a zip archive: ${(error as Error).message}`,
+    });
+    return buildReport(issues, 0);
+  }
+
+  const filePaths = Object.keys(zip.files).filter(p => !zip.files[p]!.dir);
+
+  checkMimetype(bytes, issues);
+
+  const opfPath = await checkContainer(zip, issues);
+  if (!opfPath) {
+    return buildReport(issues, filePaths.length);
+  }
+
+  const opfText = await zip.file(opfPath)!.async('string');
+  const opfDoc = parseXml(opfText);
+  const opfError = getParseError(opfDoc);
+  if (opfError) {
+    issues.push({
+      code: 'RSC-005',
+      severity: 'error',
+      category: 'package',
+      message: `Package document is not well-formed: ${opfError}`,
+      path: opfPath,
+    });
+    return buildReport(issues, filePaths.length);
+  }
+
+  checkMetadata(opfDoc, opfPath, issues);
+  const manifest = checkManifest(opfDoc, opfPath, filePaths, issues);
+  const spinePaths = checkSpine(opfDoc, opfPath, manifest, issues);
+
+  // Parse every XHTML content document once; later checks share the DOMs
+  const documents = new Map<string, Document>();
+  for (const item of manifest.values()) {
+    if (item.mediaType !== XHTML_MEDIA_TYPE || !zip.file(item.path)) continue;
+    const text = await zip.file(item.path)!.async('string');
+    const doc = parseXml(text);
+    const error = getParseError(doc);
+    if (error) {
+      issues.push({
+        code: 'RSC-005',
+        severity: 'error',
+        category: 'xhtml',
+        message: `Document is not well-formed XHTML: ${error}`,
+        path: item.path,
+      });
+      continue;
+    }
+    documents.set(item.path, doc);
+    checkDocumentProperties(item, text, opfPath, issues);
+  }
+
+  const manifestPaths = new Set(Array.from(manifest.values()).map(item => item.path));
+  for (const [path, doc] of documents) {
+    checkReferences(path, doc, zip, manifestPaths, spinePaths, documents, issues);
+  }
+
+  checkNav(manifest, documents, issues);
+
+  return buildReport(issues, filePaths.length);
+}
+
+function buildReport(issues: EpubIssue[], fileCount: number): EpubValidationReport {
+  return {
+    issues,
+    errorCount: issues.filter(i => i.severity === 'error').length,
+    warningCount: issues.filter(i => i.severity === 'warning').length,
+    fileCount,
+  };
+}
+
+// ============================================
+// Container
+// ============================================
+
+/**
+ * The mimetype entry must be the first local file header, stored (not
+ * deflated) and without an extra field, so readers can sniff it at offset 38.
+ * JSZip hides these details, so read the raw local file header.
+ */
+function checkMimetype(bytes: Uint8Array, issues: EpubIssue[]): void {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 30 || view.getUint32(0, true) !== 0x04034b50) {
+    issues.push({ code: 'PKG-006', severity: 'error', category: 'container', message: 'The first zip entry must be the "mimetype" file.', path: 'mimetype' });
+    return;
+  }
+  const compression = view.getUint16(8, true);
+  const nameLength = view.getUint16(26, true);
+  const extraLength = view.getUint16(28, true);
+  const name = new TextDecoder().decode(bytes.subarray(30, 30 + nameLength));
+
+  if (name !== 'mimetype') {
+    issues.push({ code: 'PKG-006', severity: 'error', category: 'container', message: `The first zip entry must be "mimetype" (found "${name}").`, path: 'mimetype' });
+    return;
+  }
+  if (compression !== 0) {
+    issues.push({ code: 'PKG-007', severity: 'error', category: 'container', message: 'The mimetype file must be stored uncompressed.', path: 'mimetype' });
+    return;
+  }
+  if (extraLength !== 0) {
+    issues.push({ code: 'PKG-005', severity: 'error', category: 'container', message: 'The mimetype entry must not have an extra field in its zip header.', path: 'mimetype' });
+  }
+  const contentStart = 30 + nameLength + extraLength;
+  const content = new TextDecoder().decode(bytes.subarray(contentStart, contentStart + 20));
+  if (content !== 'application/epub+zip') {
+    issues.push({ code: 'PKG-007', severity: 'error', category: 'container', message: 'The mimetype file must contain exactly "application/epub+zip".', path: 'mimetype' });
+  }
+}
+
+/**
+ * Returns the package document path, or null when it cannot be located
+ */
+async function checkContainer(zip: JSZip, issues: EpubIssue[]): Promise<string | null> {
+  const containerFile = zip.file('META-INF/container.xml');
+  if (!containerFile) {
+    issues.push({ code: 'RSC-002', severity: 'error', category: 'container', message: 'META-INF/container.xml is missing.', path: 'META-INF/container.xml' });
+    return null;
+  }
+
+  const doc = parseXml(await containerFile.async('string'));
+  const error = getParseError(doc);
+  if (error) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'container', message: `container.xml is not well-formed: ${error}`, path: 'META-INF/container.xml' });
+    return null;
+  }
+
+  const rootfile = doc.getElementsByTagNameNS('*', 'rootfile')[0];
+  const fullPath = rootfile?.getAttribute('full-path');
+  if (!fullPath) {
+    issues.push({ code: 'RSC-003', severity: 'error', category: 'container', message: 'container.xml does not declare a rootfile.', path: 'META-INF/container.xml' });
+    return null;
+  }
+  if (!zip.file(fullPath)) {
+    issues.push({ code: 'OPF-002', severity: 'error', category: 'container', message: `The package document "${fullPath}" was not found.`, path: 'META-INF/container.xml' });
+    return null;
+  }
+  return fullPath;
+}
+
+// ============================================
+// Package document
+// ============================================
+
+function checkMetadata(opf: Document, opfPath: string, issues: EpubIssue[]): void {
+  const pkg = opf.documentElement;
+  if (pkg.getAttribute('version') !== '3.0') {
+    issues.push({ code: 'OPF-001', severity: 'warning', category: 'package', message: `Package version is "${pkg.getAttribute('version') || 'missing'}"; EPUB 3.0 is expected.`, path: opfPath });
+  }
+
+  const uniqueId = pkg.getAttribute('unique-identifier');
+  const identifiers = Array.from(opf.getElementsByTagNameNS('*', 'identifier'));
+  if (identifiers.length === 0) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: 'Metadata must include a dc:identifier.', path: opfPath });
+  } else if (!uniqueId || !identifiers.some(el => el.getAttribute('id') === uniqueId)) {
+    issues.push({ code: 'OPF-030', severity: 'error', category: 'package', message: 'The unique-identifier attribute does not reference a dc:identifier.', path: opfPath });
+  }
+
+  for (const name of ['title', 'language']) {
+    const el = opf.getElementsByTagNameNS('*', name)[0];
+    if (!el || !el.textContent?.trim()) {
+      issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: `Metadata must include a non-empty dc:${name}.`, path: opfPath });
+    }
+  }
+
+  const metaProperties = Array.from(opf.getElementsByTagNameNS('*', 'meta'))
+    .map(el => el.getAttribute('property'))
+    .filter((p): p is string => !!p);
+  if (!metaProperties.includes('dcterms:modified')) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: 'Metadata must include a dcterms:modified date.', path: opfPath });
+  }
+
+  for (const property of REQUIRED_ACCESSIBILITY_META) {
+    if (!metaProperties.includes(property)) {
+      issues.push({ code: 'ACC-002', severity: 'warning', category: 'accessibility', message: `Accessibility metadata "${property}" is missing.`, path: opfPath });
+    }
+  }
+  const conformsTo = Array.from(opf.getElementsByTagNameNS('*', 'conformsTo')).length > 0
+    || Array.from(opf.getElementsByTagNameNS('*', 'link')).some(el => el.getAttribute('rel') === 'dcterms:conformsTo');
+  if (!conformsTo) {
+    issues.push({ code: 'ACC-001', severity: 'info', category: 'accessibility', message: 'No accessibility conformance statement (dcterms:conformsTo) is declared.', path: opfPath });
+  }
+}
+
+function checkManifest(opf: Document, opfPath: string, filePaths: string[], issues: EpubIssue[]): Map<string, ManifestItem> {
+  const manifest = new Map<string, ManifestItem>();
+  const opfDir = dirname(opfPath);
+
+  for (const el of Array.from(opf.getElementsByTagNameNS('*', 'item'))) {
+    const id = el.getAttribute('id') || '';
+    const href = el.getAttribute('href') || '';
+    const mediaType = el.getAttribute('media-type') || '';
+    if (!id || !href || !mediaType) {
+      issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: `Manifest item "${id || href}" is missing id, href or media-type.`, path: opfPath });
+      continue;
+    }
+    if (manifest.has(id)) {
+      issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: `Duplicate manifest id "${id}".`, path: opfPath });
+      continue;
+    }
+
+    const path = resolvePath(opfDir, href);
+    const item: ManifestItem = {
+      id,
+      href,
+      path,
+      mediaType,
+      properties: (el.getAttribute('properties') || '').split(/\s+/).filter(Boolean),
+    };
+    manifest.set(id, item);
+
+    if (!filePaths.includes(path)) {
+      issues.push({ code: 'RSC-001', severity: 'error', category: 'resources', message: `Manifest item "${href}" was not found in the EPUB.`, path });
+    }
+
+    const expected = MEDIA_TYPES_BY_EXTENSION[extension(path)];
+    if (expected && expected !== mediaType && !(expected === 'audio/mp4' && mediaType === 'audio/aac')) {
+      issues.push({ code: 'OPF-013', severity: 'warning', category: 'package', message: `"${href}" is declared as ${mediaType} but looks like ${expected}.`, path });
+    }
+  }
+
+  const declared = new Set(Array.from(manifest.values()).map(item => item.path));
+  for (const path of filePaths) {
+    if (path === 'mimetype' || path.startsWith('META-INF/') || path === opfPath || declared.has(path)) continue;
+    issues.push({ code: 'OPF-003', severity: 'info', category: 'package', message: `"${path}" is in the EPUB but not declared in the manifest.`, path });
+  }
+
+  const navItems = Array.from(manifest.values()).filter(item => item.properties.includes('nav'));
+  if (navItems.length !== 1) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'navigation', message: `Exactly one manifest item must have the "nav" property (found ${navItems.length}).`, path: opfPath });
+  }
+
+  const coverItems = Array.from(manifest.values()).filter(item => item.properties.includes('cover-image'));
+  if (coverItems.length === 0) {
+    issues.push({ code: 'OPF-COVER', severity: 'info', category: 'package', message: 'No cover image is declared (manifest property "cover-image").', path: opfPath });
+  }
+
+  return manifest;
+}
+
+/**
+ * Returns the set of zip paths that are in the spine
+ */
+function checkSpine(opf: Document, opfPath: string, manifest: Map<string, ManifestItem>, issues: EpubIssue[]): Set<string> {
+  const spinePaths = new Set<string>();
+  const spine = opf.getElementsByTagNameNS('*', 'spine')[0];
+  if (!spine) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: 'The package document has no spine.', path: opfPath });
+    return spinePaths;
+  }
+
+  const tocId = spine.getAttribute('toc');
+  if (tocId && manifest.get(tocId)?.mediaType !== 'application/x-dtbncx+xml') {
+    issues.push({ code: 'OPF-050', severity: 'error', category: 'navigation', message: `The spine toc attribute "${tocId}" does not reference an NCX manifest item.`, path: opfPath });
+  }
+
+  const seen = new Set<string>();
+  const itemrefs = Array.from(spine.getElementsByTagNameNS('*', 'itemref'));
+  if (itemrefs.length === 0) {
+    issues.push({ code: 'RSC-005', severity: 'error', category: 'package', message: 'The spine is empty.', path: opfPath });
+  }
+  for (const ref of itemrefs) {
+    const idref = ref.getAttribute('idref') || '';
+    const item = manifest.get(idref);
+    if (!item) {
+      issues.push({ code: 'OPF-049', severity: 'error', category: 'package', message: `Spine itemref "${idref}" does not match any manifest item.`, path: opfPath });
+      continue;
+    }
+    if (seen.has(idref)) {
+      issues.push({ code: 'OPF-034', severity: 'error', category: 'package', message: `Spine references "${item.href}" more than once.`, path: opfPath });
+    }
+    seen.add(idref);
+    if (item.mediaType !== XHTML_MEDIA_TYPE && item.mediaType !== 'image/svg+xml') {
+      issues.push({ code: 'OPF-043', severity: 'error', category: 'package', message: `Spine item "${item.href}" is ${item.mediaType}, not a content document.`, path: item.path });
+    }
+    spinePaths.add(item.path);
+  }
+
+  for (const item of manifest.values()) {
+    if (item.mediaType === XHTML_MEDIA_TYPE && !spinePaths.has(item.path) && !item.properties.includes('nav')) {
+      issues.push({ code: 'OPF-096', severity: 'warning', category: 'package', message: `Content document "${item.href}" is not in the spine.`, path: item.path });
+    }
+  }
+
+  return spinePaths;
+}
+
+/**
+ * Manifest properties must match what the document actually contains
+ */
+function checkDocumentProperties(item: ManifestItem, text: string, opfPath: string, issues: EpubIssue[]): void {
+  const checks: Array<{ property: string; present: boolean }> = [
+    { property: 'mathml', present: /<(?:\w+:)?math[\s>]/.test(text) },
+    { property: 'svg', present: /<(?:\w+:)?svg[\s>]/.test(text) },
+    { property: 'scripted', present: /<script[\s>]/.test(text) },
+  ];
+  for (const { property, present } of checks) {
+    const declared = item.properties.includes(property);
+    if (present && !declared) {
+      issues.push({ code: 'OPF-014', severity: 'error', category: 'package', message: `"${item.href}" contains ${property} content but its manifest item lacks the "${property}" property.`, path: item.path });
+    } else if (!present && declared) {
+      issues.push({ code: 'OPF-015', severity: 'warning', category: 'package', message: `"${item.href}" declares the "${property}" property but has no ${property} content.`, path: opfPath });
+    }
+  }
+}
+
+// ============================================
+// Content documents
+// ============================================
+
+function checkReferences(
+  path: string,
+  doc: Document,
+  zip: JSZip,
+  manifestPaths: Set<string>,
+  spinePaths: Set<string>,
+  documents: Map<string, Document>,
+  issues: EpubIssue[],
+): void {
+  const dir = dirname(path);
+
+  // Embedded resources: must exist and be declared
+  const resourceRefs: Array<{ el: Element; attr: string }> = [];
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'img'))) resourceRefs.push({ el, attr: 'src' });
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'source'))) resourceRefs.push({ el, attr: 'src' });
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'audio'))) resourceRefs.push({ el, attr: 'src' });
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'video'))) resourceRefs.push({ el, attr: 'src' });
+  for (const el of Array.from(doc.getElementsByTagNameNS('*', 'link'))) resourceRefs.push({ el, attr: 'href' });
+
+  for (const { el, attr } of resourceRefs) {
+    const ref = el.getAttribute(attr);
+    if (!ref || isExternal(ref)) continue;
+    const target = resolvePath(dir, stripFragment(ref));
+    if (!zip.file(target)) {
+      issues.push({ code: 'RSC-007', severity: 'error', category: 'resources', message: `Referenced resource "${ref}" could not be found.`, path });
+    } else if (!manifestPaths.has(target)) {
+      issues.push({ code: 'RSC-008', severity: 'error', category: 'resources', message: `Referenced resource "${ref}" is not declared in the manifest.`, path });
+    }
+  }
+
+  // Hyperlinks: target document must exist (and be reachable), fragments must exist
+  for (const a of Array.from(doc.getElementsByTagNameNS('*', 'a'))) {
+    const href = a.getAttribute('href');
+    if (!href || isExternal(href)) continue;
+    const [file, fragment] = splitFragment(href);
+    const target = file ? resolvePath(dir, file) : path;
+
+    if (!zip.file(target)) {
+      issues.push({ code: 'RSC-007', severity: 'error', category: 'links', message: `Link target "${href}" could not be found.`, path });
+      continue;
+    }
+    if (target !== path && !spinePaths.has(target) && documents.has(target)) {
+      issues.push({ code: 'RSC-011', severity: 'error', category: 'links', message: `Link "${href}" points to a document that is not in the spine.`, path });
+    }
+    if (fragment) {
+      const targetDoc = documents.get(target);
+      if (targetDoc && !findById(targetDoc, decodeURIComponent(fragment))) {
+        issues.push({ code: 'RSC-012', severity: 'error', category: 'links', message: `Fragment "#${fragment}" in link "${href}" is not defined in the target document.`, path });
+      }
+    }
+  }
+
+  // Duplicate ids break fragment links and footnotes
+  const ids = new Set<string>();
+  for (const el of Array.from(doc.getElementsByTagName('*'))) {
+    const id = el.getAttribute('id');
+    if (!id) continue;
+    if (ids.has(id)) {
+      issues.push({ code: 'RSC-005', severity: 'error', category: 'xhtml', message: `Duplicate id "${id}".`, path });
+    }
+    ids.add(id);
+  }
+
+  // Accessibility: informative images need alternative text
+  for (const img of Array.from(doc.getElementsByTagNameNS('*', 'img'))) {
+    if (!img.hasAttribute('alt')) {
+      issues.push({ code: 'ACC-004', severity: 'warning', category: 'accessibility', message: `Image "${img.getAttribute('src') || ''}" has no alt attribute.`, path });
+    } else if (!img.getAttribute('alt')?.trim() && !img.closest('figure')) {
+      issues.push({ code: 'ACC-004', severity: 'info', category: 'accessibility', message: `Image "${img.getAttribute('src') || ''}" has empty alt text (treated as decorative).`, path });
+    }
+  }
+}
+
+function checkNav(manifest: Map<string, ManifestItem>, documents: Map<string, Document>, issues: EpubIssue[]): void {
+  const navItem = Array.from(manifest.values()).find(item => item.properties.includes('nav'));
+  if (!navItem) return;
+  const navDoc = documents.get(navItem.path);
+  if (!navDoc) return;  // Missing or malformed - already reported
+
+  const tocNav = Array.from(navDoc.getElementsByTagNameNS('*', 'nav'))
+    .find(nav => (nav.getAttributeNS(EPUB_NS, 'type') || nav.getAttribute('epub:type') || '').split(/\s+/).includes('toc'));
+  if (!tocNav) {
+    issues.push({ code: 'NAV-001', severity: 'error', category: 'navigation', message: 'The navigation document has no nav element with epub:type="toc".', path: navItem.path });
+    return;
+  }
+  if (tocNav.getElementsByTagNameNS('*', 'a').length === 0) {
+    issues.push({ code: 'NAV-002', severity: 'error', category: 'navigation', message: 'The table of contents has no entries.', path: navItem.path });
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+/**
+ * DOMParser reports XML errors as a <parsererror> element instead of throwing
+ */
+function getParseError(doc: Document): string | null {
+  const error = doc.getElementsByTagName('parsererror')[0];
+  if (!error) return null;
+  return (error.textContent || 'XML parse error').replace(/\s+/g, ' ').trim().slice(0, 300);
+}
+
+function findById(doc: Document, id: string): Element | null {
+  for (const el of Array.from(doc.getElementsByTagName('*'))) {
+    if (el.getAttribute('id') === id) return el;
+  }
+  return null;
+}
+
+function isExternal(ref: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:/i.test(ref);
+}
+
+function stripFragment(ref: string): string {
+  return splitFragment(ref)[0];
+}
+
+function splitFragment(ref: string): [string, string] {
+  const idx = ref.indexOf('#');
+  return idx === -1 ? [ref, ''] : [ref.slice(0, idx), ref.slice(idx + 1)];
+}
+
+function dirname(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx === -1 ? '' : path.slice(0, idx + 1);
+}
+
+function extension(path: string): string {
+  return path.split('.').pop()?.toLowerCase() || '';
+}
+
+/**
+ * Resolve a relative href against a directory ("OEBPS/") into a zip path
+ */
+function resolvePath(dir: string, href: string): string {
+  let decoded = href;
+  try {
+    decoded = decodeURIComponent(href);
+  } catch {
+    // Keep malformed escapes as-is; the lookup will simply fail
+  }
+  const parts = (dir + decoded).split('/');
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') resolved.pop();
+    else resolved.push(part);
+  }
+  return resolved.join('/');
+}
@@ -8,16 +8,8 @@
  */
 
 import { loadFullWorkingCopy, loadSettings, loadManuscriptMeta } from '@/services/manuscriptStorage';
-
-/**
- * Represents a parsed element from XHTML with its Fountain type information
- */
-interface FountainElement {
-  text: string;
-  type: string;        // 'character', 'dialogue', 'parenthetical', 'scene_heading', 'action', 'transition', 'centered', 'section', 'synopsis', 'lyrics', 'note', 'page_break'
-  depth?: number;      // For sections: # depth
-  dual?: string;       // 'left' or 'right' for dual dialogue
-}
+import { stripReviewMarkupFromXhtml } from '@/lib/plateReview';
+import { extractScreenplayElements, type ScreenplayElement } from '@/lib/screenplay';
 
 /**
  * Check if two consecutive elements should have NO blank line between them
@@ -37,69 +29,10 @@ function isWithinDialogueBlock(prevType: string, currentType: string): boolean {
   return false;
 }
 
-/**
- * Heuristic detection of Fountain element types from plain text.
- * Used as fallback when data-fountain attributes are absent (user-edited content).
- */
-function detectFountainType(text: string, prevType: string): string {
-  // Page break
-  if (/^={3,}$/.test(text.trim())) return 'page_break';
-
-  // Scene heading patterns: INT. / EXT. / EST. / INT./EXT. / I./E.
-  if (/^(?:(?:int|i)\.?\/(?:ext|e)|int|ext|est)[. ]/i.test(text)) return 'scene_heading';
-
-  // Forced scene heading (starts with .)
-  if (text.startsWith('.') && text.length > 1 && !text.startsWith('..')) return 'scene_heading';
-
-  // Transition: ALL CAPS ending with TO: or forced with >
-  if (/^[A-Z\s]+TO:$/.test(text.trim())) return 'transition';
-  if (text.startsWith('>') && !text.endsWith('<')) return 'transition';
-
-  // Centered text: >text<
-  if (text.startsWith('>') && text.endsWith('<')) return 'centered';
-
-  // Parenthetical: (text)
-  if (/^\(.*\)$/.test(text.trim())) {
-    // Only if we're in a dialogue context
-    if (prevType === 'character' || prevType === 'dialogue' || prevType === 'parenthetical') {
-      return 'parenthetical';
-    }
-  }
-
-  // Character: ALL CAPS, possibly with (V.O.) or (O.S.) or (CONT'D)
-  // Must not be a scene heading and must be reasonably short
-  if (/^[A-Z][A-Z\s.'()\-]+$/.test(text.trim()) && text.trim().length < 60) {
-    // Exclude things that look like they could be action (long all-caps lines)
-    if (text.trim().length <= 40) return 'character';
-  }
-
-  // After a character or parenthetical, text is dialogue
-  if (prevType === 'character' || prevType === 'parenthetical') return 'dialogue';
-
-  // After dialogue, could be more dialogue (multi-paragraph)
-  // Only if it doesn't match other types above
-  if (prevType === 'dialogue' && !text.match(/^[A-Z][A-Z\s.'()\-]+$/)) return 'dialogue';
-
-  // Section: starts with # (one or more)
-  if (/^#{1,6}\s/.test(text)) return 'section';
-
-  // Synopsis: starts with =
-  if (text.startsWith('= ') || text.startsWith('=\t')) return 'synopsis';
-
-  // Lyrics: starts with ~
-  if (text.startsWith('~')) return 'lyrics';
-
-  // Note: [[text]]
-  if (text.startsWith('[[') && text.endsWith(']]')) return 'note';
-
-  // Default: action
-  return 'action';
-}
-
 /**
  * Format a Fountain element's text with proper Fountain markup based on its type.
  */
-function formatFountainElement(element: FountainElement): string {
+function formatFountainElement(element: ScreenplayElement): string {
   const text = element.text;
 
   switch (element.type) {
@@ -152,64 +85,6 @@ function formatFountainElement(element: FountainElement): string {
   }
 }
 
-/**
- * Extract Fountain elements from XHTML content.
- * Reads data-fountain attributes when present, falls back to heuristic detection.
- */
-function extractFountainFromXhtml(xhtml: string): FountainElement[] {
-  if (!xhtml || xhtml.trim() === '') {
-    return [];
-  }
-
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xhtml, 'text/html');
-  const body = doc.body;
-  if (!body) return [];
-
-  const elements: FountainElement[] = [];
-  const blockEls = body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, blockquote, li, div');
-
-  // Track previous type for heuristic context
-  let prevType = '';
-
-  for (const el of blockEls) {
-    const text = el.textContent?.trim() || '';
-    if (!text) continue;
-
-    // Check for data-fountain attribute (set during import)
-    const fountainType = el.getAttribute('data-fountain');
-    const fountainDepth = el.getAttribute('data-fountain-depth');
-    const fountainDual = el.getAttribute('data-fountain-dual');
-
-    let elementType: string;
-    let depth: number | undefined;
-    let dual: string | undefined;
-
-    if (fountainType) {
-      // Use the stored type
-      elementType = fountainType;
-      if (fountainDepth) depth = parseInt(fountainDepth, 10);
-      if (fountainDual) dual = fountainDual;
-    } else {
-      // Heuristic fallback for user-edited content
-      elementType = detectFountainType(text, prevType);
-    }
-
-    elements.push({ text, type: elementType, depth, dual });
-    prevType = elementType;
-  }
-
-  // If no block elements found, fall back to body text
-  if (elements.length === 0) {
-    const bodyText = body.textContent?.trim() || '';
-    if (bodyText) {
-      elements.push({ text: bodyText, type: 'action' });
-    }
-  }
-
-  return elements;
-}
-
 /**
  * Generate Fountain title page block from stored fountain title page fields.
  * Falls back to constructing from title/author if no stored fields exist.
@@ -303,7 +178,8 @@ export async function exportWorkspaceToFountain(): Promise<Blob> {
     if (section.id === 'title-page' || section.title.toLowerCase() === 'title page') continue;
 
     // Extract Fountain elements with type information
-    const elements = extractFountainFromXhtml(section.xhtml);
+    // Pending tracked changes are rejected, as in the EPUB
+    const elements = extractScreenplayElements(stripReviewMarkupFromXhtml(section.xhtml));
     if (elements.length === 0) continue;
 
     // Build section content with proper Fountain spacing
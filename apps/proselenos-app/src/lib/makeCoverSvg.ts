@@ -3,6 +3,16 @@
 // Uses fonts from /public/fonts/
 // Standard Ebooks-style cover design: dark box near bottom with title + author
 
+import {
+  BARCODE_HEIGHT_INCHES,
+  BARCODE_MARGIN_INCHES,
+  BARCODE_WIDTH_INCHES,
+  COVER_DPI,
+  COVER_SAFE_INCHES,
+  SPINE_TEXT_MARGIN_INCHES,
+  type CoverLayout,
+} from "@/lib/constants/printCover";
+
 const WIDTH = 1600;                 // KDP standard width
 const HEIGHT = 2560;                // KDP standard height
 const TITLE_BOX_Y = 1975;           // Y position where dark box starts (scaled)
@@ -469,6 +479,262 @@ export async function makeTypographySvg({
 </svg>`;
 }
 
+// === PAPERBACK WRAPAROUND ===
+// Back cover, spine and front cover on one sheet at print resolution.
+// Positions come from getCoverLayout (lib/constants/printCover).
+
+async function loadCoverFonts(): Promise<{ regB64: string; boldB64: string }> {
+  const [regBuf, boldBuf] = await Promise.all([
+    fetch("/fonts/EBGaramond-Regular.ttf").then((r) => r.arrayBuffer()),
+    fetch("/fonts/EBGaramond-Bold.ttf").then((r) => r.arrayBuffer()),
+  ]);
+
+  // Load fonts into document for Canvas text measurement
+  const ffReg = new FontFace("EBGaramondEmbed", regBuf, { weight: "400", style: "normal" });
+  const ffBold = new FontFace("EBGaramondEmbed", boldBuf, { weight: "700", style: "normal" });
+  await Promise.all([ffReg.load(), ffBold.load()]);
+  document.fonts.add(ffReg);
+  document.fonts.add(ffBold);
+  await document.fonts.ready;
+
+  return {
+    regB64: bytesToBase64(new Uint8Array(regBuf)),
+    boldB64: bytesToBase64(new Uint8Array(boldBuf)),
+  };
+}
+
+function textElement(
+  line: string,
+  x: number,
+  y: number,
+  fontWeight: string,
+  fontSize: number,
+  fill: string,
+  anchor = "middle"
+): string {
+  return `<text x="${x}" y="${y}" text-anchor="${anchor}"
+        font-family="EBGaramondEmbed" font-weight="${fontWeight}"
+        font-size="${fontSize}" fill="${fill}">${esc(line)}</text>`;
+}
+
+// The ebook cover's title box, scaled to a front panel of any trim size
+async function frontTitleBox(
+  title: string,
+  author: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fontColor: string
+): Promise<string> {
+  const scale = width / WIDTH;
+  const boxX = x + BOX_MARGIN_X * scale;
+  const boxW = width - BOX_MARGIN_X * 2 * scale;
+  const boxH = Math.min(TITLE_BOX_HEIGHT * scale, height * 0.3);
+  // Same distance from the bottom edge as on the ebook cover
+  const boxY = y + height - boxH - (HEIGHT - TITLE_BOX_Y - TITLE_BOX_HEIGHT) * scale;
+  const maxW = width - SAFE_MARGIN_X * 2 * scale;
+  const padding = 25 * scale;
+  const availableHeight = boxH - padding * 2;
+
+  const upperTitle = title.toUpperCase();
+  let titleLines = [upperTitle];
+  let titleSize = await fitFontSize(upperTitle, "700", maxW, Math.round(165 * scale));
+  if (titleSize < 50 * scale) {
+    titleLines = wrapText(upperTitle, "700", Math.round(118 * scale), maxW);
+    titleSize = Math.round(165 * scale);
+    for (const line of titleLines) {
+      titleSize = Math.min(titleSize, await fitFontSize(line, "700", maxW, titleSize));
+    }
+  }
+  let authorSize = Math.round(83 * scale);
+  let authorGap = Math.round(110 * scale);
+  let authorLines = wrapText(author, "400", authorSize, maxW);
+
+  const totalHeight = () =>
+    titleSize + (titleLines.length - 1) * Math.round(titleSize * 1.2) +
+    authorGap + authorSize + (authorLines.length - 1) * Math.round(authorSize * 1.3);
+  if (totalHeight() > availableHeight) {
+    const shrink = availableHeight / totalHeight();
+    titleSize = Math.floor(titleSize * shrink);
+    authorSize = Math.floor(authorSize * shrink);
+    authorGap = Math.floor(authorGap * shrink);
+    authorLines = wrapText(author, "400", authorSize, maxW);
+  }
+
+  const centerX = x + width / 2;
+  const titleStartY = boxY + padding + (availableHeight - totalHeight()) / 2 + titleSize;
+  const titleTexts = titleLines.map((line, i) =>
+    textElement(line, centerX, titleStartY + i * Math.round(titleSize * 1.2), "700", titleSize, fontColor)
+  );
+  const authorY = titleStartY + (titleLines.length - 1) * Math.round(titleSize * 1.2) + authorGap + authorSize;
+  const authorTexts = authorLines.map((line, i) =>
+    textElement(line, centerX, authorY + i * Math.round(authorSize * 1.3), "400", authorSize, fontColor)
+  );
+
+  return `<rect x="${boxX}" y="${boxY}" width="${boxW}" height="${boxH}"
+        fill="#000000" fill-opacity="${BOX_OPACITY}"/>
+  ${titleTexts.join("\n  ")}
+  ${authorTexts.join("\n  ")}`;
+}
+
+function wrapParagraphs(text: string, fontWeight: string, fontSize: number, maxWidth: number): string[][] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .map((p) => wrapText(p, fontWeight, fontSize, maxWidth));
+}
+
+export async function makeWraparoundCoverSvg({
+  title,
+  author,
+  blurb = "",
+  bio = "",
+  layout,
+  bg = "#3366AA",
+  fontColor = "#FFFFFF",
+  frontImageDataUrl,
+  guides = false,
+}: {
+  title: string;
+  author: string;
+  blurb?: string;
+  bio?: string;
+  layout: CoverLayout;
+  bg?: string;
+  fontColor?: string;
+  frontImageDataUrl?: string;  // The ebook cover, used as the front panel
+  guides?: boolean;            // Trim, fold, safe-area and barcode outlines for proofing
+}): Promise<string> {
+  const { regB64, boldB64 } = await loadCoverFonts();
+
+  const px = (inches: number) => Math.round(inches * COVER_DPI);
+  const width = px(layout.width);
+  const height = px(layout.height);
+  const bleed = px(layout.bleed);
+  const trimW = px(layout.trimWidth);
+  const trimH = px(layout.trimHeight);
+  const backX = px(layout.backX);
+  const spineX = px(layout.spineX);
+  const frontX = px(layout.frontX);
+  const spineW = frontX - spineX;
+  const elements: string[] = [];
+
+  // Front: the ebook cover artwork, or the ebook cover's title box
+  if (frontImageDataUrl) {
+    elements.push(`<image x="${frontX}" y="0" width="${width - frontX}" height="${height}" href="${frontImageDataUrl}" preserveAspectRatio="xMidYMid slice"/>`);
+  } else {
+    elements.push(await frontTitleBox(title, author, frontX, bleed, trimW, trimH, fontColor));
+  }
+
+  // Spine: title from the top, author at the bottom, read top to bottom
+  if (layout.spineText) {
+    const margin = px(SPINE_TEXT_MARGIN_INCHES);
+    const maxSize = Math.min(Math.floor((spineW - margin * 2) * 0.75), px(0.3));
+    const top = bleed + px(0.5);
+    const length = trimH - px(1);
+    const upperTitle = title.toUpperCase();
+    const titleSize = await fitFontSize(upperTitle, "700", length * 0.6, maxSize);
+    const authorSize = await fitFontSize(author, "400", length * 0.35, Math.round(maxSize * 0.85));
+    elements.push(`<g transform="translate(${spineX + spineW / 2} ${top}) rotate(90)">
+    <text x="0" y="0" dominant-baseline="central" font-family="EBGaramondEmbed" font-weight="700"
+        font-size="${titleSize}" fill="${fontColor}">${esc(upperTitle)}</text>
+    <text x="${length}" y="0" text-anchor="end" dominant-baseline="central" font-family="EBGaramondEmbed"
+        font-weight="400" font-size="${authorSize}" fill="${fontColor}">${esc(author)}</text>
+  </g>`);
+  }
+
+  // Back: blurb, then the author bio, kept clear of the barcode area
+  const barcodeW = px(BARCODE_WIDTH_INCHES);
+  const barcodeH = px(BARCODE_HEIGHT_INCHES);
+  const barcodeX = spineX - px(BARCODE_MARGIN_INCHES) - barcodeW;
+  const barcodeY = bleed + trimH - px(BARCODE_MARGIN_INCHES) - barcodeH;
+  const margin = px(0.5);
+  const textX = backX + margin;
+  const textW = trimW - margin * 2;
+  const textTop = bleed + margin;
+  const textBottom = barcodeY - px(0.25);
+
+  // Shrink from 13pt towards 8pt until blurb and bio fit
+  const minSize = px(8 / 72);
+  let size = px(13 / 72);
+  let lines: Array<{ text: string; weight: string; size: number; gapBefore: number }> = [];
+  for (;;) {
+    const bioSize = Math.round(size * 0.85);
+    lines = [];
+    wrapParagraphs(blurb, "400", size, textW).forEach((paragraph, i) =>
+      paragraph.forEach((text, j) =>
+        lines.push({ text, weight: "400", size, gapBefore: i > 0 && j === 0 ? size * 0.5 : 0 })
+      )
+    );
+    const bioParagraphs = wrapParagraphs(bio, "400", bioSize, textW);
+    if (bioParagraphs.length > 0) {
+      lines.push({ text: "About the Author", weight: "700", size: bioSize, gapBefore: lines.length ? size * 1.5 : 0 });
+      bioParagraphs.forEach((paragraph, i) =>
+        paragraph.forEach((text, j) =>
+          lines.push({ text, weight: "400", size: bioSize, gapBefore: i > 0 && j === 0 ? bioSize * 0.5 : 0 })
+        )
+      );
+    }
+    const totalHeight = lines.reduce((sum, line) => sum + line.gapBefore + line.size * 1.35, 0);
+    if (totalHeight <= textBottom - textTop || size <= minSize) break;
+    size = Math.max(minSize, Math.floor(size * 0.93));
+  }
+
+  // Text that still doesn't fit at the smallest size is cut with an ellipsis
+  let y = textTop;
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!;
+    const lineY = y + line.gapBefore + line.size;
+    const next = lines[i + 1];
+    const nextBottom = next ? lineY + next.gapBefore + next.size * 1.35 : lineY;
+    const cut = nextBottom > textBottom;
+    if (lineY > textBottom) break;
+    elements.push(textElement(cut && next ? `${line.text}…` : line.text, textX, lineY, line.weight, line.size, fontColor, "start"));
+    if (cut) break;
+    y = lineY + line.size * 0.35;
+  }
+
+  // Left blank for the printer's ISBN barcode
+  elements.push(`<rect x="${barcodeX}" y="${barcodeY}" width="${barcodeW}" height="${barcodeH}" fill="#FFFFFF"/>`);
+
+  if (guides) {
+    const safe = px(COVER_SAFE_INCHES);
+    const panels = [backX, frontX];
+    elements.push(`<g fill="none" stroke-width="4">
+    <rect x="${bleed}" y="${bleed}" width="${width - bleed * 2}" height="${trimH}" stroke="#FF00FF" stroke-dasharray="24 12"/>
+    <line x1="${spineX}" y1="0" x2="${spineX}" y2="${height}" stroke="#00AEEF"/>
+    <line x1="${frontX}" y1="0" x2="${frontX}" y2="${height}" stroke="#00AEEF"/>
+    ${panels.map((x) => `<rect x="${x + safe}" y="${bleed + safe}" width="${trimW - safe * 2}" height="${trimH - safe * 2}" stroke="#00AEEF" stroke-dasharray="8 8"/>`).join("\n    ")}
+    <rect x="${barcodeX}" y="${barcodeY}" width="${barcodeW}" height="${barcodeH}" stroke="#FF0000" stroke-dasharray="16 8"/>
+  </g>
+  ${textElement("BARCODE", barcodeX + barcodeW / 2, barcodeY + barcodeH / 2 + 20, "700", 60, "#FF0000")}`);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <style>
+    @font-face {
+      font-family: "EBGaramondEmbed";
+      src: url(data:font/ttf;base64,${regB64}) format("truetype");
+      font-weight: 400;
+      font-style: normal;
+    }
+    @font-face {
+      font-family: "EBGaramondEmbed";
+      src: url(data:font/ttf;base64,${boldB64}) format("truetype");
+      font-weight: 700;
+      font-style: normal;
+    }
+  </style>
+
+  <rect width="${width}" height="${height}" fill="${bg}"/>
+
+  ${elements.join("\n\n  ")}
+</svg>`;
+}
+
 // Convenience: get JPEG as File (for EPUB packaging)
 export async function makeCoverJpegFile({
   title,
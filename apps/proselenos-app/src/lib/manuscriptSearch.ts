@@ -0,0 +1,185 @@
+/**
+ * Manuscript Search
+ *
+ * Lexical (BM25) retrieval over the working copy, used to ground Chat in the
+ * book being written. Each section is split into passages of a few paragraphs;
+ * the per-section entries are stored in manuscriptStorage (search_index.json)
+ * and refreshed whenever a section is saved.
+ */
+
+export const SEARCH_INDEX_VERSION = 2;
+
+// Passages are built from whole paragraphs up to roughly this many words
+const PASSAGE_TARGET_WORDS = 160;
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'about', 'after', 'again', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'doing', 'down', 'for', 'from', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me',
+  'my', 'no', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'our', 'out', 'over',
+  'own', 'she', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then',
+  'there', 'these', 'they', 'this', 'those', 'to', 'too', 'up', 'very', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with',
+  'would', 'you', 'your',
+]);
+
+// Words that frame a question about the book rather than its content
+// ("where did I first mention the lighthouse?")
+const QUESTION_WORDS = new Set([
+  'book', 'chapter', 'chapters', 'first', 'last', 'manuscript', 'mention', 'mentioned',
+  'mentions', 'novel', 'scene', 'scenes', 'section', 'story', 'tell', 'write', 'wrote',
+  'written',
+]);
+
+export interface SearchPassage {
+  text: string;
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface SearchSectionEntry {
+  id: string;
+  title: string;
+  // Changes whenever the section text changes, so stale entries can be found
+  signature: string;
+  passages: SearchPassage[];
+}
+
+export interface ManuscriptSearchIndex {
+  version: number;
+  sections: Record<string, SearchSectionEntry>;
+}
+
+export interface SearchHit {
+  sectionId: string;
+  title: string;
+  // Position of the section in the manuscript, for "first mention" questions
+  sectionIndex: number;
+  passageIndex: number;
+  text: string;
+  score: number;
+}
+
+function stem(word: string): string {
+  let w = word.replace(/['’]s$/, '');
+  if (w.length > 4 && w.endsWith('ies')) return w.slice(0, -3) + 'y';
+  if (w.length > 3 && w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+  return w;
+}
+
+/**
+ * Lowercased, stemmed content words, without accents ("Résumé" → "resume")
+ */
+export function tokenize(text: string): string[] {
+  const folded = text.toLowerCase().normalize('NFKD').replace(/\p{M}/gu, '');
+  const words = folded.match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) ?? [];
+  return words.filter(w => !STOPWORDS.has(w)).map(stem).filter(w => w.length > 1);
+}
+
+/**
+ * Cheap string hash (djb2) used as a section's change signature
+ */
+export function textSignature(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return `${text.length}:${(hash >>> 0).toString(36)}`;
+}
+
+function countTerms(tokens: string[]): Record<string, number> {
+  const terms: Record<string, number> = {};
+  for (const token of tokens) terms[token] = (terms[token] ?? 0) + 1;
+  return terms;
+}
+
+/**
+ * Splits a section's plain text into passages of whole paragraphs and indexes
+ * them. Title words count toward every passage, so a question naming a
+ * chapter finds it.
+ */
+export function buildSectionEntry(id: string, title: string, plainText: string, signature: string): SearchSectionEntry {
+  const paragraphs = plainText.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+  const titleTokens = tokenize(title);
+  const passages: SearchPassage[] = [];
+
+  let buffer: string[] = [];
+  let bufferWords = 0;
+  const flush = () => {
+    if (buffer.length === 0) return;
+    const text = buffer.join('\n\n');
+    const tokens = [...tokenize(text), ...titleTokens];
+    passages.push({ text, terms: countTerms(tokens), length: tokens.length });
+    buffer = [];
+    bufferWords = 0;
+  };
+
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(/\s+/).length;
+    if (bufferWords > 0 && bufferWords + words > PASSAGE_TARGET_WORDS) flush();
+    buffer.push(paragraph);
+    bufferWords += words;
+  }
+  flush();
+
+  return { id, title, signature, passages };
+}
+
+/**
+ * Best-matching passages for a question, ranked by BM25 over all passages
+ * of the sections in `sectionOrder` (sections missing from it are ignored).
+ */
+export function searchIndex(
+  index: ManuscriptSearchIndex,
+  sectionOrder: string[],
+  query: string,
+  limit: number,
+): SearchHit[] {
+  let queryTerms = [...new Set(tokenize(query))];
+  // Only drop question framing when something else is left to search for
+  const contentTerms = queryTerms.filter(t => !QUESTION_WORDS.has(t));
+  if (contentTerms.length > 0) queryTerms = contentTerms;
+  if (queryTerms.length === 0) return [];
+
+  const entries = sectionOrder
+    .map((id, sectionIndex) => ({ entry: index.sections[id], sectionIndex }))
+    .filter((e): e is { entry: SearchSectionEntry; sectionIndex: number } => !!e.entry);
+
+  let passageCount = 0;
+  let totalLength = 0;
+  const docFreq = new Map<string, number>(queryTerms.map(t => [t, 0]));
+  for (const { entry } of entries) {
+    for (const passage of entry.passages) {
+      passageCount++;
+      totalLength += passage.length;
+      for (const term of queryTerms) {
+        if (passage.terms[term]) docFreq.set(term, docFreq.get(term)! + 1);
+      }
+    }
+  }
+  if (passageCount === 0) return [];
+  const avgLength = totalLength / passageCount;
+
+  const hits: SearchHit[] = [];
+  for (const { entry, sectionIndex } of entries) {
+    entry.passages.forEach((passage, passageIndex) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const tf = passage.terms[term] ?? 0;
+        if (!tf) continue;
+        const df = docFreq.get(term)!;
+        const idf = Math.log(1 + (passageCount - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * (passage.length / avgLength)));
+      }
+      if (score > 0) {
+        hits.push({ sectionId: entry.id, title: entry.title, sectionIndex, passageIndex, text: passage.text, score });
+      }
+    });
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
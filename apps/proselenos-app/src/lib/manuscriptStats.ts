@@ -0,0 +1,179 @@
+/**
+ * Manuscript Statistics
+ *
+ * Pure calculations behind the Statistics view: word counts per section and
+ * element type, reading time, writing streaks and the projected finish date
+ * for a word-count goal. Daily totals come from manuscriptStorage (stats.json).
+ */
+
+import type { ElementType } from '@/app/authors/elementTypes';
+
+// Average adult silent reading speed for fiction
+export const READING_WORDS_PER_MINUTE = 238;
+// Days of recent writing used to project the finish date
+const PACE_WINDOW_DAYS = 14;
+
+export interface SectionWordCount {
+  id: string;
+  title: string;
+  type: ElementType;
+  words: number;
+  readingMinutes: number;
+}
+
+export interface TypeWordCount {
+  type: ElementType;
+  sections: number;
+  words: number;
+}
+
+export interface StreakInfo {
+  current: number;
+  longest: number;
+}
+
+export interface GoalProjection {
+  remaining: number;
+  percent: number;
+  // Average net words per day over the recent window (days without writing count as 0)
+  averagePerDay: number;
+  projectedFinish: Date | null;
+  daysToDeadline: number | null;
+  requiredPerDay: number | null;
+  onTrack: boolean | null;
+}
+
+export function readingMinutes(words: number): number {
+  return words / READING_WORDS_PER_MINUTE;
+}
+
+export function formatReadingTime(minutes: number): string {
+  if (minutes < 1) return '< 1 min';
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+export function groupByElementType(sections: SectionWordCount[]): TypeWordCount[] {
+  const groups = new Map<ElementType, TypeWordCount>();
+  for (const section of sections) {
+    const group = groups.get(section.type) ?? { type: section.type, sections: 0, words: 0 };
+    group.sections++;
+    group.words += section.words;
+    groups.set(section.type, group);
+  }
+  return [...groups.values()].sort((a, b) => b.words - a.words);
+}
+
+function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year!, month! - 1, day!);
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function daysBetween(from: Date, to: Date): number {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((end.getTime() - start.getTime()) / 86_400_000);
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD (the key format of stats.json)
+ */
+export function getLocalDateKey(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Net words per day for the `days` days ending today, oldest first
+ */
+export function getRecentDays(
+  dailyWords: Record<string, number>,
+  days: number,
+  today: Date = new Date(),
+): Array<{ date: string; words: number }> {
+  return Array.from({ length: days }, (_, i) => {
+    const date = getLocalDateKey(addDays(today, i - days + 1));
+    return { date, words: dailyWords[date] ?? 0 };
+  });
+}
+
+/**
+ * Consecutive days with words added. Today only breaks the current streak
+ * once it is over, so a streak still counts before the day's first save.
+ */
+export function computeStreaks(dailyWords: Record<string, number>, today: Date = new Date()): StreakInfo {
+  const writingDays = Object.keys(dailyWords)
+    .filter(key => (dailyWords[key] ?? 0) > 0)
+    .sort();
+
+  let longest = 0;
+  let run = 0;
+  let previous: Date | null = null;
+  for (const key of writingDays) {
+    const date = parseDateKey(key);
+    run = previous && daysBetween(previous, date) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = date;
+  }
+
+  let current = 0;
+  let day = (dailyWords[getLocalDateKey(today)] ?? 0) > 0 ? today : addDays(today, -1);
+  while ((dailyWords[getLocalDateKey(day)] ?? 0) > 0) {
+    current++;
+    day = addDays(day, -1);
+  }
+
+  return { current, longest };
+}
+
+/**
+ * Progress toward a word-count goal, projecting the finish date from the
+ * recent writing pace and the daily words needed to meet the deadline.
+ */
+export function projectGoal(
+  totalWords: number,
+  targetWords: number,
+  dailyWords: Record<string, number>,
+  deadline: string | null,
+  today: Date = new Date(),
+): GoalProjection {
+  const remaining = Math.max(0, targetWords - totalWords);
+  const percent = targetWords > 0 ? Math.min(100, (totalWords / targetWords) * 100) : 0;
+
+  // Average over the window, but not over days before writing was first tracked
+  const trackedDays = Object.keys(dailyWords).sort();
+  const firstTracked = trackedDays.length > 0 ? parseDateKey(trackedDays[0]!) : today;
+  const windowDays = Math.max(1, Math.min(PACE_WINDOW_DAYS, daysBetween(firstTracked, today) + 1));
+  const recent = getRecentDays(dailyWords, windowDays, today);
+  const averagePerDay = recent.reduce((sum, day) => sum + day.words, 0) / windowDays;
+
+  let projectedFinish: Date | null = null;
+  if (remaining === 0) {
+    projectedFinish = today;
+  } else if (averagePerDay > 0) {
+    projectedFinish = addDays(today, Math.ceil(remaining / averagePerDay));
+  }
+
+  let daysToDeadline: number | null = null;
+  let requiredPerDay: number | null = null;
+  let onTrack: boolean | null = null;
+  if (deadline) {
+    const deadlineDate = parseDateKey(deadline);
+    // The deadline day itself is a writing day
+    daysToDeadline = daysBetween(today, deadlineDate) + 1;
+    requiredPerDay = daysToDeadline > 0 ? Math.ceil(remaining / daysToDeadline) : null;
+    onTrack = remaining === 0 || (!!projectedFinish && projectedFinish.getTime() <= deadlineDate.getTime());
+  }
+
+  return { remaining, percent, averagePerDay, projectedFinish, daysToDeadline, requiredPerDay, onTrack };
+}
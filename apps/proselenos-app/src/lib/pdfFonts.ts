@@ -0,0 +1,132 @@
+// lib/pdfFonts.ts
+// User fonts for PDF export. Families come from the reader's custom fonts
+// (font settings → Manage Custom Fonts) and are registered with book-pdf, which
+// embeds only the glyphs the book uses (every embedded font is subset).
+// EB Garamond stays built in and ends every fallback chain. Courier Prime
+// (SIL Open Font License, see public/fonts/CourierPrime-OFL.txt) is bundled
+// for screenplays, which are set in 12pt Courier.
+
+import { Font, type MissingGlyph } from 'book-pdf';
+import type { CustomFont } from '@/styles/fonts';
+import type { EnvConfigType } from '@/services/environment';
+import { useCustomFontStore } from '@/store/customFontStore';
+import { useSettingsStore } from '@/store/settingsStore';
+
+export const BUILTIN_PDF_FONT = 'EBGaramond';
+export const SCREENPLAY_PDF_FONT = 'Courier Prime';
+
+const SCREENPLAY_PDF_FONT_FACES = [
+  { file: 'CourierPrime-Regular.ttf', fontStyle: 'normal', fontWeight: 400 },
+  { file: 'CourierPrime-Italic.ttf', fontStyle: 'italic', fontWeight: 400 },
+  { file: 'CourierPrime-Bold.ttf', fontStyle: 'normal', fontWeight: 700 },
+  { file: 'CourierPrime-BoldItalic.ttf', fontStyle: 'italic', fontWeight: 700 },
+] as const;
+
+export interface PdfFontFamily {
+  family: string;
+  // e.g. ['Regular', 'Italic', 'Bold', 'Bold Italic']
+  faces: string[];
+}
+
+// Family → blob URLs last registered, so unchanged families aren't reloaded
+const registeredFamilies = new Map<string, string>();
+
+function groupByFamily(fonts: CustomFont[]): Map<string, CustomFont[]> {
+  const families = new Map<string, CustomFont[]>();
+  for (const font of fonts) {
+    if (!font.blobUrl || font.error || font.deletedAt) continue;
+    const family = font.family || font.name;
+    if (family === BUILTIN_PDF_FONT || family === SCREENPLAY_PDF_FONT) continue;
+    families.set(family, [...(families.get(family) ?? []), font]);
+  }
+  return families;
+}
+
+function describeFace(font: CustomFont): string {
+  const weight = font.weight ?? 400;
+  const italic = font.style === 'italic' || font.style === 'oblique';
+  const weightName = weight >= 600 ? 'Bold' : weight <= 300 ? 'Light' : '';
+  if (italic) return weightName ? `${weightName} Italic` : 'Italic';
+  return weightName || 'Regular';
+}
+
+/**
+ * Families that can be chosen for the PDF, with the faces each one has
+ */
+export function getPdfFontFamilies(fonts: CustomFont[]): PdfFontFamily[] {
+  return Array.from(groupByFamily(fonts).entries())
+    .map(([family, faces]) => ({ family, faces: faces.map(describeFace) }))
+    .sort((a, b) => a.family.localeCompare(b.family));
+}
+
+/**
+ * Loads the reader's custom fonts outside the library (the Authors page
+ * doesn't load the reader's settings on its own)
+ */
+export async function loadCustomFontsForPdf(envConfig: EnvConfigType): Promise<CustomFont[]> {
+  const { settings, setSettings } = useSettingsStore.getState();
+  if (!settings?.customFonts) {
+    const appService = await envConfig.getAppService();
+    setSettings(await appService.loadSettings());
+  }
+  await useCustomFontStore.getState().loadCustomFonts(envConfig);
+  return useCustomFontStore.getState().getLoadedFonts();
+}
+
+/**
+ * Registers the loaded custom fonts with book-pdf and returns the family names.
+ * A family missing a face (say, bold) falls back to its nearest face.
+ * The bundled screenplay font is registered too, from /fonts.
+ */
+export function registerPdfFonts(fonts: CustomFont[]): string[] {
+  const families = groupByFamily(fonts);
+
+  if (!registeredFamilies.has(SCREENPLAY_PDF_FONT)) {
+    Font.register({
+      family: SCREENPLAY_PDF_FONT,
+      fonts: SCREENPLAY_PDF_FONT_FACES.map(({ file, ...face }) => ({ src: `/fonts/${file}`, ...face })),
+    });
+    registeredFamilies.set(SCREENPLAY_PDF_FONT, 'bundled');
+  }
+
+  for (const [family, faces] of families) {
+    const signature = faces.map(f => f.blobUrl).join('|');
+    if (registeredFamilies.get(family) === signature) continue;
+
+    Font.unregister(family);
+    Font.register({
+      family,
+      fonts: faces.map(face => ({
+        src: face.blobUrl!,
+        fontStyle: face.style === 'italic' || face.style === 'oblique' ? face.style : 'normal',
+        // Variable fonts embed their default instance
+        fontWeight: face.weight ?? 400,
+      })),
+    });
+    registeredFamilies.set(family, signature);
+  }
+
+  return Array.from(families.keys());
+}
+
+/**
+ * Font stack for a style: the chosen family, then the fallback family.
+ * book-pdf tries each in turn per character and finally EB Garamond.
+ */
+export function getFontChain(primary: string, fallback: string): string[] {
+  const chain = [primary || BUILTIN_PDF_FONT];
+  if (fallback && !chain.includes(fallback)) chain.push(fallback);
+  return chain;
+}
+
+/**
+ * Characters from the last render that no font in their chain could draw
+ */
+export function getMissingGlyphs(): MissingGlyph[] {
+  return Font.getMissingGlyphs().sort((a, b) => b.count - a.count);
+}
+
+export function formatMissingGlyph(glyph: MissingGlyph): string {
+  const hex = glyph.codePoint.toString(16).toUpperCase().padStart(4, '0');
+  return `"${glyph.char}" (U+${hex})`;
+}
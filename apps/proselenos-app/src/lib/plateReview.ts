@@ -0,0 +1,255 @@
+/**
+ * Plate Review Markup Utilities
+ *
+ * Pure helpers over PlateJS values for reviewer-style tracked changes
+ * (suggestion-kit) and margin comments (comment-kit):
+ * - countReviewMarkup: pending suggestions and comment threads in a value
+ * - resolveSuggestions: accept or reject every pending suggestion
+ * - stripReviewMarkup: reject pending suggestions and drop comment anchors (exports)
+ * - stripReviewMarkupFromXhtml: the same for stored section XHTML
+ * - anchorComment: attach a comment thread to a plain-text range (imported feedback)
+ *
+ * Resolution follows @platejs/suggestion's acceptSuggestion/rejectSuggestion,
+ * but works without an editor so it can run on stored sections.
+ */
+
+import type { Value } from 'platejs';
+import { getCommentKey, getDraftCommentKey, isCommentKey } from '@platejs/comment';
+import { isSuggestionKey } from '@platejs/suggestion';
+import { createEmptyValue, plateToXhtml, xhtmlToPlate } from './plateXhtml';
+
+export type SuggestionResolution = 'accept' | 'reject';
+
+type PlateNode = { [key: string]: unknown; children?: PlateNode[]; text?: string };
+
+interface SuggestionData {
+  id: string;
+  type: 'insert' | 'remove' | 'update';
+  isLineBreak?: boolean;
+  properties?: Record<string, unknown>;
+  newProperties?: Record<string, unknown>;
+}
+
+const SUGGESTION_FLAG = 'suggestion';
+const TRANSIENT_KEYS = ['suggestionTransient', 'commentTransient'];
+
+function isText(node: PlateNode): boolean {
+  return typeof node.text === 'string';
+}
+
+function getLeafSuggestions(node: PlateNode): SuggestionData[] {
+  return Object.keys(node)
+    .filter(key => isSuggestionKey(key) && node[key] && typeof node[key] === 'object')
+    .map(key => node[key] as SuggestionData);
+}
+
+function getElementSuggestion(node: PlateNode): SuggestionData | null {
+  const data = node[SUGGESTION_FLAG];
+  return data && typeof data === 'object' ? data as SuggestionData : null;
+}
+
+function withoutSuggestionKeys(node: PlateNode): PlateNode {
+  const result: PlateNode = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === SUGGESTION_FLAG || isSuggestionKey(key) || TRANSIENT_KEYS.includes(key)) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+function withoutCommentKeys(node: PlateNode): PlateNode {
+  const result: PlateNode = {};
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'comment' || isCommentKey(key) || TRANSIENT_KEYS.includes(key)) continue;
+    result[key] = value;
+  }
+  return result;
+}
+
+/**
+ * Count distinct pending suggestions and commented threads in a value
+ */
+export function countReviewMarkup(value: Value): { suggestions: number; comments: number } {
+  const suggestionIds = new Set<string>();
+  const commentIds = new Set<string>();
+
+  const visit = (nodes: PlateNode[]) => {
+    for (const node of nodes) {
+      if (isText(node)) {
+        getLeafSuggestions(node).forEach(data => suggestionIds.add(data.id));
+        Object.keys(node)
+          .filter(key => isCommentKey(key) && key !== getDraftCommentKey() && node[key])
+          .forEach(key => commentIds.add(key.slice(getCommentKey('').length)));
+        continue;
+      }
+      const data = getElementSuggestion(node);
+      if (data) suggestionIds.add(data.id);
+      if (node.children) visit(node.children);
+    }
+  };
+  visit(value as unknown as PlateNode[]);
+
+  return { suggestions: suggestionIds.size, comments: commentIds.size };
+}
+
+/**
+ * Resolve a text leaf. Returns null when the leaf's text goes away.
+ */
+function resolveLeaf(node: PlateNode, resolution: SuggestionResolution): PlateNode | null {
+  const dataList = getLeafSuggestions(node);
+  if (dataList.length === 0 && !node[SUGGESTION_FLAG]) return node;
+
+  // Text that was inserted and then deleted (e.g. by another reviewer) disappears either way
+  if (resolution === 'accept' && dataList.some(d => d.type === 'remove')) return null;
+  if (resolution === 'reject' && dataList.some(d => d.type === 'insert')) return null;
+
+  const leaf = withoutSuggestionKeys(node);
+  if (resolution === 'reject') {
+    // Undo suggested formatting: drop added marks, restore removed ones
+    for (const data of dataList.filter(d => d.type === 'update')) {
+      Object.entries(data.newProperties ?? {}).forEach(([key, value]) => {
+        if (value) delete leaf[key];
+      });
+      Object.entries(data.properties ?? {}).forEach(([key, value]) => {
+        if (!value) leaf[key] = true;
+      });
+    }
+  }
+  return leaf;
+}
+
+/**
+ * Resolve a list of sibling nodes. Line-break suggestions merge a block with
+ * the block after it (rejecting an inserted break, accepting a removed one).
+ */
+function resolveChildren(nodes: PlateNode[], resolution: SuggestionResolution): PlateNode[] {
+  const resolved: Array<{ node: PlateNode; mergeNext: boolean }> = [];
+
+  for (const node of nodes) {
+    if (isText(node)) {
+      const leaf = resolveLeaf(node, resolution);
+      if (leaf) resolved.push({ node: leaf, mergeNext: false });
+      continue;
+    }
+
+    const data = getElementSuggestion(node);
+    let mergeNext = false;
+    if (data) {
+      if (data.isLineBreak) {
+        mergeNext = (data.type === 'insert') === (resolution === 'reject');
+      } else if ((data.type === 'insert') === (resolution === 'reject')) {
+        // Rejected insertion or accepted removal of the whole element
+        continue;
+      }
+    }
+
+    const element = data ? withoutSuggestionKeys(node) : { ...node };
+    if (node.children) {
+      element.children = resolveChildren(node.children, resolution);
+    }
+    resolved.push({ node: element, mergeNext });
+  }
+
+  const merged: PlateNode[] = [];
+  for (let i = 0; i < resolved.length; i++) {
+    const current = resolved[i]!;
+    const node = { ...current.node };
+    let mergeNext = current.mergeNext;
+    while (mergeNext && i + 1 < resolved.length && !isText(resolved[i + 1]!.node)) {
+      const next = resolved[++i]!;
+      node.children = [...(node.children ?? []), ...(next.node.children ?? [])];
+      mergeNext = next.mergeNext;
+    }
+    if (node.children && node.children.length === 0) {
+      node.children = [{ text: '' }];
+    }
+    merged.push(node);
+  }
+  return merged;
+}
+
+/**
+ * Accept or reject every pending suggestion in a value
+ */
+export function resolveSuggestions(value: Value, resolution: SuggestionResolution): Value {
+  const resolved = resolveChildren(value as unknown as PlateNode[], resolution);
+  return (resolved.length > 0 ? resolved : createEmptyValue()) as Value;
+}
+
+/**
+ * Remove comment anchors from every text leaf (threads themselves live in storage)
+ */
+export function stripComments(value: Value): Value {
+  const strip = (nodes: PlateNode[]): PlateNode[] => nodes.map(node => {
+    if (isText(node)) return withoutCommentKeys(node);
+    return node.children ? { ...node, children: strip(node.children) } : node;
+  });
+  return strip(value as unknown as PlateNode[]) as Value;
+}
+
+/**
+ * Published text: pending suggestions are rejected (only accepted changes
+ * ship) and comment anchors are removed.
+ */
+export function stripReviewMarkup(value: Value): Value {
+  return stripComments(resolveSuggestions(value, 'reject'));
+}
+
+/**
+ * stripReviewMarkup for exports that read section XHTML directly.
+ * XHTML without review markup is returned unchanged.
+ */
+export function stripReviewMarkupFromXhtml(xhtml: string): string {
+  if (!xhtml.includes('data-suggestion') && !xhtml.includes('data-comment-ids')) {
+    return xhtml;
+  }
+  return plateToXhtml(stripReviewMarkup(xhtmlToPlate(xhtml)));
+}
+
+// Elements that flow inside a paragraph; every other element ends a line
+const INLINE_TYPES = new Set(['a', 'inline_equation', 'mention', 'date']);
+
+/**
+ * Plain text of a value, one line per block. Offsets into this string are
+ * what anchorComment expects.
+ */
+export function getReviewText(value: Value): string {
+  const collect = (nodes: PlateNode[]): string => nodes.map(node => {
+    if (isText(node)) return node.text!;
+    const text = collect(node.children ?? []);
+    return INLINE_TYPES.has(node.type as string) ? text : text + '\n';
+  }).join('');
+  return collect(value as unknown as PlateNode[]);
+}
+
+/**
+ * Attach a comment thread to the characters [start, end) of getReviewText(value),
+ * splitting text leaves at the range boundaries.
+ */
+export function anchorComment(value: Value, discussionId: string, start: number, end: number): Value {
+  const marks = { comment: true, [getCommentKey(discussionId)]: true };
+  let offset = 0;
+
+  const anchor = (nodes: PlateNode[]): PlateNode[] => nodes.flatMap(node => {
+    if (!isText(node)) {
+      const children = anchor(node.children ?? []);
+      if (!INLINE_TYPES.has(node.type as string)) offset += 1;
+      return [{ ...node, children }];
+    }
+
+    const text = node.text!;
+    const leafStart = offset;
+    offset += text.length;
+    const from = Math.max(start, leafStart) - leafStart;
+    const to = Math.min(end, offset) - leafStart;
+    if (from >= to) return [node];
+
+    const pieces: PlateNode[] = [];
+    if (from > 0) pieces.push({ ...node, text: text.slice(0, from) });
+    pieces.push({ ...node, ...marks, text: text.slice(from, to) });
+    if (to < text.length) pieces.push({ ...node, text: text.slice(to) });
+    return pieces;
+  });
+
+  return anchor(value as unknown as PlateNode[]) as Value;
+}
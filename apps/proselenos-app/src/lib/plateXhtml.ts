@@ -5,9 +5,17 @@
  * - plateToXhtml: PlateJS JSON → Clean EPUB3 XHTML
  * - xhtmlToPlate: EPUB3 XHTML → PlateJS JSON
  * - plateToPlainText: PlateJS JSON → Plain text (for word count, search, AI)
+ *
+ * Review markup (tracked changes and comment anchors) round-trips as
+ * <ins>/<del>/<span> with data-suggestion / data-comment-ids attributes.
+ * It is stripped before export (see lib/plateReview.ts), and plain text
+ * reads as published: pending suggestions rejected.
  */
 
 import type { Value } from 'platejs';
+import { getEquationHtml } from '@platejs/math';
+import { getCommentKey, getDraftCommentKey, isCommentKey } from '@platejs/comment';
+import { getSuggestionKey, isSuggestionKey } from '@platejs/suggestion';
 
 // PlateJS node types we support
 interface PlateText {
@@ -31,6 +39,8 @@ interface PlateElement {
 // Counter for unique sticky-image enlarge checkbox IDs
 let stickyEnlargeCounter = 0;
 
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
 /**
  * PlateJS JSON → Clean EPUB3 XHTML
  *
@@ -51,6 +61,7 @@ export function plateToXhtml(value: Value): string {
 
 /**
  * Serialize nodes, grouping consecutive indent-based list paragraphs into ul/ol
+ * and the indented blocks following a toggle into its <details>
  */
 function serializeNodes(nodes: (PlateElement | PlateText)[]): string {
   const parts: string[] = [];
@@ -71,11 +82,24 @@ function serializeNodes(nodes: (PlateElement | PlateText)[]): string {
         const children = (current as PlateElement).children
           .map(child => serializeNode(child as PlateElement | PlateText))
           .join('');
-        items.push(`<li>${children}</li>\n`);
+        items.push(`<li${blockSuggestionAttr(current as PlateElement)}>${children}</li>\n`);
         i++;
       }
 
       parts.push(`<${listTag}>\n${items.join('')}</${listTag}>\n`);
+    } else if ('type' in node && node.type === 'toggle') {
+      // A toggle's content is the blocks after it that are indented deeper
+      const depth = ((node as any).indent as number | undefined) ?? 0;
+      let end = i + 1;
+      while (end < nodes.length && (((nodes[end] as any).indent as number | undefined) ?? 0) > depth) {
+        end++;
+      }
+      const summary = node.children
+        .map(child => serializeNode(child as PlateElement | PlateText))
+        .join('');
+      const content = serializeNodes(nodes.slice(i + 1, end));
+      parts.push(`<details class="toggle"${blockSuggestionAttr(node)}>\n<summary>${summary}</summary>\n${content}</details>\n`);
+      i = end;
     } else {
       parts.push(serializeNode(node as PlateElement | PlateText));
       i++;
@@ -94,6 +118,13 @@ function serializeNode(node: PlateElement | PlateText): string {
     return serializeText(node as PlateText);
   }
 
+  // Block/inline suggestion (e.g. a split paragraph) goes on the element's opening tag
+  if (node.suggestion) {
+    const { suggestion: _suggestion, ...rest } = node;
+    const attr = blockSuggestionAttr(node);
+    return serializeNode(rest as PlateElement).replace(/^<[a-zA-Z][\w:-]*/, tag => `${tag}${attr}`);
+  }
+
   // Element node
   const element = node as PlateElement;
   const children = element.children
@@ -190,6 +221,9 @@ function serializeNode(node: PlateElement | PlateText): string {
     case 'a':
     case 'link':
       const href = element.url || '';
+      if ((element as any).noteref) {
+        return `<a epub:type="noteref" role="doc-noteref" href="${escapeAttr(href)}">${children}</a>`;
+      }
       return `<a href="${escapeAttr(href)}">${children}</a>`;
 
     case 'audio': {
@@ -283,6 +317,50 @@ function serializeNode(node: PlateElement | PlateText): string {
       return '<hr/>\n';
     }
 
+    case 'table':
+      return serializeTable(element);
+
+    case 'code_block': {
+      // One code_line per source line; newlines inside <pre> are significant
+      const lang = (element as any).lang as string | undefined;
+      const codeLines = element.children
+        .map(line => escapeHtml(extractTextFromNode(line as PlateElement | PlateText)))
+        .join('\n');
+      const langAttr = lang ? ` class="language-${escapeAttr(lang)}"` : '';
+      return `<pre><code${langAttr}>${codeLines}</code></pre>\n`;
+    }
+
+    case 'callout': {
+      const icon = (element as any).icon as string | undefined;
+      const variant = (element as any).variant as string | undefined;
+      let calloutAttrs = ' class="callout"';
+      if (icon) calloutAttrs += ` data-icon="${escapeAttr(icon)}"`;
+      if (variant) calloutAttrs += ` data-variant="${escapeAttr(variant)}"`;
+      return `<aside${calloutAttrs}>\n${serializeBlockOrInline(element)}</aside>\n`;
+    }
+
+    case 'footnote': {
+      // EPUB 3 footnote, referenced by an <a epub:type="noteref" href="#id">
+      const footnoteId = ((element as any).footnoteId as string | undefined) || '';
+      const idAttr = footnoteId ? ` id="${escapeAttr(footnoteId)}"` : '';
+      return `<aside epub:type="footnote" role="doc-footnote"${idAttr}>\n${serializeBlockOrInline(element)}</aside>\n`;
+    }
+
+    case 'column_group':
+      return `<div class="columns">\n${children}</div>\n`;
+
+    case 'column': {
+      const width = (element as any).width as string | undefined;
+      const styleAttr = width ? ` style="width: ${escapeAttr(width)}"` : '';
+      return `<div class="column"${styleAttr}>\n${serializeNodes(element.children)}</div>\n`;
+    }
+
+    case 'equation':
+      return `${serializeMath(element, true)}\n`;
+
+    case 'inline_equation':
+      return serializeMath(element, false);
+
     default:
       // Unknown element type - just return children wrapped in div
       if (children) {
@@ -292,6 +370,101 @@ function serializeNode(node: PlateElement | PlateText): string {
   }
 }
 
+/**
+ * Serialize children of a container block (callout, footnote, table cell).
+ * Inline children are wrapped in a single <p>; block children are serialized as-is.
+ */
+function serializeBlockOrInline(element: PlateElement): string {
+  const hasBlocks = element.children.some(child => 'type' in child && !isInlineType(child.type));
+  if (hasBlocks) {
+    return serializeNodes(element.children);
+  }
+  const inline = element.children
+    .map(child => serializeNode(child as PlateElement | PlateText))
+    .join('');
+  return `<p>${inline}</p>\n`;
+}
+
+function isInlineType(type: string): boolean {
+  return type === 'a' || type === 'link' || type === 'inline_equation';
+}
+
+/**
+ * Serialize a Plate table (table > tr > td/th) to an XHTML table.
+ * Column widths go to <colgroup>, spans and cell backgrounds to attributes.
+ */
+function serializeTable(element: PlateElement): string {
+  let html = '<table>\n';
+
+  const colSizes = (element as any).colSizes as number[] | undefined;
+  if (colSizes && colSizes.some(size => size > 0)) {
+    html += '<colgroup>\n';
+    for (const size of colSizes) {
+      html += size > 0 ? `<col style="width: ${size}px"/>\n` : '<col/>\n';
+    }
+    html += '</colgroup>\n';
+  }
+
+  html += '<tbody>\n';
+  for (const row of element.children) {
+    if (!('type' in row) || row.type !== 'tr') continue;
+    html += '<tr>\n';
+    for (const cell of (row as PlateElement).children) {
+      if (!('type' in cell)) continue;
+      const cellEl = cell as PlateElement;
+      const tag = cellEl.type === 'th' ? 'th' : 'td';
+      let attrs = '';
+      const colSpan = (cellEl as any).colSpan as number | undefined;
+      if (colSpan && colSpan > 1) attrs += ` colspan="${colSpan}"`;
+      const rowSpan = (cellEl as any).rowSpan as number | undefined;
+      if (rowSpan && rowSpan > 1) attrs += ` rowspan="${rowSpan}"`;
+      const background = (cellEl as any).background as string | undefined;
+      if (background) attrs += ` style="background-color: ${escapeAttr(background)}"`;
+
+      // A cell holding one plain paragraph is written inline to keep the markup light
+      const only = cellEl.children.length === 1 ? cellEl.children[0] as PlateElement : null;
+      const isPlainParagraph = only && only.type === 'p' && Object.keys(only).every(k => k === 'type' || k === 'children');
+      const content = isPlainParagraph
+        ? only.children.map(child => serializeNode(child as PlateElement | PlateText)).join('')
+        : `\n${serializeNodes(cellEl.children)}`;
+      html += `<${tag}${attrs}>${content}</${tag}>\n`;
+    }
+    html += '</tr>\n';
+  }
+  html += '</tbody>\n</table>\n';
+  return html;
+}
+
+/**
+ * Serialize an equation node to MathML. The TeX source is kept in a
+ * <annotation encoding="application/x-tex"> so the node can be restored.
+ * MathML imported without TeX is re-emitted unchanged.
+ */
+function serializeMath(element: PlateElement, displayMode: boolean): string {
+  const texExpression = ((element as any).texExpression as string | undefined) || '';
+  const rawMathml = (element as any).mathml as string | undefined;
+  if (!texExpression && rawMathml) {
+    return rawMathml;
+  }
+
+  let mathml = '';
+  try {
+    const rendered = getEquationHtml({
+      element: element as any,
+      options: { output: 'mathml', displayMode, throwOnError: false },
+    });
+    mathml = rendered.match(/<math[\s\S]*<\/math>/)?.[0] || '';
+  } catch (error) {
+    console.error('Failed to render equation:', error);
+  }
+
+  if (!mathml) {
+    // Fall back to an annotation-only expression so the TeX is never lost
+    mathml = `<math xmlns="${MATHML_NS}"${displayMode ? ' display="block"' : ''}><semantics><mrow></mrow><annotation encoding="application/x-tex">${escapeHtml(texExpression)}</annotation></semantics></math>`;
+  }
+  return mathml;
+}
+
 /**
  * Serialize text with marks (bold, italic, etc.)
  */
@@ -318,6 +491,20 @@ function serializeText(node: PlateText): string {
     text = `<strong>${text}</strong>`;
   }
 
+  // Comment anchors, then tracked changes outermost
+  const commentIds = Object.keys(node)
+    .filter(key => isCommentKey(key) && key !== getDraftCommentKey() && (node as any)[key])
+    .map(key => key.slice(getCommentKey('').length));
+  if (commentIds.length > 0) {
+    text = `<span class="comment" data-comment-ids="${escapeAttr(commentIds.join(' '))}">${text}</span>`;
+  }
+  for (const key of Object.keys(node)) {
+    const data = (node as any)[key];
+    if (!isSuggestionKey(key) || !data || typeof data !== 'object') continue;
+    const tag = data.type === 'insert' ? 'ins' : data.type === 'remove' ? 'del' : 'span';
+    text = `<${tag} data-suggestion="${escapeAttr(stringifySuggestion(data))}">${text}</${tag}>`;
+  }
+
   return text;
 }
 
@@ -360,6 +547,7 @@ function processBlockChildren(container: Element): (PlateElement | PlateText)[]
     if (node.nodeType !== Node.ELEMENT_NODE) return;
     const el = node as Element;
     const tag = el.tagName.toLowerCase();
+    const firstBlock = blocks.length;
 
     switch (tag) {
       case 'p': {
@@ -431,6 +619,31 @@ function processBlockChildren(container: Element): (PlateElement | PlateText)[]
         break;
       }
 
+      case 'table': {
+        blocks.push(parseTableElement(el));
+        break;
+      }
+
+      case 'pre': {
+        blocks.push(parseCodeBlockElement(el));
+        break;
+      }
+
+      case 'aside': {
+        blocks.push(parseAsideElement(el));
+        break;
+      }
+
+      case 'details': {
+        blocks.push(...parseDetailsElement(el));
+        break;
+      }
+
+      case 'math': {
+        blocks.push(parseMathElement(el, 'equation'));
+        break;
+      }
+
       case 'section':
       case 'article': {
         // Structural wrappers (sections, VN scene articles) — recurse into children
@@ -447,6 +660,11 @@ function processBlockChildren(container: Element): (PlateElement | PlateText)[]
         }
         break;
     }
+
+    const blockSuggestion = parseSuggestionAttr(el);
+    if (blockSuggestion && blocks.length > firstBlock) {
+      (blocks[firstBlock] as PlateElement).suggestion = blockSuggestion;
+    }
   });
 
   return blocks;
@@ -459,6 +677,22 @@ function processBlockChildren(container: Element): (PlateElement | PlateText)[]
 function handleDiv(el: Element, blocks: (PlateElement | PlateText)[]): void {
   const id = el.id || '';
 
+  // Editor column layout: <div class="columns"><div class="column" style="width: 50%">
+  if (el.classList.contains('columns')) {
+    const columns = Array.from(el.children)
+      .filter(child => child.tagName.toLowerCase() === 'div' && child.classList.contains('column'))
+      .map(child => {
+        const column: PlateElement = { type: 'column', children: parseContainerBlocks(child) };
+        const widthMatch = (child.getAttribute('style') || '').match(/width:\s*([\d.]+%)/);
+        if (widthMatch?.[1]) column.width = widthMatch[1];
+        return column;
+      });
+    if (columns.length > 0) {
+      blocks.push({ type: 'column_group', children: columns });
+      return;
+    }
+  }
+
   // Vellum ornamental-break: decorative scene separator with image
   if (el.classList.contains('ornamental-break')) {
     blocks.push({ type: 'hr', children: [{ text: '' }] });
@@ -835,6 +1069,8 @@ function parseListToFlatParagraphs(el: Element): PlateElement[] {
     if (index > 0) {
       (node as any).listStart = index + 1;
     }
+    const suggestion = parseSuggestionAttr(li);
+    if (suggestion) node.suggestion = suggestion;
     items.push(node);
   });
 
@@ -954,6 +1190,151 @@ function parseFigureElement(el: Element): PlateElement {
   return node;
 }
 
+/**
+ * Parse a table into Plate's table > tr > td/th structure.
+ * Rows in thead/tbody/tfoot are flattened in document order.
+ */
+function parseTableElement(el: Element): PlateElement {
+  const rows: PlateElement[] = [];
+  el.querySelectorAll(':scope > tr, :scope > thead > tr, :scope > tbody > tr, :scope > tfoot > tr').forEach(tr => {
+    const cells: PlateElement[] = [];
+    tr.querySelectorAll(':scope > td, :scope > th').forEach(cell => {
+      const cellNode: PlateElement = {
+        type: cell.tagName.toLowerCase() === 'th' ? 'th' : 'td',
+        children: parseContainerBlocks(cell),
+      };
+      const colSpan = parseInt(cell.getAttribute('colspan') || '', 10);
+      if (colSpan > 1) cellNode.colSpan = colSpan;
+      const rowSpan = parseInt(cell.getAttribute('rowspan') || '', 10);
+      if (rowSpan > 1) cellNode.rowSpan = rowSpan;
+      const bgMatch = (cell.getAttribute('style') || '').match(/background-color:\s*([^;]+)/);
+      if (bgMatch?.[1]) cellNode.background = bgMatch[1].trim();
+      cells.push(cellNode);
+    });
+    if (cells.length > 0) {
+      rows.push({ type: 'tr', children: cells });
+    }
+  });
+
+  const table: PlateElement = {
+    type: 'table',
+    children: rows.length > 0 ? rows : [{ type: 'tr', children: [{ type: 'td', children: [{ type: 'p', children: [{ text: '' }] }] }] }],
+  };
+
+  const cols = el.querySelectorAll(':scope > colgroup > col');
+  if (cols.length > 0) {
+    table.colSizes = Array.from(cols).map(col => {
+      const widthMatch = (col.getAttribute('style') || '').match(/width:\s*(\d+(?:\.\d+)?)px/);
+      return widthMatch?.[1] ? parseFloat(widthMatch[1]) : 0;
+    });
+  }
+  return table;
+}
+
+/**
+ * Parse block content of a container (table cell, callout, footnote).
+ * Bare inline content becomes a single paragraph.
+ */
+function parseContainerBlocks(el: Element): (PlateElement | PlateText)[] {
+  const hasBlockChildren = Array.from(el.children).some(child =>
+    ['p', 'div', 'ul', 'ol', 'blockquote', 'pre', 'table', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'aside', 'details'].includes(child.tagName.toLowerCase())
+  );
+  if (hasBlockChildren) {
+    const blocks = processBlockChildren(el);
+    return blocks.length > 0 ? blocks : [{ type: 'p', children: [{ text: '' }] }];
+  }
+  const inline = parseChildren(el);
+  return [{ type: 'p', children: inline.length > 0 ? inline : [{ text: '' }] }];
+}
+
+/**
+ * Parse <pre>/<pre><code> into a code_block with one code_line per line
+ */
+function parseCodeBlockElement(el: Element): PlateElement {
+  const code = el.querySelector(':scope > code');
+  const text = (code || el).textContent || '';
+  const lines = text.replace(/\n$/, '').split('\n');
+
+  const node: PlateElement = {
+    type: 'code_block',
+    children: lines.map(line => ({ type: 'code_line', children: [{ text: line }] })),
+  };
+  const langMatch = (code?.getAttribute('class') || '').match(/(?:^|\s)language-([\w+#-]+)/);
+  if (langMatch?.[1]) node.lang = langMatch[1];
+  return node;
+}
+
+function getEpubType(el: Element): string {
+  return `${el.getAttribute('epub:type') || ''} ${el.getAttribute('role') || ''}`;
+}
+
+function isNoteref(el: Element): boolean {
+  return /\bnoteref\b|doc-noteref/.test(getEpubType(el));
+}
+
+/**
+ * Parse <aside>: EPUB footnotes/endnotes become footnote nodes,
+ * everything else a callout (inline content, as Plate's callout expects)
+ */
+function parseAsideElement(el: Element): PlateElement {
+  if (/\b(footnote|endnote|rearnote)\b|doc-footnote|doc-endnote/.test(getEpubType(el))) {
+    const node: PlateElement = { type: 'footnote', children: parseContainerBlocks(el) };
+    if (el.id) node.footnoteId = el.id;
+    return node;
+  }
+
+  const blocks = parseContainerBlocks(el);
+  const only = blocks.length === 1 ? blocks[0] as PlateElement : null;
+  const node: PlateElement = {
+    type: 'callout',
+    children: only && only.type === 'p' ? only.children : blocks,
+  };
+  const icon = el.getAttribute('data-icon');
+  if (icon) node.icon = icon;
+  const variant = el.getAttribute('data-variant');
+  if (variant) node.variant = variant;
+  return node;
+}
+
+/**
+ * Parse <details> into a toggle (its <summary>) followed by the content,
+ * indented one level deeper as Plate's toggles expect
+ */
+function parseDetailsElement(el: Element): PlateElement[] {
+  const summary = el.querySelector(':scope > summary');
+  const summaryChildren = summary ? parseChildren(summary) : [];
+  const toggle: PlateElement = {
+    type: 'toggle',
+    children: summaryChildren.length > 0 ? summaryChildren : [{ text: '' }],
+  };
+
+  const content = el.cloneNode(true) as Element;
+  content.querySelector(':scope > summary')?.remove();
+  const blocks = processBlockChildren(content).map(block => {
+    const element = block as PlateElement;
+    return { ...element, indent: ((element.indent as number | undefined) ?? 0) + 1 };
+  });
+  return [toggle, ...blocks];
+}
+
+/**
+ * Parse MathML into an equation node, recovering the TeX source from its
+ * annotation. MathML without TeX is kept verbatim for lossless re-export.
+ */
+function parseMathElement(el: Element, type: 'equation' | 'inline_equation'): PlateElement {
+  const annotation = Array.from(el.getElementsByTagName('annotation'))
+    .find(a => a.getAttribute('encoding') === 'application/x-tex');
+  const node: PlateElement = {
+    type,
+    texExpression: annotation?.textContent?.trim() || '',
+    children: [{ text: '' }],
+  };
+  if (!node.texExpression) {
+    node.mathml = new XMLSerializer().serializeToString(el);
+  }
+  return node;
+}
+
 /**
  * Parse children of an element, handling inline elements and text
  */
@@ -999,6 +1380,19 @@ function parseChildren(el: Element): (PlateElement | PlateText)[] {
             children.push(child);
           }
         });
+      } else if (['ins', 'del', 'span'].includes(tag) && childEl.hasAttribute('data-suggestion')) {
+        // Tracked change: <ins>/<del>/<span data-suggestion="{...}">
+        const data = parseSuggestionAttr(childEl);
+        const innerChildren = parseChildren(childEl);
+        children.push(...(data
+          ? applyToLeaves(innerChildren, { suggestion: true, [getSuggestionKey(data.id as string)]: data })
+          : innerChildren));
+      } else if (tag === 'span' && childEl.hasAttribute('data-comment-ids')) {
+        // Comment anchor: <span class="comment" data-comment-ids="id1 id2">
+        const ids = (childEl.getAttribute('data-comment-ids') || '').split(/\s+/).filter(Boolean);
+        const marks: Record<string, unknown> = { comment: true };
+        ids.forEach(id => { marks[getCommentKey(id)] = true; });
+        children.push(...applyToLeaves(parseChildren(childEl), marks));
       } else if (['del', 's', 'strike'].includes(tag)) {
         const innerChildren = parseChildren(childEl);
         innerChildren.forEach(child => {
@@ -1029,11 +1423,17 @@ function parseChildren(el: Element): (PlateElement | PlateText)[] {
       } else if (tag === 'a') {
         const href = childEl.getAttribute('href') || '';
         const linkChildren = parseChildren(childEl);
-        children.push({
+        const link: PlateElement = {
           type: 'a',
           url: href,
           children: linkChildren.length > 0 ? linkChildren : [{ text: '' }]
-        });
+        };
+        if (isNoteref(childEl)) link.noteref = true;
+        const suggestion = parseSuggestionAttr(childEl);
+        if (suggestion) link.suggestion = suggestion;
+        children.push(link);
+      } else if (tag === 'math') {
+        children.push(parseMathElement(childEl, 'inline_equation'));
       } else if (tag === 'img') {
         children.push(parseImageElement(childEl) as PlateElement);
       } else if (tag === 'br') {
@@ -1096,6 +1496,10 @@ function extractTextFromNode(node: PlateElement | PlateText): string {
   }
 
   const element = node as PlateElement;
+  if (element.type === 'equation' || element.type === 'inline_equation') {
+    return ((element as any).texExpression as string | undefined) || '';
+  }
+
   const texts: string[] = [];
 
   for (const child of element.children) {
@@ -1105,7 +1509,18 @@ function extractTextFromNode(node: PlateElement | PlateText): string {
     }
   }
 
-  return texts.join('');
+  // Keep lines and cells apart in structures whose children are not inline runs
+  switch (element.type) {
+    case 'code_block':
+    case 'table':
+    case 'column_group':
+    case 'column':
+      return texts.join('\n');
+    case 'tr':
+      return texts.join('\t');
+    default:
+      return texts.join('');
+  }
 }
 
 /**
@@ -1142,6 +1557,74 @@ function escapeAttr(text: string): string {
     .replace(/'/g, '&#39;');
 }
 
+/**
+ * data-suggestion attribute for an element carrying block suggestion data
+ */
+function blockSuggestionAttr(element: PlateElement): string {
+  const data = element.suggestion;
+  if (!data || typeof data !== 'object') return '';
+  return ` data-suggestion="${escapeAttr(stringifySuggestion(data))}"`;
+}
+
+/**
+ * JSON for suggestion data. Mark suggestions record removed marks as
+ * undefined (e.g. { bold: undefined }), which JSON would drop, so keep them as null.
+ */
+function stringifySuggestion(data: object): string {
+  return JSON.stringify(data, (_key, value) => value === undefined ? null : value);
+}
+
+function parseSuggestionAttr(el: Element): Record<string, unknown> | null {
+  const raw = el.getAttribute('data-suggestion');
+  if (!raw) return null;
+  try {
+    const data = JSON.parse(raw);
+    return data && typeof data === 'object' && typeof data.id === 'string' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Add properties to every text leaf, descending into inline elements (links)
+ */
+function applyToLeaves(
+  nodes: (PlateElement | PlateText)[],
+  props: Record<string, unknown>
+): (PlateElement | PlateText)[] {
+  return nodes.map(node => 'text' in node
+    ? { ...node, ...props }
+    : { ...node, children: applyToLeaves(node.children, props) });
+}
+
+/**
+ * Reject pending tracked changes in a parsed document, as stripReviewMarkup
+ * (lib/plateReview.ts) does on Plate values: suggested text and blocks go,
+ * suggested deletions and formatting changes stay as they were.
+ */
+function rejectSuggestions(doc: Document): void {
+  doc.querySelectorAll('ins[data-suggestion]').forEach(el => el.remove());
+  doc.querySelectorAll('del[data-suggestion], span[data-suggestion]').forEach(el => {
+    el.replaceWith(...Array.from(el.childNodes));
+  });
+
+  // Block suggestions, last first so that chains of split paragraphs join up
+  Array.from(doc.querySelectorAll('[data-suggestion]')).reverse().forEach(el => {
+    const data = parseSuggestionAttr(el);
+    if (data?.type !== 'insert') return;
+    if (data.isLineBreak) {
+      // A suggested paragraph split: the next block joins this one again
+      const next = el.nextElementSibling;
+      if (next) {
+        el.append(...Array.from(next.childNodes));
+        next.remove();
+      }
+    } else {
+      el.remove();
+    }
+  });
+}
+
 /**
  * XHTML → Plain text
  *
@@ -1151,6 +1634,7 @@ function escapeAttr(text: string): string {
  * - AI tools input
  *
  * This is a direct XHTML parser that doesn't go through PlateJS.
+ * Pending tracked changes are rejected, so the text is what would be published.
  */
 export function xhtmlToPlainText(xhtml: string): string {
   if (!xhtml || xhtml.trim() === '') {
@@ -1160,6 +1644,7 @@ export function xhtmlToPlainText(xhtml: string): string {
   // Parse XHTML
   const parser = new DOMParser();
   const doc = parser.parseFromString(xhtml, 'text/html');
+  rejectSuggestions(doc);
 
   // Step 1: Remove elements that should NOT appear in AI text
   // - sticky image wraps (caption "Space", img, enlarge UI)
@@ -1175,6 +1660,13 @@ export function xhtmlToPlainText(xhtml: string): string {
     doc.querySelectorAll(selector).forEach((el) => el.remove());
   }
 
+  // Math reads as its TeX source rather than the rendered MathML glyph soup
+  doc.querySelectorAll('math').forEach((math) => {
+    const annotation = Array.from(math.getElementsByTagName('annotation'))
+      .find(a => a.getAttribute('encoding') === 'application/x-tex');
+    math.replaceWith(doc.createTextNode(annotation?.textContent?.trim() || math.textContent || ''));
+  });
+
   // Step 2: Fix dialogue speaker spans so they don't run into dialogue text
   // e.g. <span class="speaker">cramb (with curiosity)</span>Where were we
   //    → CRAMB (WITH CURIOSITY): Where were we
@@ -1189,7 +1681,7 @@ export function xhtmlToPlainText(xhtml: string): string {
   const blockTags = new Set([
     'P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
     'BLOCKQUOTE', 'LI', 'UL', 'OL', 'HR', 'TABLE', 'TR',
-    'SECTION', 'ARTICLE',
+    'SECTION', 'ARTICLE', 'ASIDE', 'PRE', 'DETAILS', 'SUMMARY',
   ]);
   doc.querySelectorAll('*').forEach((el) => {
     if (blockTags.has(el.tagName)) {
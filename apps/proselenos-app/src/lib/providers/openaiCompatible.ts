@@ -0,0 +1,386 @@
+// apps/proselenos-app/src/lib/providers/openaiCompatible.ts
+
+// Provider for any OpenAI-compatible chat completions API (OpenAI, company
+// gateways, llama.cpp, Ollama, LM Studio, ...). Endpoints, auth header and
+// extra model IDs come from the AI Settings config (lib/constants/aiApi.ts).
+// Requests go through fetch so the auth header can be anything a gateway needs.
+
+import {
+  AIProviderConfig,
+  DEFAULT_AI_PROVIDER,
+  normalizeAIProviderConfig,
+} from '@/lib/constants/aiApi';
+
+// ---- Public types ---------------------------------------------------------
+export interface AIConfig {
+  model_name?: string;
+  temperature?: number;
+  apiKey?: string;
+  provider?: AIProviderConfig;
+  headers?: Record<string, string>;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions extends ChatOptions {
+  onDone?: (finishReason?: string) => void;
+  logChunks?: boolean;
+}
+
+export interface ModelData {
+  id: string;
+  [key: string]: any;
+}
+
+// Rough size of a token in English prose, for servers that report no usage
+const CHARS_PER_TOKEN = 4;
+
+// ---- Helper utilities -----------------------------------------------------
+function isRetryableCode(code: unknown): boolean {
+  const n = Number(code);
+  return [429, 500, 502, 503, 504].includes(n);
+}
+
+function formatProviderError(src: any, providerName: string): Error {
+  const prov = src?.metadata?.provider_name ?? providerName;
+  const code = src?.code ?? '?';
+  const msg = src?.message ?? 'Stream error';
+  const err: any = new Error(`[${prov}] ${code}: ${msg}`);
+  err.code = code;
+  err.retryable = !!src?.metadata?.raw?.retryable || isRetryableCode(code);
+  return err as Error;
+}
+
+async function responseError(response: Response): Promise<Error> {
+  let message = '';
+  try {
+    const data = await response.json();
+    message = data?.error?.message ?? data?.error ?? data?.message ?? '';
+  } catch {
+    // Non-JSON error body
+  }
+  const err: any = new Error(message ? `${message} (HTTP ${response.status})` : `HTTP ${response.status}`);
+  err.code = response.status;
+  err.retryable = isRetryableCode(response.status);
+  return err as Error;
+}
+
+function isAbortError(error: any): boolean {
+  return error?.name === 'AbortError' || !!error?.message?.includes('aborted');
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// ---- Provider class -------------------------------------------------------
+export class OpenAICompatibleService {
+  protected config: AIProviderConfig;
+  protected apiKey: string;
+  protected extraHeaders: Record<string, string>;
+  protected model: string;
+  protected temperature: number;
+  public prompt: string | null = null;
+  public user: string = "proselenos";
+
+  constructor(config: AIConfig = {}) {
+    this.config = normalizeAIProviderConfig(config.provider ?? DEFAULT_AI_PROVIDER);
+    this.apiKey = config.apiKey ?? '';
+    this.extraHeaders = config.headers ?? {};
+    this.model = config.model_name ?? '';
+    this.temperature = typeof config.temperature === 'number' ? config.temperature : 0.2;
+  }
+
+  get providerName(): string {
+    return this.config.providerName || 'AI provider';
+  }
+
+  // ---- configuration ------------------------------------------------------
+  setPrompt(manuscript: string) {
+    this.prompt = manuscript ?? '';
+  }
+
+  setModel(model: string) {
+    this.model = model;
+  }
+
+  setTemperature(t: number) {
+    this.temperature = t;
+  }
+
+  isChatCompatible(model: string | { id?: string }): boolean {
+    const id = typeof model === 'string' ? model : model?.id ?? '';
+    // exclude obviously non-chat families; allow gpt-5* etc.
+    return !/(embedding|whisper|tts|audio-)/i.test(id);
+  }
+
+  protected buildHeaders(json = false): Record<string, string> {
+    const headers: Record<string, string> = { ...this.extraHeaders };
+    if (json) headers['Content-Type'] = 'application/json';
+    if (this.apiKey) {
+      const scheme = this.config.authScheme?.trim();
+      headers[this.config.authHeader || 'Authorization'] = scheme ? `${scheme} ${this.apiKey}` : this.apiKey;
+    }
+    return headers;
+  }
+
+  // ---- models ---------------------------------------------------------------
+  /**
+   * Ask the key-check URL whether the API key is accepted.
+   * Network errors are thrown so callers can decide how strict to be.
+   */
+  async checkApiKey(): Promise<boolean> {
+    const response = await fetch(this.config.authKey, { headers: this.buildHeaders() });
+    return response.ok;
+  }
+
+  async verifyAiAPI(): Promise<boolean> {
+    try {
+      if (this.config.authKey.trim()) {
+        return await this.checkApiKey();
+      }
+      return (await this.getAvailableModels()).length > 0;
+    } catch (err) {
+      console.warn(`${this.providerName} verifyAiAPI failed:`, err);
+      return false;
+    }
+  }
+
+  /**
+   * Chat models from the models URL plus any listed in the config, sorted.
+   * Throws when the models URL fails and no models are listed in the config.
+   */
+  async getAvailableModels(): Promise<ModelData[]> {
+    const byId = new Map<string, ModelData>();
+    for (const id of (this.config.modelList ?? '').split(/[\n,]/).map(s => s.trim()).filter(Boolean)) {
+      byId.set(id, { id });
+    }
+
+    if (this.config.models.trim()) {
+      try {
+        const response = await fetch(this.config.models, { headers: this.buildHeaders() });
+        if (!response.ok) throw await responseError(response);
+        const data = await response.json();
+        // OpenAI shape ({ data: [...] }), Ollama native ({ models: [...] }) or a bare array
+        const list: any[] = Array.isArray(data) ? data : data?.data ?? data?.models ?? [];
+        for (const model of list) {
+          const id = typeof model === 'string' ? model : model?.id ?? model?.name ?? model?.model;
+          if (id && !byId.has(id)) byId.set(id, typeof model === 'string' ? { id } : { ...model, id });
+        }
+      } catch (error: any) {
+        if (byId.size === 0) throw error;
+        console.warn(`${this.providerName} models list error (using configured models):`, error.message);
+      }
+    }
+
+    return [...byId.values()]
+      .filter(model => this.isChatCompatible(model))
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Context window of a model as reported by the models URL, or null when unknown
+   */
+  async getContextLength(modelId: string = this.model): Promise<number | null> {
+    try {
+      const model = (await this.getAvailableModels()).find(m => m.id === modelId);
+      // OpenRouter, llama.cpp and LM Studio each report it differently
+      const length = model?.context_length
+        ?? model?.top_provider?.context_length
+        ?? model?.meta?.n_ctx_train
+        ?? model?.max_context_length;
+      return typeof length === 'number' && length > 0 ? length : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ---- request builders ---------------------------------------------------
+  private buildMessages(userPrompt: string): ChatMessage[] {
+    // If caller has already embedded manuscript markers, pass-through
+    if (this.prompt?.trimStart().startsWith('=== MANUSCRIPT ===')) {
+      const full = `${this.prompt}\n\n=== INSTRUCTIONS ===\n${userPrompt}\n=== END INSTRUCTIONS ===`;
+      return [
+        { role: 'user', content: full },
+      ];
+    }
+
+    // Otherwise, embed manuscript plainly
+    const manuscript = this.prompt ?? '';
+    const combined = `=== MANUSCRIPT ===\n${manuscript}\n=== END MANUSCRIPT ===\n\n=== INSTRUCTIONS ===\n${userPrompt}\n=== END INSTRUCTIONS ===`;
+    return [
+      { role: 'user', content: combined },
+    ];
+  }
+
+  private buildBody(messages: ChatMessage[], opts: ChatOptions, stream: boolean) {
+    if (!this.model.trim()) throw new Error('No AI model configured');
+    return JSON.stringify({
+      model: this.model,
+      temperature: typeof opts.temperature === 'number' ? opts.temperature : this.temperature,
+      ...(opts.maxTokens ? { max_tokens: opts.maxTokens } : {}),
+      messages,
+      stream,
+    });
+  }
+
+  // ---- chat -----------------------------------------------------------------
+  async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetch(this.config.completions, {
+        method: 'POST',
+        headers: this.buildHeaders(true),
+        body: this.buildBody(messages, options, false),
+        signal: options.signal,
+      });
+    } catch (error: any) {
+      if (isAbortError(error)) throw new Error('TOOL_TIMEOUT_ABORTED');
+      throw error;
+    }
+    if (!response.ok) throw await responseError(response);
+
+    const data = await response.json();
+    if (data?.error) throw formatProviderError(data.error, this.providerName);
+    const text = data?.choices?.[0]?.message?.content ?? '';
+    return typeof text === 'string' ? text : '';
+  }
+
+  async streamChat(
+    messages: ChatMessage[],
+    onText: (text: string) => void,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    let lastFinish: string | undefined;
+
+    try {
+      const response = await fetch(this.config.completions, {
+        method: 'POST',
+        headers: this.buildHeaders(true),
+        body: this.buildBody(messages, options, true),
+        signal: options.signal,
+      });
+      if (!response.ok) throw await responseError(response);
+      if (!response.body) throw new Error(`${this.providerName} returned an empty stream`);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let done = false;
+
+      while (!done) {
+        const { value, done: streamDone } = await reader.read();
+        if (streamDone) break;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          // Blank separators and SSE comments (keep-alives)
+          if (!line || line.startsWith(':') || !line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') {
+            done = true;
+            break;
+          }
+
+          let chunk: any;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            continue;
+          }
+          if (options.logChunks) console.log(chunk);
+
+          // 1) Top-level streamed error (some providers)
+          if (chunk?.error) throw formatProviderError(chunk.error, this.providerName);
+
+          const choice = chunk?.choices?.[0];
+          if (!choice) continue;
+
+          // 2) Choice-level provider error
+          if (choice.error) throw formatProviderError(choice.error, this.providerName);
+
+          // 3) finish_reason can be "error" in some streams
+          const finishReason = choice.finish_reason;
+          if (finishReason === 'error') {
+            const e: any = new Error('Stream ended with finish_reason=error');
+            e.retryable = true; // informational only; you are NOT retrying
+            throw e;
+          }
+
+          // 4) Normal delta
+          const text = choice.delta?.content;
+          if (typeof text === 'string' && text.length) onText(text);
+
+          if (finishReason) lastFinish = finishReason;
+        }
+      }
+    } catch (error: any) {
+      // Handle abort signal timeout
+      if (isAbortError(error)) {
+        throw new Error('TOOL_TIMEOUT_ABORTED');
+      }
+      throw error;
+    }
+
+    if (options.signal?.aborted) {
+      throw new Error('TOOL_TIMEOUT_ABORTED');
+    }
+
+    options.onDone?.(lastFinish);
+  }
+
+  // ---- manuscript-wrapped helpers (setPrompt + instructions) ------------------
+  async completeOnce(prompt: string, options: ChatOptions = {}): Promise<string> {
+    if (!this.prompt) throw new Error('No manuscript loaded.');
+    return this.chat(this.buildMessages(prompt), options);
+  }
+
+  async streamWithThinking(
+    prompt: string,
+    onText: (text: string) => void,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    if (!this.prompt) throw new Error('No manuscript loaded.');
+    return this.streamChat(this.buildMessages(prompt), onText, options);
+  }
+
+  /**
+   * Prompt tokens for `text` as reported by the provider. Servers that report
+   * no usage get an estimate; -1 means the request itself failed.
+   */
+  async countTokens(text: string): Promise<number> {
+    try {
+      const response = await fetch(this.config.completions, {
+        method: 'POST',
+        headers: this.buildHeaders(true),
+        body: JSON.stringify({
+          model: this.model,
+          messages: [{ role: 'user', content: text }],
+          max_tokens: 1, // minimal generation to save costs
+          temperature: 0,
+        }),
+      });
+      if (!response.ok) throw await responseError(response);
+      const data = await response.json();
+      const promptTokens = data?.usage?.prompt_tokens;
+      return typeof promptTokens === 'number' && promptTokens > 0 ? promptTokens : estimateTokens(text);
+    } catch (error: any) {
+      console.error('Token counting error:', error);
+      return -1;
+    }
+  }
+}
+
+export default OpenAICompatibleService;
@@ -0,0 +1,167 @@
+/**
+ * Quote Matcher
+ *
+ * Locates a quoted passage inside a longer text, tolerating the small edits an
+ * author makes between sharing a draft and reading the feedback on it
+ * (typography, whitespace, case, a few changed characters).
+ */
+
+export interface QuoteContext {
+  prefix?: string;
+  suffix?: string;
+}
+
+export interface QuoteMatch {
+  // Offsets into the original (un-normalized) text
+  start: number;
+  end: number;
+  exact: boolean;
+}
+
+// Longest stretch of the quote used for approximate matching (keeps the DP cheap)
+const MAX_FUZZY_PATTERN = 400;
+// Share of the quote that may differ and still count as a match
+const MAX_FUZZY_ERROR_RATE = 0.25;
+
+const CHAR_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '″': '"',
+  '–': '-', '—': '-', '−': '-',
+  '…': '...',
+  '­': '',
+};
+
+/**
+ * Normalize for comparison, keeping a map from each normalized character back
+ * to its index in the source text.
+ */
+function normalize(text: string): { value: string; map: number[] } {
+  let value = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+    if (/\s/.test(ch)) {
+      if (!lastWasSpace) {
+        value += ' ';
+        map.push(i);
+        lastWasSpace = true;
+      }
+      continue;
+    }
+    const replaced = (CHAR_REPLACEMENTS[ch] ?? ch).toLowerCase();
+    for (const out of replaced) {
+      value += out;
+      map.push(i);
+    }
+    lastWasSpace = false;
+  }
+
+  if (value.endsWith(' ')) {
+    value = value.slice(0, -1);
+    map.pop();
+  }
+  return { value, map };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+/**
+ * Approximate substring search (Sellers' algorithm): the span of `text` with
+ * the smallest edit distance to `pattern`.
+ */
+function approximateSearch(text: string, pattern: string): { start: number; end: number; distance: number } | null {
+  const m = pattern.length;
+  let prev = new Array<number>(m + 1);
+  let prevStart = new Array<number>(m + 1);
+  let cur = new Array<number>(m + 1);
+  let curStart = new Array<number>(m + 1);
+  for (let i = 0; i <= m; i++) {
+    prev[i] = i;
+    prevStart[i] = 0;
+  }
+
+  let best: { start: number; end: number; distance: number } | null = null;
+  for (let j = 1; j <= text.length; j++) {
+    const t = text[j - 1];
+    cur[0] = 0;
+    curStart[0] = j;
+    for (let i = 1; i <= m; i++) {
+      let cost = prev[i - 1]! + (pattern[i - 1] === t ? 0 : 1);
+      let start = prevStart[i - 1]!;
+      if (cur[i - 1]! + 1 < cost) {
+        cost = cur[i - 1]! + 1;
+        start = curStart[i - 1]!;
+      }
+      if (prev[i]! + 1 < cost) {
+        cost = prev[i]! + 1;
+        start = prevStart[i]!;
+      }
+      cur[i] = cost;
+      curStart[i] = start;
+    }
+    if (!best || cur[m]! < best.distance) {
+      best = { start: curStart[m]!, end: j, distance: cur[m]! };
+    }
+    [prev, cur] = [cur, prev];
+    [prevStart, curStart] = [curStart, prevStart];
+  }
+  return best;
+}
+
+/**
+ * Find `quote` in `text`. Exact (normalized) matches win; repeated passages
+ * are told apart by the surrounding context. Returns null when nothing is
+ * close enough.
+ */
+export function findQuote(text: string, quote: string, context: QuoteContext = {}): QuoteMatch | null {
+  const source = normalize(text);
+  const pattern = normalize(quote).value;
+  if (!pattern || !source.value) return null;
+
+  const toOriginal = (start: number, end: number, exact: boolean): QuoteMatch => ({
+    start: source.map[start]!,
+    end: source.map[end - 1]! + 1,
+    exact,
+  });
+
+  // Exact matches, ranked by how well the context agrees
+  const prefix = normalize(context.prefix ?? '').value;
+  const suffix = normalize(context.suffix ?? '').value;
+  let bestIndex = -1;
+  let bestScore = -1;
+  for (let idx = source.value.indexOf(pattern); idx !== -1; idx = source.value.indexOf(pattern, idx + 1)) {
+    const score =
+      commonSuffixLength(source.value.slice(0, idx).trimEnd(), prefix.trimEnd()) +
+      commonPrefixLength(source.value.slice(idx + pattern.length).trimStart(), suffix.trimStart());
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = idx;
+    }
+  }
+  if (bestIndex >= 0) {
+    return toOriginal(bestIndex, bestIndex + pattern.length, true);
+  }
+
+  // Approximate match; very short quotes are too ambiguous to guess at
+  if (pattern.length < 8) return null;
+  const head = pattern.slice(0, MAX_FUZZY_PATTERN);
+  const found = approximateSearch(source.value, head);
+  if (!found || found.distance > Math.floor(head.length * MAX_FUZZY_ERROR_RATE)) return null;
+
+  // A long quote was matched on its first part only; extend by the remainder
+  const end = Math.min(source.value.length, found.end + (pattern.length - head.length));
+  if (end <= found.start) return null;
+  return toOriginal(found.start, end, false);
+}
@@ -0,0 +1,239 @@
+/**
+ * Final Draft (.fdx) Export and Import
+ *
+ * FDX is Final Draft's XML format: a <Content> list of typed <Paragraph>
+ * elements plus an optional <TitlePage>. Both directions go through the
+ * shared screenplay element model (lib/screenplay.ts), so a script imported
+ * from Fountain can be written as FDX and the other way round.
+ *
+ * Fountain's outline elements (sections, synopses) and notes have no FDX
+ * paragraph type and are left out of the export.
+ */
+
+import { getPlainElementText, type Screenplay, type ScreenplayElement } from '@/lib/screenplay';
+
+// Element type → FDX paragraph Type
+const FDX_TYPES: Record<string, string> = {
+  scene_heading: 'Scene Heading',
+  action: 'Action',
+  character: 'Character',
+  parenthetical: 'Parenthetical',
+  dialogue: 'Dialogue',
+  lyrics: 'Dialogue',
+  transition: 'Transition',
+  centered: 'Action',
+};
+
+// FDX paragraph Type → element type (Final Draft template types without a
+// Fountain equivalent map to the nearest printed element)
+const ELEMENT_TYPES: Record<string, string> = {
+  'Scene Heading': 'scene_heading',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Parenthetical': 'parenthetical',
+  'Dialogue': 'dialogue',
+  'Transition': 'transition',
+  'New Act': 'centered',
+  'End of Act': 'centered',
+  'Cast List': 'action',
+};
+
+const UNEXPORTED_TYPES = new Set(['section', 'synopsis', 'note']);
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function paragraphXml(type: string, text: string, attrs = ''): string {
+  return `    <Paragraph${attrs} Type="${type}">\n      <Text>${escapeXml(text)}</Text>\n    </Paragraph>`;
+}
+
+function elementXml(element: ScreenplayElement, sceneNumber: number | null, newPage: boolean): string {
+  let attrs = '';
+  if (element.type === 'centered') attrs += ' Alignment="Center"';
+  if (sceneNumber !== null) attrs += ` Number="${sceneNumber}"`;
+  if (newPage) attrs += ' StartsNewPage="Yes"';
+  return paragraphXml(FDX_TYPES[element.type] ?? 'Action', getPlainElementText(element), attrs);
+}
+
+/**
+ * Title page paragraphs in Final Draft's layout: the centred block, then
+ * contact details and draft information at the foot
+ */
+function titlePageXml(fields: Record<string, string>): string {
+  const paragraphs: string[] = [];
+  const add = (text: string, alignment: 'Center' | 'Left' | 'Right') => {
+    paragraphs.push(paragraphXml('Text', text, ` Alignment="${alignment}"`));
+  };
+  const lines = (key: string) => (fields[key] ?? '').split('\n').map(l => l.trim()).filter(Boolean);
+
+  for (const line of lines('Title')) add(line.toUpperCase(), 'Center');
+  add('', 'Center');
+  for (const line of lines('Credit')) add(line, 'Center');
+  add('', 'Center');
+  for (const line of [...lines('Author'), ...lines('Authors')]) add(line, 'Center');
+  if (lines('Source').length > 0) add('', 'Center');
+  for (const line of lines('Source')) add(line, 'Center');
+  add('', 'Left');
+  for (const line of [...lines('Contact'), ...lines('Notes')]) add(line, 'Left');
+  for (const line of [...lines('Draft date'), ...lines('Revision'), ...lines('Copyright')]) add(line, 'Right');
+
+  return paragraphs.join('\n');
+}
+
+/**
+ * Screenplay → FDX document text
+ */
+export function screenplayToFdx(screenplay: Screenplay, sceneNumbers = false): string {
+  const paragraphs: string[] = [];
+  let sceneNumber = 0;
+  let newPage = false;
+  const elements = screenplay.elements.filter(e => !UNEXPORTED_TYPES.has(e.type));
+
+  for (let i = 0; i < elements.length; i++) {
+    const element = elements[i]!;
+    if (element.type === 'page_break') {
+      newPage = true;
+      continue;
+    }
+
+    // Dual dialogue: both speeches go inside one <DualDialogue> paragraph
+    if (element.type === 'character' && element.dual === 'left') {
+      const speeches: string[] = [];
+      let j = i;
+      while (j < elements.length) {
+        const el = elements[j]!;
+        if (el.type === 'character' && j > i && el.dual !== 'right') break;
+        if (!['character', 'dialogue', 'parenthetical', 'lyrics'].includes(el.type)) break;
+        speeches.push(elementXml(el, null, false).replace(/^ {4}/gm, '        '));
+        j++;
+      }
+      paragraphs.push(`    <Paragraph${newPage ? ' StartsNewPage="Yes"' : ''}>\n      <DualDialogue>\n${speeches.join('\n')}\n      </DualDialogue>\n    </Paragraph>`);
+      newPage = false;
+      i = j - 1;
+      continue;
+    }
+
+    const number = element.type === 'scene_heading' && sceneNumbers ? ++sceneNumber : null;
+    paragraphs.push(elementXml(element, number, newPage));
+    newPage = false;
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+${paragraphs.join('\n')}
+  </Content>
+  <TitlePage>
+    <Content>
+${titlePageXml(screenplay.titlePage)}
+    </Content>
+  </TitlePage>
+</FinalDraft>
+`;
+}
+
+function paragraphText(paragraph: Element): string {
+  const texts = Array.from(paragraph.children).filter(child => child.tagName === 'Text');
+  return texts.map(t => t.textContent ?? '').join('').replace(/\r\n?/g, '\n').trim();
+}
+
+function readParagraph(paragraph: Element, dual?: 'left' | 'right'): ScreenplayElement | null {
+  const text = paragraphText(paragraph);
+  if (!text) return null;
+  const fdxType = paragraph.getAttribute('Type') ?? 'Action';
+  let type = ELEMENT_TYPES[fdxType] ?? 'action';
+  if (type === 'action' && paragraph.getAttribute('Alignment') === 'Center') type = 'centered';
+
+  const element: ScreenplayElement = { text, type };
+  if (dual && type === 'character') element.dual = dual;
+  return element;
+}
+
+/**
+ * Title page fields from FDX title page paragraphs. Final Draft stores the
+ * title page as free text, so fields are recognised by position: the centred
+ * lines before a "by" / "Written by" credit line are the title and the block
+ * after it the authors, with a further block taken as the source (blocks are
+ * separated by empty lines). Left-aligned lines are contact details,
+ * right-aligned ones draft information.
+ */
+function readTitlePage(doc: Document): Record<string, string> {
+  const fields: Record<string, string[]> = {};
+  const push = (key: string, text: string) => { (fields[key] ??= []).push(text); };
+  const centredFields = ['Title', 'Author', 'Source'];
+  let field = 0;
+  let blockEnded = false;
+
+  for (const paragraph of Array.from(doc.querySelectorAll('TitlePage > Content > Paragraph'))) {
+    const text = paragraphText(paragraph);
+    const alignment = paragraph.getAttribute('Alignment') ?? 'Left';
+    if (!text) {
+      if (alignment === 'Center' && fields[centredFields[field]!]) blockEnded = true;
+      continue;
+    }
+
+    if (alignment === 'Center') {
+      if (/^(written\s+)?by\b|^(screenplay|story|teleplay)\s+by\b/i.test(text)) {
+        push('Credit', text);
+        field = Math.max(field, 1);
+        blockEnded = false;
+        continue;
+      }
+      if (blockEnded && field < centredFields.length - 1) field++;
+      blockEnded = false;
+      push(centredFields[field]!, text);
+    } else if (alignment === 'Right') {
+      push('Draft date', text);
+    } else {
+      push('Contact', text);
+    }
+  }
+
+  return Object.fromEntries(Object.entries(fields).map(([key, values]) => [key, values.join('\n')]));
+}
+
+/**
+ * FDX document text → screenplay elements and title page fields
+ *
+ * @throws Error if the file is not a Final Draft document
+ */
+export function parseFdx(xml: string): { elements: ScreenplayElement[]; titlePage: Record<string, string> } {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.querySelector('parsererror') || doc.documentElement.tagName !== 'FinalDraft') {
+    throw new Error('Not a Final Draft (.fdx) document');
+  }
+
+  const elements: ScreenplayElement[] = [];
+  const content = Array.from(doc.documentElement.children).find(child => child.tagName === 'Content');
+
+  for (const paragraph of Array.from(content?.children ?? [])) {
+    if (paragraph.tagName !== 'Paragraph') continue;
+    if (paragraph.getAttribute('StartsNewPage') === 'Yes' && elements.length > 0) {
+      elements.push({ text: '===', type: 'page_break' });
+    }
+
+    const dual = Array.from(paragraph.children).find(child => child.tagName === 'DualDialogue');
+    if (dual) {
+      let side: 'left' | 'right' | undefined;
+      for (const inner of Array.from(dual.children)) {
+        if (inner.tagName !== 'Paragraph') continue;
+        if (inner.getAttribute('Type') === 'Character') side = side ? 'right' : 'left';
+        const element = readParagraph(inner, side);
+        if (element) elements.push(element);
+      }
+      continue;
+    }
+
+    const element = readParagraph(paragraph);
+    if (element) elements.push(element);
+  }
+
+  return { elements, titlePage: readTitlePage(doc) };
+}
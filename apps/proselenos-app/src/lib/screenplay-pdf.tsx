@@ -0,0 +1,414 @@
+// screenplay-pdf.tsx
+//
+// Client-side screenplay → industry-format PDF using book-pdf.
+// Pages are laid out here on the Courier grid (10 characters per inch, 6 lines
+// per inch), so pagination follows screenplay rules rather than book flow:
+// element margins, scene headings kept with what follows, dialogue split
+// with (MORE) / CONT'D, dual dialogue side by side, optional scene numbers
+// and a title page from the Fountain title page fields.
+
+import React from 'react';
+import { Document, Page, Text, pdf } from 'book-pdf';
+import { getPlainElementText, type Screenplay, type ScreenplayElement } from '@/lib/screenplay';
+import { SCREENPLAY_PDF_FONT } from '@/lib/pdfFonts';
+
+export interface ScreenplayPdfOptions {
+  // Font family registered with book-pdf; a Courier (the bundled Courier Prime) for the standard page count
+  fontFamily: string;
+  sceneNumbers: boolean;
+  titlePage: boolean;
+}
+
+export const DEFAULT_SCREENPLAY_PDF_OPTIONS: ScreenplayPdfOptions = {
+  fontFamily: SCREENPLAY_PDF_FONT,
+  sceneNumbers: false,
+  titlePage: true,
+};
+
+// US Letter, 12pt Courier: one character is 0.1", one line is 1/6"
+const PAGE_WIDTH = 8.5;
+const PAGE_HEIGHT = 11;
+const CHARS_PER_INCH = 10;
+const LINE_HEIGHT = 12;  // points
+const POINTS_PER_INCH = 72;
+const TOP_MARGIN = 1;
+const BOTTOM_MARGIN = 1;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - TOP_MARGIN - BOTTOM_MARGIN) * POINTS_PER_INCH / LINE_HEIGHT);
+// Page numbers sit half an inch from the top, flush with the right margin
+const PAGE_NUMBER_TOP = 0.5;
+const RIGHT_EDGE = 7.5;
+const SCENE_NUMBER_LEFT = 0.9;
+const SCENE_NUMBER_RIGHT = 7.6;
+// Fewest lines of an action paragraph or speech left on either side of a page break
+const MIN_SPLIT_LINES = 2;
+
+interface ElementLayout {
+  left: number;      // inches from the left edge of the page
+  width: number;     // inches
+  align?: 'left' | 'right' | 'center';
+  upper?: boolean;
+  spaceBefore: number;
+}
+
+// Industry margins per element (inches from the page edge)
+const LAYOUT: Record<string, ElementLayout> = {
+  scene_heading: { left: 1.5, width: 6, upper: true, spaceBefore: 2 },
+  action: { left: 1.5, width: 6, spaceBefore: 1 },
+  character: { left: 3.7, width: 3.3, upper: true, spaceBefore: 1 },
+  parenthetical: { left: 3.1, width: 2.4, spaceBefore: 0 },
+  dialogue: { left: 2.5, width: 3.5, spaceBefore: 0 },
+  transition: { left: 1.5, width: 6, align: 'right', upper: true, spaceBefore: 1 },
+  centered: { left: 1.5, width: 6, align: 'center', spaceBefore: 1 },
+};
+
+// Dual dialogue: two narrower speeches side by side
+const DUAL_LAYOUT: Record<'left' | 'right', Record<'character' | 'parenthetical' | 'dialogue', ElementLayout>> = {
+  left: {
+    character: { left: 2.5, width: 1.9, upper: true, spaceBefore: 0 },
+    parenthetical: { left: 1.9, width: 2.2, spaceBefore: 0 },
+    dialogue: { left: 1.5, width: 2.9, spaceBefore: 0 },
+  },
+  right: {
+    character: { left: 5.6, width: 1.9, upper: true, spaceBefore: 0 },
+    parenthetical: { left: 5.0, width: 2.2, spaceBefore: 0 },
+    dialogue: { left: 4.6, width: 2.9, spaceBefore: 0 },
+  },
+};
+
+// Fountain's outline elements and notes are never printed
+const UNPRINTED_TYPES = new Set(['section', 'synopsis', 'note']);
+
+export interface PrintFragment {
+  text: string;
+  left: number;      // inches
+  width: number;     // inches
+  align: 'left' | 'right' | 'center';
+}
+
+// One line of the page; an empty row is a blank line
+export type PrintRow = PrintFragment[];
+
+interface Block {
+  kind: 'heading' | 'action' | 'speech' | 'dual' | 'transition' | 'page_break';
+  spaceBefore: number;
+  rows: PrintRow[];
+  // Speech: the character cue, repeated with CONT'D after a page break
+  cue?: string;
+  // Speech: rows that may not end a page (parentheticals)
+  noBreakAfter?: Set<number>;
+}
+
+/**
+ * Greedy word wrap to a column width in characters. Words longer than the
+ * column are broken.
+ */
+export function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word;
+      while (rest.length > maxChars) {
+        if (line) { lines.push(line); line = ''; }
+        lines.push(rest.slice(0, maxChars));
+        rest = rest.slice(maxChars);
+      }
+      if (!line) line = rest;
+      else if (line.length + 1 + rest.length <= maxChars) line += ` ${rest}`;
+      else { lines.push(line); line = rest; }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+function layoutRows(text: string, layout: ElementLayout): PrintRow[] {
+  const content = layout.upper ? text.toUpperCase() : text;
+  const maxChars = Math.round(layout.width * CHARS_PER_INCH);
+  return wrapText(content, maxChars).map(line => (line
+    ? [{ text: line, left: layout.left, width: layout.width, align: layout.align ?? 'left' }]
+    : []));
+}
+
+/**
+ * Groups a character cue with its parentheticals and dialogue
+ */
+function collectSpeech(elements: ScreenplayElement[], start: number): { parts: ScreenplayElement[]; end: number } {
+  const parts: ScreenplayElement[] = [elements[start]!];
+  let i = start + 1;
+  while (i < elements.length && ['dialogue', 'parenthetical', 'lyrics'].includes(elements[i]!.type)) {
+    parts.push(elements[i]!);
+    i++;
+  }
+  return { parts, end: i };
+}
+
+function speechRows(parts: ScreenplayElement[], layouts: Record<'character' | 'parenthetical' | 'dialogue', ElementLayout>) {
+  const rows: PrintRow[] = [];
+  const noBreakAfter = new Set<number>();
+  for (const part of parts) {
+    const type = part.type === 'character' || part.type === 'parenthetical' ? part.type : 'dialogue';
+    const partRows = layoutRows(getPlainElementText(part), layouts[type]);
+    rows.push(...partRows);
+    if (type !== 'dialogue') noBreakAfter.add(rows.length - 1);
+  }
+  return { rows, noBreakAfter };
+}
+
+/**
+ * Turns screenplay elements into layout blocks (one per printed element,
+ * with character cue + parentheticals + dialogue as one speech)
+ */
+function buildBlocks(elements: ScreenplayElement[], sceneNumbers: boolean): Block[] {
+  const blocks: Block[] = [];
+  let sceneNumber = 0;
+  let i = 0;
+
+  while (i < elements.length) {
+    const element = elements[i]!;
+
+    if (UNPRINTED_TYPES.has(element.type)) {
+      i++;
+    } else if (element.type === 'page_break') {
+      blocks.push({ kind: 'page_break', spaceBefore: 0, rows: [] });
+      i++;
+    } else if (element.type === 'character') {
+      const left = collectSpeech(elements, i);
+      const right = element.dual === 'left' && elements[left.end]?.type === 'character' && elements[left.end]?.dual === 'right'
+        ? collectSpeech(elements, left.end)
+        : null;
+
+      if (right) {
+        // Both speeches side by side, kept together on one page
+        const leftRows = speechRows(left.parts, DUAL_LAYOUT.left).rows;
+        const rightRows = speechRows(right.parts, DUAL_LAYOUT.right).rows;
+        const rows: PrintRow[] = [];
+        for (let r = 0; r < Math.max(leftRows.length, rightRows.length); r++) {
+          rows.push([...(leftRows[r] ?? []), ...(rightRows[r] ?? [])]);
+        }
+        blocks.push({ kind: 'dual', spaceBefore: LAYOUT.character!.spaceBefore, rows });
+        i = right.end;
+      } else {
+        const { rows, noBreakAfter } = speechRows(left.parts, {
+          character: LAYOUT.character!,
+          parenthetical: LAYOUT.parenthetical!,
+          dialogue: LAYOUT.dialogue!,
+        });
+        const cue = getPlainElementText(element).toUpperCase().replace(/\s*\(CONT['’]D\)\s*$/, '');
+        blocks.push({ kind: 'speech', spaceBefore: LAYOUT.character!.spaceBefore, rows, cue, noBreakAfter });
+        i = left.end;
+      }
+    } else {
+      const kind = element.type === 'scene_heading' ? 'heading' : element.type === 'transition' ? 'transition' : 'action';
+      // Orphaned dialogue and parentheticals (no cue) print as action
+      const layout = LAYOUT[element.type] ?? LAYOUT.action!;
+      const rows = layoutRows(getPlainElementText(element), layout);
+      if (kind === 'heading' && sceneNumbers && rows[0]) {
+        sceneNumber++;
+        const label = String(sceneNumber);
+        rows[0] = [
+          { text: label, left: SCENE_NUMBER_LEFT, width: 0.5, align: 'left' },
+          ...rows[0],
+          { text: label, left: SCENE_NUMBER_RIGHT, width: 0.5, align: 'left' },
+        ];
+      }
+      blocks.push({ kind, spaceBefore: layout.spaceBefore, rows });
+      i++;
+    }
+  }
+
+  return blocks;
+}
+
+function sentenceEnds(row: PrintRow): boolean {
+  const text = row[row.length - 1]?.text ?? '';
+  return /[.!?…]["'”’)]*$/.test(text) || /--$/.test(text);
+}
+
+/**
+ * Rows of a block to keep on the current page, or 0 if it can't be split
+ * there. Splits prefer a sentence end; a speech needs room for (MORE).
+ */
+function findSplit(block: Block, available: number): number {
+  const reserve = block.kind === 'speech' ? 1 : 0;
+  // A speech keeps its cue plus two lines of dialogue on the first page
+  const minFirst = block.kind === 'speech' ? MIN_SPLIT_LINES + 1 : MIN_SPLIT_LINES;
+  const maxFirst = Math.min(available - reserve, block.rows.length - MIN_SPLIT_LINES);
+  if (block.kind !== 'speech' && block.kind !== 'action') return 0;
+  if (maxFirst < minFirst) return 0;
+
+  let fallback = 0;
+  for (let k = maxFirst; k >= minFirst; k--) {
+    if (block.noBreakAfter?.has(k - 1)) continue;
+    if (sentenceEnds(block.rows[k - 1]!)) return k;
+    if (!fallback) fallback = k;
+  }
+  return fallback;
+}
+
+function moreRow(): PrintRow {
+  return [{ text: '(MORE)', left: LAYOUT.character!.left, width: LAYOUT.character!.width, align: 'left' }];
+}
+
+function contdRow(cue: string): PrintRow {
+  return [{ text: `${cue} (CONT'D)`, left: LAYOUT.character!.left, width: LAYOUT.character!.width, align: 'left' }];
+}
+
+/**
+ * Paginates blocks into pages of LINES_PER_PAGE rows
+ */
+function paginate(blocks: Block[]): PrintRow[][] {
+  const pages: PrintRow[][] = [[]];
+  const current = () => pages[pages.length - 1]!;
+  const newPage = () => { if (current().length > 0) pages.push([]); };
+
+  for (let b = 0; b < blocks.length; b++) {
+    let block: Block | null = blocks[b]!;
+    if (block.kind === 'page_break') {
+      newPage();
+      continue;
+    }
+
+    while (block) {
+      const page = current();
+      const space = page.length === 0 ? 0 : block.spaceBefore;
+      const available = LINES_PER_PAGE - page.length - space;
+
+      // A scene heading is never the last thing on a page: keep two lines of what follows
+      let needed = block.rows.length;
+      if (block.kind === 'heading') {
+        const next = blocks[b + 1];
+        if (next && next.kind !== 'page_break') {
+          needed += next.spaceBefore + Math.min(next.rows.length, next.kind === 'speech' ? MIN_SPLIT_LINES + 1 : MIN_SPLIT_LINES);
+        }
+      }
+
+      if (needed <= available) {
+        for (let s = 0; s < space; s++) page.push([]);
+        page.push(...block.rows);
+        block = null;
+        continue;
+      }
+
+      const split = findSplit(block, available);
+      if (split > 0) {
+        for (let s = 0; s < space; s++) page.push([]);
+        page.push(...block.rows.slice(0, split));
+        const rest = block.rows.slice(split);
+        if (block.kind === 'speech') {
+          page.push(moreRow());
+          block = { ...block, spaceBefore: 0, rows: [contdRow(block.cue ?? ''), ...rest], noBreakAfter: shift(block.noBreakAfter, split - 1) };
+        } else {
+          block = { ...block, spaceBefore: 0, rows: rest };
+        }
+        newPage();
+        continue;
+      }
+
+      if (page.length === 0) {
+        // Longer than a whole page and can't be split by the rules: break it anyway
+        page.push(...block.rows.slice(0, LINES_PER_PAGE));
+        const rest = block.rows.slice(LINES_PER_PAGE);
+        block = rest.length > 0 ? { ...block, spaceBefore: 0, rows: rest } : null;
+        if (block) newPage();
+        continue;
+      }
+
+      newPage();
+    }
+  }
+
+  return pages.filter((page, i) => page.length > 0 || i === 0);
+}
+
+// Speech continued on a new page: its row indexes move down past the cut
+// (and one row for the CONT'D cue)
+function shift(rows: Set<number> | undefined, cut: number): Set<number> | undefined {
+  if (!rows) return rows;
+  return new Set([...rows].filter(r => r > cut).map(r => r - cut));
+}
+
+/**
+ * Lays out the screenplay body as pages of printed rows
+ */
+export function paginateScreenplay(elements: ScreenplayElement[], sceneNumbers: boolean): PrintRow[][] {
+  return paginate(buildBlocks(elements, sceneNumbers));
+}
+
+/**
+ * Title page: title, credit, author and source centred a third of the way
+ * down; contact and notes bottom left; draft date, revision and copyright
+ * bottom right
+ */
+function layoutTitlePage(fields: Record<string, string>): PrintRow[] {
+  const lines = (key: string) => (fields[key] ?? '').split('\n').map(l => l.trim()).filter(Boolean);
+  const center = (text: string): PrintRow => [{ text, left: 1.5, width: 6, align: 'center' }];
+  const rows: PrintRow[] = Array.from({ length: LINES_PER_PAGE }, () => []);
+
+  const centred: PrintRow[] = [];
+  for (const line of lines('Title')) centred.push(center(line.toUpperCase()));
+  if (lines('Credit').length || lines('Author').length) centred.push([]);
+  for (const line of lines('Credit')) centred.push(center(line));
+  if (lines('Credit').length) centred.push([]);
+  for (const line of [...lines('Author'), ...lines('Authors')]) centred.push(center(line));
+  if (lines('Source').length) {
+    centred.push([]);
+    for (const line of lines('Source')) centred.push(center(line));
+  }
+  centred.forEach((row, i) => { rows[18 + i] = row; });
+
+  const bottomLeft = [...lines('Contact'), ...lines('Notes')];
+  const bottomRight = [...lines('Draft date'), ...lines('Revision'), ...lines('Copyright')];
+  const bottomStart = LINES_PER_PAGE - Math.max(bottomLeft.length, bottomRight.length);
+  bottomLeft.forEach((text, i) => { rows[bottomStart + i]!.push({ text, left: 1.5, width: 3.5, align: 'left' }); });
+  bottomRight.forEach((text, i) => { rows[bottomStart + i]!.push({ text, left: 5, width: RIGHT_EDGE - 5, align: 'right' }); });
+
+  return rows;
+}
+
+function PrintedPage({ rows, pageNumber, fontFamily }: { rows: PrintRow[]; pageNumber: number | null; fontFamily: string }) {
+  const top = (row: number) => (TOP_MARGIN * POINTS_PER_INCH) + row * LINE_HEIGHT;
+  const fragmentStyle = (fragment: PrintFragment) => ({
+    position: 'absolute' as const,
+    left: fragment.left * POINTS_PER_INCH,
+    width: fragment.width * POINTS_PER_INCH,
+    textAlign: fragment.align,
+  });
+
+  return (
+    <Page size={[PAGE_WIDTH * POINTS_PER_INCH, PAGE_HEIGHT * POINTS_PER_INCH]} style={{ fontFamily, fontSize: 12, lineHeight: 1 }}>
+      {pageNumber !== null && (
+        <Text style={{ position: 'absolute', top: PAGE_NUMBER_TOP * POINTS_PER_INCH, left: 6.5 * POINTS_PER_INCH, width: (RIGHT_EDGE - 6.5) * POINTS_PER_INCH, textAlign: 'right' }}>
+          {`${pageNumber}.`}
+        </Text>
+      )}
+      {rows.flatMap((row, r) => row.map((fragment, f) => (
+        <Text key={`${r}-${f}`} style={{ ...fragmentStyle(fragment), top: top(r) }}>
+          {fragment.text}
+        </Text>
+      )))}
+    </Page>
+  );
+}
+
+/**
+ * Renders the screenplay. Page 1 of the script carries no page number;
+ * the title page is not counted.
+ */
+export async function renderScreenplayPdf(
+  screenplay: Screenplay,
+  options: ScreenplayPdfOptions = DEFAULT_SCREENPLAY_PDF_OPTIONS,
+): Promise<Blob> {
+  const pages = paginateScreenplay(screenplay.elements, options.sceneNumbers);
+
+  return await pdf(
+    <Document title={screenplay.title} author={screenplay.author} creator="Proselenos">
+      {options.titlePage && (
+        <PrintedPage rows={layoutTitlePage(screenplay.titlePage)} pageNumber={null} fontFamily={options.fontFamily} />
+      )}
+      {pages.map((rows, i) => (
+        <PrintedPage key={i} rows={rows} pageNumber={i === 0 ? null : i + 1} fontFamily={options.fontFamily} />
+      ))}
+    </Document>
+  ).toBlob();
+}
@@ -0,0 +1,323 @@
+/**
+ * Screenplay Element Model
+ *
+ * Shared by the screenplay importers (Fountain, Final Draft) and exporters
+ * (Fountain, Final Draft, paginated PDF). Each paragraph of a scene section
+ * carries its element type in data-fountain attributes (set on import); edited
+ * paragraphs that lost them are classified heuristically.
+ */
+
+import { loadFullWorkingCopy, loadSettings, loadManuscriptMeta } from '@/services/manuscriptStorage';
+import { stripReviewMarkupFromXhtml } from '@/lib/plateReview';
+
+export type ScreenplayElementType =
+  | 'scene_heading'
+  | 'action'
+  | 'character'
+  | 'dialogue'
+  | 'parenthetical'
+  | 'transition'
+  | 'centered'
+  | 'section'
+  | 'synopsis'
+  | 'lyrics'
+  | 'note'
+  | 'page_break';
+
+/**
+ * Represents a parsed element from XHTML with its Fountain type information
+ */
+export interface ScreenplayElement {
+  text: string;
+  type: string;        // ScreenplayElementType (unknown fountain-js token types pass through)
+  depth?: number;      // For sections: # depth
+  dual?: string;       // 'left' or 'right' for dual dialogue
+}
+
+export interface Screenplay {
+  title: string;
+  author: string;
+  // Title page fields in Fountain naming (Title, Credit, Author, Contact, ...)
+  titlePage: Record<string, string>;
+  elements: ScreenplayElement[];
+}
+
+export interface ScreenplaySection {
+  id: string;
+  title: string;
+  xhtml: string;
+}
+
+// Natural Fountain scene headings (INT/EXT/EST/I./E. patterns)
+const NATURAL_SCENE_HEADING = /^(?:(?:int|i)\.?\/(?:ext|e)|int|ext|est)[. ]/i;
+
+/**
+ * Heuristic detection of Fountain element types from plain text.
+ * Used as fallback when data-fountain attributes are absent (user-edited content).
+ */
+export function detectFountainType(text: string, prevType: string): string {
+  // Page break
+  if (/^={3,}$/.test(text.trim())) return 'page_break';
+
+  // Scene heading patterns: INT. / EXT. / EST. / INT./EXT. / I./E.
+  if (NATURAL_SCENE_HEADING.test(text)) return 'scene_heading';
+
+  // Forced scene heading (starts with .)
+  if (text.startsWith('.') && text.length > 1 && !text.startsWith('..')) return 'scene_heading';
+
+  // Transition: ALL CAPS ending with TO: or forced with >
+  if (/^[A-Z\s]+TO:$/.test(text.trim())) return 'transition';
+  if (text.startsWith('>') && !text.endsWith('<')) return 'transition';
+
+  // Centered text: >text<
+  if (text.startsWith('>') && text.endsWith('<')) return 'centered';
+
+  // Parenthetical: (text)
+  if (/^\(.*\)$/.test(text.trim())) {
+    // Only if we're in a dialogue context
+    if (prevType === 'character' || prevType === 'dialogue' || prevType === 'parenthetical') {
+      return 'parenthetical';
+    }
+  }
+
+  // Character: ALL CAPS, possibly with (V.O.) or (O.S.) or (CONT'D)
+  // Must not be a scene heading and must be reasonably short
+  if (/^[A-Z][A-Z\s.'()\-]+$/.test(text.trim()) && text.trim().length < 60) {
+    // Exclude things that look like they could be action (long all-caps lines)
+    if (text.trim().length <= 40) return 'character';
+  }
+
+  // After a character or parenthetical, text is dialogue
+  if (prevType === 'character' || prevType === 'parenthetical') return 'dialogue';
+
+  // After dialogue, could be more dialogue (multi-paragraph)
+  // Only if it doesn't match other types above
+  if (prevType === 'dialogue' && !text.match(/^[A-Z][A-Z\s.'()\-]+$/)) return 'dialogue';
+
+  // Section: starts with # (one or more)
+  if (/^#{1,6}\s/.test(text)) return 'section';
+
+  // Synopsis: starts with =
+  if (text.startsWith('= ') || text.startsWith('=\t')) return 'synopsis';
+
+  // Lyrics: starts with ~
+  if (text.startsWith('~')) return 'lyrics';
+
+  // Note: [[text]]
+  if (text.startsWith('[[') && text.endsWith(']]')) return 'note';
+
+  // Default: action
+  return 'action';
+}
+
+/**
+ * Extract Fountain elements from XHTML content.
+ * Reads data-fountain attributes when present, falls back to heuristic detection.
+ */
+export function extractScreenplayElements(xhtml: string): ScreenplayElement[] {
+  if (!xhtml || xhtml.trim() === '') {
+    return [];
+  }
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(xhtml, 'text/html');
+  const body = doc.body;
+  if (!body) return [];
+
+  const elements: ScreenplayElement[] = [];
+  const blockEls = body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, blockquote, li, div');
+
+  // Track previous type for heuristic context
+  let prevType = '';
+
+  for (const el of blockEls) {
+    const text = el.textContent?.trim() || '';
+    if (!text) continue;
+
+    // Check for data-fountain attribute (set during import)
+    const fountainType = el.getAttribute('data-fountain');
+    const fountainDepth = el.getAttribute('data-fountain-depth');
+    const fountainDual = el.getAttribute('data-fountain-dual');
+
+    let elementType: string;
+    let depth: number | undefined;
+    let dual: string | undefined;
+
+    if (fountainType) {
+      // Use the stored type
+      elementType = fountainType;
+      if (fountainDepth) depth = parseInt(fountainDepth, 10);
+      if (fountainDual) dual = fountainDual;
+    } else {
+      // Heuristic fallback for user-edited content
+      elementType = detectFountainType(text, prevType);
+    }
+
+    elements.push({ text, type: elementType, depth, dual });
+    prevType = elementType;
+  }
+
+  // If no block elements found, fall back to body text
+  if (elements.length === 0) {
+    const bodyText = body.textContent?.trim() || '';
+    if (bodyText) {
+      elements.push({ text: bodyText, type: 'action' });
+    }
+  }
+
+  return elements;
+}
+
+/**
+ * Element text without its Fountain markup (forced-heading dot, >centered<,
+ * section hashes...), as printed on the page or written to another format
+ */
+export function getPlainElementText(element: ScreenplayElement): string {
+  const text = element.text.trim();
+  switch (element.type) {
+    case 'scene_heading':
+      return text.replace(/^\.(?!\.)/, '').trim();
+    case 'transition':
+      return text.replace(/^>\s*/, '');
+    case 'centered':
+      return text.replace(/^>\s*/, '').replace(/\s*<$/, '');
+    case 'section':
+      return text.replace(/^#+\s*/, '');
+    case 'synopsis':
+      return text.replace(/^=\s*/, '');
+    case 'lyrics':
+      return text.split('\n').map(line => line.replace(/^~/, '')).join('\n');
+    case 'note':
+      return text.replace(/^\[\[/, '').replace(/\]\]$/, '');
+    default:
+      return text;
+  }
+}
+
+/**
+ * Whether a section holds screenplay content or only the copyright notice
+ * generated on import (which has no data-fountain paragraphs)
+ */
+function isGeneratedCopyright(section: { id: string; xhtml: string }): boolean {
+  return section.id === 'copyright' && !section.xhtml.includes('data-fountain=');
+}
+
+/**
+ * Loads the working copy as one screenplay: the title page fields and every
+ * scene's elements in order (the Title Page section is skipped — its content
+ * is the title page)
+ */
+export async function loadScreenplay(): Promise<Screenplay> {
+  const workingCopy = await loadFullWorkingCopy();
+  if (!workingCopy || workingCopy.sections.length === 0) {
+    throw new Error('No manuscript loaded');
+  }
+
+  const meta = await loadSettings();
+  const manuscriptMeta = await loadManuscriptMeta();
+  const title = meta?.title || workingCopy.title || 'Untitled';
+  const author = meta?.author || workingCopy.author || '';
+
+  const elements: ScreenplayElement[] = [];
+  for (const section of workingCopy.sections) {
+    if (section.id === 'title-page' || section.title.toLowerCase() === 'title page') continue;
+    if (isGeneratedCopyright(section)) continue;
+    // Pending tracked changes are rejected, as in the EPUB
+    elements.push(...extractScreenplayElements(stripReviewMarkupFromXhtml(section.xhtml)));
+  }
+
+  const titlePage = manuscriptMeta?.fountainTitlePage && Object.keys(manuscriptMeta.fountainTitlePage).length > 0
+    ? manuscriptMeta.fountainTitlePage
+    : { Title: title, ...(author ? { Credit: 'Written by', Author: author } : {}) };
+
+  return { title, author, titlePage, elements };
+}
+
+function escapeXhtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generates a <p> tag with data-fountain attributes
+ */
+function elementToXhtml(element: ScreenplayElement): string {
+  let attrs = `data-fountain="${escapeXhtml(element.type)}"`;
+  if (element.depth !== undefined) {
+    attrs += ` data-fountain-depth="${element.depth}"`;
+  }
+  if (element.dual) {
+    attrs += ` data-fountain-dual="${element.dual}"`;
+  }
+  return `<p ${attrs}>${escapeXhtml(element.text)}</p>`;
+}
+
+/**
+ * Builds the working-copy sections for an imported screenplay:
+ * Title Page + Copyright + one section per scene (split on scene headings).
+ * Content before the first scene heading becomes the Copyright section.
+ */
+export function buildScreenplaySections(
+  elements: ScreenplayElement[],
+  title: string,
+  author: string,
+): { sections: ScreenplaySection[]; sceneCount: number } {
+  const chapters: { title: string; elements: ScreenplayElement[] }[] = [];
+  let currentChapter: { title: string; elements: ScreenplayElement[] } | null = null;
+
+  for (const element of elements) {
+    if (element.type === 'scene_heading') {
+      const headingText = element.text.replace(/^\.(?!\.)/, '') || 'Untitled Scene';
+      currentChapter = { title: headingText, elements: [] };
+      chapters.push(currentChapter);
+      // Restore . prefix for forced scene headings so they round-trip correctly
+      const prefix = NATURAL_SCENE_HEADING.test(headingText) ? '' : '.';
+      currentChapter.elements.push({ ...element, text: prefix + headingText });
+    } else {
+      if (!currentChapter) {
+        // Content before first scene heading → "Preamble"
+        currentChapter = { title: 'Preamble', elements: [] };
+        chapters.push(currentChapter);
+      }
+      currentChapter.elements.push(element);
+    }
+  }
+
+  // No scene headings at all: one chapter holds everything
+  if (chapters.length === 1 && chapters[0]?.title === 'Preamble' && elements.length > 0) {
+    chapters[0].title = 'Chapter 1';
+  }
+
+  // Use pre-heading content (Preamble) as copyright if present
+  let copyrightXhtml: string;
+  if (chapters.length > 0 && chapters[0]?.title === 'Preamble') {
+    const preamble = chapters.shift()!;
+    copyrightXhtml = preamble.elements.map(elementToXhtml).join('\n') || '<p></p>';
+  } else {
+    // No pre-heading content; generate default copyright
+    copyrightXhtml = `<p>Copyright &copy; ${new Date().getFullYear()} ${escapeXhtml(author || title)}</p>\n<p>All rights reserved.</p>`;
+  }
+
+  const sections: ScreenplaySection[] = [
+    {
+      id: 'title-page',
+      title: 'Title Page',
+      xhtml: `<p>${escapeXhtml(title)}</p>\n<p>${escapeXhtml(author)}</p>`,
+    },
+    {
+      id: 'copyright',
+      title: 'Copyright',
+      xhtml: copyrightXhtml,
+    },
+    ...chapters.map((ch, i) => ({
+      id: `chapter-${i + 1}`,
+      title: ch.title,
+      xhtml: ch.elements.map(elementToXhtml).join('\n') || '<p></p>',
+    })),
+  ];
+
+  return { sections, sceneCount: chapters.length };
+}
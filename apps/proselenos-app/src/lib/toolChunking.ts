@@ -0,0 +1,221 @@
+// lib/toolChunking.ts
+// Splits a whole manuscript into chapter-aligned chunks that fit the model's
+// context window, and builds the map/merge prompts for chunked AI tool runs.
+// Used by useToolsManager when a tool's scope is "all".
+
+import type { ManuscriptChapter } from '@/services/manuscriptStorage';
+import { estimateTokens, type OpenAICompatibleService } from '@/lib/providers/openaiCompatible';
+
+// Assumed context window when the models URL doesn't report one
+export const DEFAULT_CONTEXT_TOKENS = 32_000;
+// Room left for the model's reply (capped at a quarter of the window)
+const MAX_OUTPUT_RESERVE = 16_000;
+// Markers, labels and chat framing around the manuscript and prompt
+const PROMPT_OVERHEAD_TOKENS = 500;
+// Token counts are calibrated on a sample, so keep a safety margin
+const BUDGET_SAFETY = 0.9;
+// Never plan chunks smaller than this, even for tiny context windows
+const MIN_CHUNK_TOKENS = 2_000;
+// Characters sent to countTokens to measure the manuscript's token density
+const CALIBRATION_SAMPLE_CHARS = 8_000;
+
+export interface ManuscriptChunk {
+  index: number;
+  // Chapter titles in this chunk, for progress and report headers
+  titles: string[];
+  text: string;
+  tokens: number;
+}
+
+export interface ToolChunkProgress {
+  phase: 'map' | 'merge';
+  current: number;
+  total: number;
+}
+
+/**
+ * Same layout as assembleManuscriptFromWorkingCopy: 2 blank lines before each chapter
+ */
+export function formatChapter(chapter: ManuscriptChapter): string {
+  return `\n\n${chapter.title}\n\n${chapter.text}`;
+}
+
+/**
+ * Tokens available for manuscript text in one request
+ */
+export function getChunkBudget(contextTokens: number, promptTokens: number): number {
+  const outputReserve = Math.min(MAX_OUTPUT_RESERVE, Math.floor(contextTokens / 4));
+  const available = contextTokens - outputReserve - promptTokens - PROMPT_OVERHEAD_TOKENS;
+  return Math.max(MIN_CHUNK_TOKENS, Math.floor(available * BUDGET_SAFETY));
+}
+
+/**
+ * Splits an oversized chapter at paragraph breaks into pieces under the budget
+ */
+function splitChapter(chapter: ManuscriptChapter, budget: number, charsPerToken: number): ManuscriptChapter[] {
+  const paragraphs = chapter.text.split(/\n{2,}/);
+  const pieces: string[][] = [[]];
+  // Each piece repeats the chapter title with a part label
+  const headerTokens = Math.ceil(formatChapter({ title: `${chapter.title} (part 00 of 00)`, text: '' }).length / charsPerToken);
+  let pieceTokens = headerTokens;
+
+  for (const paragraph of paragraphs) {
+    const tokens = Math.ceil((paragraph.length + 2) / charsPerToken);
+    const current = pieces[pieces.length - 1]!;
+    if (current.length > 0 && pieceTokens + tokens > budget) {
+      pieces.push([paragraph]);
+      pieceTokens = headerTokens + tokens;
+    } else {
+      current.push(paragraph);
+      pieceTokens += tokens;
+    }
+  }
+
+  return pieces.map((piece, i) => ({
+    title: pieces.length > 1 ? `${chapter.title} (part ${i + 1} of ${pieces.length})` : chapter.title,
+    text: piece.join('\n\n'),
+  }));
+}
+
+/**
+ * Packs whole chapters into as few chunks as fit the token budget, in order.
+ * Only a chapter that alone exceeds the budget is split (at paragraph breaks).
+ */
+export function planChunks(
+  chapters: ManuscriptChapter[],
+  budget: number,
+  charsPerToken: number,
+): ManuscriptChunk[] {
+  const chunks: ManuscriptChunk[] = [];
+  let titles: string[] = [];
+  let text = '';
+  let tokens = 0;
+
+  const flush = () => {
+    if (!text) return;
+    chunks.push({ index: chunks.length, titles, text, tokens });
+    titles = [];
+    text = '';
+    tokens = 0;
+  };
+
+  for (const chapter of chapters) {
+    const chapterTokens = Math.ceil(formatChapter(chapter).length / charsPerToken);
+    const pieces = chapterTokens > budget ? splitChapter(chapter, budget, charsPerToken) : [chapter];
+
+    for (const piece of pieces) {
+      const formatted = formatChapter(piece);
+      const pieceTokens = Math.ceil(formatted.length / charsPerToken);
+      if (tokens > 0 && tokens + pieceTokens > budget) flush();
+      titles.push(piece.title);
+      text += formatted;
+      tokens += pieceTokens;
+    }
+  }
+  flush();
+
+  return chunks;
+}
+
+export function describeChunk(chunk: ManuscriptChunk): string {
+  const first = chunk.titles[0] ?? '';
+  const last = chunk.titles[chunk.titles.length - 1] ?? '';
+  return first === last ? first : `${first} – ${last}`;
+}
+
+/**
+ * Standard tool request (same format as the providers' buildMessages)
+ */
+export function buildToolRequest(manuscriptText: string, toolPrompt: string): string {
+  return `=== MANUSCRIPT ===
+${manuscriptText}
+=== END MANUSCRIPT ===
+
+=== INSTRUCTIONS ===
+${toolPrompt}
+=== END INSTRUCTIONS ===`;
+}
+
+/**
+ * Map pass: the tool prompt, applied to one chunk of the manuscript
+ */
+export function buildChunkRequest(chunk: ManuscriptChunk, total: number, toolPrompt: string): string {
+  return buildToolRequest(chunk.text, `${toolPrompt}
+
+NOTE: The manuscript is too long to review in one request, so it is being reviewed in ${total} parts. This is part ${chunk.index + 1} of ${total} (${describeChunk(chunk)}). Review only this part, and use exactly the report format the instructions ask for.`);
+}
+
+/**
+ * Merge pass: combine the part reports into a whole-manuscript assessment.
+ * The passage-level edits are kept from the part reports, so the merge is
+ * asked not to repeat them (which would duplicate issues in One-by-one).
+ */
+export function buildMergeRequest(partReports: string[], chunks: ManuscriptChunk[], toolPrompt: string): string {
+  const reports = partReports
+    .map((report, i) => `--- PART ${i + 1} of ${chunks.length} (${describeChunk(chunks[i]!)}) ---\n${report}`)
+    .join('\n\n');
+
+  return `=== PART REPORTS ===
+${reports}
+=== END PART REPORTS ===
+
+=== ORIGINAL INSTRUCTIONS ===
+${toolPrompt}
+=== END ORIGINAL INSTRUCTIONS ===
+
+=== INSTRUCTIONS ===
+The part reports above were produced by following the original instructions on consecutive parts of one manuscript. Write a single overall report for the whole manuscript: combine findings that appear in several parts, remove duplicates, and point out anything that only shows across parts (continuity, pacing, character arcs, repeated habits). Do not repeat individual passage edits, and do not use the label "ORIGINAL TEXT:".
+=== END INSTRUCTIONS ===`;
+}
+
+/**
+ * Final report: the merged overview first, then every part report in order.
+ * Part headers are === lines, which parseToolReport ignores, and any stray
+ * "ORIGINAL TEXT:" label in the overview is defused so issues aren't doubled.
+ */
+export function combineChunkReports(merged: string | null, partReports: string[], chunks: ManuscriptChunk[]): string {
+  const sections: string[] = [];
+  if (merged) {
+    sections.push(`=== OVERALL REPORT (${chunks.length} parts) ===\n\n${merged.replace(/ORIGINAL TEXT:/g, 'Original text:')}`);
+  }
+  partReports.forEach((report, i) => {
+    sections.push(`=== PART ${i + 1} of ${chunks.length}: ${describeChunk(chunks[i]!)} ===\n\n${report.trim()}`);
+  });
+  return sections.join('\n\n');
+}
+
+/**
+ * Whether the merge request itself fits in one request
+ */
+export function fitsInContext(text: string, contextTokens: number): boolean {
+  return estimateTokens(text) <= getChunkBudget(contextTokens, 0);
+}
+
+/**
+ * Decides whether a whole-manuscript tool run needs chunking. The rough
+ * estimate is checked first; the provider's token count is only asked for
+ * (on a sample, to keep it cheap) when the manuscript might not fit.
+ * Returns no chunks when the manuscript fits in one request.
+ */
+export async function planToolChunks(
+  service: OpenAICompatibleService,
+  chapters: ManuscriptChapter[],
+  manuscriptText: string,
+  toolPrompt: string,
+): Promise<{ chunks: ManuscriptChunk[]; contextTokens: number }> {
+  const contextTokens = (await service.getContextLength()) ?? DEFAULT_CONTEXT_TOKENS;
+  const budget = getChunkBudget(contextTokens, estimateTokens(toolPrompt));
+
+  let manuscriptTokens = estimateTokens(manuscriptText);
+  if (manuscriptTokens > budget / 2) {
+    const sample = manuscriptText.slice(0, CALIBRATION_SAMPLE_CHARS);
+    const sampleTokens = await service.countTokens(sample);
+    if (sampleTokens > 0) {
+      manuscriptTokens = Math.ceil((manuscriptText.length * sampleTokens) / sample.length);
+    }
+  }
+
+  if (manuscriptTokens <= budget) return { chunks: [], contextTokens };
+  const charsPerToken = manuscriptText.length / manuscriptTokens;
+  return { chunks: planChunks(chapters, budget, charsPerToken), contextTokens };
+}
@@ -1,120 +1,650 @@
 /**
- * DOCX Export for Vellum/Atticus Import
+ * DOCX Export
  *
- * Exports the workspace (all sections) to a .docx file that
- * Vellum and Atticus can import and recognize chapters.
+ * Exports the workspace (all sections) to a .docx file, keeping the XHTML
+ * formatting: inline marks, headings, lists, block quotes, scene breaks and
+ * images are mapped to Word styles. Two presets:
  *
- * Key requirements for Vellum:
+ * Book — for Vellum/Atticus import:
  * - Page Break + Heading 1 = chapter detection
  * - Preserve paragraph structure
  * - Left-aligned (Vellum handles formatting)
+ *
+ * Standard Manuscript Format — for submissions to agents and editors:
+ * - 12pt Courier New or Times New Roman, double-spaced, 1" margins
+ * - Title page with contact details and word count
+ * - Header "Surname / TITLE / page" on every page after the first
+ * - Each chapter starts a third of the way down a new page
+ * - Scene breaks as a centred "#", "END" after the last chapter
  */
 
-import { Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType, PageBreak } from 'docx';
-import { loadFullWorkingCopy } from '@/services/manuscriptStorage';
+import {
+  Document, Packer, Paragraph, TextRun, ImageRun, ExternalHyperlink, Header,
+  HeadingLevel, AlignmentType, PageBreak, PageNumber, TabStopType, LevelFormat,
+  type ParagraphChild, type IStylesOptions,
+} from 'docx';
+import { loadFullWorkingCopy, getManuscriptImage, countXhtmlWords } from '@/services/manuscriptStorage';
+import { HIDDEN_TYPES } from '@/app/authors/elementTypes';
+import { stripReviewMarkupFromXhtml } from '@/lib/plateReview';
+
+export type DocxPreset = 'book' | 'manuscript';
+
+export const MANUSCRIPT_FONTS = ['Courier New', 'Times New Roman'] as const;
+export type ManuscriptFont = typeof MANUSCRIPT_FONTS[number];
+
+export interface DocxExportOptions {
+  preset: DocxPreset;
+  // Standard Manuscript Format only ('' = taken from the book's author)
+  font: ManuscriptFont;
+  authorName: string;        // legal name for the title page
+  surname: string;           // running header
+  contactInfo: string;       // address, phone, email — one per line
+}
+
+export const DEFAULT_DOCX_EXPORT_OPTIONS: DocxExportOptions = {
+  preset: 'book',
+  font: 'Courier New',
+  authorName: '',
+  surname: '',
+  contactInfo: '',
+};
+
+// Word measures in twips (1/1440 in) and font sizes in half-points
+const INCH = 1440;
+// Letter page with 1" margins leaves 6.5" of text width
+const TEXT_WIDTH = 6.5 * INCH;
+// Images are placed at 96 dpi, no wider than the text block
+const MAX_IMAGE_WIDTH_PX = 6 * 96;
+
+const BLOCK_TAGS = new Set([
+  'P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'BLOCKQUOTE', 'UL', 'OL', 'LI', 'HR', 'FIGURE',
+  'PRE', 'TABLE', 'DIV', 'SECTION', 'ASIDE', 'HEADER', 'FOOTER',
+]);
+
+const HEADING_LEVELS = {
+  H1: HeadingLevel.HEADING_1,
+  H2: HeadingLevel.HEADING_2,
+  H3: HeadingLevel.HEADING_3,
+  H4: HeadingLevel.HEADING_4,
+  H5: HeadingLevel.HEADING_5,
+  H6: HeadingLevel.HEADING_6,
+} as const;
+
+// Paragraphs that are only a scene-break marker ("* * *", "#", "~")
+const SCENE_BREAK_TEXT = /^[*#~•·⁂\s]{1,12}$/;
+
+interface DocxImage {
+  type: 'jpg' | 'png' | 'gif' | 'bmp';
+  data: ArrayBuffer;
+  width: number;
+  height: number;
+}
+
+interface RunFormat {
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  superScript?: boolean;
+  subScript?: boolean;
+  code?: boolean;
+  link?: string;
+}
+
+type Segment =
+  | { kind: 'text'; text: string; format: RunFormat }
+  | { kind: 'break'; format: RunFormat }
+  | { kind: 'image'; image: DocxImage };
+
+interface ConvertContext {
+  options: DocxExportOptions;
+  images: Map<string, DocxImage | null>;
+  // Each <ol> restarts its numbering with a new instance
+  listInstance: number;
+}
+
+interface BlockStyle {
+  quote: boolean;
+  list?: { ordered: boolean; level: number; instance: number };
+}
+
+function imageFilename(src: string): string {
+  return decodeURIComponent(src.split('/').pop() || src);
+}
+
+function imageTypeFor(mime: string, filename: string): DocxImage['type'] | null {
+  const kind = (mime.split('/')[1] || filename.split('.').pop() || '').toLowerCase();
+  if (kind === 'jpeg' || kind === 'jpg') return 'jpg';
+  if (kind === 'png' || kind === 'gif' || kind === 'bmp') return kind;
+  return null;
+}
+
+/**
+ * Loads an image from the manuscript's image library with its pixel size.
+ * Formats Word can't embed (WebP, AVIF) are redrawn as PNG.
+ */
+async function loadDocxImage(filename: string): Promise<DocxImage | null> {
+  const blob = await getManuscriptImage(filename);
+  if (!blob) return null;
+
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const { width, height } = bitmap;
+    let type = imageTypeFor(blob.type, filename);
+    let data: ArrayBuffer;
+
+    if (type) {
+      bitmap.close();
+      data = await blob.arrayBuffer();
+    } else {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (!png) return null;
+      type = 'png';
+      data = await png.arrayBuffer();
+    }
+
+    return { type, data, width, height };
+  } catch {
+    // Undecodable (or SVG without a size) — left out with its alt text
+    return null;
+  }
+}
+
+function isSceneBreak(el: Element): boolean {
+  if (el.tagName === 'HR') return true;
+  if (el.tagName !== 'P') return false;
+  return el.classList.contains('scene-break') || SCENE_BREAK_TEXT.test(el.textContent ?? '');
+}
+
+function hasBlockChildren(el: Element): boolean {
+  return Array.from(el.children).some(child => BLOCK_TAGS.has(child.tagName));
+}
 
 /**
- * Parse XHTML and extract paragraphs as separate text blocks
- * Preserves paragraph structure while stripping HTML formatting
+ * Flattens inline markup into text segments carrying their marks.
+ * Tracked-change deletions are dropped and insertions kept, so the export
+ * matches the text as if every suggestion were accepted.
  */
-function extractParagraphsFromXhtml(xhtml: string): string[] {
-  if (!xhtml || xhtml.trim() === '') {
-    return [];
+function collectSegments(node: Node, format: RunFormat, ctx: ConvertContext, out: Segment[]): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+    if (text) out.push({ kind: 'text', text, format });
+    return;
   }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
 
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(xhtml, 'text/html');
-  const body = doc.body;
-  if (!body) return [];
-
-  const paragraphs: string[] = [];
-
-  // Walk through all block-level elements and extract text
-  const blockElements = body.querySelectorAll('p, h1, h2, h3, h4, h5, h6, blockquote, li, div');
-
-  for (const el of blockElements) {
-    // Skip if this element is nested inside another block we'll process
-    // (e.g., a <p> inside a <blockquote> - we want the blockquote's full text)
-    const parent = el.parentElement;
-    if (parent && parent !== body &&
-        ['BLOCKQUOTE', 'LI', 'DIV'].includes(parent.tagName) &&
-        parent.closest('body') === body) {
-      // Check if parent is also in our selection - if so, skip this nested element
-      const parentIsBlock = parent.matches('p, h1, h2, h3, h4, h5, h6, blockquote, li, div');
-      if (parentIsBlock) continue;
+  const el = node as Element;
+  const next = { ...format };
+  switch (el.tagName) {
+    case 'BR':
+      out.push({ kind: 'break', format });
+      return;
+    case 'IMG': {
+      const image = ctx.images.get(imageFilename(el.getAttribute('src') || ''));
+      if (image) {
+        out.push({ kind: 'image', image });
+      } else if (el.getAttribute('alt')) {
+        out.push({ kind: 'text', text: `[${el.getAttribute('alt')}]`, format });
+      }
+      return;
     }
+    case 'AUDIO':
+    case 'SCRIPT':
+    case 'STYLE':
+      return;
+    case 'DEL':
+    case 'S':
+    case 'STRIKE':
+      next.strike = true;
+      break;
+    case 'EM':
+    case 'I':
+    case 'CITE':
+      next.italics = true;
+      break;
+    case 'STRONG':
+    case 'B':
+      next.bold = true;
+      break;
+    case 'U':
+      next.underline = true;
+      break;
+    case 'SUP':
+      next.superScript = true;
+      break;
+    case 'SUB':
+      next.subScript = true;
+      break;
+    case 'CODE':
+    case 'KBD':
+      next.code = true;
+      break;
+    case 'A': {
+      const href = el.getAttribute('href') || '';
+      if (/^https?:\/\//.test(href)) next.link = href;
+      break;
+    }
+  }
+
+  for (const child of Array.from(el.childNodes)) {
+    collectSegments(child, next, ctx, out);
+  }
+}
+
+function toRun(segment: Segment, ctx: ConvertContext): ParagraphChild {
+  if (segment.kind === 'image') {
+    const scale = Math.min(1, MAX_IMAGE_WIDTH_PX / segment.image.width);
+    return new ImageRun({
+      type: segment.image.type,
+      data: segment.image.data,
+      transformation: {
+        width: Math.round(segment.image.width * scale),
+        height: Math.round(segment.image.height * scale),
+      },
+    });
+  }
 
-    const text = el.textContent?.trim() || '';
-    if (text) {
-      paragraphs.push(text);
+  const { link: _link, code, underline, ...marks } = segment.format;
+  const run = {
+    ...marks,
+    underline: underline ? {} : undefined,
+    font: code && ctx.options.preset === 'book' ? 'Courier New' : undefined,
+  };
+  if (segment.kind === 'break') return new TextRun({ break: 1, ...run });
+  return new TextRun({ text: segment.text, ...run });
+}
+
+/**
+ * Word runs for an element's inline content. Whitespace at the edges is
+ * trimmed, and consecutive segments with the same link become one hyperlink
+ * (links are kept as plain text in a submission manuscript).
+ */
+function convertInline(el: Element, ctx: ConvertContext, format: RunFormat = {}): ParagraphChild[] {
+  const segments: Segment[] = [];
+  collectSegments(el, format, ctx, segments);
+
+  const first = segments[0];
+  if (first?.kind === 'text') first.text = first.text.trimStart();
+  const last = segments[segments.length - 1];
+  if (last?.kind === 'text') last.text = last.text.trimEnd();
+
+  const runs: ParagraphChild[] = [];
+  let i = 0;
+  while (i < segments.length) {
+    const segment = segments[i]!;
+    const link = segment.kind === 'image' ? undefined : segment.format.link;
+    if (!link || ctx.options.preset === 'manuscript') {
+      if (segment.kind !== 'text' || segment.text) runs.push(toRun(segment, ctx));
+      i++;
+      continue;
+    }
+    const children: ParagraphChild[] = [];
+    while (i < segments.length) {
+      const s = segments[i]!;
+      if (s.kind === 'image' || s.format.link !== link) break;
+      children.push(toRun(s, ctx));
+      i++;
     }
+    runs.push(new ExternalHyperlink({ link, children: children as TextRun[] }));
   }
+  return runs;
+}
+
+function bodyParagraph(children: ParagraphChild[], style: BlockStyle): Paragraph {
+  return new Paragraph({
+    style: style.quote ? 'Quote' : undefined,
+    numbering: style.list
+      ? {
+          reference: style.list.ordered ? 'ordered-list' : 'bullet-list',
+          level: style.list.level,
+          instance: style.list.ordered ? style.list.instance : undefined,
+        }
+      : undefined,
+    children,
+  });
+}
+
+function sceneBreakParagraph(ctx: ConvertContext): Paragraph {
+  return new Paragraph({
+    style: 'SceneBreak',
+    children: [new TextRun(ctx.options.preset === 'manuscript' ? '#' : '* * *')],
+  });
+}
 
-  // If no block elements found, fall back to body text split by whitespace patterns
-  if (paragraphs.length === 0) {
-    const bodyText = body.textContent?.trim() || '';
-    if (bodyText) {
-      // Try to split on what looks like paragraph boundaries
-      const chunks = bodyText.split(/\n\s*\n/).filter(p => p.trim());
-      if (chunks.length > 1) {
-        return chunks.map(c => c.trim());
+function convertList(list: Element, ctx: ConvertContext, style: BlockStyle): Paragraph[] {
+  const ordered = list.tagName === 'OL';
+  const level = style.list ? style.list.level + 1 : 0;
+  const instance = ordered ? ++ctx.listInstance : 0;
+  const paragraphs: Paragraph[] = [];
+
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI') continue;
+    const itemStyle: BlockStyle = { quote: style.quote, list: { ordered, level, instance } };
+
+    // The item's own text, then any nested lists (one level deeper)
+    const inline = item.cloneNode(true) as Element;
+    inline.querySelectorAll('ul, ol').forEach(nested => nested.remove());
+    if (hasBlockChildren(inline)) {
+      paragraphs.push(...convertBlocks(inline, ctx, itemStyle));
+    } else {
+      paragraphs.push(bodyParagraph(convertInline(inline, ctx), itemStyle));
+    }
+    for (const nested of Array.from(item.children)) {
+      if (nested.tagName === 'UL' || nested.tagName === 'OL') {
+        paragraphs.push(...convertList(nested, ctx, itemStyle));
       }
-      return [bodyText];
     }
   }
+  return paragraphs;
+}
+
+/**
+ * Maps the block structure of a section's XHTML to Word paragraphs
+ */
+function convertBlocks(parent: Element, ctx: ConvertContext, style: BlockStyle): Paragraph[] {
+  const paragraphs: Paragraph[] = [];
+  // Loose inline content between blocks (e.g. text directly in a <div>)
+  let loose: Element | null = null;
+
+  const flushLoose = () => {
+    if (!loose) return;
+    const runs = convertInline(loose, ctx);
+    if (runs.length > 0) paragraphs.push(bodyParagraph(runs, style));
+    loose = null;
+  };
+
+  for (const node of Array.from(parent.childNodes)) {
+    const el = node.nodeType === Node.ELEMENT_NODE ? node as Element : null;
+    if (!el || !BLOCK_TAGS.has(el.tagName)) {
+      if (node.nodeType === Node.TEXT_NODE && !node.textContent?.trim() && !loose) continue;
+      loose ??= parent.ownerDocument.createElement('span');
+      loose.appendChild(node.cloneNode(true));
+      continue;
+    }
+    flushLoose();
+
+    if (isSceneBreak(el)) {
+      paragraphs.push(sceneBreakParagraph(ctx));
+      continue;
+    }
+
+    const tag = el.tagName;
+    if (tag in HEADING_LEVELS) {
+      paragraphs.push(new Paragraph({
+        heading: HEADING_LEVELS[tag as keyof typeof HEADING_LEVELS],
+        children: convertInline(el, ctx),
+      }));
+    } else if (tag === 'UL' || tag === 'OL') {
+      paragraphs.push(...convertList(el, ctx, style));
+    } else if (tag === 'BLOCKQUOTE') {
+      const quoteStyle = { ...style, quote: true };
+      if (hasBlockChildren(el)) {
+        paragraphs.push(...convertBlocks(el, ctx, quoteStyle));
+      } else {
+        paragraphs.push(bodyParagraph(convertInline(el, ctx), quoteStyle));
+      }
+    } else if (tag === 'FIGURE') {
+      for (const img of Array.from(el.querySelectorAll('img'))) {
+        paragraphs.push(new Paragraph({ style: 'Figure', children: convertInline(img, ctx) }));
+      }
+      const caption = el.querySelector('figcaption');
+      if (caption) paragraphs.push(new Paragraph({ style: 'Caption', children: convertInline(caption, ctx) }));
+    } else if (tag === 'PRE') {
+      const lines = (el.textContent ?? '').split('\n');
+      for (const line of lines) {
+        paragraphs.push(new Paragraph({
+          style: 'Code',
+          children: [new TextRun(line)],
+        }));
+      }
+    } else if (tag === 'TABLE') {
+      // Tables are flattened to one tab-separated paragraph per row
+      for (const row of Array.from(el.querySelectorAll('tr'))) {
+        const cells = Array.from(row.children).map(cell => (cell.textContent ?? '').replace(/\s+/g, ' ').trim());
+        paragraphs.push(bodyParagraph([new TextRun(cells.join('\t'))], style));
+      }
+    } else if (tag === 'P' && el.classList.contains('caption')) {
+      paragraphs.push(new Paragraph({ style: 'Caption', children: convertInline(el, ctx) }));
+    } else if (tag === 'P' || tag === 'LI' || !hasBlockChildren(el)) {
+      const runs = convertInline(el, ctx);
+      if (runs.length > 0) paragraphs.push(bodyParagraph(runs, style));
+    } else {
+      paragraphs.push(...convertBlocks(el, ctx, style));
+    }
+  }
+  flushLoose();
 
   return paragraphs;
 }
 
+function parseSection(xhtml: string): HTMLElement | null {
+  if (!xhtml || xhtml.trim() === '') return null;
+  // Pending tracked changes are rejected and comment anchors dropped, as in the EPUB
+  const doc = new DOMParser().parseFromString(stripReviewMarkupFromXhtml(xhtml), 'text/html');
+  return doc.body;
+}
+
+/**
+ * Loads every image the sections reference, so conversion can stay synchronous
+ */
+async function loadSectionImages(bodies: HTMLElement[]): Promise<Map<string, DocxImage | null>> {
+  const images = new Map<string, DocxImage | null>();
+  for (const body of bodies) {
+    for (const img of Array.from(body.querySelectorAll('img'))) {
+      const filename = imageFilename(img.getAttribute('src') || '');
+      if (filename && !images.has(filename)) {
+        images.set(filename, await loadDocxImage(filename));
+      }
+    }
+  }
+  return images;
+}
+
+/**
+ * "About 1,200 words": nearest hundred for short fiction, nearest thousand for novels
+ */
+export function formatManuscriptWordCount(words: number): string {
+  const unit = words >= 10_000 ? 1000 : 100;
+  const rounded = Math.max(unit, Math.round(words / unit) * unit);
+  return `About ${rounded.toLocaleString('en-US')} words`;
+}
+
+function createStyles(options: DocxExportOptions): IStylesOptions {
+  if (options.preset === 'book') {
+    return {
+      default: {
+        document: {
+          paragraph: { alignment: AlignmentType.LEFT, spacing: { after: 200 } },
+        },
+      },
+      paragraphStyles: [
+        { id: 'Quote', name: 'Quote', basedOn: 'Normal', quickFormat: true, paragraph: { indent: { left: 720, right: 720 } } },
+        { id: 'SceneBreak', name: 'Scene Break', basedOn: 'Normal', paragraph: { alignment: AlignmentType.CENTER } },
+        { id: 'Figure', name: 'Figure', basedOn: 'Normal', paragraph: { alignment: AlignmentType.CENTER, keepNext: true } },
+        { id: 'Caption', name: 'Caption', basedOn: 'Normal', run: { italics: true }, paragraph: { alignment: AlignmentType.CENTER } },
+        { id: 'Code', name: 'Code', basedOn: 'Normal', run: { font: 'Courier New' }, paragraph: { spacing: { after: 0 } } },
+      ],
+    };
+  }
+
+  // Standard Manuscript Format: one font and size throughout, double-spaced,
+  // every paragraph indented half an inch with no space between paragraphs
+  const run = { font: options.font, size: 24, color: '000000', bold: false, italics: false };
+  const heading = { run, paragraph: { alignment: AlignmentType.CENTER, spacing: { before: 0, after: 480, line: 480 } } };
+  return {
+    default: {
+      document: {
+        run: { font: options.font, size: 24 },
+        paragraph: { spacing: { line: 480, before: 0, after: 0 }, indent: { firstLine: 720 } },
+      },
+      // Chapter titles start a third of the way down the page
+      heading1: { run, paragraph: { ...heading.paragraph, spacing: { before: 3 * INCH, after: 480, line: 480 }, indent: { firstLine: 0 } } },
+      heading2: { ...heading, paragraph: { ...heading.paragraph, indent: { firstLine: 0 } } },
+      heading3: { ...heading, paragraph: { ...heading.paragraph, indent: { firstLine: 0 } } },
+      heading4: { ...heading, paragraph: { ...heading.paragraph, indent: { firstLine: 0 } } },
+      heading5: { ...heading, paragraph: { ...heading.paragraph, indent: { firstLine: 0 } } },
+      heading6: { ...heading, paragraph: { ...heading.paragraph, indent: { firstLine: 0 } } },
+    },
+    paragraphStyles: [
+      { id: 'Quote', name: 'Quote', basedOn: 'Normal', quickFormat: true, paragraph: { indent: { left: 720, right: 720, firstLine: 0 } } },
+      { id: 'SceneBreak', name: 'Scene Break', basedOn: 'Normal', paragraph: { alignment: AlignmentType.CENTER, indent: { firstLine: 0 } } },
+      { id: 'Figure', name: 'Figure', basedOn: 'Normal', paragraph: { alignment: AlignmentType.CENTER, indent: { firstLine: 0 }, keepNext: true } },
+      { id: 'Caption', name: 'Caption', basedOn: 'Normal', paragraph: { alignment: AlignmentType.CENTER, indent: { firstLine: 0 } } },
+      { id: 'Code', name: 'Code', basedOn: 'Normal', paragraph: { indent: { firstLine: 0 } } },
+      { id: 'TitleBlock', name: 'Title Block', basedOn: 'Normal', paragraph: { spacing: { line: 240 }, indent: { firstLine: 0 } } },
+    ],
+  };
+}
+
+const LIST_NUMBERING = {
+  config: [
+    {
+      reference: 'bullet-list',
+      levels: [0, 1, 2, 3].map(level => ({
+        level,
+        format: LevelFormat.BULLET,
+        text: level % 2 === 0 ? '•' : '◦',
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360, firstLine: 0 } } },
+      })),
+    },
+    {
+      reference: 'ordered-list',
+      levels: [0, 1, 2, 3].map(level => ({
+        level,
+        format: level % 2 === 0 ? LevelFormat.DECIMAL : LevelFormat.LOWER_LETTER,
+        text: `%${level + 1}.`,
+        alignment: AlignmentType.LEFT,
+        style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360, firstLine: 0 } } },
+      })),
+    },
+  ],
+};
+
+/**
+ * Title page for a submission: contact block and word count at the top,
+ * title and byline centred halfway down
+ */
+function manuscriptTitlePage(title: string, author: string, words: number, options: DocxExportOptions): Paragraph[] {
+  const name = options.authorName.trim() || author;
+  const contactLines = options.contactInfo.split('\n').map(line => line.trim()).filter(Boolean);
+
+  return [
+    new Paragraph({
+      style: 'TitleBlock',
+      tabStops: [{ type: TabStopType.RIGHT, position: TEXT_WIDTH }],
+      children: [new TextRun(name), new TextRun({ text: `\t${formatManuscriptWordCount(words)}` })],
+    }),
+    ...contactLines.map(line => new Paragraph({ style: 'TitleBlock', children: [new TextRun(line)] })),
+    new Paragraph({
+      style: 'SceneBreak',
+      spacing: { before: 3 * INCH },
+      children: [new TextRun(title.toUpperCase())],
+    }),
+    new Paragraph({ style: 'SceneBreak', children: [new TextRun(`by ${author || name}`)] }),
+  ];
+}
+
 /**
  * Export workspace to DOCX blob
  *
  * @returns Blob containing the .docx file
  * @throws Error if no manuscript is loaded
  */
-export async function exportWorkspaceToDocx(): Promise<Blob> {
+export async function exportWorkspaceToDocx(options: DocxExportOptions = DEFAULT_DOCX_EXPORT_OPTIONS): Promise<Blob> {
   const workingCopy = await loadFullWorkingCopy();
   if (!workingCopy || workingCopy.sections.length === 0) {
     throw new Error('No manuscript loaded');
   }
 
-  const docParagraphs: Paragraph[] = [];
-  let isFirstSection = true;
+  const isManuscript = options.preset === 'manuscript';
+  // Note: Cover sections are filtered out at the state level, so no need to skip here.
+  // A submission gets its own title page instead of the book's front matter.
+  const sections = isManuscript
+    ? workingCopy.sections.filter(s => !HIDDEN_TYPES.includes(s.type))
+    : workingCopy.sections;
+  if (sections.length === 0) {
+    throw new Error('No manuscript text to export');
+  }
+
+  const bodies = sections.map(s => parseSection(s.xhtml));
+  const ctx: ConvertContext = {
+    options,
+    images: await loadSectionImages(bodies.filter((b): b is HTMLElement => !!b)),
+    listInstance: 0,
+  };
 
-  for (const section of workingCopy.sections) {
-    // Note: Cover sections are filtered out at the state level, so no need to skip here
+  const docParagraphs: Paragraph[] = [];
+  if (isManuscript) {
+    const words = sections.reduce((sum, s) => sum + countXhtmlWords(s.xhtml), 0);
+    docParagraphs.push(...manuscriptTitlePage(workingCopy.title, workingCopy.author, words, options));
+  }
 
+  sections.forEach((section, i) => {
     // Page break before each section (except first)
     // Vellum requires: Page Break + Heading 1 to detect chapters
-    if (!isFirstSection) {
+    if (i > 0 || isManuscript) {
       docParagraphs.push(new Paragraph({
         children: [new PageBreak()]
       }));
     }
-    isFirstSection = false;
 
     // Section title as Heading 1
     docParagraphs.push(new Paragraph({
       heading: HeadingLevel.HEADING_1,
-      alignment: AlignmentType.LEFT,
-      spacing: { after: 200 },
+      alignment: isManuscript ? AlignmentType.CENTER : AlignmentType.LEFT,
       children: [new TextRun(section.title)]
     }));
 
-    // Extract paragraphs from XHTML, preserving structure
-    const textParagraphs = extractParagraphsFromXhtml(section.xhtml);
+    const body = bodies[i];
+    if (body) docParagraphs.push(...convertBlocks(body, ctx, { quote: false }));
+  });
 
-    for (const text of textParagraphs) {
-      docParagraphs.push(new Paragraph({
-        alignment: AlignmentType.LEFT,
-        spacing: { after: 200 },
-        children: [new TextRun(text)]
-      }));
-    }
+  if (isManuscript) {
+    docParagraphs.push(new Paragraph({ style: 'SceneBreak', children: [new TextRun('END')] }));
   }
 
+  const surname = options.surname.trim()
+    || (options.authorName.trim() || workingCopy.author).split(/\s+/).pop()
+    || '';
+
   const doc = new Document({
-    sections: [{ properties: {}, children: docParagraphs }]
+    creator: workingCopy.author || undefined,
+    title: workingCopy.title,
+    styles: createStyles(options),
+    numbering: LIST_NUMBERING,
+    sections: [{
+      properties: isManuscript
+        ? {
+            titlePage: true,
+            page: {
+              size: { width: 8.5 * INCH, height: 11 * INCH },
+              margin: { top: INCH, bottom: INCH, left: INCH, right: INCH, header: INCH / 2 },
+            },
+          }
+        : {},
+      headers: isManuscript
+        ? {
+            first: new Header({ children: [] }),
+            default: new Header({
+              children: [new Paragraph({
+                alignment: AlignmentType.RIGHT,
+                indent: { firstLine: 0 },
+                spacing: { line: 240 },
+                children: [new TextRun({
+                  children: [`${surname} / ${workingCopy.title.toUpperCase()} / `, PageNumber.CURRENT],
+                })],
+              })],
+            }),
+          }
+        : undefined,
+      children: docParagraphs,
+    }],
   });
 
   return await Packer.toBlob(doc);
@@ -2,11 +2,16 @@
 // Lightweight Markdown renderer for writer-centric chat display.
 // Features: headings, paragraphs, blockquotes, ordered/unordered lists, bold/italic.
 // Explicitly excludes: code fences, inline code, links, HTML injection.
+// Optional: numbered citations like [2] or [1, 3] rendered by the caller.
 
 import React from 'react';
 
 type Theme = 'light' | 'dark';
 
+export type CitationRenderer = (n: number, key: string) => React.ReactNode;
+
+const CITATION_PATTERN = /\[(\d+(?:\s*[,;]\s*\d+)*)\]/g;
+
 function stripLinksAndCode(text: string): string {
   // Images: keep alt text only
   let out = text.replace(/!\[([^\]]*)\]\(([^)]+)\)/g, '$1');
@@ -114,7 +119,24 @@ function applyEmphasis(nodes: React.ReactNode[], keyPrefix: string): React.React
   return resultAfterEm;
 }
 
-function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+function renderInline(text: string, keyPrefix: string, renderCitation?: CitationRenderer): React.ReactNode[] {
+  if (renderCitation) {
+    // Citations first: "[1][2]" would otherwise be stripped as a reference link
+    const out: React.ReactNode[] = [];
+    let last = 0;
+    let match: RegExpExecArray | null;
+    CITATION_PATTERN.lastIndex = 0;
+    while ((match = CITATION_PATTERN.exec(text)) !== null) {
+      if (match.index > last) out.push(...renderInline(text.slice(last, match.index), `${keyPrefix}-t${match.index}`));
+      match[1]!.split(/\s*[,;]\s*/).forEach(n => {
+        out.push(renderCitation(Number(n), `${keyPrefix}-c${match!.index}-${n}`));
+      });
+      last = match.index + match[0].length;
+    }
+    if (last < text.length) out.push(...renderInline(text.slice(last), `${keyPrefix}-t${last}`));
+    return out;
+  }
+
   const stripped = stripLinksAndCode(text);
   // For inline rendering, apply emphasis rules
   const nodes: React.ReactNode[] = [stripped];
@@ -157,7 +179,11 @@ function listStyle(): React.CSSProperties {
   return { margin: '6px 0 6px 20px' };
 }
 
-export function renderWriterMarkdown(content: string, isDarkMode: boolean): React.ReactElement {
+export function renderWriterMarkdown(
+  content: string,
+  isDarkMode: boolean,
+  renderCitation?: CitationRenderer
+): React.ReactElement {
   const theme: Theme = isDarkMode ? 'dark' : 'light';
   const text = content.replace(/\r\n?/g, '\n');
   const lines = text.split('\n');
@@ -174,7 +200,7 @@ export function renderWriterMarkdown(content: string, isDarkMode: boolean): Reac
     if (paragraphBuffer.length > 0) {
       const joined = paragraphBuffer.join(' ');
       elements.push(
-        <p key={`p-${keyCounter++}`} style={paragraphStyle()}>{renderInline(joined, `p-${keyCounter}`)}</p>
+        <p key={`p-${keyCounter++}`} style={paragraphStyle()}>{renderInline(joined, `p-${keyCounter}`, renderCitation)}</p>
       );
       paragraphBuffer = [];
     }
@@ -183,7 +209,7 @@ export function renderWriterMarkdown(content: string, isDarkMode: boolean): Reac
   const flushList = () => {
     if (listBuffer.length > 0 && listType) {
       const items = listBuffer.map((item, idx) => (
-        <li key={`li-${keyCounter}-${idx}`}>{renderInline(item.trim(), `li-${keyCounter}-${idx}`)}</li>
+        <li key={`li-${keyCounter}-${idx}`}>{renderInline(item.trim(), `li-${keyCounter}-${idx}`, renderCitation)}</li>
       ));
       if (listType === 'ul') {
         elements.push(<ul key={`ul-${keyCounter++}`} style={listStyle()}>{items}</ul>);
@@ -227,7 +253,7 @@ export function renderWriterMarkdown(content: string, isDarkMode: boolean): Reac
       const textContent = headingMatch[2].trim();
       elements.push(
         <div key={`h-${keyCounter++}`} style={headingStyle(level, theme)}>
-          {renderInline(textContent, `h-${keyCounter}`)}
+          {renderInline(textContent, `h-${keyCounter}`, renderCitation)}
         </div>
       );
       i += 1;
@@ -248,7 +274,7 @@ export function renderWriterMarkdown(content: string, isDarkMode: boolean): Reac
       const quoteText = quoteLines.join(' ');
       elements.push(
         <blockquote key={`bq-${keyCounter++}`} style={blockquoteStyle(theme)}>
-          {renderInline(quoteText, `bq-${keyCounter}`)}
+          {renderInline(quoteText, `bq-${keyCounter}`, renderCitation)}
         </blockquote>
       );
       continue;
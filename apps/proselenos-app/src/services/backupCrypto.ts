@@ -0,0 +1,110 @@
+// src/services/backupCrypto.ts
+// Passphrase encryption for backups (WebCrypto: PBKDF2 → AES-256-GCM)
+//
+// The passphrase is imported once as PBKDF2 key material; every backup then
+// derives its own AES key from a fresh random salt. The key material is a
+// non-extractable CryptoKey, so scheduled backups can keep it in IndexedDB
+// without the passphrase itself ever being stored.
+
+export interface BackupEncryption {
+  algorithm: 'AES-GCM';
+  kdf: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string;  // base64
+  iv: string;    // base64
+}
+
+// OWASP 2023 recommendation for PBKDF2-HMAC-SHA256
+const PBKDF2_ITERATIONS = 600_000;
+// Accepted when reading a backup: too few is no real protection, too many
+// would tie up the browser deriving the key from a crafted file
+const MIN_PBKDF2_ITERATIONS = 100_000;
+const MAX_PBKDF2_ITERATIONS = 10 * PBKDF2_ITERATIONS;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]!);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Passphrase → PBKDF2 key material (non-extractable, usable only to derive keys)
+ */
+export async function importPassphrase(passphrase: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey'],
+  );
+}
+
+async function deriveKey(keyMaterial: CryptoKey, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+}
+
+export async function encryptBackup(
+  data: ArrayBuffer,
+  keyMaterial: CryptoKey,
+): Promise<{ ciphertext: ArrayBuffer; encryption: BackupEncryption }> {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(keyMaterial, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+
+  return {
+    ciphertext,
+    encryption: {
+      algorithm: 'AES-GCM',
+      kdf: 'PBKDF2',
+      hash: 'SHA-256',
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+      iv: toBase64(iv),
+    },
+  };
+}
+
+/**
+ * @throws Error if the passphrase is wrong or the data was altered
+ * (AES-GCM authenticates the ciphertext, so both fail the same way), or if
+ * the key derivation settings are out of range
+ */
+export async function decryptBackup(
+  ciphertext: ArrayBuffer,
+  passphrase: string,
+  encryption: BackupEncryption,
+): Promise<ArrayBuffer> {
+  const { iterations } = encryption;
+  if (!Number.isInteger(iterations) || iterations < MIN_PBKDF2_ITERATIONS || iterations > MAX_PBKDF2_ITERATIONS) {
+    throw new Error(`Not a valid backup file: unsupported key derivation iteration count (${iterations}).`);
+  }
+  const keyMaterial = await importPassphrase(passphrase);
+  const key = await deriveKey(keyMaterial, fromBase64(encryption.salt), iterations);
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(encryption.iv) }, key, ciphertext);
+  } catch {
+    throw new Error('Wrong passphrase, or the backup file is damaged.');
+  }
+}
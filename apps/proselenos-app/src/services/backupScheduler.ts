@@ -0,0 +1,267 @@
+// src/services/backupScheduler.ts
+// Periodic automatic backups into a user-chosen folder (File System Access API)
+//
+// The schedule lives in localStorage; the folder handle and, for encrypted
+// backups, the passphrase key material (a non-extractable CryptoKey) live in
+// their own small IndexedDB database, which backups never include. Backups
+// only run while the app is open: a check runs at startup and every few
+// minutes, and writes a backup once the interval has passed.
+
+import { exportAllData } from '@/services/dataExportService';
+import { importPassphrase } from '@/services/backupCrypto';
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { id?: string; mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemHandle {
+    queryPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+    requestPermission?: (descriptor?: { mode?: 'read' | 'readwrite' }) => Promise<PermissionState>;
+  }
+  interface FileSystemDirectoryHandle {
+    keys(): AsyncIterableIterator<string>;
+  }
+}
+
+export interface BackupSchedule {
+  enabled: boolean;
+  intervalHours: number;
+  includeSecrets: boolean;
+  encrypted: boolean;      // key material saved with setSchedulePassphrase()
+  keepCount: number;       // older automatic backups in the folder are deleted
+  folderName?: string;
+  lastBackupAt?: string;   // ISO date
+  lastError?: string;
+}
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = {
+  enabled: false,
+  intervalHours: 24,
+  includeSecrets: false,
+  encrypted: false,
+  keepCount: 7,
+};
+
+export const BACKUP_INTERVALS: Array<{ hours: number; label: string }> = [
+  { hours: 1, label: 'Every hour' },
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 168, label: 'Weekly' },
+];
+
+export type ScheduledBackupResult = 'done' | 'not-due' | 'disabled' | 'no-folder' | 'needs-permission' | 'failed';
+
+const SCHEDULE_STORAGE_KEY = 'backup_schedule';
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const FILE_PREFIX = 'everythingebooks_autobackup_';
+
+const HANDLES_DB_NAME = 'EverythingEbooksBackups';
+const HANDLES_DB_VERSION = 1;
+const HANDLES_STORE = 'handles';
+const FOLDER_KEY = 'folder';
+const KEY_MATERIAL_KEY = 'keyMaterial';
+
+// One backup at a time: every open tab runs the check, so tabs take a Web
+// Lock; `running` covers a browser without the Web Locks API
+const BACKUP_LOCK_NAME = 'everythingebooks-scheduled-backup';
+let running = false;
+
+export function isFolderBackupSupported(): boolean {
+  return typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+}
+
+export function loadBackupSchedule(): BackupSchedule {
+  try {
+    const saved = localStorage.getItem(SCHEDULE_STORAGE_KEY);
+    return { ...DEFAULT_BACKUP_SCHEDULE, ...(saved ? JSON.parse(saved) : {}) };
+  } catch {
+    return { ...DEFAULT_BACKUP_SCHEDULE };
+  }
+}
+
+export function saveBackupSchedule(schedule: BackupSchedule): void {
+  localStorage.setItem(SCHEDULE_STORAGE_KEY, JSON.stringify(schedule));
+}
+
+function updateBackupSchedule(changes: Partial<BackupSchedule>): BackupSchedule {
+  const schedule = { ...loadBackupSchedule(), ...changes };
+  saveBackupSchedule(schedule);
+  return schedule;
+}
+
+// ============================================
+// Handle storage (IndexedDB)
+// ============================================
+
+async function openHandlesDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(HANDLES_DB_NAME, HANDLES_DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(HANDLES_STORE)) {
+        request.result.createObjectStore(HANDLES_STORE);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getHandle<T>(key: string): Promise<T | null> {
+  const db = await openHandlesDB();
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(HANDLES_STORE, 'readonly').objectStore(HANDLES_STORE).get(key);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function setHandle(key: string, value: unknown): Promise<void> {
+  const db = await openHandlesDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(HANDLES_STORE, 'readwrite');
+    const store = tx.objectStore(HANDLES_STORE);
+    if (value === null) {
+      store.delete(key);
+    } else {
+      store.put(value, key);
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// ============================================
+// Folder and passphrase
+// ============================================
+
+/**
+ * Lets the user pick the backup folder (must be called from a click).
+ * Returns the folder name, or null if cancelled.
+ */
+export async function chooseBackupFolder(): Promise<string | null> {
+  if (!window.showDirectoryPicker) return null;
+  try {
+    const folder = await window.showDirectoryPicker({ id: 'everythingebooks-backups', mode: 'readwrite' });
+    await setHandle(FOLDER_KEY, folder);
+    updateBackupSchedule({ folderName: folder.name, lastError: undefined });
+    return folder.name;
+  } catch {
+    return null; // User cancelled
+  }
+}
+
+/**
+ * Browsers forget folder permission between sessions; asking again needs a
+ * click. Returns true once the folder is writable.
+ */
+export async function requestBackupFolderPermission(): Promise<boolean> {
+  const folder = await getHandle<FileSystemDirectoryHandle>(FOLDER_KEY);
+  if (!folder?.requestPermission) return !!folder;
+  return (await folder.requestPermission({ mode: 'readwrite' })) === 'granted';
+}
+
+// Saves (or with null, forgets) the passphrase for automatic encrypted backups
+export async function setSchedulePassphrase(passphrase: string | null): Promise<void> {
+  await setHandle(KEY_MATERIAL_KEY, passphrase ? await importPassphrase(passphrase) : null);
+  updateBackupSchedule({ encrypted: !!passphrase });
+}
+
+// ============================================
+// Running backups
+// ============================================
+
+function backupFilename(date: Date): string {
+  // everythingebooks_autobackup_YYYY-MM-DD_HHMM.zip (sorts by date)
+  const stamp = date.toISOString().slice(0, 16).replace('T', '_').replace(':', '');
+  return `${FILE_PREFIX}${stamp}.zip`;
+}
+
+// Delete all but the newest keepCount automatic backups
+async function pruneOldBackups(folder: FileSystemDirectoryHandle, keepCount: number): Promise<void> {
+  const names: string[] = [];
+  for await (const name of folder.keys()) {
+    if (name.startsWith(FILE_PREFIX) && name.endsWith('.zip')) names.push(name);
+  }
+  names.sort().reverse();
+  for (const name of names.slice(Math.max(1, keepCount))) {
+    await folder.removeEntry(name);
+  }
+}
+
+function isDue(schedule: BackupSchedule): boolean {
+  if (!schedule.lastBackupAt) return true;
+  const elapsed = Date.now() - new Date(schedule.lastBackupAt).getTime();
+  return elapsed >= schedule.intervalHours * 60 * 60 * 1000;
+}
+
+async function writeScheduledBackup(force: boolean): Promise<ScheduledBackupResult> {
+  // Read inside the lock: another tab may have just written the backup
+  const schedule = loadBackupSchedule();
+  if (!force && !schedule.enabled) return 'disabled';
+  if (!force && !isDue(schedule)) return 'not-due';
+
+  try {
+    const folder = await getHandle<FileSystemDirectoryHandle>(FOLDER_KEY);
+    if (!folder) return 'no-folder';
+    if (folder.queryPermission && (await folder.queryPermission({ mode: 'readwrite' })) !== 'granted') {
+      updateBackupSchedule({ lastError: 'Folder access needs to be allowed again.' });
+      return 'needs-permission';
+    }
+
+    const keyMaterial = schedule.encrypted ? await getHandle<CryptoKey>(KEY_MATERIAL_KEY) : null;
+    if (schedule.encrypted && !keyMaterial) {
+      updateBackupSchedule({ lastError: 'Set the backup passphrase again.' });
+      return 'failed';
+    }
+
+    const now = new Date();
+    const blob = await exportAllData({ keyMaterial, includeSecrets: schedule.includeSecrets });
+    const fileHandle = await folder.getFileHandle(backupFilename(now), { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(blob);
+    await writable.close();
+    await pruneOldBackups(folder, schedule.keepCount);
+
+    updateBackupSchedule({ lastBackupAt: now.toISOString(), lastError: undefined });
+    // Automatic backups count as exports for the traffic light indicator
+    localStorage.setItem('last_export_date', now.toISOString());
+    window.dispatchEvent(new StorageEvent('storage', { key: 'last_export_date' }));
+    return 'done';
+  } catch (err) {
+    console.error('Automatic backup failed:', err);
+    updateBackupSchedule({ lastError: err instanceof Error ? err.message : 'Backup failed.' });
+    return 'failed';
+  }
+}
+
+/**
+ * Writes a backup to the chosen folder if one is due (or always, with force).
+ * While another tab is writing one, a due backup is left to it ('not-due') and
+ * a forced one waits for it to finish.
+ */
+export async function runScheduledBackup(force = false): Promise<ScheduledBackupResult> {
+  const schedule = loadBackupSchedule();
+  if (!force && !schedule.enabled) return 'disabled';
+  if (!force && !isDue(schedule)) return 'not-due';
+  if (running) return 'not-due';
+
+  running = true;
+  try {
+    if (!navigator.locks) return await writeScheduledBackup(force);
+    return await navigator.locks.request(BACKUP_LOCK_NAME, { ifAvailable: !force }, (lock) =>
+      lock ? writeScheduledBackup(force) : 'not-due',
+    );
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * Starts the periodic check; returns a function that stops it
+ */
+export function startBackupScheduler(): () => void {
+  if (!isFolderBackupSupported()) return () => {};
+  runScheduledBackup();
+  const timer = window.setInterval(() => runScheduledBackup(), CHECK_INTERVAL_MS);
+  return () => window.clearInterval(timer);
+}
@@ -0,0 +1,179 @@
+// services/betaFeedbackService.ts
+// Places beta-reader feedback (exported from the Reader, see utils/feedback.ts)
+// onto the working copy as comment threads in the section editor.
+
+import { nanoid, type Value } from 'platejs';
+import type { TDiscussion } from '@/components/plate-editor/plugins/discussion-kit';
+import { READER_USER_PREFIX } from '@/components/plate-editor/plugins/discussion-kit';
+import type { BetaFeedbackFile, BetaFeedbackNote } from '@/types/feedback';
+import { plateToXhtml, xhtmlToPlate } from '@/lib/plateXhtml';
+import { anchorComment, getReviewText } from '@/lib/plateReview';
+import { findQuote, type QuoteMatch } from '@/lib/quoteMatcher';
+import {
+  loadSection,
+  loadSectionDiscussions,
+  loadWorkingCopyMeta,
+  saveSectionDiscussions,
+  saveSectionXhtml,
+} from './manuscriptStorage';
+
+export interface FeedbackImportResult {
+  // Placed on the exact quoted text
+  placed: number;
+  // Placed on text that has changed a little since the draft was shared
+  approximate: number;
+  // Section found but the quote is gone; anchored to the section's first line
+  sectionOnly: number;
+  // Already imported earlier
+  duplicates: number;
+  // No matching section at all
+  unplaced: BetaFeedbackNote[];
+  sectionIds: string[];
+}
+
+interface SectionState {
+  value: Value;
+  text: string;
+  discussions: TDiscussion[];
+  changed: boolean;
+}
+
+/**
+ * Section id a note was exported from, based on the generator's file layout
+ * (OEBPS/{id}.xhtml and OEBPS/nomatter/{id}.xhtml)
+ */
+function getSectionIdFromHref(href?: string): string | null {
+  const match = href?.match(/([^/]+)\.xhtml$/);
+  return match ? decodeURIComponent(match[1]!) : null;
+}
+
+function getFirstLineRange(text: string): { start: number; end: number } | null {
+  const start = text.search(/\S/);
+  if (start < 0) return null;
+  const lineEnd = text.indexOf('\n', start);
+  return { start, end: lineEnd < 0 ? text.length : lineEnd };
+}
+
+function createDiscussion(
+  id: string,
+  note: BetaFeedbackNote,
+  userId: string,
+  documentContent: string,
+): TDiscussion {
+  const body = note.note.trim() || 'Highlighted';
+  return {
+    id,
+    comments: [
+      {
+        id: nanoid(),
+        contentRich: body.split('\n').map(line => ({ type: 'p', children: [{ text: line }] })),
+        createdAt: new Date(note.updatedAt || note.createdAt),
+        discussionId: id,
+        isEdited: false,
+        userId,
+      },
+    ],
+    createdAt: new Date(note.createdAt),
+    isResolved: false,
+    userId,
+    documentContent,
+  };
+}
+
+/**
+ * Import a beta reader's feedback file as comment threads. Each note goes to
+ * the section it was exported from (falling back to searching every section
+ * for the quote) and is anchored on the quoted text, tolerating small edits.
+ * Importing the same file twice does not duplicate threads.
+ */
+export async function importBetaFeedback(
+  feedback: BetaFeedbackFile,
+  readerName: string,
+): Promise<FeedbackImportResult> {
+  const meta = await loadWorkingCopyMeta();
+  if (!meta) {
+    throw new Error('No manuscript is open in the workspace');
+  }
+
+  const sections = new Map<string, SectionState>();
+  for (const id of meta.sectionIds) {
+    const section = await loadSection(id);
+    if (!section) continue;
+    const value = xhtmlToPlate(section.xhtml);
+    sections.set(id, {
+      value,
+      text: getReviewText(value),
+      discussions: await loadSectionDiscussions(id),
+      changed: false,
+    });
+  }
+
+  const existingIds = new Set(
+    [...sections.values()].flatMap(state => state.discussions.map(d => d.id)),
+  );
+  const userId = `${READER_USER_PREFIX}${readerName.trim() || 'Beta reader'}`;
+  const result: FeedbackImportResult = {
+    placed: 0,
+    approximate: 0,
+    sectionOnly: 0,
+    duplicates: 0,
+    unplaced: [],
+    sectionIds: [],
+  };
+
+  for (const note of feedback.notes) {
+    const discussionId = `feedback-${note.id}`;
+    if (existingIds.has(discussionId)) {
+      result.duplicates++;
+      continue;
+    }
+
+    const hrefId = getSectionIdFromHref(note.href);
+    const candidates = [
+      ...(hrefId && sections.has(hrefId) ? [hrefId] : []),
+      ...[...sections.keys()].filter(id => id !== hrefId),
+    ];
+
+    let target: { id: string; match: QuoteMatch } | null = null;
+    for (const id of candidates) {
+      const match = findQuote(sections.get(id)!.text, note.text, note);
+      if (match && (match.exact || !target)) {
+        target = { id, match };
+        if (match.exact) break;
+      }
+    }
+
+    let sectionId: string;
+    let range: { start: number; end: number } | null;
+    if (target) {
+      sectionId = target.id;
+      range = target.match;
+      if (target.match.exact) result.placed++;
+      else result.approximate++;
+    } else if (hrefId && sections.has(hrefId)) {
+      sectionId = hrefId;
+      range = getFirstLineRange(sections.get(hrefId)!.text);
+      result.sectionOnly++;
+    } else {
+      result.unplaced.push(note);
+      continue;
+    }
+
+    const state = sections.get(sectionId)!;
+    if (range) {
+      state.value = anchorComment(state.value, discussionId, range.start, range.end);
+    }
+    state.discussions.push(createDiscussion(discussionId, note, userId, note.text));
+    state.changed = true;
+    existingIds.add(discussionId);
+  }
+
+  for (const [id, state] of sections) {
+    if (!state.changed) continue;
+    await saveSectionXhtml(id, plateToXhtml(state.value));
+    await saveSectionDiscussions(id, state.discussions);
+    result.sectionIds.push(id);
+  }
+
+  return result;
+}
@@ -1,7 +1,17 @@
 // src/services/dataExportService.ts
 // Exports and imports ALL browser storage for this app
+//
+// Backups can be encrypted with a passphrase (the data zip is then stored as
+// backup.enc inside an outer zip whose manifest carries the encryption
+// parameters), can leave secrets out, and can be restored selectively:
+// individual library books or just their notes, individual manuscripts, and
+// settings/everything else.
 
 import JSZip from 'jszip';
+import type { Book, BookConfig } from '@/types/book';
+import { invalidateProjectRegistry, type ManuscriptMeta, type ProjectRegistry } from '@/services/manuscriptStorage';
+import { LOCAL_BOOKS_SUBDIR } from '@/services/constants';
+import { decryptBackup, encryptBackup, type BackupEncryption } from '@/services/backupCrypto';
 
 // ============================================
 // Database constants (matching existing services)
@@ -14,6 +24,52 @@ const AUTHORS_DB_NAME = 'ProselenosLocal';
 const AUTHORS_DB_VERSION = 1;
 const AUTHORS_STORES = ['settings', 'manuscript', 'ai', 'publish'] as const;
 
+const BACKUP_APP = 'EverythingEbooks';
+const BACKUP_VERSION = 2;
+const ENCRYPTED_PAYLOAD = 'backup.enc';
+
+// Library index and per-book folders in the E-Reader files store
+const LIBRARY_PATH = `${LOCAL_BOOKS_SUBDIR}/library.json`;
+const LIBRARY_BACKUP_PATH = `${LOCAL_BOOKS_SUBDIR}/library_backup.json`;
+
+// Secrets: the AI API key, the KOReader sync key, and any localStorage entry
+// that looks like a credential
+const API_KEY_RECORD = 'api_key.json';
+const EREADER_SETTINGS_PATH = 'Settings/settings.json';
+const SECRET_LOCAL_STORAGE_KEY = /api[-_]?key|secret|token|password/i;
+
+const PROJECTS_RECORD = 'projects.json';
+// Backups from before projects hold one working copy with unprefixed keys;
+// selective restore lists it under this id
+const LEGACY_WORKING_COPY_ID = 'working-copy';
+
+// Authors records stored in backups as raw bytes under their own name
+const BINARY_EXTENSIONS = ['.epub', '.docx', '.png', '.jpg', '.jpeg'];
+
+export interface BackupManifest {
+  version: number;
+  app: string;
+  exportDate: string;
+  contents?: {
+    hasLocalStorage: boolean;
+    hasEreader: boolean;
+    hasAuthors: boolean;
+    hasSecrets?: boolean;  // absent in backups made before secrets could be excluded
+  };
+  encryption?: BackupEncryption;
+}
+
+export interface ExportOptions {
+  // PBKDF2 key material from importPassphrase(); null exports an unencrypted zip
+  keyMaterial: CryptoKey | null;
+  includeSecrets: boolean;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  keyMaterial: null,
+  includeSecrets: true,
+};
+
 // ============================================
 // Helper: Open IndexedDB
 // ============================================
@@ -30,17 +86,30 @@ async function openDB(dbName: string, version: number): Promise<IDBDatabase> {
 // Export localStorage
 // ============================================
 
-function exportLocalStorage(): Record<string, string> {
+function exportLocalStorage(includeSecrets: boolean): Record<string, string> {
   const data: Record<string, string> = {};
   for (let i = 0; i < localStorage.length; i++) {
     const key = localStorage.key(i);
-    if (key) {
+    if (key && (includeSecrets || !SECRET_LOCAL_STORAGE_KEY.test(key))) {
       data[key] = localStorage.getItem(key) || '';
     }
   }
   return data;
 }
 
+// E-Reader settings without the KOReader sync key
+function stripEreaderSecrets(content: string): string {
+  try {
+    const settings = JSON.parse(content);
+    if (settings?.kosync?.userkey) {
+      settings.kosync.userkey = '';
+    }
+    return JSON.stringify(settings);
+  } catch {
+    return content;
+  }
+}
+
 // ============================================
 // Export E-Reader Database (AppFileSystem)
 // ============================================
@@ -140,23 +209,24 @@ async function blobToArrayBuffer(blob: Blob): Promise<ArrayBuffer> {
 // Main Export Function
 // ============================================
 
-export async function exportAllData(): Promise<Blob> {
+async function buildBackupZip(includeSecrets: boolean): Promise<JSZip> {
   const zip = new JSZip();
 
   // 1. Add manifest
   const manifest = {
-    version: 1,
-    app: 'EverythingEbooks',
+    version: BACKUP_VERSION,
+    app: BACKUP_APP,
     exportDate: new Date().toISOString(),
     contents: {
       hasLocalStorage: true,
       hasEreader: false,
       hasAuthors: false,
+      hasSecrets: includeSecrets,
     },
   };
 
   // 2. Export localStorage
-  const localStorageData = exportLocalStorage();
+  const localStorageData = exportLocalStorage(includeSecrets);
   zip.file('localStorage.json', JSON.stringify(localStorageData, null, 2));
 
   // 3. Export E-Reader data
@@ -176,7 +246,9 @@ export async function exportAllData(): Promise<Blob> {
         } else if (content instanceof ArrayBuffer) {
           ereaderFolder.file(cleanPath, new Uint8Array(content));
         } else if (typeof content === 'string') {
-          ereaderFolder.file(cleanPath, content);
+          ereaderFolder.file(cleanPath, !includeSecrets && path === EREADER_SETTINGS_PATH
+            ? stripEreaderSecrets(content)
+            : content);
         } else {
           // JSON serialize anything else
           ereaderFolder.file(cleanPath, JSON.stringify(content, null, 2));
@@ -226,10 +298,14 @@ export async function exportAllData(): Promise<Blob> {
 
         for (const entry of entries) {
           const { key, value } = entry;
-          // Clean up key for filename (remove .json if we're adding it)
-          const filename = key.endsWith('.json') || key.endsWith('.txt') || key.endsWith('.epub') || key.endsWith('.docx')
+          if (!includeSecrets && storeName === 'settings' && key === API_KEY_RECORD) continue;
+          // Clean up key for filename (remove .json if we're adding it).
+          // Binary records without a binary extension (e.g. .gif images) get .bin
+          const isBinary = value instanceof Blob || value instanceof ArrayBuffer;
+          const filename = key.endsWith('.json') || key.endsWith('.txt') || key.endsWith('.xhtml') ||
+            BINARY_EXTENSIONS.some(ext => key.endsWith(ext))
             ? key
-            : `${key}.json`;
+            : isBinary ? `${key}.bin` : `${key}.json`;
 
           if (value instanceof Blob) {
             const arrayBuffer = await blobToArrayBuffer(value);
@@ -250,12 +326,39 @@ export async function exportAllData(): Promise<Blob> {
   // 5. Add manifest (now with accurate content flags)
   zip.file('manifest.json', JSON.stringify(manifest, null, 2));
 
+  return zip;
+}
+
+export async function exportAllData(options: ExportOptions = DEFAULT_EXPORT_OPTIONS): Promise<Blob> {
+  const zip = await buildBackupZip(options.includeSecrets);
+
   // 6. Generate ZIP
-  return zip.generateAsync({
-    type: 'blob',
+  if (!options.keyMaterial) {
+    return zip.generateAsync({
+      type: 'blob',
+      compression: 'DEFLATE',
+      compressionOptions: { level: 6 },
+    });
+  }
+
+  // 7. Encrypted: the data zip becomes backup.enc next to a plain manifest
+  const data = await zip.generateAsync({
+    type: 'arraybuffer',
     compression: 'DEFLATE',
     compressionOptions: { level: 6 },
   });
+  const { ciphertext, encryption } = await encryptBackup(data, options.keyMaterial);
+  const manifest: BackupManifest = {
+    version: BACKUP_VERSION,
+    app: BACKUP_APP,
+    exportDate: new Date().toISOString(),
+    encryption,
+  };
+
+  const outer = new JSZip();
+  outer.file('manifest.json', JSON.stringify(manifest, null, 2));
+  outer.file(ENCRYPTED_PAYLOAD, new Uint8Array(ciphertext));
+  return outer.generateAsync({ type: 'blob', compression: 'STORE' });
 }
 
 // ============================================
@@ -277,8 +380,8 @@ export function downloadBlob(blob: Blob, filename: string): void {
 // One-click Export & Download
 // ============================================
 
-export async function exportAndDownload(): Promise<void> {
-  const blob = await exportAllData();
+export async function exportAndDownload(options: ExportOptions = DEFAULT_EXPORT_OPTIONS): Promise<void> {
+  const blob = await exportAllData(options);
   const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
   downloadBlob(blob, `everythingebooks_backup_${date}.zip`);
 }
@@ -302,21 +405,110 @@ function selectZipFile(): Promise<File | null> {
   });
 }
 
-// Validate ZIP has expected structure
-async function validateBackupZip(zip: JSZip): Promise<boolean> {
+// Read the manifest (null if this is not one of our backups)
+async function readManifest(zip: JSZip): Promise<BackupManifest | null> {
   // Must have manifest.json
   const manifest = zip.file('manifest.json');
   if (!manifest) {
-    return false;
+    return null;
   }
 
   try {
     const content = await manifest.async('string');
     const parsed = JSON.parse(content);
     // Check it's our backup format
-    return parsed.app === 'EverythingEbooks' && typeof parsed.version === 'number';
+    return parsed.app === BACKUP_APP && typeof parsed.version === 'number' ? parsed as BackupManifest : null;
+  } catch {
+    return null;
+  }
+}
+
+// Secret-free backups: older backups do not say, and always carried secrets
+function backupHasSecrets(manifest: BackupManifest | null): boolean {
+  return manifest?.contents?.hasSecrets !== false;
+}
+
+// Open (and create if needed) the E-Reader database
+async function openEreaderDB(): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(EREADER_DB_NAME, EREADER_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains('files')) {
+        db.createObjectStore('files', { keyPath: 'path' });
+      }
+      if (!db.objectStoreNames.contains('manuscript')) {
+        db.createObjectStore('manuscript', { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open (and create if needed) the Authors database
+async function openAuthorsDB(): Promise<IDBDatabase> {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(AUTHORS_DB_NAME, AUTHORS_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const storeName of AUTHORS_STORES) {
+        if (!db.objectStoreNames.contains(storeName)) {
+          db.createObjectStore(storeName, { keyPath: 'key' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function getRecord<T>(db: IDBDatabase, storeName: string, key: string): Promise<T | null> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const request = tx.objectStore(storeName).get(key);
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function putRecord(db: IDBDatabase, storeName: string, record: unknown): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Delete every record whose key starts with prefix
+async function deleteRecordsWithPrefix(db: IDBDatabase, storeName: string, prefix: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).delete(IDBKeyRange.bound(prefix, prefix + '\uffff'));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// List the files of a ZIP folder (relative paths)
+function listFolderFiles(folder: JSZip): Array<{ relativePath: string; file: JSZip.JSZipObject }> {
+  const files: Array<{ relativePath: string; file: JSZip.JSZipObject }> = [];
+  folder.forEach((relativePath, file) => {
+    if (!file.dir) {
+      files.push({ relativePath, file });
+    }
+  });
+  return files;
+}
+
+async function readJsonFile<T>(zip: JSZip, path: string): Promise<T | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  try {
+    return JSON.parse(await file.async('string')) as T;
   } catch {
-    return false;
+    return null;
   }
 }
 
@@ -371,7 +563,67 @@ async function clearAuthorsDB(): Promise<void> {
   }
 }
 
-// Import localStorage from ZIP
+// ============================================
+// Secrets kept across a restore from a secret-free backup
+// ============================================
+
+interface CurrentSecrets {
+  apiKey: unknown;
+  kosyncUserkey: string;
+  localStorage: Record<string, string>;
+}
+
+async function readCurrentSecrets(): Promise<CurrentSecrets> {
+  const secrets: CurrentSecrets = { apiKey: null, kosyncUserkey: '', localStorage: {} };
+
+  for (const [key, value] of Object.entries(exportLocalStorage(true))) {
+    if (SECRET_LOCAL_STORAGE_KEY.test(key)) secrets.localStorage[key] = value;
+  }
+  try {
+    const authorsDB = await openAuthorsDB();
+    const record = await getRecord<{ value: unknown }>(authorsDB, 'settings', API_KEY_RECORD);
+    secrets.apiKey = record?.value ?? null;
+
+    const ereaderDB = await openEreaderDB();
+    const settings = await getRecord<{ content: unknown }>(ereaderDB, 'files', EREADER_SETTINGS_PATH);
+    if (typeof settings?.content === 'string') {
+      secrets.kosyncUserkey = JSON.parse(settings.content)?.kosync?.userkey || '';
+    }
+  } catch {
+    // Nothing stored yet
+  }
+  return secrets;
+}
+
+// Put secrets back wherever the restored data left them empty
+async function restoreCurrentSecrets(secrets: CurrentSecrets): Promise<void> {
+  for (const [key, value] of Object.entries(secrets.localStorage)) {
+    if (localStorage.getItem(key) === null) localStorage.setItem(key, value);
+  }
+
+  const authorsDB = await openAuthorsDB();
+  if (secrets.apiKey && !(await getRecord(authorsDB, 'settings', API_KEY_RECORD))) {
+    await putRecord(authorsDB, 'settings', { key: API_KEY_RECORD, value: secrets.apiKey });
+  }
+
+  if (secrets.kosyncUserkey) {
+    const ereaderDB = await openEreaderDB();
+    const record = await getRecord<{ content: unknown }>(ereaderDB, 'files', EREADER_SETTINGS_PATH);
+    if (typeof record?.content === 'string') {
+      try {
+        const settings = JSON.parse(record.content);
+        if (settings?.kosync && !settings.kosync.userkey) {
+          settings.kosync.userkey = secrets.kosyncUserkey;
+          await putRecord(ereaderDB, 'files', { path: EREADER_SETTINGS_PATH, content: JSON.stringify(settings) });
+        }
+      } catch {
+        // Unreadable settings are left as restored
+      }
+    }
+  }
+}
+
+// Import localStorage from ZIP (merged over the current entries)
 async function importLocalStorage(zip: JSZip): Promise<void> {
   const file = zip.file('localStorage.json');
   if (!file) return;
@@ -387,39 +639,20 @@ async function importLocalStorage(zip: JSZip): Promise<void> {
   }
 }
 
-// Import E-Reader data from ZIP
-async function importEreaderData(zip: JSZip): Promise<void> {
+// Import E-Reader data from ZIP (only paths accepted by include)
+async function importEreaderData(zip: JSZip, include: (path: string) => boolean = () => true): Promise<void> {
   const ereaderFolder = zip.folder('ereader');
   if (!ereaderFolder) return;
 
   try {
     // Ensure database and stores exist
-    const db = await new Promise<IDBDatabase>((resolve, reject) => {
-      const request = indexedDB.open(EREADER_DB_NAME, EREADER_DB_VERSION);
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        if (!db.objectStoreNames.contains('files')) {
-          db.createObjectStore('files', { keyPath: 'path' });
-        }
-        if (!db.objectStoreNames.contains('manuscript')) {
-          db.createObjectStore('manuscript', { keyPath: 'key' });
-        }
-      };
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+    const db = await openEreaderDB();
 
     // Import each file
-    const files: Array<{ relativePath: string; file: JSZip.JSZipObject }> = [];
-    ereaderFolder.forEach((relativePath, file) => {
-      if (!file.dir) {
-        files.push({ relativePath, file });
-      }
-    });
-
-    for (const { relativePath, file } of files) {
+    for (const { relativePath, file } of listFolderFiles(ereaderFolder)) {
       // Use path exactly as stored in ZIP (matches original IndexedDB path)
       const fullPath = relativePath;
+      if (!include(fullPath)) continue;
 
       // Determine content type and read accordingly
       let content: string | ArrayBuffer;
@@ -431,13 +664,7 @@ async function importEreaderData(zip: JSZip): Promise<void> {
       }
 
       // Write to IndexedDB
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction('files', 'readwrite');
-        const store = tx.objectStore('files');
-        store.put({ path: fullPath, content });
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      });
+      await putRecord(db, 'files', { path: fullPath, content });
     }
   } catch (err) {
     console.error('Failed to import E-Reader data:', err);
@@ -453,14 +680,7 @@ async function importEreaderManuscript(zip: JSZip): Promise<void> {
     const db = await openDB(EREADER_DB_NAME, EREADER_DB_VERSION);
     if (!db.objectStoreNames.contains('manuscript')) return;
 
-    const files: Array<{ relativePath: string; file: JSZip.JSZipObject }> = [];
-    manuscriptFolder.forEach((relativePath, file) => {
-      if (!file.dir) {
-        files.push({ relativePath, file });
-      }
-    });
-
-    for (const { relativePath, file } of files) {
+    for (const { relativePath, file } of listFolderFiles(manuscriptFolder)) {
       const key = relativePath;
 
       let value: string | ArrayBuffer;
@@ -470,64 +690,47 @@ async function importEreaderManuscript(zip: JSZip): Promise<void> {
         value = await file.async('arraybuffer');
       }
 
-      await new Promise<void>((resolve, reject) => {
-        const tx = db.transaction('manuscript', 'readwrite');
-        const store = tx.objectStore('manuscript');
-        store.put({ key, value });
-        tx.oncomplete = () => resolve();
-        tx.onerror = () => reject(tx.error);
-      });
+      await putRecord(db, 'manuscript', { key, value });
     }
   } catch (err) {
     console.error('Failed to import E-Reader manuscript data:', err);
   }
 }
 
-// Import Authors data from ZIP
-async function importAuthorsData(zip: JSZip): Promise<void> {
+// Import Authors data from ZIP (only records accepted by include)
+async function importAuthorsData(
+  zip: JSZip,
+  include: (storeName: string, key: string) => boolean = () => true,
+): Promise<void> {
   const authorsFolder = zip.folder('authors');
   if (!authorsFolder) return;
 
   try {
     // Ensure database and stores exist
-    const db = await new Promise<IDBDatabase>((resolve, reject) => {
-      const request = indexedDB.open(AUTHORS_DB_NAME, AUTHORS_DB_VERSION);
-      request.onupgradeneeded = () => {
-        const db = request.result;
-        for (const storeName of AUTHORS_STORES) {
-          if (!db.objectStoreNames.contains(storeName)) {
-            db.createObjectStore(storeName, { keyPath: 'key' });
-          }
-        }
-      };
-      request.onsuccess = () => resolve(request.result);
-      request.onerror = () => reject(request.error);
-    });
+    const db = await openAuthorsDB();
 
     // Import each store
     for (const storeName of AUTHORS_STORES) {
       const storeFolder = authorsFolder.folder(storeName);
       if (!storeFolder) continue;
 
-      const files: Array<{ relativePath: string; file: JSZip.JSZipObject }> = [];
-      storeFolder.forEach((relativePath, file) => {
-        if (!file.dir) {
-          files.push({ relativePath, file });
-        }
-      });
-
-      for (const { relativePath, file } of files) {
-        // The key is the filename (may or may not have extension)
-        const key = relativePath;
+      for (const { relativePath, file } of listFolderFiles(storeFolder)) {
+        // The key is the filename (may or may not have extension).
+        // Older backups stored section XHTML as "{id}.xhtml.json" and images
+        // as "{name}.png.json".
+        const key = relativePath.endsWith('.xhtml.json') || relativePath.endsWith('.bin') ||
+          BINARY_EXTENSIONS.some(ext => relativePath.endsWith(`${ext}.json`))
+          ? relativePath.replace(/\.(json|bin)$/, '')
+          : relativePath;
+        if (!include(storeName, key)) continue;
 
         // Determine content type and read accordingly
         let value: unknown;
-        if (relativePath.endsWith('.epub') || relativePath.endsWith('.docx') ||
-            relativePath.endsWith('.png') || relativePath.endsWith('.jpg') || relativePath.endsWith('.jpeg')) {
+        if (relativePath.endsWith('.bin') || BINARY_EXTENSIONS.some(ext => key.endsWith(ext))) {
           // Binary file
           value = await file.async('arraybuffer');
-        } else if (relativePath.endsWith('.txt')) {
-          // Plain text
+        } else if (relativePath.endsWith('.txt') || key.endsWith('.xhtml')) {
+          // Plain text (section XHTML keeps its tracked changes and comment anchors as-is)
           value = await file.async('string');
         } else {
           // JSON file - parse it
@@ -540,13 +743,7 @@ async function importAuthorsData(zip: JSZip): Promise<void> {
         }
 
         // Write to IndexedDB
-        await new Promise<void>((resolve, reject) => {
-          const tx = db.transaction(storeName, 'readwrite');
-          const store = tx.objectStore(storeName);
-          store.put({ key, value });
-          tx.oncomplete = () => resolve();
-          tx.onerror = () => reject(tx.error);
-        });
+        await putRecord(db, storeName, { key, value });
       }
     }
   } catch (err) {
@@ -554,8 +751,11 @@ async function importAuthorsData(zip: JSZip): Promise<void> {
   }
 }
 
-// Pick and validate a backup file (returns the zip if valid, null if cancelled/invalid)
-export async function pickAndValidateBackup(): Promise<{ zip: JSZip; file: File } | { error: string } | null> {
+export type PickedBackup = { zip: JSZip; file: File; manifest: BackupManifest };
+
+// Pick and validate a backup file (returns the zip if valid, null if cancelled/invalid).
+// Encrypted backups come back locked: pass them to unlockBackup() with the passphrase.
+export async function pickAndValidateBackup(): Promise<PickedBackup | { error: string } | null> {
   const file = await selectZipFile();
   if (!file) {
     return null; // User cancelled
@@ -563,19 +763,108 @@ export async function pickAndValidateBackup(): Promise<{ zip: JSZip; file: File
 
   try {
     const zip = await JSZip.loadAsync(file);
-    const isValid = await validateBackupZip(zip);
-    if (!isValid) {
+    const manifest = await readManifest(zip);
+    if (!manifest) {
       return { error: 'Invalid backup file. Please select a valid EverythingEbooks backup.' };
     }
-    return { zip, file };
+    return { zip, file, manifest };
   } catch {
     return { error: 'Could not read the backup file. It may be corrupted.' };
   }
 }
 
+export function isBackupEncrypted(manifest: BackupManifest): boolean {
+  return !!manifest.encryption;
+}
+
+/**
+ * Decrypts an encrypted backup into the data zip it wraps
+ *
+ * @throws Error with a user-facing message (wrong passphrase, damaged file)
+ */
+export async function unlockBackup(backup: PickedBackup, passphrase: string): Promise<PickedBackup> {
+  const payload = backup.zip.file(ENCRYPTED_PAYLOAD);
+  if (!backup.manifest.encryption || !payload) {
+    return backup;
+  }
+
+  const data = await decryptBackup(await payload.async('arraybuffer'), passphrase, backup.manifest.encryption);
+  const zip = await JSZip.loadAsync(data);
+  const manifest = await readManifest(zip);
+  if (!manifest) {
+    throw new Error('Could not read the backup file. It may be corrupted.');
+  }
+  return { zip, file: backup.file, manifest };
+}
+
+// ============================================
+// Backup contents (for selective restore)
+// ============================================
+
+export interface BackupBook {
+  hash: string;
+  title: string;
+  author: string;
+  noteCount: number;  // annotations, bookmarks and highlights in config.json
+}
+
+export interface BackupProject {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+export interface BackupContents {
+  exportDate: string;
+  hasSecrets: boolean;
+  books: BackupBook[];
+  projects: BackupProject[];
+}
+
+export async function listBackupContents(backup: PickedBackup): Promise<BackupContents> {
+  const { zip, manifest } = backup;
+
+  const library = await readJsonFile<Book[]>(zip, `ereader/${LIBRARY_PATH}`)
+    ?? await readJsonFile<Book[]>(zip, `ereader/${LIBRARY_BACKUP_PATH}`)
+    ?? [];
+  const books: BackupBook[] = [];
+  for (const book of library) {
+    if (book.deletedAt || !zip.folder(`ereader/${LOCAL_BOOKS_SUBDIR}/${book.hash}`)) continue;
+    const config = await readJsonFile<Partial<BookConfig>>(zip, `ereader/${LOCAL_BOOKS_SUBDIR}/${book.hash}/config.json`);
+    books.push({
+      hash: book.hash,
+      title: book.title,
+      author: book.author,
+      noteCount: (config?.booknotes ?? []).filter(note => !note.deletedAt).length,
+    });
+  }
+
+  const registry = await readJsonFile<ProjectRegistry>(zip, `authors/settings/${PROJECTS_RECORD}`);
+  const projects: BackupProject[] = (registry?.projects ?? []).map(({ id, name, updatedAt }) => ({ id, name, updatedAt }));
+  if (!registry && zip.folder('authors/manuscript')?.file(/./).length) {
+    const meta = await readJsonFile<Pick<ManuscriptMeta, 'title'>>(zip, 'authors/manuscript/meta.json')
+      ?? await readJsonFile<Pick<ManuscriptMeta, 'title'>>(zip, 'authors/manuscript/working_copy_meta.json');
+    projects.push({
+      id: LEGACY_WORKING_COPY_ID,
+      name: meta?.title || 'Untitled',
+      updatedAt: Date.parse(manifest.exportDate) || 0,
+    });
+  }
+
+  return {
+    exportDate: manifest.exportDate,
+    hasSecrets: backupHasSecrets(manifest),
+    books,
+    projects,
+  };
+}
+
 // Perform the actual import (call after user confirms)
 export async function performImport(zip: JSZip): Promise<{ success: boolean; error?: string }> {
   try {
+    const manifest = await readManifest(zip);
+    const secrets = backupHasSecrets(manifest) ? null : await readCurrentSecrets();
+
     // Clear existing data
     clearLocalStorage();
     await clearEreaderDB();
@@ -586,6 +875,9 @@ export async function performImport(zip: JSZip): Promise<{ success: boolean; err
     await importEreaderData(zip);
     await importEreaderManuscript(zip);
     await importAuthorsData(zip);
+    await invalidateProjectRegistry();
+
+    if (secrets) await restoreCurrentSecrets(secrets);
 
     return { success: true };
   } catch (err) {
@@ -593,3 +885,117 @@ export async function performImport(zip: JSZip): Promise<{ success: boolean; err
     return { success: false, error: 'Import failed. The backup file may be corrupted.' };
   }
 }
+
+export interface RestoreSelection {
+  books: string[];     // book hashes: book file, cover, notes and reading progress
+  notes: string[];     // book hashes: notes, highlights and reading progress only
+  projects: string[];  // manuscript project ids
+  settings: boolean;   // preferences, AI settings and prompts, fonts, and everything else
+}
+
+// Restored items replace current ones in place; new ones go first
+function mergeByKey<T>(current: T[], restored: T[], keyOf: (item: T) => string): T[] {
+  const byKey = new Map(restored.map(item => [keyOf(item), item]));
+  const merged = current.map(item => {
+    const replacement = byKey.get(keyOf(item));
+    byKey.delete(keyOf(item));
+    return replacement ?? item;
+  });
+  return [...byKey.values(), ...merged];
+}
+
+// Merge the selected books' library entries into the current library index
+async function mergeLibraryEntries(zip: JSZip, hashes: Set<string>): Promise<void> {
+  const backupLibrary = await readJsonFile<Book[]>(zip, `ereader/${LIBRARY_PATH}`)
+    ?? await readJsonFile<Book[]>(zip, `ereader/${LIBRARY_BACKUP_PATH}`)
+    ?? [];
+  const restored = backupLibrary.filter(book => hashes.has(book.hash));
+  if (restored.length === 0) return;
+
+  const db = await openEreaderDB();
+  const record = await getRecord<{ content: unknown }>(db, 'files', LIBRARY_PATH);
+  let library: Book[] = [];
+  try {
+    if (typeof record?.content === 'string') library = JSON.parse(record.content);
+  } catch {
+    // Unreadable index: rebuilt from the restored books
+  }
+
+  const content = JSON.stringify(mergeByKey(library, restored, book => book.hash), null, 2);
+  await putRecord(db, 'files', { path: LIBRARY_PATH, content });
+  await putRecord(db, 'files', { path: LIBRARY_BACKUP_PATH, content });
+}
+
+// Merge the selected projects into the current project registry
+async function mergeProjectRegistry(zip: JSZip, ids: Set<string>): Promise<void> {
+  const backupRegistry = await readJsonFile<ProjectRegistry>(zip, `authors/settings/${PROJECTS_RECORD}`);
+  const restored = (backupRegistry?.projects ?? []).filter(project => ids.has(project.id));
+  if (restored.length === 0) return;
+
+  const db = await openAuthorsDB();
+  const record = await getRecord<{ value: ProjectRegistry }>(db, 'settings', PROJECTS_RECORD);
+  const current = record?.value;
+  const registry: ProjectRegistry = {
+    activeProjectId: current?.activeProjectId || restored[0]!.id,
+    projects: mergeByKey(current?.projects ?? [], restored, project => project.id),
+  };
+  await putRecord(db, 'settings', { key: PROJECTS_RECORD, value: registry });
+}
+
+/**
+ * Restores only the selected items, merged into the current data:
+ * nothing outside the selection is cleared or overwritten
+ */
+export async function performSelectiveImport(
+  zip: JSZip,
+  selection: RestoreSelection,
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const manifest = await readManifest(zip);
+    const secrets = selection.settings && !backupHasSecrets(manifest) ? await readCurrentSecrets() : null;
+
+    const bookHashes = new Set(selection.books);
+    const noteHashes = new Set(selection.notes);
+    const projectIds = new Set(selection.projects);
+
+    // Books and notes live under Books/{hash}/; the rest of the E-Reader
+    // files (settings, fonts, images) belong to the settings group
+    const booksPrefix = `${LOCAL_BOOKS_SUBDIR}/`;
+    await importEreaderData(zip, (path) => {
+      if (!path.startsWith(booksPrefix)) return selection.settings;
+      const [hash, ...rest] = path.slice(booksPrefix.length).split('/');
+      if (!hash || rest.length === 0) return false;  // library index: merged below
+      return bookHashes.has(hash) || (noteHashes.has(hash) && rest.join('/') === 'config.json');
+    });
+    await mergeLibraryEntries(zip, bookHashes);
+
+    // Replace the selected manuscripts entirely, so deleted sections don't linger
+    if (projectIds.size > 0) {
+      const db = await openAuthorsDB();
+      for (const id of projectIds) {
+        if (id !== LEGACY_WORKING_COPY_ID) await deleteRecordsWithPrefix(db, 'manuscript', `${id}/`);
+      }
+    }
+    await importAuthorsData(zip, (storeName, key) => {
+      if (storeName === 'manuscript') {
+        // A legacy working copy is the backup's whole manuscript store
+        return projectIds.has(LEGACY_WORKING_COPY_ID) || projectIds.has(key.split('/')[0] ?? '');
+      }
+      if (storeName === 'settings' && key === PROJECTS_RECORD) return false;  // merged below
+      return selection.settings;
+    });
+    await mergeProjectRegistry(zip, projectIds);
+    await invalidateProjectRegistry();
+
+    if (selection.settings) {
+      await importLocalStorage(zip);
+      await importEreaderManuscript(zip);
+    }
+    if (secrets) await restoreCurrentSecrets(secrets);
+
+    return { success: true };
+  } catch (err) {
+    console.error('Selective import failed:', err);
+    return { success: false, error: 'Import failed. The backup file may be corrupted.' };
+  }
+}
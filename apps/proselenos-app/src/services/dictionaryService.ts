@@ -0,0 +1,256 @@
+// src/services/dictionaryService.ts
+
+// Offline dictionaries in StarDict and dictd formats:
+// - Imported files are grouped by name (e.g. wordnet.ifo, wordnet.idx and
+//   wordnet.dict.dz make one StarDict dictionary) and stored in the
+//   Dictionaries directory, one folder per dictionary
+// - Lookups go through foliate-js/dict.js; articles compressed with dictzip
+//   are inflated chunk by chunk, only when they are looked up
+// - Dictionaries are tried in the order the user set; the first one with an
+//   entry for the word (or for a synonym of it) wins
+
+import DOMPurify from 'dompurify';
+import { AppService } from '@/types/system';
+import {
+  DictionaryEntry,
+  DictionaryFiles,
+  DictionaryFormat,
+  DictionaryResult,
+  ImportedDictionary,
+} from '@/types/dictionary';
+import { uniqueId } from '@/utils/misc';
+
+type ArticleField = [type: string, data: Uint8Array];
+type Article = { word: string; data: ArticleField[] };
+
+interface LoadedDictionary {
+  lookup(word: string): Promise<Article[]>;
+  synonyms(word: string): Promise<Article[]>;
+  info?: Record<string, string>;
+}
+
+// Longest first, so "x.dict.dz" is not taken for a ".dz" file
+const FILE_SUFFIXES: Array<[suffix: string, kind: keyof DictionaryFiles]> = [
+  ['.dict.dz', 'dict'],
+  ['.dict', 'dict'],
+  ['.ifo', 'ifo'],
+  ['.idx', 'idx'],
+  ['.syn', 'syn'],
+  ['.index', 'index'],
+];
+
+// DOMPurify's default, plus bword: for StarDict cross-references
+const ALLOWED_URI_REGEXP = /^(?:(?:https?|mailto|bword):|[^a-z]|[a-z+.-]+(?:[^a-z+.\-:]|$))/i;
+
+const loaded = new Map<string, Promise<LoadedDictionary>>();
+
+const decoder = new TextDecoder();
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const plainTextToHTML = (text: string) =>
+  text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escapeHTML(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+
+// StarDict field types: https://github.com/huzheng001/stardict-3/blob/master/dict/doc/StarDictFileFormat
+const fieldToHTML = ([type, data]: ArticleField): string => {
+  switch (type) {
+    case 'h': // HTML
+    case 'g': // Pango markup
+    case 'x': // XDXF
+      return decoder.decode(data);
+    case 't': // English phonetic string
+    case 'y': // Chinese YinBiao or Japanese KANA
+      return `<p class="opacity-75">/${escapeHTML(decoder.decode(data))}/</p>`;
+    case 'm': // plain text
+    case 'l': // plain text in the dictionary's locale
+    case 'k': // KingSoft PowerWord XML, shown as text
+    case 'w': // MediaWiki markup, shown as text
+      return plainTextToHTML(decoder.decode(data));
+    default:
+      // Resource lists and binary fields (sounds, images) are not shown
+      return '';
+  }
+};
+
+const articleToEntry = ({ word, data }: Article): DictionaryEntry => ({
+  word,
+  html: DOMPurify.sanitize(data.map(fieldToHTML).join(''), { ALLOWED_URI_REGEXP }),
+});
+
+// dictzip chunks are deflate blocks ending in a sync flush, which a
+// streaming inflater can decode without the rest of the stream
+const getInflater = async () => {
+  const { Inflate } = await import('foliate-js/vendor/fflate.js');
+  return (data: Uint8Array) =>
+    new Promise<Uint8Array>((resolve) => {
+      const inflate = new Inflate();
+      inflate.ondata = (chunk: Uint8Array) => resolve(chunk);
+      inflate.push(data);
+    });
+};
+
+const openDictionary = async (
+  format: DictionaryFormat,
+  files: Partial<Record<keyof DictionaryFiles, File>>,
+): Promise<LoadedDictionary> => {
+  const { DictdDict, StarDict } = await import('foliate-js/dict.js');
+  const inflate = await getInflater();
+  if (!files.dict) throw new Error('Missing .dict or .dict.dz file');
+
+  if (format === 'dictd') {
+    if (!files.index) throw new Error('Missing .index file');
+    const dict = new DictdDict();
+    await dict.loadDict(files.dict, inflate);
+    await dict.loadIndex(files.index);
+    return {
+      lookup: (word) => dict.lookup(word) as Promise<Article[]>,
+      synonyms: async () => [],
+    };
+  }
+
+  if (!files.ifo || !files.idx) throw new Error('Missing .ifo or .idx file');
+  const dict = new StarDict();
+  await dict.loadIfo(files.ifo);
+  await dict.loadDict(files.dict, inflate);
+  await dict.loadIdx(files.idx);
+  await dict.loadSyn(files.syn);
+  return {
+    lookup: (word) => dict.lookup(word) as Promise<Article[]>,
+    synonyms: (word) => dict.synonyms(word) as Promise<Article[]>,
+    info: dict.ifo as Record<string, string>,
+  };
+};
+
+const getKind = (filename: string) => {
+  const lower = filename.toLowerCase();
+  const match = FILE_SUFFIXES.find(([suffix]) => lower.endsWith(suffix));
+  return match ? { base: filename.slice(0, -match[0].length), kind: match[1] } : null;
+};
+
+/**
+ * Groups selected files into dictionaries by their shared base name.
+ * @throws Error naming the file that is not part of a StarDict or dictd dictionary
+ */
+const groupDictionaryFiles = (files: File[]) => {
+  const groups = new Map<string, Partial<Record<keyof DictionaryFiles, File>>>();
+  for (const file of files) {
+    const kind = getKind(file.name);
+    if (!kind) {
+      throw new Error(
+        file.name.toLowerCase().endsWith('.gz')
+          ? `${file.name} is compressed with gzip; unpack it first`
+          : `${file.name} is not a StarDict or dictd file`,
+      );
+    }
+    const group = groups.get(kind.base) ?? {};
+    group[kind.kind] = file;
+    groups.set(kind.base, group);
+  }
+  return groups;
+};
+
+/**
+ * Imports StarDict (.ifo, .idx, .dict[.dz], optional .syn) and dictd
+ * (.index, .dict[.dz]) dictionaries. Each dictionary is opened once to
+ * check its files before they are stored.
+ * @throws Error if a dictionary is incomplete or cannot be read
+ */
+export const importDictionaries = async (
+  appService: AppService,
+  files: File[],
+): Promise<ImportedDictionary[]> => {
+  // Check every dictionary before storing any, so a bad file imports nothing
+  const checked = [];
+  for (const [base, group] of groupDictionaryFiles(files)) {
+    const format: DictionaryFormat = group.ifo ? 'stardict' : 'dictd';
+    try {
+      const { info } = await openDictionary(format, group);
+      checked.push({ base, group, format, info });
+    } catch (error) {
+      throw new Error(`${base}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const imported: ImportedDictionary[] = [];
+  for (const { base, group, format, info } of checked) {
+    const id = uniqueId();
+    const stored = Object.fromEntries(
+      Object.entries(group).map(([kind, file]) => [kind, file.name]),
+    ) as unknown as DictionaryFiles;
+    for (const file of Object.values(group)) {
+      await appService.writeFile(`${id}/${file.name}`, 'Dictionaries', file);
+    }
+
+    const wordCount = Number(info?.['wordcount']);
+    imported.push({
+      id,
+      name: info?.['bookname']?.trim() || base,
+      format,
+      files: stored,
+      enabled: true,
+      ...(wordCount ? { wordCount } : {}),
+      addedAt: Date.now(),
+    });
+  }
+  return imported;
+};
+
+export const deleteDictionary = async (appService: AppService, dictionary: ImportedDictionary) => {
+  loaded.delete(dictionary.id);
+  for (const filename of Object.values(dictionary.files)) {
+    if (filename) await appService.deleteFile(`${dictionary.id}/${filename}`, 'Dictionaries');
+  }
+};
+
+const loadDictionary = (appService: AppService, dictionary: ImportedDictionary) => {
+  let promise = loaded.get(dictionary.id);
+  if (!promise) {
+    promise = (async () => {
+      const files: Partial<Record<keyof DictionaryFiles, File>> = {};
+      for (const [kind, filename] of Object.entries(dictionary.files)) {
+        if (!filename) continue;
+        files[kind as keyof DictionaryFiles] = await appService.openFile(
+          `${dictionary.id}/${filename}`,
+          'Dictionaries',
+        );
+      }
+      return openDictionary(dictionary.format, files);
+    })();
+    // A failed load is retried on the next lookup
+    promise.catch(() => loaded.delete(dictionary.id));
+    loaded.set(dictionary.id, promise);
+  }
+  return promise;
+};
+
+/**
+ * Looks a word up in the enabled dictionaries, in order, and returns the
+ * articles from the first dictionary that has the word or a synonym of it.
+ * Dictionaries that fail to load are skipped.
+ */
+export const lookupWord = async (
+  appService: AppService,
+  dictionaries: ImportedDictionary[],
+  word: string,
+): Promise<DictionaryResult | null> => {
+  const query = word.trim().replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+  if (!query) return null;
+
+  for (const dictionary of dictionaries.filter((d) => d.enabled)) {
+    try {
+      const dict = await loadDictionary(appService, dictionary);
+      let articles = await dict.lookup(query);
+      if (articles.length === 0) articles = await dict.synonyms(query);
+      const entries = articles.map(articleToEntry).filter((entry) => entry.html.trim());
+      if (entries.length > 0) return { dictionary, entries };
+    } catch (error) {
+      console.error(`Failed to look up "${query}" in ${dictionary.name}:`, error);
+    }
+  }
+  return null;
+};
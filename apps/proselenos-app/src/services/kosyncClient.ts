@@ -0,0 +1,186 @@
+// src/services/kosyncClient.ts
+
+// Client for the KOReader sync protocol (kosync):
+// - POST /users/create        register { username, password: md5(password) }
+// - GET  /users/auth          check credentials (x-auth-user / x-auth-key headers)
+// - GET  /syncs/progress/:doc fetch the last pushed position of a document
+// - PUT  /syncs/progress      push { document, progress, percentage, device, device_id }
+//
+// Documents are identified by an MD5 digest, either of the file content
+// (KOReader's partial MD5 - the same value as Book.hash) or of the filename.
+//
+// KOSync servers do not send CORS headers, so requests go through the
+// /api/kosync route. LAN servers are called directly: a deployed proxy
+// cannot reach them.
+
+import { Book } from '@/types/book';
+import { KoSyncProgress, KoSyncProxyPayload } from '@/types/kosync';
+import { KOSyncSettings } from '@/types/settings';
+import { md5 } from '@/utils/md5';
+import { isLanAddress } from '@/utils/network';
+
+export const KOSYNC_PROXY_ENDPOINT = '/api/kosync';
+
+const KOSYNC_ACCEPT = 'application/vnd.koreader.v1+json';
+
+// Error codes returned by kosync servers in { code, message } bodies
+const KOSYNC_ERROR_USER_EXISTS = 2002;
+
+export interface KOSyncResponse<T = unknown> {
+  ok: boolean;
+  status: number;
+  data: T | null;
+}
+
+export interface KOSyncConnectResult {
+  success: boolean;
+  message: string;
+  userkey?: string;
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT';
+  body?: unknown;
+  auth?: { username: string; userkey: string };
+}
+
+export const getKOSyncUserkey = (password: string) => md5(password);
+
+export const getKOSyncDocumentDigest = (
+  book: Book,
+  checksumMethod: KOSyncSettings['checksumMethod'],
+) => {
+  if (checksumMethod === 'filename') {
+    const filename = book.sourceTitle || book.title;
+    return md5(`${filename}.${book.format.toLowerCase()}`);
+  }
+  return book.hash;
+};
+
+export class KOSyncClient {
+  private settings: KOSyncSettings;
+
+  constructor(settings: KOSyncSettings) {
+    this.settings = settings;
+  }
+
+  private get serverUrl() {
+    return this.settings.serverUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<KOSyncResponse<T>> {
+    const method = options.method ?? 'GET';
+    const headers: Record<string, string> = { Accept: KOSYNC_ACCEPT };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    const auth = options.auth ?? { username: this.settings.username, userkey: this.settings.userkey };
+    if (auth.username && auth.userkey) {
+      headers['X-Auth-User'] = auth.username;
+      headers['X-Auth-Key'] = auth.userkey;
+    }
+
+    let response: Response;
+    if (isLanAddress(this.serverUrl)) {
+      response = await fetch(`${this.serverUrl}${endpoint}`, {
+        method,
+        headers,
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      });
+    } else {
+      const payload: KoSyncProxyPayload = {
+        serverUrl: this.serverUrl,
+        endpoint,
+        method,
+        headers,
+        body: options.body,
+      };
+      response = await fetch(KOSYNC_PROXY_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+    }
+
+    const text = await response.text();
+    let data: T | null = null;
+    if (text) {
+      try {
+        data = JSON.parse(text) as T;
+      } catch {
+        data = null;
+      }
+    }
+    return { ok: response.ok, status: response.status, data };
+  }
+
+  /**
+   * Log in, registering the account first if the server does not know it.
+   * Returns the userkey to store in settings on success.
+   */
+  async connect(username: string, password: string): Promise<KOSyncConnectResult> {
+    const userkey = getKOSyncUserkey(password);
+    try {
+      const auth = await this.request('/users/auth', { auth: { username, userkey } });
+      if (auth.ok) {
+        return { success: true, message: 'Logged in', userkey };
+      }
+      if (auth.status !== 401) {
+        return { success: false, message: `Sync server error (${auth.status})` };
+      }
+
+      const register = await this.request<{ code?: number; message?: string }>('/users/create', {
+        method: 'POST',
+        body: { username, password: userkey },
+        auth: { username: '', userkey: '' },
+      });
+      if (register.ok) {
+        return { success: true, message: 'Account registered', userkey };
+      }
+      if (register.data?.code === KOSYNC_ERROR_USER_EXISTS || register.status === 402) {
+        return { success: false, message: 'Invalid username or password' };
+      }
+      return { success: false, message: register.data?.message || `Registration failed (${register.status})` };
+    } catch (error) {
+      console.error('KOSync connect failed:', error);
+      return { success: false, message: 'Could not reach the sync server' };
+    }
+  }
+
+  async getProgress(book: Book): Promise<KoSyncProgress | null> {
+    if (!this.settings.username || !this.settings.userkey) return null;
+    const digest = getKOSyncDocumentDigest(book, this.settings.checksumMethod);
+    try {
+      const response = await this.request<Partial<KoSyncProgress>>(
+        `/syncs/progress/${encodeURIComponent(digest)}`,
+      );
+      // Servers answer {} for documents that were never pushed
+      if (!response.ok || !response.data?.progress) return null;
+      return response.data as KoSyncProgress;
+    } catch (error) {
+      console.error('KOSync getProgress failed:', error);
+      return null;
+    }
+  }
+
+  async updateProgress(book: Book, progress: string, percentage: number): Promise<boolean> {
+    if (!this.settings.username || !this.settings.userkey) return false;
+    const digest = getKOSyncDocumentDigest(book, this.settings.checksumMethod);
+    try {
+      const response = await this.request('/syncs/progress', {
+        method: 'PUT',
+        body: {
+          document: digest,
+          progress,
+          percentage: Math.round(percentage * 10000) / 10000,
+          device: this.settings.deviceName || 'EverythingEbooks',
+          device_id: this.settings.deviceId,
+        },
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('KOSync updateProgress failed:', error);
+      return false;
+    }
+  }
+}
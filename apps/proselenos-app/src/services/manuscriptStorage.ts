@@ -6,10 +6,26 @@
 // - Single source of truth: XHTML files
 // - meta.json contains section order + metadata
 // - section-XXX.xhtml contains raw XHTML body content
+// - discussions/section-XXX.json holds the comment threads anchored in that section
+// - stats.json holds daily words written and the writing goal
+// - search_index.json holds the passage index used to ground Chat in the manuscript
 // - Conversions happen only at editor boundaries
+// - Each project (book) keeps its files under `{projectId}/` in the manuscript store
 
+import { v4 as uuidv4 } from 'uuid';
 import { ElementType } from '@/app/authors/elementTypes';
 import { plateToXhtml, xhtmlToPlainText } from '@/lib/plateXhtml';
+import { getLocalDateKey } from '@/lib/manuscriptStats';
+import {
+  ManuscriptSearchIndex,
+  SEARCH_INDEX_VERSION,
+  SearchHit,
+  buildSectionEntry,
+  searchIndex,
+  textSignature,
+} from '@/lib/manuscriptSearch';
+import type { AIProviderConfig } from '@/lib/constants/aiApi';
+import type { TDiscussion } from '@/components/plate-editor/plugins/discussion-kit';
 
 export interface ManuscriptSettings {
   title: string;
@@ -102,6 +118,327 @@ async function setValue<T>(storeName: string, key: string, value: T): Promise<vo
   });
 }
 
+// ============================================
+// Projects (projects.json in settings store)
+// Each project owns its manuscript/ store keys under a `{projectId}/` prefix,
+// so several books can be worked on without one wiping the other.
+// ============================================
+
+export interface ProjectInfo {
+  id: string;
+  name: string;
+  customName?: boolean;  // true once renamed by the user (stops following the book title)
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ProjectRegistry {
+  activeProjectId: string;
+  projects: ProjectInfo[];
+}
+
+const PROJECTS_KEY = 'projects.json';
+
+// Cached registry - every manuscript key lookup needs the active project id
+let registryPromise: Promise<ProjectRegistry> | null = null;
+
+function newProjectId(): string {
+  return `project-${uuidv4()}`;
+}
+
+async function loadRecords(storeName: string, range: IDBKeyRange): Promise<Array<{ key: string; value: unknown }>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const req = store.getAll(range);
+    req.onsuccess = () => resolve(req.result || []);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function loadRecordsByKey(storeName: string, keys: string[]): Promise<Array<{ key: string; value: unknown }>> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const records: Array<{ key: string; value: unknown }> = [];
+    for (const key of keys) {
+      const req = store.get(key);
+      req.onsuccess = () => {
+        if (req.result) records.push(req.result);
+      };
+    }
+    tx.oncomplete = () => resolve(records);
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+async function loadKeys(storeName: string, query?: IDBKeyRange): Promise<string[]> {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, 'readonly');
+    const store = tx.objectStore(storeName);
+    const req = store.getAllKeys(query);
+    req.onsuccess = () => resolve(req.result as string[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Every key starting with prefix ('\uffff' sorts after any character a key uses)
+const prefixRange = (prefix: string) => IDBKeyRange.bound(prefix, `${prefix}\uffff`);
+
+// Keys of the pre-projects working copy have no `{projectId}/` prefix
+const isProjectKey = (key: string) => /^project-[^/]+\//.test(key);
+
+/**
+ * Move the pre-projects single working copy (unprefixed manuscript/ keys)
+ * into a new project, added to the registry when there is one. Runs the first
+ * time the registry is needed, and after a backup restore, which may bring
+ * back a working copy saved before projects existed.
+ */
+async function migrateLegacyWorkingCopy(registry: ProjectRegistry | null): Promise<ProjectRegistry> {
+  const legacyKeys = (await loadKeys(STORES.MANUSCRIPT)).filter(key => !isProjectKey(key));
+  const records = await loadRecordsByKey(STORES.MANUSCRIPT, legacyKeys);
+  if (registry && records.length === 0) return registry;
+  const id = newProjectId();
+
+  const legacyMeta = records.find(r => r.key === 'meta.json')?.value as ManuscriptMeta | undefined;
+  const legacyOldMeta = records.find(r => r.key === 'working_copy_meta.json')?.value as WorkingCopyMeta | undefined;
+  const name = legacyMeta?.title || legacyOldMeta?.title || 'Untitled';
+
+  if (records.length > 0) {
+    const db = await openDB();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORES.MANUSCRIPT, 'readwrite');
+      const store = tx.objectStore(STORES.MANUSCRIPT);
+      for (const record of records) {
+        store.put({ key: `${id}/${record.key}`, value: record.value });
+        store.delete(record.key);
+      }
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  }
+
+  const now = Date.now();
+  const project: ProjectInfo = { id, name, createdAt: now, updatedAt: now };
+  const migrated: ProjectRegistry = registry
+    ? { ...registry, projects: [...registry.projects, project] }
+    : { activeProjectId: id, projects: [project] };
+  await setValue(STORES.SETTINGS, PROJECTS_KEY, migrated);
+  return migrated;
+}
+
+async function readProjectRegistry(): Promise<ProjectRegistry | null> {
+  const existing = await getValue<ProjectRegistry>(STORES.SETTINGS, PROJECTS_KEY);
+  if (!existing || existing.projects.length === 0) return null;
+  // Repair a dangling active id (e.g. after a partial restore)
+  if (!existing.projects.some(p => p.id === existing.activeProjectId)) {
+    existing.activeProjectId = existing.projects[0]!.id;
+  }
+  return existing;
+}
+
+async function initProjectRegistry(): Promise<ProjectRegistry> {
+  return (await readProjectRegistry()) ?? migrateLegacyWorkingCopy(null);
+}
+
+export async function loadProjectRegistry(): Promise<ProjectRegistry> {
+  if (!registryPromise) {
+    registryPromise = initProjectRegistry().catch((error) => {
+      registryPromise = null;
+      throw error;
+    });
+  }
+  return registryPromise;
+}
+
+/**
+ * Drops the cached registry, for when projects.json and the manuscript/ store
+ * were replaced underneath this module (a backup restore). The registry is
+ * read again, and a restored pre-projects working copy becomes a project.
+ */
+export async function invalidateProjectRegistry(): Promise<ProjectRegistry> {
+  registryPromise = readProjectRegistry()
+    .then(migrateLegacyWorkingCopy)
+    .catch((error) => {
+      registryPromise = null;
+      throw error;
+    });
+  return registryPromise;
+}
+
+async function saveProjectRegistry(registry: ProjectRegistry): Promise<void> {
+  registryPromise = Promise.resolve(registry);
+  await setValue(STORES.SETTINGS, PROJECTS_KEY, registry);
+}
+
+async function getActiveProjectId(): Promise<string> {
+  const registry = await loadProjectRegistry();
+  return registry.activeProjectId;
+}
+
+// Project-scoped access to the manuscript/ store
+async function getProjectValue<T>(key: string): Promise<T | null> {
+  try {
+    const projectId = await getActiveProjectId();
+    return getValue<T>(STORES.MANUSCRIPT, `${projectId}/${key}`);
+  } catch {
+    return null;
+  }
+}
+
+async function setProjectValue<T>(key: string, value: T): Promise<void> {
+  const projectId = await getActiveProjectId();
+  await setValue(STORES.MANUSCRIPT, `${projectId}/${key}`, value);
+}
+
+async function deleteProjectValue(key: string): Promise<void> {
+  const projectId = await getActiveProjectId();
+  await deleteValue(STORES.MANUSCRIPT, `${projectId}/${key}`);
+}
+
+/**
+ * Records of a project whose keys start with keyPrefix (all of them by
+ * default), with keys relative to the project (e.g. 'meta.json',
+ * 'images/map.png'). Defaults to the active project.
+ */
+async function getProjectEntries(keyPrefix = '', projectId?: string): Promise<Array<{ key: string; value: unknown }>> {
+  const id = projectId ?? await getActiveProjectId();
+  const prefix = `${id}/`;
+  const records = await loadRecords(STORES.MANUSCRIPT, prefixRange(prefix + keyPrefix));
+  return records.map(r => ({ key: r.key.slice(prefix.length), value: r.value }));
+}
+
+// Keys only, relative to the project, for when the values aren't needed
+async function getProjectKeys(keyPrefix = '', projectId?: string): Promise<string[]> {
+  const id = projectId ?? await getActiveProjectId();
+  const prefix = `${id}/`;
+  const keys = await loadKeys(STORES.MANUSCRIPT, prefixRange(prefix + keyPrefix));
+  return keys.map(key => key.slice(prefix.length));
+}
+
+export async function listProjects(): Promise<ProjectInfo[]> {
+  const registry = await loadProjectRegistry();
+  return [...registry.projects];
+}
+
+export async function getActiveProject(): Promise<ProjectInfo> {
+  const registry = await loadProjectRegistry();
+  return registry.projects.find(p => p.id === registry.activeProjectId)!;
+}
+
+/**
+ * Create an empty project and make it active.
+ * The caller fills it (saveFullWorkingCopy) or lets AuthorsLayout create a blank book.
+ */
+export async function createProject(name: string): Promise<ProjectInfo> {
+  const registry = await loadProjectRegistry();
+  const now = Date.now();
+  const project: ProjectInfo = { id: newProjectId(), name: name || 'Untitled', createdAt: now, updatedAt: now };
+  await saveProjectRegistry({
+    activeProjectId: project.id,
+    projects: [...registry.projects, project],
+  });
+  return project;
+}
+
+export async function switchProject(projectId: string): Promise<void> {
+  const registry = await loadProjectRegistry();
+  if (!registry.projects.some(p => p.id === projectId)) {
+    throw new Error('Project not found');
+  }
+  await saveProjectRegistry({ ...registry, activeProjectId: projectId });
+}
+
+export async function renameProject(projectId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) throw new Error('Project name cannot be empty');
+  const registry = await loadProjectRegistry();
+  await saveProjectRegistry({
+    ...registry,
+    projects: registry.projects.map(p =>
+      p.id === projectId ? { ...p, name: trimmed, customName: true, updatedAt: Date.now() } : p
+    ),
+  });
+}
+
+/**
+ * Copy every record of a project into a new project (does not switch to it).
+ */
+export async function duplicateProject(projectId: string, name?: string): Promise<ProjectInfo> {
+  const registry = await loadProjectRegistry();
+  const source = registry.projects.find(p => p.id === projectId);
+  if (!source) throw new Error('Project not found');
+
+  const entries = await getProjectEntries('', projectId);
+  const now = Date.now();
+  const copy: ProjectInfo = {
+    id: newProjectId(),
+    name: name?.trim() || `${source.name} (copy)`,
+    customName: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.MANUSCRIPT, 'readwrite');
+    const store = tx.objectStore(STORES.MANUSCRIPT);
+    for (const entry of entries) {
+      store.put({ key: `${copy.id}/${entry.key}`, value: entry.value });
+    }
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  await saveProjectRegistry({ ...registry, projects: [...registry.projects, copy] });
+  return copy;
+}
+
+/**
+ * Delete a project and all of its data. If it was active, the most recently
+ * updated remaining project becomes active; deleting the last project leaves
+ * a fresh empty one behind.
+ */
+export async function deleteProject(projectId: string): Promise<void> {
+  const registry = await loadProjectRegistry();
+
+  const db = await openDB();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORES.MANUSCRIPT, 'readwrite');
+    const store = tx.objectStore(STORES.MANUSCRIPT);
+    store.delete(prefixRange(`${projectId}/`));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+
+  let projects = registry.projects.filter(p => p.id !== projectId);
+  if (projects.length === 0) {
+    const now = Date.now();
+    projects = [{ id: newProjectId(), name: 'Untitled', createdAt: now, updatedAt: now }];
+  }
+  let activeProjectId = registry.activeProjectId;
+  if (!projects.some(p => p.id === activeProjectId)) {
+    activeProjectId = [...projects].sort((a, b) => b.updatedAt - a.updatedAt)[0]!.id;
+  }
+  await saveProjectRegistry({ activeProjectId, projects });
+}
+
+// Keep the active project's name and timestamp in step with its book
+async function touchActiveProject(title?: string): Promise<void> {
+  const registry = await loadProjectRegistry();
+  await saveProjectRegistry({
+    ...registry,
+    projects: registry.projects.map(p => {
+      if (p.id !== registry.activeProjectId) return p;
+      const name = !p.customName && title ? title : p.name;
+      return { ...p, name, updatedAt: Date.now() };
+    }),
+  });
+}
+
 // ============================================
 // settings/ store
 // ============================================
@@ -125,13 +462,7 @@ export async function saveApiKey(apiKey: string): Promise<void> {
 }
 
 // AI Provider config (ai_provider.json)
-export interface AIProviderConfig {
-  providerName: string;
-  base: string;
-  authKey: string;
-  models: string;
-  completions: string;
-}
+export type { AIProviderConfig };
 
 export async function loadAIProviderConfig(): Promise<AIProviderConfig | null> {
   return getValue<AIProviderConfig>(STORES.SETTINGS, 'ai_provider.json');
@@ -147,29 +478,29 @@ export async function saveAIProviderConfig(config: AIProviderConfig): Promise<vo
 
 // Manuscript text (manuscript.txt)
 export async function loadManuscript(): Promise<string | null> {
-  return getValue<string>(STORES.MANUSCRIPT, 'manuscript.txt');
+  return getProjectValue<string>('manuscript.txt');
 }
 
 export async function saveManuscript(content: string): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, 'manuscript.txt', content);
+  await setProjectValue('manuscript.txt', content);
 }
 
 // Manuscript metadata (metadata.json) - title, author, etc.
 export async function loadSettings(): Promise<ManuscriptSettings | null> {
-  return getValue<ManuscriptSettings>(STORES.MANUSCRIPT, 'metadata.json');
+  return getProjectValue<ManuscriptSettings>('metadata.json');
 }
 
 export async function saveSettings(settings: ManuscriptSettings): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, 'metadata.json', settings);
+  await setProjectValue('metadata.json', settings);
 }
 
 // Cover settings (cover_settings.json) - colors and optional background image
 export async function loadCoverSettings(): Promise<CoverSettings | null> {
-  return getValue<CoverSettings>(STORES.MANUSCRIPT, 'cover_settings.json');
+  return getProjectValue<CoverSettings>('cover_settings.json');
 }
 
 export async function saveCoverSettings(settings: CoverSettings): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, 'cover_settings.json', settings);
+  await setProjectValue('cover_settings.json', settings);
 }
 
 // ============================================
@@ -340,18 +671,21 @@ function isFrontBackMatter(title: string): boolean {
   return EXCLUDED_SECTIONS.some(exc => lower === exc || lower.startsWith(exc + ':'));
 }
 
+export interface ManuscriptChapter {
+  title: string;
+  text: string;
+}
+
 /**
- * Assemble chapters from working copy into manuscript text.
+ * Load chapters from working copy as plain text, in manuscript order.
  * Excludes front/back matter (Title Page, Copyright, etc.).
- * Format: 2 blank lines before EVERY chapter (including first), 1 blank line between paragraphs.
- * NOW extracts plain text from XHTML.
  */
-export async function assembleManuscriptFromWorkingCopy(): Promise<string> {
+export async function loadManuscriptChapters(): Promise<ManuscriptChapter[]> {
+  const chapters: ManuscriptChapter[] = [];
+
   // Try new meta.json format first
   const newMeta = await loadManuscriptMeta();
   if (newMeta) {
-    const parts: string[] = [];
-
     for (const sectionMeta of newMeta.sections) {
       // Skip front/back matter
       if (isFrontBackMatter(sectionMeta.title)) continue;
@@ -360,20 +694,15 @@ export async function assembleManuscriptFromWorkingCopy(): Promise<string> {
       if (!xhtml) continue;
 
       // Convert XHTML to plain text
-      const plainText = xhtmlToPlainText(xhtml);
-
-      // Add chapter with 2 blank lines before it
-      parts.push(`\n\n${sectionMeta.title}\n\n${plainText}`);
+      chapters.push({ title: sectionMeta.title, text: xhtmlToPlainText(xhtml) });
     }
 
-    return parts.join('');
+    return chapters;
   }
 
   // Fall back to old format
   const oldMeta = await loadWorkingCopyMeta();
-  if (!oldMeta) return '';
-
-  const parts: string[] = [];
+  if (!oldMeta) return chapters;
 
   for (const id of oldMeta.sectionIds) {
     const section = await loadSection(id);
@@ -383,13 +712,19 @@ export async function assembleManuscriptFromWorkingCopy(): Promise<string> {
     if (isFrontBackMatter(section.title)) continue;
 
     // XHTML is now the source of truth - convert to plain text
-    const plainText = xhtmlToPlainText(section.xhtml);
-
-    // Add chapter with 2 blank lines before it
-    parts.push(`\n\n${section.title}\n\n${plainText}`);
+    chapters.push({ title: section.title, text: xhtmlToPlainText(section.xhtml) });
   }
 
-  return parts.join('');
+  return chapters;
+}
+
+/**
+ * Assemble chapters from working copy into manuscript text.
+ * Format: 2 blank lines before EVERY chapter (including first), 1 blank line between paragraphs.
+ */
+export async function assembleManuscriptFromWorkingCopy(): Promise<string> {
+  const chapters = await loadManuscriptChapters();
+  return chapters.map(chapter => `\n\n${chapter.title}\n\n${chapter.text}`).join('');
 }
 
 // ============================================
@@ -833,7 +1168,7 @@ async function deleteValue(storeName: string, key: string): Promise<void> {
 }
 
 export async function deleteManuscript(): Promise<void> {
-  await deleteValue(STORES.MANUSCRIPT, 'manuscript.txt');
+  await deleteProjectValue('manuscript.txt');
 }
 
 export async function deleteReport(): Promise<void> {
@@ -1045,11 +1380,11 @@ export interface SectionMeta {
 
 // Meta functions
 export async function loadWorkingCopyMeta(): Promise<WorkingCopyMeta | null> {
-  return getValue<WorkingCopyMeta>(STORES.MANUSCRIPT, 'working_copy_meta.json');
+  return getProjectValue<WorkingCopyMeta>('working_copy_meta.json');
 }
 
 export async function saveWorkingCopyMeta(meta: WorkingCopyMeta): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, 'working_copy_meta.json', meta);
+  await setProjectValue('working_copy_meta.json', meta);
 }
 
 /**
@@ -1080,35 +1415,61 @@ function inferSectionType(title: string): ElementType {
  * Save ManuscriptMeta (section order + book metadata)
  */
 export async function saveManuscriptMeta(meta: ManuscriptMeta): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, 'meta.json', meta);
+  await setProjectValue('meta.json', meta);
+  await touchActiveProject(meta.title);
 }
 
 /**
  * Load ManuscriptMeta
  */
 export async function loadManuscriptMeta(): Promise<ManuscriptMeta | null> {
-  return getValue<ManuscriptMeta>(STORES.MANUSCRIPT, 'meta.json');
+  return getProjectValue<ManuscriptMeta>('meta.json');
 }
 
 /**
  * Save section XHTML content
  */
 export async function saveSectionXhtml(id: string, xhtml: string): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, `${id}.xhtml`, xhtml);
+  await setProjectValue(`${id}.xhtml`, xhtml);
 }
 
 /**
  * Load section XHTML content
  */
 export async function loadSectionXhtml(id: string): Promise<string | null> {
-  return getValue<string>(STORES.MANUSCRIPT, `${id}.xhtml`);
+  return getProjectValue<string>(`${id}.xhtml`);
 }
 
 /**
  * Delete section XHTML content
  */
 export async function deleteSectionXhtml(id: string): Promise<void> {
-  await deleteValue(STORES.MANUSCRIPT, `${id}.xhtml`);
+  await deleteProjectValue(`${id}.xhtml`);
+}
+
+/**
+ * Load the comment threads for a section.
+ * Dates come back as strings after a backup round-trip, so they are revived here.
+ */
+export async function loadSectionDiscussions(id: string): Promise<TDiscussion[]> {
+  const discussions = await getProjectValue<TDiscussion[]>(`discussions/${id}.json`);
+  if (!Array.isArray(discussions)) return [];
+  return discussions.map(d => ({
+    ...d,
+    createdAt: new Date(d.createdAt),
+    comments: d.comments.map(c => ({ ...c, createdAt: new Date(c.createdAt) })),
+  }));
+}
+
+/**
+ * Save the comment threads for a section (an empty list removes the record)
+ */
+export async function saveSectionDiscussions(id: string, discussions: TDiscussion[]): Promise<void> {
+  if (discussions.length === 0) {
+    await deleteProjectValue(`discussions/${id}.json`);
+    return;
+  }
+  await setProjectValue(`discussions/${id}.json`, discussions);
 }
 
 /**
@@ -1144,7 +1505,7 @@ export async function loadSection(id: string): Promise<WorkingCopySection | null
   }
 
   // Fall back to old JSON format (migration path)
-  const legacySection = await getValue<LegacyWorkingCopySection>(STORES.MANUSCRIPT, `${id}.json`);
+  const legacySection = await getProjectValue<LegacyWorkingCopySection>(`${id}.json`);
   if (legacySection) {
     // Convert to new format
     let xhtmlContent: string;
@@ -1184,9 +1545,31 @@ function escapeHtmlForStorage(text: string): string {
 
 // Save section - saves to XHTML format and updates meta
 export async function saveSection(section: WorkingCopySection): Promise<void> {
+  // Keep the previous text in history before it is overwritten (throttled; never throws)
+  await maybeCreateAutoSnapshot();
+
+  const previousXhtml = await loadSectionXhtml(section.id);
+
   // Save XHTML content
   await saveSectionXhtml(section.id, section.xhtml);
 
+  // Statistics and search must never block saving the manuscript
+  try {
+    // Track words written today from the change in this section's length
+    const wordDelta = countXhtmlWords(section.xhtml) - countXhtmlWords(previousXhtml ?? '');
+    if (wordDelta !== 0) {
+      await recordWordsWritten(wordDelta);
+    }
+  } catch (error) {
+    console.error('Recording words written failed:', error);
+  }
+  try {
+    await indexSection(section.id, section.title, section.xhtml);
+  } catch (error) {
+    // searchManuscript re-indexes sections whose text doesn't match the index
+    console.error('Indexing section failed:', error);
+  }
+
   // Update meta with section info
   let meta = await loadManuscriptMeta();
   if (meta) {
@@ -1209,11 +1592,18 @@ export async function saveSection(section: WorkingCopySection): Promise<void> {
 }
 
 export async function deleteSection(id: string): Promise<void> {
+  // Keep the section recoverable from history
+  await maybeCreateAutoSnapshot();
+
   // Delete XHTML file
   await deleteSectionXhtml(id);
 
   // Also delete legacy JSON if exists
-  await deleteValue(STORES.MANUSCRIPT, `${id}.json`);
+  await deleteProjectValue(`${id}.json`);
+
+  // Comment threads anchored in the section
+  await deleteProjectValue(`discussions/${id}.json`);
+  await unindexSection(id);
 
   // Update meta
   const meta = await loadManuscriptMeta();
@@ -1228,31 +1618,31 @@ export async function loadCoverImage(): Promise<Blob | null> {
   // Try new meta.json first
   const newMeta = await loadManuscriptMeta();
   if (newMeta?.coverImageId) {
-    return getValue<Blob>(STORES.MANUSCRIPT, newMeta.coverImageId);
+    return getProjectValue<Blob>(newMeta.coverImageId);
   }
 
   // Fall back to old format
   const oldMeta = await loadWorkingCopyMeta();
   if (!oldMeta?.coverImageId) return null;
-  return getValue<Blob>(STORES.MANUSCRIPT, oldMeta.coverImageId);
+  return getProjectValue<Blob>(oldMeta.coverImageId);
 }
 
 export async function saveCoverImage(blob: Blob, filename: string): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, filename, blob);
+  await setProjectValue(filename, blob);
 }
 
 export async function deleteCoverImage(): Promise<void> {
   // Try new meta.json first
   const newMeta = await loadManuscriptMeta();
   if (newMeta?.coverImageId) {
-    await deleteValue(STORES.MANUSCRIPT, newMeta.coverImageId);
+    await deleteProjectValue(newMeta.coverImageId);
     return;
   }
 
   // Fall back to old format
   const oldMeta = await loadWorkingCopyMeta();
   if (oldMeta?.coverImageId) {
-    await deleteValue(STORES.MANUSCRIPT, oldMeta.coverImageId);
+    await deleteProjectValue(oldMeta.coverImageId);
   }
 }
 
@@ -1265,21 +1655,21 @@ export async function deleteCoverImage(): Promise<void> {
  * Save an inline image to IndexedDB
  */
 export async function saveManuscriptImage(filename: string, blob: Blob): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, `images/${filename}`, blob);
+  await setProjectValue(`images/${filename}`, blob);
 }
 
 /**
  * Get an inline image from IndexedDB
  */
 export async function getManuscriptImage(filename: string): Promise<Blob | null> {
-  return getValue<Blob>(STORES.MANUSCRIPT, `images/${filename}`);
+  return getProjectValue<Blob>(`images/${filename}`);
 }
 
 /**
  * Delete an inline image from IndexedDB
  */
 export async function deleteManuscriptImage(filename: string): Promise<void> {
-  await deleteValue(STORES.MANUSCRIPT, `images/${filename}`);
+  await deleteProjectValue(`images/${filename}`);
 }
 
 /**
@@ -1288,30 +1678,16 @@ export async function deleteManuscriptImage(filename: string): Promise<void> {
  */
 export async function getAllManuscriptImages(): Promise<Array<{filename: string, blob: Blob}>> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORES.MANUSCRIPT, 'readonly');
-      const store = tx.objectStore(STORES.MANUSCRIPT);
-      const req = store.getAll();
+    const entries = await getProjectEntries('images/');
+    const images: Array<{filename: string, blob: Blob}> = [];
 
-      req.onsuccess = () => {
-        const results = req.result || [];
-        const images: Array<{filename: string, blob: Blob}> = [];
-
-        for (const item of results) {
-          // Check if this is an image (key starts with 'images/')
-          if (item.key && typeof item.key === 'string' && item.key.startsWith('images/')) {
-            const filename = item.key.replace('images/', '');
-            if (item.value instanceof Blob) {
-              images.push({ filename, blob: item.value });
-            }
-          }
-        }
+    for (const item of entries) {
+      if (item.value instanceof Blob) {
+        images.push({ filename: item.key.replace('images/', ''), blob: item.value });
+      }
+    }
 
-        resolve(images);
-      };
-      req.onerror = () => reject(req.error);
-    });
+    return images;
   } catch {
     return [];
   }
@@ -1355,20 +1731,8 @@ export async function loadManuscriptXrayEntries(): Promise<ManuscriptXrayEntry[]
  */
 export async function clearManuscriptImages(): Promise<void> {
   try {
-    const db = await openDB();
-    const keys = await new Promise<string[]>((resolve, reject) => {
-      const tx = db.transaction(STORES.MANUSCRIPT, 'readonly');
-      const store = tx.objectStore(STORES.MANUSCRIPT);
-      const req = store.getAllKeys();
-      req.onsuccess = () => resolve(req.result as string[]);
-      req.onerror = () => reject(req.error);
-    });
-
-    // Delete all keys that start with 'images/'
-    for (const key of keys) {
-      if (typeof key === 'string' && key.startsWith('images/')) {
-        await deleteValue(STORES.MANUSCRIPT, key);
-      }
+    for (const key of await getProjectKeys('images/')) {
+      await deleteProjectValue(key);
     }
   } catch {
     // Ignore errors during cleanup
@@ -1383,21 +1747,21 @@ export async function clearManuscriptImages(): Promise<void> {
  * Save an audio file to IndexedDB
  */
 export async function saveManuscriptAudio(filename: string, blob: Blob): Promise<void> {
-  await setValue(STORES.MANUSCRIPT, `audio/${filename}`, blob);
+  await setProjectValue(`audio/${filename}`, blob);
 }
 
 /**
  * Get an audio file from IndexedDB
  */
 export async function getManuscriptAudio(filename: string): Promise<Blob | null> {
-  return getValue<Blob>(STORES.MANUSCRIPT, `audio/${filename}`);
+  return getProjectValue<Blob>(`audio/${filename}`);
 }
 
 /**
  * Delete an audio file from IndexedDB
  */
 export async function deleteManuscriptAudio(filename: string): Promise<void> {
-  await deleteValue(STORES.MANUSCRIPT, `audio/${filename}`);
+  await deleteProjectValue(`audio/${filename}`);
 }
 
 /**
@@ -1406,29 +1770,16 @@ export async function deleteManuscriptAudio(filename: string): Promise<void> {
  */
 export async function getAllManuscriptAudios(): Promise<Array<{filename: string, blob: Blob}>> {
   try {
-    const db = await openDB();
-    return new Promise((resolve, reject) => {
-      const tx = db.transaction(STORES.MANUSCRIPT, 'readonly');
-      const store = tx.objectStore(STORES.MANUSCRIPT);
-      const req = store.getAll();
+    const entries = await getProjectEntries('audio/');
+    const audios: Array<{filename: string, blob: Blob}> = [];
 
-      req.onsuccess = () => {
-        const results = req.result || [];
-        const audios: Array<{filename: string, blob: Blob}> = [];
-
-        for (const item of results) {
-          if (item.key && typeof item.key === 'string' && item.key.startsWith('audio/')) {
-            const filename = item.key.replace('audio/', '');
-            if (item.value instanceof Blob) {
-              audios.push({ filename, blob: item.value });
-            }
-          }
-        }
+    for (const item of entries) {
+      if (item.value instanceof Blob) {
+        audios.push({ filename: item.key.replace('audio/', ''), blob: item.value });
+      }
+    }
 
-        resolve(audios);
-      };
-      req.onerror = () => reject(req.error);
-    });
+    return audios;
   } catch {
     return [];
   }
@@ -1440,19 +1791,8 @@ export async function getAllManuscriptAudios(): Promise<Array<{filename: string,
  */
 export async function clearManuscriptAudios(): Promise<void> {
   try {
-    const db = await openDB();
-    const keys = await new Promise<string[]>((resolve, reject) => {
-      const tx = db.transaction(STORES.MANUSCRIPT, 'readonly');
-      const store = tx.objectStore(STORES.MANUSCRIPT);
-      const req = store.getAllKeys();
-      req.onsuccess = () => resolve(req.result as string[]);
-      req.onerror = () => reject(req.error);
-    });
-
-    for (const key of keys) {
-      if (typeof key === 'string' && key.startsWith('audio/')) {
-        await deleteValue(STORES.MANUSCRIPT, key);
-      }
+    for (const key of await getProjectKeys('audio/')) {
+      await deleteProjectValue(key);
     }
   } catch {
     // Ignore errors during cleanup
@@ -1492,7 +1832,7 @@ export async function loadFullWorkingCopy(): Promise<FullWorkingCopy | null> {
     // Load cover image
     let coverImage: Blob | null = null;
     if (newMeta.coverImageId) {
-      coverImage = await getValue<Blob>(STORES.MANUSCRIPT, newMeta.coverImageId);
+      coverImage = await getProjectValue<Blob>(newMeta.coverImageId);
     }
 
     return {
@@ -1520,7 +1860,7 @@ export async function loadFullWorkingCopy(): Promise<FullWorkingCopy | null> {
   // Load cover image
   let coverImage: Blob | null = null;
   if (oldMeta.coverImageId) {
-    coverImage = await getValue<Blob>(STORES.MANUSCRIPT, oldMeta.coverImageId);
+    coverImage = await getProjectValue<Blob>(oldMeta.coverImageId);
   }
 
   return {
@@ -1638,16 +1978,17 @@ export async function clearWorkingCopy(): Promise<void> {
     for (const section of newMeta.sections) {
       await deleteSectionXhtml(section.id);
       // Also delete legacy JSON if exists
-      await deleteValue(STORES.MANUSCRIPT, `${section.id}.json`);
+      await deleteProjectValue(`${section.id}.json`);
+      await deleteProjectValue(`discussions/${section.id}.json`);
     }
 
     // Delete cover image
     if (newMeta.coverImageId) {
-      await deleteValue(STORES.MANUSCRIPT, newMeta.coverImageId);
+      await deleteProjectValue(newMeta.coverImageId);
     }
 
     // Delete meta.json
-    await deleteValue(STORES.MANUSCRIPT, 'meta.json');
+    await deleteProjectValue('meta.json');
   }
 
   // Also try old format for backward compatibility
@@ -1656,21 +1997,407 @@ export async function clearWorkingCopy(): Promise<void> {
     // Delete all sections
     for (const id of oldMeta.sectionIds) {
       await deleteSectionXhtml(id);
-      await deleteValue(STORES.MANUSCRIPT, `${id}.json`);
+      await deleteProjectValue(`${id}.json`);
     }
 
     // Delete cover image (if not already deleted)
     if (oldMeta.coverImageId) {
-      await deleteValue(STORES.MANUSCRIPT, oldMeta.coverImageId);
+      await deleteProjectValue(oldMeta.coverImageId);
     }
 
     // Delete old meta
-    await deleteValue(STORES.MANUSCRIPT, 'working_copy_meta.json');
+    await deleteProjectValue('working_copy_meta.json');
   }
 
+  await deleteProjectValue(SEARCH_INDEX_KEY);
+
   // Delete all inline images
   await clearManuscriptImages();
 
   // Delete all audio files
   await clearManuscriptAudios();
 }
+
+// ============================================
+// Writing Statistics
+// Storage key (per project): stats.json
+// ============================================
+
+export interface WritingGoals {
+  targetWords: number | null;
+  deadline: string | null;  // YYYY-MM-DD
+}
+
+export interface ManuscriptStats {
+  // Net words written per local day (YYYY-MM-DD); negative when a day was spent cutting
+  dailyWords: Record<string, number>;
+  goals: WritingGoals;
+}
+
+const STATS_KEY = 'stats.json';
+
+export function countXhtmlWords(xhtml: string): number {
+  const text = xhtmlToPlainText(xhtml).trim();
+  return text ? text.split(/\s+/).length : 0;
+}
+
+export async function loadManuscriptStats(): Promise<ManuscriptStats> {
+  const stats = await getProjectValue<ManuscriptStats>(STATS_KEY);
+  return {
+    dailyWords: stats?.dailyWords ?? {},
+    goals: { targetWords: null, deadline: null, ...stats?.goals },
+  };
+}
+
+export async function saveWritingGoals(goals: WritingGoals): Promise<void> {
+  const stats = await loadManuscriptStats();
+  await setProjectValue(STATS_KEY, { ...stats, goals });
+}
+
+async function recordWordsWritten(delta: number): Promise<void> {
+  const stats = await loadManuscriptStats();
+  const today = getLocalDateKey();
+  stats.dailyWords[today] = (stats.dailyWords[today] ?? 0) + delta;
+  await setProjectValue(STATS_KEY, stats);
+}
+
+// ============================================
+// Search Index (grounds Chat in the manuscript)
+// Storage key (per project): search_index.json
+// ============================================
+
+const SEARCH_INDEX_KEY = 'search_index.json';
+
+async function loadSearchIndex(): Promise<ManuscriptSearchIndex> {
+  const index = await getProjectValue<ManuscriptSearchIndex>(SEARCH_INDEX_KEY);
+  if (!index || index.version !== SEARCH_INDEX_VERSION) {
+    return { version: SEARCH_INDEX_VERSION, sections: {} };
+  }
+  return index;
+}
+
+async function indexSection(id: string, title: string, xhtml: string): Promise<void> {
+  const index = await loadSearchIndex();
+  index.sections[id] = buildSectionEntry(id, title, xhtmlToPlainText(xhtml), textSignature(xhtml));
+  await setProjectValue(SEARCH_INDEX_KEY, index);
+}
+
+async function unindexSection(id: string): Promise<void> {
+  const index = await loadSearchIndex();
+  if (!index.sections[id]) return;
+  delete index.sections[id];
+  await setProjectValue(SEARCH_INDEX_KEY, index);
+}
+
+/**
+ * Find the passages most relevant to a question, best first.
+ * Sections changed outside saveSection (imports, restores) or never indexed
+ * are re-indexed here first, so results always match the working copy.
+ */
+export async function searchManuscript(query: string, limit = 8): Promise<SearchHit[]> {
+  const sections = (await loadFullWorkingCopy())?.sections.filter(s => s.type !== 'cover') ?? [];
+  const index = await loadSearchIndex();
+
+  let changed = false;
+  for (const section of sections) {
+    const signature = textSignature(section.xhtml);
+    const entry = index.sections[section.id];
+    if (entry?.signature === signature && entry.title === section.title) continue;
+    index.sections[section.id] = buildSectionEntry(section.id, section.title, xhtmlToPlainText(section.xhtml), signature);
+    changed = true;
+  }
+  const sectionIds = new Set(sections.map(s => s.id));
+  for (const id of Object.keys(index.sections)) {
+    if (sectionIds.has(id)) continue;
+    delete index.sections[id];
+    changed = true;
+  }
+  if (changed) {
+    await setProjectValue(SEARCH_INDEX_KEY, index);
+  }
+
+  return searchIndex(index, sections.map(s => s.id), query, limit);
+}
+
+// ============================================
+// Snapshots (history of the whole working copy)
+// Storage keys (per project): snapshots/index.json + snapshots/{id}.json
+// + snapshots/images/{sha256}.{ext} (image blobs shared by all snapshots)
+// ============================================
+
+export interface SnapshotInfo {
+  id: string;
+  name: string;
+  auto: boolean;         // true for automatic snapshots (pruned), false for named ones (kept)
+  createdAt: number;
+  sectionCount: number;
+  wordCount: number;
+}
+
+// An inline image as it was when the snapshot was taken. Snapshots made before
+// images were stored separately hold the blob itself.
+export interface SnapshotImage {
+  filename: string;
+  key?: string;  // snapshots/images/{sha256}.{ext}
+  blob?: Blob;
+}
+
+export interface ManuscriptSnapshot extends SnapshotInfo {
+  meta: ManuscriptMeta;
+  sections: Record<string, string>;  // sectionId -> XHTML
+  images: SnapshotImage[];
+}
+
+const SNAPSHOT_INDEX_KEY = 'snapshots/index.json';
+const AUTO_SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;  // at most one automatic snapshot per 10 minutes
+const MAX_AUTO_SNAPSHOTS = 20;
+const SNAPSHOT_IMAGES_PREFIX = 'snapshots/images/';
+
+/**
+ * List snapshots of the active project, newest first
+ */
+export async function listSnapshots(): Promise<SnapshotInfo[]> {
+  const index = await getProjectValue<SnapshotInfo[]>(SNAPSHOT_INDEX_KEY);
+  return (index ?? []).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+async function saveSnapshotIndex(index: SnapshotInfo[]): Promise<void> {
+  await setProjectValue(SNAPSHOT_INDEX_KEY, index);
+}
+
+export async function loadSnapshot(id: string): Promise<ManuscriptSnapshot | null> {
+  return getProjectValue<ManuscriptSnapshot>(`snapshots/${id}.json`);
+}
+
+// Images restored from a backup are ArrayBuffers rather than Blobs
+function toBlob(value: unknown): Blob | null {
+  if (value instanceof Blob) return value;
+  if (value instanceof ArrayBuffer) return new Blob([value]);
+  return null;
+}
+
+/**
+ * Store each inline image once under its content hash, so snapshots only
+ * reference images and unchanged images aren't copied again.
+ */
+async function saveSnapshotImages(): Promise<SnapshotImage[]> {
+  const stored = new Set(await getProjectKeys(SNAPSHOT_IMAGES_PREFIX));
+
+  const images: SnapshotImage[] = [];
+  for (const { key, value } of await getProjectEntries('images/')) {
+    const blob = toBlob(value);
+    if (!blob) continue;
+    const filename = key.slice('images/'.length);
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    const hash = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    // Keep the extension, which the backup format uses to tell images from JSON
+    const extension = filename.match(/\.[a-z0-9]+$/i)?.[0]?.toLowerCase() ?? '';
+    const imageKey = `${SNAPSHOT_IMAGES_PREFIX}${hash}${extension}`;
+    if (!stored.has(imageKey)) {
+      await setProjectValue(imageKey, blob);
+      stored.add(imageKey);
+    }
+    images.push({ filename, key: imageKey });
+  }
+  return images;
+}
+
+async function loadSnapshotImage(image: SnapshotImage): Promise<Blob | null> {
+  if (image.key) return toBlob(await getProjectValue<unknown>(image.key));
+  return toBlob(image.blob);
+}
+
+/**
+ * Delete stored snapshot images that no remaining snapshot references
+ */
+async function pruneSnapshotImages(index: SnapshotInfo[]): Promise<void> {
+  const referenced = new Set<string>();
+  for (const info of index) {
+    const snapshot = await loadSnapshot(info.id);
+    snapshot?.images.forEach(image => image.key && referenced.add(image.key));
+  }
+  for (const key of await getProjectKeys(SNAPSHOT_IMAGES_PREFIX)) {
+    if (!referenced.has(key)) {
+      await deleteProjectValue(key);
+    }
+  }
+}
+
+/**
+ * Capture meta + every section + inline images of the active project.
+ * Returns null when there is no working copy to snapshot.
+ */
+export async function createSnapshot(name: string, auto = false): Promise<SnapshotInfo | null> {
+  const meta = await loadManuscriptMeta();
+  if (!meta) return null;
+
+  const sections: Record<string, string> = {};
+  let wordCount = 0;
+  for (const sectionMeta of meta.sections) {
+    const xhtml = await loadSectionXhtml(sectionMeta.id);
+    if (xhtml === null) continue;
+    sections[sectionMeta.id] = xhtml;
+    wordCount += countXhtmlWords(xhtml);
+  }
+  const images = await saveSnapshotImages();
+
+  const info: SnapshotInfo = {
+    id: `snapshot-${uuidv4()}`,
+    name: name.trim() || new Date().toLocaleString(),
+    auto,
+    createdAt: Date.now(),
+    sectionCount: Object.keys(sections).length,
+    wordCount,
+  };
+  await setProjectValue(`snapshots/${info.id}.json`, { ...info, meta, sections, images } as ManuscriptSnapshot);
+
+  let index = [...(await listSnapshots()), info];
+  // Prune the oldest automatic snapshots; named ones are only removed by the user
+  const autos = index.filter(s => s.auto).sort((a, b) => b.createdAt - a.createdAt);
+  const stale = autos.slice(MAX_AUTO_SNAPSHOTS);
+  for (const snapshot of stale) {
+    await deleteProjectValue(`snapshots/${snapshot.id}.json`);
+    index = index.filter(s => s.id !== snapshot.id);
+  }
+  await saveSnapshotIndex(index);
+  if (stale.length > 0) {
+    await pruneSnapshotImages(index);
+  }
+  return info;
+}
+
+/**
+ * Take an automatic snapshot unless one was taken recently.
+ * Called before sections are overwritten, so the snapshot holds the previous text.
+ */
+export async function maybeCreateAutoSnapshot(): Promise<void> {
+  try {
+    const index = await listSnapshots();
+    const lastAuto = index.find(s => s.auto);
+    if (lastAuto && Date.now() - lastAuto.createdAt < AUTO_SNAPSHOT_INTERVAL_MS) return;
+    await createSnapshot(`Auto-save ${new Date().toLocaleString()}`, true);
+  } catch (error) {
+    // History must never block saving the manuscript
+    console.error('Automatic snapshot failed:', error);
+  }
+}
+
+export async function renameSnapshot(id: string, name: string): Promise<void> {
+  const snapshot = await loadSnapshot(id);
+  if (!snapshot) return;
+  // A renamed snapshot becomes a named one and is no longer pruned
+  const updated = { ...snapshot, name: name.trim() || snapshot.name, auto: false };
+  await setProjectValue(`snapshots/${id}.json`, updated);
+  const index = await listSnapshots();
+  await saveSnapshotIndex(index.map(s => (s.id === id ? { ...s, name: updated.name, auto: false } : s)));
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+  await deleteProjectValue(`snapshots/${id}.json`);
+  const index = (await listSnapshots()).filter(s => s.id !== id);
+  await saveSnapshotIndex(index);
+  await pruneSnapshotImages(index);
+}
+
+/**
+ * Restore one section from a snapshot. A section deleted since the snapshot
+ * is re-added at the end of the book.
+ */
+export async function restoreSnapshotSection(snapshotId: string, sectionId: string): Promise<void> {
+  const snapshot = await loadSnapshot(snapshotId);
+  const xhtml = snapshot?.sections[sectionId];
+  const sectionMeta = snapshot?.meta.sections.find(s => s.id === sectionId);
+  if (!snapshot || xhtml === undefined || !sectionMeta) {
+    throw new Error('Section not found in snapshot');
+  }
+
+  await createSnapshot(`Before restoring "${sectionMeta.title}"`, true);
+  // Written directly rather than with saveSection: bringing text back from
+  // history isn't writing, so it doesn't count towards words written today
+  await saveSectionXhtml(sectionId, xhtml);
+  try {
+    await indexSection(sectionId, sectionMeta.title, xhtml);
+  } catch (error) {
+    console.error('Indexing section failed:', error);
+  }
+
+  const meta = await loadManuscriptMeta();
+  if (meta) {
+    const restored: SectionMeta = {
+      id: sectionId,
+      title: sectionMeta.title,
+      type: sectionMeta.type || inferSectionType(sectionMeta.title),
+      sceneCraftConfig: sectionMeta.sceneCraftConfig,
+    };
+    const idx = meta.sections.findIndex(s => s.id === sectionId);
+    if (idx >= 0) {
+      meta.sections[idx] = restored;
+    } else {
+      meta.sections.push(restored);
+    }
+    await saveManuscriptMeta(meta);
+  }
+
+  const oldMeta = await loadWorkingCopyMeta();
+  if (oldMeta && !oldMeta.sectionIds.includes(sectionId)) {
+    await saveWorkingCopyMeta({ ...oldMeta, sectionIds: [...oldMeta.sectionIds, sectionId] });
+  }
+}
+
+/**
+ * Replace the whole working copy (meta, sections, inline images) with a snapshot.
+ * The current state is snapshotted first so the restore can be undone.
+ */
+export async function restoreSnapshot(snapshotId: string): Promise<void> {
+  const snapshot = await loadSnapshot(snapshotId);
+  if (!snapshot) throw new Error('Snapshot not found');
+
+  // Read the images before the snapshot below can prune them
+  const images: Array<{ filename: string; blob: Blob | null }> = [];
+  for (const image of snapshot.images) {
+    images.push({ filename: image.filename, blob: await loadSnapshotImage(image) });
+  }
+
+  await createSnapshot(`Before restoring "${snapshot.name}"`, true);
+
+  const current = await loadManuscriptMeta();
+  for (const section of current?.sections ?? []) {
+    if (!(section.id in snapshot.sections)) {
+      await deleteSectionXhtml(section.id);
+    }
+  }
+  for (const [id, xhtml] of Object.entries(snapshot.sections)) {
+    await saveSectionXhtml(id, xhtml);
+  }
+
+  // An image whose blob can't be found is left as it is rather than deleted
+  const snapshotFilenames = new Set(snapshot.images.map(i => i.filename));
+  for (const key of await getProjectKeys('images/')) {
+    if (!snapshotFilenames.has(key.slice('images/'.length))) {
+      await deleteProjectValue(key);
+    }
+  }
+  for (const { filename, blob } of images) {
+    if (blob) {
+      await saveManuscriptImage(filename, blob);
+    }
+  }
+
+  await saveManuscriptMeta(snapshot.meta);
+
+  const oldMeta = await loadWorkingCopyMeta();
+  await saveWorkingCopyMeta({
+    ...(oldMeta ?? { sectionIds: [], coverImageId: snapshot.meta.coverImageId }),
+    title: snapshot.meta.title,
+    author: snapshot.meta.author,
+    language: snapshot.meta.language,
+    subtitle: snapshot.meta.subtitle,
+    publisher: snapshot.meta.publisher,
+    rights: snapshot.meta.rights,
+    description: snapshot.meta.description,
+    publicationDate: snapshot.meta.publicationDate,
+    isbn: snapshot.meta.isbn,
+    sectionIds: snapshot.meta.sections.map(s => s.id),
+    imageIds: snapshot.images.map(i => i.filename),
+  });
+}
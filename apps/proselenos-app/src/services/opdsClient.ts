@@ -0,0 +1,359 @@
+// src/services/opdsClient.ts
+
+// Client for OPDS catalogs (1.2 Atom and 2.0 JSON):
+// - Atom feeds, entries and OpenSearch descriptions are parsed by foliate-js/opds.js
+//   into the OPDS 2.0 shape; JSON feeds are used as-is
+// - Every href is resolved against the URL the document was served from
+// - Search uses the feed's OpenSearch description, or its URI template (RFC 6570)
+//
+// Remote catalogs rarely send CORS headers, so requests go through the
+// /api/opds route. Same-origin catalogs (e.g. the sample catalog in
+// public/opds-sample/) and LAN servers are fetched directly.
+
+import { getFeed, getOpenSearch, getPublication, getSearch, REL, SYMBOL } from 'foliate-js/opds.js';
+import {
+  OPDSContributor,
+  OPDSFacet,
+  OPDSFeed,
+  OPDSGroup,
+  OPDSLink,
+  OPDSNavigationItem,
+  OPDSPublication,
+  OPDSSearch,
+} from '@/types/opds';
+import { SUPPORTED_BOOK_EXTS } from '@/services/constants';
+import { isLanAddress } from '@/utils/network';
+
+export const OPDS_PROXY_ENDPOINT = '/api/opds';
+
+const OPENSEARCH_MEDIA_TYPE = 'application/opensearchdescription+xml';
+
+const BOOK_MEDIA_TYPES: Record<string, string> = {
+  'application/epub+zip': 'epub',
+  'application/x-mobipocket-ebook': 'mobi',
+  'application/vnd.amazon.ebook': 'azw',
+  'application/x-mobi8-ebook': 'azw3',
+  'application/x-fictionbook+xml': 'fb2',
+  'application/fb2+zip': 'zip',
+  'application/vnd.comicbook+zip': 'cbz',
+  'application/x-cbz': 'cbz',
+  'text/plain': 'txt',
+};
+
+export type OPDSResource =
+  | { kind: 'feed'; feed: OPDSFeed }
+  | { kind: 'publication'; publication: OPDSPublication; url: string };
+
+export interface OPDSAcquisition {
+  link: OPDSLink;
+  format: string;
+}
+
+// Loose shapes of what foliate-js/opds.js and OPDS 2.0 JSON feeds produce
+type RawLink = Partial<OPDSLink> & { [key: string | symbol]: unknown };
+type RawPublication = {
+  metadata?: Record<string | symbol, unknown>;
+  links?: RawLink[];
+  images?: RawLink[];
+};
+type RawGroup = {
+  metadata?: { title?: string };
+  links?: RawLink[];
+  navigation?: RawLink[];
+  publications?: RawPublication[];
+};
+type RawFeed = RawGroup & {
+  metadata?: { title?: string; subtitle?: string };
+  groups?: RawGroup[];
+  facets?: Array<{ metadata?: { title?: string }; links?: RawLink[] }>;
+};
+
+const isDirectURL = (url: string) => {
+  try {
+    return new URL(url).origin === window.location.origin || isLanAddress(url);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * URL the browser should request for a catalog resource (feed, image or download).
+ */
+export const getOPDSRequestURL = (url: string) =>
+  isDirectURL(url) ? url : `${OPDS_PROXY_ENDPOINT}?url=${encodeURIComponent(url)}`;
+
+/**
+ * Resolve a catalog URL typed by the user; paths are relative to this app.
+ */
+export const normalizeCatalogURL = (input: string) => new URL(input.trim(), window.location.href).href;
+
+const fetchOPDS = async (url: string) => {
+  const response = await fetch(getOPDSRequestURL(url));
+  if (!response.ok) {
+    throw new Error(`Catalog request failed (${response.status})`);
+  }
+  // Relative links resolve against the final URL after redirects
+  const finalURL = isDirectURL(url)
+    ? response.url || url
+    : response.headers.get('X-OPDS-Final-URL') || url;
+  return { response, finalURL };
+};
+
+/**
+ * Resolve an href against a base URL. URI templates are resolved up to the
+ * first expression so their braces survive.
+ */
+const resolveHref = (href: string, base: string) => {
+  const braceIndex = href.indexOf('{');
+  if (braceIndex === -1) return new URL(href, base).href;
+  return new URL(href.slice(0, braceIndex), base).href + href.slice(braceIndex);
+};
+
+const resolveLink = (link: RawLink, base: string): OPDSLink => ({
+  href: resolveHref(link.href || '', base),
+  rel: link.rel,
+  type: link.type,
+  title: link.title,
+  templated: link.templated || (link.href || '').includes('{'),
+  properties: link.properties,
+});
+
+const hasRel = (link: OPDSLink, rel: string | string[]) => {
+  const rels = [link.rel ?? []].flat();
+  return [rel].flat().some(r => rels.includes(r));
+};
+
+const stripHTML = (html: string) =>
+  new DOMParser().parseFromString(html, 'text/html').body.textContent?.trim() || '';
+
+const getContributors = (value: unknown): OPDSContributor[] => {
+  if (!value) return [];
+  return [value].flat().map(person => {
+    if (typeof person === 'string') return { name: person };
+    const name = (person as { name?: unknown }).name;
+    if (typeof name === 'string') return { name };
+    // OPDS 2.0 allows language maps for names
+    if (name && typeof name === 'object') return { name: String(Object.values(name)[0] ?? '') };
+    return { name: '' };
+  }).filter(person => person.name);
+};
+
+const getTitle = (value: unknown) => {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') return String(Object.values(value)[0] ?? '');
+  return '';
+};
+
+const getSummaryText = (metadata: Record<string | symbol, unknown>) => {
+  const content = metadata[SYMBOL.CONTENT] as { value?: string; type?: string } | undefined;
+  if (content?.value) {
+    return content.type === 'text' ? content.value : stripHTML(content.value);
+  }
+  const description = metadata['description'];
+  return typeof description === 'string' ? stripHTML(description) : undefined;
+};
+
+const toPublication = (raw: RawPublication, base: string): OPDSPublication => {
+  const metadata = raw.metadata ?? {};
+  return {
+    metadata: {
+      title: getTitle(metadata['title']),
+      author: getContributors(metadata['author']),
+      publisher: getTitle(metadata['publisher']) || undefined,
+      published: metadata['published'] as string | undefined,
+      language: [metadata['language'] ?? []].flat()[0] as string | undefined,
+      identifier: metadata['identifier'] as string | undefined,
+      summary: getSummaryText(metadata),
+    },
+    links: (raw.links ?? []).filter(link => link.href).map(link => resolveLink(link, base)),
+    images: (raw.images ?? []).filter(link => link.href).map(link => resolveLink(link, base)),
+  };
+};
+
+const toNavigationItem = (raw: RawLink, base: string): OPDSNavigationItem => ({
+  title: raw.title || '',
+  summary: (raw[SYMBOL.SUMMARY] as string | undefined) || undefined,
+  link: resolveLink(raw, base),
+});
+
+const toGroup = (raw: RawGroup, base: string): OPDSGroup => {
+  const self = raw.links?.find(link => [link.rel ?? []].flat().includes('self'));
+  return {
+    title: raw.metadata?.title || '',
+    link: self?.href ? resolveLink(self, base) : undefined,
+    navigation: (raw.navigation ?? []).filter(item => item.href).map(item => toNavigationItem(item, base)),
+    publications: (raw.publications ?? []).map(pub => toPublication(pub, base)),
+  };
+};
+
+const toFeed = (raw: RawFeed, url: string): OPDSFeed => {
+  const root = toGroup(raw, url);
+  return {
+    url,
+    title: raw.metadata?.title || '',
+    subtitle: raw.metadata?.subtitle,
+    links: (raw.links ?? []).filter(link => link.href).map(link => resolveLink(link, url)),
+    navigation: root.navigation,
+    publications: root.publications,
+    groups: (raw.groups ?? []).map(group => toGroup(group, url)),
+    facets: (raw.facets ?? []).map(
+      (facet): OPDSFacet => ({
+        title: facet.metadata?.title || '',
+        links: (facet.links ?? []).filter(link => link.href).map(link => resolveLink(link, url)),
+      }),
+    ),
+  };
+};
+
+const parseXML = (text: string) => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The catalog returned malformed XML');
+  }
+  return doc;
+};
+
+/**
+ * Load an OPDS feed or a single publication entry.
+ */
+export const loadOPDS = async (url: string): Promise<OPDSResource> => {
+  const { response, finalURL } = await fetchOPDS(url);
+  const type = response.headers.get('content-type') || '';
+  const text = await response.text();
+
+  if (type.includes('json') || /^\s*[{[]/.test(text)) {
+    const json = JSON.parse(text) as RawFeed & RawPublication;
+    const isPublication = !json.navigation && !json.publications && !json.groups && !!json.metadata && !!json.links?.some(
+      link => [link.rel ?? []].flat().some(rel => String(rel).startsWith(REL.ACQ)),
+    );
+    return isPublication
+      ? { kind: 'publication', publication: toPublication(json, finalURL), url: finalURL }
+      : { kind: 'feed', feed: toFeed(json, finalURL) };
+  }
+
+  const doc = parseXML(text);
+  const root = doc.documentElement.localName;
+  if (root === 'feed') {
+    return { kind: 'feed', feed: toFeed(getFeed(doc) as RawFeed, finalURL) };
+  }
+  if (root === 'entry') {
+    return {
+      kind: 'publication',
+      publication: toPublication(getPublication(doc.documentElement) as RawPublication, finalURL),
+      url: finalURL,
+    };
+  }
+  throw new Error('This URL is not an OPDS catalog');
+};
+
+/**
+ * Build the search form for a feed, or null if the catalog cannot be searched.
+ */
+export const getOPDSSearch = async (feed: OPDSFeed): Promise<OPDSSearch | null> => {
+  const link = feed.links.find(link => hasRel(link, 'search'));
+  if (!link) return null;
+
+  if (link.type?.includes(OPENSEARCH_MEDIA_TYPE)) {
+    const { response, finalURL } = await fetchOPDS(link.href);
+    const openSearch = getOpenSearch(parseXML(await response.text()));
+    return {
+      title: openSearch.metadata.title || link.title || undefined,
+      search: (query: string) =>
+        resolveHref(openSearch.search(new Map([[null, new Map([['searchTerms', query]])]])), finalURL),
+    };
+  }
+
+  if (link.templated) {
+    const uriTemplate = await getSearch(link);
+    const names = uriTemplate.params.map(param => param.name);
+    const name = names.find(n => n === 'query' || n === 'searchTerms') ?? names[0];
+    return {
+      title: link.title || undefined,
+      search: (query: string) => uriTemplate.search(new Map([[null, new Map([[name, query]])]])),
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Pagination links of a feed (rel first / previous / next / last)
+ */
+export const getOPDSPagination = (feed: OPDSFeed) => {
+  const find = (...rels: string[]) => feed.links.find(link => hasRel(link, rels));
+  return {
+    first: find('first'),
+    previous: find('previous', 'prev'),
+    next: find('next'),
+    last: find('last'),
+  };
+};
+
+const getFormatForType = (type?: string | null) => {
+  if (!type) return null;
+  return BOOK_MEDIA_TYPES[type.split(';')[0]!.trim().toLowerCase()] ?? null;
+};
+
+/**
+ * Acquisition links whose format the library can import. Links that need a
+ * purchase or a loan are skipped; indirect acquisitions are accepted when they
+ * end in a supported format.
+ */
+export const getOPDSAcquisitions = (publication: OPDSPublication): OPDSAcquisition[] => {
+  const acquisitions: OPDSAcquisition[] = [];
+  for (const link of publication.links) {
+    const rels = [link.rel ?? []].flat();
+    const isAcquisition = rels.some(
+      rel => rel === REL.ACQ || rel === `${REL.ACQ}/open-access` || rel === `${REL.ACQ}/sample`,
+    );
+    if (!isAcquisition) continue;
+    const indirect = link.properties?.indirectAcquisition?.at(-1)?.type;
+    const format = getFormatForType(link.type) ?? getFormatForType(indirect);
+    if (format && SUPPORTED_BOOK_EXTS.includes(format)) {
+      acquisitions.push({ link, format });
+    }
+  }
+  return acquisitions;
+};
+
+/**
+ * Thumbnail for a publication, falling back to the full-size cover.
+ */
+export const getOPDSCoverURL = (publication: OPDSPublication) => {
+  const image =
+    publication.images.find(link => hasRel(link, REL.THUMBNAIL)) ??
+    publication.images.find(link => hasRel(link, REL.COVER)) ??
+    publication.images[0];
+  return image ? getOPDSRequestURL(image.href) : null;
+};
+
+const getFilenameFromDisposition = (disposition: string | null) => {
+  if (!disposition) return null;
+  const encoded = disposition.match(/filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i);
+  if (encoded?.[1]) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename
+    }
+  }
+  return disposition.match(/filename\s*=\s*"?([^";]+)"?/i)?.[1]?.trim() ?? null;
+};
+
+/**
+ * Download an acquisition link as a File ready for AppService.importBook.
+ */
+export const downloadOPDSPublication = async (
+  publication: OPDSPublication,
+  acquisition: OPDSAcquisition,
+): Promise<File> => {
+  const { response } = await fetchOPDS(acquisition.link.href);
+  const data = await response.arrayBuffer();
+  const safeTitle = (publication.metadata.title || 'book').replace(/[\\/:*?"<>|]/g, '').trim();
+  let filename = getFilenameFromDisposition(response.headers.get('content-disposition'));
+  if (!filename || !filename.toLowerCase().endsWith(`.${acquisition.format}`)) {
+    filename = `${safeTitle || 'book'}.${acquisition.format}`;
+  }
+  const type = acquisition.link.type?.split(';')[0] || response.headers.get('content-type') || '';
+  return new File([data], filename, { type });
+};
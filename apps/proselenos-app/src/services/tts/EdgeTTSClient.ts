@@ -3,7 +3,7 @@ import { EdgeSpeechTTS, EdgeTTSPayload } from '@/libs/edgeTTS';
 import { parseSSMLMarks } from '@/utils/ssml';
 import { TTSController } from './TTSController';
 import { TTSUtils } from './TTSUtils';
-import { TTSGranularity, TTSVoice, TTSVoicesGroup } from './types';
+import { TTSGranularity, TTSMark, TTSVoice, TTSVoicesGroup } from './types';
 
 export class EdgeTTSClient implements TTSClient {
   name = 'edge-tts';
@@ -61,6 +61,12 @@ export class EdgeTTSClient implements TTSClient {
     return defaultVoice?.id || this.#currentVoiceId || 'en-US-AriaNeural';
   };
 
+  // A voice cast for the mark (dialogue casting) wins over the language default
+  getMarkVoiceId = async (mark: TTSMark) => {
+    const castVoice = mark.voice && this.#voices.find((v) => v.id === mark.voice || v.name === mark.voice);
+    return castVoice ? castVoice.id : this.getVoiceIdFromLang(mark.language);
+  };
+
   async *speak(ssml: string, signal: AbortSignal, preload = false) {
     const { marks } = parseSSMLMarks(ssml, this.#primaryLang);
 
@@ -71,10 +77,10 @@ export class EdgeTTSClient implements TTSClient {
         if (signal.aborted) break;
         const mark = marks[i]!;
         const { language: voiceLang } = mark;
-        const voiceId = await this.getVoiceIdFromLang(voiceLang);
+        const voiceId = await this.getMarkVoiceId(mark);
         this.#currentVoiceId = voiceId;
         await this.#edgeTTS
-          .createAudioUrl(this.getPayload(voiceLang, mark.text, voiceId))
+          .createAudioUrl(this.getPayload(voiceLang, mark.ssml ?? mark.text, voiceId))
           .catch((err) => {
             console.warn('Error preloading mark', i, err);
           });
@@ -86,8 +92,8 @@ export class EdgeTTSClient implements TTSClient {
             try {
               if (signal.aborted) break;
               const { language: voiceLang } = mark;
-              const voiceId = await this.getVoiceIdFromLang(voiceLang);
-              await this.#edgeTTS.createAudioUrl(this.getPayload(voiceLang, mark.text, voiceId));
+              const voiceId = await this.getMarkVoiceId(mark);
+              await this.#edgeTTS.createAudioUrl(this.getPayload(voiceLang, mark.ssml ?? mark.text, voiceId));
             } catch (err) {
               console.warn('Error preloading mark (bg)', i, err);
             }
@@ -117,10 +123,10 @@ export class EdgeTTSClient implements TTSClient {
       let abortHandler: null | (() => void) = null;
       try {
         const { language: voiceLang } = mark;
-        const voiceId = await this.getVoiceIdFromLang(voiceLang);
+        const voiceId = await this.getMarkVoiceId(mark);
         this.#speakingLang = voiceLang;
         const audioUrl = await this.#edgeTTS.createAudioUrl(
-          this.getPayload(voiceLang, mark.text, voiceId),
+          this.getPayload(voiceLang, mark.ssml ?? mark.text, voiceId),
         );
         if (signal.aborted) {
           yield { code: 'error', message: 'Aborted' } as TTSMessageEvent;
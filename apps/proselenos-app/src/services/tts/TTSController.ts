@@ -1,6 +1,9 @@
 import { FoliateView } from '@/types/view';
 import { AppService } from '@/types/system';
-import { filterSSMLWithLang, parseSSMLMarks } from '@/utils/ssml';
+import { PronunciationEntry, TTSCasting } from '@/types/book';
+import { castSSMLVoices, filterSSMLWithLang, parseSSMLMarks } from '@/utils/ssml';
+import { createDialogueContext } from '@/utils/dialogue';
+import { applyPronunciations } from '@/utils/pronunciation';
 import { Overlayer } from 'foliate-js/overlayer.js';
 import { TTSGranularity, TTSHighlightOptions, TTSMark, TTSVoice } from './types';
 import { createRejectFilter } from '@/utils/node';
@@ -39,6 +42,11 @@ export class TTSController extends EventTarget {
   ttsEdgeVoices: TTSVoice[] = [];
   // ttsNativeVoices removed - web-only app
   ttsTargetLang: string = '';
+  ttsCasting: TTSCasting | null = null;
+  ttsPronunciations: PronunciationEntry[] = [];
+  // Blocks are cast once, in reading order, so preloading does not disturb speaker turns
+  #castBlocks = new Map<string, string>();
+  #dialogueContext = createDialogueContext();
 
   options: TTSHighlightOptions = { style: 'highlight', color: 'gray' };
 
@@ -142,6 +150,17 @@ export class TTSController extends EventTarget {
     if (this.ttsTargetLang) {
       ssml = filterSSMLWithLang(ssml, this.ttsTargetLang);
     }
+    if (this.ttsCasting?.enabled) {
+      let cast = this.#castBlocks.get(ssml);
+      if (cast === undefined) {
+        cast = castSSMLVoices(ssml, this.ttsCasting, this.#dialogueContext);
+        this.#castBlocks.set(ssml, cast);
+      }
+      ssml = cast;
+    }
+    if (this.ttsPronunciations.length > 0) {
+      ssml = applyPronunciations(ssml, this.ttsPronunciations);
+    }
     return ssml;
   }
 
@@ -357,6 +376,17 @@ export class TTSController extends EventTarget {
     this.ttsTargetLang = lang;
   }
 
+  // Book and global entries, merged with mergePronunciations()
+  setPronunciations(entries: PronunciationEntry[]) {
+    this.ttsPronunciations = entries;
+  }
+
+  setCasting(casting: TTSCasting | null) {
+    this.ttsCasting = casting;
+    this.#castBlocks.clear();
+    this.#dialogueContext = createDialogueContext();
+  }
+
   dispatchSpeakMark(mark?: TTSMark) {
     this.dispatchEvent(new CustomEvent('tts-speak-mark', { detail: mark || { text: '' } }));
     if (mark) {
@@ -21,7 +21,7 @@ async function* speakWithMarks(
   primaryLang: string,
   getRate: () => number,
   getPitch: () => number,
-  getVoice: (lang: string) => Promise<SpeechSynthesisVoice | null>,
+  getVoice: (mark: TTSMark) => Promise<SpeechSynthesisVoice | null>,
   setCurrentVoice: (voiceId: string) => void,
   setSpeakingLang: (lang: string) => void,
   dispatchSpeakMark: (mark: TTSMark) => void,
@@ -35,7 +35,7 @@ async function* speakWithMarks(
     utterance.text = mark.text;
     utterance.rate = getRate();
     utterance.pitch = getPitch();
-    const voice = await getVoice(voiceLang);
+    const voice = await getVoice(mark);
     if (voice) {
       utterance.voice = voice;
       setCurrentVoice(voice.voiceURI);
@@ -136,6 +136,12 @@ export class WebSpeechClient implements TTSClient {
     return this.#voices.find((v) => v.id === voiceId) || null;
   };
 
+  // A voice cast for the mark (dialogue casting) wins over the language default
+  getWebSpeechVoiceFromMark = async (mark: TTSMark) => {
+    const castVoice = mark.voice && this.#voices.find((v) => v.id === mark.voice || v.name === mark.voice);
+    return castVoice || this.getWebSpeechVoiceFromLang(mark.language);
+  };
+
   async *speak(
     ssml: string,
     signal: AbortSignal,
@@ -149,7 +155,7 @@ export class WebSpeechClient implements TTSClient {
       this.#primaryLang,
       () => this.#rate,
       () => this.#pitch,
-      this.getWebSpeechVoiceFromLang,
+      this.getWebSpeechVoiceFromMark,
       (voiceId) => (this.#currentVoiceId = voiceId),
       (lang) => (this.#speakingLang = lang),
       (mark) => this.controller?.dispatchSpeakMark(mark),
@@ -24,4 +24,6 @@ export type TTSMark = {
   name: string;
   text: string;
   language: string;
+  voice?: string;
+  ssml?: string; // text with <phoneme> markup, for voices that accept SSML
 };
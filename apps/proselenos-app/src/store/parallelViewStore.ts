@@ -1,15 +1,62 @@
 import { create } from 'zustand';
+import { AlignmentAnchors, flipAnchors } from '@/utils/alignment';
+
+/**
+ * How the content of two books lines up, from the first book's side.
+ * Paragraph anchors are keyed by the aligned section pair, "indexA:indexB".
+ */
+export interface ParallelAlignment {
+  sections: AlignmentAnchors;
+  paragraphs: Record<string, AlignmentAnchors>;
+}
+
+const ALIGNMENTS_STORAGE_KEY = 'parallelAlignments';
+const ALIGN_BY_CONTENT_STORAGE_KEY = 'parallelAlignByContent';
+
+// Alignments are stored once per pair of books, from the side of the book
+// whose hash sorts first
+const getPairKey = (hash1: string, hash2: string) =>
+  hash1 < hash2 ? `${hash1}:${hash2}` : `${hash2}:${hash1}`;
+
+const flipAlignment = ({ sections, paragraphs }: ParallelAlignment): ParallelAlignment => ({
+  sections: flipAnchors(sections),
+  paragraphs: Object.fromEntries(
+    Object.entries(paragraphs).map(([key, anchors]) => [
+      key.split(':').reverse().join(':'),
+      flipAnchors(anchors),
+    ]),
+  ),
+});
+
+const loadAlignments = (): Record<string, ParallelAlignment> => {
+  if (typeof window === 'undefined' || !localStorage) return {};
+  try {
+    return JSON.parse(localStorage.getItem(ALIGNMENTS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const loadAlignByContent = () =>
+  typeof window !== 'undefined' && localStorage?.getItem(ALIGN_BY_CONTENT_STORAGE_KEY) === 'true';
 
 interface ParallelViewState {
   parallelViews: Set<string>[];
+  alignByContent: boolean;
+  alignments: Record<string, ParallelAlignment>;
   setParallel: (bookKeys: string[]) => void;
   unsetParallel: (bookKeys: string[]) => void;
   areParallels: (bookKey1: string, bookKey2: string) => boolean;
   getParallels: (bookKey: string) => Set<string> | null;
+  setAlignByContent: (enabled: boolean) => void;
+  getAlignment: (hash1: string, hash2: string) => ParallelAlignment | null;
+  setAlignment: (hash1: string, hash2: string, alignment: ParallelAlignment) => void;
 }
 
 export const useParallelViewStore = create<ParallelViewState>((set, get) => ({
   parallelViews: [],
+  alignByContent: loadAlignByContent(),
+  alignments: loadAlignments(),
 
   setParallel: (bookKeys: string[]) => {
     set((state) => {
@@ -77,4 +124,27 @@ export const useParallelViewStore = create<ParallelViewState>((set, get) => ({
     const { parallelViews } = get();
     return parallelViews.find((group) => group.has(bookKey)) || null;
   },
+
+  setAlignByContent: (enabled: boolean) => {
+    localStorage.setItem(ALIGN_BY_CONTENT_STORAGE_KEY, String(enabled));
+    set({ alignByContent: enabled });
+  },
+
+  getAlignment(hash1, hash2) {
+    const alignment = get().alignments[getPairKey(hash1, hash2)];
+    if (!alignment) return null;
+    return hash1 < hash2 ? alignment : flipAlignment(alignment);
+  },
+
+  setAlignment(hash1, hash2, alignment) {
+    const stored = hash1 < hash2 ? alignment : flipAlignment(alignment);
+    const alignments = { ...get().alignments, [getPairKey(hash1, hash2)]: stored };
+    try {
+      localStorage.setItem(ALIGNMENTS_STORAGE_KEY, JSON.stringify(alignments));
+    } catch (error) {
+      // Still used for this session; it is recomputed next time
+      console.warn('Failed to save parallel alignment:', error);
+    }
+    set({ alignments });
+  },
 }));
@@ -0,0 +1,89 @@
+import { create } from 'zustand';
+import { ReadingGoal, ReadingSession, ReadingStats } from '@/types/readingStats';
+import { compactSessions, getReadingSpeed } from '@/utils/readingStats';
+import { eventDispatcher } from '@/utils/event';
+import { stubTranslation as _ } from '@/utils/misc';
+
+const READING_STATS_STORAGE_KEY = 'readingStats';
+
+const EMPTY_STATS: ReadingStats = { sessions: [], finishedBooks: {}, goals: {} };
+
+const loadReadingStats = (): ReadingStats => {
+  if (typeof window === 'undefined' || !localStorage) return EMPTY_STATS;
+  try {
+    return { ...EMPTY_STATS, ...JSON.parse(localStorage.getItem(READING_STATS_STORAGE_KEY) || '{}') };
+  } catch {
+    return EMPTY_STATS;
+  }
+};
+
+interface ReadingStatsState extends ReadingStats {
+  // The reader's speed in foliate-js bytes per minute, once measured
+  readingSpeed: number | null;
+  // Rereads the stats, which a reader in another tab may have added to
+  loadStats: () => void;
+  saveSession: (session: ReadingSession) => void;
+  setBookFinished: (bookHash: string, time: number) => void;
+  setGoal: (year: number, goal: ReadingGoal) => void;
+  getGoal: (year: number) => ReadingGoal;
+}
+
+export const useReadingStatsStore = create<ReadingStatsState>((set, get) => {
+  const initialStats = loadReadingStats();
+  // Sessions are saved every few pages: a failure is reported once, not each time
+  let hasReportedSaveFailure = false;
+
+  // Reloads first, so that another tab's sessions aren't overwritten
+  const updateStats = (update: (stats: ReadingStats) => Partial<ReadingStats>) => {
+    const current = loadReadingStats();
+    const updated = { ...current, ...update(current) };
+    const stats = { ...updated, sessions: compactSessions(updated.sessions) };
+    try {
+      localStorage.setItem(READING_STATS_STORAGE_KEY, JSON.stringify(stats));
+      hasReportedSaveFailure = false;
+    } catch (error) {
+      console.error('Failed to save reading stats:', error);
+      if (!hasReportedSaveFailure) {
+        hasReportedSaveFailure = true;
+        eventDispatcher.dispatch('toast', {
+          type: 'error',
+          message: _('Reading statistics could not be saved. Browser storage may be full.'),
+        });
+      }
+    }
+    set({ ...stats, readingSpeed: getReadingSpeed(stats.sessions) });
+  };
+
+  return {
+    ...initialStats,
+    readingSpeed: getReadingSpeed(initialStats.sessions),
+
+    loadStats: () => {
+      const stats = loadReadingStats();
+      set({ ...stats, readingSpeed: getReadingSpeed(stats.sessions) });
+    },
+
+    saveSession: (session: ReadingSession) => {
+      updateStats(({ sessions }) => {
+        const index = sessions.findIndex((s) => s.id === session.id);
+        if (index === -1) return { sessions: [...sessions, session] };
+        const updated = [...sessions];
+        updated[index] = session;
+        return { sessions: updated };
+      });
+    },
+
+    setBookFinished: (bookHash: string, time: number) => {
+      if (get().finishedBooks[bookHash]) return;
+      updateStats(({ finishedBooks }) => ({
+        finishedBooks: { ...finishedBooks, [bookHash]: finishedBooks[bookHash] ?? time },
+      }));
+    },
+
+    setGoal: (year: number, goal: ReadingGoal) => {
+      updateStats(({ goals }) => ({ goals: { ...goals, [year]: goal } }));
+    },
+
+    getGoal: (year: number) => get().goals[year] ?? { books: 0, hours: 0 },
+  };
+});
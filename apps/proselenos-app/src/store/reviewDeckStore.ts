@@ -0,0 +1,75 @@
+import { create } from 'zustand';
+import { Flashcard, NewFlashcard, ReviewGrade } from '@/types/reviewDeck';
+import { newSchedule, scheduleReview } from '@/utils/spacedRepetition';
+import { uniqueId } from '@/utils/misc';
+
+const REVIEW_DECK_STORAGE_KEY = 'reviewDeck';
+
+const loadCards = (): Flashcard[] => {
+  if (typeof window === 'undefined' || !localStorage) return [];
+  try {
+    return JSON.parse(localStorage.getItem(REVIEW_DECK_STORAGE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+// The same text at the same place of a book makes the same card
+const isSameCard = (a: NewFlashcard, b: NewFlashcard) =>
+  a.bookHash === b.bookHash &&
+  a.cfi === b.cfi &&
+  a.front.toLowerCase() === b.front.toLowerCase();
+
+interface ReviewDeckState {
+  cards: Flashcard[];
+  // Rereads the deck, which a reader in another tab may have added to
+  loadCards: () => void;
+  // Returns how many of the cards were new to the deck
+  addCards: (cards: NewFlashcard[]) => number;
+  reviewCard: (id: string, grade: ReviewGrade) => void;
+  deleteCard: (id: string) => void;
+}
+
+export const useReviewDeckStore = create<ReviewDeckState>((set) => {
+  // Reloads first, so that cards added in another tab aren't overwritten
+  const updateCards = (update: (cards: Flashcard[]) => Flashcard[]) => {
+    const cards = update(loadCards());
+    try {
+      localStorage.setItem(REVIEW_DECK_STORAGE_KEY, JSON.stringify(cards));
+    } catch (error) {
+      console.warn('Failed to save review deck:', error);
+    }
+    set({ cards });
+  };
+
+  return {
+    cards: loadCards(),
+
+    loadCards: () => set({ cards: loadCards() }),
+
+    addCards: (newCards: NewFlashcard[]) => {
+      let added = 0;
+      updateCards((cards) => {
+        const now = Date.now();
+        const updated = [...cards];
+        for (const card of newCards) {
+          if (updated.some((existing) => isSameCard(existing, card))) continue;
+          updated.push({ ...card, ...newSchedule(now), id: uniqueId(), createdAt: now });
+          added++;
+        }
+        return updated;
+      });
+      return added;
+    },
+
+    reviewCard: (id: string, grade: ReviewGrade) => {
+      updateCards((cards) =>
+        cards.map((card) => (card.id === id ? { ...card, ...scheduleReview(card, grade) } : card)),
+      );
+    },
+
+    deleteCard: (id: string) => {
+      updateCards((cards) => cards.filter((card) => card.id !== id));
+    },
+  };
+});
@@ -9,11 +9,13 @@ export type FontPanelView = 'main-fonts' | 'custom-fonts';
 interface SettingsState {
   settings: SystemSettings;
   isSettingsDialogOpen: boolean;
+  isKOSyncSettingsOpen: boolean;
   isSettingsGlobal: boolean;
   fontPanelView: FontPanelView;
   setSettings: (settings: SystemSettings) => void;
   saveSettings: (envConfig: EnvConfigType, settings: SystemSettings) => void;
   setSettingsDialogOpen: (open: boolean) => void;
+  setKOSyncSettingsOpen: (open: boolean) => void;
   setSettingsGlobal: (global: boolean) => void;
   setFontPanelView: (view: FontPanelView) => void;
 
@@ -23,6 +25,7 @@ interface SettingsState {
 export const useSettingsStore = create<SettingsState>((set) => ({
   settings: {} as SystemSettings,
   isSettingsDialogOpen: false,
+  isKOSyncSettingsOpen: false,
   isSettingsGlobal: true,
   fontPanelView: 'main-fonts',
   setSettings: (settings) => set({ settings }),
@@ -31,6 +34,7 @@ export const useSettingsStore = create<SettingsState>((set) => ({
     await appService.saveSettings(settings);
   },
   setSettingsDialogOpen: (open) => set({ isSettingsDialogOpen: open }),
+  setKOSyncSettingsOpen: (open) => set({ isKOSyncSettingsOpen: open }),
   setSettingsGlobal: (global) => set({ isSettingsGlobal: global }),
   setFontPanelView: (view) => set({ fontPanelView: view }),
 
@@ -0,0 +1,64 @@
+import { BookNoteType, HighlightColor, HighlightStyle } from './book';
+
+export const ANNOTATIONS_FORMAT = 'everythingebooks-annotations';
+export const ANNOTATIONS_VERSION = 1;
+
+export type AnnotationExportFormat = 'markdown' | 'json' | 'csv' | 'koreader' | 'calibre';
+
+export interface ExportedAnnotation {
+  type: BookNoteType;
+  cfi: string;
+  text?: string;
+  note: string;
+  style?: HighlightStyle;
+  color?: HighlightColor;
+  chapter?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The app's own annotation file (Export Annotations → JSON)
+ */
+export interface AnnotationsFile {
+  format: typeof ANNOTATIONS_FORMAT;
+  version: number;
+  exportedAt: string;
+  book: {
+    title: string;
+    author: string;
+    identifier?: string;
+    hash?: string;
+  };
+  annotations: ExportedAnnotation[];
+}
+
+/**
+ * An entry of a Calibre viewer annotations file. Highlight positions are
+ * CFIs inside the spine item, starting from its root element.
+ */
+export interface CalibreAnnotation {
+  type: 'highlight' | 'bookmark';
+  timestamp: string;
+  uuid?: string;
+  removed?: boolean;
+  // highlights
+  spine_index?: number;
+  spine_name?: string;
+  start_cfi?: string;
+  end_cfi?: string;
+  highlighted_text?: string;
+  notes?: string;
+  style?: { kind: 'color' | 'decoration'; type: 'builtin' | 'custom'; which: string };
+  toc_family_titles?: string[];
+  // bookmarks
+  title?: string;
+  pos?: string;
+  pos_type?: string;
+}
+
+export interface CalibreAnnotationsFile {
+  type: 'calibre_annotation_collection';
+  version: number;
+  annotations: CalibreAnnotation[];
+}
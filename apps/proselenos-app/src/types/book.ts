@@ -221,6 +221,21 @@ export interface BookSearchResult {
   progress?: number;
 }
 
+export interface TTSCasting {
+  enabled: boolean;
+  narratorVoice?: string; // voice for narration; the chosen read-aloud voice when unset
+  dialogueVoice?: string; // voice for speakers without a voice of their own
+  voices: Record<string, string>; // character name -> voice
+}
+
+// One lexicon entry: the word is spoken as the alias (a respelling) or the IPA phoneme
+export interface PronunciationEntry {
+  grapheme: string; // word as written, or a regular expression when regex is set
+  alias?: string;
+  phoneme?: string; // IPA
+  regex?: boolean;
+}
+
 export interface BookConfig {
   bookHash?: string;
   metaHash?: string;
@@ -230,6 +245,8 @@ export interface BookConfig {
   booknotes?: BookNote[];
   searchConfig?: Partial<BookSearchConfig>;
   viewSettings?: Partial<ViewSettings>;
+  ttsCasting?: TTSCasting;
+  pronunciations?: PronunciationEntry[];
 
   lastSyncedAtConfig?: number;
   lastSyncedAtNotes?: number;
@@ -0,0 +1,41 @@
+export type DictionaryFormat = 'stardict' | 'dictd';
+
+/**
+ * The files of an offline dictionary, stored by name under its folder in
+ * the Dictionaries directory. `dict` is the .dict or .dict.dz article file.
+ */
+export interface DictionaryFiles {
+  ifo?: string;
+  idx?: string;
+  syn?: string;
+  index?: string;
+  dict: string;
+}
+
+/**
+ * A StarDict or dictd dictionary the user imported. Settings keep these in
+ * lookup order: the first enabled dictionary with an entry wins.
+ */
+export interface ImportedDictionary {
+  id: string;
+  name: string;
+  format: DictionaryFormat;
+  files: DictionaryFiles;
+  enabled: boolean;
+  wordCount?: number;
+  addedAt: number;
+}
+
+/**
+ * One article found in a local dictionary. `html` is sanitized and ready to
+ * be shown; plain-text articles are converted to paragraphs.
+ */
+export interface DictionaryEntry {
+  word: string;
+  html: string;
+}
+
+export interface DictionaryResult {
+  dictionary: ImportedDictionary;
+  entries: DictionaryEntry[];
+}
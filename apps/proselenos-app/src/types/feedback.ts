@@ -0,0 +1,41 @@
+import { BookNoteType, HighlightColor, HighlightStyle } from './book';
+
+export const BETA_FEEDBACK_FORMAT = 'everythingebooks-beta-feedback';
+export const BETA_FEEDBACK_VERSION = 1;
+
+/**
+ * One reader annotation, positioned by CFI and by the quoted text so it can
+ * still be placed after the author has edited the section.
+ */
+export interface BetaFeedbackNote {
+  id: string;
+  type: BookNoteType;
+  cfi: string;
+  // Path of the spine item in the EPUB, e.g. "OEBPS/section-003.xhtml"
+  href?: string;
+  text: string;
+  // Text just before/after the quote, used to pick between repeated passages
+  prefix?: string;
+  suffix?: string;
+  note: string;
+  style?: HighlightStyle;
+  color?: HighlightColor;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Portable file a beta reader sends back to the author (Reader → Authors).
+ */
+export interface BetaFeedbackFile {
+  format: typeof BETA_FEEDBACK_FORMAT;
+  version: number;
+  exportedAt: string;
+  book: {
+    title: string;
+    author: string;
+    identifier?: string;
+    hash?: string;
+  };
+  notes: BetaFeedbackNote[];
+}
@@ -9,3 +9,16 @@ export interface KoSyncProxyPayload {
   headers: Record<string, string>;
   body?: unknown;
 }
+
+/**
+ * Reading progress as stored by a KOReader sync server
+ * (GET /syncs/progress/:document).
+ */
+export interface KoSyncProgress {
+  document: string;
+  progress: string;
+  percentage: number;
+  device: string;
+  device_id: string;
+  timestamp: number;
+}
@@ -0,0 +1,80 @@
+/**
+ * A catalog the user saved in the Library's OPDS browser.
+ */
+export interface OPDSCatalog {
+  id: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * OPDS link, in the OPDS 2.0 shape. OPDS 1.x Atom feeds are converted to
+ * this shape by foliate-js/opds.js.
+ */
+export interface OPDSLink {
+  href: string;
+  rel?: string | string[];
+  type?: string | null;
+  title?: string | null;
+  templated?: boolean;
+  properties?: {
+    price?: { currency: string | null; value: string | null } | null;
+    indirectAcquisition?: Array<{ type: string | null }>;
+    numberOfItems?: string | number | null;
+  };
+}
+
+export interface OPDSContributor {
+  name: string;
+}
+
+export interface OPDSPublication {
+  metadata: {
+    title: string;
+    author?: OPDSContributor[];
+    publisher?: string;
+    published?: string;
+    language?: string;
+    identifier?: string;
+    summary?: string;
+  };
+  links: OPDSLink[];
+  images: OPDSLink[];
+}
+
+export interface OPDSNavigationItem {
+  title: string;
+  summary?: string;
+  link: OPDSLink;
+}
+
+export interface OPDSGroup {
+  title: string;
+  link?: OPDSLink;
+  navigation: OPDSNavigationItem[];
+  publications: OPDSPublication[];
+}
+
+export interface OPDSFacet {
+  title: string;
+  links: OPDSLink[];
+}
+
+export interface OPDSFeed {
+  url: string;
+  title: string;
+  subtitle?: string;
+  links: OPDSLink[];
+  navigation: OPDSNavigationItem[];
+  publications: OPDSPublication[];
+  groups: OPDSGroup[];
+  facets: OPDSFacet[];
+}
+
+/**
+ * A search form built from an OpenSearch description or a URI template.
+ */
+export interface OPDSSearch {
+  title?: string;
+  search: (query: string) => string;
+}
@@ -0,0 +1,34 @@
+/**
+ * A stretch of reading one book without a long pause. `size` is the text
+ * read in foliate-js bytes, only counted for reflowable books. Old sessions
+ * are merged into one per book and day, `count` being how many were merged.
+ */
+export interface ReadingSession {
+  id: string;
+  bookHash: string;
+  title: string;
+  author: string;
+  start: number;
+  end: number;
+  duration: number; // ms spent reading, pauses excluded
+  pages: number;
+  words: number;
+  size: number;
+  count?: number;
+}
+
+/**
+ * Targets for a year; 0 means no target
+ */
+export interface ReadingGoal {
+  books: number;
+  hours: number;
+}
+
+export interface ReadingStats {
+  sessions: ReadingSession[];
+  // When each book was first read to the end, by book hash
+  finishedBooks: Record<string, number>;
+  // By year
+  goals: Record<string, ReadingGoal>;
+}
@@ -0,0 +1,31 @@
+// A looked-up word or a highlight, with the sentence it was read in
+export type FlashcardKind = 'word' | 'highlight';
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * SM-2 state of a card. `interval` is in days; `due` is a timestamp.
+ */
+export interface ReviewSchedule {
+  due: number;
+  interval: number;
+  ease: number;
+  repetitions: number;
+  lapses: number;
+  reviewedAt?: number;
+}
+
+export interface Flashcard extends ReviewSchedule {
+  id: string;
+  kind: FlashcardKind;
+  bookHash: string;
+  bookTitle: string;
+  cfi: string;
+  chapter?: string;
+  front: string; // the word or highlighted text
+  back: string; // its definition, or the note on the highlight
+  context: string; // the sentence around it
+  createdAt: number;
+}
+
+export type NewFlashcard = Omit<Flashcard, 'id' | 'createdAt' | keyof ReviewSchedule>;
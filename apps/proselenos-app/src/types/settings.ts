@@ -1,7 +1,9 @@
 import { CustomTheme } from '@/styles/themes';
 import { CustomFont } from '@/styles/fonts';
 import { CustomTexture } from '@/styles/textures';
-import { HighlightColor, HighlightStyle, ViewSettings } from './book';
+import { HighlightColor, HighlightStyle, PronunciationEntry, ViewSettings } from './book';
+import { OPDSCatalog } from './opds';
+import { ImportedDictionary } from './dictionary';
 
 export type ThemeType = 'light' | 'dark' | 'auto';
 export type LibraryViewModeType = 'grid' | 'list';
@@ -63,6 +65,9 @@ export interface SystemSettings {
   customTextures: CustomTexture[];
 
   kosync: KOSyncSettings;
+  opdsCatalogs: OPDSCatalog[];
+  pronunciations: PronunciationEntry[];
+  dictionaries: ImportedDictionary[];
 
   lastSyncedAtBooks: number;
   lastSyncedAtConfigs: number;
@@ -52,7 +52,10 @@ export interface FoliateView extends HTMLElement {
     prev: () => Promise<void>;
     nextSection?: () => Promise<void>;
     prevSection?: () => Promise<void>;
-    goTo?: (params: { index: number; anchor: number }) => void;
+    goTo?: (params: {
+      index: number;
+      anchor?: number | Range | ((doc: Document) => number | Range);
+    }) => void;
     setStyles?: (css: string) => void;
     getContents: () => { doc: Document; index?: number; overlayer?: Overlayer }[];
     scrollToAnchor: (anchor: number | Range) => void;
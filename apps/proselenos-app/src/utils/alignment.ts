@@ -0,0 +1,237 @@
+// Content alignment between a book and its translation, for parallel reading.
+//
+// Both sections and paragraphs are aligned with the length-based method of
+// Gale & Church (1993): a translation's units are roughly proportional in
+// length to the original's, so a dynamic program over the two sequences finds
+// the most likely pairing of 1:1 units, merges (2:1, 1:2) and omissions.
+// Sections additionally score how well their TOC entries agree.
+
+import { BookDoc, TOCItem } from '@/libs/document';
+
+/**
+ * Pairs of [indexA, indexB] where an aligned run starts in both sequences,
+ * in ascending order. Units between anchors belong to the previous anchor.
+ */
+export type AlignmentAnchors = Array<[number, number]>;
+
+export interface SectionOutline {
+  index: number; // section index in the book
+  size: number;
+  label?: string; // TOC label when a TOC entry starts in this section
+}
+
+// -log of the prior probability of each kind of bead (Gale & Church)
+const BEADS: Array<[countA: number, countB: number, penalty: number]> = [
+  [1, 1, 0],
+  [1, 0, 4.5],
+  [0, 1, 4.5],
+  [2, 1, 2.3],
+  [1, 2, 2.3],
+];
+
+// Variance of the length of a translated character
+const VARIANCE = 6.8;
+
+// Beyond this many cells only a band along the diagonal is searched
+const MAX_CELLS = 4_000_000;
+
+const lengthCost = (lengthA: number, lengthB: number, ratio: number) => {
+  const expected = lengthA * ratio;
+  const delta = (lengthB - expected) / Math.sqrt(VARIANCE * ((expected + lengthB) / 2) + 1);
+  return (delta * delta) / 2;
+};
+
+/**
+ * Aligns two sequences of unit lengths. `matchCost` adds to the cost of
+ * pairing unit i with unit j one to one.
+ */
+export const alignByLength = (
+  lengthsA: number[],
+  lengthsB: number[],
+  matchCost?: (i: number, j: number) => number,
+): AlignmentAnchors => {
+  const n = lengthsA.length;
+  const m = lengthsB.length;
+  if (n === 0 || m === 0) return [];
+  const totalA = lengthsA.reduce((sum, l) => sum + l, 0);
+  const totalB = lengthsB.reduce((sum, l) => sum + l, 0);
+  const ratio = totalA > 0 ? totalB / totalA : 1;
+
+  // Only cells near the diagonal are worth visiting in long sequences
+  const band = (n + 1) * (m + 1) > MAX_CELLS ? Math.ceil(MAX_CELLS / (n + 1) / 2) : Infinity;
+  const inBand = (i: number, j: number) => Math.abs(j - (i * m) / n) <= band;
+
+  const width = m + 1;
+  const costs = new Float64Array((n + 1) * width).fill(Infinity);
+  const moves = new Uint8Array((n + 1) * width);
+  costs[0] = 0;
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if ((i === 0 && j === 0) || !inBand(i, j)) continue;
+      let best = Infinity;
+      let bestMove = 0;
+      BEADS.forEach(([da, db, penalty], move) => {
+        if (i < da || j < db) return;
+        const previous = costs[(i - da) * width + (j - db)]!;
+        if (previous === Infinity) return;
+        let sumA = 0;
+        let sumB = 0;
+        for (let k = 1; k <= da; k++) sumA += lengthsA[i - k]!;
+        for (let k = 1; k <= db; k++) sumB += lengthsB[j - k]!;
+        let cost = previous + penalty + lengthCost(sumA, sumB, ratio);
+        if (da === 1 && db === 1 && matchCost) cost += matchCost(i - 1, j - 1);
+        if (cost < best) {
+          best = cost;
+          bestMove = move;
+        }
+      });
+      costs[i * width + j] = best;
+      moves[i * width + j] = bestMove;
+    }
+  }
+
+  const anchors: AlignmentAnchors = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const [da, db] = BEADS[moves[i * width + j]!]!;
+    i -= da;
+    j -= db;
+    if (da > 0 && db > 0) anchors.push([i, j]);
+  }
+  return anchors.reverse();
+};
+
+/**
+ * The unit in B aligned with unit `index` in A, or with unit `index` in B
+ * when `reverse` is set
+ */
+export const mapAligned = (anchors: AlignmentAnchors, index: number, reverse = false) => {
+  const from = reverse ? 1 : 0;
+  let found = anchors[0];
+  for (const anchor of anchors) {
+    if (anchor[from] > index) break;
+    found = anchor;
+  }
+  return found ? found[1 - from]! : 0;
+};
+
+/**
+ * Reverses the direction of anchors, so they map from B to A
+ */
+export const flipAnchors = (anchors: AlignmentAnchors): AlignmentAnchors =>
+  anchors.map(([a, b]) => [b, a]);
+
+const ROMAN_NUMERAL = /\b(?=[MDCLXVI])M{0,3}(?:CM|CD|D?C{0,3})(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})\b/;
+
+const romanToNumber = (roman: string) => {
+  const values: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+  let total = 0;
+  for (let i = 0; i < roman.length; i++) {
+    const value = values[roman[i]!]!;
+    const next = values[roman[i + 1] ?? ''] ?? 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+};
+
+// "Chapter 12", "Capítulo XII" and "12. Kapitel" all number chapter 12
+const getLabelNumber = (label?: string): number | null => {
+  if (!label) return null;
+  const arabic = label.match(/\d+/);
+  if (arabic) return Number(arabic[0]);
+  const roman = label.match(ROMAN_NUMERAL);
+  return roman ? romanToNumber(roman[0]) : null;
+};
+
+/**
+ * The linear sections of a book with their sizes and the label of the
+ * first TOC entry that starts in each
+ */
+export const getSectionOutline = (bookDoc: BookDoc): SectionOutline[] => {
+  const sections = bookDoc.sections ?? [];
+  const labels = new Map<string, string>();
+  const visit = (items: TOCItem[]) => {
+    for (const item of items) {
+      if (item.href) {
+        const id = bookDoc.splitTOCHref(item.href)[0] as string;
+        if (!labels.has(id)) labels.set(id, item.label?.trim());
+      }
+      if (item.subitems) visit(item.subitems);
+    }
+  };
+  visit(bookDoc.toc ?? []);
+
+  return sections
+    .map((section, index) => ({ index, size: section.size, label: labels.get(section.id) }))
+    .filter(({ index, size }) => sections[index]!.linear !== 'no' && size > 0);
+};
+
+/**
+ * Aligns the sections of two books. Anchors are section indexes.
+ */
+export const alignSections = (a: SectionOutline[], b: SectionOutline[]): AlignmentAnchors => {
+  const numbersA = a.map((section) => getLabelNumber(section.label));
+  const numbersB = b.map((section) => getLabelNumber(section.label));
+  const matchCost = (i: number, j: number) => {
+    let cost = 0;
+    // A chapter heading should face a chapter heading...
+    if (!!a[i]!.label !== !!b[j]!.label) cost += 2;
+    // ...with the same number, when both have one
+    if (numbersA[i] !== null && numbersB[j] !== null && numbersA[i] !== numbersB[j]) cost += 6;
+    return cost;
+  };
+  return alignByLength(
+    a.map((section) => section.size),
+    b.map((section) => section.size),
+    matchCost,
+  ).map(([i, j]) => [a[i]!.index, b[j]!.index]);
+};
+
+const BLOCK_SELECTOR = 'p, li, dd, dt, blockquote, pre, h1, h2, h3, h4, h5, h6, figcaption, td';
+
+/**
+ * The innermost text blocks of a section, in document order
+ */
+export const getParagraphs = (doc: Document): HTMLElement[] =>
+  Array.from(doc.body?.querySelectorAll<HTMLElement>(BLOCK_SELECTOR) ?? []).filter(
+    (block) => !block.querySelector(BLOCK_SELECTOR) && block.textContent?.trim(),
+  );
+
+export const alignParagraphs = (a: HTMLElement[], b: HTMLElement[]): AlignmentAnchors =>
+  alignByLength(
+    a.map((block) => block.textContent?.trim().length ?? 0),
+    b.map((block) => block.textContent?.trim().length ?? 0),
+  );
+
+/**
+ * How far into `block` the point (node, offset) is, as a fraction of its text
+ */
+export const getTextFraction = (block: HTMLElement, node: Node, offset: number) => {
+  const total = block.textContent?.length ?? 0;
+  if (!total || !block.contains(node)) return 0;
+  const range = block.ownerDocument.createRange();
+  range.setStart(block, 0);
+  range.setEnd(node, offset);
+  return Math.min(1, range.toString().length / total);
+};
+
+/**
+ * A collapsed range `fraction` of the way into the text of `block`
+ */
+export const getRangeAtFraction = (block: HTMLElement, fraction: number): Range => {
+  const doc = block.ownerDocument;
+  const range = doc.createRange();
+  range.selectNodeContents(block);
+  range.collapse(true);
+  let remaining = Math.floor((block.textContent?.length ?? 0) * fraction);
+  const walker = doc.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (remaining <= length) {
+      range.setStart(node, remaining);
+      range.collapse(true);
+      break;
+    }
+    remaining -= length;
+  }
+  return range;
+};
@@ -0,0 +1,815 @@
+// Annotation files for other readers and tools:
+// - JSON: the app's own format, lossless
+// - CSV: one row per annotation, for spreadsheets
+// - KOReader: the "annotations" table of a metadata.<ext>.lua sidecar file,
+//   positioned by CREngine XPointers
+// - Calibre: the viewer's annotation collection, positioned by CFIs inside
+//   each spine item
+// Imports convert positions to CFIs; an annotation whose position cannot be
+// converted is placed by searching for its highlighted text.
+
+import * as CFI from 'foliate-js/epubcfi.js';
+import { BookDoc } from '@/libs/document';
+import { Book, BookNote, BookNoteType, HighlightColor, HighlightStyle } from '@/types/book';
+import {
+  ANNOTATIONS_FORMAT,
+  ANNOTATIONS_VERSION,
+  AnnotationsFile,
+  CalibreAnnotation,
+  CalibreAnnotationsFile,
+  ExportedAnnotation,
+} from '@/types/annotations';
+import { BETA_FEEDBACK_FORMAT } from '@/types/feedback';
+import { findTocItemBS } from '@/utils/toc';
+import { XCFI } from '@/utils/xcfi';
+import { uniqueId } from '@/utils/misc';
+
+type ImportedNote = Omit<BookNote, 'id'>;
+
+type LuaValue = string | number | boolean | null | LuaValue[] | { [key: string]: LuaValue };
+type LuaTable = { [key: string]: LuaValue };
+
+const HIGHLIGHT_STYLES: HighlightStyle[] = ['highlight', 'underline', 'squiggly'];
+const HIGHLIGHT_COLORS: HighlightColor[] = ['red', 'yellow', 'green', 'blue', 'violet'];
+const NOTE_TYPES: BookNoteType[] = ['bookmark', 'annotation', 'excerpt'];
+
+const KOREADER_DRAWERS: Record<HighlightStyle, string> = {
+  highlight: 'lighten',
+  underline: 'underscore',
+  squiggly: 'underscore',
+};
+
+// KOReader and Calibre name more colors than the app; the extra ones map to the nearest
+const COLOR_NAMES: Record<string, HighlightColor> = {
+  red: 'red',
+  orange: 'red',
+  yellow: 'yellow',
+  green: 'green',
+  olive: 'green',
+  cyan: 'blue',
+  blue: 'blue',
+  purple: 'violet',
+};
+
+const CSV_COLUMNS = ['type', 'chapter', 'text', 'note', 'style', 'color', 'cfi', 'created', 'updated'];
+
+const getExportedNotes = (booknotes: BookNote[]) =>
+  booknotes.filter((note) => !note.deletedAt).sort((a, b) => CFI.compare(a.cfi, b.cfi));
+
+const getChapter = (bookDoc: BookDoc, cfi: string) =>
+  findTocItemBS(bookDoc.toc ?? [], cfi)?.label?.trim() || undefined;
+
+const isValidCFI = (cfi: unknown): cfi is string => {
+  if (typeof cfi !== 'string' || !cfi.startsWith('epubcfi(')) return false;
+  try {
+    CFI.parse(cfi);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toTimestamp = (value: unknown, fallback = Date.now()) => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  const time = typeof value === 'string' && value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? fallback : time;
+};
+
+// The path inside the spine item of a CFI, e.g. "/4/2/6:10"
+const getLocalPath = (cfi: string) => {
+  const point = CFI.collapse(cfi) as string;
+  return point.slice(point.indexOf('!') + 1, -1);
+};
+
+// Each section's document is loaded once per import or export
+const createDocumentLoader = (bookDoc: BookDoc) => {
+  const docs = new Map<number, Promise<Document>>();
+  return (index: number) => {
+    let doc = docs.get(index);
+    if (!doc) {
+      const section = bookDoc.sections?.[index];
+      if (!section) throw new Error(`No section at index ${index}`);
+      doc = section.createDocument();
+      docs.set(index, doc);
+    }
+    return doc;
+  };
+};
+
+type DocumentLoader = ReturnType<typeof createDocumentLoader>;
+
+/**
+ * Finds `text` in a section, ignoring differences in whitespace
+ */
+const findTextRange = (doc: Document, text: string): Range | null => {
+  const needle = text.replace(/\s+/g, ' ').trim();
+  if (!doc.body || !needle) return null;
+
+  // Whitespace-collapsed text of the section, with the text node and offset
+  // each of its characters comes from
+  let haystack = '';
+  const positions: Array<[Text, number]> = [];
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const data = node.data;
+    for (let i = 0; i < data.length; i++) {
+      const isSpace = /\s/.test(data[i]!);
+      if (isSpace && haystack.endsWith(' ')) continue;
+      haystack += isSpace ? ' ' : data[i];
+      positions.push([node, i]);
+    }
+  }
+
+  const start = haystack.indexOf(needle);
+  if (start < 0) return null;
+  const [startNode, startOffset] = positions[start]!;
+  const [endNode, endOffset] = positions[start + needle.length - 1]!;
+  const range = doc.createRange();
+  range.setStart(startNode, startOffset);
+  range.setEnd(endNode, endOffset + 1);
+  return range;
+};
+
+/**
+ * The CFI of the first occurrence of `text`, searching section `hint` first
+ */
+const locateText = async (
+  bookDoc: BookDoc,
+  loadDocument: DocumentLoader,
+  text: string,
+  hint?: number,
+): Promise<string | null> => {
+  const sections = bookDoc.sections ?? [];
+  const order = sections.map((_, index) => index);
+  if (hint !== undefined && hint >= 0 && hint < sections.length) {
+    order.splice(hint, 1);
+    order.unshift(hint);
+  }
+  for (const index of order) {
+    if (sections[index]!.linear === 'no') continue;
+    const range = findTextRange(await loadDocument(index), text);
+    if (range) {
+      const base = sections[index]!.cfi ?? CFI.fake.fromIndex(index);
+      return CFI.joinIndir(base, CFI.fromRange(range));
+    }
+  }
+  return null;
+};
+
+// JSON
+
+export const exportAnnotationsJSON = (
+  book: Book,
+  bookDoc: BookDoc,
+  booknotes: BookNote[],
+): AnnotationsFile => ({
+  format: ANNOTATIONS_FORMAT,
+  version: ANNOTATIONS_VERSION,
+  exportedAt: new Date().toISOString(),
+  book: {
+    title: book.title,
+    author: book.author,
+    identifier: bookDoc.metadata.identifier,
+    hash: book.hash,
+  },
+  annotations: getExportedNotes(booknotes).map((note) => ({
+    type: note.type,
+    cfi: note.cfi,
+    text: note.text,
+    note: note.note,
+    style: note.style,
+    color: note.color,
+    chapter: getChapter(bookDoc, note.cfi),
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+  })),
+});
+
+const fromExportedAnnotation = (annotation: Partial<ExportedAnnotation>): ImportedNote => {
+  const type = NOTE_TYPES.includes(annotation.type!) ? annotation.type! : 'annotation';
+  // Highlights are drawn with a style and color, so they always get one
+  const isHighlight = type === 'annotation';
+  return {
+    type,
+    cfi: annotation.cfi ?? '',
+    text: typeof annotation.text === 'string' ? annotation.text : undefined,
+    note: typeof annotation.note === 'string' ? annotation.note : '',
+    style: HIGHLIGHT_STYLES.includes(annotation.style!)
+      ? annotation.style
+      : isHighlight
+        ? 'highlight'
+        : undefined,
+    color: HIGHLIGHT_COLORS.includes(annotation.color!)
+      ? annotation.color
+      : isHighlight
+        ? 'yellow'
+        : undefined,
+    createdAt: toTimestamp(annotation.createdAt),
+    updatedAt: toTimestamp(annotation.updatedAt),
+  };
+};
+
+// CSV
+
+const toCSVField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const exportAnnotationsCSV = (bookDoc: BookDoc, booknotes: BookNote[]): string => {
+  const rows = getExportedNotes(booknotes).map((note) => [
+    note.type,
+    getChapter(bookDoc, note.cfi) ?? '',
+    note.text ?? '',
+    note.note,
+    note.style ?? '',
+    note.color ?? '',
+    note.cfi,
+    new Date(note.createdAt).toISOString(),
+    new Date(note.updatedAt).toISOString(),
+  ]);
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(toCSVField).join(',')).join('\r\n') + '\r\n';
+};
+
+// RFC 4180: quoted fields may contain commas, line breaks and doubled quotes
+const parseCSV = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const importCSV = async (content: string, bookDoc: BookDoc): Promise<ImportedNote[]> => {
+  const [header, ...rows] = parseCSV(content);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes('cfi') && !columns.includes('text')) {
+    throw new Error('The CSV file needs a "cfi" or a "text" column');
+  }
+  const loadDocument = createDocumentLoader(bookDoc);
+  const notes: ImportedNote[] = [];
+  for (const cells of rows) {
+    const get = (column: string) => {
+      const index = columns.indexOf(column);
+      return index < 0 ? '' : (cells[index] ?? '').trim();
+    };
+    const text = get('text');
+    let cfi: string | null = get('cfi');
+    if (!isValidCFI(cfi)) cfi = text ? await locateText(bookDoc, loadDocument, text) : null;
+    if (!cfi) continue;
+    notes.push(
+      fromExportedAnnotation({
+        type: get('type') as BookNoteType,
+        cfi,
+        text: text || undefined,
+        note: get('note'),
+        style: get('style') as HighlightStyle,
+        color: get('color') as HighlightColor,
+        createdAt: toTimestamp(get('created')),
+        updatedAt: toTimestamp(get('updated')),
+      }),
+    );
+  }
+  return notes;
+};
+
+// KOReader
+
+const LONG_BRACKET = /\[(=*)\[/y;
+const NUMBER = /-?(?:0x[\da-f]+|(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)/iy;
+const NAME = /[A-Za-z_]\w*/y;
+
+const LUA_ESCAPES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '\\': '\\',
+  '"': '"',
+  "'": "'",
+  '\n': '\n',
+};
+
+/**
+ * Parses the Lua table constructors KOReader writes its settings with.
+ * Tables keyed 1..n become arrays.
+ */
+export const parseLua = (source: string): LuaValue => {
+  let pos = 0;
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${pos} of the Lua file`);
+  };
+  const match = (regexp: RegExp) => {
+    regexp.lastIndex = pos;
+    return regexp.exec(source);
+  };
+
+  const readLongBracket = () => {
+    const open = match(LONG_BRACKET);
+    if (!open) return null;
+    const close = `]${open[1]}]`;
+    const end = source.indexOf(close, pos + open[0].length);
+    if (end < 0) fail('Unterminated long bracket');
+    const content = source.slice(pos + open[0].length, end).replace(/^\r?\n/, '');
+    pos = end + close.length;
+    return content;
+  };
+
+  const skipSpace = () => {
+    while (pos < source.length) {
+      if (/\s/.test(source[pos]!)) {
+        pos++;
+      } else if (source.startsWith('--', pos)) {
+        pos += 2;
+        if (readLongBracket() === null) {
+          const end = source.indexOf('\n', pos);
+          pos = end < 0 ? source.length : end + 1;
+        }
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readString = () => {
+    const quote = source[pos++];
+    let result = '';
+    while (pos < source.length) {
+      const char = source[pos++]!;
+      if (char === quote) return result;
+      if (char !== '\\') {
+        result += char;
+        continue;
+      }
+      const next = source[pos++] ?? '';
+      if (next in LUA_ESCAPES) {
+        result += LUA_ESCAPES[next];
+      } else if (next === '\r') {
+        result += '\n';
+        if (source[pos] === '\n') pos++;
+      } else if (/\d/.test(next)) {
+        const digits = source.slice(pos - 1, pos + 2).match(/^\d+/)![0];
+        result += String.fromCharCode(Number(digits));
+        pos += digits.length - 1;
+      } else if (next === 'x') {
+        result += String.fromCharCode(parseInt(source.slice(pos, pos + 2), 16));
+        pos += 2;
+      } else if (next === 'u') {
+        const end = source.indexOf('}', pos);
+        result += String.fromCodePoint(parseInt(source.slice(pos + 1, end), 16));
+        pos = end + 1;
+      } else if (next === 'z') {
+        while (/\s/.test(source[pos] ?? '')) pos++;
+      } else {
+        result += next;
+      }
+    }
+    return fail('Unterminated string');
+  };
+
+  const readTable = (): LuaValue => {
+    pos++; // {
+    const entries: Array<[string | number, LuaValue]> = [];
+    let nextIndex = 1;
+    for (;;) {
+      skipSpace();
+      if (source[pos] === '}') {
+        pos++;
+        break;
+      }
+      let key: string | number;
+      const name = match(NAME);
+      if (source[pos] === '[' && !match(LONG_BRACKET)) {
+        pos++;
+        skipSpace();
+        const value = readValue();
+        if (typeof value !== 'string' && typeof value !== 'number') fail('Unsupported table key');
+        key = value as string | number;
+        skipSpace();
+        if (source[pos++] !== ']') fail('Expected ]');
+        skipSpace();
+        if (source[pos++] !== '=') fail('Expected =');
+      } else if (name && /^\s*=(?!=)/.test(source.slice(pos + name[0].length, pos + name[0].length + 64))) {
+        key = name[0];
+        pos = source.indexOf('=', pos + name[0].length) + 1;
+      } else {
+        key = nextIndex++;
+      }
+      skipSpace();
+      const value = readValue();
+      if (value !== null) entries.push([key, value]);
+      skipSpace();
+      if (source[pos] === ',' || source[pos] === ';') pos++;
+      else if (source[pos] !== '}') fail('Expected , or }');
+    }
+
+    if (entries.length > 0 && entries.every(([key]) => Number.isInteger(key) && Number(key) > 0)) {
+      return entries.sort(([a], [b]) => Number(a) - Number(b)).map(([, value]) => value);
+    }
+    return Object.fromEntries(entries.map(([key, value]) => [String(key), value]));
+  };
+
+  const readValue = (): LuaValue => {
+    skipSpace();
+    const char = source[pos];
+    if (char === '{') return readTable();
+    if (char === '"' || char === "'") return readString();
+    if (char === '[') {
+      const content = readLongBracket();
+      if (content !== null) return content;
+    }
+    const number = match(NUMBER);
+    if (number) {
+      pos += number[0].length;
+      return Number(number[0]);
+    }
+    const name = match(NAME);
+    if (name) {
+      pos += name[0].length;
+      if (name[0] === 'true') return true;
+      if (name[0] === 'false') return false;
+      if (name[0] === 'nil') return null;
+    }
+    return fail('Unexpected token');
+  };
+
+  skipSpace();
+  if (source.startsWith('return', pos)) pos += 'return'.length;
+  return readValue();
+};
+
+const toLuaString = (value: string) =>
+  `"${value.replace(/[\\"\x00-\x1f]/g, (char) => {
+    if (char === '\\' || char === '"') return `\\${char}`;
+    if (char === '\n') return '\\n';
+    if (char === '\r') return '\\r';
+    if (char === '\t') return '\\t';
+    // Three digits, so a following digit is not read as part of the escape
+    return `\\${String(char.charCodeAt(0)).padStart(3, '0')}`;
+  })}"`;
+
+/**
+ * Writes a value the way KOReader's dump does: sorted, bracketed keys
+ */
+export const toLua = (value: LuaValue, indent = ''): string => {
+  if (value === null) return 'nil';
+  if (typeof value === 'string') return toLuaString(value);
+  if (typeof value !== 'object') return String(value);
+  const entries: Array<[string, LuaValue]> = Array.isArray(value)
+    ? value.map((item, i) => [`[${i + 1}]`, item])
+    : Object.keys(value)
+        .sort()
+        .map((key) => [`[${toLuaString(key)}]`, value[key]!]);
+  if (entries.length === 0) return '{}';
+  const inner = indent + '    ';
+  const lines = entries.map(([key, item]) => `${inner}${key} = ${toLua(item, inner)},`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+};
+
+// KOReader dates are local time, "2024-05-01 21:14:03"
+const toKOReaderDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+  );
+};
+
+const fromKOReaderDate = (value: LuaValue | undefined) =>
+  typeof value === 'string' ? toTimestamp(value.replace(' ', 'T')) : Date.now();
+
+/**
+ * The name KOReader looks for in a book's .sdr folder
+ */
+export const getKOReaderFilename = (book: Book) => `metadata.${book.format.toLowerCase()}.lua`;
+
+export const exportKOReaderAnnotations = async (
+  book: Book,
+  bookDoc: BookDoc,
+  booknotes: BookNote[],
+): Promise<{ content: string; count: number }> => {
+  const loadDocument = createDocumentLoader(bookDoc);
+  const annotations: LuaTable[] = [];
+  for (const note of getExportedNotes(booknotes)) {
+    try {
+      const index = XCFI.extractSpineIndex(note.cfi);
+      const converter = new XCFI(await loadDocument(index), index);
+      const { xpointer, pos0, pos1 } = converter.cfiToXPointer(note.cfi);
+      const annotation: LuaTable = {
+        datetime: toKOReaderDate(note.createdAt),
+        page: xpointer,
+      };
+      const chapter = getChapter(bookDoc, note.cfi);
+      if (chapter) annotation['chapter'] = chapter;
+      if (note.type !== 'bookmark' && pos0 && pos1) {
+        const color = note.color === 'violet' ? 'purple' : note.color;
+        Object.assign(annotation, {
+          pos0,
+          pos1,
+          text: note.text ?? '',
+          drawer: KOREADER_DRAWERS[note.style ?? 'highlight'],
+          color: color ?? 'yellow',
+          datetime_updated: toKOReaderDate(note.updatedAt),
+        });
+        if (note.note) annotation['note'] = note.note;
+      }
+      annotations.push(annotation);
+    } catch (error) {
+      console.warn('Failed to convert annotation to XPointer:', error);
+    }
+  }
+
+  const metadata: LuaTable = {
+    annotations,
+    doc_props: { title: book.title, authors: book.author },
+    partial_md5_checksum: book.hash,
+  };
+  return {
+    content: `-- we can read Lua syntax here!\nreturn ${toLua(metadata)}\n`,
+    count: annotations.length,
+  };
+};
+
+const getString = (table: LuaTable, key: string) => {
+  const value = table[key];
+  return typeof value === 'string' ? value : undefined;
+};
+
+// Annotations as KOReader 2024.07+ stores them, or converted from the older
+// "highlight" and "bookmarks" tables
+const getKOReaderEntries = (metadata: LuaTable): LuaTable[] => {
+  const isTable = (value: LuaValue): value is LuaTable =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+  if (Array.isArray(metadata['annotations'])) return metadata['annotations'].filter(isTable);
+
+  const entries: LuaTable[] = [];
+  const highlight = metadata['highlight'];
+  if (highlight && typeof highlight === 'object') {
+    for (const page of Object.values(highlight)) {
+      if (Array.isArray(page)) entries.push(...page.filter(isTable));
+    }
+  }
+  const bookmarks = Array.isArray(metadata['bookmarks']) ? metadata['bookmarks'].filter(isTable) : [];
+  for (const bookmark of bookmarks) {
+    // Legacy bookmarks of highlights hold the note, with the highlighted text in "notes"
+    const highlighted = entries.find(
+      (entry) => bookmark['pos0'] && entry['pos0'] === bookmark['pos0'],
+    );
+    if (highlighted) {
+      if (bookmark['text'] && bookmark['text'] !== bookmark['notes']) {
+        highlighted['note'] = bookmark['text'];
+      }
+    } else if (!bookmark['highlighted']) {
+      entries.push({ page: bookmark['page'] ?? null, datetime: bookmark['datetime'] ?? null });
+    }
+  }
+  return entries;
+};
+
+const importKOReader = async (content: string, bookDoc: BookDoc): Promise<ImportedNote[]> => {
+  const metadata = parseLua(content);
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    throw new Error('Not a KOReader metadata file');
+  }
+  const loadDocument = createDocumentLoader(bookDoc);
+  const notes: ImportedNote[] = [];
+  for (const entry of getKOReaderEntries(metadata)) {
+    const pos0 = getString(entry, 'pos0');
+    const pos1 = getString(entry, 'pos1');
+    const page = getString(entry, 'page');
+    const text = getString(entry, 'text');
+    const isHighlight = !!pos0 && !!pos1;
+    // Paged documents (PDF, DjVu) are positioned by page numbers and coordinates
+    const start = isHighlight ? pos0 : page;
+    if (!start?.startsWith('/body/DocFragment[')) continue;
+
+    let cfi: string | null = null;
+    let index: number | undefined;
+    try {
+      index = XCFI.extractSpineIndex(start);
+      const converter = new XCFI(await loadDocument(index), index);
+      cfi = converter.xPointerToCFI(start, isHighlight ? pos1 : undefined);
+    } catch (error) {
+      console.warn('Failed to convert XPointer, searching for the text instead:', error);
+      if (isHighlight && text) cfi = await locateText(bookDoc, loadDocument, text, index);
+    }
+    if (!cfi) continue;
+
+    const createdAt = fromKOReaderDate(entry['datetime']);
+    const updatedAt = entry['datetime_updated']
+      ? fromKOReaderDate(entry['datetime_updated'])
+      : createdAt;
+    if (!isHighlight) {
+      notes.push({ type: 'bookmark', cfi, note: '', createdAt, updatedAt });
+      continue;
+    }
+    const drawer = getString(entry, 'drawer');
+    notes.push({
+      type: 'annotation',
+      cfi,
+      text,
+      note: getString(entry, 'note') ?? '',
+      style: drawer === 'underscore' ? 'underline' : 'highlight',
+      color: COLOR_NAMES[getString(entry, 'color') ?? ''] ?? 'yellow',
+      createdAt,
+      updatedAt,
+    });
+  }
+  return notes;
+};
+
+// Calibre
+
+export const exportCalibreAnnotations = (
+  bookDoc: BookDoc,
+  booknotes: BookNote[],
+): CalibreAnnotationsFile => {
+  const annotations: CalibreAnnotation[] = [];
+  for (const note of getExportedNotes(booknotes)) {
+    try {
+      const spineIndex = XCFI.extractSpineIndex(note.cfi);
+      const chapter = getChapter(bookDoc, note.cfi);
+      const timestamp = new Date(note.updatedAt).toISOString();
+      if (note.type === 'bookmark') {
+        annotations.push({
+          type: 'bookmark',
+          title: chapter ?? note.text ?? '',
+          pos: `epubcfi(/${(spineIndex + 1) * 2}/2${getLocalPath(note.cfi)})`,
+          pos_type: 'epubcfi',
+          timestamp,
+        });
+        continue;
+      }
+      const start = getLocalPath(note.cfi);
+      const end = CFI.parse(note.cfi).parent ? getLocalPath(CFI.collapse(note.cfi, true)) : start;
+      annotations.push({
+        type: 'highlight',
+        uuid: note.id,
+        timestamp,
+        spine_index: spineIndex,
+        spine_name: bookDoc.sections?.[spineIndex]?.id,
+        start_cfi: `/2${start}`,
+        end_cfi: `/2${end}`,
+        highlighted_text: note.text ?? '',
+        ...(note.note ? { notes: note.note } : {}),
+        style:
+          note.style === 'squiggly'
+            ? { kind: 'decoration', type: 'builtin', which: 'wavy' }
+            : {
+                kind: 'color',
+                type: 'builtin',
+                which: note.color === 'violet' ? 'purple' : (note.color ?? 'yellow'),
+              },
+        ...(chapter ? { toc_family_titles: [chapter] } : {}),
+      });
+    } catch (error) {
+      console.warn('Failed to convert annotation for Calibre:', error);
+    }
+  }
+  return { type: 'calibre_annotation_collection', version: 1, annotations };
+};
+
+const fromCalibreAnnotation = (annotation: CalibreAnnotation): ImportedNote | null => {
+  const createdAt = toTimestamp(annotation.timestamp);
+  if (annotation.type === 'bookmark') {
+    if (annotation.pos_type !== 'epubcfi' || !annotation.pos) return null;
+    const cfi = CFI.fromCalibrePos(annotation.pos) as string;
+    return { type: 'bookmark', cfi, note: '', createdAt, updatedAt: createdAt };
+  }
+  const { spine_index, start_cfi, end_cfi } = annotation;
+  if (spine_index === undefined || !start_cfi || !end_cfi) return null;
+  const { kind, which } = annotation.style ?? {};
+  return {
+    type: 'annotation',
+    cfi: CFI.fromCalibreHighlight({ spine_index, start_cfi, end_cfi }) as string,
+    text: annotation.highlighted_text,
+    note: annotation.notes ?? '',
+    style: kind === 'decoration' ? (which === 'wavy' ? 'squiggly' : 'underline') : 'highlight',
+    color: COLOR_NAMES[which ?? ''] ?? 'yellow',
+    createdAt,
+    updatedAt: createdAt,
+  };
+};
+
+// Import
+
+const importJSON = (content: string): ImportedNote[] => {
+  const data = JSON.parse(content);
+  if (data?.format === ANNOTATIONS_FORMAT || data?.format === BETA_FEEDBACK_FORMAT) {
+    if ((data.version ?? 0) > ANNOTATIONS_VERSION) {
+      throw new Error('This annotations file was made by a newer version of the app');
+    }
+    const annotations = (data.annotations ?? data.notes ?? []) as Partial<ExportedAnnotation>[];
+    return annotations.map(fromExportedAnnotation);
+  }
+  // Calibre writes a collection, or a bare list from its annotations browser
+  const calibre = Array.isArray(data) ? data : data?.annotations;
+  if (data?.type === 'calibre_annotation_collection' || Array.isArray(data)) {
+    return (calibre as CalibreAnnotation[])
+      .filter((annotation) => annotation && !annotation.removed)
+      .map((annotation) => {
+        try {
+          return fromCalibreAnnotation(annotation);
+        } catch (error) {
+          console.warn('Failed to convert Calibre annotation:', error);
+          return null;
+        }
+      })
+      .filter((note): note is ImportedNote => !!note);
+  }
+  throw new Error('Not an annotations file');
+};
+
+/**
+ * Reads annotations from a JSON, Calibre, CSV or KOReader file, picking the
+ * format from the file name and content. Positions are converted to CFIs of
+ * `bookDoc`; annotations that cannot be placed are left out.
+ * @throws Error if the file is not in a supported format
+ */
+export const importAnnotations = async (
+  content: string,
+  filename: string,
+  bookDoc: BookDoc,
+): Promise<ImportedNote[]> => {
+  const name = filename.toLowerCase();
+  let notes: ImportedNote[];
+  if (name.endsWith('.lua')) {
+    notes = await importKOReader(content, bookDoc);
+  } else if (name.endsWith('.csv')) {
+    notes = await importCSV(content, bookDoc);
+  } else {
+    try {
+      notes = importJSON(content);
+    } catch (error) {
+      if (error instanceof SyntaxError) throw new Error('Not a valid annotations file (invalid JSON)');
+      throw error;
+    }
+  }
+  return notes.filter((note) => isValidCFI(note.cfi));
+};
+
+const isSamePlace = (a: Pick<BookNote, 'type' | 'cfi'>, b: Pick<BookNote, 'type' | 'cfi'>) => {
+  if ((a.type === 'bookmark') !== (b.type === 'bookmark')) return false;
+  try {
+    return CFI.compare(a.cfi, b.cfi) === 0;
+  } catch {
+    return a.cfi === b.cfi;
+  }
+};
+
+/**
+ * Adds imported annotations to a book's notes. An annotation already in the
+ * book at the same position is not added again, though its note is filled
+ * in if the book's copy has none.
+ */
+export const mergeBooknotes = (
+  booknotes: BookNote[],
+  imported: ImportedNote[],
+): { booknotes: BookNote[]; added: BookNote[]; updated: BookNote[] } => {
+  const merged = [...booknotes];
+  const added: BookNote[] = [];
+  const updated: BookNote[] = [];
+  for (const note of imported) {
+    const candidates = merged.filter((existing) => !existing.deletedAt && isSamePlace(existing, note));
+    const existing = candidates.find((candidate) => candidate.type === note.type) ?? candidates[0];
+    if (!existing) {
+      const booknote: BookNote = { ...note, id: uniqueId() };
+      merged.push(booknote);
+      added.push(booknote);
+    } else if (note.note && !existing.note) {
+      const booknote: BookNote = { ...existing, note: note.note, updatedAt: Date.now() };
+      merged[merged.indexOf(existing)] = booknote;
+      updated.push(booknote);
+    }
+  }
+  return { booknotes: merged, added, updated };
+};
@@ -22,8 +22,6 @@ export const interceptKeys = (_options: any) => {};
 export const getScreenBrightness = async () => ({ brightness: 1 });
 export const setScreenBrightness = async (_options: any) => {};
 
-export const setKOSyncSettingsWindowVisible = (_visible: boolean) => {};
-
 // Desktop API stubs
 export const desktopFetch = fetch;
 export const invoke = async <T = any>(..._args: any[]): Promise<T> => {
@@ -72,26 +70,3 @@ export interface RemoteFile {}
 export interface ClosableFile {
   close?: () => Promise<void>;
 }
-
-// KOSync types
-export interface KoSyncProgress {
-  document: string;
-  progress: string;
-  percentage: number;
-  device: string;
-  device_id: string;
-  timestamp: number;
-}
-
-export class KOSyncClient {
-  constructor(_settings: any) {}
-
-  async getProgress(_book: any): Promise<KoSyncProgress | null> {
-    return null;
-  }
-
-  async updateProgress(_book: any, _progress: string, _percentage: number): Promise<void> {
-    // No-op stub
-  }
-}
-
@@ -0,0 +1,157 @@
+// Quoted dialogue and speaker attribution in English-style fiction.
+//
+// Works one paragraph at a time, the way read aloud walks a section. A quote
+// is attributed from the narration right after it ("…," Anna said / said Anna)
+// or right before it (Anna said, "…" / Anna: "…"). A paragraph without any
+// attribution is given to whoever spoke before the last speaker, which follows
+// the usual back-and-forth of a two-person exchange.
+
+export interface DialogueSpan {
+  start: number; // offset of the opening quote
+  end: number; // offset just past the closing quote (or the paragraph end)
+  speaker: string | null;
+}
+
+export interface DialogueContext {
+  recentSpeakers: string[]; // most recent first
+  openQuoteSpeaker: string | null; // speaker of a quote left open at the end of a paragraph
+}
+
+export interface DialogueCharacter {
+  name: string;
+  lines: number;
+}
+
+const SPEECH_VERBS = [
+  'said', 'says', 'say',
+  'asked', 'asks', 'replied', 'replies', 'answered', 'answers',
+  'whispered', 'whispers', 'murmured', 'murmurs', 'muttered', 'mutters', 'mumbled', 'mumbles',
+  'shouted', 'shouts', 'yelled', 'yells', 'screamed', 'screams', 'cried', 'cries', 'called', 'calls',
+  'exclaimed', 'exclaims', 'added', 'adds', 'continued', 'continues', 'went on', 'began', 'begins',
+  'snapped', 'snaps', 'sighed', 'sighs', 'laughed', 'laughs', 'growled', 'growls', 'hissed', 'hisses',
+  'told', 'tells', 'insisted', 'insists', 'repeated', 'repeats', 'agreed', 'agrees',
+  'demanded', 'demands', 'admitted', 'admits', 'explained', 'explains', 'protested', 'protests',
+  'observed', 'observes', 'remarked', 'remarks', 'declared', 'declares', 'pleaded', 'pleads',
+  'warned', 'warns', 'offered', 'offers', 'suggested', 'suggests', 'responded', 'responds',
+  'interrupted', 'interrupts', 'breathed', 'breathes', 'croaked', 'croaks', 'stammered', 'stammers',
+];
+
+// Capitalised words that start sentences but are never speakers
+const NOT_NAMES = new Set([
+  'I', 'He', 'She', 'They', 'We', 'You', 'It', 'Someone', 'Everyone', 'Nobody', 'Somebody',
+  'The', 'A', 'An', 'This', 'That', 'Then', 'But', 'And', 'So', 'Now', 'Still', 'Finally', 'At',
+  'His', 'Her', 'Their', 'Our', 'My', 'Your', 'Its', 'One', 'Another', 'Yes', 'No', 'Oh', 'Well',
+]);
+
+const TITLE = String.raw`(?:Mr|Mrs|Ms|Dr|Prof|St)\.?|Miss|Madam|Lady|Lord|Sir|Dame|Aunt|Uncle|Captain|Father|Mother|Sister|Brother`;
+const WORD = String.raw`[A-Z][\p{Ll}'’-]+`;
+const NAME = String.raw`((?:(?:${TITLE})\s+)?${WORD}(?:\s+${WORD})?)`;
+const VERB = String.raw`(?:${SPEECH_VERBS.join('|')})`;
+
+// After the quote: ", Anna said" / ", said Anna"
+const NAME_THEN_VERB_AFTER = new RegExp(String.raw`^[\s,]*${NAME}\s+${VERB}\b`, 'u');
+const VERB_THEN_NAME_AFTER = new RegExp(String.raw`^[\s,]*${VERB}\s+${NAME}`, 'u');
+// Before the quote: "Anna said quietly, " / "Anna: "
+const NAME_THEN_VERB_BEFORE = new RegExp(String.raw`${NAME}\s+${VERB}(?:\s+[\p{Ll}]+){0,3}\s*[,:]?\s*$`, 'u');
+const NAME_COLON_BEFORE = new RegExp(String.raw`(?:^|[.!?]\s+)${NAME}\s*:\s*$`, 'u');
+
+// “…”, "…", and ‘…’ only where it cannot be an apostrophe (a ’ inside a
+// word, as in ‘Don’t’, doesn't close the quote)
+const DOUBLE_QUOTES = /“[^“”]*(?:”|$)|"[^"]*(?:"|$)/g;
+const SINGLE_QUOTES = /(?:^|(?<=[\s(—–-]))‘(?:[^‘’]|’(?=\p{L}))*(?:’(?=[\s,.;:!?)—–-]|$)|$)/gu;
+
+export const createDialogueContext = (): DialogueContext => ({
+  recentSpeakers: [],
+  openQuoteSpeaker: null,
+});
+
+const cleanName = (name: string | undefined): string | null => {
+  if (!name) return null;
+  const words = name.trim().split(/\s+/);
+  // "Then Anna said": drop a sentence-opening word in front of the name
+  while (words.length > 1 && NOT_NAMES.has(words[0]!)) words.shift();
+  const cleaned = words.join(' ');
+  return NOT_NAMES.has(cleaned) ? null : cleaned;
+};
+
+const attributionAfter = (narration: string): string | null => {
+  const match = narration.match(NAME_THEN_VERB_AFTER) || narration.match(VERB_THEN_NAME_AFTER);
+  return cleanName(match?.[1]);
+};
+
+const attributionBefore = (narration: string): string | null => {
+  const match = narration.match(NAME_THEN_VERB_BEFORE) || narration.match(NAME_COLON_BEFORE);
+  return cleanName(match?.[1]);
+};
+
+const findQuotes = (paragraph: string, continuesQuote: boolean) => {
+  const spans: Array<{ start: number; end: number }> = [];
+  let text = paragraph;
+  let shift = 0;
+  // A quote carried over from the previous paragraph may reopen without a mark
+  if (continuesQuote && !/^\s*[“"‘]/.test(paragraph)) {
+    const close = paragraph.search(/[”"’]/);
+    const end = close === -1 ? paragraph.length : close + 1;
+    spans.push({ start: 0, end });
+    text = paragraph.slice(end);
+    shift = end;
+  }
+  const regex = /[“"]/.test(text) ? DOUBLE_QUOTES : SINGLE_QUOTES;
+  for (const match of text.matchAll(regex)) {
+    if (match[0].length > 1) {
+      spans.push({ start: match.index + shift, end: match.index + shift + match[0].length });
+    }
+  }
+  return spans;
+};
+
+const rememberSpeaker = (context: DialogueContext, speaker: string) => {
+  context.recentSpeakers = [speaker, ...context.recentSpeakers.filter((s) => s !== speaker)].slice(0, 2);
+};
+
+/**
+ * Finds the quoted dialogue in one paragraph and who speaks it. The context
+ * carries turn-taking from paragraph to paragraph; use one per section.
+ */
+export const findDialogue = (paragraph: string, context: DialogueContext): DialogueSpan[] => {
+  const continued = context.openQuoteSpeaker;
+  const quotes = findQuotes(paragraph, continued !== null);
+  context.openQuoteSpeaker = null;
+  if (quotes.length === 0) return [];
+
+  const speakers = quotes.map(({ start, end }, i) => {
+    const after = paragraph.slice(end, quotes[i + 1]?.start ?? paragraph.length);
+    const before = paragraph.slice(quotes[i - 1]?.end ?? 0, start);
+    return attributionAfter(after) ?? attributionBefore(before);
+  });
+
+  // One speaker per paragraph: an attributed quote names the whole paragraph
+  let speaker = speakers.find((s) => s !== null) ?? null;
+  if (!speaker && continued) speaker = continued;
+  if (!speaker && context.recentSpeakers.length === 2) speaker = context.recentSpeakers[1]!;
+  if (speaker) rememberSpeaker(context, speaker);
+
+  const last = quotes[quotes.length - 1]!;
+  const lastQuoteOpen = last.end === paragraph.length && !/[”"’]\s*$/.test(paragraph.slice(last.start + 1));
+  if (lastQuoteOpen) context.openQuoteSpeaker = speaker ?? '';
+
+  return quotes.map(({ start, end }, i) => ({ start, end, speaker: speakers[i] ?? speaker }));
+};
+
+/**
+ * The speakers attributed in a run of paragraphs (typically a section),
+ * most talkative first
+ */
+export const findCharacters = (paragraphs: string[]): DialogueCharacter[] => {
+  const context = createDialogueContext();
+  const lines = new Map<string, number>();
+  for (const paragraph of paragraphs) {
+    const speakers = new Set(findDialogue(paragraph, context).map((span) => span.speaker));
+    for (const speaker of speakers) {
+      if (speaker) lines.set(speaker, (lines.get(speaker) ?? 0) + 1);
+    }
+  }
+  return [...lines.entries()]
+    .map(([name, count]) => ({ name, lines: count }))
+    .sort((a, b) => b.lines - a.lines || a.name.localeCompare(b.name));
+};
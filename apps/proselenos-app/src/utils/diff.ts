@@ -53,6 +53,60 @@ export function diff(str1: string, str2: string) {
   return result.join('\n');
 }
 
+export interface SideBySideRow {
+  type: 'equal' | 'removed' | 'added' | 'changed';
+  left: string | null;
+  right: string | null;
+}
+
+/**
+ * Line-aligned diff for two-column display
+ * Usage: diffSideBySide(oldText, newText) -> rows with left (old) and right (new) lines
+ */
+export function diffSideBySide(str1: string, str2: string): SideBySideRow[] {
+  const lines1 = str1.split('\n').filter((line) => line.trim() !== '');
+  const lines2 = str2.split('\n').filter((line) => line.trim() !== '');
+
+  const lcs = longestCommonSubsequence(lines1, lines2);
+
+  let i = 0,
+    j = 0,
+    k = 0;
+  const rows: SideBySideRow[] = [];
+
+  while (i < lines1.length || j < lines2.length) {
+    if (
+      k < lcs.length &&
+      i < lines1.length &&
+      j < lines2.length &&
+      trimCompare(lines1[i], lcs[k]) &&
+      trimCompare(lines2[j], lcs[k])
+    ) {
+      rows.push({ type: 'equal', left: lines1[i]!, right: lines2[j]! });
+      i++;
+      j++;
+      k++;
+    } else {
+      const delStart = i;
+      const addStart = j;
+
+      while (i < lines1.length && (k >= lcs.length || !trimCompare(lines1[i], lcs[k]))) i++;
+      while (j < lines2.length && (k >= lcs.length || !trimCompare(lines2[j], lcs[k]))) j++;
+
+      // Pair removed and added lines so edited paragraphs sit on the same row
+      const count = Math.max(i - delStart, j - addStart);
+      for (let m = 0; m < count; m++) {
+        const left = delStart + m < i ? lines1[delStart + m]! : null;
+        const right = addStart + m < j ? lines2[addStart + m]! : null;
+        const type = left !== null && right !== null ? 'changed' : left !== null ? 'removed' : 'added';
+        rows.push({ type, left, right });
+      }
+    }
+  }
+
+  return rows;
+}
+
 function trimCompare(a: string | undefined, b: string | undefined) {
   return (a || '').trim() === (b || '').trim();
 }
@@ -0,0 +1,104 @@
+import { Book, BookNote } from '@/types/book';
+import { BookDoc } from '@/libs/document';
+import { FoliateView } from '@/types/view';
+import {
+  BETA_FEEDBACK_FORMAT,
+  BETA_FEEDBACK_VERSION,
+  BetaFeedbackFile,
+  BetaFeedbackNote,
+} from '@/types/feedback';
+
+const CONTEXT_LENGTH = 60;
+
+const getRangeContext = (range: Range): { prefix: string; suffix: string } => {
+  const doc = range.startContainer.ownerDocument!;
+  const before = doc.createRange();
+  before.setStart(doc.body, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const after = doc.createRange();
+  after.setStart(range.endContainer, range.endOffset);
+  after.setEndAfter(doc.body.lastChild ?? doc.body);
+  return {
+    prefix: before.toString().slice(-CONTEXT_LENGTH),
+    suffix: after.toString().slice(0, CONTEXT_LENGTH),
+  };
+};
+
+/**
+ * Build the feedback file for a book's highlights and notes. Each note keeps
+ * its spine href and some surrounding text so the author can place it even
+ * after editing the section.
+ */
+export const createBetaFeedback = async (
+  book: Book,
+  bookDoc: BookDoc,
+  booknotes: BookNote[],
+  view: FoliateView | null,
+): Promise<BetaFeedbackFile> => {
+  const notes: BetaFeedbackNote[] = [];
+  const docs = new Map<number, Document>();
+
+  for (const booknote of booknotes) {
+    if (booknote.deletedAt || booknote.type === 'bookmark' || !booknote.text) continue;
+    const note: BetaFeedbackNote = {
+      id: booknote.id,
+      type: booknote.type,
+      cfi: booknote.cfi,
+      text: booknote.text,
+      note: booknote.note,
+      style: booknote.style,
+      color: booknote.color,
+      createdAt: booknote.createdAt,
+      updatedAt: booknote.updatedAt,
+    };
+
+    try {
+      const { index, anchor } = view!.resolveCFI(booknote.cfi);
+      const section = bookDoc.sections?.[index];
+      if (section) {
+        note.href = section.id;
+        if (!docs.has(index)) docs.set(index, await section.createDocument());
+        Object.assign(note, getRangeContext(anchor(docs.get(index)!)));
+      }
+    } catch (e) {
+      // Quoted text alone is still enough to place the note
+      console.warn('Failed to resolve annotation context:', e);
+    }
+    notes.push(note);
+  }
+
+  return {
+    format: BETA_FEEDBACK_FORMAT,
+    version: BETA_FEEDBACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    book: {
+      title: book.title,
+      author: book.author,
+      identifier: bookDoc.metadata.identifier,
+      hash: book.hash,
+    },
+    notes,
+  };
+};
+
+/**
+ * Parse and validate a feedback file. Throws when it isn't one.
+ */
+export const parseBetaFeedback = (content: string): BetaFeedbackFile => {
+  let data: Partial<BetaFeedbackFile>;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Not a valid feedback file (invalid JSON)');
+  }
+  if (data?.format !== BETA_FEEDBACK_FORMAT || !Array.isArray(data.notes)) {
+    throw new Error('Not a beta reader feedback file');
+  }
+  if ((data.version ?? 0) > BETA_FEEDBACK_VERSION) {
+    throw new Error('This feedback file was made by a newer version of the app');
+  }
+  const notes = data.notes.filter(
+    (note): note is BetaFeedbackNote => !!note && typeof note.text === 'string' && !!note.text.trim(),
+  );
+  return { ...(data as BetaFeedbackFile), notes };
+};
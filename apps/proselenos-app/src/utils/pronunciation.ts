@@ -0,0 +1,160 @@
+import { PronunciationEntry } from '@/types/book';
+
+// W3C Pronunciation Lexicon Specification 1.0
+const PLS_NAMESPACE = 'http://www.w3.org/2005/01/pronunciation-lexicon';
+// Marks lexemes whose grapheme is a regular expression (not part of PLS)
+const APP_NAMESPACE = 'https://everythingebooks.org/ns/pls';
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const decodeXML = (value: string) =>
+  value.replace(/&(?:#x([0-9a-f]+)|#(\d+)|(\w+));/gi, (entity, hex, dec, name) =>
+    hex || dec
+      ? String.fromCodePoint(parseInt(hex || dec, hex ? 16 : 10))
+      : (XML_ENTITIES[name] ?? entity),
+  );
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isSameGrapheme = (a: PronunciationEntry, b: PronunciationEntry) =>
+  !!a.regex === !!b.regex && a.grapheme.toLowerCase() === b.grapheme.toLowerCase();
+
+/**
+ * Book entries first; global entries fill in words the book does not override
+ */
+export const mergePronunciations = (
+  bookEntries: PronunciationEntry[] = [],
+  globalEntries: PronunciationEntry[] = [],
+): PronunciationEntry[] => [
+  ...bookEntries,
+  ...globalEntries.filter((entry) => !bookEntries.some((own) => isSameGrapheme(own, entry))),
+];
+
+/**
+ * Adds or replaces the entry for the same word
+ */
+export const upsertPronunciation = (entries: PronunciationEntry[], entry: PronunciationEntry) => [
+  entry,
+  ...entries.filter((existing) => !isSameGrapheme(existing, entry)),
+];
+
+const toRegExp = (entry: PronunciationEntry): RegExp | null => {
+  if (entry.regex) {
+    try {
+      return new RegExp(entry.grapheme, 'gu');
+    } catch {
+      return null;
+    }
+  }
+  // Whole words only, ignoring case
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(entry.grapheme)}(?![\\p{L}\\p{N}])`, 'giu');
+};
+
+const toSSML = (entry: PronunciationEntry, text: string) =>
+  entry.alias
+    ? `<sub alias="${escapeXML(entry.alias)}">${text}</sub>`
+    : `<phoneme alphabet="ipa" ph="${escapeXML(entry.phoneme!)}">${text}</phoneme>`;
+
+/**
+ * Marks up words from the lexicon with <sub alias> (respellings) or
+ * <phoneme> (IPA). An entry with both is spoken by its alias, which every
+ * voice can say. Text already inside <sub> or <phoneme> is left alone.
+ */
+export const applyPronunciations = (ssml: string, entries: PronunciationEntry[]) => {
+  // Longer words first, so "Jon Snow" wins over "Jon"; patterns last
+  const rules = entries
+    .filter((entry) => entry.grapheme && (entry.alias || entry.phoneme))
+    .sort((a, b) => Number(!!a.regex) - Number(!!b.regex) || b.grapheme.length - a.grapheme.length)
+    .map((entry) => ({ entry, regex: toRegExp(entry) }))
+    .filter((rule): rule is { entry: PronunciationEntry; regex: RegExp } => rule.regex !== null);
+  if (rules.length === 0) return ssml;
+
+  let depth = 0;
+  return (ssml.match(/<[^>]*>|[^<]+/g) ?? [])
+    .map((token) => {
+      if (token.startsWith('<')) {
+        const tag = token.match(/^<(\/?)(sub|phoneme)\b[^>]*?(\/?)>$/);
+        if (tag && !tag[3]) depth += tag[1] ? -1 : 1;
+        return token;
+      }
+      if (depth > 0) return token;
+
+      // Match against the text itself, so rules never see inside entities like &amp;
+      // Pieces already replaced are not matched again by later rules
+      let pieces: Array<{ text: string; done: boolean }> = [{ text: decodeXML(token), done: false }];
+      for (const { entry, regex } of rules) {
+        pieces = pieces.flatMap((piece) => {
+          if (piece.done) return [piece];
+          const result: Array<{ text: string; done: boolean }> = [];
+          let last = 0;
+          for (const match of piece.text.matchAll(regex)) {
+            if (!match[0]) continue;
+            result.push({ text: piece.text.slice(last, match.index), done: false });
+            result.push({ text: toSSML(entry, escapeXML(match[0])), done: true });
+            last = match.index + match[0].length;
+          }
+          result.push({ text: piece.text.slice(last), done: false });
+          return result.filter((p) => p.text);
+        });
+      }
+      if (!pieces.some((piece) => piece.done)) return token;
+      return pieces.map((piece) => (piece.done ? piece.text : escapeXML(piece.text))).join('');
+    })
+    .join('');
+};
+
+export const exportPLS = (entries: PronunciationEntry[], lang = 'en') => {
+  const lexemes = entries.map((entry) => {
+    const lines = [
+      `  <lexeme${entry.regex ? ' ee:regex="true"' : ''}>`,
+      `    <grapheme>${escapeXML(entry.grapheme)}</grapheme>`,
+    ];
+    if (entry.phoneme) lines.push(`    <phoneme>${escapeXML(entry.phoneme)}</phoneme>`);
+    if (entry.alias) lines.push(`    <alias>${escapeXML(entry.alias)}</alias>`);
+    lines.push('  </lexeme>');
+    return lines.join('\n');
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<lexicon version="1.0" xmlns="${PLS_NAMESPACE}" xmlns:ee="${APP_NAMESPACE}" alphabet="ipa" xml:lang="${escapeXML(lang)}">`,
+    ...lexemes,
+    '</lexicon>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Reads a PLS file. Lexemes with several graphemes become one entry per
+ * grapheme; only the first phoneme and alias of each lexeme are used.
+ * @throws Error if the file is not a pronunciation lexicon
+ */
+export const parsePLS = (xml: string): PronunciationEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const lexicon = doc.documentElement;
+  if (doc.querySelector('parsererror') || lexicon.localName !== 'lexicon') {
+    throw new Error('Not a pronunciation lexicon (PLS) file');
+  }
+  const alphabet = lexicon.getAttribute('alphabet') || 'ipa';
+
+  const entries: PronunciationEntry[] = [];
+  for (const lexeme of Array.from(lexicon.getElementsByTagNameNS('*', 'lexeme'))) {
+    const text = (name: string) =>
+      lexeme.getElementsByTagNameNS('*', name)[0]?.textContent?.trim() || undefined;
+    const phonemeEl = lexeme.getElementsByTagNameNS('*', 'phoneme')[0];
+    const phonemeAlphabet = phonemeEl?.getAttribute('alphabet') || alphabet;
+    // Only IPA can be passed on to the voices
+    const phoneme = phonemeAlphabet.toLowerCase() === 'ipa' ? text('phoneme') : undefined;
+    const alias = text('alias');
+    if (!phoneme && !alias) continue;
+    const regex = lexeme.getAttributeNS(APP_NAMESPACE, 'regex') === 'true';
+
+    for (const grapheme of Array.from(lexeme.getElementsByTagNameNS('*', 'grapheme'))) {
+      const word = grapheme.textContent?.trim();
+      if (word) entries.push({ grapheme: word, alias, phoneme, ...(regex ? { regex } : {}) });
+    }
+  }
+  return entries;
+};
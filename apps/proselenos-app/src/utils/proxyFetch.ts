@@ -0,0 +1,182 @@
+// src/utils/proxyFetch.ts
+
+// Server-side fetching for the API routes that forward requests to servers
+// chosen by the user (OPDS catalogs, KOReader sync servers). The routes run
+// on the server, so a URL must never reach the server's own network:
+// - Every host is resolved and refused if any of its addresses is loopback,
+//   private, link-local, unique-local or otherwise not publicly routable
+// - Redirects are followed by hand, checking each hop the same way
+// - Responses can be limited to a set of content types and a maximum size
+
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+
+const MAX_REDIRECTS = 5;
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class ProxyFetchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ProxyFetchError';
+    this.status = status;
+  }
+}
+
+export interface ProxyFetchOptions {
+  // Media types (without parameters) the final response may have
+  allowedContentTypes?: string[];
+  // Largest response body passed on, in bytes
+  maxBytes?: number;
+}
+
+/**
+ * Whether an IP address may be reached from the server on behalf of a user.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const version = isIP(address);
+  if (version === 4) return !BLOCKED_ADDRESSES.check(address, 'ipv4');
+  if (version !== 6) return false;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible addresses reach IPv4 hosts
+  const mapped = address.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped?.[1]) return isPublicAddress(mapped[1]);
+  if (/^::ffff:/i.test(address)) return false;
+  return !BLOCKED_ADDRESSES.check(address, 'ipv6');
+};
+
+/**
+ * Refuses URLs that aren't http(s) or whose host resolves to an address
+ * that isn't public.
+ */
+export const assertPublicURL = async (url: URL) => {
+  if (!['http:', 'https:'].includes(url.protocol)) {
+    throw new ProxyFetchError('Only http and https URLs are allowed');
+  }
+  if (url.username || url.password) {
+    throw new ProxyFetchError('URLs with credentials are not allowed');
+  }
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await lookup(hostname, { all: true, verbatim: true })).map(
+        ({ address }) => address,
+      );
+    } catch {
+      throw new ProxyFetchError(`Could not resolve ${hostname}`, 502);
+    }
+  }
+  if (!addresses.length || !addresses.every(isPublicAddress)) {
+    throw new ProxyFetchError('Local and private network addresses are not allowed', 403);
+  }
+};
+
+const getMediaType = (response: Response) =>
+  (response.headers.get('content-type') || '').split(';')[0]!.trim().toLowerCase();
+
+// Passes the body through until more than maxBytes have gone by
+const limitBody = (body: ReadableStream<Uint8Array>, maxBytes: number) => {
+  let received = 0;
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        received += chunk.byteLength;
+        if (received > maxBytes) {
+          controller.error(new ProxyFetchError('Response is too large', 502));
+          return;
+        }
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+};
+
+/**
+ * fetch() for user-supplied URLs. Follows up to MAX_REDIRECTS redirects,
+ * checking every hop with assertPublicURL, and enforces the allowed content
+ * types and size. Returns the response, whose body is size-limited, and the
+ * final URL.
+ */
+export const proxyFetch = async (
+  url: URL,
+  init: RequestInit = {},
+  options: ProxyFetchOptions = {},
+): Promise<{ response: Response; url: URL }> => {
+  let target = url;
+  let request: RequestInit = { ...init, redirect: 'manual' };
+
+  for (let hop = 0; ; hop++) {
+    await assertPublicURL(target);
+    const response = await fetch(target, request);
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (hop >= MAX_REDIRECTS) {
+        throw new ProxyFetchError('Too many redirects', 502);
+      }
+      await response.body?.cancel();
+      target = new URL(location, target);
+      // Like fetch: only 307 and 308 repeat the method and body
+      if (![307, 308].includes(response.status)) {
+        request = { ...request, method: 'GET', body: undefined };
+      }
+      continue;
+    }
+
+    const { allowedContentTypes, maxBytes } = options;
+    // Error pages are passed on whatever their type, so the client sees the status
+    if (
+      response.ok &&
+      allowedContentTypes &&
+      !allowedContentTypes.includes(getMediaType(response))
+    ) {
+      await response.body?.cancel();
+      throw new ProxyFetchError(
+        `Unsupported content type: ${getMediaType(response) || 'none'}`,
+        415,
+      );
+    }
+    if (maxBytes === undefined || !response.body) {
+      return { response, url: target };
+    }
+    if (Number(response.headers.get('content-length')) > maxBytes) {
+      await response.body.cancel();
+      throw new ProxyFetchError('Response is too large', 502);
+    }
+    const limited = new Response(limitBody(response.body, maxBytes), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+    return { response: limited, url: target };
+  }
+};
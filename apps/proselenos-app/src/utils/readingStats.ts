@@ -0,0 +1,181 @@
+// Reading statistics: totals by day and week, the heat-map calendar and the
+// reader's measured speed, computed from the sessions the reader records.
+
+import dayjs from 'dayjs';
+import { TimeInfo } from '@/types/book';
+import { ReadingSession } from '@/types/readingStats';
+
+// foliate-js counts a book in bytes of its sections: one location every 1500
+// bytes, and it estimates remaining time at 1600 bytes a minute
+export const SIZE_PER_LOCATION = 1500;
+export const DEFAULT_SIZE_PER_MINUTE = 1600;
+
+// The speed is measured over the most recent hours of reading, and only once
+// there are enough minutes of it to be meaningful
+const SPEED_SAMPLE_MS = 10 * 60 * 60 * 1000;
+const MIN_SPEED_SAMPLE_MS = 10 * 60 * 1000;
+
+// Skimming or leaving a page open doesn't make for a believable speed
+const MIN_SIZE_PER_MINUTE = DEFAULT_SIZE_PER_MINUTE / 4;
+const MAX_SIZE_PER_MINUTE = DEFAULT_SIZE_PER_MINUTE * 4;
+
+// Sessions are kept one by one for this many days, then merged by book and day
+const SESSION_DETAIL_DAYS = 30;
+
+// Heat-map cells darken at these minutes read in a day
+export const HEATMAP_LEVELS = [1, 15, 30, 60];
+
+export interface ReadingTotals {
+  duration: number; // ms
+  pages: number;
+  words: number;
+  sessions: number;
+}
+
+export interface HeatmapDay {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  level: number; // 0 (nothing read) to HEATMAP_LEVELS.length
+  inYear: boolean;
+}
+
+export const EMPTY_TOTALS: ReadingTotals = { duration: 0, pages: 0, words: 0, sessions: 0 };
+
+export const getDateKey = (time: number) => dayjs(time).format('YYYY-MM-DD');
+
+// Weeks start on Sunday, as in the heat map
+export const getWeekKey = (time: number) => dayjs(time).startOf('week').format('YYYY-MM-DD');
+
+const addSession = (totals: ReadingTotals, session: ReadingSession): ReadingTotals => ({
+  duration: totals.duration + session.duration,
+  pages: totals.pages + session.pages,
+  words: totals.words + session.words,
+  sessions: totals.sessions + (session.count ?? 1),
+});
+
+export const sumSessions = (sessions: ReadingSession[]) =>
+  sessions.reduce(addSession, EMPTY_TOTALS);
+
+/**
+ * Totals keyed by `getKey(session.start)`. A session past midnight counts
+ * for the day it started.
+ */
+export const groupSessions = (
+  sessions: ReadingSession[],
+  getKey: (time: number) => string,
+): Map<string, ReadingTotals> => {
+  const totals = new Map<string, ReadingTotals>();
+  for (const session of sessions) {
+    const key = getKey(session.start);
+    totals.set(key, addSession(totals.get(key) ?? EMPTY_TOTALS, session));
+  }
+  return totals;
+};
+
+/**
+ * Merges the sessions that started more than SESSION_DETAIL_DAYS days ago
+ * into one per book and day, so the stored sessions don't grow with every
+ * sitting. Daily, weekly, yearly and per-book totals stay the same.
+ */
+export const compactSessions = (sessions: ReadingSession[], now = Date.now()) => {
+  const cutoff = dayjs(now).startOf('day').subtract(SESSION_DETAIL_DAYS, 'day').valueOf();
+  const merged = new Map<string, ReadingSession>();
+  const recent: ReadingSession[] = [];
+  for (const session of sessions) {
+    if (session.start >= cutoff) {
+      recent.push(session);
+      continue;
+    }
+    const id = `${getDateKey(session.start)}-${session.bookHash}`;
+    const day = merged.get(id);
+    merged.set(
+      id,
+      day
+        ? {
+            ...day,
+            start: Math.min(day.start, session.start),
+            end: Math.max(day.end, session.end),
+            duration: day.duration + session.duration,
+            pages: day.pages + session.pages,
+            words: day.words + session.words,
+            size: day.size + session.size,
+            count: (day.count ?? 1) + (session.count ?? 1),
+          }
+        : { ...session, id, count: session.count ?? 1 },
+    );
+  }
+  const old = [...merged.values()].sort((a, b) => a.start - b.start);
+  return [...old, ...recent];
+};
+
+export const getSessionsInYear = (sessions: ReadingSession[], year: number) =>
+  sessions.filter((session) => new Date(session.start).getFullYear() === year);
+
+/**
+ * The days of `year` in columns of weeks, from the Sunday on or before
+ * January 1st to the Saturday on or after December 31st
+ */
+export const getHeatmapWeeks = (
+  daily: Map<string, ReadingTotals>,
+  year: number,
+): HeatmapDay[][] => {
+  const first = dayjs(new Date(year, 0, 1)).startOf('week');
+  const last = dayjs(new Date(year, 11, 31)).endOf('week');
+  const weeks: HeatmapDay[][] = [];
+  for (let day = first; !day.isAfter(last, 'day'); day = day.add(1, 'day')) {
+    if (day.day() === 0) weeks.push([]);
+    const date = day.format('YYYY-MM-DD');
+    const minutes = Math.round((daily.get(date)?.duration ?? 0) / 60000);
+    weeks[weeks.length - 1]!.push({
+      date,
+      minutes,
+      level: HEATMAP_LEVELS.filter((threshold) => minutes >= threshold).length,
+      inYear: day.year() === year,
+    });
+  }
+  return weeks;
+};
+
+/**
+ * The reader's speed in foliate-js bytes per minute, over their most recent
+ * reflowable sessions, or null until enough has been read
+ */
+export const getReadingSpeed = (sessions: ReadingSession[]): number | null => {
+  let size = 0;
+  let duration = 0;
+  for (let i = sessions.length - 1; i >= 0 && duration < SPEED_SAMPLE_MS; i--) {
+    const session = sessions[i]!;
+    if (session.size <= 0) continue;
+    size += session.size;
+    duration += session.duration;
+  }
+  if (duration < MIN_SPEED_SAMPLE_MS) return null;
+  const speed = size / (duration / 60000);
+  return Math.min(MAX_SIZE_PER_MINUTE, Math.max(MIN_SIZE_PER_MINUTE, speed));
+};
+
+/**
+ * Words per minute over all sessions that counted words
+ */
+export const getWordsPerMinute = (sessions: ReadingSession[]): number | null => {
+  const { words, duration } = sumSessions(sessions.filter((session) => session.words > 0));
+  if (duration < MIN_SPEED_SAMPLE_MS) return null;
+  return words / (duration / 60000);
+};
+
+/**
+ * Rescales foliate-js's remaining time, estimated at a fixed speed, to the
+ * reader's own speed
+ */
+export const getPersonalTimeInfo = (time: TimeInfo, speed: number | null): TimeInfo => {
+  if (!time || !speed) return time;
+  const scale = DEFAULT_SIZE_PER_MINUTE / speed;
+  return { section: time.section * scale, total: time.total * scale };
+};
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
@@ -205,3 +205,47 @@ export const getTextFromRange = (range: Range, rejectTags: string[] = []): strin
 
   return text;
 };
+
+const SENTENCE_BLOCK_SELECTOR =
+  'p, li, dd, dt, blockquote, pre, h1, h2, h3, h4, h5, h6, figcaption, td, div, body';
+
+/**
+ * The sentence, or sentences, the range is in, from the text of its block
+ */
+export const getSentenceFromRange = (range: Range, lang?: string): string => {
+  const start = range.startContainer;
+  const element = start.nodeType === Node.ELEMENT_NODE ? (start as Element) : start.parentElement;
+  const block = element?.closest(SENTENCE_BLOCK_SELECTOR);
+  if (!block) return range.toString().trim();
+
+  const before = block.ownerDocument.createRange();
+  before.setStart(block, 0);
+  before.setEnd(range.startContainer, range.startOffset);
+  const text = block.textContent ?? '';
+  const startOffset = before.toString().length;
+  const endOffset = startOffset + range.toString().length;
+
+  let sentenceStart = 0;
+  let sentenceEnd = text.length;
+  if (typeof Intl.Segmenter === 'function') {
+    const segmenter = new Intl.Segmenter(lang, { granularity: 'sentence' });
+    for (const { index, segment } of segmenter.segment(text)) {
+      if (index + segment.length <= startOffset) sentenceStart = index + segment.length;
+      if (index >= endOffset) {
+        sentenceEnd = index;
+        break;
+      }
+    }
+  } else {
+    const boundary = /[.!?。！？]+["'”’)]*\s+/g;
+    for (let match = boundary.exec(text); match; match = boundary.exec(text)) {
+      const end = match.index + match[0].length;
+      if (end <= startOffset) sentenceStart = end;
+      if (match.index >= endOffset) {
+        sentenceEnd = end;
+        break;
+      }
+    }
+  }
+  return text.slice(sentenceStart, sentenceEnd).replace(/\s+/g, ' ').trim();
+};
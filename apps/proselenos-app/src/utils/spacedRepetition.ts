@@ -0,0 +1,79 @@
+// Review scheduling with SuperMemo's SM-2 algorithm. Each answer is graded
+// on SM-2's 0-5 quality scale: a failed card starts over and comes back in
+// the same sitting, a recalled card waits 1 day, then 6, then the previous
+// interval times its ease, and the ease follows how hard recalling it was.
+
+import { ReviewGrade, ReviewSchedule } from '@/types/reviewDeck';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// A forgotten card is shown again after this long
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export const newSchedule = (now = Date.now()): ReviewSchedule => ({
+  due: now,
+  interval: 0,
+  ease: INITIAL_EASE,
+  repetitions: 0,
+  lapses: 0,
+});
+
+export const scheduleReview = (
+  schedule: ReviewSchedule,
+  grade: ReviewGrade,
+  now = Date.now(),
+): ReviewSchedule => {
+  const quality = GRADE_QUALITY[grade];
+  if (quality < 3) {
+    return {
+      ...schedule,
+      due: now + RELEARN_DELAY_MS,
+      interval: 0,
+      repetitions: 0,
+      lapses: schedule.lapses + 1,
+      reviewedAt: now,
+    };
+  }
+
+  const repetitions = schedule.repetitions + 1;
+  const interval =
+    repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(schedule.interval * schedule.ease);
+  const ease = Math.max(
+    MIN_EASE,
+    schedule.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)),
+  );
+  return {
+    ...schedule,
+    due: now + interval * DAY_MS,
+    interval,
+    ease,
+    repetitions,
+    reviewedAt: now,
+  };
+};
+
+export const isDue = (schedule: ReviewSchedule, now = Date.now()) => schedule.due <= now;
+
+/**
+ * When a grade would bring the card back, for the grade buttons
+ */
+export const formatInterval = (schedule: ReviewSchedule, grade: ReviewGrade, now = Date.now()) => {
+  const minutes = Math.round((scheduleReview(schedule, grade, now).due - now) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const days = Math.round(minutes / (24 * 60));
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
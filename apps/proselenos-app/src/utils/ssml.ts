@@ -1,5 +1,7 @@
 import { TTSMark } from '@/services/tts/types';
+import { TTSCasting } from '@/types/book';
 import { code6392to6391, inferLangFromScript, isSameLang, isValidLang } from './lang';
+import { DialogueContext, findDialogue } from './dialogue';
 
 const cleanTextContent = (text: string) =>
   text.replace(/\r\n/g, '  ').replace(/\r/g, ' ').replace(/\n/g, ' ').trimStart();
@@ -40,6 +42,12 @@ export const parseSSMLLang = (ssml: string, primaryLang?: string): string => {
   return inferLangFromScript(textWithoutLangTags, lang);
 };
 
+const escapeXMLAttr = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+
+const unescapeXMLAttr = (value: string) =>
+  value.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
 export const parseSSMLMarks = (ssml: string, primaryLang?: string) => {
   const defaultLang = parseSSMLLang(ssml, primaryLang) || 'en';
   ssml = ssml.replace(/<speak[^>]*>/i, '').replace(/<\/speak>/i, '');
@@ -50,6 +58,9 @@ export const parseSSMLMarks = (ssml: string, primaryLang?: string) => {
   let activeMark: string | null = null;
   let currentLang = defaultLang;
   const langStack: string[] = [];
+  const voiceStack: string[] = [];
+  let subAlias: string | null = null;
+  let phonemeTag: string | null = null;
 
   const tagRegex = /<(\/?)(\w+)([^>]*)>|([^<]+)/g;
 
@@ -61,12 +72,27 @@ export const parseSSMLMarks = (ssml: string, primaryLang?: string) => {
       if (text && activeMark) {
         const offset = plainText.length;
         plainText += text;
-        marks.push({
-          offset,
-          name: activeMark,
-          text,
-          language: inferLangFromScript(text, currentLang) || currentLang,
-        });
+        const voice = voiceStack[voiceStack.length - 1];
+        const language = inferLangFromScript(text, currentLang) || currentLang;
+        // <sub alias> is spoken as its alias; <phoneme> is kept as SSML for voices that read it
+        const spoken = subAlias ?? text;
+        const spokenSSML = phonemeTag ? `${phonemeTag}${spoken}</phoneme>` : null;
+        const last = marks[marks.length - 1];
+        if (last && last.name === activeMark && last.language === language && last.voice === voice) {
+          // Text split by inline elements stays one utterance
+          const space = /^\s/.test(rawText) && !/\s$/.test(last.text) ? ' ' : '';
+          if (spokenSSML || last.ssml) last.ssml = `${last.ssml ?? last.text}${space}${spokenSSML ?? spoken}`;
+          last.text += space + spoken;
+        } else {
+          marks.push({
+            offset,
+            name: activeMark,
+            text: spoken,
+            language,
+            ...(voice ? { voice } : {}),
+            ...(spokenSSML ? { ssml: spokenSSML } : {}),
+          });
+        }
       } else {
         plainText += cleanTextContent(rawText);
       }
@@ -90,6 +116,16 @@ export const parseSSMLMarks = (ssml: string, primaryLang?: string) => {
         } else {
           currentLang = langStack.pop() ?? defaultLang;
         }
+      } else if (tagName === 'sub') {
+        subAlias = isEnd ? null : unescapeXMLAttr(attr?.match(/alias="([^"]*)"/)?.[1] ?? '') || null;
+      } else if (tagName === 'phoneme') {
+        phonemeTag = isEnd ? null : `<phoneme${attr}>`;
+      } else if (tagName === 'voice') {
+        if (!isEnd) {
+          voiceStack.push(unescapeXMLAttr(attr?.match(/name="([^"]*)"/)?.[1] ?? ''));
+        } else {
+          voiceStack.pop();
+        }
       }
     }
   }
@@ -97,6 +133,44 @@ export const parseSSMLMarks = (ssml: string, primaryLang?: string) => {
   return { plainText, marks };
 };
 
+/**
+ * Wraps dialogue and narration in <voice> elements according to the casting.
+ * Each text run is wrapped on its own so that marks and other elements stay
+ * well nested. The context carries speaker turns across successive blocks.
+ */
+export const castSSMLVoices = (ssml: string, casting: TTSCasting, context: DialogueContext) => {
+  const tokens = ssml.match(/<[^>]*>|[^<]+/g) ?? [];
+  const isText = (token: string) => !token.startsWith('<');
+  const plainText = tokens.filter(isText).join('');
+  const spans = findDialogue(plainText, context);
+
+  const voiceAt = (offset: number) => {
+    const span = spans.find(({ start, end }) => offset >= start && offset < end);
+    if (!span) return casting.narratorVoice || '';
+    return (span.speaker && casting.voices[span.speaker]) || casting.dialogueVoice || '';
+  };
+
+  let offset = 0;
+  return tokens
+    .map((token) => {
+      if (!isText(token)) return token;
+      const start = offset;
+      offset += token.length;
+      const boundaries = spans
+        .flatMap(({ start: s, end: e }) => [s, e])
+        .filter((b) => b > start && b < offset);
+      const cuts = [start, ...boundaries, offset];
+      let result = '';
+      for (let i = 0; i < cuts.length - 1; i++) {
+        const piece = plainText.slice(cuts[i], cuts[i + 1]);
+        const voice = voiceAt(cuts[i]!);
+        result += voice && piece.trim() ? `<voice name="${escapeXMLAttr(voice)}">${piece}</voice>` : piece;
+      }
+      return result;
+    })
+    .join('');
+};
+
 export const findSSMLMark = (charIndex: number, marks: TTSMark[]) => {
   let left = 0;
   let right = marks.length - 1;
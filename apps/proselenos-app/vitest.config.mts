@@ -7,5 +7,11 @@ export default defineConfig({
   test: {
     environment: 'jsdom',
     setupFiles: ['./vitest.setup.ts'],
+    server: {
+      deps: {
+        // Imports katex's CSS, which only Vite can load
+        inline: ['@platejs/math'],
+      },
+    },
   },
 });
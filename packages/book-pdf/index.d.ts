@@ -43,6 +43,10 @@ interface PageProps extends NodeProps {
   orientation?: string;
   dpi?: number;
   bookmark?: any;
+  recto?: boolean;
+  mirrorMargins?: boolean;
+  bleed?: number;
+  spread?: boolean;
 }
 
 interface ViewProps extends NodeProps {
@@ -87,8 +91,26 @@ export declare function Image(props: ImageProps): ReactElement;
 
 // ── Utilities ────────────────────────────────────────────────────
 
+export interface FontSource {
+  // URL, blob: URL or base64 data: URI of a TTF, OTF, WOFF or WOFF2 file
+  src: string;
+  fontStyle?: 'normal' | 'italic' | 'oblique';
+  fontWeight?: number | string;
+  postscriptName?: string;
+}
+
+export interface MissingGlyph {
+  char: string;
+  codePoint: number;
+  fontFamilies: string[];
+  count: number;
+}
+
 export declare const Font: {
-  register: (data: any) => void;
+  register: (data: { family: string; fonts: FontSource[] } | ({ family: string } & FontSource)) => void;
+  unregister: (family: string) => void;
+  getMissingGlyphs: () => MissingGlyph[];
+  clearMissingGlyphs: () => void;
   registerEmojiSource: (source: any) => void;
   registerHyphenationCallback: (callback: (word: string) => string[]) => void;
   getRegisteredFonts: () => any;
@@ -55,7 +55,11 @@ class FontFamily {
 
   resolve(descriptor: FontDescriptor) {
     const { fontWeight = 400, fontStyle = 'normal' } = descriptor;
-    const styleSources = this.sources.filter((s) => s.fontStyle === fontStyle);
+    let styleSources = this.sources.filter((s) => s.fontStyle === fontStyle);
+
+    // book-pdf: user families may lack a style (e.g. no italic file), so use
+    // their other faces rather than failing
+    if (styleSources.length === 0) styleSources = this.sources;
 
     const exactFit = styleSources.find((s) => s.fontWeight === fontWeight);
 
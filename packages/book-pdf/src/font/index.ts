@@ -5,6 +5,7 @@ import {
   EmojiSource,
   FontDescriptor,
   HyphenationCallback,
+  MissingGlyph,
   SingleLoad,
 } from './types';
 
@@ -18,6 +19,9 @@ class FontStore {
 
   hyphenationCallback: HyphenationCallback | null = null;
 
+  // Code points no registered font could draw during the last render
+  missingGlyphs: Map<number, MissingGlyph> = new Map();
+
   register = (data: SingleLoad | BulkLoad) => {
     const { family } = data;
 
@@ -47,6 +51,37 @@ class FontStore {
     }
   };
 
+  /**
+   * Removes a family so it can be registered again with other files
+   * (e.g. user fonts that changed between renders). The built-in
+   * EBGaramond family is kept: it is the fallback for every text run.
+   */
+  unregister = (family: string) => {
+    if (family === 'EBGaramond') return;
+    delete this.fontFamilies[family];
+  };
+
+  reportMissingGlyph = (codePoint: number, fontFamilies: string[]) => {
+    const entry = this.missingGlyphs.get(codePoint);
+    if (entry) {
+      entry.count += 1;
+      return;
+    }
+    this.missingGlyphs.set(codePoint, {
+      char: String.fromCodePoint(codePoint),
+      codePoint,
+      fontFamilies,
+      count: 1,
+    });
+  };
+
+  getMissingGlyphs = (): MissingGlyph[] =>
+    Array.from(this.missingGlyphs.values());
+
+  clearMissingGlyphs = () => {
+    this.missingGlyphs.clear();
+  };
+
   registerEmojiSource = (emojiSource: EmojiSource) => {
     this.emojiSource = emojiSource;
   };
@@ -55,6 +55,15 @@ export type BulkLoad = {
   fonts: FontSource[];
 };
 
+export type MissingGlyph = {
+  char: string;
+  codePoint: number;
+  // Fallback chain that was tried, by font family name
+  fontFamilies: string[];
+  // Times the character was laid out (pagination lays text out repeatedly)
+  count: number;
+};
+
 interface EmojiSourceUrl {
   url: string;
   format?: string;
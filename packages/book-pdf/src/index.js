@@ -1,5 +1,5 @@
 // book-pdf entry point
-// EBGaramond-only PDF generator — no standard fonts, no Type1, no fallbacks.
+// PDF generator with EBGaramond built in and user fonts via Font.register — no standard fonts, no Type1.
 // Forked renderer pipeline with local font, layout, and pdfkit.
 
 import FontStore from './font/index';
@@ -81,6 +81,7 @@ const pdf = (initialValue) => {
       ctx._root.data.PageMode = upperFirst(pageMode);
     }
 
+    fontStore.clearMissingGlyphs();
     const layout = await layoutDocument(container.document, fontStore);
     const fileStream = renderPDF(ctx, layout);
     return { layout, fileStream };
@@ -29,7 +29,10 @@ const fetchAssets = (fontStore: FontStore, node: SafeNode) => {
     }
 
     if (fontStore && n.style?.fontFamily) {
-      const fontFamilies = castArray(n.style.fontFamily);
+      // book-pdf: EBGaramond ends every fallback chain (see getAttributedString)
+      const fontFamilies = [
+        ...new Set([...castArray(n.style.fontFamily), 'EBGaramond']),
+      ];
 
       promises.push(
         ...fontFamilies.map((fontFamily) =>
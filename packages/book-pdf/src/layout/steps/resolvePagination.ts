@@ -313,6 +313,23 @@ const paginate = (
   return pages;
 };
 
+// book-pdf: the blank left-hand page inserted before a `recto` page
+const createBlankPage = (
+  page: SafePageNode,
+  fontStore: FontStore,
+  yoga: YogaInstance,
+): SafePageNode =>
+  // @ts-expect-error rework pagination
+  relayoutPage(
+    Object.assign({}, page, {
+      props: omit(['bookmark', 'recto'], page.props),
+      box: { ...page.box, height: page.style.height },
+      children: [],
+    }),
+    fontStore,
+    yoga,
+  ) as SafePageNode;
+
 /**
  * Performs pagination. This is the step responsible of breaking the whole document
  * into pages following pagiation rules, such as `fixed`, `break` and dynamic nodes.
@@ -330,6 +347,14 @@ const resolvePagination = (
 
   for (let i = 0; i < root.children.length; i += 1) {
     const page = root.children[i];
+
+    if (page.props?.recto && pageNumber % 2 === 0) {
+      pages = pages.concat(
+        assocSubPageData([createBlankPage(page, fontStore, root.yoga)]),
+      );
+      pageNumber += 1;
+    }
+
     let subpages = paginate(page, pageNumber, fontStore, root.yoga);
 
     subpages = assocSubPageData(subpages);
@@ -4,6 +4,7 @@ import type FontStore from '../../font/index';
 
 import { embedEmojis } from './emoji';
 import ignoreChars from './ignoreChars';
+import reportMissingGlyphs from './missingGlyphs';
 import transformText from './transformText';
 import {
   SafeNode,
@@ -146,6 +147,7 @@ const getFragments = (
  */
 const getAttributedString = (fontStore: FontStore, instance: SafeTextNode) => {
   const fragments = getFragments(fontStore, instance);
+  reportMissingGlyphs(fontStore, fragments);
   return fromFragments(fragments);
 };
 
@@ -0,0 +1,53 @@
+import { Fragment } from '../../vendor/textkit';
+import type FontStore from '../../font/index';
+
+// Characters that are never drawn, so no font needs a glyph for them
+const SKIPPED_CODE_POINTS = new Set([
+  0xad, // SOFT_HYPHEN
+  0x200b, // ZERO_WIDTH_SPACE
+  0x200c, // ZERO_WIDTH_NON_JOINER
+  0x200d, // ZERO_WIDTH_JOINER
+  0x2028, // LINE_SEPARATOR
+  0x2029, // PARAGRAPH_SEPARATOR
+  0xfe0e, // VARIATION_SELECTOR_15
+  0xfe0f, // VARIATION_SELECTOR_16
+  0xfeff, // ZERO_WIDTH_NO_BREAK_SPACE
+  0xfffc, // OBJECT_REPLACEMENT_CHARACTER (inline images and emoji)
+]);
+
+const isSkipped = (char: string, codePoint: number) =>
+  codePoint < 0x20 || SKIPPED_CODE_POINTS.has(codePoint) || /\s/.test(char);
+
+/**
+ * book-pdf: records characters that no font in a fragment's fallback chain
+ * can draw. They still render (as the last font's .notdef box), so callers
+ * read the list from the font store after rendering and warn the user.
+ *
+ * @param fontStore - Font store
+ * @param fragments - Text fragments
+ */
+const reportMissingGlyphs = (fontStore: FontStore, fragments: Fragment[]) => {
+  for (let i = 0; i < fragments.length; i += 1) {
+    const { string, attributes } = fragments[i];
+    const fonts = (attributes?.font || []).filter(Boolean);
+    if (fonts.length === 0) continue;
+
+    for (const char of string) {
+      const codePoint = char.codePointAt(0);
+      if (isSkipped(char, codePoint)) continue;
+
+      const hasGlyph = fonts.some(
+        (font) =>
+          font.hasGlyphForCodePoint && font.hasGlyphForCodePoint(codePoint),
+      );
+      if (!hasGlyph) {
+        fontStore.reportMissingGlyph(
+          codePoint,
+          fonts.map((font) => font.familyName),
+        );
+      }
+    }
+  }
+};
+
+export default reportMissingGlyphs;
@@ -86,6 +86,23 @@ interface PageProps extends NodeProps {
   size?: PageSize;
   orientation?: Orientation;
   dpi?: number;
+  /**
+   * Start this page on a right-hand (odd) page, inserting a blank page if needed.
+   */
+  recto?: boolean;
+  /**
+   * Swap left and right padding on left-hand (even) pages.
+   */
+  mirrorMargins?: boolean;
+  /**
+   * Print bleed in points on the outer edge, top and bottom. Sets the PDF
+   * TrimBox and BleedBox; the page size must already include the bleed.
+   */
+  bleed?: number;
+  /**
+   * Bleed on all four edges instead of the outer edge, for a cover spread.
+   */
+  spread?: boolean;
 }
 
 export type PageNode = {
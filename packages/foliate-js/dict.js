@@ -23,7 +23,7 @@ class DictZip {
         if (header.getUint8(0) !== 31 || header.getUint8(1) !== 139
         || header.getUint8(2) !== 8) throw new Error('Not a DictZip file')
         const flg = header.getUint8(3)
-        if (!flg & 0b100) throw new Error('Missing FEXTRA flag')
+        if (!(flg & 0b100)) throw new Error('Missing FEXTRA flag')
 
         const xlen = header.getUint16(10, true)
         const extra = new DataView(await file.slice(12, 12 + xlen).arrayBuffer())
@@ -60,7 +60,7 @@ class DictZip {
     async read(offset, size) {
         const chunks = this.#chunks
         const startIndex = Math.trunc(offset / this.#chlen)
-        const endIndex = Math.trunc((offset + size) / this.#chlen)
+        const endIndex = Math.trunc((offset + size - 1) / this.#chlen)
         const buf = await this.#compressed.slice(chunks[startIndex][0],
             chunks[endIndex][0] + chunks[endIndex][1]).arrayBuffer()
         let arr = new Uint8Array()
@@ -74,20 +74,42 @@ class DictZip {
     }
 }
 
+// uncompressed .dict file
+class DictFile {
+    #file
+    constructor(file) {
+        this.#file = file
+    }
+    async read(offset, size) {
+        return new Uint8Array(await this.#file.slice(offset, offset + size).arrayBuffer())
+    }
+}
+
+const isDictZip = async file => {
+    const magic = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+    return magic[0] === 31 && magic[1] === 139
+}
+
+const loadDictFile = async (file, inflate) => {
+    if (!await isDictZip(file)) return new DictFile(file)
+    const dict = new DictZip()
+    dict.inflate = inflate
+    await dict.load(file)
+    return dict
+}
+
 class Index {
     strcmp = strcmp
     // binary search
     bisect(query, start = 0, end = this.words.length - 1) {
-        if (end - start === 1) {
-            if (!this.strcmp(query, this.getWord(start))) return start
-            if (!this.strcmp(query, this.getWord(end))) return end
-            return null
+        while (start <= end) {
+            const mid = Math.floor(start + (end - start) / 2)
+            const cmp = this.strcmp(query, this.getWord(mid))
+            if (cmp < 0) end = mid - 1
+            else if (cmp > 0) start = mid + 1
+            else return mid
         }
-        const mid = Math.floor(start + (end - start) / 2)
-        const cmp = this.strcmp(query, this.getWord(mid))
-        if (cmp < 0) return this.bisect(query, start, mid)
-        if (cmp > 0) return this.bisect(query, mid, end)
-        return mid
+        return null
     }
     // check for multiple definitions
     checkAdjacent(query, i) {
@@ -132,6 +154,7 @@ class DictdIndex extends Index {
         const sizes = []
         for (const line of decode(await file.arrayBuffer()).split('\n')) {
             const a = line.split('\t')
+            if (a.length < 3) continue
             words.push(a[0])
             offsets.push(decodeBase64Number(a[1]))
             sizes.push(decodeBase64Number(a[2]))
@@ -143,17 +166,19 @@ class DictdIndex extends Index {
 }
 
 export class DictdDict {
-    #dict = new DictZip()
+    #dict
     #idx = new DictdIndex()
-    loadDict(file, inflate) {
-        this.#dict.inflate = inflate
-        return this.#dict.load(file)
+    async loadDict(file, inflate) {
+        this.#dict = await loadDictFile(file, inflate)
+    }
+    loadIndex(file) {
+        return this.#idx.load(file)
     }
     async #readWord(i) {
         const word = this.#idx.getWord(i)
         const offset = this.#idx.offsets[i]
         const size = this.#idx.sizes[i]
-        return { word, data: ['m', this.#dict.read(offset, size)] }
+        return { word, data: [['m', await this.#dict.read(offset, size)]] }
     }
     #readWords(arr) {
         return Promise.all(arr.map(this.#readWord.bind(this)))
@@ -197,10 +222,42 @@ class StarDictIndex extends Index {
     }
 }
 
+// fields in a StarDict article: lowercase types are NUL-terminated strings,
+// uppercase types are preceded by their size (a 32-bit big-endian integer);
+// with `sametypesequence` the types are omitted, and so is the terminator or
+// size of the last field
+const parseStarDictData = (data, seq) => {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    const fields = []
+    let i = 0
+    const readField = (type, isLast) => {
+        if (type === type.toUpperCase()) {
+            if (isLast) return data.subarray(i, i = data.length)
+            const size = view.getUint32(i)
+            i += 4
+            return data.subarray(i, i += size)
+        }
+        if (isLast) return data.subarray(i, i = data.length)
+        let end = data.indexOf(0, i)
+        if (end < 0) end = data.length
+        const field = data.subarray(i, end)
+        i = end + 1
+        return field
+    }
+    if (seq) for (let j = 0; j < seq.length && i < data.length; j++)
+        fields.push([seq[j], readField(seq[j], j === seq.length - 1)])
+    else while (i < data.length) {
+        const type = String.fromCharCode(data[i++])
+        fields.push([type, readField(type, false)])
+    }
+    return fields
+}
+
 export class StarDict {
-    #dict = new DictZip()
+    #dict
     #idx = new StarDictIndex()
     #syn = Object.assign(new StarDictIndex(), { isSyn: true })
+    #hasSyn = false
     async loadIfo(file) {
         const str = decode(await file.arrayBuffer())
         this.ifo = Object.fromEntries(str.split('\n').map(line => {
@@ -209,25 +266,23 @@ export class StarDict {
             return [line.slice(0, sep), line.slice(sep + 1)]
         }).filter(x => x))
     }
-    loadDict(file, inflate) {
-        this.#dict.inflate = inflate
-        return this.#dict.load(file)
+    async loadDict(file, inflate) {
+        this.#dict = await loadDictFile(file, inflate)
     }
     loadIdx(file) {
         return this.#idx.load(file)
     }
-    loadSyn(file) {
-        if (file) return this.#syn.load(file)
+    async loadSyn(file) {
+        if (!file) return
+        await this.#syn.load(file)
+        this.#hasSyn = true
     }
     async #readWord(i) {
         const word = this.#idx.getWord(i)
         const offset = this.#idx.offsets[i]
         const size = this.#idx.sizes[i]
         const data = await this.#dict.read(offset, size)
-        const seq = this.ifo.sametypesequence
-        if (!seq) throw new Error('TODO')
-        if (seq.length === 1) return { word, data: [[seq[0], data]] }
-        throw new Error('TODO')
+        return { word, data: parseStarDictData(data, this.ifo.sametypesequence) }
     }
     #readWords(arr) {
         return Promise.all(arr.map(this.#readWord.bind(this)))
@@ -236,6 +291,7 @@ export class StarDict {
         return this.#readWords(this.#idx.lookup(query))
     }
     synonyms(query) {
+        if (!this.#hasSyn) return Promise.resolve([])
         return this.#readWords(this.#syn.lookup(query).map(i => this.#syn.offsets[i]))
     }
 }
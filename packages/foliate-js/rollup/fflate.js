@@ -1 +1 @@
-export { unzlibSync } from 'fflate'
+export { unzlibSync, Inflate } from 'fflate'